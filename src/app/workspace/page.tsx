@@ -7,17 +7,24 @@ import { useNumberFormat } from '@/contexts/NumberFormatContext'
 import { useAuth } from '@/contexts/AuthContext'
 import { useCloudSync } from '@/hooks/useCloudSync'
 import EMICalculator from '@/components/calculators/EMICalculator'
+import LoanPortfolioCalculator from '@/components/calculators/LoanPortfolioCalculator'
 import SIPCalculator from '@/components/calculators/SIPCalculator'
 import FDCalculator from '@/components/calculators/FDCalculator'
 import LumpsumCalculator from '@/components/calculators/LumpsumCalculator'
+import SWPCalculator from '@/components/calculators/SWPCalculator'
 import CompoundCalculator from '@/components/calculators/CompoundCalculator'
 import PPFCalculator from '@/components/calculators/PPFCalculator'
+import EPFCalculator from '@/components/calculators/EPFCalculator'
+import NPSCalculator from '@/components/calculators/NPSCalculator'
+import SSYCalculator from '@/components/calculators/SSYCalculator'
+import RetirementCalculator from '@/components/calculators/RetirementCalculator'
 import RDCalculator from '@/components/calculators/RDCalculator'
 import CAGRCalculator from '@/components/calculators/CAGRCalculator'
 import GratuityCalculator from '@/components/calculators/GratuityCalculator'
 import HRACalculator from '@/components/calculators/HRACalculator'
 import GSTCalculator from '@/components/calculators/GSTCalculator'
 import TaxCalculator from '@/components/calculators/TaxCalculator'
+import AdvanceTaxCalculator from '@/components/calculators/AdvanceTaxCalculator'
 import SalaryCalculator from '@/components/calculators/SalaryCalculator'
 import GoalCalculator from '@/components/calculators/GoalCalculator'
 import WorldClock from '@/components/calculators/WorldClock'
@@ -33,11 +40,16 @@ const CALCULATOR_GROUPS = [
     name: 'Financial',
     items: [
       { id: 'emi', name: 'EMI Calculator', icon: '🏠', accent: 'blue', accentBg: 'bg-blue-50', accentText: 'text-blue-600', accentBorder: 'border-blue-200' },
+      { id: 'loans', name: 'Loan Portfolio', icon: '💳', accent: 'sky', accentBg: 'bg-sky-50', accentText: 'text-sky-600', accentBorder: 'border-sky-200' },
       { id: 'sip', name: 'SIP Calculator', icon: '📈', accent: 'emerald', accentBg: 'bg-emerald-50', accentText: 'text-emerald-600', accentBorder: 'border-emerald-200' },
       { id: 'fd', name: 'FD Calculator', icon: '🏦', accent: 'amber', accentBg: 'bg-amber-50', accentText: 'text-amber-600', accentBorder: 'border-amber-200' },
       { id: 'lumpsum', name: 'Lumpsum', icon: '💰', accent: 'violet', accentBg: 'bg-violet-50', accentText: 'text-violet-600', accentBorder: 'border-violet-200' },
+      { id: 'swp', name: 'SWP Calculator', icon: '💸', accent: 'violet', accentBg: 'bg-violet-50', accentText: 'text-violet-600', accentBorder: 'border-violet-200' },
       { id: 'compound', name: 'Compound Interest', icon: '📊', accent: 'rose', accentBg: 'bg-rose-50', accentText: 'text-rose-600', accentBorder: 'border-rose-200' },
       { id: 'ppf', name: 'PPF Calculator', icon: '🏛️', accent: 'indigo', accentBg: 'bg-indigo-50', accentText: 'text-indigo-600', accentBorder: 'border-indigo-200' },
+      { id: 'epf', name: 'EPF Calculator', icon: '🧓', accent: 'green', accentBg: 'bg-green-50', accentText: 'text-green-600', accentBorder: 'border-green-200' },
+      { id: 'nps', name: 'NPS Calculator', icon: '🏛️', accent: 'blue', accentBg: 'bg-blue-50', accentText: 'text-blue-600', accentBorder: 'border-blue-200' },
+      { id: 'ssy', name: 'Sukanya Samriddhi', icon: '👧', accent: 'rose', accentBg: 'bg-rose-50', accentText: 'text-rose-600', accentBorder: 'border-rose-200' },
       { id: 'rd', name: 'RD Calculator', icon: '📅', accent: 'purple', accentBg: 'bg-purple-50', accentText: 'text-purple-600', accentBorder: 'border-purple-200' },
       { id: 'cagr', name: 'CAGR Calculator', icon: '📉', accent: 'lime', accentBg: 'bg-lime-50', accentText: 'text-lime-600', accentBorder: 'border-lime-200' },
       { id: 'gratuity', name: 'Gratuity', icon: '🎁', accent: 'fuchsia', accentBg: 'bg-fuchsia-50', accentText: 'text-fuchsia-600', accentBorder: 'border-fuchsia-200' },
@@ -49,9 +61,11 @@ const CALCULATOR_GROUPS = [
     name: 'Tax & Planning',
     items: [
       { id: 'tax', name: 'Tax Planner', icon: '🧮', accent: 'cyan', accentBg: 'bg-cyan-50', accentText: 'text-cyan-600', accentBorder: 'border-cyan-200' },
+      { id: 'advancetax', name: 'Advance Tax', icon: '🗓️', accent: 'teal', accentBg: 'bg-teal-50', accentText: 'text-teal-600', accentBorder: 'border-teal-200' },
       { id: 'realestate', name: 'Real Estate CG', icon: '🏡', accent: 'purple', accentBg: 'bg-purple-50', accentText: 'text-purple-600', accentBorder: 'border-purple-200' },
       { id: 'salary', name: 'Salary Breakdown', icon: '💼', accent: 'orange', accentBg: 'bg-orange-50', accentText: 'text-orange-600', accentBorder: 'border-orange-200' },
       { id: 'goal', name: 'Goal Planner', icon: '🎯', accent: 'pink', accentBg: 'bg-pink-50', accentText: 'text-pink-600', accentBorder: 'border-pink-200' },
+      { id: 'retirement', name: 'Retirement Planner', icon: '🏖️', accent: 'amber', accentBg: 'bg-amber-50', accentText: 'text-amber-600', accentBorder: 'border-amber-200' },
     ],
   },
   {
@@ -463,19 +477,26 @@ function WorkspaceContent() {
                   </h1>
                   <p className="text-sm text-slate-500">
                     {activeCalc === 'emi' && 'Calculate your monthly loan payment'}
+                    {activeCalc === 'loans' && 'Plan payoff of multiple loans with avalanche or snowball'}
                     {activeCalc === 'sip' && 'Plan your systematic investments'}
                     {activeCalc === 'fd' && 'Calculate fixed deposit returns'}
                     {activeCalc === 'lumpsum' && 'Calculate one-time investment growth'}
+                    {activeCalc === 'swp' && 'Plan monthly withdrawals from your corpus and see how long it lasts'}
                     {activeCalc === 'compound' && 'See the power of compound interest'}
                     {activeCalc === 'ppf' && 'Calculate PPF returns with tax benefits'}
+                    {activeCalc === 'epf' && 'Project your EPF corpus and EPS pension to retirement'}
+                    {activeCalc === 'nps' && 'Project your NPS corpus, annuity pension and tax savings'}
+                    {activeCalc === 'ssy' && 'Plan a Sukanya Samriddhi account from opening to maturity'}
                     {activeCalc === 'rd' && 'Plan your recurring deposits'}
-                    {activeCalc === 'cagr' && 'Find your compound annual growth rate'}
+                    {activeCalc === 'cagr' && 'Find your CAGR, or XIRR for irregular cash flows'}
                     {activeCalc === 'gratuity' && 'Estimate your gratuity payout'}
                     {activeCalc === 'hra' && 'Calculate HRA tax exemption'}
                     {activeCalc === 'gst' && 'Add or remove GST from prices'}
                     {activeCalc === 'tax' && 'Compare old vs new tax regime'}
+                    {activeCalc === 'advancetax' && 'Plan advance tax installments and 234B/234C interest'}
                     {activeCalc === 'salary' && 'See your CTC to take-home breakdown'}
                     {activeCalc === 'goal' && 'Plan your financial goals'}
+                    {activeCalc === 'retirement' && 'Size your retirement corpus and the SIP needed to reach it'}
                     {activeCalc === 'clock' && 'Track time across the world'}
                     {activeCalc === 'col' && 'Compare cost of living between cities'}
                     {activeCalc === 'trip' && 'Plan your travel budget'}
@@ -524,19 +545,26 @@ function WorkspaceContent() {
 
             {/* Calculator Component */}
             {activeCalc === 'emi' && <EMICalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
+            {activeCalc === 'loans' && <LoanPortfolioCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
             {activeCalc === 'sip' && <SIPCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
             {activeCalc === 'fd' && <FDCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
             {activeCalc === 'lumpsum' && <LumpsumCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
+            {activeCalc === 'swp' && <SWPCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
             {activeCalc === 'compound' && <CompoundCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
             {activeCalc === 'ppf' && <PPFCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
+            {activeCalc === 'epf' && <EPFCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
+            {activeCalc === 'nps' && <NPSCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
+            {activeCalc === 'ssy' && <SSYCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
             {activeCalc === 'rd' && <RDCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
             {activeCalc === 'cagr' && <CAGRCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
             {activeCalc === 'gratuity' && <GratuityCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
             {activeCalc === 'hra' && <HRACalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
             {activeCalc === 'gst' && <GSTCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
             {activeCalc === 'tax' && <TaxCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
+            {activeCalc === 'advancetax' && <AdvanceTaxCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
             {activeCalc === 'salary' && <SalaryCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
             {activeCalc === 'goal' && <GoalCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
+            {activeCalc === 'retirement' && <RetirementCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
             {activeCalc === 'clock' && <WorldClock ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
             {activeCalc === 'col' && <COLCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
             {activeCalc === 'trip' && <TripCalculator ref={calculatorRef as React.RefObject<{ exportToPDF: () => void; exportToHTML: () => void; exportToExcel: () => void; handleClear: () => void }>} />}
@@ -572,7 +600,9 @@ function AboutSources() {
       category: 'Government Rates',
       items: [
         { name: 'PPF Interest Rate', value: '7.1% p.a.', source: 'Ministry of Finance, Q4 FY25', url: 'https://www.nsiindia.gov.in' },
-        { name: 'Income Tax Slabs', value: 'FY 2024-25', source: 'Income Tax Department', url: 'https://incometaxindia.gov.in' },
+        { name: 'EPF Interest Rate', value: '8.25% p.a.', source: 'EPFO, FY 2023-24', url: 'https://www.epfindia.gov.in' },
+        { name: 'SSY Interest Rate', value: '8.2% p.a.', source: 'Ministry of Finance', url: 'https://www.nsiindia.gov.in' },
+        { name: 'Income Tax Slabs', value: 'FY 2023-24 to FY 2025-26', source: 'Income Tax Department', url: 'https://incometaxindia.gov.in' },
         { name: 'GST Rates', value: '0%, 5%, 12%, 18%, 28%', source: 'GST Council', url: 'https://gstcouncil.gov.in' },
         { name: 'Gratuity Tax Exemption', value: '₹20 Lakhs', source: 'Payment of Gratuity Act', url: null },
         { name: 'Section 80C Limit', value: '₹1.5 Lakhs', source: 'Income Tax Act', url: null },
@@ -585,6 +615,7 @@ function AboutSources() {
         { name: 'Currency Exchange Rates', value: '24 currencies', source: 'Static rates, Jan 2025', url: null, note: 'For reference only. Actual rates vary.' },
         { name: 'FD Interest Rates', value: '6-7% typical', source: 'Bank averages', url: null },
         { name: 'Expected Returns (SIP/Lumpsum)', value: 'User input', source: 'Historical Nifty ~12%', url: null },
+        { name: 'Index History (SIP Backtest)', value: 'Nifty 50, Sensex (price index), Gold', source: 'NSE & BSE year-end closes', url: null, note: 'Yearly price-index data, interpolated monthly; excludes dividends.' },
       ],
     },
     {
@@ -593,6 +624,7 @@ function AboutSources() {
         { name: 'Cost of Living Index', value: '28 Indian cities', source: 'Numbeo, Mercer COL surveys', url: 'https://www.numbeo.com', note: 'Base: Mumbai = 100' },
         { name: 'HRA Exemption Rules', value: 'Metro 50%, Non-Metro 40%', source: 'Income Tax Act Sec 10(13A)', url: null },
         { name: 'EPF Contribution', value: '12% of Basic', source: 'EPFO Guidelines', url: 'https://www.epfindia.gov.in' },
+        { name: 'NPS Lifecycle Funds', value: 'LC25 / LC50 / LC75', source: 'PFRDA', url: 'https://www.pfrda.org.in' },
         { name: 'Professional Tax', value: '₹2,400/year (max)', source: 'State-wise limits', url: null },
       ],
     },
@@ -0,0 +1,205 @@
+'use client'
+
+import { Area, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { useNumberFormat } from '@/contexts/NumberFormatContext'
+import { MONTE_CARLO_PATH_OPTIONS } from '@/lib/calculations'
+import { MonteCarloResult, MonteCarloSettings } from '@/types'
+
+export const DEFAULT_MONTE_CARLO_SETTINGS: MonteCarloSettings = {
+  enabled: false,
+  volatility: 15,
+  paths: 1000,
+}
+
+interface MonteCarloPanelProps {
+  settings: MonteCarloSettings
+  onChange: (settings: MonteCarloSettings) => void
+  result: MonteCarloResult | null
+  meanReturn: number
+  targetAmount?: number
+  targetLabel?: string
+  color: string // hex, used for the fan chart and highlights
+}
+
+export function MonteCarloPanel({
+  settings,
+  onChange,
+  result,
+  meanReturn,
+  targetAmount,
+  targetLabel = 'the goal',
+  color,
+}: MonteCarloPanelProps) {
+  const { formatCurrencyCompact } = useNumberFormat()
+
+  const chartData = result?.years.map((year) => ({
+    year: year.year,
+    band: [year.p10, year.p90],
+    p50: year.p50,
+    invested: year.invested,
+  }))
+
+  return (
+    <details open={settings.enabled} className="bg-white border border-slate-200 rounded-xl">
+      <summary
+        className="px-4 py-3 text-sm font-semibold text-slate-700 cursor-pointer hover:bg-slate-50 flex items-center justify-between"
+        onClick={(e) => {
+          e.preventDefault()
+          onChange({ ...settings, enabled: !settings.enabled })
+        }}
+      >
+        <div className="flex items-center gap-2">
+          <span className="text-lg">🎲</span>
+          <span>Monte Carlo Simulator</span>
+          <span className="text-[10px] font-normal text-slate-400 bg-slate-100 px-2 py-0.5 rounded">Market uncertainty</span>
+        </div>
+        <svg
+          className={`w-4 h-4 text-slate-400 transition-transform ${settings.enabled ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </summary>
+      {settings.enabled && result && chartData && (
+        <div className="px-4 pb-4 pt-2">
+          <p className="text-xs text-slate-500 mb-4">
+            Markets don&apos;t return {meanReturn}% every year. This runs {settings.paths.toLocaleString('en-IN')} random
+            paths averaging {meanReturn}% a year with the volatility below, and shows the spread of outcomes.
+          </p>
+
+          {/* Settings */}
+          <div className="grid sm:grid-cols-2 gap-4 mb-4">
+            <div>
+              <div className="flex justify-between items-baseline mb-2">
+                <label className="text-sm font-medium text-slate-600">Volatility</label>
+                <span className="font-mono text-base font-semibold text-slate-900">{settings.volatility}% p.a.</span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={40}
+                step={1}
+                value={settings.volatility}
+                onChange={(e) => onChange({ ...settings, volatility: Number(e.target.value) })}
+                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer"
+                style={{ accentColor: color }}
+              />
+              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                <span>0% (Fixed rate)</span>
+                <span>~15–20% Equity</span>
+                <span>40%</span>
+              </div>
+            </div>
+            <div>
+              <label className="text-sm font-medium text-slate-600 mb-2 block">Simulation Paths</label>
+              <div className="grid grid-cols-4 gap-1.5">
+                {MONTE_CARLO_PATH_OPTIONS.map((paths) => (
+                  <button
+                    key={paths}
+                    onClick={() => onChange({ ...settings, paths })}
+                    className={`py-1.5 text-xs font-medium rounded border transition-colors ${
+                      settings.paths === paths
+                        ? 'bg-slate-800 text-white border-slate-800'
+                        : 'bg-white text-slate-600 border-slate-200 hover:border-slate-400'
+                    }`}
+                  >
+                    {paths.toLocaleString('en-IN')}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Percentile bands */}
+          <div className="grid grid-cols-3 gap-2 mb-4">
+            <div className="bg-slate-50 rounded-lg p-3 text-center">
+              <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Pessimistic (P10)</div>
+              <div className="font-mono text-sm font-semibold text-slate-900">{formatCurrencyCompact(result.p10)}</div>
+            </div>
+            <div className="rounded-lg p-3 text-center" style={{ backgroundColor: `${color}1a` }}>
+              <div className="text-[9px] uppercase tracking-wide mb-0.5" style={{ color }}>Median (P50)</div>
+              <div className="font-mono text-sm font-bold text-slate-900">{formatCurrencyCompact(result.p50)}</div>
+            </div>
+            <div className="bg-slate-50 rounded-lg p-3 text-center">
+              <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Optimistic (P90)</div>
+              <div className="font-mono text-sm font-semibold text-slate-900">{formatCurrencyCompact(result.p90)}</div>
+            </div>
+          </div>
+
+          {result.probabilityOfTarget !== null && targetAmount !== undefined && (
+            <div className="mb-4">
+              <div className="flex justify-between text-xs mb-1">
+                <span className="text-slate-600">
+                  Chance of reaching {targetLabel} ({formatCurrencyCompact(targetAmount)})
+                </span>
+                <span className="font-mono font-semibold" style={{ color }}>{result.probabilityOfTarget}%</span>
+              </div>
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div className="h-full rounded-full" style={{ width: `${result.probabilityOfTarget}%`, backgroundColor: color }} />
+              </div>
+            </div>
+          )}
+
+          {/* Fan chart */}
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 5, right: 5, bottom: 0, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+                <XAxis
+                  dataKey="year"
+                  tickFormatter={(year) => `Y${year}`}
+                  tick={{ fontSize: 10, fill: '#94a3b8' }}
+                  axisLine={false}
+                  tickLine={false}
+                />
+                <YAxis
+                  tickFormatter={(value) => formatCurrencyCompact(Number(value))}
+                  tick={{ fontSize: 10, fill: '#94a3b8' }}
+                  axisLine={false}
+                  tickLine={false}
+                  width={64}
+                />
+                <Tooltip
+                  formatter={(value, name) => [
+                    Array.isArray(value)
+                      ? `${formatCurrencyCompact(Number(value[0]))} – ${formatCurrencyCompact(Number(value[1]))}`
+                      : formatCurrencyCompact(Number(value)),
+                    name,
+                  ]}
+                  labelFormatter={(year) => `Year ${year}`}
+                  contentStyle={{ fontSize: 11, borderRadius: 8, border: '1px solid #e2e8f0' }}
+                />
+                <Area dataKey="band" name="P10 – P90" stroke="none" fill={color} fillOpacity={0.18} isAnimationActive={false} />
+                <Line dataKey="p50" name="Median" stroke={color} strokeWidth={2} dot={false} isAnimationActive={false} />
+                <Line
+                  dataKey="invested"
+                  name="Invested"
+                  stroke="#94a3b8"
+                  strokeDasharray="4 4"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="flex items-center gap-4 mt-2 text-[10px] text-slate-600">
+            <div className="flex items-center gap-1.5">
+              <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: color, opacity: 0.3 }} />
+              P10 – P90 range
+            </div>
+            <div className="flex items-center gap-1.5">
+              <span className="w-2.5 h-0.5" style={{ backgroundColor: color }} />
+              Median
+            </div>
+            <div className="flex items-center gap-1.5">
+              <span className="w-2.5 h-0.5 bg-slate-400" />
+              Invested
+            </div>
+          </div>
+        </div>
+      )}
+    </details>
+  )
+}
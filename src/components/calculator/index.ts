@@ -2,3 +2,4 @@ export { CalculatorCard } from './CalculatorCard'
 export { NumberInput } from './NumberInput'
 export { ResultDisplay, ResultDisplayCompact } from './ResultDisplay'
 export { ChartDisplay, ChartLegend } from './ChartDisplay'
+export { MonteCarloPanel, DEFAULT_MONTE_CARLO_SETTINGS } from './MonteCarloPanel'
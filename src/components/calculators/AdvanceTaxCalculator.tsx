@@ -0,0 +1,696 @@
+'use client'
+
+import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
+import { useNumberFormat } from '@/contexts/NumberFormatContext'
+import { useCloudSync } from '@/hooks/useCloudSync'
+import {
+  calculateTax,
+  calculateBusinessIncome,
+  calculateAdvanceTax,
+  getTaxRules,
+  isFinancialYear,
+  FINANCIAL_YEARS,
+  LATEST_FY,
+  NO_TAX_DEDUCTIONS,
+  NO_CAPITAL_GAINS,
+  ADVANCE_TAX_THRESHOLD,
+} from '@/lib/calculations'
+import { AdvanceTaxPayment, BusinessIncomeInput, CapitalGainsIncome, FinancialYear, TaxDeductions, TaxRegime } from '@/types'
+
+const MAX_PAYMENTS = 12
+
+// 'planner' takes the liability from the saved Tax Planner inputs; 'manual' uses an entered amount
+type LiabilitySource = 'planner' | 'manual'
+
+interface PlannerData {
+  salaryIncome: number
+  business: BusinessIncomeInput | null // set when the Tax Planner is in business / profession mode
+  declareBooks: boolean
+  deductions: TaxDeductions
+  capitalGains: CapitalGainsIncome
+}
+
+// Business income as the Tax Planner declares it: presumptive where eligible, unless books were chosen
+function getPlannerBusinessIncome(planner: PlannerData, fy: FinancialYear): number {
+  if (!planner.business) return 0
+  const business = calculateBusinessIncome(planner.business, fy)
+  return business.eligible && !planner.declareBooks ? business.presumptiveIncome : business.booksIncome
+}
+
+const REGIME_NAMES: Record<TaxRegime, string> = {
+  old: 'Old Regime',
+  new: 'New Regime',
+}
+
+function formatIndianNumber(num: number): string {
+  const str = Math.round(num).toString()
+  let result = ''
+  let count = 0
+
+  for (let i = str.length - 1; i >= 0; i--) {
+    if (count === 3 || (count > 3 && (count - 3) % 2 === 0)) {
+      result = ',' + result
+    }
+    result = str[i] + result
+    count++
+  }
+
+  return result
+}
+
+// Static format for PDF/HTML exports (always Indian format)
+function formatCompactStatic(num: number): string {
+  if (num >= 10000000) return `₹${(num / 10000000).toFixed(2)}Cr`
+  if (num >= 100000) return `₹${(num / 100000).toFixed(2)}L`
+  if (num >= 1000) return `₹${(num / 1000).toFixed(1)}K`
+  return `₹${Math.round(num)}`
+}
+
+// '2025-06-15' → '15 Jun 2025'
+function formatDate(date: string): string {
+  if (!date) return '-'
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })
+}
+
+// Self-assessment tax is usually paid by the 31 July return due date of the assessment year
+function defaultBalanceDate(fy: FinancialYear): string {
+  return `${parseInt(fy.slice(0, 4)) + 1}-07-31`
+}
+
+export interface AdvanceTaxCalculatorRef {
+  exportToPDF: () => void
+  exportToHTML: () => void
+  exportToExcel: () => void
+  handleClear: () => void
+}
+
+const AdvanceTaxCalculator = forwardRef<AdvanceTaxCalculatorRef>(function AdvanceTaxCalculator(props, ref) {
+  const { formatCurrencyCompact } = useNumberFormat()
+  const { syncCalculator } = useCloudSync()
+  const [fy, setFy] = useState<FinancialYear>(LATEST_FY)
+  const [source, setSource] = useState<LiabilitySource>('planner')
+  const [regime, setRegime] = useState<TaxRegime>('new')
+  const [manualTax, setManualTax] = useState(250000)
+  const [tds, setTds] = useState(0)
+  const [payments, setPayments] = useState<AdvanceTaxPayment[]>([])
+  const [nextPaymentId, setNextPaymentId] = useState(1)
+  const [presumptive, setPresumptive] = useState(false)
+  const [balanceDate, setBalanceDate] = useState(defaultBalanceDate(LATEST_FY))
+  // Saved inputs of the Tax Planner, used to compute the year's liability
+  const [planner, setPlanner] = useState<PlannerData | null>(null)
+  const [lastSaved, setLastSaved] = useState<string | null>(null)
+  const [isLoaded, setIsLoaded] = useState(false)
+  const [notes, setNotes] = useState('')
+  const [showNotes, setShowNotes] = useState(false)
+  const calculatorRef = useRef<HTMLDivElement>(null)
+
+  // Load from localStorage
+  useEffect(() => {
+    const saved = localStorage.getItem('calc_advancetax')
+    if (saved) {
+      const data = JSON.parse(saved)
+      const savedFy = isFinancialYear(data.fy) ? data.fy : LATEST_FY
+      setFy(savedFy)
+      setSource(data.source === 'manual' ? 'manual' : 'planner')
+      setRegime(data.regime === 'old' ? 'old' : 'new')
+      setManualTax(data.manualTax ?? 250000)
+      setTds(data.tds || 0)
+      if (Array.isArray(data.payments)) {
+        setPayments(data.payments)
+        setNextPaymentId(Math.max(0, ...data.payments.map((p: AdvanceTaxPayment) => p.id)) + 1)
+      }
+      setPresumptive(!!data.presumptive)
+      setBalanceDate(data.balanceDate || defaultBalanceDate(savedFy))
+      setNotes(data.notes || '')
+    }
+    setIsLoaded(true)
+  }, [])
+
+  // Load the income, deductions and capital gains from the Tax Planner
+  useEffect(() => {
+    const loadPlannerData = () => {
+      try {
+        const saved = localStorage.getItem('calc_tax')
+        if (!saved) return
+        const data = JSON.parse(saved)
+        if (!data.grossIncome) return
+        const isBusiness = data.incomeType === 'business' && data.business
+        setPlanner({
+          salaryIncome: isBusiness ? data.salaryIncome || 0 : data.grossIncome,
+          business: isBusiness ? data.business : null,
+          declareBooks: data.businessBasis === 'books',
+          deductions: { ...NO_TAX_DEDUCTIONS, ...data.deductions },
+          capitalGains: { ...NO_CAPITAL_GAINS, ...data.capitalGains },
+        })
+      } catch (e) {
+        console.error('Failed to load tax planner data:', e)
+      }
+    }
+
+    loadPlannerData()
+    // Re-check when window gains focus (in case user updated the Tax Planner in another tab)
+    window.addEventListener('focus', loadPlannerData)
+    return () => window.removeEventListener('focus', loadPlannerData)
+  }, [])
+
+  // Auto-save to localStorage + cloud (only after initial load)
+  useEffect(() => {
+    if (!isLoaded) return
+    const data = { fy, source, regime, manualTax, tds, payments, presumptive, balanceDate, notes }
+    localStorage.setItem('calc_advancetax', JSON.stringify(data))
+    syncCalculator('advancetax', data) // Sync to cloud (debounced, only if logged in)
+    setLastSaved(new Date().toLocaleTimeString())
+  }, [fy, source, regime, manualTax, tds, payments, presumptive, balanceDate, notes, isLoaded, syncCalculator])
+
+  const handleClear = () => {
+    setFy(LATEST_FY)
+    setSource('planner')
+    setRegime('new')
+    setManualTax(250000)
+    setTds(0)
+    setPayments([])
+    setNextPaymentId(1)
+    setPresumptive(false)
+    setBalanceDate(defaultBalanceDate(LATEST_FY))
+    setNotes('')
+    localStorage.removeItem('calc_advancetax')
+  }
+
+  const handleFyChange = (year: FinancialYear) => {
+    setFy(year)
+    setBalanceDate(defaultBalanceDate(year))
+  }
+
+  // Payment helpers
+  const startYear = parseInt(fy.slice(0, 4))
+  const fyStart = `${startYear}-04-01`
+  const fyEnd = `${startYear + 1}-03-31`
+
+  const addPayment = () => {
+    if (payments.length >= MAX_PAYMENTS) return
+    const lastDate = payments.length > 0 ? payments[payments.length - 1].date : fyStart
+    setPayments([...payments, { id: nextPaymentId, date: lastDate, amount: 0 }])
+    setNextPaymentId(nextPaymentId + 1)
+  }
+
+  const removePayment = (id: number) => {
+    setPayments(payments.filter((p) => p.id !== id))
+  }
+
+  const updatePayment = <K extends keyof AdvanceTaxPayment>(id: number, field: K, value: AdvanceTaxPayment[K]) => {
+    setPayments(payments.map((p) => (p.id === id ? { ...p, [field]: value } : p)))
+  }
+
+  const rules = getTaxRules(fy)
+
+  const plannerTax = useMemo(
+    () =>
+      planner
+        ? calculateTax(planner.salaryIncome, planner.deductions, fy, planner.capitalGains, getPlannerBusinessIncome(planner, fy))
+        : null,
+    [planner, fy]
+  )
+
+  const fromPlanner = source === 'planner' && plannerTax !== null
+  const totalTax = fromPlanner ? (regime === 'old' ? plannerTax.taxOldRegime : plannerTax.taxNewRegime) : manualTax
+
+  const result = useMemo(
+    () =>
+      calculateAdvanceTax({
+        fy,
+        totalTax,
+        tds,
+        payments: payments.filter((p) => p.amount > 0),
+        presumptive,
+        balancePaymentDate: balanceDate,
+      }),
+    [fy, totalTax, tds, payments, presumptive, balanceDate]
+  )
+
+  const sortedPayments = [...payments].filter((p) => p.amount > 0).sort((a, b) => a.date.localeCompare(b.date))
+  const liabilityLabel = fromPlanner ? `Tax Planner (${REGIME_NAMES[regime]})` : 'Entered manually'
+
+  // Export functions
+  const exportToExcel = () => {
+    const csvContent = [
+      `Advance Tax Planner - ${rules.label}`,
+      `Generated: ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}`,
+      ``,
+      `LIABILITY`,
+      `Total Tax (${liabilityLabel}): ₹${formatIndianNumber(totalTax)}`,
+      `TDS / TCS: ₹${formatIndianNumber(tds)}`,
+      `Advance Tax Liability: ₹${formatIndianNumber(result.assessedTax)}`,
+      `Presumptive Income (44AD/44ADA): ${presumptive ? 'Yes' : 'No'}`,
+      ``,
+      `INSTALLMENTS (Due | Cumulative Due | Paid by Date | Shortfall | 234C Interest)`,
+      ...result.installments.map((inst) =>
+        `${formatDate(inst.dueDate)} (${inst.cumulativePercent}%): ₹${formatIndianNumber(inst.installmentAmount)} | ₹${formatIndianNumber(inst.requiredCumulative)} | ₹${formatIndianNumber(inst.paidCumulative)} | ₹${formatIndianNumber(inst.shortfall)} | ₹${formatIndianNumber(inst.interest234C)}`
+      ),
+      ``,
+      `PAYMENTS`,
+      ...sortedPayments.map((p) => `${formatDate(p.date)}: ₹${formatIndianNumber(p.amount)}`),
+      `Total Paid: ₹${formatIndianNumber(result.totalPaid)}`,
+      ``,
+      `INTEREST`,
+      `Section 234C: ₹${formatIndianNumber(result.interest234C)}`,
+      `Section 234B (${result.months234B} months): ₹${formatIndianNumber(result.interest234B)}`,
+      `Total Interest: ₹${formatIndianNumber(result.totalInterest)}`,
+      `Balance Tax Payable: ₹${formatIndianNumber(result.balancePayable)}`,
+      `Balance Payment Date: ${formatDate(balanceDate)}`,
+    ].join('\n')
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = `Advance_Tax_FY_${fy}.csv`
+    link.click()
+  }
+
+  const generateReportHTML = (forPrint: boolean) => `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <title>Advance Tax Report</title>
+        <style>
+          body { font-family: Arial, sans-serif; padding: 20px; color: #333; max-width: 900px; margin: 0 auto; }
+          h1 { color: #0d9488; font-size: 24px; margin-bottom: 5px; }
+          h2 { font-size: 16px; margin-top: 25px; margin-bottom: 15px; color: #475569; border-bottom: 2px solid #e2e8f0; padding-bottom: 8px; }
+          .subtitle { color: #64748b; margin-bottom: 20px; font-size: 13px; }
+          .summary { background: #f8fafc; padding: 15px; border-radius: 8px; margin: 20px 0; }
+          .summary-grid { display: grid; grid-template-columns: repeat(4, 1fr); gap: 15px; }
+          .summary-item { text-align: center; }
+          .summary-label { font-size: 10px; color: #64748b; text-transform: uppercase; letter-spacing: 0.5px; }
+          .summary-value { font-size: 18px; font-weight: bold; color: #0f172a; margin-top: 4px; }
+          table { width: 100%; border-collapse: collapse; margin-top: 15px; font-size: 11px; }
+          th { background: #f1f5f9; padding: 8px; text-align: right; font-weight: 600; color: #475569; }
+          th:first-child { text-align: left; }
+          td { padding: 6px 8px; border-bottom: 1px solid #e2e8f0; text-align: right; }
+          td:first-child { text-align: left; }
+          .total td { font-weight: bold; background: #f8fafc; }
+          .notes-section { background: #fffbeb; border: 1px solid #fcd34d; border-radius: 8px; padding: 15px; margin: 20px 0; }
+          .notes-title { font-size: 12px; font-weight: 600; color: #92400e; margin-bottom: 8px; }
+          .notes-content { font-size: 12px; color: #78350f; line-height: 1.6; white-space: pre-wrap; }
+          .footer { margin-top: 30px; text-align: center; font-size: 11px; color: #94a3b8; border-top: 1px solid #e2e8f0; padding-top: 15px; }
+          ${forPrint ? '@media print { body { padding: 10px; } }' : ''}
+        </style>
+      </head>
+      <body>
+        <h1>Advance Tax Report</h1>
+        <p class="subtitle">${rules.label} | Generated on ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}</p>
+
+        <div class="summary">
+          <div class="summary-grid">
+            <div class="summary-item">
+              <div class="summary-label">Total Tax</div>
+              <div class="summary-value">${formatCompactStatic(totalTax)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Net of TDS</div>
+              <div class="summary-value">${formatCompactStatic(result.assessedTax)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Paid</div>
+              <div class="summary-value">${formatCompactStatic(result.totalPaid)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Interest</div>
+              <div class="summary-value">₹${formatIndianNumber(result.totalInterest)}</div>
+            </div>
+          </div>
+        </div>
+        <p style="font-size: 12px; color: #64748b;">Liability source: ${liabilityLabel}${presumptive ? ' | Presumptive income (44AD/44ADA)' : ''}</p>
+
+        <h2>Installment Schedule</h2>
+        <table>
+          <tr><th>Due Date</th><th>Cumulative</th><th>Installment</th><th>Due by Date</th><th>Paid by Date</th><th>Shortfall</th><th>234C Interest</th></tr>
+          ${result.installments
+            .map(
+              (inst) => `<tr><td>${formatDate(inst.dueDate)}</td><td>${inst.cumulativePercent}%</td><td>₹${formatIndianNumber(inst.installmentAmount)}</td><td>₹${formatIndianNumber(inst.requiredCumulative)}</td><td>₹${formatIndianNumber(inst.paidCumulative)}</td><td>₹${formatIndianNumber(inst.shortfall)}</td><td>₹${formatIndianNumber(inst.interest234C)}</td></tr>`
+            )
+            .join('')}
+        </table>
+
+        ${sortedPayments.length > 0 ? `
+        <h2>Payments</h2>
+        <table>
+          <tr><th>Date</th><th>Amount</th></tr>
+          ${sortedPayments.map((p) => `<tr><td>${formatDate(p.date)}</td><td>₹${formatIndianNumber(p.amount)}</td></tr>`).join('')}
+          <tr class="total"><td>Total Paid</td><td>₹${formatIndianNumber(result.totalPaid)}</td></tr>
+        </table>
+        ` : ''}
+
+        <h2>Interest &amp; Balance</h2>
+        <table>
+          <tr><td>TDS / TCS</td><td>₹${formatIndianNumber(tds)}</td></tr>
+          <tr><td>Interest u/s 234C (deferment of installments)</td><td>₹${formatIndianNumber(result.interest234C)}</td></tr>
+          <tr><td>Interest u/s 234B (${result.months234B} months to ${formatDate(balanceDate)})</td><td>₹${formatIndianNumber(result.interest234B)}</td></tr>
+          <tr><td>Balance Tax Payable</td><td>₹${formatIndianNumber(result.balancePayable)}</td></tr>
+          <tr class="total"><td>Total Due with Self-assessment</td><td>₹${formatIndianNumber(result.balancePayable + result.totalInterest)}</td></tr>
+        </table>
+
+        ${notes && notes.trim() ? `
+        <div class="notes-section">
+          <div class="notes-title">Notes</div>
+          <div class="notes-content">${notes.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</div>
+        </div>
+        ` : ''}
+
+        <div class="footer">
+          Generated by AnyCalc — Calculate everything. Plan anything.
+        </div>
+      </body>
+      </html>
+    `
+
+  const exportToPDF = () => {
+    const printWindow = window.open('', '_blank')
+    if (printWindow) {
+      printWindow.document.write(generateReportHTML(true))
+      printWindow.document.close()
+      printWindow.print()
+    }
+  }
+
+  const exportToHTML = () => {
+    const blob = new Blob([generateReportHTML(false)], { type: 'text/html;charset=utf-8;' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = `Advance_Tax_FY_${fy}.html`
+    link.click()
+  }
+
+  useImperativeHandle(ref, () => ({
+    exportToPDF,
+    exportToHTML,
+    exportToExcel,
+    handleClear,
+  }))
+
+  return (
+    <div className="space-y-4" ref={calculatorRef}>
+      {/* Main Calculator Card */}
+      <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+        <div className="grid md:grid-cols-2">
+          {/* Inputs */}
+          <div className="p-4 sm:p-5 space-y-4 md:border-r border-slate-100">
+            {/* Financial Year */}
+            <div>
+              <label className="text-sm font-medium text-slate-600 mb-2 block">Financial Year</label>
+              <select
+                value={fy}
+                onChange={(e) => handleFyChange(e.target.value as FinancialYear)}
+                className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              >
+                {FINANCIAL_YEARS.map((year) => (
+                  <option key={year} value={year}>{getTaxRules(year).label}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Liability */}
+            <div>
+              <label className="text-sm font-medium text-slate-600 mb-2 block">Tax Liability for the Year</label>
+              <div className="grid grid-cols-2 gap-2 mb-2">
+                {(['planner', 'manual'] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setSource(option)}
+                    className={`py-1.5 text-xs font-medium rounded-lg transition-colors ${
+                      source === option ? 'bg-teal-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                    }`}
+                  >
+                    {option === 'planner' ? 'From Tax Planner' : 'Enter Amount'}
+                  </button>
+                ))}
+              </div>
+              {source === 'planner' && plannerTax && planner && (
+                <div className="p-3 bg-teal-50 rounded-lg border border-teal-100">
+                  <div className="text-[10px] text-teal-700 mb-2">
+                    Gross income ₹{formatIndianNumber(plannerTax.grossIncome)}
+                    {plannerTax.businessIncome > 0 && ` (business ₹${formatIndianNumber(plannerTax.businessIncome)})`} with the
+                    Tax Planner&apos;s deductions and capital gains
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['old', 'new'] as const).map((r) => (
+                      <button
+                        key={r}
+                        onClick={() => setRegime(r)}
+                        className={`text-left bg-white rounded-lg p-2 border transition-colors ${
+                          regime === r ? 'border-teal-400 ring-1 ring-teal-200' : 'border-transparent hover:border-slate-200'
+                        }`}
+                      >
+                        <div className="text-[10px] text-slate-500">
+                          {REGIME_NAMES[r]}
+                          {plannerTax.recommendation === r && <span className="ml-1 text-green-600">✓</span>}
+                        </div>
+                        <div className="font-mono text-sm font-semibold text-slate-900">
+                          ₹{formatIndianNumber(r === 'old' ? plannerTax.taxOldRegime : plannerTax.taxNewRegime)}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {source === 'planner' && !plannerTax && (
+                <div className="p-3 bg-amber-50 rounded-lg border border-amber-100 text-xs text-amber-700">
+                  No Tax Planner data found. Fill in the Tax Planner first, or enter the amount manually.
+                </div>
+              )}
+              {source === 'manual' && (
+                <div>
+                  <label className="text-[10px] font-medium text-slate-500 mb-1 block">Estimated Total Tax incl. Cess (₹)</label>
+                  <input
+                    type="number"
+                    value={manualTax}
+                    onChange={(e) => setManualTax(Math.max(0, Number(e.target.value)))}
+                    className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent font-mono"
+                    min={0}
+                    step={1000}
+                  />
+                </div>
+              )}
+            </div>
+
+            {/* TDS and presumptive income */}
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">TDS / TCS for the Year (₹)</label>
+                <input
+                  type="number"
+                  value={tds || ''}
+                  placeholder="0"
+                  onChange={(e) => setTds(Math.max(0, Number(e.target.value)))}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent font-mono"
+                  min={0}
+                  step={1000}
+                />
+              </div>
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Balance Paid On</label>
+                <input
+                  type="date"
+                  value={balanceDate}
+                  min={`${startYear + 1}-04-01`}
+                  onChange={(e) => setBalanceDate(e.target.value || defaultBalanceDate(fy))}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent font-mono"
+                />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={presumptive}
+                onChange={(e) => setPresumptive(e.target.checked)}
+                className="accent-teal-600"
+              />
+              Presumptive income (44AD / 44ADA) — single installment by 15 March
+            </label>
+
+            {/* Payments */}
+            <div className="pt-3 border-t border-slate-100">
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm font-medium text-slate-600">Advance Tax Paid</label>
+                <span className="text-[10px] text-slate-400">{payments.length}/{MAX_PAYMENTS}</span>
+              </div>
+              <div className="space-y-2">
+                {payments.map((payment) => (
+                  <div key={payment.id} className="flex items-center gap-2">
+                    <input
+                      type="date"
+                      value={payment.date}
+                      min={fyStart}
+                      max={fyEnd}
+                      onChange={(e) => updatePayment(payment.id, 'date', e.target.value)}
+                      className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent font-mono"
+                    />
+                    <input
+                      type="number"
+                      value={payment.amount || ''}
+                      placeholder="0"
+                      onChange={(e) => updatePayment(payment.id, 'amount', Math.max(0, Number(e.target.value)))}
+                      className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent font-mono"
+                      min={0}
+                      step={1000}
+                    />
+                    <button
+                      onClick={() => removePayment(payment.id)}
+                      className="p-1 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                      title="Remove payment"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={addPayment}
+                disabled={payments.length >= MAX_PAYMENTS}
+                className="w-full mt-2 py-2 text-sm font-medium text-teal-600 bg-teal-50 rounded-lg hover:bg-teal-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                Add Payment
+              </button>
+            </div>
+          </div>
+
+          {/* Results */}
+          <div className="p-4 sm:p-5 bg-slate-50">
+            <div className="bg-teal-50 rounded-lg p-4 text-center mb-4">
+              <div className="text-[10px] font-semibold uppercase tracking-wider text-teal-600 mb-1">
+                Interest u/s 234B + 234C
+              </div>
+              <div className="font-mono text-3xl font-bold text-slate-900">
+                ₹{formatIndianNumber(result.totalInterest)}
+              </div>
+              <div className="text-xs text-slate-500 mt-1">
+                {result.liable
+                  ? `Balance ₹${formatIndianNumber(result.balancePayable)} + interest due by ${formatDate(balanceDate)}`
+                  : `Tax net of TDS is below ₹${formatIndianNumber(ADVANCE_TAX_THRESHOLD)} — no advance tax needed`}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-1.5 sm:gap-2 mb-4">
+              <div className="bg-white rounded-lg p-2 sm:p-3 text-center">
+                <div className="text-[8px] sm:text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Net of TDS</div>
+                <div className="font-mono text-xs sm:text-sm font-semibold text-slate-900">{formatCurrencyCompact(result.assessedTax)}</div>
+              </div>
+              <div className="bg-white rounded-lg p-2 sm:p-3 text-center">
+                <div className="text-[8px] sm:text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Paid</div>
+                <div className="font-mono text-xs sm:text-sm font-semibold text-slate-900">{formatCurrencyCompact(result.totalPaid)}</div>
+              </div>
+              <div className="bg-white rounded-lg p-2 sm:p-3 text-center">
+                <div className="text-[8px] sm:text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Balance</div>
+                <div className="font-mono text-xs sm:text-sm font-semibold text-slate-900">{formatCurrencyCompact(result.balancePayable)}</div>
+              </div>
+            </div>
+
+            {/* Installments */}
+            <div className="space-y-2">
+              {result.installments.map((inst) => {
+                const onTrack = inst.shortfall === 0
+                return (
+                  <div key={inst.dueDate} className="bg-white rounded-lg p-3">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs font-semibold text-slate-700">
+                        {formatDate(inst.dueDate)}
+                        <span className="ml-2 text-[10px] font-normal text-slate-400">{inst.cumulativePercent}% cumulative</span>
+                      </span>
+                      <span className="font-mono text-xs text-slate-900">₹{formatIndianNumber(inst.installmentAmount)}</span>
+                    </div>
+                    <div className="flex items-center justify-between mt-1">
+                      <span className="text-[10px] text-slate-400">
+                        Paid ₹{formatIndianNumber(inst.paidCumulative)} of ₹{formatIndianNumber(inst.requiredCumulative)}
+                      </span>
+                      <span className={`font-mono text-[10px] ${onTrack || !result.liable ? 'text-green-600' : 'text-red-500'}`}>
+                        {inst.interest234C > 0
+                          ? `234C ₹${formatIndianNumber(inst.interest234C)}`
+                          : onTrack ? '✓ On track' : 'Within limit'}
+                      </span>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+
+            <div className="mt-4 pt-3 border-t border-slate-200 space-y-1 text-xs">
+              <div className="flex justify-between">
+                <span className="text-slate-500">Interest u/s 234C</span>
+                <span className="font-mono text-slate-900">₹{formatIndianNumber(result.interest234C)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-500">
+                  Interest u/s 234B {result.months234B > 0 && `(${result.months234B} months)`}
+                </span>
+                <span className="font-mono text-slate-900">₹{formatIndianNumber(result.interest234B)}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Auto-save indicator with subtle notes */}
+        <div className="px-5 py-2 bg-slate-50 border-t border-slate-100">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-[10px] text-slate-400">
+              <span className="w-1.5 h-1.5 bg-green-500 rounded-full" />
+              Auto-saved {lastSaved || 'just now'}
+            </div>
+            <button
+              onClick={() => setShowNotes(!showNotes)}
+              className={`flex items-center gap-1.5 px-2 py-1 rounded text-[10px] transition-colors ${
+                notes
+                  ? 'text-teal-600 bg-teal-50 hover:bg-teal-100'
+                  : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'
+              }`}
+              title={notes ? 'View note' : 'Add note'}
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+              </svg>
+              {notes ? 'Note' : 'Add note'}
+            </button>
+          </div>
+          {showNotes && (
+            <div className="mt-2 pt-2 border-t border-slate-200">
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Add a quick note..."
+                className="w-full h-16 p-2 text-xs text-slate-600 bg-white border border-slate-200 rounded resize-none focus:outline-none focus:ring-1 focus:ring-teal-400 focus:border-teal-400"
+                autoFocus
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* About Section */}
+      <details className="bg-white border border-slate-200 rounded-xl">
+        <summary className="px-4 py-3 text-sm font-medium text-slate-700 cursor-pointer hover:bg-slate-50">
+          About Advance Tax
+        </summary>
+        <div className="px-4 pb-4 text-sm text-slate-600 space-y-3">
+          <p>
+            If your tax for the year, after TDS, is ₹{formatIndianNumber(ADVANCE_TAX_THRESHOLD)} or more, you must pay it in
+            advance during the year — typically freelancers, consultants and anyone with large interest or capital gains.
+          </p>
+          <ul className="list-disc list-inside space-y-1 text-slate-500">
+            <li><strong>Due dates:</strong> 15% by 15 Jun, 45% by 15 Sep, 75% by 15 Dec, 100% by 15 Mar</li>
+            <li><strong>234C:</strong> 1% a month on each installment&apos;s shortfall — 3 months for Jun/Sep/Dec, 1 month for Mar. No interest if at least 12% is paid by June and 36% by September</li>
+            <li><strong>234B:</strong> if less than 90% is paid by 31 March, 1% a month on the unpaid tax from 1 April until it is paid (part of a month counts as a month)</li>
+            <li><strong>44AD / 44ADA:</strong> presumptive business and professional income can be paid in one installment by 15 March</li>
+          </ul>
+          <p className="text-slate-500">
+            Interest is computed on amounts rounded down to the nearest ₹100. Resident senior citizens without business income
+            are exempt from advance tax, and 234C relief for capital gains that arise later in the year is not modelled.
+          </p>
+        </div>
+      </details>
+    </div>
+  )
+})
+
+export default AdvanceTaxCalculator
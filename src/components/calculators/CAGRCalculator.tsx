@@ -1,15 +1,14 @@
 'use client'
 
 import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
-
-interface CAGRResult {
-  initialValue: number
-  finalValue: number
-  years: number
-  cagr: number
-  totalReturn: number
-  totalReturnPercent: number
-}
+import {
+  calculateCAGRSummary,
+  calculateFutureValue,
+  calculatePortfolioXIRR,
+  generateCAGRProjections,
+  parseTransactionsCSV,
+} from '@/lib/calculations'
+import { XIRRTransaction } from '@/types'
 
 function formatIndianNumber(num: number): string {
   const str = Math.round(num).toString()
@@ -34,31 +33,16 @@ function formatCompact(num: number): string {
   return `₹${Math.round(num)}`
 }
 
-// CAGR Formula: ((Final Value / Initial Value)^(1/years) - 1) * 100
-function calculateCAGR(initialValue: number, finalValue: number, years: number): CAGRResult {
-  const cagr = years > 0 ? (Math.pow(finalValue / initialValue, 1 / years) - 1) * 100 : 0
-  const totalReturn = finalValue - initialValue
-  const totalReturnPercent = initialValue > 0 ? (totalReturn / initialValue) * 100 : 0
-
-  return {
-    initialValue,
-    finalValue,
-    years,
-    cagr: Math.round(cagr * 100) / 100,
-    totalReturn: Math.round(totalReturn),
-    totalReturnPercent: Math.round(totalReturnPercent * 10) / 10,
-  }
+function todayISO(): string {
+  return new Date().toISOString().slice(0, 10)
 }
 
-// Generate yearly projections for visualization
-function generateProjections(initialValue: number, cagr: number, years: number): { year: number; value: number }[] {
-  const projections: { year: number; value: number }[] = []
-  for (let year = 0; year <= years; year++) {
-    const value = initialValue * Math.pow(1 + cagr / 100, year)
-    projections.push({ year, value: Math.round(value) })
-  }
-  return projections
-}
+const DEFAULT_TRANSACTIONS: XIRRTransaction[] = [
+  { date: '2021-04-10', amount: 50000, type: 'invest' },
+  { date: '2022-01-15', amount: 25000, type: 'invest' },
+  { date: '2022-11-05', amount: 40000, type: 'invest' },
+  { date: '2023-08-20', amount: 15000, type: 'withdraw' },
+]
 
 export interface CAGRCalculatorRef {
   exportToPDF: () => void
@@ -68,16 +52,21 @@ export interface CAGRCalculatorRef {
 }
 
 const CAGRCalculator = forwardRef<CAGRCalculatorRef>(function CAGRCalculator(props, ref) {
-  const [mode, setMode] = useState<'find' | 'project'>('find') // find CAGR or project growth
+  const [mode, setMode] = useState<'find' | 'project' | 'xirr'>('find') // find CAGR, project growth or XIRR of cash flows
   const [initialValue, setInitialValue] = useState(100000)
   const [finalValue, setFinalValue] = useState(250000)
   const [targetCagr, setTargetCagr] = useState(12) // For project mode
   const [years, setYears] = useState(5)
+  const [transactions, setTransactions] = useState<XIRRTransaction[]>(DEFAULT_TRANSACTIONS)
+  const [currentValue, setCurrentValue] = useState(130000)
+  const [valuationDate, setValuationDate] = useState(todayISO)
+  const [importMessage, setImportMessage] = useState<string | null>(null)
   const [lastSaved, setLastSaved] = useState<string | null>(null)
   const [isLoaded, setIsLoaded] = useState(false)
   const [notes, setNotes] = useState('')
   const [showNotes, setShowNotes] = useState(false)
   const calculatorRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
 
   // Load from localStorage
   useEffect(() => {
@@ -89,6 +78,9 @@ const CAGRCalculator = forwardRef<CAGRCalculatorRef>(function CAGRCalculator(pro
       setFinalValue(data.finalValue || 250000)
       setTargetCagr(data.targetCagr || 12)
       setYears(data.years || 5)
+      setTransactions(data.transactions || DEFAULT_TRANSACTIONS)
+      setCurrentValue(data.currentValue ?? 130000)
+      setValuationDate(data.valuationDate || todayISO())
       setNotes(data.notes || '')
     }
     setIsLoaded(true)
@@ -97,10 +89,10 @@ const CAGRCalculator = forwardRef<CAGRCalculatorRef>(function CAGRCalculator(pro
   // Auto-save to localStorage
   useEffect(() => {
     if (!isLoaded) return
-    const data = { mode, initialValue, finalValue, targetCagr, years, notes }
+    const data = { mode, initialValue, finalValue, targetCagr, years, transactions, currentValue, valuationDate, notes }
     localStorage.setItem('calc_cagr', JSON.stringify(data))
     setLastSaved(new Date().toLocaleTimeString())
-  }, [mode, initialValue, finalValue, targetCagr, years, notes, isLoaded])
+  }, [mode, initialValue, finalValue, targetCagr, years, transactions, currentValue, valuationDate, notes, isLoaded])
 
   const handleClear = () => {
     setMode('find')
@@ -108,27 +100,84 @@ const CAGRCalculator = forwardRef<CAGRCalculatorRef>(function CAGRCalculator(pro
     setFinalValue(250000)
     setTargetCagr(12)
     setYears(5)
+    setTransactions(DEFAULT_TRANSACTIONS)
+    setCurrentValue(130000)
+    setValuationDate(todayISO())
+    setImportMessage(null)
     setNotes('')
     localStorage.removeItem('calc_cagr')
   }
 
+  const updateTransaction = (index: number, changes: Partial<XIRRTransaction>) => {
+    setTransactions(transactions.map((t, i) => (i === index ? { ...t, ...changes } : t)))
+  }
+
+  const handleImportCSV = (file: File) => {
+    const reader = new FileReader()
+    reader.onload = () => {
+      const { transactions: imported, skipped } = parseTransactionsCSV(String(reader.result))
+      if (imported.length === 0) {
+        setImportMessage('No transactions found. Expected columns: Date, Amount and optionally Type.')
+        return
+      }
+      setTransactions(imported)
+      setImportMessage(
+        `Imported ${imported.length} transaction${imported.length === 1 ? '' : 's'}` +
+          (skipped > 0 ? `, skipped ${skipped} row${skipped === 1 ? '' : 's'} without a date or amount` : '')
+      )
+    }
+    reader.readAsText(file)
+  }
+
   // Calculate projected final value for project mode
   const projectedFinalValue = useMemo(() => {
-    return Math.round(initialValue * Math.pow(1 + targetCagr / 100, years))
+    return Math.round(calculateFutureValue(initialValue, targetCagr, years))
   }, [initialValue, targetCagr, years])
 
   const result = useMemo(
-    () => calculateCAGR(initialValue, mode === 'find' ? finalValue : projectedFinalValue, years),
+    () => calculateCAGRSummary(initialValue, mode === 'find' ? finalValue : projectedFinalValue, years),
     [initialValue, finalValue, projectedFinalValue, years, mode]
   )
 
   const projections = useMemo(
-    () => generateProjections(initialValue, mode === 'find' ? result.cagr : targetCagr, years),
+    () => generateCAGRProjections(initialValue, mode === 'find' ? result.cagr : targetCagr, years),
     [initialValue, result.cagr, targetCagr, years, mode]
   )
 
+  const xirrSummary = useMemo(
+    () => calculatePortfolioXIRR(transactions.filter((t) => t.date && t.amount > 0), currentValue, valuationDate),
+    [transactions, currentValue, valuationDate]
+  )
+
   // Export functions
   const exportToExcel = () => {
+    if (mode === 'xirr') {
+      const csvContent = [
+        `CAGR Calculator - XIRR of Cash Flows`,
+        `Generated: ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}`,
+        ``,
+        `Current Value: ₹${formatIndianNumber(xirrSummary.currentValue)} as of ${valuationDate}`,
+        ``,
+        `RESULTS`,
+        `XIRR: ${xirrSummary.xirr === null ? 'N/A' : `${xirrSummary.xirr}%`}`,
+        `Total Invested: ₹${formatIndianNumber(xirrSummary.totalInvested)}`,
+        `Total Withdrawn: ₹${formatIndianNumber(xirrSummary.totalWithdrawn)}`,
+        `Net Gain: ₹${formatIndianNumber(xirrSummary.netGain)}`,
+        `Absolute Return: ${xirrSummary.absoluteReturn}%`,
+        ``,
+        `CASH FLOWS`,
+        'Date,Type,Amount (₹)',
+        ...transactions.map((t) => [t.date, t.type === 'invest' ? 'Invest' : 'Withdraw', t.amount].join(',')),
+      ].join('\n')
+
+      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
+      const link = document.createElement('a')
+      link.href = URL.createObjectURL(blob)
+      link.download = `XIRR_Report_${xirrSummary.xirr ?? 'NA'}pct.csv`
+      link.click()
+      return
+    }
+
     const headers = ['Year', 'Projected Value (₹)']
     const rows = projections.map((p) => [p.year, p.value])
 
@@ -157,6 +206,38 @@ const CAGRCalculator = forwardRef<CAGRCalculatorRef>(function CAGRCalculator(pro
     link.click()
   }
 
+  const xirrReportSection = () => `
+        <div class="cagr-highlight">
+          <div class="cagr-label">XIRR (Annualised Return)</div>
+          <div class="cagr-value">${xirrSummary.xirr === null ? 'N/A' : `${xirrSummary.xirr}%`}</div>
+        </div>
+
+        <h2>Summary</h2>
+        <table>
+          <tr><td>Total Invested</td><td>₹${formatIndianNumber(xirrSummary.totalInvested)}</td></tr>
+          <tr><td>Total Withdrawn</td><td>₹${formatIndianNumber(xirrSummary.totalWithdrawn)}</td></tr>
+          <tr><td>Current Value (${valuationDate})</td><td>₹${formatIndianNumber(xirrSummary.currentValue)}</td></tr>
+          <tr><td>Net Gain</td><td>₹${formatIndianNumber(xirrSummary.netGain)}</td></tr>
+          <tr><td>Absolute Return</td><td>${xirrSummary.absoluteReturn}%</td></tr>
+        </table>
+
+        <h2>Cash Flows</h2>
+        <table>
+          <tr>
+            <th>Date</th>
+            <th>Type</th>
+            <th>Amount</th>
+          </tr>
+          ${transactions.map((t) => `
+            <tr>
+              <td>${t.date}</td>
+              <td>${t.type === 'invest' ? 'Invest' : 'Withdraw'}</td>
+              <td>₹${formatIndianNumber(t.amount)}</td>
+            </tr>
+          `).join('')}
+        </table>
+  `
+
   const exportToPDF = () => {
     const printContent = `
       <!DOCTYPE html>
@@ -189,6 +270,7 @@ const CAGRCalculator = forwardRef<CAGRCalculatorRef>(function CAGRCalculator(pro
         <h1>CAGR Calculator Report</h1>
         <p class="subtitle">Generated on ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}</p>
 
+        ${mode === 'xirr' ? xirrReportSection() : `
         <div class="summary">
           <div class="summary-grid">
             <div class="summary-item">
@@ -241,6 +323,7 @@ const CAGRCalculator = forwardRef<CAGRCalculatorRef>(function CAGRCalculator(pro
             </tr>
           `).join('')}
         </table>
+        `}
 
         <div class="footer">
           Generated by AnyCalc — Calculate everything. Plan anything.
@@ -283,6 +366,7 @@ const CAGRCalculator = forwardRef<CAGRCalculatorRef>(function CAGRCalculator(pro
         <h1>CAGR Calculator Report</h1>
         <p class="subtitle">Generated on ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}</p>
 
+        ${mode === 'xirr' ? xirrReportSection() : `
         <div class="cagr-highlight">
           <div class="cagr-label">Compound Annual Growth Rate</div>
           <div class="cagr-value">${result.cagr}%</div>
@@ -301,6 +385,7 @@ const CAGRCalculator = forwardRef<CAGRCalculatorRef>(function CAGRCalculator(pro
             </tr>
           `).join('')}
         </table>
+        `}
 
         <div class="footer">
           Generated by AnyCalc — Calculate everything. Plan anything.
@@ -312,7 +397,7 @@ const CAGRCalculator = forwardRef<CAGRCalculatorRef>(function CAGRCalculator(pro
     const blob = new Blob([htmlContent], { type: 'text/html;charset=utf-8;' })
     const link = document.createElement('a')
     link.href = URL.createObjectURL(blob)
-    link.download = `CAGR_Report_${result.cagr}pct_${years}yrs.html`
+    link.download = mode === 'xirr' ? `XIRR_Report_${xirrSummary.xirr ?? 'NA'}pct.html` : `CAGR_Report_${result.cagr}pct_${years}yrs.html`
     link.click()
   }
 
@@ -352,47 +437,200 @@ const CAGRCalculator = forwardRef<CAGRCalculatorRef>(function CAGRCalculator(pro
             >
               Project Growth
             </button>
+            <button
+              onClick={() => setMode('xirr')}
+              className={`flex-1 px-4 py-2 text-xs font-medium rounded-md transition-all ${
+                mode === 'xirr'
+                  ? 'bg-white text-emerald-600 shadow-sm'
+                  : 'text-slate-600 hover:text-slate-900'
+              }`}
+            >
+              XIRR
+            </button>
           </div>
           <p className="text-[10px] text-slate-500 text-center mt-2">
             {mode === 'find'
               ? 'Calculate CAGR from initial & final values'
-              : 'Project future value at a given CAGR'}
+              : mode === 'project'
+                ? 'Project future value at a given CAGR'
+                : 'Annualised return of irregular investments & withdrawals'}
           </p>
         </div>
 
-        <div className="grid md:grid-cols-2">
-          {/* Inputs */}
-          <div className="p-5 space-y-5 border-r border-slate-100">
-            {/* Initial Value */}
-            <div>
-              <div className="flex justify-between items-baseline mb-2">
-                <label className="text-sm font-medium text-slate-600">Initial Investment</label>
-                <span className="font-mono text-base font-semibold text-slate-900">
-                  ₹{formatIndianNumber(initialValue)}
-                </span>
+        {mode === 'xirr' ? (
+          <div className="grid md:grid-cols-2">
+            {/* Cash Flows */}
+            <div className="p-5 space-y-4 border-r border-slate-100">
+              <div className="flex justify-between items-center">
+                <label className="text-sm font-medium text-slate-600">Cash Flows</label>
+                <div className="flex gap-1.5">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".csv,text/csv"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      if (file) handleImportCSV(file)
+                      e.target.value = ''
+                    }}
+                  />
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="px-2 py-1 text-[10px] font-medium rounded border border-slate-200 text-slate-600 hover:border-emerald-300 hover:text-emerald-600 transition-colors"
+                  >
+                    Import CSV
+                  </button>
+                  <button
+                    onClick={() => setTransactions([...transactions, { date: valuationDate, amount: 10000, type: 'invest' }])}
+                    className="px-2 py-1 text-[10px] font-medium rounded border border-emerald-200 bg-emerald-50 text-emerald-700 hover:bg-emerald-100 transition-colors"
+                  >
+                    + Add Row
+                  </button>
+                </div>
               </div>
-              <input
-                type="range"
-                min={1000}
-                max={100000000}
-                step={1000}
-                value={initialValue}
-                onChange={(e) => setInitialValue(Number(e.target.value))}
-                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-emerald-600"
-              />
-              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
-                <span>₹1K</span>
-                <span>₹10Cr</span>
+              {importMessage && (
+                <p className="text-[10px] text-slate-500 bg-slate-50 rounded px-2 py-1.5">{importMessage}</p>
+              )}
+
+              <div>
+                <div className="grid grid-cols-[1fr_88px_1fr_20px] gap-1.5 mb-1">
+                  <span className="text-[10px] font-medium text-slate-500">Date</span>
+                  <span className="text-[10px] font-medium text-slate-500">Type</span>
+                  <span className="text-[10px] font-medium text-slate-500">Amount (₹)</span>
+                  <span />
+                </div>
+                <div className="space-y-1.5 max-h-72 overflow-y-auto">
+                  {transactions.map((t, index) => (
+                    <div key={index} className="grid grid-cols-[1fr_88px_1fr_20px] gap-1.5 items-center">
+                      <input
+                        type="date"
+                        value={t.date}
+                        onChange={(e) => updateTransaction(index, { date: e.target.value })}
+                        className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent font-mono"
+                      />
+                      <select
+                        value={t.type}
+                        onChange={(e) => updateTransaction(index, { type: e.target.value as XIRRTransaction['type'] })}
+                        className={`w-full px-1.5 py-1.5 text-xs border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-emerald-500 ${
+                          t.type === 'invest' ? 'text-slate-700' : 'text-amber-700'
+                        }`}
+                      >
+                        <option value="invest">Invest</option>
+                        <option value="withdraw">Withdraw</option>
+                      </select>
+                      <input
+                        type="number"
+                        min={0}
+                        value={t.amount}
+                        onChange={(e) => updateTransaction(index, { amount: Math.abs(Number(e.target.value)) })}
+                        className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent font-mono"
+                      />
+                      <button
+                        onClick={() => setTransactions(transactions.filter((_, i) => i !== index))}
+                        className="text-slate-300 hover:text-red-500 transition-colors"
+                        title="Remove"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                {transactions.length === 0 && (
+                  <p className="text-xs text-slate-400 text-center py-4">Add a cash flow or import a CSV to begin</p>
+                )}
               </div>
+
+              <div className="grid grid-cols-2 gap-3 pt-2 border-t border-slate-100">
+                <div>
+                  <label className="text-[10px] font-medium text-slate-500 mb-1 block">Current Value (₹)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={currentValue}
+                    onChange={(e) => setCurrentValue(Math.max(0, Number(e.target.value)))}
+                    className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent font-mono"
+                  />
+                </div>
+                <div>
+                  <label className="text-[10px] font-medium text-slate-500 mb-1 block">As of</label>
+                  <input
+                    type="date"
+                    value={valuationDate}
+                    onChange={(e) => setValuationDate(e.target.value)}
+                    className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent font-mono"
+                  />
+                </div>
+              </div>
+              <p className="text-[10px] text-slate-400">
+                CSV columns: Date, Amount and optionally Type (Purchase, SIP, Redemption…). Without a type,
+                negative amounts are treated as withdrawals.
+              </p>
             </div>
 
-            {mode === 'find' ? (
-              /* Final Value - only in Find mode */
+            {/* XIRR Results */}
+            <div className="p-5 bg-slate-50">
+              <div className={`${(xirrSummary.xirr ?? 0) >= 0 ? 'bg-emerald-50' : 'bg-red-50'} rounded-lg p-4 text-center mb-4`}>
+                <div
+                  className={`text-[10px] font-semibold uppercase tracking-wider ${
+                    (xirrSummary.xirr ?? 0) >= 0 ? 'text-emerald-600' : 'text-red-600'
+                  } mb-1`}
+                >
+                  XIRR (Annualised Return)
+                </div>
+                <div className="font-mono text-4xl font-bold text-slate-900">
+                  {xirrSummary.xirr === null ? '—' : `${xirrSummary.xirr > 0 ? '+' : ''}${xirrSummary.xirr}%`}
+                </div>
+                <div className="text-xs text-slate-500 mt-1">
+                  {xirrSummary.xirr === null
+                    ? currentValue > 0 && !valuationDate
+                      ? 'Enter the date of the current value'
+                      : 'Needs at least one investment and a current value or withdrawal'
+                    : `per year, from ${xirrSummary.firstDate} to ${valuationDate}`}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 mb-4">
+                <div className="bg-white rounded-lg p-3 text-center">
+                  <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Total Invested</div>
+                  <div className="font-mono text-sm font-semibold text-slate-900">{formatCompact(xirrSummary.totalInvested)}</div>
+                </div>
+                <div className="bg-white rounded-lg p-3 text-center">
+                  <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Total Withdrawn</div>
+                  <div className="font-mono text-sm font-semibold text-slate-900">{formatCompact(xirrSummary.totalWithdrawn)}</div>
+                </div>
+                <div className="bg-white rounded-lg p-3 text-center">
+                  <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Net Gain</div>
+                  <div className={`font-mono text-sm font-semibold ${xirrSummary.netGain >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                    {xirrSummary.netGain < 0 ? '-' : ''}{formatCompact(Math.abs(xirrSummary.netGain))}
+                  </div>
+                </div>
+                <div className="bg-white rounded-lg p-3 text-center">
+                  <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Absolute Return</div>
+                  <div className={`font-mono text-sm font-semibold ${xirrSummary.absoluteReturn >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                    {xirrSummary.absoluteReturn > 0 ? '+' : ''}{xirrSummary.absoluteReturn}%
+                  </div>
+                </div>
+              </div>
+
+              <div className="bg-white rounded-lg p-4 text-xs text-slate-500 space-y-1.5">
+                <p>
+                  Absolute return ignores <em>when</em> money went in. XIRR weights each cash flow by the time it
+                  was invested, so it is the figure to compare with an FD rate or a fund&apos;s CAGR.
+                </p>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="grid md:grid-cols-2">
+            {/* Inputs */}
+            <div className="p-5 space-y-5 border-r border-slate-100">
+              {/* Initial Value */}
               <div>
                 <div className="flex justify-between items-baseline mb-2">
-                  <label className="text-sm font-medium text-slate-600">Final Value</label>
+                  <label className="text-sm font-medium text-slate-600">Initial Investment</label>
                   <span className="font-mono text-base font-semibold text-slate-900">
-                    ₹{formatIndianNumber(finalValue)}
+                    ₹{formatIndianNumber(initialValue)}
                   </span>
                 </div>
                 <input
@@ -400,8 +638,8 @@ const CAGRCalculator = forwardRef<CAGRCalculatorRef>(function CAGRCalculator(pro
                   min={1000}
                   max={100000000}
                   step={1000}
-                  value={finalValue}
-                  onChange={(e) => setFinalValue(Number(e.target.value))}
+                  value={initialValue}
+                  onChange={(e) => setInitialValue(Number(e.target.value))}
                   className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-emerald-600"
                 />
                 <div className="flex justify-between mt-1 text-[10px] text-slate-400">
@@ -409,185 +647,210 @@ const CAGRCalculator = forwardRef<CAGRCalculatorRef>(function CAGRCalculator(pro
                   <span>₹10Cr</span>
                 </div>
               </div>
-            ) : (
-              /* Target CAGR - only in Project mode */
+
+              {mode === 'find' ? (
+                /* Final Value - only in Find mode */
+                <div>
+                  <div className="flex justify-between items-baseline mb-2">
+                    <label className="text-sm font-medium text-slate-600">Final Value</label>
+                    <span className="font-mono text-base font-semibold text-slate-900">
+                      ₹{formatIndianNumber(finalValue)}
+                    </span>
+                  </div>
+                  <input
+                    type="range"
+                    min={1000}
+                    max={100000000}
+                    step={1000}
+                    value={finalValue}
+                    onChange={(e) => setFinalValue(Number(e.target.value))}
+                    className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-emerald-600"
+                  />
+                  <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                    <span>₹1K</span>
+                    <span>₹10Cr</span>
+                  </div>
+                </div>
+              ) : (
+                /* Target CAGR - only in Project mode */
+                <div>
+                  <div className="flex justify-between items-baseline mb-2">
+                    <label className="text-sm font-medium text-slate-600">Expected CAGR</label>
+                    <span className="font-mono text-base font-semibold text-emerald-600">
+                      {targetCagr}% p.a.
+                    </span>
+                  </div>
+                  <input
+                    type="range"
+                    min={1}
+                    max={50}
+                    step={0.5}
+                    value={targetCagr}
+                    onChange={(e) => setTargetCagr(Number(e.target.value))}
+                    className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-emerald-600"
+                  />
+                  <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                    <span>1%</span>
+                    <span>50%</span>
+                  </div>
+                  {/* Quick CAGR presets */}
+                  <div className="flex flex-wrap gap-1.5 mt-2">
+                    {[8, 10, 12, 15, 20].map((rate) => (
+                      <button
+                        key={rate}
+                        onClick={() => setTargetCagr(rate)}
+                        className={`px-2 py-1 text-[10px] rounded-full border transition-colors ${
+                          targetCagr === rate
+                            ? 'bg-emerald-50 border-emerald-300 text-emerald-700'
+                            : 'border-slate-200 text-slate-500 hover:border-emerald-300'
+                        }`}
+                      >
+                        {rate}%
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Time Period */}
               <div>
                 <div className="flex justify-between items-baseline mb-2">
-                  <label className="text-sm font-medium text-slate-600">Expected CAGR</label>
-                  <span className="font-mono text-base font-semibold text-emerald-600">
-                    {targetCagr}% p.a.
+                  <label className="text-sm font-medium text-slate-600">Time Period</label>
+                  <span className="font-mono text-base font-semibold text-slate-900">
+                    {years} years
                   </span>
                 </div>
                 <input
                   type="range"
                   min={1}
-                  max={50}
-                  step={0.5}
-                  value={targetCagr}
-                  onChange={(e) => setTargetCagr(Number(e.target.value))}
+                  max={30}
+                  step={1}
+                  value={years}
+                  onChange={(e) => setYears(Number(e.target.value))}
                   className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-emerald-600"
                 />
                 <div className="flex justify-between mt-1 text-[10px] text-slate-400">
-                  <span>1%</span>
-                  <span>50%</span>
+                  <span>1 yr</span>
+                  <span>30 yrs</span>
                 </div>
-                {/* Quick CAGR presets */}
-                <div className="flex flex-wrap gap-1.5 mt-2">
-                  {[8, 10, 12, 15, 20].map((rate) => (
-                    <button
-                      key={rate}
-                      onClick={() => setTargetCagr(rate)}
-                      className={`px-2 py-1 text-[10px] rounded-full border transition-colors ${
-                        targetCagr === rate
-                          ? 'bg-emerald-50 border-emerald-300 text-emerald-700'
-                          : 'border-slate-200 text-slate-500 hover:border-emerald-300'
-                      }`}
-                    >
-                      {rate}%
-                    </button>
-                  ))}
-                </div>
-              </div>
-            )}
-
-            {/* Time Period */}
-            <div>
-              <div className="flex justify-between items-baseline mb-2">
-                <label className="text-sm font-medium text-slate-600">Time Period</label>
-                <span className="font-mono text-base font-semibold text-slate-900">
-                  {years} years
-                </span>
-              </div>
-              <input
-                type="range"
-                min={1}
-                max={30}
-                step={1}
-                value={years}
-                onChange={(e) => setYears(Number(e.target.value))}
-                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-emerald-600"
-              />
-              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
-                <span>1 yr</span>
-                <span>30 yrs</span>
               </div>
             </div>
-          </div>
 
-          {/* Results */}
-          <div className="p-5 bg-slate-50">
-            {mode === 'find' ? (
-              /* Find Mode Results - Show CAGR */
-              <>
-                <div className={`${isPositiveReturn ? 'bg-emerald-50' : 'bg-red-50'} rounded-lg p-4 text-center mb-4`}>
-                  <div className={`text-[10px] font-semibold uppercase tracking-wider ${isPositiveReturn ? 'text-emerald-600' : 'text-red-600'} mb-1`}>
-                    Compound Annual Growth Rate
-                  </div>
-                  <div className="font-mono text-4xl font-bold text-slate-900">
-                    {isPositiveReturn ? '+' : ''}{result.cagr}%
-                  </div>
-                  <div className="text-xs text-slate-500 mt-1">
-                    per year, compounded annually
-                  </div>
-                </div>
-
-                <div className="grid grid-cols-3 gap-2 mb-4">
-                  <div className="bg-white rounded-lg p-3 text-center">
-                    <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
-                      Total Return
+            {/* Results */}
+            <div className="p-5 bg-slate-50">
+              {mode === 'find' ? (
+                /* Find Mode Results - Show CAGR */
+                <>
+                  <div className={`${isPositiveReturn ? 'bg-emerald-50' : 'bg-red-50'} rounded-lg p-4 text-center mb-4`}>
+                    <div className={`text-[10px] font-semibold uppercase tracking-wider ${isPositiveReturn ? 'text-emerald-600' : 'text-red-600'} mb-1`}>
+                      Compound Annual Growth Rate
+                    </div>
+                    <div className="font-mono text-4xl font-bold text-slate-900">
+                      {isPositiveReturn ? '+' : ''}{result.cagr}%
                     </div>
-                    <div className={`font-mono text-sm font-semibold ${isPositiveReturn ? 'text-emerald-600' : 'text-red-600'}`}>
-                      {formatCompact(result.totalReturn)}
+                    <div className="text-xs text-slate-500 mt-1">
+                      per year, compounded annually
                     </div>
                   </div>
-                  <div className="bg-white rounded-lg p-3 text-center">
-                    <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
-                      Return %
+
+                  <div className="grid grid-cols-3 gap-2 mb-4">
+                    <div className="bg-white rounded-lg p-3 text-center">
+                      <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                        Total Return
+                      </div>
+                      <div className={`font-mono text-sm font-semibold ${isPositiveReturn ? 'text-emerald-600' : 'text-red-600'}`}>
+                        {formatCompact(result.totalReturn)}
+                      </div>
+                    </div>
+                    <div className="bg-white rounded-lg p-3 text-center">
+                      <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                        Return %
+                      </div>
+                      <div className={`font-mono text-sm font-semibold ${isPositiveReturn ? 'text-emerald-600' : 'text-red-600'}`}>
+                        {isPositiveReturn ? '+' : ''}{result.totalReturnPercent}%
+                      </div>
                     </div>
-                    <div className={`font-mono text-sm font-semibold ${isPositiveReturn ? 'text-emerald-600' : 'text-red-600'}`}>
-                      {isPositiveReturn ? '+' : ''}{result.totalReturnPercent}%
+                    <div className="bg-white rounded-lg p-3 text-center">
+                      <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                        Multiplier
+                      </div>
+                      <div className="font-mono text-sm font-semibold text-slate-900">
+                        {(finalValue / initialValue).toFixed(2)}x
+                      </div>
                     </div>
                   </div>
-                  <div className="bg-white rounded-lg p-3 text-center">
-                    <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
-                      Multiplier
+                </>
+              ) : (
+                /* Project Mode Results - Show Future Value */
+                <>
+                  <div className="bg-emerald-50 rounded-lg p-4 text-center mb-4">
+                    <div className="text-[10px] font-semibold uppercase tracking-wider text-emerald-600 mb-1">
+                      Projected Value in {years} Years
                     </div>
-                    <div className="font-mono text-sm font-semibold text-slate-900">
-                      {(finalValue / initialValue).toFixed(2)}x
+                    <div className="font-mono text-4xl font-bold text-slate-900">
+                      ₹{formatIndianNumber(projectedFinalValue)}
+                    </div>
+                    <div className="text-xs text-slate-500 mt-1">
+                      at {targetCagr}% CAGR
                     </div>
                   </div>
-                </div>
-              </>
-            ) : (
-              /* Project Mode Results - Show Future Value */
-              <>
-                <div className="bg-emerald-50 rounded-lg p-4 text-center mb-4">
-                  <div className="text-[10px] font-semibold uppercase tracking-wider text-emerald-600 mb-1">
-                    Projected Value in {years} Years
-                  </div>
-                  <div className="font-mono text-4xl font-bold text-slate-900">
-                    ₹{formatIndianNumber(projectedFinalValue)}
-                  </div>
-                  <div className="text-xs text-slate-500 mt-1">
-                    at {targetCagr}% CAGR
-                  </div>
-                </div>
 
-                <div className="grid grid-cols-3 gap-2 mb-4">
-                  <div className="bg-white rounded-lg p-3 text-center">
-                    <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
-                      Wealth Gained
+                  <div className="grid grid-cols-3 gap-2 mb-4">
+                    <div className="bg-white rounded-lg p-3 text-center">
+                      <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                        Wealth Gained
+                      </div>
+                      <div className="font-mono text-sm font-semibold text-emerald-600">
+                        {formatCompact(projectedFinalValue - initialValue)}
+                      </div>
                     </div>
-                    <div className="font-mono text-sm font-semibold text-emerald-600">
-                      {formatCompact(projectedFinalValue - initialValue)}
-                    </div>
-                  </div>
-                  <div className="bg-white rounded-lg p-3 text-center">
-                    <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
-                      Total Growth
+                    <div className="bg-white rounded-lg p-3 text-center">
+                      <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                        Total Growth
+                      </div>
+                      <div className="font-mono text-sm font-semibold text-emerald-600">
+                        +{Math.round(((projectedFinalValue - initialValue) / initialValue) * 100)}%
+                      </div>
                     </div>
-                    <div className="font-mono text-sm font-semibold text-emerald-600">
-                      +{Math.round(((projectedFinalValue - initialValue) / initialValue) * 100)}%
+                    <div className="bg-white rounded-lg p-3 text-center">
+                      <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                        Multiplier
+                      </div>
+                      <div className="font-mono text-sm font-semibold text-slate-900">
+                        {(projectedFinalValue / initialValue).toFixed(2)}x
+                      </div>
                     </div>
                   </div>
-                  <div className="bg-white rounded-lg p-3 text-center">
-                    <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
-                      Multiplier
-                    </div>
+                </>
+              )}
+
+              {/* Growth Visualization */}
+              <div className="bg-white rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <div className="text-center">
+                    <div className="text-[9px] uppercase tracking-wide text-slate-400">Start</div>
+                    <div className="font-mono text-sm font-semibold text-slate-600">{formatCompact(initialValue)}</div>
+                  </div>
+                  <div className="flex-1 mx-4 h-2 bg-slate-100 rounded-full relative overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-emerald-400 to-emerald-600 rounded-full"
+                      style={{ width: `${Math.min(100, (Math.abs(result.totalReturnPercent) / 5))}%` }}
+                    />
+                  </div>
+                  <div className="text-center">
+                    <div className="text-[9px] uppercase tracking-wide text-slate-400">End</div>
                     <div className="font-mono text-sm font-semibold text-slate-900">
-                      {(projectedFinalValue / initialValue).toFixed(2)}x
+                      {formatCompact(mode === 'find' ? finalValue : projectedFinalValue)}
                     </div>
                   </div>
                 </div>
-              </>
-            )}
-
-            {/* Growth Visualization */}
-            <div className="bg-white rounded-lg p-4">
-              <div className="flex items-center justify-between mb-3">
-                <div className="text-center">
-                  <div className="text-[9px] uppercase tracking-wide text-slate-400">Start</div>
-                  <div className="font-mono text-sm font-semibold text-slate-600">{formatCompact(initialValue)}</div>
-                </div>
-                <div className="flex-1 mx-4 h-2 bg-slate-100 rounded-full relative overflow-hidden">
-                  <div
-                    className="h-full bg-gradient-to-r from-emerald-400 to-emerald-600 rounded-full"
-                    style={{ width: `${Math.min(100, (Math.abs(result.totalReturnPercent) / 5))}%` }}
-                  />
+                <div className="text-center text-xs text-slate-500">
+                  in {years} years
                 </div>
-                <div className="text-center">
-                  <div className="text-[9px] uppercase tracking-wide text-slate-400">End</div>
-                  <div className="font-mono text-sm font-semibold text-slate-900">
-                    {formatCompact(mode === 'find' ? finalValue : projectedFinalValue)}
-                  </div>
-                </div>
-              </div>
-              <div className="text-center text-xs text-slate-500">
-                in {years} years
               </div>
             </div>
           </div>
-        </div>
+        )}
 
         {/* Auto-save indicator with subtle notes */}
         <div className="px-5 py-2 bg-slate-50 border-t border-slate-100">
@@ -626,41 +889,43 @@ const CAGRCalculator = forwardRef<CAGRCalculatorRef>(function CAGRCalculator(pro
       </div>
 
       {/* Year-by-Year Projection */}
-      <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
-        <div className="px-4 py-3 border-b border-slate-100">
-          <h3 className="text-sm font-semibold text-slate-700">
-            Growth Projection at {mode === 'find' ? result.cagr : targetCagr}% CAGR
-          </h3>
-        </div>
-        <div className="p-4">
-          <div className="flex items-center gap-3 mb-3 text-[10px] font-medium text-slate-400 uppercase tracking-wide">
-            <span className="w-12">Year</span>
-            <span className="flex-1">Growth</span>
-            <span className="w-20 text-right">Value</span>
+      {mode !== 'xirr' && (
+        <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-100">
+            <h3 className="text-sm font-semibold text-slate-700">
+              Growth Projection at {mode === 'find' ? result.cagr : targetCagr}% CAGR
+            </h3>
           </div>
-          <div className="space-y-2">
-            {projections.map((proj) => {
-              const maxValue = Math.max(...projections.map((p) => p.value))
-              const barWidth = maxValue > 0 ? (proj.value / maxValue) * 100 : 0
-
-              return (
-                <div key={proj.year} className="flex items-center gap-3">
-                  <span className="text-xs w-12 font-mono text-slate-500">Year {proj.year}</span>
-                  <div className="flex-1 h-6 bg-slate-100 rounded overflow-hidden">
-                    <div
-                      className={`h-full ${isPositiveReturn ? 'bg-emerald-500' : 'bg-red-500'}`}
-                      style={{ width: `${barWidth}%` }}
-                    />
+          <div className="p-4">
+            <div className="flex items-center gap-3 mb-3 text-[10px] font-medium text-slate-400 uppercase tracking-wide">
+              <span className="w-12">Year</span>
+              <span className="flex-1">Growth</span>
+              <span className="w-20 text-right">Value</span>
+            </div>
+            <div className="space-y-2">
+              {projections.map((proj) => {
+                const maxValue = Math.max(...projections.map((p) => p.value))
+                const barWidth = maxValue > 0 ? (proj.value / maxValue) * 100 : 0
+
+                return (
+                  <div key={proj.year} className="flex items-center gap-3">
+                    <span className="text-xs w-12 font-mono text-slate-500">Year {proj.year}</span>
+                    <div className="flex-1 h-6 bg-slate-100 rounded overflow-hidden">
+                      <div
+                        className={`h-full ${isPositiveReturn ? 'bg-emerald-500' : 'bg-red-500'}`}
+                        style={{ width: `${barWidth}%` }}
+                      />
+                    </div>
+                    <span className="text-[10px] text-slate-600 w-20 text-right font-mono">
+                      {formatCompact(proj.value)}
+                    </span>
                   </div>
-                  <span className="text-[10px] text-slate-600 w-20 text-right font-mono">
-                    {formatCompact(proj.value)}
-                  </span>
-                </div>
-              )
-            })}
+                )
+              })}
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* CAGR Benchmarks */}
       <div className="bg-gradient-to-r from-emerald-50 to-transparent border border-emerald-100 rounded-xl p-4">
@@ -706,6 +971,11 @@ const CAGRCalculator = forwardRef<CAGRCalculatorRef>(function CAGRCalculator(pro
             <li>Does not reflect actual year-to-year returns</li>
             <li>Higher CAGR indicates better compounding performance</li>
           </ul>
+          <p>
+            <strong>XIRR</strong> extends CAGR to irregular cash flows such as SIPs, top-ups and partial
+            redemptions. It finds the rate at which the present value of every dated cash flow, plus the
+            current value, adds up to zero — solved by Newton-Raphson, with bisection as a fallback.
+          </p>
         </div>
       </details>
     </div>
@@ -1,48 +1,7 @@
 'use client'
 
 import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
-
-interface COLResult {
-  fromCity: string
-  toCity: string
-  currentSalary: number
-  equivalentSalary: number
-  colIndex: number
-  difference: number
-  differencePercent: number
-}
-
-// Cost of Living Index (Base: Mumbai = 100)
-const CITY_COL_INDEX: Record<string, { index: number; country: string }> = {
-  'Mumbai': { index: 100, country: 'India' },
-  'New Delhi': { index: 92, country: 'India' },
-  'Bangalore': { index: 89, country: 'India' },
-  'Chennai': { index: 78, country: 'India' },
-  'Hyderabad': { index: 76, country: 'India' },
-  'Pune': { index: 82, country: 'India' },
-  'Kolkata': { index: 72, country: 'India' },
-  'Ahmedabad': { index: 68, country: 'India' },
-  'New York': { index: 187, country: 'USA' },
-  'San Francisco': { index: 195, country: 'USA' },
-  'Los Angeles': { index: 165, country: 'USA' },
-  'Chicago': { index: 145, country: 'USA' },
-  'Seattle': { index: 158, country: 'USA' },
-  'Austin': { index: 128, country: 'USA' },
-  'London': { index: 175, country: 'UK' },
-  'Manchester': { index: 135, country: 'UK' },
-  'Singapore': { index: 168, country: 'Singapore' },
-  'Dubai': { index: 142, country: 'UAE' },
-  'Sydney': { index: 162, country: 'Australia' },
-  'Melbourne': { index: 148, country: 'Australia' },
-  'Toronto': { index: 145, country: 'Canada' },
-  'Vancouver': { index: 152, country: 'Canada' },
-  'Berlin': { index: 128, country: 'Germany' },
-  'Munich': { index: 145, country: 'Germany' },
-  'Paris': { index: 155, country: 'France' },
-  'Amsterdam': { index: 148, country: 'Netherlands' },
-  'Tokyo': { index: 158, country: 'Japan' },
-  'Hong Kong': { index: 172, country: 'China' },
-}
+import { CITY_COL_INDEX, calculateCOL } from '@/lib/calculations'
 
 function formatIndianNumber(num: number): string {
   const str = Math.round(num).toString()
@@ -67,26 +26,6 @@ function formatCompact(num: number): string {
   return `₹${Math.round(num)}`
 }
 
-function calculateCOL(fromCity: string, toCity: string, currentSalary: number): COLResult {
-  const fromIndex = CITY_COL_INDEX[fromCity]?.index || 100
-  const toIndex = CITY_COL_INDEX[toCity]?.index || 100
-
-  const colIndex = toIndex / fromIndex
-  const equivalentSalary = currentSalary * colIndex
-  const difference = equivalentSalary - currentSalary
-  const differencePercent = ((colIndex - 1) * 100)
-
-  return {
-    fromCity,
-    toCity,
-    currentSalary,
-    equivalentSalary: Math.round(equivalentSalary),
-    colIndex: Math.round(colIndex * 100) / 100,
-    difference: Math.round(difference),
-    differencePercent: Math.round(differencePercent),
-  }
-}
-
 export interface COLCalculatorRef {
   exportToPDF: () => void
   exportToHTML: () => void
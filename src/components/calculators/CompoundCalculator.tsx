@@ -1,36 +1,14 @@
 'use client'
 
 import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
-
-// Interfaces
-interface CompoundResult {
-  principal: number
-  totalInterest: number
-  finalAmount: number
-  effectiveRate: number
-  interestOnInterest: number
-  principalPercent: number
-  interestPercent: number
-}
-
-interface YearlyBreakdown {
-  year: number
-  openingBalance: number
-  interestEarned: number
-  contributions: number
-  closingBalance: number
-}
-
-type CompoundingFrequency = 'daily' | 'monthly' | 'quarterly' | 'half-yearly' | 'yearly'
-
-interface FrequencyComparison {
-  frequency: CompoundingFrequency
-  label: string
-  finalAmount: number
-  totalInterest: number
-  effectiveRate: number
-  difference: number
-}
+import {
+  calculateCompoundInterest,
+  generateCompoundBreakdown,
+  calculateCompoundRequiredPrincipal,
+  compareFrequencies,
+  getFrequencyLabel,
+} from '@/lib/calculations'
+import { CompoundingFrequency } from '@/types'
 
 // Helper functions
 function formatIndianNumber(num: number): string {
@@ -54,183 +32,6 @@ function formatCompact(num: number): string {
   return `₹${Math.round(num)}`
 }
 
-function getFrequencyPerYear(frequency: CompoundingFrequency): number {
-  switch (frequency) {
-    case 'daily': return 365
-    case 'monthly': return 12
-    case 'quarterly': return 4
-    case 'half-yearly': return 2
-    case 'yearly': return 1
-  }
-}
-
-function getFrequencyLabel(frequency: CompoundingFrequency): string {
-  switch (frequency) {
-    case 'daily': return 'Daily'
-    case 'monthly': return 'Monthly'
-    case 'quarterly': return 'Quarterly'
-    case 'half-yearly': return 'Half-Yearly'
-    case 'yearly': return 'Yearly'
-  }
-}
-
-// Core calculation functions
-function calculateCompoundInterest(
-  principal: number,
-  rate: number,
-  years: number,
-  frequency: CompoundingFrequency,
-  monthlyContribution: number = 0
-): CompoundResult {
-  const n = getFrequencyPerYear(frequency)
-  const r = rate / 100
-
-  // A = P × (1 + r/n)^(n×t)
-  const compoundFactor = Math.pow(1 + r / n, n * years)
-  let finalAmount = principal * compoundFactor
-
-  // With regular monthly additions (assuming contributions at end of each period)
-  // A = PMT × (((1 + r/n)^(n×t) - 1) / (r/n))
-  if (monthlyContribution > 0 && r > 0) {
-    // Convert monthly contribution to per-period contribution
-    const periodsPerMonth = n / 12
-    const contributionPerPeriod = monthlyContribution / periodsPerMonth
-    const futureValueContributions = contributionPerPeriod * ((compoundFactor - 1) / (r / n))
-    finalAmount += futureValueContributions
-  } else if (monthlyContribution > 0 && r === 0) {
-    finalAmount += monthlyContribution * 12 * years
-  }
-
-  const totalContributions = principal + (monthlyContribution * 12 * years)
-  const totalInterest = finalAmount - totalContributions
-
-  // Effective Annual Rate = (1 + r/n)^n - 1
-  const effectiveRate = (Math.pow(1 + r / n, n) - 1) * 100
-
-  // Interest on interest (compound effect)
-  const simpleInterest = principal * r * years + (monthlyContribution * 12 * years * r * years / 2)
-  const interestOnInterest = totalInterest - simpleInterest
-
-  return {
-    principal: totalContributions,
-    totalInterest: Math.round(totalInterest),
-    finalAmount: Math.round(finalAmount),
-    effectiveRate: Math.round(effectiveRate * 100) / 100,
-    interestOnInterest: Math.max(0, Math.round(interestOnInterest)),
-    principalPercent: Math.round((totalContributions / finalAmount) * 100),
-    interestPercent: Math.round((totalInterest / finalAmount) * 100),
-  }
-}
-
-function generateYearlyBreakdown(
-  principal: number,
-  rate: number,
-  years: number,
-  frequency: CompoundingFrequency,
-  monthlyContribution: number = 0
-): YearlyBreakdown[] {
-  const n = getFrequencyPerYear(frequency)
-  const r = rate / 100
-  const breakdown: YearlyBreakdown[] = []
-
-  let balance = principal
-
-  for (let year = 1; year <= years; year++) {
-    const openingBalance = balance
-    const yearlyContribution = monthlyContribution * 12
-
-    // Calculate interest for this year with contributions
-    const periodsInYear = n
-    let yearEndBalance = openingBalance
-
-    for (let period = 1; period <= periodsInYear; period++) {
-      // Add contribution proportionally
-      yearEndBalance += yearlyContribution / periodsInYear
-      // Apply interest
-      yearEndBalance *= (1 + r / n)
-    }
-
-    // Simplified calculation for yearly balance
-    const compoundFactor = Math.pow(1 + r / n, n)
-    yearEndBalance = openingBalance * compoundFactor
-
-    if (monthlyContribution > 0 && r > 0) {
-      const periodsPerMonth = n / 12
-      const contributionPerPeriod = monthlyContribution / periodsPerMonth
-      const futureValueContributions = contributionPerPeriod * ((compoundFactor - 1) / (r / n))
-      yearEndBalance += futureValueContributions
-    } else if (monthlyContribution > 0) {
-      yearEndBalance += yearlyContribution
-    }
-
-    const interestEarned = yearEndBalance - openingBalance - yearlyContribution
-
-    breakdown.push({
-      year,
-      openingBalance: Math.round(openingBalance),
-      interestEarned: Math.round(interestEarned),
-      contributions: Math.round(yearlyContribution),
-      closingBalance: Math.round(yearEndBalance),
-    })
-
-    balance = yearEndBalance
-  }
-
-  return breakdown
-}
-
-// Reverse calculation: Find required principal for target amount
-function calculateRequiredPrincipal(
-  targetAmount: number,
-  rate: number,
-  years: number,
-  frequency: CompoundingFrequency,
-  monthlyContribution: number = 0
-): number {
-  const n = getFrequencyPerYear(frequency)
-  const r = rate / 100
-  const compoundFactor = Math.pow(1 + r / n, n * years)
-
-  if (monthlyContribution > 0 && r > 0) {
-    // With monthly contributions, subtract the FV of contributions from target
-    const periodsPerMonth = n / 12
-    const contributionPerPeriod = monthlyContribution / periodsPerMonth
-    const futureValueContributions = contributionPerPeriod * ((compoundFactor - 1) / (r / n))
-    const remainingTarget = targetAmount - futureValueContributions
-    // Principal needed = remainingTarget / compoundFactor
-    return Math.max(0, Math.round(remainingTarget / compoundFactor))
-  } else if (monthlyContribution > 0 && r === 0) {
-    // No interest case with contributions
-    const totalContributions = monthlyContribution * 12 * years
-    return Math.max(0, Math.round(targetAmount - totalContributions))
-  }
-
-  // Simple case: P = A / (1 + r/n)^(n×t)
-  return Math.round(targetAmount / compoundFactor)
-}
-
-function compareFrequencies(
-  principal: number,
-  rate: number,
-  years: number,
-  monthlyContribution: number = 0
-): FrequencyComparison[] {
-  const frequencies: CompoundingFrequency[] = ['yearly', 'half-yearly', 'quarterly', 'monthly', 'daily']
-  const yearlyResult = calculateCompoundInterest(principal, rate, years, 'yearly', monthlyContribution)
-
-  return frequencies.map(freq => {
-    const result = calculateCompoundInterest(principal, rate, years, freq, monthlyContribution)
-    return {
-      frequency: freq,
-      label: getFrequencyLabel(freq),
-      finalAmount: result.finalAmount,
-      totalInterest: result.totalInterest,
-      effectiveRate: result.effectiveRate,
-      difference: result.finalAmount - yearlyResult.finalAmount,
-    }
-  })
-}
-
 export interface CompoundCalculatorRef {
   exportToPDF: () => void
   exportToHTML: () => void
@@ -286,7 +87,7 @@ const CompoundCalculator = forwardRef<CompoundCalculatorRef>(function CompoundCa
   )
 
   const yearlyBreakdown = useMemo(
-    () => generateYearlyBreakdown(principal, rate, years, frequency, monthlyContribution),
+    () => generateCompoundBreakdown(principal, rate, years, frequency, monthlyContribution),
     [principal, rate, years, frequency, monthlyContribution]
   )
 
@@ -297,7 +98,7 @@ const CompoundCalculator = forwardRef<CompoundCalculatorRef>(function CompoundCa
 
   // Reverse calculation for target mode
   const requiredPrincipal = useMemo(
-    () => calculateRequiredPrincipal(targetAmount, rate, years, frequency, monthlyContribution),
+    () => calculateCompoundRequiredPrincipal(targetAmount, rate, years, frequency, monthlyContribution),
     [targetAmount, rate, years, frequency, monthlyContribution]
   )
 
@@ -312,7 +113,7 @@ const CompoundCalculator = forwardRef<CompoundCalculatorRef>(function CompoundCa
 
   // Effective yearly breakdown based on mode
   const effectiveYearlyBreakdown = useMemo(
-    () => generateYearlyBreakdown(effectivePrincipal, rate, years, frequency, monthlyContribution),
+    () => generateCompoundBreakdown(effectivePrincipal, rate, years, frequency, monthlyContribution),
     [effectivePrincipal, rate, years, frequency, monthlyContribution]
   )
 
@@ -3,61 +3,28 @@
 import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
 import { useNumberFormat } from '@/contexts/NumberFormatContext'
 import { useCloudSync } from '@/hooks/useCloudSync'
-
-interface EMIResult {
-  emi: number
-  totalInterest: number
-  totalPayment: number
-  principalPercent: number
-  interestPercent: number
-}
-
-interface AmortizationRow {
-  month: number
-  year: number
-  emi: number
-  principal: number
-  interest: number
-  balance: number
-}
-
-interface YearlyBreakdown {
-  year: number
-  principal: number
-  interest: number
-  balance: number
-}
-
-function calculateEMI(principal: number, rate: number, tenure: number): EMIResult {
-  const monthlyRate = rate / 12 / 100
-  const months = tenure * 12
-
-  if (monthlyRate === 0) {
-    const emi = principal / months
-    return {
-      emi: Math.round(emi),
-      totalInterest: 0,
-      totalPayment: Math.round(principal),
-      principalPercent: 100,
-      interestPercent: 0,
-    }
-  }
-
-  const emi =
-    (principal * monthlyRate * Math.pow(1 + monthlyRate, months)) /
-    (Math.pow(1 + monthlyRate, months) - 1)
-
-  const totalPayment = emi * months
-  const totalInterest = totalPayment - principal
-
-  return {
-    emi: Math.round(emi),
-    totalInterest: Math.round(totalInterest),
-    totalPayment: Math.round(totalPayment),
-    principalPercent: Math.round((principal / totalPayment) * 100),
-    interestPercent: Math.round((totalInterest / totalPayment) * 100),
-  }
-}
+import {
+  calculateEMISummary,
+  calculateAffordableLoan,
+  generateAmortization,
+  generateFloatingAmortization,
+  calculateWithPrepayments,
+  calculateRefinance,
+  calculateHomeLoanTaxBenefits,
+  loanMonthFromDate,
+  addMonthsToDate,
+  SECTION_80C_CAP,
+  getTaxRules,
+  LATEST_FY,
+  CESS_RATE,
+} from '@/lib/calculations'
+import {
+  EMISummary,
+  LoanYearlyBreakdown,
+  RateRevision,
+  PrepaymentEntry,
+  PrepaymentStrategy,
+} from '@/types'
 
 function formatIndianNumber(num: number): string {
   const str = Math.round(num).toString()
@@ -83,135 +50,15 @@ function formatCompactStatic(num: number): string {
   return `₹${num}`
 }
 
-function generateAmortization(
-  principal: number,
-  rate: number,
-  tenure: number,
-  emi: number
-): { schedule: AmortizationRow[]; yearlyBreakdown: YearlyBreakdown[] } {
-  const monthlyRate = rate / 12 / 100
-  const months = tenure * 12
-  const schedule: AmortizationRow[] = []
-  const yearlyBreakdown: YearlyBreakdown[] = []
-
-  let balance = principal
-  let yearPrincipal = 0
-  let yearInterest = 0
-
-  for (let month = 1; month <= months; month++) {
-    const interest = balance * monthlyRate
-    const principalPaid = emi - interest
-    balance = Math.max(0, balance - principalPaid)
-
-    const year = Math.ceil(month / 12)
-
-    schedule.push({
-      month,
-      year,
-      emi: Math.round(emi),
-      principal: Math.round(principalPaid),
-      interest: Math.round(interest),
-      balance: Math.round(balance),
-    })
-
-    yearPrincipal += principalPaid
-    yearInterest += interest
-
-    if (month % 12 === 0 || month === months) {
-      yearlyBreakdown.push({
-        year,
-        principal: Math.round(yearPrincipal),
-        interest: Math.round(yearInterest),
-        balance: Math.round(balance),
-      })
-      yearPrincipal = 0
-      yearInterest = 0
-    }
-  }
-
-  return { schedule, yearlyBreakdown }
+function currentMonthDate(): string {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`
 }
 
-interface PrepaymentEntry {
-  id: number
-  year: number
-  amount: number
-}
-
-interface PrepaymentResult {
-  newTenureMonths: number
-  newTotalInterest: number
-  newTotalPayment: number
-  interestSaved: number
-  monthsSaved: number
-  yearlyBreakdown: YearlyBreakdown[]
-}
-
-function calculateWithPrepayments(
-  principal: number,
-  rate: number,
-  emi: number,
-  originalTenure: number,
-  prepayments: PrepaymentEntry[]
-): PrepaymentResult {
-  const monthlyRate = rate / 12 / 100
-  let balance = principal
-  let totalInterest = 0
-  let month = 0
-  const yearlyBreakdown: YearlyBreakdown[] = []
-  let yearPrincipal = 0
-  let yearInterest = 0
-
-  // Sort prepayments by year
-  const sortedPrepayments = [...prepayments].sort((a, b) => a.year - b.year)
-  const prepaymentMap = new Map<number, number>()
-  sortedPrepayments.forEach((p) => {
-    prepaymentMap.set(p.year, (prepaymentMap.get(p.year) || 0) + p.amount)
-  })
-
-  while (balance > 0) {
-    month++
-    const currentYear = Math.ceil(month / 12)
-
-    const interest = balance * monthlyRate
-    const principalPaid = Math.min(emi - interest, balance)
-    balance = Math.max(0, balance - principalPaid)
-    totalInterest += interest
-    yearPrincipal += principalPaid
-    yearInterest += interest
-
-    // Apply prepayment at end of year
-    if (month % 12 === 0 && prepaymentMap.has(currentYear)) {
-      const prepayAmount = prepaymentMap.get(currentYear)!
-      yearPrincipal += Math.min(prepayAmount, balance)
-      balance = Math.max(0, balance - prepayAmount)
-    }
-
-    // Record yearly breakdown
-    if (month % 12 === 0 || balance === 0) {
-      yearlyBreakdown.push({
-        year: currentYear,
-        principal: Math.round(yearPrincipal),
-        interest: Math.round(yearInterest),
-        balance: Math.round(balance),
-      })
-      yearPrincipal = 0
-      yearInterest = 0
-    }
-  }
-
-  const originalMonths = originalTenure * 12
-  const originalTotalInterest =
-    (emi * originalMonths - principal)
-
-  return {
-    newTenureMonths: month,
-    newTotalInterest: Math.round(totalInterest),
-    newTotalPayment: Math.round(principal + totalInterest),
-    interestSaved: Math.round(originalTotalInterest - totalInterest),
-    monthsSaved: originalMonths - month,
-    yearlyBreakdown,
-  }
+function formatLoanMonth(startDate: string, loanMonth: number): string {
+  const [startYear, startMonth] = startDate.split('-').map(Number)
+  const d = new Date(startYear, startMonth - 1 + loanMonth - 1, 1)
+  return d.toLocaleDateString('en-IN', { month: 'short', year: 'numeric' })
 }
 
 export interface EMICalculatorRef {
@@ -221,23 +68,10 @@ export interface EMICalculatorRef {
   handleClear: () => void
 }
 
-// Calculate max loan from EMI budget (reverse calculation)
-function calculateAffordability(emi: number, rate: number, tenure: number): number {
-  const monthlyRate = rate / 12 / 100
-  const months = tenure * 12
-
-  if (monthlyRate === 0) {
-    return emi * months
-  }
-
-  const principal = emi * (Math.pow(1 + monthlyRate, months) - 1) / (monthlyRate * Math.pow(1 + monthlyRate, months))
-  return Math.round(principal)
-}
-
 const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props, ref) {
   const { formatCurrencyCompact } = useNumberFormat()
   const { syncCalculator } = useCloudSync()
-  const [mode, setMode] = useState<'calculate' | 'affordability'>('calculate')
+  const [mode, setMode] = useState<'calculate' | 'affordability' | 'refinance'>('calculate')
   const [principal, setPrincipal] = useState(5000000)
   const [emiBudget, setEmiBudget] = useState(50000) // For affordability mode
   const [rate, setRate] = useState(8.5)
@@ -246,9 +80,24 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
   const [showFullSchedule, setShowFullSchedule] = useState(false)
   const [showPrepayment, setShowPrepayment] = useState(false)
   const [prepayments, setPrepayments] = useState<PrepaymentEntry[]>([
-    { id: 1, year: 5, amount: 500000 },
+    { id: 1, frequency: 'once', month: 60, amount: 500000, amountType: 'fixed' },
   ])
+  const [prepaymentStrategy, setPrepaymentStrategy] = useState<PrepaymentStrategy>('tenure')
   const [nextPrepaymentId, setNextPrepaymentId] = useState(2)
+  const [rateType, setRateType] = useState<'fixed' | 'floating'>('fixed')
+  const [startDate, setStartDate] = useState(currentMonthDate)
+  const [rateRevisions, setRateRevisions] = useState<RateRevision[]>(() => [
+    { id: 1, date: addMonthsToDate(currentMonthDate(), 12), rate: 9, adjust: 'tenure' },
+  ])
+  const [nextRevisionId, setNextRevisionId] = useState(2)
+  const [switchMonth, setSwitchMonth] = useState(36)
+  const [newRate, setNewRate] = useState(8)
+  const [processingFeePercent, setProcessingFeePercent] = useState(0.5)
+  const [foreclosurePercent, setForeclosurePercent] = useState(0)
+  const [showTaxBenefits, setShowTaxBenefits] = useState(false)
+  const [taxSlabRate, setTaxSlabRate] = useState(30)
+  const [other80C, setOther80C] = useState(0)
+  const [claim80EEA, setClaim80EEA] = useState(false)
   const [isLoaded, setIsLoaded] = useState(false)
   const [notes, setNotes] = useState('')
   const [showNotes, setShowNotes] = useState(false)
@@ -262,11 +111,14 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
 
   // Prepayment helpers
   const addPrepayment = () => {
-    const usedYears = new Set(prepayments.map((p) => p.year))
-    let nextYear = 1
-    while (usedYears.has(nextYear) && nextYear <= tenure) nextYear++
-    if (nextYear <= tenure) {
-      setPrepayments([...prepayments, { id: nextPrepaymentId, year: nextYear, amount: 500000 }])
+    const usedMonths = new Set(prepayments.map((p) => p.month))
+    let nextMonth = 12
+    while (usedMonths.has(nextMonth) && nextMonth <= tenure * 12) nextMonth += 12
+    if (nextMonth <= tenure * 12) {
+      setPrepayments([
+        ...prepayments,
+        { id: nextPrepaymentId, frequency: 'once', month: nextMonth, amount: 500000, amountType: 'fixed' },
+      ])
       setNextPrepaymentId(nextPrepaymentId + 1)
     }
   }
@@ -275,12 +127,34 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
     setPrepayments(prepayments.filter((p) => p.id !== id))
   }
 
-  const updatePrepayment = (id: number, field: 'year' | 'amount', value: number) => {
+  const updatePrepayment = <K extends keyof PrepaymentEntry>(id: number, field: K, value: PrepaymentEntry[K]) => {
     setPrepayments(
       prepayments.map((p) => (p.id === id ? { ...p, [field]: value } : p))
     )
   }
 
+  // Rate revision helpers (floating rate mode)
+  const addRateRevision = () => {
+    const lastDate = rateRevisions.length > 0
+      ? [...rateRevisions].sort((a, b) => a.date.localeCompare(b.date))[rateRevisions.length - 1].date
+      : startDate
+    setRateRevisions([
+      ...rateRevisions,
+      { id: nextRevisionId, date: addMonthsToDate(lastDate, 12), rate, adjust: 'tenure' },
+    ])
+    setNextRevisionId(nextRevisionId + 1)
+  }
+
+  const removeRateRevision = (id: number) => {
+    setRateRevisions(rateRevisions.filter((r) => r.id !== id))
+  }
+
+  const updateRateRevision = <K extends keyof RateRevision>(id: number, field: K, value: RateRevision[K]) => {
+    setRateRevisions(
+      rateRevisions.map((r) => (r.id === id ? { ...r, [field]: value } : r))
+    )
+  }
+
   // Load from localStorage
   useEffect(() => {
     const saved = localStorage.getItem('calc_emi')
@@ -292,6 +166,25 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
       setRate(data.rate || 8.5)
       setTenure(data.tenure || 20)
       setNotes(data.notes || '')
+      setRateType(data.rateType || 'fixed')
+      if (data.startDate) setStartDate(data.startDate)
+      if (Array.isArray(data.prepayments)) {
+        setPrepayments(data.prepayments)
+        setNextPrepaymentId(Math.max(0, ...data.prepayments.map((p: PrepaymentEntry) => p.id)) + 1)
+      }
+      setPrepaymentStrategy(data.prepaymentStrategy || 'tenure')
+      setSwitchMonth(data.switchMonth || 36)
+      setNewRate(data.newRate || 8)
+      setProcessingFeePercent(data.processingFeePercent ?? 0.5)
+      setForeclosurePercent(data.foreclosurePercent ?? 0)
+      setShowTaxBenefits(data.showTaxBenefits ?? false)
+      setTaxSlabRate(data.taxSlabRate ?? 30)
+      setOther80C(data.other80C ?? 0)
+      setClaim80EEA(data.claim80EEA ?? false)
+      if (Array.isArray(data.rateRevisions)) {
+        setRateRevisions(data.rateRevisions)
+        setNextRevisionId(Math.max(0, ...data.rateRevisions.map((r: RateRevision) => r.id)) + 1)
+      }
       // Also update local input states
       setPrincipalInput(formatIndianNumber(data.principal || 5000000))
       setEmiBudgetInput(formatIndianNumber(data.emiBudget || 50000))
@@ -310,40 +203,104 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
   // Auto-save to localStorage + cloud (only after initial load)
   useEffect(() => {
     if (!isLoaded) return
-    const data = { mode, principal, emiBudget, rate, tenure, notes }
+    const data = {
+      mode, principal, emiBudget, rate, tenure, notes,
+      rateType, startDate, rateRevisions, prepayments, prepaymentStrategy,
+      switchMonth, newRate, processingFeePercent, foreclosurePercent,
+      showTaxBenefits, taxSlabRate, other80C, claim80EEA,
+    }
     localStorage.setItem('calc_emi', JSON.stringify(data))
     syncCalculator('emi', data) // Sync to cloud (debounced, only if logged in)
     setLastSaved(new Date().toLocaleTimeString())
-  }, [mode, principal, emiBudget, rate, tenure, notes, isLoaded, syncCalculator])
+  }, [
+    mode, principal, emiBudget, rate, tenure, notes,
+    rateType, startDate, rateRevisions, prepayments, prepaymentStrategy,
+    switchMonth, newRate, processingFeePercent, foreclosurePercent,
+    showTaxBenefits, taxSlabRate, other80C, claim80EEA, isLoaded, syncCalculator,
+  ])
 
   // Calculate max affordable loan in affordability mode
   const affordableLoan = useMemo(
-    () => calculateAffordability(emiBudget, rate, tenure),
+    () => calculateAffordableLoan(emiBudget, rate, tenure * 12),
     [emiBudget, rate, tenure]
   )
 
   // Use affordableLoan as principal in affordability mode for result calculation
   const effectivePrincipal = mode === 'affordability' ? affordableLoan : principal
-  const result = useMemo(() => calculateEMI(effectivePrincipal, rate, tenure), [effectivePrincipal, rate, tenure])
+  const fixedResult = useMemo(() => calculateEMISummary(effectivePrincipal, rate, tenure), [effectivePrincipal, rate, tenure])
 
-  const { schedule, yearlyBreakdown } = useMemo(
-    () => generateAmortization(effectivePrincipal, rate, tenure, result.emi),
-    [effectivePrincipal, rate, tenure, result.emi]
+  const fixedAmortization = useMemo(
+    () => generateAmortization(effectivePrincipal, rate, tenure * 12, fixedResult.emi),
+    [effectivePrincipal, rate, tenure, fixedResult.emi]
+  )
+
+  // Floating rate: re-amortize across the dated rate revisions
+  const isFloating = rateType === 'floating'
+  const floatingResult = useMemo(
+    () => (isFloating ? generateFloatingAmortization(effectivePrincipal, rate, tenure, startDate, rateRevisions) : null),
+    [isFloating, effectivePrincipal, rate, tenure, startDate, rateRevisions]
+  )
+
+  const result: EMISummary = floatingResult
+    ? {
+        emi: floatingResult.initialEmi,
+        totalInterest: floatingResult.totalInterest,
+        totalPayment: floatingResult.totalPayment,
+        principalPercent: Math.round((effectivePrincipal / floatingResult.totalPayment) * 100),
+        interestPercent: Math.round((floatingResult.totalInterest / floatingResult.totalPayment) * 100),
+      }
+    : fixedResult
+  const { schedule, yearlyBreakdown } = floatingResult ?? fixedAmortization
+  const loanMonths = schedule.length
+
+  // Revisions that fall inside the loan, with their resolved loan month
+  const activeRevisions = useMemo(
+    () =>
+      rateRevisions
+        .map((r) => ({ ...r, month: loanMonthFromDate(startDate, r.date) }))
+        .filter((r) => r.month > 1 && r.month <= loanMonths)
+        .sort((a, b) => a.month - b.month),
+    [rateRevisions, startDate, loanMonths]
   )
 
   // Prepayment calculation
   const prepaymentResult = useMemo(() => {
-    const validPrepayments = prepayments.filter((p) => p.year <= tenure && p.amount > 0)
+    const validPrepayments = prepayments.filter((p) => p.month >= 1 && p.month <= schedule.length && p.amount > 0)
     if (validPrepayments.length === 0) return null
-    return calculateWithPrepayments(principal, rate, result.emi, tenure, validPrepayments)
-  }, [principal, rate, tenure, result.emi, prepayments])
+    return calculateWithPrepayments(effectivePrincipal, rate, schedule, validPrepayments, prepaymentStrategy)
+  }, [effectivePrincipal, rate, schedule, prepayments, prepaymentStrategy])
+
+  // Total prepayment amount actually paid (recurring and % prepayments resolved)
+  const totalPrepaymentAmount = prepaymentResult?.totalPrepaid ?? 0
+
+  // Balance transfer: switch the outstanding balance to a new lender at month N
+  const refinanceResult = useMemo(
+    () =>
+      mode === 'refinance'
+        ? calculateRefinance(schedule, switchMonth, newRate, processingFeePercent, foreclosurePercent)
+        : null,
+    [mode, schedule, switchMonth, newRate, processingFeePercent, foreclosurePercent]
+  )
 
-  // Total prepayment amount
-  const totalPrepaymentAmount = useMemo(
-    () => prepayments.reduce((sum, p) => sum + p.amount, 0),
-    [prepayments]
+  // Old-regime home loan tax benefits, bucketed by financial year
+  const taxBenefits = useMemo(
+    () => calculateHomeLoanTaxBenefits(schedule, startDate, rate, taxSlabRate, other80C, claim80EEA),
+    [schedule, startDate, rate, taxSlabRate, other80C, claim80EEA]
   )
 
+  // Prepayments actually made, keyed by loan month and by loan year
+  const { prepaymentByMonth, prepaymentByYear } = useMemo(() => {
+    const byMonth = new Map<number, number>()
+    const byYear = new Map<number, number>()
+    prepaymentResult?.schedule.forEach((row) => {
+      if (row.prepayment > 0) {
+        byMonth.set(row.month, row.prepayment)
+        byYear.set(row.year, (byYear.get(row.year) || 0) + row.prepayment)
+      }
+    })
+    return { prepaymentByMonth: byMonth, prepaymentByYear: byYear }
+  }, [prepaymentResult])
+
   const handleClear = () => {
     setMode('calculate')
     setPrincipal(5000000)
@@ -353,20 +310,94 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
     setRate(8.5)
     setTenure(20)
     setNotes('')
+    setPrepayments([{ id: 1, frequency: 'once', month: 60, amount: 500000, amountType: 'fixed' }])
+    setNextPrepaymentId(2)
+    setPrepaymentStrategy('tenure')
+    setSwitchMonth(36)
+    setNewRate(8)
+    setProcessingFeePercent(0.5)
+    setForeclosurePercent(0)
+    setShowTaxBenefits(false)
+    setTaxSlabRate(30)
+    setOther80C(0)
+    setClaim80EEA(false)
+    setRateType('fixed')
+    setStartDate(currentMonthDate())
+    setRateRevisions([{ id: 1, date: addMonthsToDate(currentMonthDate(), 12), rate: 9, adjust: 'tenure' }])
+    setNextRevisionId(2)
     localStorage.removeItem('calc_emi')
   }
 
   // Export to CSV (Excel compatible)
   const exportToExcel = () => {
     const headers = ['Month', 'Year', 'EMI (₹)', 'Principal (₹)', 'Interest (₹)', 'Balance (₹)']
-    const rows = schedule.map((row) => [
-      row.month,
-      row.year,
-      row.emi,
-      row.principal,
-      row.interest,
-      row.balance,
-    ])
+    if (isFloating) headers.push('Rate (%)')
+    if (prepaymentResult) headers.push('Prepayment (₹)', 'EMI with Prepayment (₹)', 'Balance with Prepayment (₹)')
+    const rows = schedule.map((row) => {
+      const withRow = prepaymentResult?.schedule[row.month - 1]
+      return [
+        row.month,
+        row.year,
+        row.emi,
+        row.principal,
+        row.interest,
+        row.balance,
+        ...(isFloating ? [row.rate] : []),
+        ...(withRow ? [withRow.prepayment, withRow.emi, withRow.balance] : []),
+      ]
+    })
+    const refinanceLines = refinanceResult
+      ? [
+          ``,
+          `BALANCE TRANSFER`,
+          `Switch After Month: ${switchMonth}`,
+          `Outstanding Balance: ₹${formatIndianNumber(refinanceResult.outstanding)}`,
+          `New Rate: ${newRate}% p.a.`,
+          `Current EMI: ₹${formatIndianNumber(refinanceResult.currentEmi)}`,
+          `New EMI: ₹${formatIndianNumber(refinanceResult.newEmi)}`,
+          `Processing Fee: ₹${formatIndianNumber(refinanceResult.processingFee)}`,
+          `Foreclosure Charges: ₹${formatIndianNumber(refinanceResult.foreclosureCharges)}`,
+          `Net Savings: ${refinanceResult.netSavings < 0 ? '-' : ''}₹${formatIndianNumber(Math.abs(refinanceResult.netSavings))}`,
+          `Break-even Month: ${refinanceResult.breakEvenMonth ?? 'Never'}`,
+          ``,
+          `Month,Current EMI (₹),Current Balance (₹),New EMI (₹),New Balance (₹),Net Savings (₹)`,
+          ...refinanceResult.rows.map((row) =>
+            [row.month, row.currentEmi, row.currentBalance, row.newEmi, row.newBalance, row.cumulativeSavings].join(',')
+          ),
+        ]
+      : []
+    const prepaymentLines = prepaymentResult
+      ? [
+          `Prepayment Strategy: ${prepaymentStrategy === 'tenure' ? 'Reduce tenure' : 'Reduce EMI'}`,
+          `Total Prepayments: ₹${formatIndianNumber(prepaymentResult.totalPrepaid)}`,
+          `Interest Saved: ₹${formatIndianNumber(prepaymentResult.interestSaved)}`,
+          `Months Saved: ${prepaymentResult.monthsSaved}`,
+          `Break-even Month: ${prepaymentResult.breakEvenMonth ?? 'Not within tenure'}`,
+        ]
+      : []
+    const taxBenefitLines = showTaxBenefits
+      ? [
+          ``,
+          `HOME LOAN TAX BENEFITS (OLD REGIME, ${taxSlabRate}% SLAB)`,
+          `Total Tax Saved: ₹${formatIndianNumber(taxBenefits.totalTaxSaved)}`,
+          `Effective Post-tax Interest Rate: ${taxBenefits.effectiveRate.toFixed(2)}% p.a.`,
+          ``,
+          `Financial Year,Principal (₹),Interest (₹),80C (₹),24(b) (₹),80EEA (₹),Tax Saved (₹)`,
+          ...taxBenefits.years.map((y) =>
+            [y.fy, Math.round(y.principal), Math.round(y.interest), Math.round(y.deduction80C), Math.round(y.deduction24b), Math.round(y.deduction80EEA), y.taxSaved].join(',')
+          ),
+        ]
+      : []
+    const floatingLines = floatingResult
+      ? [
+          `Rate Type: Floating (starting ${formatLoanMonth(startDate, 1)})`,
+          ...activeRevisions.map(
+            (r) => `Rate Revision: ${formatLoanMonth(startDate, r.month)} (month ${r.month}) → ${r.rate}% p.a., ${r.adjust === 'emi' ? 'EMI revised' : 'tenure revised'}`
+          ),
+          `Final EMI: ₹${formatIndianNumber(floatingResult.finalEmi)}`,
+          `Actual Tenure: ${Math.floor(floatingResult.tenureMonths / 12)}y ${floatingResult.tenureMonths % 12}m`,
+        ]
+      : []
 
     const csvContent = [
       `EMI Calculator - Amortization Schedule`,
@@ -378,6 +409,10 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
       `Monthly EMI: ₹${formatIndianNumber(result.emi)}`,
       `Total Interest: ₹${formatIndianNumber(result.totalInterest)}`,
       `Total Payment: ₹${formatIndianNumber(result.totalPayment)}`,
+      ...floatingLines,
+      ...prepaymentLines,
+      ...refinanceLines,
+      ...taxBenefitLines,
       ``,
       headers.join(','),
       ...rows.map((row) => row.join(',')),
@@ -391,15 +426,15 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
   }
 
   // Generate yearly breakdown chart HTML
-  const generateYearlyChartHTML = (breakdown: YearlyBreakdown[], prepaymentsList: PrepaymentEntry[] = []) => {
+  const generateYearlyChartHTML = (breakdown: LoanYearlyBreakdown[], prepaymentsForYear: Map<number, number> = new Map()) => {
     const maxTotal = Math.max(...breakdown.map((y) => y.principal + y.interest))
     return breakdown
       .map((y) => {
         const total = y.principal + y.interest
         const barWidth = maxTotal > 0 ? (total / maxTotal) * 100 : 0
         const principalWidth = total > 0 ? (y.principal / total) * 100 : 0
-        const hasPrepayment = prepaymentsList.some((p) => p.year === y.year)
-        const prepaymentAmount = prepaymentsList.find((p) => p.year === y.year)?.amount || 0
+        const prepaymentAmount = prepaymentsForYear.get(y.year) || 0
+        const hasPrepayment = prepaymentAmount > 0
         return `
           <div class="year-row ${hasPrepayment ? 'prepayment-year' : ''}">
             <span class="year-label">Y${y.year}${hasPrepayment ? '*' : ''}</span>
@@ -419,9 +454,134 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
       .join('')
   }
 
+  // Rate revision timeline for exports (floating rate mode)
+  const generateRateTimelineHTML = () => {
+    if (!floatingResult || activeRevisions.length === 0) return ''
+    return `
+        <h2>Rate Revision Timeline</h2>
+        <table>
+          <tr>
+            <th>Effective</th>
+            <th>Loan Month</th>
+            <th>New Rate</th>
+            <th>Adjustment</th>
+            <th>EMI After</th>
+          </tr>
+          ${activeRevisions
+            .map(
+              (r) => `
+          <tr>
+            <td>${formatLoanMonth(startDate, r.month)}</td>
+            <td>${r.month}</td>
+            <td>${r.rate}%</td>
+            <td>${r.adjust === 'emi' ? 'EMI revised' : 'Tenure revised'}</td>
+            <td>₹${formatIndianNumber(schedule[r.month - 1]?.emi ?? 0)}</td>
+          </tr>
+        `
+            )
+            .join('')}
+        </table>
+        <p style="font-size: 11px; color: #64748b; margin: 10px 0;">
+          Starting EMI: ₹${formatIndianNumber(floatingResult.initialEmi)} |
+          Final EMI: ₹${formatIndianNumber(floatingResult.finalEmi)} |
+          Actual Tenure: ${Math.floor(floatingResult.tenureMonths / 12)}y ${floatingResult.tenureMonths % 12}m
+        </p>
+    `
+  }
+
+  // Balance transfer comparison for exports (refinance mode)
+  const generateRefinanceHTML = () => {
+    if (!refinanceResult) return ''
+    return `
+        <h2>Balance Transfer Analysis</h2>
+        <div class="prepayment-summary">
+          <div class="prepayment-title">${refinanceResult.netSavings > 0 ? 'You Save by Switching' : 'Switching Costs You'}</div>
+          <div class="prepayment-grid">
+            <div class="prepayment-item">
+              <div class="prepayment-value">₹${formatIndianNumber(Math.abs(refinanceResult.netSavings))}</div>
+              <div class="prepayment-label">Net ${refinanceResult.netSavings > 0 ? 'Savings' : 'Loss'}</div>
+            </div>
+            <div class="prepayment-item">
+              <div class="prepayment-value">${refinanceResult.breakEvenMonth ? `Month ${refinanceResult.breakEvenMonth}` : 'Never'}</div>
+              <div class="prepayment-label">Break-even</div>
+            </div>
+          </div>
+        </div>
+        <p style="font-size: 11px; color: #64748b; margin: 10px 0;">
+          Switch after month ${switchMonth} | Outstanding: ₹${formatIndianNumber(refinanceResult.outstanding)} |
+          New Rate: ${newRate}% | EMI: ₹${formatIndianNumber(refinanceResult.currentEmi)} → ₹${formatIndianNumber(refinanceResult.newEmi)} |
+          Processing Fee: ₹${formatIndianNumber(refinanceResult.processingFee)} |
+          Foreclosure: ₹${formatIndianNumber(refinanceResult.foreclosureCharges)}
+        </p>
+        <table>
+          <tr>
+            <th>Month</th>
+            <th>Current EMI</th>
+            <th>Current Balance</th>
+            <th>New EMI</th>
+            <th>New Balance</th>
+            <th>Net Savings</th>
+          </tr>
+          ${refinanceResult.rows
+            .map(
+              (row) => `
+          <tr class="${row.month === refinanceResult.breakEvenMonth ? 'prepayment-row' : ''}">
+            <td>${row.month}</td>
+            <td>₹${formatIndianNumber(row.currentEmi)}</td>
+            <td>₹${formatIndianNumber(row.currentBalance)}</td>
+            <td class="interest">₹${formatIndianNumber(row.newEmi)}</td>
+            <td class="interest">₹${formatIndianNumber(row.newBalance)}</td>
+            <td class="${row.cumulativeSavings >= 0 ? 'principal' : ''}">${row.cumulativeSavings < 0 ? '-' : ''}₹${formatIndianNumber(Math.abs(row.cumulativeSavings))}</td>
+          </tr>
+        `
+            )
+            .join('')}
+        </table>
+    `
+  }
+
+  // Financial-year tax benefit table for exports
+  const generateTaxBenefitHTML = () => {
+    if (!showTaxBenefits) return ''
+    return `
+        <h2>Home Loan Tax Benefits (Old Regime)</h2>
+        <p style="font-size: 11px; color: #64748b; margin: 10px 0;">
+          Slab: ${taxSlabRate}% + ${CESS_RATE}% cess | Other 80C investments: ₹${formatIndianNumber(other80C)} |
+          80EEA: ${claim80EEA ? 'Claimed' : 'Not claimed'} | Total Tax Saved: ₹${formatIndianNumber(taxBenefits.totalTaxSaved)} |
+          Effective Rate: ${taxBenefits.effectiveRate.toFixed(2)}% (vs ${rate}%)
+        </p>
+        <table>
+          <tr>
+            <th>Financial Year</th>
+            <th>Principal</th>
+            <th>Interest</th>
+            <th>80C</th>
+            <th>24(b)</th>
+            ${claim80EEA ? '<th>80EEA</th>' : ''}
+            <th>Tax Saved</th>
+          </tr>
+          ${taxBenefits.years
+            .map(
+              (y) => `
+          <tr>
+            <td>${y.fy}</td>
+            <td class="principal">₹${formatIndianNumber(y.principal)}</td>
+            <td class="interest">₹${formatIndianNumber(y.interest)}</td>
+            <td>₹${formatIndianNumber(y.deduction80C)}</td>
+            <td>₹${formatIndianNumber(y.deduction24b)}</td>
+            ${claim80EEA ? `<td>₹${formatIndianNumber(y.deduction80EEA)}</td>` : ''}
+            <td class="principal">₹${formatIndianNumber(y.taxSaved)}</td>
+          </tr>
+        `
+            )
+            .join('')}
+        </table>
+    `
+  }
+
   // Export to PDF (uses browser print)
   const exportToPDF = () => {
-    const hasPrepayments = prepayments.length > 0 && prepayments.some((p) => p.amount > 0)
+    const hasPrepayments = prepaymentResult !== null
     const printContent = `
       <!DOCTYPE html>
       <html>
@@ -508,17 +668,17 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
             </div>
             <div class="summary-item">
               <div class="summary-label">Interest Rate</div>
-              <div class="summary-value">${rate}% p.a.</div>
+              <div class="summary-value">${rate}% p.a.${isFloating ? ' (floating)' : ''}</div>
             </div>
             <div class="summary-item">
               <div class="summary-label">Tenure</div>
-              <div class="summary-value">${tenure} years</div>
+              <div class="summary-value">${isFloating && floatingResult ? `${Math.floor(loanMonths / 12)}y ${loanMonths % 12}m` : `${tenure} years`}</div>
             </div>
           </div>
         </div>
 
         <div class="emi-highlight">
-          <div class="emi-label">Monthly EMI</div>
+          <div class="emi-label">${isFloating ? 'Starting Monthly EMI' : 'Monthly EMI'}</div>
           <div class="emi-value">₹${formatIndianNumber(result.emi)}</div>
         </div>
 
@@ -558,14 +718,23 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
           </div>
         </div>
         <p style="font-size: 11px; color: #64748b; margin: 10px 0;">
+          Strategy: ${prepaymentStrategy === 'tenure' ? 'Reduce tenure' : 'Reduce EMI'} |
           Total Prepayments: ₹${formatIndianNumber(totalPrepaymentAmount)} |
           New Tenure: ${Math.floor(prepaymentResult.newTenureMonths / 12)}y ${prepaymentResult.newTenureMonths % 12}m |
-          New Total Interest: ₹${formatIndianNumber(prepaymentResult.newTotalInterest)}
+          ${prepaymentStrategy === 'emi' ? `Final EMI: ₹${formatIndianNumber(prepaymentResult.finalEmi)} |` : ''}
+          New Total Interest: ₹${formatIndianNumber(prepaymentResult.newTotalInterest)} |
+          Break-even: ${prepaymentResult.breakEvenMonth ? `Month ${prepaymentResult.breakEvenMonth}` : 'Not within tenure'}
         </p>
         `
             : ''
         }
 
+        ${generateRateTimelineHTML()}
+
+        ${generateRefinanceHTML()}
+
+        ${generateTaxBenefitHTML()}
+
         <h2>Yearly Payment Breakdown</h2>
         <div class="yearly-chart">
           <div class="chart-header">
@@ -573,7 +742,7 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
             <span>Principal & Interest</span>
             <span>Balance</span>
           </div>
-          ${hasPrepayments && prepaymentResult ? generateYearlyChartHTML(prepaymentResult.yearlyBreakdown, prepayments) : generateYearlyChartHTML(yearlyBreakdown)}
+          ${hasPrepayments && prepaymentResult ? generateYearlyChartHTML(prepaymentResult.yearlyBreakdown, prepaymentByYear) : generateYearlyChartHTML(yearlyBreakdown)}
           <div class="chart-footer">
             <div class="chart-footer-item">
               <div class="chart-footer-color" style="background: #22c55e;"></div>
@@ -596,14 +765,13 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
             <th>Principal</th>
             <th>Interest</th>
             <th>Balance</th>
-            ${hasPrepayments ? '<th>Prepayment</th>' : ''}
+            ${isFloating ? '<th>Rate</th>' : ''}
+            ${hasPrepayments ? '<th>Prepayment</th><th>EMI (with)</th><th>Balance (with)</th>' : ''}
           </tr>
           ${schedule
             .map((row) => {
-              const isYearEnd = row.month % 12 === 0
-              const currentYear = Math.ceil(row.month / 12)
-              const prepaymentForYear = prepayments.find((p) => p.year === currentYear)
-              const showPrepayment = isYearEnd && prepaymentForYear
+              const withRow = prepaymentResult?.schedule[row.month - 1]
+              const showPrepayment = !!withRow && withRow.prepayment > 0
               return `
             <tr class="${showPrepayment ? 'prepayment-row' : ''}">
               <td>${row.month}${showPrepayment ? '*' : ''}</td>
@@ -611,13 +779,17 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
               <td class="principal">₹${formatIndianNumber(row.principal)}</td>
               <td class="interest">₹${formatIndianNumber(row.interest)}</td>
               <td>₹${formatIndianNumber(row.balance)}</td>
-              ${hasPrepayments ? `<td class="principal">${showPrepayment ? '₹' + formatIndianNumber(prepaymentForYear.amount) : '—'}</td>` : ''}
+              ${isFloating ? `<td>${row.rate}%</td>` : ''}
+              ${hasPrepayments && withRow ? `
+              <td class="principal">${showPrepayment ? '₹' + formatIndianNumber(withRow.prepayment) : '—'}</td>
+              <td>₹${formatIndianNumber(withRow.emi)}</td>
+              <td>₹${formatIndianNumber(withRow.balance)}</td>` : ''}
             </tr>
           `
             })
             .join('')}
         </table>
-        ${hasPrepayments ? '<p style="font-size: 10px; color: #16a34a; margin-top: 10px;">* Prepayment applied at end of year</p>' : ''}
+        ${hasPrepayments ? '<p style="font-size: 10px; color: #16a34a; margin-top: 10px;">* Prepayment applied after that month\'s EMI. "(with)" columns show the loan with prepayments.</p>' : ''}
 
         ${notes && notes.trim() ? `
         <div class="notes-section">
@@ -652,7 +824,7 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
 
   // Export to HTML
   const exportToHTML = () => {
-    const hasPrepayments = prepayments.length > 0 && prepayments.some((p) => p.amount > 0)
+    const hasPrepayments = prepaymentResult !== null
     const htmlContent = `
       <!DOCTYPE html>
       <html>
@@ -735,17 +907,17 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
             </div>
             <div class="summary-item">
               <div class="summary-label">Interest Rate</div>
-              <div class="summary-value">${rate}% p.a.</div>
+              <div class="summary-value">${rate}% p.a.${isFloating ? ' (floating)' : ''}</div>
             </div>
             <div class="summary-item">
               <div class="summary-label">Tenure</div>
-              <div class="summary-value">${tenure} years</div>
+              <div class="summary-value">${isFloating && floatingResult ? `${Math.floor(loanMonths / 12)}y ${loanMonths % 12}m` : `${tenure} years`}</div>
             </div>
           </div>
         </div>
 
         <div class="emi-highlight">
-          <div class="emi-label">Monthly EMI</div>
+          <div class="emi-label">${isFloating ? 'Starting Monthly EMI' : 'Monthly EMI'}</div>
           <div class="emi-value">₹${formatIndianNumber(result.emi)}</div>
         </div>
 
@@ -785,14 +957,23 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
           </div>
         </div>
         <p style="font-size: 11px; color: #64748b; margin: 10px 0;">
+          Strategy: ${prepaymentStrategy === 'tenure' ? 'Reduce tenure' : 'Reduce EMI'} |
           Total Prepayments: ₹${formatIndianNumber(totalPrepaymentAmount)} |
           New Tenure: ${Math.floor(prepaymentResult.newTenureMonths / 12)}y ${prepaymentResult.newTenureMonths % 12}m |
-          New Total Interest: ₹${formatIndianNumber(prepaymentResult.newTotalInterest)}
+          ${prepaymentStrategy === 'emi' ? `Final EMI: ₹${formatIndianNumber(prepaymentResult.finalEmi)} |` : ''}
+          New Total Interest: ₹${formatIndianNumber(prepaymentResult.newTotalInterest)} |
+          Break-even: ${prepaymentResult.breakEvenMonth ? `Month ${prepaymentResult.breakEvenMonth}` : 'Not within tenure'}
         </p>
         `
             : ''
         }
 
+        ${generateRateTimelineHTML()}
+
+        ${generateRefinanceHTML()}
+
+        ${generateTaxBenefitHTML()}
+
         <h2>Yearly Payment Breakdown</h2>
         <div class="yearly-chart">
           <div class="chart-header">
@@ -800,7 +981,7 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
             <span>Principal & Interest</span>
             <span>Balance</span>
           </div>
-          ${hasPrepayments && prepaymentResult ? generateYearlyChartHTML(prepaymentResult.yearlyBreakdown, prepayments) : generateYearlyChartHTML(yearlyBreakdown)}
+          ${hasPrepayments && prepaymentResult ? generateYearlyChartHTML(prepaymentResult.yearlyBreakdown, prepaymentByYear) : generateYearlyChartHTML(yearlyBreakdown)}
           <div class="chart-footer">
             <div class="chart-footer-item">
               <div class="chart-footer-color" style="background: #22c55e;"></div>
@@ -822,14 +1003,13 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
             <th>Principal</th>
             <th>Interest</th>
             <th>Balance</th>
-            ${hasPrepayments ? '<th>Prepayment</th>' : ''}
+            ${isFloating ? '<th>Rate</th>' : ''}
+            ${hasPrepayments ? '<th>Prepayment</th><th>EMI (with)</th><th>Balance (with)</th>' : ''}
           </tr>
           ${schedule
             .map((row) => {
-              const isYearEnd = row.month % 12 === 0
-              const currentYear = Math.ceil(row.month / 12)
-              const prepaymentForYear = prepayments.find((p) => p.year === currentYear)
-              const showPrepayment = isYearEnd && prepaymentForYear
+              const withRow = prepaymentResult?.schedule[row.month - 1]
+              const showPrepayment = !!withRow && withRow.prepayment > 0
               return `
             <tr class="${showPrepayment ? 'prepayment-row' : ''}">
               <td>${row.month}${showPrepayment ? '*' : ''}</td>
@@ -837,13 +1017,17 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
               <td class="principal">₹${formatIndianNumber(row.principal)}</td>
               <td class="interest">₹${formatIndianNumber(row.interest)}</td>
               <td>₹${formatIndianNumber(row.balance)}</td>
-              ${hasPrepayments ? `<td class="principal">${showPrepayment ? '₹' + formatIndianNumber(prepaymentForYear.amount) : '—'}</td>` : ''}
+              ${isFloating ? `<td>${row.rate}%</td>` : ''}
+              ${hasPrepayments && withRow ? `
+              <td class="principal">${showPrepayment ? '₹' + formatIndianNumber(withRow.prepayment) : '—'}</td>
+              <td>₹${formatIndianNumber(withRow.emi)}</td>
+              <td>₹${formatIndianNumber(withRow.balance)}</td>` : ''}
             </tr>
           `
             })
             .join('')}
         </table>
-        ${hasPrepayments ? '<p style="font-size: 10px; color: #16a34a; margin-top: 10px;">* Prepayment applied at end of year</p>' : ''}
+        ${hasPrepayments ? '<p style="font-size: 10px; color: #16a34a; margin-top: 10px;">* Prepayment applied after that month\'s EMI. "(with)" columns show the loan with prepayments.</p>' : ''}
 
         ${notes && notes.trim() ? `
         <div class="notes-section">
@@ -910,19 +1094,31 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
             >
               Affordability
             </button>
+            <button
+              onClick={() => setMode('refinance')}
+              className={`flex-1 px-2 sm:px-4 py-2 text-[10px] sm:text-xs font-medium rounded-md transition-all ${
+                mode === 'refinance'
+                  ? 'bg-white text-blue-600 shadow-sm'
+                  : 'text-slate-600 hover:text-slate-900'
+              }`}
+            >
+              Balance Transfer
+            </button>
           </div>
           <p className="text-[10px] text-slate-500 text-center mt-2">
             {mode === 'calculate'
               ? 'Calculate EMI for a given loan amount'
-              : 'Find how much loan you can afford for your EMI budget'}
+              : mode === 'affordability'
+                ? 'Find how much loan you can afford for your EMI budget'
+                : 'Check whether moving your loan to another bank pays off'}
           </p>
         </div>
 
         <div className="grid md:grid-cols-2">
           {/* Inputs */}
           <div className="p-4 sm:p-5 space-y-5 md:border-r border-slate-100">
-            {mode === 'calculate' ? (
-              /* Loan Amount - Calculate mode */
+            {mode !== 'affordability' ? (
+              /* Loan Amount - Calculate / Balance Transfer mode */
               <div>
                 <label className="block text-sm font-medium text-slate-600 mb-2">Loan Amount</label>
                 <div className="relative mb-2">
@@ -1011,7 +1207,26 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
 
             {/* Interest Rate */}
             <div>
-              <label className="block text-sm font-medium text-slate-600 mb-2">Interest Rate</label>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm font-medium text-slate-600">
+                  {isFloating ? 'Starting Interest Rate' : 'Interest Rate'}
+                </label>
+                <div className="flex rounded-md bg-slate-100 p-0.5">
+                  {(['fixed', 'floating'] as const).map((type) => (
+                    <button
+                      key={type}
+                      onClick={() => setRateType(type)}
+                      className={`px-2 py-0.5 text-[10px] font-medium rounded capitalize transition-all ${
+                        rateType === type
+                          ? 'bg-white text-blue-600 shadow-sm'
+                          : 'text-slate-500 hover:text-slate-700'
+                      }`}
+                    >
+                      {type}
+                    </button>
+                  ))}
+                </div>
+              </div>
               <div className="relative mb-2">
                 <input
                   type="text"
@@ -1120,14 +1335,31 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
           {/* Results */}
           <div className="p-4 sm:p-5 bg-slate-50">
             {/* Primary Result - Mode dependent */}
-            {mode === 'calculate' ? (
+            {mode === 'refinance' && refinanceResult ? (
+              <div className={`rounded-lg p-4 text-center mb-4 ${refinanceResult.netSavings > 0 ? 'bg-green-50' : 'bg-red-50'}`}>
+                <div className={`text-[10px] font-semibold uppercase tracking-wider mb-1 ${refinanceResult.netSavings > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {refinanceResult.netSavings > 0 ? 'Net Savings from Switching' : 'Switching Costs You'}
+                </div>
+                <div className="font-mono text-3xl font-bold text-slate-900">
+                  ₹{formatIndianNumber(Math.abs(refinanceResult.netSavings))}
+                </div>
+                <div className="text-xs text-slate-500 mt-1">
+                  EMI ₹{formatIndianNumber(refinanceResult.currentEmi)} → ₹{formatIndianNumber(refinanceResult.newEmi)}
+                </div>
+              </div>
+            ) : mode !== 'affordability' ? (
               <div className="bg-green-50 rounded-lg p-4 text-center mb-4">
                 <div className="text-[10px] font-semibold uppercase tracking-wider text-green-600 mb-1">
-                  Monthly EMI
+                  {isFloating ? 'Starting Monthly EMI' : 'Monthly EMI'}
                 </div>
                 <div className="font-mono text-3xl font-bold text-slate-900">
                   ₹{formatIndianNumber(result.emi)}
                 </div>
+                {floatingResult && activeRevisions.length > 0 && (
+                  <div className="text-xs text-slate-500 mt-1">
+                    → ₹{formatIndianNumber(floatingResult.finalEmi)} after {activeRevisions.length} revision{activeRevisions.length > 1 ? 's' : ''}
+                  </div>
+                )}
               </div>
             ) : (
               <div className="bg-blue-50 rounded-lg p-4 text-center mb-4">
@@ -1147,10 +1379,10 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
             <div className="grid grid-cols-3 gap-1.5 sm:gap-2 mb-4">
               <div className="bg-white rounded-lg p-2 sm:p-3 text-center">
                 <div className="text-[8px] sm:text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
-                  {mode === 'calculate' ? 'Principal' : 'EMI Budget'}
+                  {mode !== 'affordability' ? 'Principal' : 'EMI Budget'}
                 </div>
                 <div className="font-mono text-xs sm:text-sm font-semibold text-slate-900">
-                  {mode === 'calculate' ? formatCurrencyCompact(principal) : formatCurrencyCompact(emiBudget)}
+                  {mode !== 'affordability' ? formatCurrencyCompact(principal) : formatCurrencyCompact(emiBudget)}
                 </div>
               </div>
               <div className="bg-white rounded-lg p-2 sm:p-3 text-center">
@@ -1246,6 +1478,300 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
         </div>
       </div>
 
+      {/* Balance Transfer / Refinance */}
+      {mode === 'refinance' && (
+        <div className="bg-white border border-slate-200 rounded-xl p-4">
+          <h3 className="text-sm font-semibold text-slate-700 mb-1 flex items-center gap-2">
+            <span>🔁</span> Balance Transfer Comparison
+          </h3>
+          <p className="text-xs text-slate-500 mb-4">
+            Move the outstanding balance to a new lender for the same remaining tenure.
+          </p>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+            <div>
+              <label className="text-[10px] font-medium text-slate-500 mb-1 block">Switch After Month</label>
+              <input
+                type="number"
+                value={switchMonth}
+                onChange={(e) => setSwitchMonth(Math.min(Math.max(Number(e.target.value), 1), Math.max(1, loanMonths - 1)))}
+                className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                min={1}
+                max={loanMonths - 1}
+              />
+            </div>
+            <div>
+              <label className="text-[10px] font-medium text-slate-500 mb-1 block">New Rate (%)</label>
+              <input
+                type="number"
+                value={newRate}
+                onChange={(e) => setNewRate(Number(e.target.value))}
+                className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                min={1}
+                max={20}
+                step={0.05}
+              />
+            </div>
+            <div>
+              <label className="text-[10px] font-medium text-slate-500 mb-1 block">Processing Fee (%)</label>
+              <input
+                type="number"
+                value={processingFeePercent}
+                onChange={(e) => setProcessingFeePercent(Math.max(0, Number(e.target.value)))}
+                className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                min={0}
+                max={5}
+                step={0.05}
+              />
+            </div>
+            <div>
+              <label className="text-[10px] font-medium text-slate-500 mb-1 block">Foreclosure (%)</label>
+              <input
+                type="number"
+                value={foreclosurePercent}
+                onChange={(e) => setForeclosurePercent(Math.max(0, Number(e.target.value)))}
+                className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                min={0}
+                max={5}
+                step={0.05}
+              />
+            </div>
+          </div>
+
+          {refinanceResult ? (
+            <>
+              <div className="grid sm:grid-cols-2 gap-4">
+                {/* Stay with current lender */}
+                <div className="bg-slate-50 rounded-xl p-4 border border-slate-200">
+                  <div className="text-[10px] font-semibold uppercase tracking-wider text-slate-400 mb-3">
+                    Stay ({isFloating ? 'current rates' : `${rate}%`})
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex justify-between items-center">
+                      <span className="text-xs text-slate-500">EMI</span>
+                      <span className="font-mono text-sm font-semibold text-slate-700">₹{formatIndianNumber(refinanceResult.currentEmi)}</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-xs text-slate-500">Remaining Interest</span>
+                      <span className="font-mono text-sm font-semibold text-slate-700">{formatCurrencyCompact(refinanceResult.currentRemainingInterest)}</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-xs text-slate-500">Switching Cost</span>
+                      <span className="font-mono text-sm font-semibold text-slate-700">₹0</span>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Switch to new lender */}
+                <div className="bg-blue-50 rounded-xl p-4 border border-blue-200">
+                  <div className="text-[10px] font-semibold uppercase tracking-wider text-blue-600 mb-3">
+                    Switch ({newRate}%)
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex justify-between items-center">
+                      <span className="text-xs text-blue-700">EMI</span>
+                      <span className="font-mono text-sm font-semibold text-blue-700">₹{formatIndianNumber(refinanceResult.newEmi)}</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-xs text-blue-700">Total Interest</span>
+                      <span className="font-mono text-sm font-semibold text-blue-700">{formatCurrencyCompact(refinanceResult.newTotalInterest)}</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-xs text-blue-700">Switching Cost</span>
+                      <span className="font-mono text-sm font-semibold text-blue-700">{formatCurrencyCompact(refinanceResult.switchingCost)}</span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-4">
+                <div className="bg-slate-50 rounded-lg p-2 text-center">
+                  <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Outstanding</div>
+                  <div className="font-mono text-sm font-semibold text-slate-900">{formatCurrencyCompact(refinanceResult.outstanding)}</div>
+                </div>
+                <div className="bg-slate-50 rounded-lg p-2 text-center">
+                  <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Remaining</div>
+                  <div className="font-mono text-sm font-semibold text-slate-900">
+                    {Math.floor(refinanceResult.remainingMonths / 12)}y {refinanceResult.remainingMonths % 12}m
+                  </div>
+                </div>
+                <div className="bg-slate-50 rounded-lg p-2 text-center">
+                  <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Net Savings</div>
+                  <div className={`font-mono text-sm font-semibold ${refinanceResult.netSavings > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {refinanceResult.netSavings < 0 && '-'}{formatCurrencyCompact(Math.abs(refinanceResult.netSavings))}
+                  </div>
+                </div>
+                <div className="bg-slate-50 rounded-lg p-2 text-center">
+                  <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Break-even</div>
+                  <div className="font-mono text-sm font-semibold text-slate-900">
+                    {refinanceResult.breakEvenMonth
+                      ? `M${refinanceResult.breakEvenMonth} (+${refinanceResult.breakEvenMonth - switchMonth}m)`
+                      : 'Never'}
+                  </div>
+                </div>
+              </div>
+
+              {/* Side-by-side Schedule */}
+              <div className="mt-4 overflow-x-auto max-h-80 overflow-y-auto border border-slate-100 rounded-lg">
+                <table className="w-full text-xs">
+                  <thead className="bg-slate-50 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-semibold text-slate-500">Month</th>
+                      <th className="px-3 py-2 text-right font-semibold text-slate-500">Current EMI</th>
+                      <th className="px-3 py-2 text-right font-semibold text-slate-500">Current Balance</th>
+                      <th className="px-3 py-2 text-right font-semibold text-blue-600">New EMI</th>
+                      <th className="px-3 py-2 text-right font-semibold text-blue-600">New Balance</th>
+                      <th className="px-3 py-2 text-right font-semibold text-slate-500">Net Savings</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {refinanceResult.rows.map((row) => (
+                      <tr
+                        key={row.month}
+                        className={row.month === refinanceResult.breakEvenMonth ? 'bg-green-50 border-l-2 border-l-green-500' : ''}
+                      >
+                        <td className="px-3 py-1.5 font-mono text-slate-600">{row.month}</td>
+                        <td className="px-3 py-1.5 text-right font-mono text-slate-700">₹{formatIndianNumber(row.currentEmi)}</td>
+                        <td className="px-3 py-1.5 text-right font-mono text-slate-700">₹{formatIndianNumber(row.currentBalance)}</td>
+                        <td className="px-3 py-1.5 text-right font-mono text-blue-700">₹{formatIndianNumber(row.newEmi)}</td>
+                        <td className="px-3 py-1.5 text-right font-mono text-blue-700">₹{formatIndianNumber(row.newBalance)}</td>
+                        <td className={`px-3 py-1.5 text-right font-mono ${row.cumulativeSavings >= 0 ? 'text-green-600' : 'text-red-500'}`}>
+                          {row.cumulativeSavings < 0 && '-'}₹{formatIndianNumber(Math.abs(row.cumulativeSavings))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          ) : (
+            <p className="text-xs text-slate-400 text-center">Choose a switch month within the loan tenure.</p>
+          )}
+        </div>
+      )}
+
+      {/* Floating Rate Timeline */}
+      {isFloating && floatingResult && (
+        <div className="bg-white border border-slate-200 rounded-xl p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+              <span>📉</span> Rate Revision Timeline
+            </h3>
+            <div className="flex items-center gap-2">
+              <label className="text-[10px] font-medium text-slate-500">Loan start</label>
+              <input
+                type="month"
+                value={startDate}
+                onChange={(e) => e.target.value && setStartDate(e.target.value)}
+                className="px-2 py-1 text-xs border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500 mb-4">
+            Add each repo-linked rate reset. Choose whether the bank revises your EMI or keeps the EMI and changes the tenure.
+          </p>
+
+          <div className="space-y-3 mb-4">
+            {rateRevisions.map((revision, index) => {
+              const month = loanMonthFromDate(startDate, revision.date)
+              const outOfRange = month <= 1 || month > loanMonths
+              return (
+                <div
+                  key={revision.id}
+                  className={`flex items-center gap-3 p-3 rounded-lg border ${
+                    outOfRange ? 'bg-slate-50 border-dashed border-slate-300 opacity-60' : 'bg-slate-50 border-slate-200'
+                  }`}
+                >
+                  <span className="text-xs font-medium text-slate-400 w-4">#{index + 1}</span>
+                  <div className="flex-1 grid grid-cols-3 gap-3">
+                    <div>
+                      <label className="text-[10px] font-medium text-slate-500 mb-1 block">Effective From</label>
+                      <input
+                        type="month"
+                        value={revision.date}
+                        onChange={(e) => e.target.value && updateRateRevision(revision.id, 'date', e.target.value)}
+                        className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] font-medium text-slate-500 mb-1 block">New Rate (%)</label>
+                      <input
+                        type="number"
+                        value={revision.rate}
+                        onChange={(e) => updateRateRevision(revision.id, 'rate', Number(e.target.value))}
+                        className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                        min={1}
+                        max={20}
+                        step={0.05}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] font-medium text-slate-500 mb-1 block">Adjust</label>
+                      <select
+                        value={revision.adjust}
+                        onChange={(e) => updateRateRevision(revision.id, 'adjust', e.target.value as RateRevision['adjust'])}
+                        className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="tenure">Tenure</option>
+                        <option value="emi">EMI</option>
+                      </select>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => removeRateRevision(revision.id)}
+                    className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                    title="Remove revision"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              )
+            })}
+          </div>
+
+          <button
+            onClick={addRateRevision}
+            className="w-full py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors flex items-center justify-center gap-2"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            Add Rate Revision
+          </button>
+
+          {/* Fixed vs Floating comparison */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-4">
+            <div className="bg-slate-50 rounded-lg p-2 text-center">
+              <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Final EMI</div>
+              <div className="font-mono text-sm font-semibold text-slate-900">₹{formatIndianNumber(floatingResult.finalEmi)}</div>
+            </div>
+            <div className="bg-slate-50 rounded-lg p-2 text-center">
+              <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Actual Tenure</div>
+              <div className="font-mono text-sm font-semibold text-slate-900">
+                {Math.floor(floatingResult.tenureMonths / 12)}y {floatingResult.tenureMonths % 12}m
+              </div>
+            </div>
+            <div className="bg-slate-50 rounded-lg p-2 text-center">
+              <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Interest (Floating)</div>
+              <div className="font-mono text-sm font-semibold text-slate-900">{formatCurrencyCompact(floatingResult.totalInterest)}</div>
+            </div>
+            <div className="bg-slate-50 rounded-lg p-2 text-center">
+              <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">vs Fixed {rate}%</div>
+              <div
+                className={`font-mono text-sm font-semibold ${
+                  floatingResult.totalInterest > fixedResult.totalInterest ? 'text-red-600' : 'text-green-600'
+                }`}
+              >
+                {floatingResult.totalInterest >= fixedResult.totalInterest ? '+' : '-'}
+                {formatCurrencyCompact(Math.abs(floatingResult.totalInterest - fixedResult.totalInterest))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Yearly Payment Breakdown Chart */}
       <div className="bg-white border border-slate-200 rounded-xl p-5">
         <h3 className="text-sm font-semibold text-slate-700 mb-4 flex items-center gap-2">
@@ -1308,7 +1834,8 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
             <span>Interest</span>
           </div>
           <span className="ml-auto text-slate-400">
-            Total: ₹{formatIndianNumber(result.totalPayment)} over {tenure} years
+            Total: ₹{formatIndianNumber(result.totalPayment)} over{' '}
+            {isFloating ? `${Math.floor(loanMonths / 12)}y ${loanMonths % 12}m` : `${tenure} years`}
           </span>
         </div>
       </div>
@@ -1344,9 +1871,32 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
         {showPrepayment && (
           <div className="px-4 pb-4 pt-2">
             <p className="text-xs text-slate-500 mb-4">
-              Add lumpsum payments to see how they reduce your loan tenure and save interest.
+              Add one-time or recurring prepayments to see how they cut your interest, tenure or EMI.
             </p>
 
+            {/* Strategy Toggle */}
+            <div className="flex items-center justify-between mb-4">
+              <span className="text-xs font-medium text-slate-600">After each prepayment</span>
+              <div className="flex rounded-lg bg-slate-100 p-0.5">
+                {([
+                  { value: 'tenure', label: 'Reduce Tenure' },
+                  { value: 'emi', label: 'Reduce EMI' },
+                ] as const).map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setPrepaymentStrategy(option.value)}
+                    className={`px-3 py-1 text-[10px] font-medium rounded-md transition-all ${
+                      prepaymentStrategy === option.value
+                        ? 'bg-white text-blue-600 shadow-sm'
+                        : 'text-slate-500 hover:text-slate-700'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             {/* Prepayment List */}
             <div className="space-y-3 mb-4">
               {prepayments.map((prepayment, index) => (
@@ -1355,35 +1905,61 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
                   className="flex items-center gap-3 p-3 bg-slate-50 rounded-lg border border-slate-200"
                 >
                   <span className="text-xs font-medium text-slate-400 w-4">#{index + 1}</span>
-                  <div className="flex-1 grid grid-cols-2 gap-3">
+                  <div className="flex-1 grid grid-cols-2 sm:grid-cols-3 gap-3">
                     <div>
                       <label className="text-[10px] font-medium text-slate-500 mb-1 block">Amount</label>
-                      <div className="relative">
-                        <span className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400 text-xs">₹</span>
+                      <div className="flex">
                         <input
                           type="number"
                           value={prepayment.amount}
                           onChange={(e) => updatePrepayment(prepayment.id, 'amount', Number(e.target.value))}
-                          className="w-full pl-6 pr-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
-                          min={10000}
-                          step={10000}
+                          className="w-full min-w-0 px-2 py-1.5 text-sm border border-slate-200 rounded-l focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                          min={0}
+                          step={prepayment.amountType === 'percent' ? 1 : 10000}
                         />
+                        <select
+                          value={prepayment.amountType}
+                          onChange={(e) => updatePrepayment(prepayment.id, 'amountType', e.target.value as PrepaymentEntry['amountType'])}
+                          className="px-1 py-1.5 text-xs border border-l-0 border-slate-200 rounded-r bg-white focus:outline-none"
+                          title="Fixed amount or % of outstanding balance"
+                        >
+                          <option value="fixed">₹</option>
+                          <option value="percent">% bal</option>
+                        </select>
                       </div>
                     </div>
                     <div>
-                      <label className="text-[10px] font-medium text-slate-500 mb-1 block">Year</label>
+                      <label className="text-[10px] font-medium text-slate-500 mb-1 block">Frequency</label>
                       <select
-                        value={prepayment.year}
-                        onChange={(e) => updatePrepayment(prepayment.id, 'year', Number(e.target.value))}
-                        className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                        value={prepayment.frequency}
+                        onChange={(e) => updatePrepayment(prepayment.id, 'frequency', e.target.value as PrepaymentEntry['frequency'])}
+                        className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       >
-                        {Array.from({ length: tenure }, (_, i) => i + 1).map((year) => (
-                          <option key={year} value={year}>
-                            Year {year}
-                          </option>
-                        ))}
+                        <option value="once">One-time</option>
+                        <option value="monthly">Every month</option>
+                        <option value="yearly">Every year</option>
                       </select>
                     </div>
+                    <div className="col-span-2 sm:col-span-1">
+                      <label className="text-[10px] font-medium text-slate-500 mb-1 block">
+                        {prepayment.frequency === 'once' ? 'In Month' : 'Starting Month'}
+                      </label>
+                      <div className="relative">
+                        <input
+                          type="number"
+                          value={prepayment.month}
+                          onChange={(e) =>
+                            updatePrepayment(prepayment.id, 'month', Math.min(Math.max(Number(e.target.value), 1), loanMonths))
+                          }
+                          className="w-full pl-2 pr-10 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                          min={1}
+                          max={loanMonths}
+                        />
+                        <span className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-slate-400">
+                          Y{Math.ceil(prepayment.month / 12)}
+                        </span>
+                      </div>
+                    </div>
                   </div>
                   <button
                     onClick={() => removePrepayment(prepayment.id)}
@@ -1411,7 +1987,7 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
             </button>
 
             {/* Total Prepayment Summary */}
-            {prepayments.length > 0 && (
+            {prepaymentResult && (
               <div className="mt-4 text-xs text-slate-500 text-center">
                 Total prepayments: <span className="font-mono font-semibold text-slate-700">₹{formatIndianNumber(totalPrepaymentAmount)}</span>
               </div>
@@ -1429,7 +2005,13 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
                     <div className="space-y-2">
                       <div className="flex justify-between items-center">
                         <span className="text-xs text-slate-500">Tenure</span>
-                        <span className="font-mono text-sm font-semibold text-slate-700">{tenure} years</span>
+                        <span className="font-mono text-sm font-semibold text-slate-700">
+                          {Math.floor(loanMonths / 12)}y {loanMonths % 12}m
+                        </span>
+                      </div>
+                      <div className="flex justify-between items-center">
+                        <span className="text-xs text-slate-500">EMI</span>
+                        <span className="font-mono text-sm font-semibold text-slate-700">₹{formatIndianNumber(result.emi)}</span>
                       </div>
                       <div className="flex justify-between items-center">
                         <span className="text-xs text-slate-500">Total Interest</span>
@@ -1454,13 +2036,17 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
                           {Math.floor(prepaymentResult.newTenureMonths / 12)}y {prepaymentResult.newTenureMonths % 12}m
                         </span>
                       </div>
+                      <div className="flex justify-between items-center">
+                        <span className="text-xs text-green-700">{prepaymentStrategy === 'emi' ? 'Final EMI' : 'EMI'}</span>
+                        <span className="font-mono text-sm font-semibold text-green-700">₹{formatIndianNumber(prepaymentResult.finalEmi)}</span>
+                      </div>
                       <div className="flex justify-between items-center">
                         <span className="text-xs text-green-700">Total Interest</span>
                         <span className="font-mono text-sm font-semibold text-green-700">{formatCurrencyCompact(prepaymentResult.newTotalInterest)}</span>
                       </div>
                       <div className="flex justify-between items-center">
                         <span className="text-xs text-green-700">Total Payment</span>
-                        <span className="font-mono text-sm font-semibold text-green-700">{formatCurrencyCompact(prepaymentResult.newTotalPayment + totalPrepaymentAmount)}</span>
+                        <span className="font-mono text-sm font-semibold text-green-700">{formatCurrencyCompact(prepaymentResult.newTotalPayment)}</span>
                       </div>
                     </div>
                   </div>
@@ -1487,6 +2073,17 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
                           </div>
                           <div className="text-[10px] text-green-600">earlier payoff</div>
                         </div>
+                        {prepaymentResult.breakEvenMonth && (
+                          <>
+                            <div className="text-2xl text-green-300">·</div>
+                            <div>
+                              <div className="font-mono text-2xl font-bold text-green-700">
+                                M{prepaymentResult.breakEvenMonth}
+                              </div>
+                              <div className="text-[10px] text-green-600">break-even</div>
+                            </div>
+                          </>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -1508,7 +2105,7 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
                       const maxTotal = Math.max(...prepaymentResult.yearlyBreakdown.map((y) => y.principal + y.interest))
                       const barWidth = maxTotal > 0 ? (total / maxTotal) * 100 : 0
                       const principalWidth = total > 0 ? (year.principal / total) * 100 : 0
-                      const hasPrepayment = prepayments.some((p) => p.year === year.year)
+                      const hasPrepayment = prepaymentByYear.has(year.year)
 
                       return (
                         <div key={year.year} className="flex items-center gap-3">
@@ -1559,12 +2156,256 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
                     </div>
                   </div>
                 </div>
+
+                {/* Break-even Chart: cumulative cash paid, baseline vs with prepayments */}
+                <div className="mt-4 pt-4 border-t border-slate-200">
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="text-xs font-semibold text-slate-700">Break-even Chart</div>
+                    <div className="text-[10px] text-slate-500">
+                      {prepaymentResult.breakEvenMonth
+                        ? `Total outflow drops below baseline from month ${prepaymentResult.breakEvenMonth} (Y${Math.ceil(prepaymentResult.breakEvenMonth / 12)})`
+                        : 'Total outflow stays above baseline within the tenure'}
+                    </div>
+                  </div>
+                  {(() => {
+                    const rows = prepaymentResult.schedule
+                    const maxPaid = Math.max(...rows.map((r) => Math.max(r.cumulativePaid, r.baselineCumulativePaid)), 1)
+                    const toPoints = (values: number[]) =>
+                      values
+                        .map((v, i) => `${((i + 1) / rows.length) * 100},${40 - (v / maxPaid) * 40}`)
+                        .join(' ')
+                    const breakEvenX = prepaymentResult.breakEvenMonth
+                      ? (prepaymentResult.breakEvenMonth / rows.length) * 100
+                      : null
+                    return (
+                      <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-32 bg-slate-50 rounded">
+                        <polyline
+                          points={toPoints(rows.map((r) => r.baselineCumulativePaid))}
+                          fill="none"
+                          stroke="#94a3b8"
+                          strokeWidth="0.6"
+                          vectorEffect="non-scaling-stroke"
+                        />
+                        <polyline
+                          points={toPoints(rows.map((r) => r.cumulativePaid))}
+                          fill="none"
+                          stroke="#16a34a"
+                          strokeWidth="0.6"
+                          vectorEffect="non-scaling-stroke"
+                        />
+                        {breakEvenX !== null && (
+                          <line
+                            x1={breakEvenX}
+                            x2={breakEvenX}
+                            y1={0}
+                            y2={40}
+                            stroke="#f59e0b"
+                            strokeDasharray="1 1"
+                            vectorEffect="non-scaling-stroke"
+                          />
+                        )}
+                      </svg>
+                    )
+                  })()}
+                  <div className="flex items-center gap-4 mt-2 text-[10px]">
+                    <div className="flex items-center gap-1.5 text-slate-600">
+                      <span className="w-2.5 h-0.5 bg-slate-400" />
+                      Without prepayment
+                    </div>
+                    <div className="flex items-center gap-1.5 text-slate-600">
+                      <span className="w-2.5 h-0.5 bg-green-600" />
+                      With prepayment
+                    </div>
+                    <div className="flex items-center gap-1.5 text-slate-600">
+                      <span className="w-2.5 h-0.5 bg-amber-500" />
+                      Break-even
+                    </div>
+                    <span className="ml-auto text-slate-400">Cumulative EMIs + prepayments</span>
+                  </div>
+                </div>
+
+                {/* Side-by-side Schedule */}
+                <div className="mt-4 pt-4 border-t border-slate-200">
+                  <div className="text-xs font-semibold text-slate-700 mb-3">Side-by-side Schedule</div>
+                  <div className="overflow-x-auto max-h-80 overflow-y-auto border border-slate-100 rounded-lg">
+                    <table className="w-full text-xs">
+                      <thead className="bg-slate-50 sticky top-0">
+                        <tr>
+                          <th className="px-3 py-2 text-left font-semibold text-slate-500">Month</th>
+                          <th className="px-3 py-2 text-right font-semibold text-slate-500">EMI</th>
+                          <th className="px-3 py-2 text-right font-semibold text-slate-500">Balance</th>
+                          <th className="px-3 py-2 text-right font-semibold text-green-600">EMI (with)</th>
+                          <th className="px-3 py-2 text-right font-semibold text-green-600">Prepayment</th>
+                          <th className="px-3 py-2 text-right font-semibold text-green-600">Balance (with)</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                        {prepaymentResult.schedule.map((row) => (
+                          <tr
+                            key={row.month}
+                            className={`${row.prepayment > 0 ? 'bg-green-50' : ''} ${
+                              row.month === prepaymentResult.breakEvenMonth ? 'border-l-2 border-l-amber-500' : ''
+                            }`}
+                          >
+                            <td className="px-3 py-1.5 font-mono text-slate-600">{row.month}</td>
+                            <td className="px-3 py-1.5 text-right font-mono text-slate-700">₹{formatIndianNumber(row.baselineEmi)}</td>
+                            <td className="px-3 py-1.5 text-right font-mono text-slate-700">₹{formatIndianNumber(row.baselineBalance)}</td>
+                            <td className="px-3 py-1.5 text-right font-mono text-green-700">₹{formatIndianNumber(row.emi)}</td>
+                            <td className="px-3 py-1.5 text-right font-mono">
+                              {row.prepayment > 0 ? (
+                                <span className="text-green-600 font-semibold">₹{formatIndianNumber(row.prepayment)}</span>
+                              ) : (
+                                <span className="text-slate-300">—</span>
+                              )}
+                            </td>
+                            <td className="px-3 py-1.5 text-right font-mono text-green-700">₹{formatIndianNumber(row.balance)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
               </>
             )}
           </div>
         )}
       </details>
 
+      {/* Home Loan Tax Benefits */}
+      <details open={showTaxBenefits} className="bg-white border border-slate-200 rounded-xl">
+        <summary
+          className="px-4 py-3 text-sm font-semibold text-slate-700 cursor-pointer hover:bg-slate-50 flex items-center justify-between"
+          onClick={(e) => {
+            e.preventDefault()
+            setShowTaxBenefits(!showTaxBenefits)
+          }}
+        >
+          <div className="flex items-center gap-2">
+            <span className="text-lg">🧾</span>
+            <span>Home Loan Tax Benefits</span>
+            <span className="text-[10px] font-normal text-slate-400 bg-slate-100 px-2 py-0.5 rounded">Sec 24(b), 80C, 80EEA</span>
+          </div>
+          <svg
+            className={`w-4 h-4 text-slate-400 transition-transform ${showTaxBenefits ? 'rotate-180' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </summary>
+        {showTaxBenefits && (
+          <div className="px-4 pb-4 pt-2">
+            <p className="text-xs text-slate-500 mb-4">
+              Old tax regime, self-occupied property. Interest is deductible up to ₹2L a year under 24(b) and principal
+              up to ₹1.5L under 80C. The new regime allows neither.
+            </p>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Loan Start</label>
+                <input
+                  type="month"
+                  value={startDate}
+                  onChange={(e) => e.target.value && setStartDate(e.target.value)}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                />
+              </div>
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Your Tax Slab</label>
+                <select
+                  value={taxSlabRate}
+                  onChange={(e) => setTaxSlabRate(Number(e.target.value))}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {getTaxRules(LATEST_FY).old.slabs.filter((slab) => slab.rate > 0).map((slab) => (
+                    <option key={slab.rate} value={slab.rate}>
+                      {slab.rate}% ({slab.max === Infinity ? `above ${formatCompactStatic(slab.min)}` : `${formatCompactStatic(slab.min)}–${formatCompactStatic(slab.max)}`})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Other 80C (₹/yr)</label>
+                <input
+                  type="number"
+                  value={other80C}
+                  onChange={(e) => setOther80C(Math.min(Math.max(0, Number(e.target.value)), SECTION_80C_CAP))}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                  min={0}
+                  max={SECTION_80C_CAP}
+                  step={10000}
+                />
+              </div>
+              <label className="flex items-end gap-2 pb-2 text-xs text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={claim80EEA}
+                  onChange={(e) => setClaim80EEA(e.target.checked)}
+                  className="w-4 h-4 accent-blue-600"
+                />
+                Claim 80EEA
+              </label>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2 mb-4">
+              <div className="bg-green-50 rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-green-600 mb-0.5">Total Tax Saved</div>
+                <div className="font-mono text-sm font-semibold text-green-700">{formatCurrencyCompact(taxBenefits.totalTaxSaved)}</div>
+              </div>
+              <div className="bg-slate-50 rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Total Deductions</div>
+                <div className="font-mono text-sm font-semibold text-slate-900">{formatCurrencyCompact(taxBenefits.totalDeduction)}</div>
+              </div>
+              <div className="bg-blue-50 rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-blue-600 mb-0.5">Post-tax Rate</div>
+                <div className="font-mono text-sm font-semibold text-blue-700">
+                  {taxBenefits.effectiveRate.toFixed(2)}%
+                  <span className="text-[10px] font-normal text-slate-400 ml-1">vs {rate}%</span>
+                </div>
+              </div>
+            </div>
+
+            <div className="border border-slate-200 rounded-lg overflow-hidden">
+              <div className="max-h-72 overflow-y-auto">
+                <table className="w-full text-xs">
+                  <thead className="bg-slate-50 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-semibold text-slate-500">Financial Year</th>
+                      <th className="px-3 py-2 text-right font-semibold text-slate-500">Principal</th>
+                      <th className="px-3 py-2 text-right font-semibold text-slate-500">Interest</th>
+                      <th className="px-3 py-2 text-right font-semibold text-slate-500">80C</th>
+                      <th className="px-3 py-2 text-right font-semibold text-slate-500">24(b)</th>
+                      {claim80EEA && <th className="px-3 py-2 text-right font-semibold text-slate-500">80EEA</th>}
+                      <th className="px-3 py-2 text-right font-semibold text-green-600">Tax Saved</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {taxBenefits.years.map((y) => (
+                      <tr key={y.fy} className="hover:bg-slate-50">
+                        <td className="px-3 py-1.5 font-mono text-slate-600">{y.fy}</td>
+                        <td className="px-3 py-1.5 text-right font-mono text-slate-700">₹{formatIndianNumber(y.principal)}</td>
+                        <td className="px-3 py-1.5 text-right font-mono text-slate-700">₹{formatIndianNumber(y.interest)}</td>
+                        <td className="px-3 py-1.5 text-right font-mono text-slate-700">₹{formatIndianNumber(y.deduction80C)}</td>
+                        <td className="px-3 py-1.5 text-right font-mono text-slate-700">₹{formatIndianNumber(y.deduction24b)}</td>
+                        {claim80EEA && (
+                          <td className="px-3 py-1.5 text-right font-mono text-slate-700">₹{formatIndianNumber(y.deduction80EEA)}</td>
+                        )}
+                        <td className="px-3 py-1.5 text-right font-mono font-semibold text-green-700">₹{formatIndianNumber(y.taxSaved)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+            <p className="text-[10px] text-slate-400 mt-2">
+              80EEA applies only to first-time buyers with a loan sanctioned between April 2019 and March 2022 on a property
+              valued up to ₹45L. For joint loans, each co-borrower can claim their own limits.
+            </p>
+          </div>
+        )}
+      </details>
+
       {/* Amortization Schedule */}
       <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
         <div className="px-4 py-3 border-b border-slate-100 flex items-center justify-between">
@@ -1585,17 +2426,18 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
                 <th className="px-3 py-2 text-right font-semibold text-slate-500">Principal</th>
                 <th className="px-3 py-2 text-right font-semibold text-slate-500">Interest</th>
                 <th className="px-3 py-2 text-right font-semibold text-slate-500">Balance</th>
-                {prepayments.length > 0 && (
+                {isFloating && (
+                  <th className="px-3 py-2 text-right font-semibold text-slate-500">Rate</th>
+                )}
+                {prepaymentResult && (
                   <th className="px-3 py-2 text-right font-semibold text-slate-500">Prepayment</th>
                 )}
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-100">
               {(showFullSchedule ? schedule : schedule.slice(0, 12)).map((row) => {
-                const isYearEnd = row.month % 12 === 0
-                const currentYear = Math.ceil(row.month / 12)
-                const prepaymentForYear = prepayments.find((p) => p.year === currentYear)
-                const showPrepaymentRow = isYearEnd && prepaymentForYear
+                const prepaymentForMonth = prepaymentByMonth.get(row.month)
+                const showPrepaymentRow = prepaymentForMonth !== undefined
 
                 return (
                   <tr
@@ -1618,11 +2460,20 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
                     <td className="px-3 py-2 text-right text-slate-900 font-mono">
                       ₹{formatIndianNumber(row.balance)}
                     </td>
-                    {prepayments.length > 0 && (
+                    {isFloating && (
+                      <td
+                        className={`px-3 py-2 text-right font-mono ${
+                          activeRevisions.some((r) => r.month === row.month) ? 'text-amber-600 font-semibold' : 'text-slate-500'
+                        }`}
+                      >
+                        {row.rate}%
+                      </td>
+                    )}
+                    {prepaymentResult && (
                       <td className="px-3 py-2 text-right font-mono">
                         {showPrepaymentRow ? (
                           <span className="text-green-600 font-semibold">
-                            ₹{formatIndianNumber(prepaymentForYear.amount)}
+                            ₹{formatIndianNumber(prepaymentForMonth)}
                           </span>
                         ) : (
                           <span className="text-slate-300">—</span>
@@ -1635,9 +2486,9 @@ const EMICalculator = forwardRef<EMICalculatorRef>(function EMICalculator(props,
             </tbody>
           </table>
         </div>
-        {prepayments.length > 0 && (
+        {prepaymentResult && (
           <div className="px-4 py-2 bg-green-50 border-t border-green-100 text-[10px] text-green-600">
-            <span className="font-medium">*</span> Prepayment applied at end of year
+            <span className="font-medium">*</span> Prepayment applied after that month&apos;s EMI
           </div>
         )}
         {!showFullSchedule && schedule.length > 12 && (
@@ -0,0 +1,667 @@
+'use client'
+
+import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
+import { useNumberFormat } from '@/contexts/NumberFormatContext'
+import { useCloudSync } from '@/hooks/useCloudSync'
+import { calculateEPF, EPF_TAX_FREE_CONTRIBUTION, EPF_TAX_FREE_CONTRIBUTION_NO_EMPLOYER, PF_WAGE_CEILING } from '@/lib/calculations'
+import { EPFParams } from '@/types'
+
+const DEFAULT_PARAMS: EPFParams = {
+  monthlyBasic: 50000,
+  annualIncrement: 7,
+  employeePercent: 12,
+  employerPercent: 12,
+  vpfPercent: 0,
+  interestRate: 8.25, // FY 2023-24 rate notified by EPFO
+  yearsToRetirement: 25,
+  currentBalance: 0,
+  pastServiceYears: 0,
+}
+
+function formatIndianNumber(num: number): string {
+  const str = Math.round(num).toString()
+  let result = ''
+  let count = 0
+
+  for (let i = str.length - 1; i >= 0; i--) {
+    if (count === 3 || (count > 3 && (count - 3) % 2 === 0)) {
+      result = ',' + result
+    }
+    result = str[i] + result
+    count++
+  }
+
+  return result
+}
+
+// Static format for PDF/HTML exports (always Indian format)
+function formatCompactStatic(num: number): string {
+  if (num >= 10000000) return `₹${(num / 10000000).toFixed(2)}Cr`
+  if (num >= 100000) return `₹${(num / 100000).toFixed(2)}L`
+  if (num >= 1000) return `₹${(num / 1000).toFixed(1)}K`
+  return `₹${Math.round(num)}`
+}
+
+export interface EPFCalculatorRef {
+  exportToPDF: () => void
+  exportToHTML: () => void
+  exportToExcel: () => void
+  handleClear: () => void
+}
+
+const EPFCalculator = forwardRef<EPFCalculatorRef>(function EPFCalculator(props, ref) {
+  const { formatCurrencyCompact } = useNumberFormat()
+  const { syncCalculator } = useCloudSync()
+  const [params, setParams] = useState<EPFParams>(DEFAULT_PARAMS)
+  const [lastSaved, setLastSaved] = useState<string | null>(null)
+  const [isLoaded, setIsLoaded] = useState(false)
+  const [notes, setNotes] = useState('')
+  const [showNotes, setShowNotes] = useState(false)
+  const calculatorRef = useRef<HTMLDivElement>(null)
+
+  // Load from localStorage
+  useEffect(() => {
+    const saved = localStorage.getItem('calc_epf')
+    if (saved) {
+      const data = JSON.parse(saved)
+      setParams({ ...DEFAULT_PARAMS, ...data.params })
+      setNotes(data.notes || '')
+    }
+    setIsLoaded(true)
+  }, [])
+
+  // Auto-save to localStorage
+  useEffect(() => {
+    if (!isLoaded) return
+    const data = { params, notes }
+    localStorage.setItem('calc_epf', JSON.stringify(data))
+    syncCalculator('epf', data) // Sync to cloud (debounced, only if logged in)
+    setLastSaved(new Date().toLocaleTimeString())
+  }, [params, notes, isLoaded, syncCalculator])
+
+  const handleClear = () => {
+    setParams(DEFAULT_PARAMS)
+    setNotes('')
+    localStorage.removeItem('calc_epf')
+  }
+
+  const setParam = <K extends keyof EPFParams>(key: K, value: EPFParams[K]) =>
+    setParams((prev) => ({ ...prev, [key]: value }))
+
+  const result = useMemo(() => calculateEPF(params), [params])
+
+  const ownContributions = result.totalEmployee + result.totalVpf
+  const taxFreeLimit = params.employerPercent > 0 ? EPF_TAX_FREE_CONTRIBUTION : EPF_TAX_FREE_CONTRIBUTION_NO_EMPLOYER
+  const firstYearOwn = result.breakdown.length > 0
+    ? result.breakdown[0].employeeContribution + result.breakdown[0].vpfContribution
+    : 0
+  const maxBalance = Math.max(1, ...result.breakdown.map((row) => row.balance))
+
+  // Export functions
+  const exportToExcel = () => {
+    const headers = ['Year', 'Monthly Basic (₹)', 'Employee (₹)', 'VPF (₹)', 'Employer EPF (₹)', 'EPS (₹)', 'Interest (₹)', 'Taxable Interest (₹)', 'Balance (₹)']
+    const rows = result.breakdown.map((row) => [
+      row.year,
+      row.monthlyBasic,
+      row.employeeContribution,
+      row.vpfContribution,
+      row.employerContribution,
+      row.epsContribution,
+      row.interest,
+      row.taxableInterest,
+      row.balance,
+    ])
+
+    const csvContent = [
+      `EPF Calculator - Retirement Projection`,
+      `Generated: ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}`,
+      ``,
+      `Monthly Basic + DA: ₹${formatIndianNumber(params.monthlyBasic)}`,
+      `Annual Increment: ${params.annualIncrement}%`,
+      `Employee / Employer / VPF: ${params.employeePercent}% / ${params.employerPercent}% / ${params.vpfPercent}%`,
+      `EPF Interest Rate: ${params.interestRate}% p.a.`,
+      `Years to Retirement: ${params.yearsToRetirement}`,
+      `Current Balance: ₹${formatIndianNumber(params.currentBalance)}`,
+      `Past Service: ${params.pastServiceYears} years`,
+      ``,
+      `RESULTS`,
+      `EPF Balance at Retirement: ₹${formatIndianNumber(result.finalBalance)}`,
+      `Your Contributions (incl. VPF): ₹${formatIndianNumber(ownContributions)}`,
+      `Employer EPF Contributions: ₹${formatIndianNumber(result.totalEmployer)}`,
+      `Total Interest: ₹${formatIndianNumber(result.totalInterest)}`,
+      `Taxable Interest (Rule 9D): ₹${formatIndianNumber(result.totalTaxableInterest)}`,
+      ``,
+      `EPS PENSION`,
+      `Contributed to EPS: ₹${formatIndianNumber(result.totalEps)}`,
+      `Pensionable Salary: ₹${formatIndianNumber(result.pensionableSalary)}`,
+      `Pensionable Service: ${result.pensionableService} years`,
+      `Monthly Pension: ${result.pensionEligible ? `₹${formatIndianNumber(result.monthlyPension)}` : 'Not eligible (under 10 years of service)'}`,
+      ``,
+      `YEARLY BREAKDOWN`,
+      headers.join(','),
+      ...rows.map((row) => row.join(',')),
+      ...(notes && notes.trim() ? [``, `NOTES`, notes] : []),
+    ].join('\n')
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = `EPF_Projection_${params.yearsToRetirement}yrs.csv`
+    link.click()
+  }
+
+  const generateReportHTML = (forPrint: boolean) => `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <title>EPF Projection Report</title>
+        <style>
+          body { font-family: Arial, sans-serif; padding: 20px; color: #333; max-width: 900px; margin: 0 auto; }
+          h1 { color: #16a34a; font-size: 24px; margin-bottom: 5px; }
+          h2 { font-size: 16px; margin-top: 25px; margin-bottom: 15px; color: #475569; border-bottom: 2px solid #e2e8f0; padding-bottom: 8px; }
+          .subtitle { color: #64748b; margin-bottom: 20px; font-size: 13px; }
+          .summary { background: #f8fafc; padding: 15px; border-radius: 8px; margin: 20px 0; }
+          .summary-grid { display: grid; grid-template-columns: repeat(4, 1fr); gap: 15px; }
+          .summary-item { text-align: center; }
+          .summary-label { font-size: 10px; color: #64748b; text-transform: uppercase; letter-spacing: 0.5px; }
+          .summary-value { font-size: 18px; font-weight: bold; color: #0f172a; margin-top: 4px; }
+          .maturity-highlight { background: linear-gradient(135deg, #dcfce7 0%, #bbf7d0 100%); padding: 20px; border-radius: 12px; text-align: center; margin: 20px 0; }
+          .maturity-label { font-size: 11px; color: #16a34a; text-transform: uppercase; letter-spacing: 1px; }
+          .maturity-value { font-size: 32px; font-weight: bold; color: #0f172a; }
+          table { width: 100%; border-collapse: collapse; margin-top: 15px; font-size: 10px; }
+          th { background: #f1f5f9; padding: 8px; text-align: right; font-weight: 600; color: #475569; }
+          th:first-child { text-align: left; }
+          td { padding: 6px 8px; border-bottom: 1px solid #e2e8f0; text-align: right; }
+          td:first-child { text-align: left; }
+          .notes-section { background: #fffbeb; border: 1px solid #fcd34d; border-radius: 8px; padding: 15px; margin: 20px 0; }
+          .notes-title { font-size: 12px; font-weight: 600; color: #92400e; margin-bottom: 8px; }
+          .notes-content { font-size: 12px; color: #78350f; line-height: 1.6; white-space: pre-wrap; }
+          .footer { margin-top: 30px; text-align: center; font-size: 11px; color: #94a3b8; border-top: 1px solid #e2e8f0; padding-top: 15px; }
+          ${forPrint ? '@media print { body { padding: 10px; } }' : ''}
+        </style>
+      </head>
+      <body>
+        <h1>EPF Projection Report</h1>
+        <p class="subtitle">Basic ₹${formatIndianNumber(params.monthlyBasic)}/month | ${params.interestRate}% p.a. | ${params.yearsToRetirement} years to retirement | Generated on ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}</p>
+
+        <div class="maturity-highlight">
+          <div class="maturity-label">EPF Balance at Retirement</div>
+          <div class="maturity-value">₹${formatIndianNumber(result.finalBalance)}</div>
+        </div>
+
+        <div class="summary">
+          <div class="summary-grid">
+            <div class="summary-item">
+              <div class="summary-label">Your Contributions</div>
+              <div class="summary-value">${formatCompactStatic(ownContributions)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Employer EPF</div>
+              <div class="summary-value">${formatCompactStatic(result.totalEmployer)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Interest</div>
+              <div class="summary-value">${formatCompactStatic(result.totalInterest)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">EPS Pension</div>
+              <div class="summary-value">${result.pensionEligible ? `₹${formatIndianNumber(result.monthlyPension)}/mo` : 'Not eligible'}</div>
+            </div>
+          </div>
+        </div>
+
+        <h2>EPS Pension</h2>
+        <table>
+          <tr><td>Contributed to EPS (8.33% of basic up to ₹${formatIndianNumber(PF_WAGE_CEILING)})</td><td>₹${formatIndianNumber(result.totalEps)}</td></tr>
+          <tr><td>Pensionable Salary (last 60 months)</td><td>₹${formatIndianNumber(result.pensionableSalary)}</td></tr>
+          <tr><td>Pensionable Service</td><td>${result.pensionableService} years</td></tr>
+          <tr><td>Monthly Pension (salary × service / 70)</td><td>${result.pensionEligible ? `₹${formatIndianNumber(result.monthlyPension)}` : 'Needs 10 years of service'}</td></tr>
+        </table>
+
+        ${result.totalTaxableInterest > 0 ? `
+        <p style="font-size: 12px; color: #b45309;">
+          Your own contributions exceed ₹${formatIndianNumber(taxFreeLimit)} a year, so ₹${formatIndianNumber(result.totalTaxableInterest)} of the interest is taxable under Rule 9D.
+        </p>
+        ` : ''}
+
+        <h2>Yearly Breakdown</h2>
+        <table>
+          <tr>
+            <th>Year</th>
+            <th>Basic/mo</th>
+            <th>Employee + VPF</th>
+            <th>Employer EPF</th>
+            <th>EPS</th>
+            <th>Interest</th>
+            <th>Taxable Int.</th>
+            <th>Balance</th>
+          </tr>
+          ${result.breakdown.map((row) => `
+            <tr>
+              <td>Year ${row.year}</td>
+              <td>₹${formatIndianNumber(row.monthlyBasic)}</td>
+              <td>₹${formatIndianNumber(row.employeeContribution + row.vpfContribution)}</td>
+              <td>₹${formatIndianNumber(row.employerContribution)}</td>
+              <td>₹${formatIndianNumber(row.epsContribution)}</td>
+              <td>₹${formatIndianNumber(row.interest)}</td>
+              <td>₹${formatIndianNumber(row.taxableInterest)}</td>
+              <td>₹${formatIndianNumber(row.balance)}</td>
+            </tr>
+          `).join('')}
+        </table>
+
+        ${notes && notes.trim() ? `
+        <div class="notes-section">
+          <div class="notes-title">Notes</div>
+          <div class="notes-content">${notes.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</div>
+        </div>
+        ` : ''}
+
+        <div class="footer">
+          Generated by AnyCalc — Calculate everything. Plan anything.
+        </div>
+      </body>
+      </html>
+    `
+
+  const exportToPDF = () => {
+    const printWindow = window.open('', '_blank')
+    if (printWindow) {
+      printWindow.document.write(generateReportHTML(true))
+      printWindow.document.close()
+      printWindow.print()
+    }
+  }
+
+  const exportToHTML = () => {
+    const blob = new Blob([generateReportHTML(false)], { type: 'text/html;charset=utf-8;' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = `EPF_Projection_${params.yearsToRetirement}yrs.html`
+    link.click()
+  }
+
+  useImperativeHandle(ref, () => ({
+    exportToPDF,
+    exportToHTML,
+    exportToExcel,
+    handleClear,
+  }))
+
+  return (
+    <div className="space-y-4" ref={calculatorRef}>
+      {/* Main Calculator Card */}
+      <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+        <div className="grid md:grid-cols-2">
+          {/* Inputs */}
+          <div className="p-5 space-y-5 border-r border-slate-100">
+            {/* Monthly Basic */}
+            <div>
+              <div className="flex justify-between items-baseline mb-2">
+                <label className="text-sm font-medium text-slate-600">Monthly Basic + DA</label>
+                <span className="font-mono text-base font-semibold text-slate-900">
+                  ₹{formatIndianNumber(params.monthlyBasic)}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={5000}
+                max={500000}
+                step={1000}
+                value={params.monthlyBasic}
+                onChange={(e) => setParam('monthlyBasic', Number(e.target.value))}
+                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-green-600"
+              />
+              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                <span>₹5K</span>
+                <span>₹5L</span>
+              </div>
+            </div>
+
+            {/* Annual Increment */}
+            <div>
+              <div className="flex justify-between items-baseline mb-2">
+                <label className="text-sm font-medium text-slate-600">Annual Increment</label>
+                <span className="font-mono text-base font-semibold text-slate-900">
+                  {params.annualIncrement}%
+                </span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={20}
+                step={0.5}
+                value={params.annualIncrement}
+                onChange={(e) => setParam('annualIncrement', Number(e.target.value))}
+                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-green-600"
+              />
+              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                <span>0%</span>
+                <span>20%</span>
+              </div>
+            </div>
+
+            {/* Contributions */}
+            <div>
+              <label className="text-sm font-medium text-slate-600 mb-2 block">Contributions (% of basic)</label>
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <label className="text-[10px] font-medium text-slate-500 mb-1 block">Employee</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={12}
+                    step={1}
+                    value={params.employeePercent}
+                    onChange={(e) => setParam('employeePercent', Math.min(12, Math.max(0, Number(e.target.value))))}
+                    className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent font-mono"
+                  />
+                </div>
+                <div>
+                  <label className="text-[10px] font-medium text-slate-500 mb-1 block">Employer</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={12}
+                    step={1}
+                    value={params.employerPercent}
+                    onChange={(e) => setParam('employerPercent', Math.min(12, Math.max(0, Number(e.target.value))))}
+                    className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent font-mono"
+                  />
+                </div>
+                <div>
+                  <label className="text-[10px] font-medium text-slate-500 mb-1 block">VPF</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={88}
+                    step={1}
+                    value={params.vpfPercent}
+                    onChange={(e) => setParam('vpfPercent', Math.min(88, Math.max(0, Number(e.target.value))))}
+                    className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent font-mono"
+                  />
+                </div>
+              </div>
+              <div className="mt-1 text-[10px] text-slate-400">
+                Employer&apos;s 8.33% of basic up to ₹{formatIndianNumber(PF_WAGE_CEILING)} goes to EPS; the rest is EPF
+              </div>
+            </div>
+
+            {/* Interest Rate */}
+            <div>
+              <div className="flex justify-between items-baseline mb-2">
+                <label className="text-sm font-medium text-slate-600">EPF Interest Rate</label>
+                <span className="font-mono text-base font-semibold text-slate-900">
+                  {params.interestRate}% p.a.
+                </span>
+              </div>
+              <input
+                type="range"
+                min={7}
+                max={10}
+                step={0.05}
+                value={params.interestRate}
+                onChange={(e) => setParam('interestRate', Number(e.target.value))}
+                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-green-600"
+              />
+              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                <span>7%</span>
+                <span>10%</span>
+              </div>
+              <div className="mt-1 text-[10px] text-green-600">
+                EPFO rate for FY 2023-24: 8.25%
+              </div>
+            </div>
+
+            {/* Years to Retirement */}
+            <div>
+              <div className="flex justify-between items-baseline mb-2">
+                <label className="text-sm font-medium text-slate-600">Years to Retirement</label>
+                <span className="font-mono text-base font-semibold text-slate-900">
+                  {params.yearsToRetirement} years
+                </span>
+              </div>
+              <input
+                type="range"
+                min={1}
+                max={40}
+                step={1}
+                value={params.yearsToRetirement}
+                onChange={(e) => setParam('yearsToRetirement', Number(e.target.value))}
+                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-green-600"
+              />
+              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                <span>1 yr</span>
+                <span>40 yrs</span>
+              </div>
+            </div>
+
+            {/* Existing balance and service */}
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Current EPF Balance (₹)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step={10000}
+                  value={params.currentBalance || ''}
+                  placeholder="0"
+                  onChange={(e) => setParam('currentBalance', Math.max(0, Number(e.target.value)))}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent font-mono"
+                />
+              </div>
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Service So Far (years)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={40}
+                  step={1}
+                  value={params.pastServiceYears || ''}
+                  placeholder="0"
+                  onChange={(e) => setParam('pastServiceYears', Math.min(40, Math.max(0, Number(e.target.value))))}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent font-mono"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Results */}
+          <div className="p-5 bg-slate-50">
+            {/* Primary Result */}
+            <div className="bg-green-50 rounded-lg p-4 text-center mb-4">
+              <div className="text-[10px] font-semibold uppercase tracking-wider text-green-600 mb-1">
+                EPF Balance at Retirement
+              </div>
+              <div className="font-mono text-3xl font-bold text-slate-900">
+                ₹{formatIndianNumber(result.finalBalance)}
+              </div>
+            </div>
+
+            {/* Secondary Results */}
+            <div className="grid grid-cols-3 gap-2 mb-4">
+              <div className="bg-white rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                  Your Share
+                </div>
+                <div className="font-mono text-sm font-semibold text-slate-900">
+                  {formatCurrencyCompact(ownContributions)}
+                </div>
+              </div>
+              <div className="bg-white rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                  Employer EPF
+                </div>
+                <div className="font-mono text-sm font-semibold text-slate-900">
+                  {formatCurrencyCompact(result.totalEmployer)}
+                </div>
+              </div>
+              <div className="bg-white rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                  Interest
+                </div>
+                <div className="font-mono text-sm font-semibold text-green-600">
+                  {formatCurrencyCompact(result.totalInterest)}
+                </div>
+              </div>
+            </div>
+
+            {/* EPS Pension */}
+            <div className="bg-white rounded-lg p-4 mb-4">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-semibold text-slate-700">EPS Pension (from age 58)</span>
+                <span className={`font-mono text-sm font-bold ${result.pensionEligible ? 'text-green-600' : 'text-slate-400'}`}>
+                  {result.pensionEligible ? `₹${formatIndianNumber(result.monthlyPension)}/mo` : 'Not eligible'}
+                </span>
+              </div>
+              <div className="space-y-1 text-xs text-slate-600">
+                <div className="flex justify-between">
+                  <span>Pensionable salary</span>
+                  <span className="font-mono">₹{formatIndianNumber(result.pensionableSalary)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Pensionable service</span>
+                  <span className="font-mono">{result.pensionableService} years</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Contributed to EPS</span>
+                  <span className="font-mono">₹{formatIndianNumber(result.totalEps)}</span>
+                </div>
+              </div>
+              <div className="mt-2 text-[10px] text-slate-400">
+                {result.pensionEligible
+                  ? 'Pension = pensionable salary × service ÷ 70'
+                  : 'EPS pension needs 10 years of service; shorter service gets a withdrawal benefit instead'}
+              </div>
+            </div>
+
+            {/* Taxable interest */}
+            {result.totalTaxableInterest > 0 ? (
+              <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+                Your own contributions of ₹{formatIndianNumber(firstYearOwn)} a year exceed ₹
+                {formatIndianNumber(taxFreeLimit)}, so ₹{formatIndianNumber(result.totalTaxableInterest)} of the
+                interest is taxable under Rule 9D.
+              </div>
+            ) : (
+              <div className="p-3 bg-green-50 border border-green-100 rounded-lg text-xs text-green-700">
+                All interest stays tax-free: your own contributions are within ₹{formatIndianNumber(taxFreeLimit)} a
+                year.
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Auto-save indicator with subtle notes */}
+        <div className="px-5 py-2 bg-slate-50 border-t border-slate-100">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-[10px] text-slate-400">
+              <span className="w-1.5 h-1.5 bg-green-500 rounded-full" />
+              Auto-saved {lastSaved || 'just now'}
+            </div>
+            <button
+              onClick={() => setShowNotes(!showNotes)}
+              className={`flex items-center gap-1.5 px-2 py-1 rounded text-[10px] transition-colors ${
+                notes
+                  ? 'text-green-600 bg-green-50 hover:bg-green-100'
+                  : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'
+              }`}
+              title={notes ? 'View note' : 'Add note'}
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+              </svg>
+              {notes ? 'Note' : 'Add note'}
+            </button>
+          </div>
+          {showNotes && (
+            <div className="mt-2 pt-2 border-t border-slate-200">
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Add a quick note..."
+                className="w-full h-16 p-2 text-xs text-slate-600 bg-white border border-slate-200 rounded resize-none focus:outline-none focus:ring-1 focus:ring-green-400 focus:border-green-400"
+                autoFocus
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Yearly Projection */}
+      <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-100">
+          <h3 className="text-sm font-semibold text-slate-700">Year-by-Year Projection</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-wide text-slate-500 border-b border-slate-200 bg-slate-50">
+                <th className="text-left px-4 py-2 font-medium">Year</th>
+                <th className="text-right px-2 py-2 font-medium">Basic/mo</th>
+                <th className="text-right px-2 py-2 font-medium">Employee + VPF</th>
+                <th className="text-right px-2 py-2 font-medium">Employer EPF</th>
+                <th className="text-right px-2 py-2 font-medium">EPS</th>
+                <th className="text-right px-2 py-2 font-medium">Interest</th>
+                <th className="text-right px-2 py-2 font-medium">Taxable Int.</th>
+                <th className="text-left px-4 py-2 font-medium w-1/4">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {result.breakdown.map((row) => (
+                <tr key={row.year} className="border-b border-slate-100 text-slate-700">
+                  <td className="px-4 py-1.5 font-sans text-slate-500">Y{row.year}</td>
+                  <td className="px-2 py-1.5 text-right">{formatCurrencyCompact(row.monthlyBasic)}</td>
+                  <td className="px-2 py-1.5 text-right">{formatCurrencyCompact(row.employeeContribution + row.vpfContribution)}</td>
+                  <td className="px-2 py-1.5 text-right">{formatCurrencyCompact(row.employerContribution)}</td>
+                  <td className="px-2 py-1.5 text-right text-slate-400">{formatCurrencyCompact(row.epsContribution)}</td>
+                  <td className="px-2 py-1.5 text-right text-green-600">{formatCurrencyCompact(row.interest)}</td>
+                  <td className={`px-2 py-1.5 text-right ${row.taxableInterest > 0 ? 'text-amber-600' : 'text-slate-300'}`}>
+                    {row.taxableInterest > 0 ? formatCurrencyCompact(row.taxableInterest) : '–'}
+                  </td>
+                  <td className="px-4 py-1.5">
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-green-500" style={{ width: `${(row.balance / maxBalance) * 100}%` }} />
+                      </div>
+                      <span className="w-16 text-right">{formatCurrencyCompact(row.balance)}</span>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* About Section */}
+      <details className="bg-white border border-slate-200 rounded-xl">
+        <summary className="px-4 py-3 text-sm font-medium text-slate-700 cursor-pointer hover:bg-slate-50">
+          About EPF Calculator
+        </summary>
+        <div className="px-4 pb-4 text-sm text-slate-600 space-y-3">
+          <p>
+            The <strong>Employees&apos; Provident Fund (EPF)</strong> is a retirement fund for salaried employees,
+            run by EPFO. You and your employer each contribute 12% of basic + DA every month.
+          </p>
+          <ul className="list-disc list-inside space-y-1 text-slate-500">
+            <li>Of the employer&apos;s 12%, 8.33% of basic up to ₹{formatIndianNumber(PF_WAGE_CEILING)} goes to the pension scheme (EPS)</li>
+            <li>VPF lets you contribute more than 12% at the same EPF rate</li>
+            <li>Interest is calculated on the monthly running balance and credited once a year</li>
+            <li>
+              Interest on your own contributions above ₹{formatIndianNumber(EPF_TAX_FREE_CONTRIBUTION)} a year
+              (₹{formatIndianNumber(EPF_TAX_FREE_CONTRIBUTION_NO_EMPLOYER)} if your employer does not contribute) is taxable
+            </li>
+            <li>EPS pension = pensionable salary × pensionable service ÷ 70, with 2 years&apos; weightage after 20 years</li>
+          </ul>
+          <p className="text-slate-500">
+            Pensionable salary is the average EPS wage of the last 60 months, capped at ₹
+            {formatIndianNumber(PF_WAGE_CEILING)}. Service counts up to 35 years, and the pension is at least ₹1,000 a
+            month. Higher pension on actual wages, for members who opted in, is not modelled.
+          </p>
+        </div>
+      </details>
+    </div>
+  )
+})
+
+export default EPFCalculator
@@ -2,28 +2,11 @@
 
 import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
 import { useNumberFormat } from '@/contexts/NumberFormatContext'
+import { calculateFDMaturity, generateFDBreakdown, calculateFDForRate, calculateFDRequiredPrincipal } from '@/lib/calculations'
+import { FDYearlyBreakdown, FDPayoutOption, FDCompoundingFrequency } from '@/types'
 
 // ============ Interfaces ============
 
-interface FDResult {
-  maturityAmount: number
-  totalInterest: number
-  investmentAmount: number
-  effectiveRate: number
-  principalPercent: number
-  interestPercent: number
-}
-
-interface YearlyBreakdown {
-  year: number
-  principal: number
-  interest: number
-  balance: number
-}
-
-type InterestPayoutOption = 'maturity' | 'monthly' | 'quarterly' | 'yearly'
-type CompoundingFrequency = 'monthly' | 'quarterly' | 'halfYearly' | 'yearly'
-
 interface RateComparison {
   id: number
   rate: number
@@ -57,142 +40,6 @@ function formatCompactStatic(num: number): string {
   return `₹${num}`
 }
 
-function getCompoundingPerYear(frequency: CompoundingFrequency): number {
-  const map: Record<CompoundingFrequency, number> = {
-    monthly: 12,
-    quarterly: 4,
-    halfYearly: 2,
-    yearly: 1,
-  }
-  return map[frequency]
-}
-
-function getPayoutPerYear(payout: InterestPayoutOption): number {
-  const map: Record<InterestPayoutOption, number> = {
-    maturity: 0, // No periodic payouts
-    monthly: 12,
-    quarterly: 4,
-    yearly: 1,
-  }
-  return map[payout]
-}
-
-// ============ FD Calculation Functions ============
-
-/**
- * Calculate FD maturity amount using compound interest formula
- * A = P × (1 + r/n)^(n×t)
- */
-function calculateFD(
-  principal: number,
-  rate: number,
-  tenureMonths: number,
-  compounding: CompoundingFrequency,
-  payout: InterestPayoutOption
-): FDResult {
-  const tenureYears = tenureMonths / 12
-  const n = getCompoundingPerYear(compounding)
-  const r = rate / 100
-
-  let maturityAmount: number
-  let totalInterest: number
-
-  if (payout === 'maturity') {
-    // Compound interest - interest is reinvested
-    maturityAmount = principal * Math.pow(1 + r / n, n * tenureYears)
-    totalInterest = maturityAmount - principal
-  } else {
-    // Periodic payout - simple interest calculation for payouts
-    // Interest is paid out periodically, so no compounding on that portion
-    const payoutFreq = getPayoutPerYear(payout)
-    const periodicInterest = (principal * r) / payoutFreq
-    const totalPayouts = payoutFreq * tenureYears
-    totalInterest = periodicInterest * totalPayouts
-    maturityAmount = principal + totalInterest
-  }
-
-  // Calculate effective annual rate
-  const effectiveRate = ((maturityAmount / principal - 1) / tenureYears) * 100
-  const total = maturityAmount
-  const principalPercent = Math.round((principal / total) * 100)
-  const interestPercent = 100 - principalPercent
-
-  return {
-    maturityAmount: Math.round(maturityAmount),
-    totalInterest: Math.round(totalInterest),
-    investmentAmount: principal,
-    effectiveRate: Math.round(effectiveRate * 100) / 100,
-    principalPercent,
-    interestPercent,
-  }
-}
-
-function generateYearlyBreakdown(
-  principal: number,
-  rate: number,
-  tenureMonths: number,
-  compounding: CompoundingFrequency
-): YearlyBreakdown[] {
-  const tenureYears = Math.ceil(tenureMonths / 12)
-  const n = getCompoundingPerYear(compounding)
-  const r = rate / 100
-  const breakdown: YearlyBreakdown[] = []
-
-  let previousBalance = principal
-
-  for (let year = 1; year <= tenureYears; year++) {
-    const effectiveMonths = Math.min(year * 12, tenureMonths)
-    const effectiveYears = effectiveMonths / 12
-    const balance = principal * Math.pow(1 + r / n, n * effectiveYears)
-    const yearInterest = balance - previousBalance
-
-    breakdown.push({
-      year,
-      principal,
-      interest: Math.round(yearInterest),
-      balance: Math.round(balance),
-    })
-
-    previousBalance = balance
-  }
-
-  return breakdown
-}
-
-function calculateForRate(
-  principal: number,
-  rate: number,
-  tenureMonths: number,
-  compounding: CompoundingFrequency
-): { maturityAmount: number; totalInterest: number } {
-  const tenureYears = tenureMonths / 12
-  const n = getCompoundingPerYear(compounding)
-  const r = rate / 100
-  const maturityAmount = principal * Math.pow(1 + r / n, n * tenureYears)
-  const totalInterest = maturityAmount - principal
-
-  return {
-    maturityAmount: Math.round(maturityAmount),
-    totalInterest: Math.round(totalInterest),
-  }
-}
-
-// Reverse calculation: Find required principal for a target maturity
-function calculateRequiredPrincipal(
-  targetMaturity: number,
-  rate: number,
-  tenureMonths: number,
-  compounding: CompoundingFrequency
-): number {
-  const tenureYears = tenureMonths / 12
-  const n = getCompoundingPerYear(compounding)
-  const r = rate / 100
-
-  // P = A / (1 + r/n)^(n×t)
-  const principal = targetMaturity / Math.pow(1 + r / n, n * tenureYears)
-  return Math.round(principal)
-}
-
 // ============ Main Component ============
 
 export interface FDCalculatorRef {
@@ -210,8 +57,8 @@ const FDCalculator = forwardRef<FDCalculatorRef>(function FDCalculator(props, re
   const [targetMaturity, setTargetMaturity] = useState(1000000) // For target mode
   const [rate, setRate] = useState(7.0)
   const [tenureMonths, setTenureMonths] = useState(24)
-  const [compounding, setCompounding] = useState<CompoundingFrequency>('quarterly')
-  const [payout, setPayout] = useState<InterestPayoutOption>('maturity')
+  const [compounding, setCompounding] = useState<FDCompoundingFrequency>('quarterly')
+  const [payout, setPayout] = useState<FDPayoutOption>('maturity')
   const [lastSaved, setLastSaved] = useState<string | null>(null)
   const [showRateComparison, setShowRateComparison] = useState(false)
   const [comparisonRates, setComparisonRates] = useState<RateComparison[]>([])
@@ -252,7 +99,7 @@ const FDCalculator = forwardRef<FDCalculatorRef>(function FDCalculator(props, re
 
   // Calculate required principal for target mode
   const requiredPrincipal = useMemo(
-    () => calculateRequiredPrincipal(targetMaturity, rate, tenureMonths, compounding),
+    () => calculateFDRequiredPrincipal(targetMaturity, rate, tenureMonths, compounding),
     [targetMaturity, rate, tenureMonths, compounding]
   )
 
@@ -261,12 +108,12 @@ const FDCalculator = forwardRef<FDCalculatorRef>(function FDCalculator(props, re
 
   // Calculate results
   const result = useMemo(
-    () => calculateFD(effectivePrincipal, rate, tenureMonths, compounding, payout),
+    () => calculateFDMaturity(effectivePrincipal, rate, tenureMonths, compounding, payout),
     [effectivePrincipal, rate, tenureMonths, compounding, payout]
   )
 
   const yearlyBreakdown = useMemo(
-    () => generateYearlyBreakdown(effectivePrincipal, rate, tenureMonths, compounding),
+    () => generateFDBreakdown(effectivePrincipal, rate, tenureMonths, compounding),
     [effectivePrincipal, rate, tenureMonths, compounding]
   )
 
@@ -275,7 +122,7 @@ const FDCalculator = forwardRef<FDCalculatorRef>(function FDCalculator(props, re
     if (comparisonRates.length > 0) {
       setComparisonRates((prev) =>
         prev.map((item) => {
-          const { maturityAmount, totalInterest } = calculateForRate(
+          const { maturityAmount, totalInterest } = calculateFDForRate(
             principal,
             item.rate,
             tenureMonths,
@@ -290,7 +137,7 @@ const FDCalculator = forwardRef<FDCalculatorRef>(function FDCalculator(props, re
   // Rate comparison helpers
   const addComparisonRate = () => {
     const newRate = rate + (comparisonRates.length + 1) * 0.5
-    const { maturityAmount, totalInterest } = calculateForRate(
+    const { maturityAmount, totalInterest } = calculateFDForRate(
       principal,
       newRate,
       tenureMonths,
@@ -308,7 +155,7 @@ const FDCalculator = forwardRef<FDCalculatorRef>(function FDCalculator(props, re
   }
 
   const updateComparisonRate = (id: number, newRate: number) => {
-    const { maturityAmount, totalInterest } = calculateForRate(
+    const { maturityAmount, totalInterest } = calculateFDForRate(
       principal,
       newRate,
       tenureMonths,
@@ -357,7 +204,7 @@ const FDCalculator = forwardRef<FDCalculatorRef>(function FDCalculator(props, re
   }))
 
   // Generate yearly breakdown chart HTML for exports
-  const generateYearlyChartHTML = (breakdown: YearlyBreakdown[]) => {
+  const generateYearlyChartHTML = (breakdown: FDYearlyBreakdown[]) => {
     const maxBalance = Math.max(...breakdown.map((y) => y.balance))
     return breakdown
       .map((y) => {
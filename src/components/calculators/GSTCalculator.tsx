@@ -1,16 +1,7 @@
 'use client'
 
 import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
-
-interface GSTResult {
-  originalAmount: number
-  gstRate: number
-  gstAmount: number
-  totalAmount: number
-  cgst: number
-  sgst: number
-  igst: number
-}
+import { calculateGST, GST_RATES } from '@/lib/calculations'
 
 function formatIndianNumber(num: number): string {
   const str = Math.round(num).toString()
@@ -35,46 +26,6 @@ function formatCompact(num: number): string {
   return `₹${Math.round(num)}`
 }
 
-// GST Calculation
-function calculateGST(
-  amount: number,
-  gstRate: number,
-  isInclusive: boolean,
-  isInterState: boolean
-): GSTResult {
-  let originalAmount: number
-  let gstAmount: number
-  let totalAmount: number
-
-  if (isInclusive) {
-    // GST is included in the amount
-    totalAmount = amount
-    originalAmount = amount / (1 + gstRate / 100)
-    gstAmount = totalAmount - originalAmount
-  } else {
-    // GST is not included (exclusive)
-    originalAmount = amount
-    gstAmount = amount * (gstRate / 100)
-    totalAmount = amount + gstAmount
-  }
-
-  // For intra-state: CGST + SGST (equal split)
-  // For inter-state: IGST (full)
-  const cgst = isInterState ? 0 : gstAmount / 2
-  const sgst = isInterState ? 0 : gstAmount / 2
-  const igst = isInterState ? gstAmount : 0
-
-  return {
-    originalAmount: Math.round(originalAmount * 100) / 100,
-    gstRate,
-    gstAmount: Math.round(gstAmount * 100) / 100,
-    totalAmount: Math.round(totalAmount * 100) / 100,
-    cgst: Math.round(cgst * 100) / 100,
-    sgst: Math.round(sgst * 100) / 100,
-    igst: Math.round(igst * 100) / 100,
-  }
-}
-
 export interface GSTCalculatorRef {
   exportToPDF: () => void
   exportToHTML: () => void
@@ -82,8 +33,6 @@ export interface GSTCalculatorRef {
   handleClear: () => void
 }
 
-const GST_RATES = [0, 0.25, 3, 5, 12, 18, 28]
-
 const GSTCalculator = forwardRef<GSTCalculatorRef>(function GSTCalculator(props, ref) {
   const [amount, setAmount] = useState(10000)
   const [gstRate, setGstRate] = useState(18)
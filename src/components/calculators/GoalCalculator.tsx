@@ -1,18 +1,9 @@
 'use client'
 
 import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
-
-interface GoalResult {
-  targetAmount: number
-  currentSavings: number
-  timeYears: number
-  expectedReturn: number
-  amountNeeded: number
-  monthlySIP: number
-  lumpsumRequired: number
-  totalInvestment: number
-  wealthGained: number
-}
+import { calculateGoal, simulateMonteCarlo, MONTE_CARLO_DEFAULT_SEED } from '@/lib/calculations'
+import { MonteCarloPanel, DEFAULT_MONTE_CARLO_SETTINGS } from '@/components/calculator'
+import { MonteCarloSettings } from '@/types'
 
 function formatIndianNumber(num: number): string {
   const str = Math.round(num).toString()
@@ -37,49 +28,6 @@ function formatCompact(num: number): string {
   return `₹${Math.round(num)}`
 }
 
-// Calculate required monthly SIP to reach goal
-function calculateGoal(
-  targetAmount: number,
-  currentSavings: number,
-  timeYears: number,
-  expectedReturn: number
-): GoalResult {
-  const monthlyRate = expectedReturn / 12 / 100
-  const months = timeYears * 12
-
-  // Future value of current savings
-  const fvCurrentSavings = currentSavings * Math.pow(1 + expectedReturn / 100, timeYears)
-
-  // Amount still needed after current savings grow
-  const amountNeeded = Math.max(0, targetAmount - fvCurrentSavings)
-
-  // Required monthly SIP using formula: PMT = FV * r / ((1+r)^n - 1) / (1+r)
-  let monthlySIP = 0
-  if (amountNeeded > 0 && monthlyRate > 0) {
-    monthlySIP = amountNeeded * monthlyRate / (Math.pow(1 + monthlyRate, months) - 1) / (1 + monthlyRate)
-  } else if (amountNeeded > 0) {
-    monthlySIP = amountNeeded / months
-  }
-
-  // Lumpsum required today to reach goal
-  const lumpsumRequired = amountNeeded / Math.pow(1 + expectedReturn / 100, timeYears)
-
-  const totalInvestment = currentSavings + (monthlySIP * months)
-  const wealthGained = targetAmount - totalInvestment
-
-  return {
-    targetAmount,
-    currentSavings,
-    timeYears,
-    expectedReturn,
-    amountNeeded: Math.round(amountNeeded),
-    monthlySIP: Math.round(monthlySIP),
-    lumpsumRequired: Math.round(lumpsumRequired),
-    totalInvestment: Math.round(totalInvestment),
-    wealthGained: Math.round(wealthGained),
-  }
-}
-
 export interface GoalCalculatorRef {
   exportToPDF: () => void
   exportToHTML: () => void
@@ -101,6 +49,7 @@ const GoalCalculator = forwardRef<GoalCalculatorRef>(function GoalCalculator(pro
   const [currentSavings, setCurrentSavings] = useState(100000)
   const [timeYears, setTimeYears] = useState(10)
   const [expectedReturn, setExpectedReturn] = useState(12)
+  const [monteCarlo, setMonteCarlo] = useState<MonteCarloSettings>(DEFAULT_MONTE_CARLO_SETTINGS)
   const [lastSaved, setLastSaved] = useState<string | null>(null)
   const [isLoaded, setIsLoaded] = useState(false)
   const [notes, setNotes] = useState('')
@@ -117,6 +66,7 @@ const GoalCalculator = forwardRef<GoalCalculatorRef>(function GoalCalculator(pro
       setCurrentSavings(data.currentSavings || 100000)
       setTimeYears(data.timeYears || 10)
       setExpectedReturn(data.expectedReturn || 12)
+      setMonteCarlo({ ...DEFAULT_MONTE_CARLO_SETTINGS, ...data.monteCarlo })
       setNotes(data.notes || '')
     }
     setIsLoaded(true)
@@ -125,10 +75,10 @@ const GoalCalculator = forwardRef<GoalCalculatorRef>(function GoalCalculator(pro
   // Auto-save to localStorage
   useEffect(() => {
     if (!isLoaded) return
-    const data = { goalName, targetAmount, currentSavings, timeYears, expectedReturn, notes }
+    const data = { goalName, targetAmount, currentSavings, timeYears, expectedReturn, monteCarlo, notes }
     localStorage.setItem('calc_goal', JSON.stringify(data))
     setLastSaved(new Date().toLocaleTimeString())
-  }, [goalName, targetAmount, currentSavings, timeYears, expectedReturn, notes, isLoaded])
+  }, [goalName, targetAmount, currentSavings, timeYears, expectedReturn, monteCarlo, notes, isLoaded])
 
   const handleClear = () => {
     setGoalName('Financial Goal')
@@ -136,6 +86,7 @@ const GoalCalculator = forwardRef<GoalCalculatorRef>(function GoalCalculator(pro
     setCurrentSavings(100000)
     setTimeYears(10)
     setExpectedReturn(12)
+    setMonteCarlo(DEFAULT_MONTE_CARLO_SETTINGS)
     setNotes('')
     localStorage.removeItem('calc_goal')
   }
@@ -151,6 +102,21 @@ const GoalCalculator = forwardRef<GoalCalculatorRef>(function GoalCalculator(pro
     [targetAmount, currentSavings, timeYears, expectedReturn]
   )
 
+  // How likely the plan (current savings plus the required SIP) is to reach the target
+  const monteCarloResult = useMemo(() => {
+    if (!monteCarlo.enabled) return null
+    return simulateMonteCarlo({
+      initialAmount: currentSavings,
+      monthlyInvestment: result.monthlySIP,
+      years: timeYears,
+      meanReturn: expectedReturn,
+      volatility: monteCarlo.volatility,
+      paths: monteCarlo.paths,
+      seed: MONTE_CARLO_DEFAULT_SEED,
+      targetAmount,
+    })
+  }, [monteCarlo, currentSavings, result.monthlySIP, timeYears, expectedReturn, targetAmount])
+
   // Export functions
   const exportToExcel = () => {
     const csvContent = [
@@ -171,6 +137,16 @@ const GoalCalculator = forwardRef<GoalCalculatorRef>(function GoalCalculator(pro
       `SUMMARY`,
       `Total Investment: ₹${formatIndianNumber(result.totalInvestment)}`,
       `Wealth Gained: ₹${formatIndianNumber(result.wealthGained)}`,
+      ...(monteCarloResult
+        ? [
+            ``,
+            `MONTE CARLO (${monteCarlo.paths} paths, ${monteCarlo.volatility}% volatility)`,
+            `Pessimistic (P10): ₹${formatIndianNumber(monteCarloResult.p10)}`,
+            `Median (P50): ₹${formatIndianNumber(monteCarloResult.p50)}`,
+            `Optimistic (P90): ₹${formatIndianNumber(monteCarloResult.p90)}`,
+            `Chance of Reaching Goal: ${monteCarloResult.probabilityOfTarget}%`,
+          ]
+        : []),
     ].join('\n')
 
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
@@ -501,6 +477,17 @@ const GoalCalculator = forwardRef<GoalCalculatorRef>(function GoalCalculator(pro
         </div>
       </div>
 
+      {/* Monte Carlo Simulator */}
+      <MonteCarloPanel
+        settings={monteCarlo}
+        onChange={setMonteCarlo}
+        result={monteCarloResult}
+        meanReturn={expectedReturn}
+        targetAmount={targetAmount}
+        targetLabel={goalName}
+        color="#db2777"
+      />
+
       {/* About Section */}
       <details className="bg-white border border-slate-200 rounded-xl">
         <summary className="px-4 py-3 text-sm font-medium text-slate-700 cursor-pointer hover:bg-slate-50">
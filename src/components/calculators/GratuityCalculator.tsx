@@ -1,14 +1,7 @@
 'use client'
 
 import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
-
-interface GratuityResult {
-  basicSalary: number
-  yearsOfService: number
-  gratuityAmount: number
-  taxableAmount: number
-  taxFreeAmount: number
-}
+import { calculateGratuity } from '@/lib/calculations'
 
 function formatIndianNumber(num: number): string {
   const str = Math.round(num).toString()
@@ -34,37 +27,6 @@ function formatCompact(num: number): string {
 }
 
 // Gratuity Formula (for employees covered under Gratuity Act)
-// Gratuity = (15 × Last drawn salary × Years of service) / 26
-// For employees NOT covered under the Act: (15 × Last drawn salary × Years of service) / 30
-function calculateGratuity(
-  basicSalary: number,
-  da: number,
-  yearsOfService: number,
-  monthsOfService: number,
-  isCoveredUnderAct: boolean
-): GratuityResult {
-  const lastDrawnSalary = basicSalary + da
-  const totalYears = yearsOfService + (monthsOfService >= 6 ? 1 : monthsOfService / 12)
-
-  // Round to nearest complete year (6+ months = 1 year)
-  const effectiveYears = Math.round(totalYears)
-
-  const divisor = isCoveredUnderAct ? 26 : 30
-  const gratuityAmount = (15 * lastDrawnSalary * effectiveYears) / divisor
-
-  // Tax exemption limit is ₹20 lakhs
-  const taxExemptionLimit = 2000000
-  const taxFreeAmount = Math.min(gratuityAmount, taxExemptionLimit)
-  const taxableAmount = Math.max(0, gratuityAmount - taxExemptionLimit)
-
-  return {
-    basicSalary: lastDrawnSalary,
-    yearsOfService: effectiveYears,
-    gratuityAmount: Math.round(gratuityAmount),
-    taxableAmount: Math.round(taxableAmount),
-    taxFreeAmount: Math.round(taxFreeAmount),
-  }
-}
 
 export interface GratuityCalculatorRef {
   exportToPDF: () => void
@@ -1,16 +1,7 @@
 'use client'
 
 import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
-
-interface HRAResult {
-  actualHRA: number
-  rentPaid: number
-  basicPercent: number
-  rentMinusBasicPercent: number
-  exemptedHRA: number
-  taxableHRA: number
-  annualTaxSaving: number
-}
+import { calculateHRA } from '@/lib/calculations'
 
 function formatIndianNumber(num: number): string {
   const str = Math.round(num).toString()
@@ -35,44 +26,6 @@ function formatCompact(num: number): string {
   return `₹${Math.round(num)}`
 }
 
-// HRA Exemption: Minimum of:
-// 1. Actual HRA received
-// 2. 50% of salary (Metro) or 40% of salary (Non-Metro) - Basic + DA
-// 3. Rent paid minus 10% of salary (Basic + DA)
-function calculateHRA(
-  basicSalary: number,
-  da: number,
-  hraReceived: number,
-  rentPaid: number,
-  isMetro: boolean
-): HRAResult {
-  const salary = basicSalary + da
-  const basicPercent = isMetro ? salary * 0.5 : salary * 0.4
-  const rentMinusBasicPercent = rentPaid - (salary * 0.1)
-
-  // Exempted HRA is minimum of the three
-  const exemptedHRA = Math.max(0, Math.min(
-    hraReceived,
-    basicPercent,
-    rentMinusBasicPercent
-  ))
-
-  const taxableHRA = Math.max(0, hraReceived - exemptedHRA)
-
-  // Estimate tax saving (assuming 30% tax bracket)
-  const annualTaxSaving = exemptedHRA * 12 * 0.3
-
-  return {
-    actualHRA: hraReceived,
-    rentPaid,
-    basicPercent: Math.round(basicPercent),
-    rentMinusBasicPercent: Math.round(Math.max(0, rentMinusBasicPercent)),
-    exemptedHRA: Math.round(exemptedHRA),
-    taxableHRA: Math.round(taxableHRA),
-    annualTaxSaving: Math.round(annualTaxSaving),
-  }
-}
-
 export interface HRACalculatorRef {
   exportToPDF: () => void
   exportToHTML: () => void
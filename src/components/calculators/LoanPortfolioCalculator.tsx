@@ -0,0 +1,648 @@
+'use client'
+
+import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
+import { useNumberFormat } from '@/contexts/NumberFormatContext'
+import { useCloudSync } from '@/hooks/useCloudSync'
+import { simulatePortfolio, rollUpPortfolioYears } from '@/lib/calculations'
+import { PortfolioLoan, PayoffStrategy } from '@/types'
+
+const LOAN_COLORS = ['#3b82f6', '#f59e0b', '#ef4444', '#10b981', '#8b5cf6', '#ec4899', '#14b8a6', '#64748b']
+const MAX_LOANS = 8
+
+const DEFAULT_LOANS: PortfolioLoan[] = [
+  { id: 1, name: 'Home Loan', balance: 5000000, rate: 8.5, tenureYears: 20 },
+  { id: 2, name: 'Car Loan', balance: 800000, rate: 9.5, tenureYears: 5 },
+  { id: 3, name: 'Personal Loan', balance: 300000, rate: 13, tenureYears: 3 },
+]
+
+const STRATEGY_LABELS: Record<PayoffStrategy, string> = {
+  minimum: 'EMIs Only',
+  avalanche: 'Avalanche',
+  snowball: 'Snowball',
+}
+
+function formatIndianNumber(num: number): string {
+  const str = Math.round(num).toString()
+  let result = ''
+  let count = 0
+
+  for (let i = str.length - 1; i >= 0; i--) {
+    if (count === 3 || (count > 3 && (count - 3) % 2 === 0)) {
+      result = ',' + result
+    }
+    result = str[i] + result
+    count++
+  }
+
+  return result
+}
+
+// Static format for PDF/HTML exports (always Indian format)
+function formatCompactStatic(num: number): string {
+  if (num >= 10000000) return `₹${(num / 10000000).toFixed(2)}Cr`
+  if (num >= 100000) return `₹${(num / 100000).toFixed(2)}L`
+  if (num >= 1000) return `₹${(num / 1000).toFixed(1)}K`
+  return `₹${Math.round(num)}`
+}
+
+function formatMonths(months: number): string {
+  return `${Math.floor(months / 12)}y ${months % 12}m`
+}
+
+export interface LoanPortfolioCalculatorRef {
+  exportToPDF: () => void
+  exportToHTML: () => void
+  exportToExcel: () => void
+  handleClear: () => void
+}
+
+const LoanPortfolioCalculator = forwardRef<LoanPortfolioCalculatorRef>(function LoanPortfolioCalculator(props, ref) {
+  const { formatCurrencyCompact } = useNumberFormat()
+  const { syncCalculator } = useCloudSync()
+  const [loans, setLoans] = useState<PortfolioLoan[]>(DEFAULT_LOANS)
+  const [nextLoanId, setNextLoanId] = useState(4)
+  const [extraBudget, setExtraBudget] = useState(20000)
+  const [timelineStrategy, setTimelineStrategy] = useState<PayoffStrategy>('avalanche')
+  const [timelineView, setTimelineView] = useState<'monthly' | 'yearly'>('monthly')
+  const [lastSaved, setLastSaved] = useState<string | null>(null)
+  const [isLoaded, setIsLoaded] = useState(false)
+  const [notes, setNotes] = useState('')
+  const [showNotes, setShowNotes] = useState(false)
+  const calculatorRef = useRef<HTMLDivElement>(null)
+
+  // Load from localStorage
+  useEffect(() => {
+    const saved = localStorage.getItem('calc_loans')
+    if (saved) {
+      const data = JSON.parse(saved)
+      if (Array.isArray(data.loans) && data.loans.length > 0) {
+        setLoans(data.loans)
+        setNextLoanId(Math.max(...data.loans.map((l: PortfolioLoan) => l.id)) + 1)
+      }
+      setExtraBudget(data.extraBudget ?? 20000)
+      setTimelineStrategy(data.timelineStrategy || 'avalanche')
+      setTimelineView(data.timelineView === 'yearly' ? 'yearly' : 'monthly')
+      setNotes(data.notes || '')
+    }
+    setIsLoaded(true)
+  }, [])
+
+  // Auto-save to localStorage + cloud (only after initial load)
+  useEffect(() => {
+    if (!isLoaded) return
+    const data = { loans, extraBudget, timelineStrategy, timelineView, notes }
+    localStorage.setItem('calc_loans', JSON.stringify(data))
+    syncCalculator('loans', data) // Sync to cloud (debounced, only if logged in)
+    setLastSaved(new Date().toLocaleTimeString())
+  }, [loans, extraBudget, timelineStrategy, timelineView, notes, isLoaded, syncCalculator])
+
+  const handleClear = () => {
+    setLoans(DEFAULT_LOANS)
+    setNextLoanId(4)
+    setExtraBudget(20000)
+    setTimelineStrategy('avalanche')
+    setNotes('')
+    localStorage.removeItem('calc_loans')
+  }
+
+  // Loan helpers
+  const addLoan = () => {
+    if (loans.length >= MAX_LOANS) return
+    setLoans([...loans, { id: nextLoanId, name: `Loan ${loans.length + 1}`, balance: 500000, rate: 10, tenureYears: 5 }])
+    setNextLoanId(nextLoanId + 1)
+  }
+
+  const removeLoan = (id: number) => {
+    if (loans.length <= 1) return
+    setLoans(loans.filter((l) => l.id !== id))
+  }
+
+  const updateLoan = <K extends keyof PortfolioLoan>(id: number, field: K, value: PortfolioLoan[K]) => {
+    setLoans(loans.map((l) => (l.id === id ? { ...l, [field]: value } : l)))
+  }
+
+  const validLoans = useMemo(
+    () => loans.filter((l) => l.balance > 0 && l.tenureYears > 0),
+    [loans]
+  )
+
+  const results = useMemo(
+    () => ({
+      minimum: simulatePortfolio(validLoans, extraBudget, 'minimum'),
+      avalanche: simulatePortfolio(validLoans, extraBudget, 'avalanche'),
+      snowball: simulatePortfolio(validLoans, extraBudget, 'snowball'),
+    }),
+    [validLoans, extraBudget]
+  )
+
+  const combinedEmi = results.minimum.payoffs.reduce((sum, p) => sum + p.emi, 0)
+  const totalOutstanding = validLoans.reduce((sum, l) => sum + l.balance, 0)
+  const bestStrategy: PayoffStrategy =
+    results.avalanche.totalInterest <= results.snowball.totalInterest ? 'avalanche' : 'snowball'
+  const timeline = results[timelineStrategy]
+  // Timeline rows: the engine's monthly schedule, or rolled up into years
+  const periodLabel = timelineView === 'monthly' ? 'Month' : 'Year'
+  const timelineRows = useMemo(
+    () =>
+      timelineView === 'monthly'
+        ? timeline.schedule.map((m) => ({ ...m, period: m.month, label: `M${m.month}` }))
+        : rollUpPortfolioYears(timeline.schedule).map((y) => ({ ...y, period: y.year, label: `Y${y.year}` })),
+    [timeline, timelineView]
+  )
+  const loanColor = (id: number) => LOAN_COLORS[loans.findIndex((l) => l.id === id) % LOAN_COLORS.length]
+
+  // Export functions
+  const exportToExcel = () => {
+    const csvContent = [
+      `Loan Portfolio - Payoff Plan`,
+      `Generated: ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}`,
+      ``,
+      `LOANS`,
+      `Name,Outstanding (₹),Rate (%),Remaining Tenure (years),EMI (₹)`,
+      ...validLoans.map((l) => {
+        const emi = results.minimum.payoffs.find((p) => p.id === l.id)?.emi ?? 0
+        return [l.name.replace(/,/g, ' '), l.balance, l.rate, l.tenureYears, emi].join(',')
+      }),
+      ``,
+      `Combined EMI: ₹${formatIndianNumber(combinedEmi)}`,
+      `Total Outstanding: ₹${formatIndianNumber(totalOutstanding)}`,
+      `Extra Monthly Budget: ₹${formatIndianNumber(extraBudget)}`,
+      ``,
+      `STRATEGY COMPARISON`,
+      `Strategy,Debt-free In (months),Total Interest (₹),Interest Saved (₹)`,
+      ...(['minimum', 'avalanche', 'snowball'] as const).map((key) =>
+        [
+          STRATEGY_LABELS[key],
+          results[key].debtFreeMonth,
+          results[key].totalInterest,
+          results.minimum.totalInterest - results[key].totalInterest,
+        ].join(',')
+      ),
+      ``,
+      `CASH-FLOW TIMELINE (${STRATEGY_LABELS[timelineStrategy]})`,
+      [periodLabel, ...validLoans.map((l) => `${l.name.replace(/,/g, ' ')} (₹)`), 'Total Payment (₹)', 'Interest (₹)', 'Balance (₹)'].join(','),
+      ...timelineRows.map((y) =>
+        [y.period, ...validLoans.map((l) => y.payments[l.id] || 0), y.totalPayment, y.interest, y.balance].join(',')
+      ),
+    ].join('\n')
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = `Loan_Portfolio_${validLoans.length}_loans.csv`
+    link.click()
+  }
+
+  const generateReportHTML = (forPrint: boolean) => `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <title>Loan Portfolio Report</title>
+        <style>
+          body { font-family: Arial, sans-serif; padding: 20px; color: #333; max-width: 900px; margin: 0 auto; }
+          h1 { color: #0284c7; font-size: 24px; margin-bottom: 5px; }
+          h2 { font-size: 16px; margin-top: 25px; margin-bottom: 15px; color: #475569; border-bottom: 2px solid #e2e8f0; padding-bottom: 8px; }
+          .subtitle { color: #64748b; margin-bottom: 20px; font-size: 13px; }
+          .summary { background: #f8fafc; padding: 15px; border-radius: 8px; margin: 20px 0; }
+          .summary-grid { display: grid; grid-template-columns: repeat(3, 1fr); gap: 15px; }
+          .summary-item { text-align: center; }
+          .summary-label { font-size: 10px; color: #64748b; text-transform: uppercase; letter-spacing: 0.5px; }
+          .summary-value { font-size: 18px; font-weight: bold; color: #0f172a; margin-top: 4px; }
+          .best { background: #dcfce7; }
+          table { width: 100%; border-collapse: collapse; margin-top: 15px; font-size: 10px; }
+          th { background: #f1f5f9; padding: 8px; text-align: right; font-weight: 600; color: #475569; }
+          th:first-child { text-align: left; }
+          td { padding: 6px 8px; border-bottom: 1px solid #e2e8f0; text-align: right; }
+          td:first-child { text-align: left; }
+          .notes-section { background: #fffbeb; border: 1px solid #fcd34d; border-radius: 8px; padding: 15px; margin: 20px 0; }
+          .notes-title { font-size: 12px; font-weight: 600; color: #92400e; margin-bottom: 8px; }
+          .notes-content { font-size: 12px; color: #78350f; line-height: 1.6; white-space: pre-wrap; }
+          .footer { margin-top: 30px; text-align: center; font-size: 11px; color: #94a3b8; border-top: 1px solid #e2e8f0; padding-top: 15px; }
+          ${forPrint ? '@media print { body { padding: 10px; } }' : ''}
+        </style>
+      </head>
+      <body>
+        <h1>Loan Portfolio Report</h1>
+        <p class="subtitle">Generated on ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}</p>
+
+        <div class="summary">
+          <div class="summary-grid">
+            <div class="summary-item">
+              <div class="summary-label">Combined EMI</div>
+              <div class="summary-value">₹${formatIndianNumber(combinedEmi)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Total Outstanding</div>
+              <div class="summary-value">${formatCompactStatic(totalOutstanding)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Extra Budget</div>
+              <div class="summary-value">₹${formatIndianNumber(extraBudget)}/mo</div>
+            </div>
+          </div>
+        </div>
+
+        <h2>Loans</h2>
+        <table>
+          <tr><th>Loan</th><th>Outstanding</th><th>Rate</th><th>Remaining</th><th>EMI</th></tr>
+          ${validLoans
+            .map((l) => {
+              const emi = results.minimum.payoffs.find((p) => p.id === l.id)?.emi ?? 0
+              return `<tr><td>${l.name.replace(/</g, '&lt;')}</td><td>₹${formatIndianNumber(l.balance)}</td><td>${l.rate}%</td><td>${l.tenureYears} yrs</td><td>₹${formatIndianNumber(emi)}</td></tr>`
+            })
+            .join('')}
+        </table>
+
+        <h2>Payoff Strategy Comparison</h2>
+        <table>
+          <tr><th>Strategy</th><th>Debt-free In</th><th>Total Interest</th><th>Interest Saved</th></tr>
+          ${(['minimum', 'avalanche', 'snowball'] as const)
+            .map(
+              (key) => `<tr class="${key === bestStrategy && extraBudget > 0 ? 'best' : ''}"><td>${STRATEGY_LABELS[key]}</td><td>${formatMonths(results[key].debtFreeMonth)}</td><td>₹${formatIndianNumber(results[key].totalInterest)}</td><td>₹${formatIndianNumber(results.minimum.totalInterest - results[key].totalInterest)}</td></tr>`
+            )
+            .join('')}
+        </table>
+
+        <h2>Payoff Order (${STRATEGY_LABELS[timelineStrategy]})</h2>
+        <table>
+          <tr><th>Loan</th><th>Closed In</th><th>Interest Paid</th></tr>
+          ${timeline.payoffs
+            .map((p) => `<tr><td>${p.name.replace(/</g, '&lt;')}</td><td>${formatMonths(p.payoffMonth)}</td><td>₹${formatIndianNumber(p.totalInterest)}</td></tr>`)
+            .join('')}
+        </table>
+
+        <h2>Consolidated Cash-flow Timeline</h2>
+        <table>
+          <tr>
+            <th>${periodLabel}</th>
+            ${validLoans.map((l) => `<th>${l.name.replace(/</g, '&lt;')}</th>`).join('')}
+            <th>Total Paid</th>
+            <th>Balance</th>
+          </tr>
+          ${timelineRows
+            .map(
+              (y) => `<tr><td>${y.label}</td>${validLoans.map((l) => `<td>₹${formatIndianNumber(y.payments[l.id] || 0)}</td>`).join('')}<td>₹${formatIndianNumber(y.totalPayment)}</td><td>₹${formatIndianNumber(y.balance)}</td></tr>`
+            )
+            .join('')}
+        </table>
+
+        ${notes && notes.trim() ? `
+        <div class="notes-section">
+          <div class="notes-title">Notes</div>
+          <div class="notes-content">${notes.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</div>
+        </div>
+        ` : ''}
+
+        <div class="footer">
+          Generated by AnyCalc — Calculate everything. Plan anything.
+        </div>
+      </body>
+      </html>
+    `
+
+  const exportToPDF = () => {
+    const printWindow = window.open('', '_blank')
+    if (printWindow) {
+      printWindow.document.write(generateReportHTML(true))
+      printWindow.document.close()
+      printWindow.print()
+    }
+  }
+
+  const exportToHTML = () => {
+    const blob = new Blob([generateReportHTML(false)], { type: 'text/html;charset=utf-8;' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = `Loan_Portfolio_${validLoans.length}_loans.html`
+    link.click()
+  }
+
+  useImperativeHandle(ref, () => ({
+    exportToPDF,
+    exportToHTML,
+    exportToExcel,
+    handleClear,
+  }))
+
+  const maxPeriodPayment = Math.max(...timelineRows.map((y) => y.totalPayment), 1)
+
+  return (
+    <div className="space-y-4" ref={calculatorRef}>
+      {/* Main Calculator Card */}
+      <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+        <div className="grid md:grid-cols-2">
+          {/* Inputs */}
+          <div className="p-4 sm:p-5 space-y-3 md:border-r border-slate-100">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium text-slate-600">Your Loans</label>
+              <span className="text-[10px] text-slate-400">{loans.length}/{MAX_LOANS}</span>
+            </div>
+            {loans.map((loan, index) => (
+              <div key={loan.id} className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+                <div className="flex items-center gap-2 mb-2">
+                  <span className="w-2.5 h-2.5 rounded-sm flex-shrink-0" style={{ backgroundColor: LOAN_COLORS[index % LOAN_COLORS.length] }} />
+                  <input
+                    type="text"
+                    value={loan.name}
+                    onChange={(e) => updateLoan(loan.id, 'name', e.target.value)}
+                    className="flex-1 min-w-0 px-2 py-1 text-sm font-medium text-slate-700 bg-transparent border border-transparent rounded hover:border-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500 focus:bg-white"
+                  />
+                  <button
+                    onClick={() => removeLoan(loan.id)}
+                    disabled={loans.length <= 1}
+                    className="p-1 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                    title="Remove loan"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <label className="text-[10px] font-medium text-slate-500 mb-1 block">Outstanding (₹)</label>
+                    <input
+                      type="number"
+                      value={loan.balance}
+                      onChange={(e) => updateLoan(loan.id, 'balance', Math.max(0, Number(e.target.value)))}
+                      className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-sky-500 focus:border-transparent font-mono"
+                      min={0}
+                      step={10000}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-[10px] font-medium text-slate-500 mb-1 block">Rate (%)</label>
+                    <input
+                      type="number"
+                      value={loan.rate}
+                      onChange={(e) => updateLoan(loan.id, 'rate', Math.max(0, Number(e.target.value)))}
+                      className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-sky-500 focus:border-transparent font-mono"
+                      min={0}
+                      max={36}
+                      step={0.1}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-[10px] font-medium text-slate-500 mb-1 block">Years Left</label>
+                    <input
+                      type="number"
+                      value={loan.tenureYears}
+                      onChange={(e) => updateLoan(loan.id, 'tenureYears', Math.min(Math.max(0, Number(e.target.value)), 30))}
+                      className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-sky-500 focus:border-transparent font-mono"
+                      min={1}
+                      max={30}
+                      step={0.5}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+            <button
+              onClick={addLoan}
+              disabled={loans.length >= MAX_LOANS}
+              className="w-full py-2 text-sm font-medium text-sky-600 bg-sky-50 rounded-lg hover:bg-sky-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              Add Loan
+            </button>
+
+            {/* Extra Budget */}
+            <div className="pt-2">
+              <div className="flex justify-between items-baseline mb-2">
+                <label className="text-sm font-medium text-slate-600">Extra Monthly Budget</label>
+                <span className="font-mono text-base font-semibold text-slate-900">
+                  ₹{formatIndianNumber(extraBudget)}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={200000}
+                step={1000}
+                value={extraBudget}
+                onChange={(e) => setExtraBudget(Number(e.target.value))}
+                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-sky-600"
+              />
+              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                <span>₹0</span>
+                <span>₹2L</span>
+              </div>
+            </div>
+          </div>
+
+          {/* Results */}
+          <div className="p-4 sm:p-5 bg-slate-50">
+            <div className="bg-sky-50 rounded-lg p-4 text-center mb-4">
+              <div className="text-[10px] font-semibold uppercase tracking-wider text-sky-600 mb-1">
+                Combined Monthly EMI
+              </div>
+              <div className="font-mono text-3xl font-bold text-slate-900">
+                ₹{formatIndianNumber(combinedEmi)}
+              </div>
+              {extraBudget > 0 && (
+                <div className="text-xs text-slate-500 mt-1">
+                  + ₹{formatIndianNumber(extraBudget)} extra = ₹{formatIndianNumber(combinedEmi + extraBudget)}/month
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-3 gap-1.5 sm:gap-2 mb-4">
+              <div className="bg-white rounded-lg p-2 sm:p-3 text-center">
+                <div className="text-[8px] sm:text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Outstanding</div>
+                <div className="font-mono text-xs sm:text-sm font-semibold text-slate-900">{formatCurrencyCompact(totalOutstanding)}</div>
+              </div>
+              <div className="bg-white rounded-lg p-2 sm:p-3 text-center">
+                <div className="text-[8px] sm:text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Interest</div>
+                <div className="font-mono text-xs sm:text-sm font-semibold text-slate-900">{formatCurrencyCompact(results.minimum.totalInterest)}</div>
+              </div>
+              <div className="bg-white rounded-lg p-2 sm:p-3 text-center">
+                <div className="text-[8px] sm:text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Debt-free</div>
+                <div className="font-mono text-xs sm:text-sm font-semibold text-slate-900">{formatMonths(results.minimum.debtFreeMonth)}</div>
+              </div>
+            </div>
+
+            {/* Strategy Comparison */}
+            <div className="space-y-2">
+              {(['minimum', 'avalanche', 'snowball'] as const).map((key) => {
+                const r = results[key]
+                const saved = results.minimum.totalInterest - r.totalInterest
+                const isBest = key === bestStrategy && extraBudget > 0
+                return (
+                  <button
+                    key={key}
+                    onClick={() => setTimelineStrategy(key)}
+                    className={`w-full text-left bg-white rounded-lg p-3 border transition-colors ${
+                      timelineStrategy === key ? 'border-sky-400 ring-1 ring-sky-200' : 'border-transparent hover:border-slate-200'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs font-semibold text-slate-700">
+                        {STRATEGY_LABELS[key]}
+                        {isBest && <span className="ml-2 text-[9px] text-green-600 font-medium">✓ Lowest interest</span>}
+                      </span>
+                      <span className="font-mono text-xs text-slate-500">{formatMonths(r.debtFreeMonth)}</span>
+                    </div>
+                    <div className="flex items-center justify-between mt-1">
+                      <span className="text-[10px] text-slate-400">
+                        {key === 'minimum' ? 'Pay only EMIs' : key === 'avalanche' ? 'Highest rate first' : 'Smallest balance first'}
+                      </span>
+                      <span className="font-mono text-xs">
+                        {formatCurrencyCompact(r.totalInterest)}
+                        {saved > 0 && <span className="text-green-600 ml-1">(-{formatCurrencyCompact(saved)})</span>}
+                      </span>
+                    </div>
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+        </div>
+
+        {/* Auto-save indicator with subtle notes */}
+        <div className="px-5 py-2 bg-slate-50 border-t border-slate-100">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-[10px] text-slate-400">
+              <span className="w-1.5 h-1.5 bg-green-500 rounded-full" />
+              Auto-saved {lastSaved || 'just now'}
+            </div>
+            <button
+              onClick={() => setShowNotes(!showNotes)}
+              className={`flex items-center gap-1.5 px-2 py-1 rounded text-[10px] transition-colors ${
+                notes
+                  ? 'text-sky-600 bg-sky-50 hover:bg-sky-100'
+                  : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'
+              }`}
+              title={notes ? 'View note' : 'Add note'}
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+              </svg>
+              {notes ? 'Note' : 'Add note'}
+            </button>
+          </div>
+          {showNotes && (
+            <div className="mt-2 pt-2 border-t border-slate-200">
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Add a quick note..."
+                className="w-full h-16 p-2 text-xs text-slate-600 bg-white border border-slate-200 rounded resize-none focus:outline-none focus:ring-1 focus:ring-sky-400 focus:border-sky-400"
+                autoFocus
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Payoff Order */}
+      <div className="bg-white border border-slate-200 rounded-xl p-4">
+        <h3 className="text-sm font-semibold text-slate-700 mb-3 flex items-center gap-2">
+          <span>🏁</span> Payoff Order — {STRATEGY_LABELS[timelineStrategy]}
+        </h3>
+        <div className="space-y-2">
+          {timeline.payoffs.map((p, index) => (
+            <div key={p.id} className="flex items-center gap-3 text-xs">
+              <span className="w-5 text-slate-400 font-mono">{index + 1}.</span>
+              <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: loanColor(p.id) }} />
+              <span className="flex-1 text-slate-700">{p.name}</span>
+              <span className="font-mono text-slate-500">interest {formatCurrencyCompact(p.totalInterest)}</span>
+              <span className="w-16 text-right font-mono font-semibold text-slate-900">{formatMonths(p.payoffMonth)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Consolidated Cash-flow Timeline */}
+      <div className="bg-white border border-slate-200 rounded-xl p-5">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+            <span>📊</span> Consolidated Cash-flow Timeline
+          </h3>
+          <div className="flex rounded-lg bg-slate-100 p-0.5 text-[10px] font-medium">
+            {(['monthly', 'yearly'] as const).map((view) => (
+              <button
+                key={view}
+                onClick={() => setTimelineView(view)}
+                className={`px-2.5 py-1 rounded-md transition-colors ${
+                  timelineView === view ? 'bg-white text-slate-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {view === 'monthly' ? 'Monthly' : 'Yearly'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center gap-3 mb-3 text-[10px] font-medium text-slate-400 uppercase tracking-wide">
+          <span className="w-10">{periodLabel}</span>
+          <span className="flex-1">Payments by Loan</span>
+          <span className="w-20 text-right">Balance</span>
+        </div>
+        <div className={`space-y-2 ${timelineView === 'monthly' ? 'max-h-96 overflow-y-auto pr-1' : ''}`}>
+          {timelineRows.map((y) => (
+            <div key={y.period} className="flex items-center gap-3">
+              <span className="text-xs w-10 font-mono text-slate-500">{y.label}</span>
+              <div className="flex-1">
+                <div
+                  className="h-6 bg-slate-100 rounded overflow-hidden flex"
+                  style={{ width: `${(y.totalPayment / maxPeriodPayment) * 100}%` }}
+                  title={`Paid ₹${formatIndianNumber(y.totalPayment)}`}
+                >
+                  {validLoans.map((l) => {
+                    const amount = y.payments[l.id] || 0
+                    if (amount === 0) return null
+                    return (
+                      <div
+                        key={l.id}
+                        className="h-full"
+                        style={{ width: `${(amount / y.totalPayment) * 100}%`, backgroundColor: loanColor(l.id) }}
+                      />
+                    )
+                  })}
+                </div>
+              </div>
+              <span className="text-[11px] text-slate-600 w-20 text-right font-mono">
+                {formatCurrencyCompact(y.balance)}
+              </span>
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-4 mt-4 pt-3 border-t border-slate-100 text-xs text-slate-500">
+          {validLoans.map((l) => (
+            <div key={l.id} className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: loanColor(l.id) }} />
+              <span>{l.name}</span>
+            </div>
+          ))}
+          <span className="ml-auto text-slate-400">
+            Total: ₹{formatIndianNumber(timeline.totalPaid)} over {formatMonths(timeline.debtFreeMonth)}
+          </span>
+        </div>
+      </div>
+
+      {/* About Section */}
+      <details className="bg-white border border-slate-200 rounded-xl">
+        <summary className="px-4 py-3 text-sm font-medium text-slate-700 cursor-pointer hover:bg-slate-50">
+          About Loan Portfolio Planner
+        </summary>
+        <div className="px-4 pb-4 text-sm text-slate-600 space-y-3">
+          <p>
+            Track all your loans together and plan how to use an extra monthly budget to become debt-free sooner.
+          </p>
+          <ul className="list-disc list-inside space-y-1 text-slate-500">
+            <li><strong>Avalanche:</strong> extra money goes to the highest-rate loan first — minimises total interest</li>
+            <li><strong>Snowball:</strong> extra money goes to the smallest balance first — closes loans fastest for motivation</li>
+            <li>When a loan closes, its EMI rolls over to the next target loan</li>
+          </ul>
+          <p className="text-slate-500">
+            Check prepayment charges on fixed-rate loans before paying extra. Floating-rate home loans to individuals
+            carry no prepayment penalty.
+          </p>
+        </div>
+      </details>
+    </div>
+  )
+})
+
+export default LoanPortfolioCalculator
@@ -1,20 +1,24 @@
 'use client'
 
 import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
-
-interface LumpsumResult {
-  investedAmount: number
-  estimatedReturns: number
-  totalValue: number
-  absoluteReturns: number
-  cagr: number
-}
-
-interface YearlyBreakdown {
-  year: number
-  openingBalance: number
-  returns: number
-  closingBalance: number
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import {
+  calculateLumpsumSummary,
+  generateLumpsumBreakdown,
+  calculateRequiredInvestment,
+  calculateRequiredTime,
+  calculateRequiredRate,
+  simulateMonteCarlo,
+  calculateSTP,
+  MONTE_CARLO_DEFAULT_SEED,
+} from '@/lib/calculations'
+import { MonteCarloPanel, DEFAULT_MONTE_CARLO_SETTINGS } from '@/components/calculator'
+import { LumpsumYearlyBreakdown, MonteCarloSettings, STPSettings } from '@/types'
+
+const DEFAULT_STP_SETTINGS: STPSettings = {
+  enabled: false,
+  monthlyTransfer: 50000,
+  sourceReturn: 6.5,
 }
 
 interface GoalPlanResult {
@@ -23,44 +27,6 @@ interface GoalPlanResult {
   formatted: string
 }
 
-function calculateLumpsum(principal: number, rate: number, years: number): LumpsumResult {
-  const rateDecimal = rate / 100
-  const totalValue = principal * Math.pow(1 + rateDecimal, years)
-  const estimatedReturns = totalValue - principal
-  const absoluteReturns = (estimatedReturns / principal) * 100
-
-  return {
-    investedAmount: principal,
-    estimatedReturns: Math.round(estimatedReturns),
-    totalValue: Math.round(totalValue),
-    absoluteReturns: Math.round(absoluteReturns * 100) / 100,
-    cagr: rate,
-  }
-}
-
-function generateYearlyBreakdown(principal: number, rate: number, years: number): YearlyBreakdown[] {
-  const rateDecimal = rate / 100
-  const breakdown: YearlyBreakdown[] = []
-  let currentBalance = principal
-
-  for (let year = 1; year <= years; year++) {
-    const openingBalance = currentBalance
-    const closingBalance = openingBalance * (1 + rateDecimal)
-    const returns = closingBalance - openingBalance
-
-    breakdown.push({
-      year,
-      openingBalance: Math.round(openingBalance),
-      returns: Math.round(returns),
-      closingBalance: Math.round(closingBalance),
-    })
-
-    currentBalance = closingBalance
-  }
-
-  return breakdown
-}
-
 function formatIndianNumber(num: number): string {
   const str = Math.round(num).toString()
   let result = ''
@@ -84,21 +50,6 @@ function formatCompact(num: number): string {
   return `₹${num}`
 }
 
-// Goal planning calculations
-function calculateRequiredInvestment(targetAmount: number, rate: number, years: number): number {
-  const rateDecimal = rate / 100
-  return targetAmount / Math.pow(1 + rateDecimal, years)
-}
-
-function calculateRequiredTime(principal: number, targetAmount: number, rate: number): number {
-  const rateDecimal = rate / 100
-  return Math.log(targetAmount / principal) / Math.log(1 + rateDecimal)
-}
-
-function calculateRequiredRate(principal: number, targetAmount: number, years: number): number {
-  return (Math.pow(targetAmount / principal, 1 / years) - 1) * 100
-}
-
 export interface LumpsumCalculatorRef {
   exportToPDF: () => void
   exportToHTML: () => void
@@ -114,6 +65,8 @@ const LumpsumCalculator = forwardRef<LumpsumCalculatorRef>(function LumpsumCalcu
   const [showGoalPlanning, setShowGoalPlanning] = useState(false)
   const [targetAmount, setTargetAmount] = useState(2000000)
   const [goalMode, setGoalMode] = useState<'investment' | 'time' | 'rate'>('investment')
+  const [monteCarlo, setMonteCarlo] = useState<MonteCarloSettings>(DEFAULT_MONTE_CARLO_SETTINGS)
+  const [stp, setStp] = useState<STPSettings>(DEFAULT_STP_SETTINGS)
   const [isLoaded, setIsLoaded] = useState(false)
   const [notes, setNotes] = useState('')
   const [showNotes, setShowNotes] = useState(false)
@@ -128,6 +81,8 @@ const LumpsumCalculator = forwardRef<LumpsumCalculatorRef>(function LumpsumCalcu
       setRate(data.rate || 12)
       setYears(data.years || 10)
       setTargetAmount(data.targetAmount || 2000000)
+      setMonteCarlo({ ...DEFAULT_MONTE_CARLO_SETTINGS, ...data.monteCarlo })
+      setStp({ ...DEFAULT_STP_SETTINGS, ...data.stp })
       setNotes(data.notes || '')
     }
     setIsLoaded(true)
@@ -136,15 +91,15 @@ const LumpsumCalculator = forwardRef<LumpsumCalculatorRef>(function LumpsumCalcu
   // Auto-save to localStorage (only after initial load)
   useEffect(() => {
     if (!isLoaded) return
-    const data = { investment, rate, years, targetAmount, notes }
+    const data = { investment, rate, years, targetAmount, monteCarlo, stp, notes }
     localStorage.setItem('calc_lumpsum', JSON.stringify(data))
     setLastSaved(new Date().toLocaleTimeString())
-  }, [investment, rate, years, targetAmount, notes, isLoaded])
+  }, [investment, rate, years, targetAmount, monteCarlo, stp, notes, isLoaded])
 
-  const result = useMemo(() => calculateLumpsum(investment, rate, years), [investment, rate, years])
+  const result = useMemo(() => calculateLumpsumSummary(investment, rate, years), [investment, rate, years])
 
   const yearlyBreakdown = useMemo(
-    () => generateYearlyBreakdown(investment, rate, years),
+    () => generateLumpsumBreakdown(investment, rate, years),
     [investment, rate, years]
   )
 
@@ -155,6 +110,34 @@ const LumpsumCalculator = forwardRef<LumpsumCalculatorRef>(function LumpsumCalcu
   )
   const returnsPercent = 100 - investedPercent
 
+  // Spread of outcomes around the fixed-rate value; the target comes from goal planning when it is open
+  const monteCarloTarget = showGoalPlanning && targetAmount > 0 ? targetAmount : result.totalValue
+  const monteCarloResult = useMemo(() => {
+    if (!monteCarlo.enabled) return null
+    return simulateMonteCarlo({
+      initialAmount: investment,
+      monthlyInvestment: 0,
+      years,
+      meanReturn: rate,
+      volatility: monteCarlo.volatility,
+      paths: monteCarlo.paths,
+      seed: MONTE_CARLO_DEFAULT_SEED,
+      targetAmount: monteCarloTarget,
+    })
+  }, [monteCarlo, investment, years, rate, monteCarloTarget])
+
+  // Park the lump sum in a liquid fund and move it into the target fund monthly
+  const stpResult = useMemo(() => {
+    if (!stp.enabled) return null
+    return calculateSTP({
+      amount: investment,
+      monthlyTransfer: stp.monthlyTransfer,
+      sourceReturn: stp.sourceReturn,
+      targetReturn: rate,
+      years,
+    })
+  }, [stp, investment, rate, years])
+
   // Goal planning result
   const goalPlanResult = useMemo((): GoalPlanResult | null => {
     if (!showGoalPlanning || targetAmount <= 0) return null
@@ -194,6 +177,8 @@ const LumpsumCalculator = forwardRef<LumpsumCalculatorRef>(function LumpsumCalcu
     setRate(12)
     setYears(10)
     setTargetAmount(2000000)
+    setMonteCarlo(DEFAULT_MONTE_CARLO_SETTINGS)
+    setStp(DEFAULT_STP_SETTINGS)
     setNotes('')
     localStorage.removeItem('calc_lumpsum')
   }
@@ -207,7 +192,7 @@ const LumpsumCalculator = forwardRef<LumpsumCalculatorRef>(function LumpsumCalcu
   }))
 
   // Generate yearly growth chart HTML for exports
-  const generateYearlyGrowthChartHTML = (breakdown: YearlyBreakdown[]) => {
+  const generateYearlyGrowthChartHTML = (breakdown: LumpsumYearlyBreakdown[]) => {
     const maxValue = Math.max(...breakdown.map((y) => y.closingBalance))
     return breakdown
       .map((y) => {
@@ -267,6 +252,26 @@ const LumpsumCalculator = forwardRef<LumpsumCalculatorRef>(function LumpsumCalcu
       csvContent.push(`Required ${goalPlanResult.type}: ${goalPlanResult.formatted}`)
     }
 
+    if (stpResult) {
+      csvContent.push('')
+      csvContent.push('STP (Systematic Transfer Plan)')
+      csvContent.push(`Monthly Transfer: ₹${formatIndianNumber(stp.monthlyTransfer)} over ${stpResult.transferMonths} months`)
+      csvContent.push(`Source Fund Return: ${stp.sourceReturn}% p.a.`)
+      csvContent.push(`Source Fund Earnings: ₹${formatIndianNumber(stpResult.sourceEarnings)}`)
+      csvContent.push(`Value with STP: ₹${formatIndianNumber(stpResult.finalValue)}`)
+      csvContent.push(`Value with Lumpsum on Day One: ₹${formatIndianNumber(stpResult.lumpsumValue)}`)
+      csvContent.push(`Difference: ${stpResult.difference < 0 ? '-' : ''}₹${formatIndianNumber(Math.abs(stpResult.difference))}`)
+    }
+
+    if (monteCarloResult) {
+      csvContent.push('')
+      csvContent.push(`Monte Carlo (${monteCarlo.paths} paths, ${monteCarlo.volatility}% volatility)`)
+      csvContent.push(`Pessimistic (P10): ₹${formatIndianNumber(monteCarloResult.p10)}`)
+      csvContent.push(`Median (P50): ₹${formatIndianNumber(monteCarloResult.p50)}`)
+      csvContent.push(`Optimistic (P90): ₹${formatIndianNumber(monteCarloResult.p90)}`)
+      csvContent.push(`Chance of Reaching ₹${formatIndianNumber(monteCarloTarget)}: ${monteCarloResult.probabilityOfTarget}%`)
+    }
+
     const blob = new Blob([csvContent.join('\n')], { type: 'text/csv;charset=utf-8;' })
     const link = document.createElement('a')
     link.href = URL.createObjectURL(blob)
@@ -407,6 +412,27 @@ const LumpsumCalculator = forwardRef<LumpsumCalculatorRef>(function LumpsumCalcu
             : ''
         }
 
+        ${
+          stpResult
+            ? `
+        <h2>STP vs Lumpsum</h2>
+        <div class="goal-section">
+          <div class="goal-title">₹${formatIndianNumber(stp.monthlyTransfer)}/month from a ${stp.sourceReturn}% fund over ${stpResult.transferMonths} months</div>
+          <div class="goal-grid">
+            <div class="goal-item">
+              <div class="goal-value">₹${formatIndianNumber(stpResult.finalValue)}</div>
+              <div class="goal-label">With STP</div>
+            </div>
+            <div class="goal-item">
+              <div class="goal-value">₹${formatIndianNumber(stpResult.lumpsumValue)}</div>
+              <div class="goal-label">Lumpsum on Day One</div>
+            </div>
+          </div>
+        </div>
+        `
+            : ''
+        }
+
         <h2>Year-by-Year Growth</h2>
         <div class="yearly-chart">
           <div class="chart-header">
@@ -594,6 +620,27 @@ const LumpsumCalculator = forwardRef<LumpsumCalculatorRef>(function LumpsumCalcu
             : ''
         }
 
+        ${
+          stpResult
+            ? `
+        <h2>STP vs Lumpsum</h2>
+        <div class="goal-section">
+          <div class="goal-title">₹${formatIndianNumber(stp.monthlyTransfer)}/month from a ${stp.sourceReturn}% fund over ${stpResult.transferMonths} months</div>
+          <div class="goal-grid">
+            <div class="goal-item">
+              <div class="goal-value">₹${formatIndianNumber(stpResult.finalValue)}</div>
+              <div class="goal-label">With STP</div>
+            </div>
+            <div class="goal-item">
+              <div class="goal-value">₹${formatIndianNumber(stpResult.lumpsumValue)}</div>
+              <div class="goal-label">Lumpsum on Day One</div>
+            </div>
+          </div>
+        </div>
+        `
+            : ''
+        }
+
         <h2>Year-by-Year Growth</h2>
         <div class="yearly-chart">
           <div class="chart-header">
@@ -1089,6 +1136,182 @@ const LumpsumCalculator = forwardRef<LumpsumCalculatorRef>(function LumpsumCalcu
         )}
       </details>
 
+      {/* STP Simulator */}
+      <details open={stp.enabled} className="bg-white border border-slate-200 rounded-xl">
+        <summary
+          className="px-4 py-3 text-sm font-semibold text-slate-700 cursor-pointer hover:bg-slate-50 flex items-center justify-between"
+          onClick={(e) => {
+            e.preventDefault()
+            setStp({ ...stp, enabled: !stp.enabled })
+          }}
+        >
+          <div className="flex items-center gap-2">
+            <span className="text-lg">🔀</span>
+            <span>STP Simulator</span>
+            <span className="text-[10px] font-normal text-slate-400 bg-slate-100 px-2 py-0.5 rounded">
+              Systematic Transfer Plan
+            </span>
+          </div>
+          <svg
+            className={`w-4 h-4 text-slate-400 transition-transform ${stp.enabled ? 'rotate-180' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </summary>
+        {stp.enabled && stpResult && (
+          <div className="px-4 pb-4 pt-2">
+            <p className="text-xs text-slate-500 mb-4">
+              Park ₹{formatIndianNumber(investment)} in a liquid or debt fund and move a fixed amount every month into
+              the fund earning {rate}%, instead of investing it all on day one.
+            </p>
+
+            {/* Settings */}
+            <div className="grid sm:grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className="text-xs font-medium text-slate-500 mb-1 block">Monthly Transfer</label>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-sm">₹</span>
+                  <input
+                    type="number"
+                    value={stp.monthlyTransfer}
+                    onChange={(e) => setStp({ ...stp, monthlyTransfer: Math.max(1000, Number(e.target.value)) })}
+                    className="w-full pl-8 pr-4 py-2.5 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent font-mono"
+                    min={1000}
+                    step={1000}
+                  />
+                </div>
+                <div className="flex flex-wrap gap-1.5 mt-2">
+                  {[6, 12, 18, 24].map((months) => {
+                    const transfer = Math.ceil(investment / months)
+                    return (
+                      <button
+                        key={months}
+                        onClick={() => setStp({ ...stp, monthlyTransfer: transfer })}
+                        className={`px-2 py-1 text-[10px] rounded-full border transition-colors ${
+                          stp.monthlyTransfer === transfer
+                            ? 'bg-green-50 border-green-300 text-green-700'
+                            : 'border-slate-200 text-slate-500 hover:border-green-300'
+                        }`}
+                      >
+                        {months} months
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+              <div>
+                <label className="text-xs font-medium text-slate-500 mb-1 block">Source Fund Return (% p.a.)</label>
+                <input
+                  type="number"
+                  value={stp.sourceReturn}
+                  onChange={(e) => setStp({ ...stp, sourceReturn: Math.min(20, Math.max(0, Number(e.target.value))) })}
+                  className="w-full px-4 py-2.5 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent font-mono"
+                  min={0}
+                  max={20}
+                  step={0.25}
+                />
+                <div className="mt-1 text-[10px] text-slate-400">Liquid funds: ~6-7% · Target fund: {rate}% (from above)</div>
+              </div>
+            </div>
+
+            {/* Comparison */}
+            <div className="grid grid-cols-3 gap-2 mb-4">
+              <div className="bg-green-50 rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-green-600 mb-0.5">With STP</div>
+                <div className="font-mono text-sm font-bold text-slate-900">₹{formatIndianNumber(stpResult.finalValue)}</div>
+              </div>
+              <div className="bg-slate-50 rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Lumpsum on Day One</div>
+                <div className="font-mono text-sm font-semibold text-slate-900">₹{formatIndianNumber(stpResult.lumpsumValue)}</div>
+              </div>
+              <div className="bg-slate-50 rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Difference</div>
+                <div className={`font-mono text-sm font-semibold ${stpResult.difference >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {stpResult.difference >= 0 ? '+' : '-'}₹{formatIndianNumber(Math.abs(stpResult.difference))}
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 mb-4 text-xs">
+              <div className="flex justify-between bg-slate-50 rounded-lg px-3 py-2 text-slate-600">
+                <span>Transfer period</span>
+                <span className="font-mono font-semibold text-slate-900">
+                  {stpResult.transferMonths} month{stpResult.transferMonths === 1 ? '' : 's'}
+                </span>
+              </div>
+              <div className="flex justify-between bg-slate-50 rounded-lg px-3 py-2 text-slate-600">
+                <span>Earned while parked</span>
+                <span className="font-mono font-semibold text-slate-900">₹{formatIndianNumber(stpResult.sourceEarnings)}</span>
+              </div>
+            </div>
+
+            {/* Growth chart */}
+            <div className="h-48">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart
+                  data={stpResult.months.map((m) => ({
+                    month: m.month,
+                    stp: m.sourceBalance + m.targetBalance,
+                    lumpsum: m.lumpsumValue,
+                  }))}
+                  margin={{ top: 5, right: 5, bottom: 0, left: 0 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+                  <XAxis
+                    dataKey="month"
+                    ticks={Array.from({ length: years }, (_, i) => (i + 1) * 12)}
+                    tickFormatter={(month) => `Y${Number(month) / 12}`}
+                    tick={{ fontSize: 10, fill: '#94a3b8' }}
+                    axisLine={false}
+                    tickLine={false}
+                  />
+                  <YAxis
+                    tickFormatter={(value) => formatCompact(Number(value))}
+                    tick={{ fontSize: 10, fill: '#94a3b8' }}
+                    axisLine={false}
+                    tickLine={false}
+                    width={64}
+                  />
+                  <Tooltip
+                    formatter={(value, name) => [`₹${formatIndianNumber(Number(value))}`, name]}
+                    labelFormatter={(month) => `Month ${month}`}
+                    contentStyle={{ fontSize: 11, borderRadius: 8, border: '1px solid #e2e8f0' }}
+                  />
+                  <Line dataKey="stp" name="With STP" stroke="#16a34a" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  <Line
+                    dataKey="lumpsum"
+                    name="Lumpsum on day one"
+                    stroke="#94a3b8"
+                    strokeDasharray="4 4"
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <p className="mt-3 text-[10px] text-slate-400">
+              At fixed rates, day-one investing wins whenever the target fund earns more than the source fund. STP&apos;s
+              benefit is averaging into a volatile market over the transfer period, which fixed rates can&apos;t show.
+            </p>
+          </div>
+        )}
+      </details>
+
+      {/* Monte Carlo Simulator */}
+      <MonteCarloPanel
+        settings={monteCarlo}
+        onChange={setMonteCarlo}
+        result={monteCarloResult}
+        meanReturn={rate}
+        targetAmount={monteCarloTarget}
+        targetLabel={showGoalPlanning ? 'your target' : 'the fixed-rate value'}
+        color="#16a34a"
+      />
+
       {/* Growth Schedule Table */}
       <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
         <div className="px-4 py-3 border-b border-slate-100 flex items-center justify-between">
@@ -1179,6 +1402,10 @@ const LumpsumCalculator = forwardRef<LumpsumCalculatorRef>(function LumpsumCalcu
             considering compound interest. Use the goal planning feature to work backwards
             from your financial targets.
           </p>
+          <p className="text-slate-500">
+            The STP simulator parks the amount in a liquid fund and transfers a fixed sum each month into
+            the target fund, then compares the result with investing everything on day one.
+          </p>
         </div>
       </details>
     </div>
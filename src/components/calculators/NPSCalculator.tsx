@@ -0,0 +1,796 @@
+'use client'
+
+import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
+import { useNumberFormat } from '@/contexts/NumberFormatContext'
+import { useCloudSync } from '@/hooks/useCloudSync'
+import {
+  calculateNPS,
+  calculateNPSTaxBenefit,
+  getTaxRules,
+  LATEST_FY,
+  NPS_RETIREMENT_AGE,
+  NPS_MIN_ANNUITY_PERCENT,
+  SECTION_80CCD1B_CAP,
+} from '@/lib/calculations'
+import { NPSAllocation, NPSInvestmentChoice, NPSParams, TaxRegime } from '@/types'
+
+const DEFAULT_PARAMS: NPSParams = {
+  currentAge: 30,
+  monthlyContribution: 5000,
+  employerMonthly: 0,
+  annualStepUp: 5,
+  currentCorpus: 0,
+  choice: 'LC50',
+  activeAllocation: { equity: 75, corporateBonds: 15, governmentBonds: 10 },
+  expectedReturns: { equity: 12, corporateBonds: 9, governmentBonds: 8 },
+  annuityPercent: NPS_MIN_ANNUITY_PERCENT,
+  annuityRate: 6,
+}
+
+const CHOICES: { id: NPSInvestmentChoice; name: string; hint: string }[] = [
+  { id: 'LC75', name: 'LC75', hint: 'Aggressive' },
+  { id: 'LC50', name: 'LC50', hint: 'Moderate' },
+  { id: 'LC25', name: 'LC25', hint: 'Conservative' },
+  { id: 'active', name: 'Active', hint: 'Own mix' },
+]
+
+const ASSET_CLASSES: { key: keyof NPSAllocation; name: string; short: string; color: string }[] = [
+  { key: 'equity', name: 'Equity', short: 'E', color: 'bg-blue-500' },
+  { key: 'corporateBonds', name: 'Corporate Bonds', short: 'C', color: 'bg-sky-400' },
+  { key: 'governmentBonds', name: 'Govt. Bonds', short: 'G', color: 'bg-slate-400' },
+]
+
+const SLAB_RATES = [5, 10, 15, 20, 30]
+
+const REGIME_NAMES: Record<TaxRegime, string> = {
+  old: 'Old Regime',
+  new: 'New Regime',
+}
+
+function formatIndianNumber(num: number): string {
+  const str = Math.round(num).toString()
+  let result = ''
+  let count = 0
+
+  for (let i = str.length - 1; i >= 0; i--) {
+    if (count === 3 || (count > 3 && (count - 3) % 2 === 0)) {
+      result = ',' + result
+    }
+    result = str[i] + result
+    count++
+  }
+
+  return result
+}
+
+// Static format for PDF/HTML exports (always Indian format)
+function formatCompactStatic(num: number): string {
+  if (num >= 10000000) return `₹${(num / 10000000).toFixed(2)}Cr`
+  if (num >= 100000) return `₹${(num / 100000).toFixed(2)}L`
+  if (num >= 1000) return `₹${(num / 1000).toFixed(1)}K`
+  return `₹${Math.round(num)}`
+}
+
+function formatMix(allocation: NPSAllocation): string {
+  return `${allocation.equity}/${allocation.corporateBonds}/${allocation.governmentBonds}`
+}
+
+export interface NPSCalculatorRef {
+  exportToPDF: () => void
+  exportToHTML: () => void
+  exportToExcel: () => void
+  handleClear: () => void
+}
+
+const NPSCalculator = forwardRef<NPSCalculatorRef>(function NPSCalculator(props, ref) {
+  const { formatCurrencyCompact } = useNumberFormat()
+  const { syncCalculator } = useCloudSync()
+  const [params, setParams] = useState<NPSParams>(DEFAULT_PARAMS)
+  const [monthlyBasic, setMonthlyBasic] = useState(50000) // sets the 80CCD(2) limit
+  const [regime, setRegime] = useState<TaxRegime>('new')
+  const [slabRate, setSlabRate] = useState(30)
+  const [lastSaved, setLastSaved] = useState<string | null>(null)
+  const [isLoaded, setIsLoaded] = useState(false)
+  const [notes, setNotes] = useState('')
+  const [showNotes, setShowNotes] = useState(false)
+  const calculatorRef = useRef<HTMLDivElement>(null)
+
+  // Load from localStorage
+  useEffect(() => {
+    const saved = localStorage.getItem('calc_nps')
+    if (saved) {
+      const data = JSON.parse(saved)
+      setParams({ ...DEFAULT_PARAMS, ...data.params })
+      setMonthlyBasic(data.monthlyBasic ?? 50000)
+      setRegime(data.regime === 'old' ? 'old' : 'new')
+      setSlabRate(data.slabRate ?? 30)
+      setNotes(data.notes || '')
+    }
+    setIsLoaded(true)
+  }, [])
+
+  // Auto-save to localStorage
+  useEffect(() => {
+    if (!isLoaded) return
+    const data = { params, monthlyBasic, regime, slabRate, notes }
+    localStorage.setItem('calc_nps', JSON.stringify(data))
+    syncCalculator('nps', data) // Sync to cloud (debounced, only if logged in)
+    setLastSaved(new Date().toLocaleTimeString())
+  }, [params, monthlyBasic, regime, slabRate, notes, isLoaded, syncCalculator])
+
+  const handleClear = () => {
+    setParams(DEFAULT_PARAMS)
+    setMonthlyBasic(50000)
+    setRegime('new')
+    setSlabRate(30)
+    setNotes('')
+    localStorage.removeItem('calc_nps')
+  }
+
+  const setParam = <K extends keyof NPSParams>(key: K, value: NPSParams[K]) =>
+    setParams((prev) => ({ ...prev, [key]: value }))
+
+  // Government bonds take whatever equity and corporate bonds leave
+  const setActiveShare = (key: 'equity' | 'corporateBonds', value: number) =>
+    setParams((prev) => {
+      const limit = key === 'equity' ? 75 : 100
+      const next = { ...prev.activeAllocation, [key]: Math.min(limit, Math.max(0, value)) }
+      next.corporateBonds = Math.min(next.corporateBonds, 100 - next.equity)
+      next.governmentBonds = 100 - next.equity - next.corporateBonds
+      return { ...prev, activeAllocation: next }
+    })
+
+  const setExpectedReturn = (key: keyof NPSAllocation, value: number) =>
+    setParam('expectedReturns', { ...params.expectedReturns, [key]: Math.min(20, Math.max(0, value)) })
+
+  const result = useMemo(() => calculateNPS(params), [params])
+
+  const taxBenefit = useMemo(
+    () =>
+      calculateNPSTaxBenefit(
+        params.monthlyContribution * 12,
+        params.employerMonthly * 12,
+        monthlyBasic * 12,
+        regime,
+        LATEST_FY,
+        slabRate
+      ),
+    [params.monthlyContribution, params.employerMonthly, monthlyBasic, regime, slabRate]
+  )
+
+  const rules = getTaxRules(LATEST_FY)
+  const years = NPS_RETIREMENT_AGE - params.currentAge
+  const currentMix = result.breakdown.length > 0 ? result.breakdown[0].allocation : params.activeAllocation
+  const lumpSumPercent = 100 - Math.max(NPS_MIN_ANNUITY_PERCENT, params.annuityPercent)
+  const choiceName = CHOICES.find((c) => c.id === params.choice)?.name ?? params.choice
+
+  // Export functions
+  const exportToExcel = () => {
+    const headers = ['Age', 'Equity %', 'Corporate Bonds %', 'Govt Bonds %', 'Contribution (₹)', 'Returns (₹)', 'Corpus (₹)']
+    const rows = result.breakdown.map((row) => [
+      row.age,
+      row.allocation.equity,
+      row.allocation.corporateBonds,
+      row.allocation.governmentBonds,
+      row.contribution,
+      row.returns,
+      row.corpus,
+    ])
+
+    const csvContent = [
+      `NPS Calculator - Tier I Projection`,
+      `Generated: ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}`,
+      ``,
+      `Current Age: ${params.currentAge}`,
+      `Monthly Contribution: ₹${formatIndianNumber(params.monthlyContribution)}`,
+      `Employer Contribution: ₹${formatIndianNumber(params.employerMonthly)}/month`,
+      `Annual Step-up: ${params.annualStepUp}%`,
+      `Current Corpus: ₹${formatIndianNumber(params.currentCorpus)}`,
+      `Investment Choice: ${choiceName}${params.choice === 'active' ? ` (E/C/G ${formatMix(params.activeAllocation)})` : ''}`,
+      `Expected Returns (E/C/G): ${formatMix(params.expectedReturns)}%`,
+      ``,
+      `AT ${NPS_RETIREMENT_AGE}`,
+      `Total Contribution: ₹${formatIndianNumber(result.totalContribution)}`,
+      `Total Returns: ₹${formatIndianNumber(result.totalReturns)}`,
+      `Corpus: ₹${formatIndianNumber(result.corpus)}`,
+      `Tax-free Lump Sum (${lumpSumPercent}%): ₹${formatIndianNumber(result.lumpSum)}`,
+      `Annuity Purchase (${100 - lumpSumPercent}%): ₹${formatIndianNumber(result.annuityCorpus)}`,
+      `Monthly Pension @ ${params.annuityRate}%: ₹${formatIndianNumber(result.monthlyPension)}`,
+      ``,
+      `TAX BENEFIT (${REGIME_NAMES[regime]}, ${slabRate}% slab, ${rules.label})`,
+      `80CCD(1B) - Own Contribution: ₹${formatIndianNumber(taxBenefit.deduction80CCD1B)}`,
+      `80CCD(2) - Employer Contribution: ₹${formatIndianNumber(taxBenefit.deduction80CCD2)}`,
+      `Tax Saved per Year: ₹${formatIndianNumber(taxBenefit.taxSaved)}`,
+      ``,
+      `YEARLY BREAKDOWN`,
+      headers.join(','),
+      ...rows.map((row) => row.join(',')),
+      ...(notes && notes.trim() ? [``, `NOTES`, notes] : []),
+    ].join('\n')
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = `NPS_Projection_Age_${params.currentAge}.csv`
+    link.click()
+  }
+
+  const generateReportHTML = (forPrint: boolean) => `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <title>NPS Projection Report</title>
+        <style>
+          body { font-family: Arial, sans-serif; padding: 20px; color: #333; max-width: 900px; margin: 0 auto; }
+          h1 { color: #2563eb; font-size: 24px; margin-bottom: 5px; }
+          h2 { font-size: 16px; margin-top: 25px; margin-bottom: 15px; color: #475569; border-bottom: 2px solid #e2e8f0; padding-bottom: 8px; }
+          .subtitle { color: #64748b; margin-bottom: 20px; font-size: 13px; }
+          .summary { background: #f8fafc; padding: 15px; border-radius: 8px; margin: 20px 0; }
+          .summary-grid { display: grid; grid-template-columns: repeat(4, 1fr); gap: 15px; }
+          .summary-item { text-align: center; }
+          .summary-label { font-size: 10px; color: #64748b; text-transform: uppercase; letter-spacing: 0.5px; }
+          .summary-value { font-size: 18px; font-weight: bold; color: #0f172a; margin-top: 4px; }
+          .maturity-highlight { background: linear-gradient(135deg, #dbeafe 0%, #bfdbfe 100%); padding: 20px; border-radius: 12px; text-align: center; margin: 20px 0; }
+          .maturity-label { font-size: 11px; color: #2563eb; text-transform: uppercase; letter-spacing: 1px; }
+          .maturity-value { font-size: 32px; font-weight: bold; color: #0f172a; }
+          table { width: 100%; border-collapse: collapse; margin-top: 15px; font-size: 10px; }
+          th { background: #f1f5f9; padding: 8px; text-align: right; font-weight: 600; color: #475569; }
+          th:first-child { text-align: left; }
+          td { padding: 6px 8px; border-bottom: 1px solid #e2e8f0; text-align: right; }
+          td:first-child { text-align: left; }
+          .total td { font-weight: bold; background: #f8fafc; }
+          .notes-section { background: #fffbeb; border: 1px solid #fcd34d; border-radius: 8px; padding: 15px; margin: 20px 0; }
+          .notes-title { font-size: 12px; font-weight: 600; color: #92400e; margin-bottom: 8px; }
+          .notes-content { font-size: 12px; color: #78350f; line-height: 1.6; white-space: pre-wrap; }
+          .footer { margin-top: 30px; text-align: center; font-size: 11px; color: #94a3b8; border-top: 1px solid #e2e8f0; padding-top: 15px; }
+          ${forPrint ? '@media print { body { padding: 10px; } }' : ''}
+        </style>
+      </head>
+      <body>
+        <h1>NPS Projection Report</h1>
+        <p class="subtitle">Age ${params.currentAge} to ${NPS_RETIREMENT_AGE} | ${choiceName} | Generated on ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}</p>
+
+        <div class="maturity-highlight">
+          <div class="maturity-label">Corpus at ${NPS_RETIREMENT_AGE}</div>
+          <div class="maturity-value">₹${formatIndianNumber(result.corpus)}</div>
+        </div>
+
+        <div class="summary">
+          <div class="summary-grid">
+            <div class="summary-item">
+              <div class="summary-label">Invested</div>
+              <div class="summary-value">${formatCompactStatic(result.totalContribution)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Returns</div>
+              <div class="summary-value">${formatCompactStatic(result.totalReturns)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Lump Sum</div>
+              <div class="summary-value">${formatCompactStatic(result.lumpSum)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Pension</div>
+              <div class="summary-value">₹${formatIndianNumber(result.monthlyPension)}/mo</div>
+            </div>
+          </div>
+        </div>
+
+        <h2>At Retirement</h2>
+        <table>
+          <tr><td>Tax-free Lump Sum (${lumpSumPercent}%)</td><td>₹${formatIndianNumber(result.lumpSum)}</td></tr>
+          <tr><td>Annuity Purchase (${100 - lumpSumPercent}%)</td><td>₹${formatIndianNumber(result.annuityCorpus)}</td></tr>
+          <tr class="total"><td>Monthly Pension @ ${params.annuityRate}% annuity rate</td><td>₹${formatIndianNumber(result.monthlyPension)}</td></tr>
+        </table>
+
+        <h2>Tax Benefit (${REGIME_NAMES[regime]}, ${slabRate}% slab)</h2>
+        <table>
+          <tr><td>80CCD(1B) - own contribution, up to ₹${formatIndianNumber(SECTION_80CCD1B_CAP)}</td><td>₹${formatIndianNumber(taxBenefit.deduction80CCD1B)}</td></tr>
+          <tr><td>80CCD(2) - employer contribution, up to ₹${formatIndianNumber(taxBenefit.employerLimit)}</td><td>₹${formatIndianNumber(taxBenefit.deduction80CCD2)}</td></tr>
+          <tr class="total"><td>Tax Saved per Year</td><td>₹${formatIndianNumber(taxBenefit.taxSaved)}</td></tr>
+        </table>
+
+        <h2>Yearly Breakdown</h2>
+        <table>
+          <tr><th>Age</th><th>E/C/G %</th><th>Contribution</th><th>Returns</th><th>Corpus</th></tr>
+          ${result.breakdown.map((row) => `
+            <tr>
+              <td>${row.age}</td>
+              <td>${formatMix(row.allocation)}</td>
+              <td>₹${formatIndianNumber(row.contribution)}</td>
+              <td>₹${formatIndianNumber(row.returns)}</td>
+              <td>₹${formatIndianNumber(row.corpus)}</td>
+            </tr>
+          `).join('')}
+        </table>
+
+        ${notes && notes.trim() ? `
+        <div class="notes-section">
+          <div class="notes-title">Notes</div>
+          <div class="notes-content">${notes.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</div>
+        </div>
+        ` : ''}
+
+        <div class="footer">
+          Generated by AnyCalc — Calculate everything. Plan anything.
+        </div>
+      </body>
+      </html>
+    `
+
+  const exportToPDF = () => {
+    const printWindow = window.open('', '_blank')
+    if (printWindow) {
+      printWindow.document.write(generateReportHTML(true))
+      printWindow.document.close()
+      printWindow.print()
+    }
+  }
+
+  const exportToHTML = () => {
+    const blob = new Blob([generateReportHTML(false)], { type: 'text/html;charset=utf-8;' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = `NPS_Projection_Age_${params.currentAge}.html`
+    link.click()
+  }
+
+  useImperativeHandle(ref, () => ({
+    exportToPDF,
+    exportToHTML,
+    exportToExcel,
+    handleClear,
+  }))
+
+  return (
+    <div className="space-y-4" ref={calculatorRef}>
+      {/* Main Calculator Card */}
+      <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+        <div className="grid md:grid-cols-2">
+          {/* Inputs */}
+          <div className="p-5 space-y-5 border-r border-slate-100">
+            {/* Current Age */}
+            <div>
+              <div className="flex justify-between items-baseline mb-2">
+                <label className="text-sm font-medium text-slate-600">Current Age</label>
+                <span className="font-mono text-base font-semibold text-slate-900">
+                  {params.currentAge} years
+                </span>
+              </div>
+              <input
+                type="range"
+                min={18}
+                max={NPS_RETIREMENT_AGE - 1}
+                step={1}
+                value={params.currentAge}
+                onChange={(e) => setParam('currentAge', Number(e.target.value))}
+                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-blue-600"
+              />
+              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                <span>18</span>
+                <span>{years} years to {NPS_RETIREMENT_AGE}</span>
+              </div>
+            </div>
+
+            {/* Monthly Contribution */}
+            <div>
+              <div className="flex justify-between items-baseline mb-2">
+                <label className="text-sm font-medium text-slate-600">Your Monthly Contribution</label>
+                <span className="font-mono text-base font-semibold text-slate-900">
+                  ₹{formatIndianNumber(params.monthlyContribution)}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={500}
+                max={100000}
+                step={500}
+                value={params.monthlyContribution}
+                onChange={(e) => setParam('monthlyContribution', Number(e.target.value))}
+                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-blue-600"
+              />
+              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                <span>₹500</span>
+                <span>₹1L</span>
+              </div>
+            </div>
+
+            {/* Employer, step-up and existing corpus */}
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Employer Contribution (₹/month)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step={500}
+                  value={params.employerMonthly || ''}
+                  placeholder="0"
+                  onChange={(e) => setParam('employerMonthly', Math.max(0, Number(e.target.value)))}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                />
+              </div>
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Annual Step-up (%)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={20}
+                  step={1}
+                  value={params.annualStepUp}
+                  onChange={(e) => setParam('annualStepUp', Math.min(20, Math.max(0, Number(e.target.value))))}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                />
+              </div>
+              <div className="col-span-2">
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Current Tier I Corpus (₹)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step={10000}
+                  value={params.currentCorpus || ''}
+                  placeholder="0"
+                  onChange={(e) => setParam('currentCorpus', Math.max(0, Number(e.target.value)))}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                />
+              </div>
+            </div>
+
+            {/* Investment Choice */}
+            <div>
+              <label className="text-sm font-medium text-slate-600 mb-2 block">Investment Choice</label>
+              <div className="grid grid-cols-4 gap-1.5">
+                {CHOICES.map((choice) => (
+                  <button
+                    key={choice.id}
+                    onClick={() => setParam('choice', choice.id)}
+                    className={`py-1.5 rounded-lg border text-center transition-colors ${
+                      params.choice === choice.id
+                        ? 'bg-blue-50 border-blue-300 text-blue-700'
+                        : 'border-slate-200 text-slate-600 hover:border-blue-300'
+                    }`}
+                  >
+                    <div className="text-xs font-semibold">{choice.name}</div>
+                    <div className="text-[9px] text-slate-400">{choice.hint}</div>
+                  </button>
+                ))}
+              </div>
+              {params.choice === 'active' && (
+                <div className="grid grid-cols-3 gap-2 mt-2">
+                  <div>
+                    <label className="text-[10px] font-medium text-slate-500 mb-1 block">Equity % (max 75)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={75}
+                      step={5}
+                      value={params.activeAllocation.equity}
+                      onChange={(e) => setActiveShare('equity', Number(e.target.value))}
+                      className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-[10px] font-medium text-slate-500 mb-1 block">Corporate %</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step={5}
+                      value={params.activeAllocation.corporateBonds}
+                      onChange={(e) => setActiveShare('corporateBonds', Number(e.target.value))}
+                      className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-[10px] font-medium text-slate-500 mb-1 block">Govt. %</label>
+                    <div className="px-2 py-1.5 text-sm bg-slate-50 border border-slate-200 rounded font-mono text-slate-500">
+                      {params.activeAllocation.governmentBonds}
+                    </div>
+                  </div>
+                </div>
+              )}
+              <div className="mt-2">
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Expected Returns (% p.a.)</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {ASSET_CLASSES.map((asset) => (
+                    <div key={asset.key} className="flex items-center gap-1">
+                      <span className="text-[10px] text-slate-400 w-3">{asset.short}</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={20}
+                        step={0.5}
+                        value={params.expectedReturns[asset.key]}
+                        onChange={(e) => setExpectedReturn(asset.key, Number(e.target.value))}
+                        className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {/* Annuity */}
+            <div>
+              <div className="flex justify-between items-baseline mb-2">
+                <label className="text-sm font-medium text-slate-600">Annuity Share</label>
+                <span className="font-mono text-base font-semibold text-slate-900">
+                  {params.annuityPercent}% @ {params.annuityRate}%
+                </span>
+              </div>
+              <input
+                type="range"
+                min={NPS_MIN_ANNUITY_PERCENT}
+                max={100}
+                step={5}
+                value={params.annuityPercent}
+                onChange={(e) => setParam('annuityPercent', Number(e.target.value))}
+                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-blue-600"
+              />
+              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                <span>{NPS_MIN_ANNUITY_PERCENT}% (Min)</span>
+                <span>100%</span>
+              </div>
+              <div className="flex items-center gap-2 mt-2">
+                <label className="text-[10px] font-medium text-slate-500">Annuity rate (% p.a.)</label>
+                <input
+                  type="number"
+                  min={3}
+                  max={10}
+                  step={0.1}
+                  value={params.annuityRate}
+                  onChange={(e) => setParam('annuityRate', Math.min(10, Math.max(3, Number(e.target.value))))}
+                  className="w-20 px-2 py-1 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Results */}
+          <div className="p-5 bg-slate-50">
+            {/* Primary Result */}
+            <div className="bg-blue-50 rounded-lg p-4 text-center mb-4">
+              <div className="text-[10px] font-semibold uppercase tracking-wider text-blue-600 mb-1">
+                Corpus at {NPS_RETIREMENT_AGE}
+              </div>
+              <div className="font-mono text-3xl font-bold text-slate-900">
+                ₹{formatIndianNumber(result.corpus)}
+              </div>
+              <div className="text-xs text-blue-600 mt-1">
+                Pension: ₹{formatIndianNumber(result.monthlyPension)}/month
+              </div>
+            </div>
+
+            {/* Secondary Results */}
+            <div className="grid grid-cols-3 gap-2 mb-4">
+              <div className="bg-white rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                  Invested
+                </div>
+                <div className="font-mono text-sm font-semibold text-slate-900">
+                  {formatCurrencyCompact(result.totalContribution)}
+                </div>
+              </div>
+              <div className="bg-white rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                  Returns
+                </div>
+                <div className="font-mono text-sm font-semibold text-blue-600">
+                  {formatCurrencyCompact(result.totalReturns)}
+                </div>
+              </div>
+              <div className="bg-white rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                  Mix Now
+                </div>
+                <div className="font-mono text-sm font-semibold text-slate-900">
+                  {formatMix(currentMix)}
+                </div>
+              </div>
+            </div>
+
+            {/* Withdrawal split */}
+            <div className="bg-white rounded-lg p-4 mb-4">
+              <div className="text-xs font-semibold text-slate-700 mb-2">At {NPS_RETIREMENT_AGE}</div>
+              <div className="flex h-2 rounded-full overflow-hidden mb-3">
+                <div className="bg-blue-500" style={{ width: `${lumpSumPercent}%` }} />
+                <div className="bg-sky-300" style={{ width: `${100 - lumpSumPercent}%` }} />
+              </div>
+              <div className="space-y-1.5 text-xs">
+                <div className="flex justify-between">
+                  <span className="flex items-center gap-1.5 text-slate-600">
+                    <span className="w-2 h-2 bg-blue-500 rounded-sm" />
+                    Tax-free lump sum ({lumpSumPercent}%)
+                  </span>
+                  <span className="font-mono">₹{formatIndianNumber(result.lumpSum)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="flex items-center gap-1.5 text-slate-600">
+                    <span className="w-2 h-2 bg-sky-300 rounded-sm" />
+                    Annuity purchase ({100 - lumpSumPercent}%)
+                  </span>
+                  <span className="font-mono">₹{formatIndianNumber(result.annuityCorpus)}</span>
+                </div>
+                <div className="flex justify-between font-semibold pt-1 border-t border-slate-100">
+                  <span className="text-slate-700">Monthly pension (taxable)</span>
+                  <span className="font-mono text-blue-600">₹{formatIndianNumber(result.monthlyPension)}</span>
+                </div>
+              </div>
+            </div>
+
+            {/* Tax benefit */}
+            <div className="bg-white rounded-lg p-4">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-semibold text-slate-700">Tax Benefit ({rules.label})</span>
+                <select
+                  value={slabRate}
+                  onChange={(e) => setSlabRate(Number(e.target.value))}
+                  className="text-[10px] px-1.5 py-0.5 bg-slate-100 text-slate-600 rounded focus:outline-none focus:ring-1 focus:ring-blue-400"
+                  title="Your marginal slab rate"
+                >
+                  {SLAB_RATES.map((rate) => (
+                    <option key={rate} value={rate}>{rate}% slab</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex gap-1.5 mb-3">
+                {(['new', 'old'] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setRegime(option)}
+                    className={`flex-1 py-1 text-[11px] font-medium rounded border transition-colors ${
+                      regime === option
+                        ? 'bg-blue-500 text-white border-blue-500'
+                        : 'bg-white text-slate-600 border-slate-200 hover:border-blue-300'
+                    }`}
+                  >
+                    {REGIME_NAMES[option]}
+                  </button>
+                ))}
+              </div>
+              <div className="mb-2">
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Monthly Basic + DA (for the 80CCD(2) limit)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step={5000}
+                  value={monthlyBasic || ''}
+                  placeholder="0"
+                  onChange={(e) => setMonthlyBasic(Math.max(0, Number(e.target.value)))}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                />
+              </div>
+              <div className="space-y-1.5 text-xs">
+                <div className="flex justify-between text-slate-600">
+                  <span>80CCD(1B) own, up to ₹{formatIndianNumber(SECTION_80CCD1B_CAP)}</span>
+                  <span className="font-mono">
+                    {regime === 'old' ? `₹${formatIndianNumber(taxBenefit.deduction80CCD1B)}` : 'Old regime only'}
+                  </span>
+                </div>
+                <div className="flex justify-between text-slate-600">
+                  <span>80CCD(2) employer, up to {rules[regime].employerNpsLimit}% of basic</span>
+                  <span className="font-mono">₹{formatIndianNumber(taxBenefit.deduction80CCD2)}</span>
+                </div>
+                <div className="flex justify-between font-semibold pt-1 border-t border-slate-100">
+                  <span className="text-slate-700">Tax saved per year</span>
+                  <span className="font-mono text-green-600">₹{formatIndianNumber(taxBenefit.taxSaved)}</span>
+                </div>
+              </div>
+              {params.employerMonthly * 12 > taxBenefit.employerLimit && (
+                <div className="mt-2 text-[10px] text-amber-600">
+                  Employer contribution above ₹{formatIndianNumber(taxBenefit.employerLimit)} a year is taxable as salary
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Auto-save indicator with subtle notes */}
+        <div className="px-5 py-2 bg-slate-50 border-t border-slate-100">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-[10px] text-slate-400">
+              <span className="w-1.5 h-1.5 bg-green-500 rounded-full" />
+              Auto-saved {lastSaved || 'just now'}
+            </div>
+            <button
+              onClick={() => setShowNotes(!showNotes)}
+              className={`flex items-center gap-1.5 px-2 py-1 rounded text-[10px] transition-colors ${
+                notes
+                  ? 'text-blue-600 bg-blue-50 hover:bg-blue-100'
+                  : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'
+              }`}
+              title={notes ? 'View note' : 'Add note'}
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+              </svg>
+              {notes ? 'Note' : 'Add note'}
+            </button>
+          </div>
+          {showNotes && (
+            <div className="mt-2 pt-2 border-t border-slate-200">
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Add a quick note..."
+                className="w-full h-16 p-2 text-xs text-slate-600 bg-white border border-slate-200 rounded resize-none focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400"
+                autoFocus
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Yearly Projection */}
+      <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-slate-700">Year-by-Year Projection</h3>
+          <div className="flex items-center gap-3 text-[10px] text-slate-500">
+            {ASSET_CLASSES.map((asset) => (
+              <span key={asset.key} className="flex items-center gap-1">
+                <span className={`w-2 h-2 rounded-sm ${asset.color}`} />
+                {asset.name} ({asset.short})
+              </span>
+            ))}
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-wide text-slate-500 border-b border-slate-200 bg-slate-50">
+                <th className="text-left px-4 py-2 font-medium">Age</th>
+                <th className="text-left px-2 py-2 font-medium w-1/4">Asset Mix</th>
+                <th className="text-right px-2 py-2 font-medium">Contribution</th>
+                <th className="text-right px-2 py-2 font-medium">Returns</th>
+                <th className="text-right px-4 py-2 font-medium">Corpus</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {result.breakdown.map((row) => (
+                <tr key={row.age} className="border-b border-slate-100 text-slate-700">
+                  <td className="px-4 py-1.5 font-sans text-slate-500">{row.age}</td>
+                  <td className="px-2 py-1.5">
+                    <div className="flex h-2 rounded-full overflow-hidden" title={`E/C/G ${formatMix(row.allocation)}`}>
+                      {ASSET_CLASSES.map((asset) => (
+                        <div key={asset.key} className={asset.color} style={{ width: `${row.allocation[asset.key]}%` }} />
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-2 py-1.5 text-right">{formatCurrencyCompact(row.contribution)}</td>
+                  <td className="px-2 py-1.5 text-right text-blue-600">{formatCurrencyCompact(row.returns)}</td>
+                  <td className="px-4 py-1.5 text-right font-semibold">{formatCurrencyCompact(row.corpus)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* About Section */}
+      <details className="bg-white border border-slate-200 rounded-xl">
+        <summary className="px-4 py-3 text-sm font-medium text-slate-700 cursor-pointer hover:bg-slate-50">
+          About NPS Calculator
+        </summary>
+        <div className="px-4 pb-4 text-sm text-slate-600 space-y-3">
+          <p>
+            The <strong>National Pension System (NPS)</strong> is a market-linked retirement scheme regulated by
+            PFRDA. Tier I is the locked-in pension account that matures at {NPS_RETIREMENT_AGE}.
+          </p>
+          <ul className="list-disc list-inside space-y-1 text-slate-500">
+            <li><strong>Auto choice:</strong> LC75, LC50 and LC25 hold their equity share until 35 and shift to bonds by 55</li>
+            <li><strong>Active choice:</strong> your own E/C/G mix, with equity capped at 75% and tapering after 50</li>
+            <li><strong>At {NPS_RETIREMENT_AGE}:</strong> up to 60% can be withdrawn tax-free; at least 40% buys an annuity</li>
+            <li><strong>Annuity income</strong> is taxed as income in the year it is received</li>
+          </ul>
+          <p className="text-slate-500">
+            80CCD(1B) gives an extra ₹{formatIndianNumber(SECTION_80CCD1B_CAP)} deduction for your own contributions in
+            the old regime only. The employer&apos;s contribution is deductible under 80CCD(2) in both regimes, up to{' '}
+            {rules.old.employerNpsLimit}% of basic in the old regime and {rules.new.employerNpsLimit}% in the new one.
+            Returns are blended yearly from the asset mix and are not guaranteed.
+          </p>
+        </div>
+      </details>
+    </div>
+  )
+})
+
+export default NPSCalculator
@@ -1,21 +1,7 @@
 'use client'
 
 import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
-
-interface PPFResult {
-  yearlyDeposit: number
-  totalDeposit: number
-  totalInterest: number
-  maturityValue: number
-  effectiveReturn: number
-}
-
-interface YearlyBreakdown {
-  year: number
-  deposit: number
-  interest: number
-  balance: number
-}
+import { calculatePPF } from '@/lib/calculations'
 
 function formatIndianNumber(num: number): string {
   const str = Math.round(num).toString()
@@ -40,42 +26,6 @@ function formatCompact(num: number): string {
   return `₹${num}`
 }
 
-// PPF Calculation with yearly compounding
-function calculatePPF(yearlyDeposit: number, interestRate: number, years: number): { result: PPFResult; breakdown: YearlyBreakdown[] } {
-  const breakdown: YearlyBreakdown[] = []
-  let balance = 0
-  let totalDeposit = 0
-  const rate = interestRate / 100
-
-  for (let year = 1; year <= years; year++) {
-    totalDeposit += yearlyDeposit
-    // Interest calculated on opening balance + current year deposit (assuming deposit at start of year)
-    const interest = (balance + yearlyDeposit) * rate
-    balance = balance + yearlyDeposit + interest
-
-    breakdown.push({
-      year,
-      deposit: totalDeposit,
-      interest: Math.round(balance - totalDeposit),
-      balance: Math.round(balance),
-    })
-  }
-
-  const totalInterest = balance - totalDeposit
-  const effectiveReturn = totalDeposit > 0 ? (totalInterest / totalDeposit) * 100 : 0
-
-  return {
-    result: {
-      yearlyDeposit,
-      totalDeposit: Math.round(totalDeposit),
-      totalInterest: Math.round(totalInterest),
-      maturityValue: Math.round(balance),
-      effectiveReturn: Math.round(effectiveReturn),
-    },
-    breakdown,
-  }
-}
-
 export interface PPFCalculatorRef {
   exportToPDF: () => void
   exportToHTML: () => void
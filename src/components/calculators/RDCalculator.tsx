@@ -1,21 +1,7 @@
 'use client'
 
 import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
-
-interface RDResult {
-  monthlyDeposit: number
-  totalDeposit: number
-  totalInterest: number
-  maturityValue: number
-  effectiveReturn: number
-}
-
-interface QuarterlyBreakdown {
-  quarter: number
-  deposit: number
-  interest: number
-  balance: number
-}
+import { calculateRD } from '@/lib/calculations'
 
 function formatIndianNumber(num: number): string {
   const str = Math.round(num).toString()
@@ -40,57 +26,6 @@ function formatCompact(num: number): string {
   return `₹${num}`
 }
 
-// RD Calculation with quarterly compounding
-function calculateRD(monthlyDeposit: number, annualRate: number, months: number): { result: RDResult; breakdown: QuarterlyBreakdown[] } {
-  const quarterlyRate = annualRate / 4 / 100
-  const totalDeposit = monthlyDeposit * months
-  const breakdown: QuarterlyBreakdown[] = []
-
-  // RD formula: M = P * [(1+r)^n - 1] / (1 - (1+r)^(-1/3))
-  // Simplified: Using compound interest on each deposit
-  let maturityValue = 0
-
-  for (let i = 0; i < months; i++) {
-    const remainingQuarters = (months - i) / 3
-    maturityValue += monthlyDeposit * Math.pow(1 + quarterlyRate, remainingQuarters)
-  }
-
-  // Generate quarterly breakdown
-  let runningDeposit = 0
-  let runningBalance = 0
-  const quarters = Math.ceil(months / 3)
-
-  for (let q = 1; q <= quarters; q++) {
-    const monthsInQuarter = Math.min(3, months - (q - 1) * 3)
-    runningDeposit += monthlyDeposit * monthsInQuarter
-
-    // Calculate interest for this quarter
-    const interestThisQuarter = runningBalance * quarterlyRate
-    runningBalance = runningBalance + (monthlyDeposit * monthsInQuarter) + interestThisQuarter
-
-    breakdown.push({
-      quarter: q,
-      deposit: Math.round(runningDeposit),
-      interest: Math.round(runningBalance - runningDeposit),
-      balance: Math.round(runningBalance),
-    })
-  }
-
-  const totalInterest = maturityValue - totalDeposit
-  const effectiveReturn = totalDeposit > 0 ? (totalInterest / totalDeposit) * 100 : 0
-
-  return {
-    result: {
-      monthlyDeposit,
-      totalDeposit: Math.round(totalDeposit),
-      totalInterest: Math.round(totalInterest),
-      maturityValue: Math.round(maturityValue),
-      effectiveReturn: Math.round(effectiveReturn * 10) / 10,
-    },
-    breakdown,
-  }
-}
-
 export interface RDCalculatorRef {
   exportToPDF: () => void
   exportToHTML: () => void
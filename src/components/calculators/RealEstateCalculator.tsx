@@ -2,783 +2,48 @@
 
 import React, { useState, useMemo, useEffect, forwardRef, useImperativeHandle } from 'react'
 import { useNumberFormat } from '@/contexts/NumberFormatContext'
-
-// Cost Inflation Index (CII) Data - Base Year 2001-02 = 100
-const CII_DATA: Record<string, number> = {
-  '2001': 100, '2002': 105, '2003': 109, '2004': 113, '2005': 117,
-  '2006': 122, '2007': 129, '2008': 137, '2009': 148, '2010': 167,
-  '2011': 184, '2012': 200, '2013': 220, '2014': 240, '2015': 254,
-  '2016': 264, '2017': 272, '2018': 280, '2019': 289, '2020': 301,
-  '2021': 317, '2022': 331, '2023': 348, '2024': 363, '2025': 376,
-  '2026': 390, // Estimated (~3.7% growth)
-}
-
-// Get financial year from date
-function getFinancialYear(date: Date): string {
-  const month = date.getMonth()
-  const year = date.getFullYear()
-  // FY starts April 1st
-  return month >= 3 ? String(year) : String(year - 1)
-}
-
-// Get CII for a date
-function getCII(date: Date): number {
-  const fy = getFinancialYear(date)
-  return CII_DATA[fy] || CII_DATA['2026']
-}
-
-// Calculate holding period in months
-function getHoldingPeriod(purchaseDate: Date, saleDate: Date): { months: number; years: number; isLongTerm: boolean } {
-  const diffTime = saleDate.getTime() - purchaseDate.getTime()
-  const diffMonths = Math.floor(diffTime / (1000 * 60 * 60 * 24 * 30.44))
-  const years = Math.floor(diffMonths / 12)
-  const months = diffMonths % 12
-  // Long-term if held >= 24 months for immovable property
-  const isLongTerm = diffMonths >= 24
-  return { months: diffMonths, years, isLongTerm }
-}
-
-
-// Interfaces
-interface PropertyDetails {
-  propertyType: 'residential' | 'commercial' | 'land'
-  purchaseDate: string
-  purchasePrice: number
-  stampDuty: number
-  improvementCost: number
-  improvementDate: string
-  saleDate: string
-  salePrice: number
-  brokerage: number
-  legalFees: number
-}
-
-interface CapitalGainsResult {
-  holdingPeriod: { months: number; years: number; isLongTerm: boolean }
-  purchaseCII: number
-  saleCII: number
-  indexedPurchaseCost: number
-  indexedImprovementCost: number
-  totalIndexedCost: number
-  transferExpenses: number
-  netSaleConsideration: number
-  capitalGain: number
-  taxRate: number
-  taxBeforeCess: number
-  cess: number
-  totalTax: number
-  netProceeds: number
-  useNewRegime: boolean
-  // For pre-July 2024 properties - compare both regimes
-  canChooseRegime: boolean
-  oldRegime?: {
-    capitalGain: number
-    taxRate: number
-    totalTax: number
-    netProceeds: number
-  }
-  newRegime?: {
-    capitalGain: number
-    taxRate: number
-    totalTax: number
-    netProceeds: number
-  }
-  recommendedRegime?: 'old' | 'new'
-}
-
-interface ExemptionStrategy {
-  section: string
-  name: string
-  description: string
-  maxExemption: number
-  investmentRequired: number
-  taxSaved: number
-  deadline: Date
-  lockInYears: number
-  isEligible: boolean
-  notes: string[]
-  // Bond-specific details for 54EC
-  bondDetails?: {
-    interestRate: number
-    totalInterest: number
-    maturityValue: number
-    taxOnInterest: number // Interest taxed at slab rate (assuming 30%)
-    netMaturityValue: number
-    // Remaining amount calculation (for capital gain > 50L)
-    remainingGain: number // Capital gain beyond 50L exemption
-    taxOnRemainingGain: number // LTCG tax on remaining
-    remainingCash: number // Cash after bond investment and remaining tax
-    fdRate: number // FD interest rate assumption
-    fdInterest: number // FD interest earned over lock-in period
-    fdMaturityValue: number // FD principal + interest
-    taxOnFdInterest: number // Tax on FD interest at slab rate
-    netFdMaturityValue: number // FD after tax
-    totalNetCashInHand: number // Bonds + FD (both after tax)
-  }
-  // Section 54/54F property projections
-  propertyProjection?: {
-    originalPropertyCAGR: number // Annual appreciation rate of sold property
-    appreciationRate: number // User-selected appreciation rate for new property
-    projectedPropertyValue: number // Value after lock-in period
-    capitalAppreciation: number // Property value increase
-    rentalEnabled: boolean
-    monthlyRent: number
-    rentStartMonth: number // Which month rent collection starts
-    totalRentalIncome: number // Total rent collected over lock-in
-    totalReturns: number // Appreciation + Rental - Investment
-    annualizedReturn: number // CAGR of total returns
-    // Tax breakdown for net proceeds
-    taxSlab: number // User's income tax slab (10/20/30%)
-    taxOnRentalIncome: number // Tax on rental income at slab rate
-    taxOnAppreciation: number // LTCG tax on property appreciation (12.5%)
-    totalTaxOnReturns: number // Total tax on returns
-    // Remaining cash invested in FD (Section 54)
-    remainingCash?: number // Cash not invested in property
-    fdRate?: number // FD interest rate assumption
-    fdInterest?: number // FD interest earned over lock-in period
-    fdMaturityValue?: number // FD principal + interest
-    taxOnFdInterest?: number // Tax on FD interest at slab rate
-    netFdMaturityValue?: number // Net FD returns after tax
-    // Total
-    netCashInHand: number // Final amount after all taxes (property + FD)
-    comparisonWithoutExemption: {
-      taxPaid: number
-      investedAmount: number // After-tax amount if invested elsewhere
-      returnAt8Percent: number // Assuming 8% FD/debt returns
-      taxOnFDReturns: number // Tax on FD interest at slab rate
-      netFDReturns: number // Net FD returns after tax
-    }
-  }
-}
-
-// Indian income tax slabs
-const TAX_SLABS = [
-  { value: 0, label: '0%', description: 'Up to ₹3L (New) / ₹2.5L (Old)' },
-  { value: 5, label: '5%', description: '₹3-7L (New) / ₹2.5-5L (Old)' },
-  { value: 10, label: '10%', description: '₹7-10L (New)' },
-  { value: 15, label: '15%', description: '₹10-12L (New)' },
-  { value: 20, label: '20%', description: '₹5-10L (Old) / ₹12-15L (New)' },
-  { value: 30, label: '30%', description: 'Above ₹10L (Old) / ₹15L (New)' },
-]
-
-// State for Section 54 projections
-interface Section54ProjectionState {
-  appreciationRate: number
-  enableRental: boolean
-  monthlyRent: number
-  rentStartMonth: number // Months after purchase when rent starts (e.g., 0 = immediate, 12 = after 1 year)
-  taxSlab: number // User's income tax slab percentage (0/5/10/15/20/30)
-}
-
-// Reinvestment allocation state - how to allocate sale proceeds after tax
-interface ReinvestmentAllocation {
-  // Personal use/obligations - money taken out for personal needs
-  personalUse: {
-    enabled: boolean
-    amount: number
-  }
-  // Section 54EC bonds investment
-  bonds: {
-    enabled: boolean
-    amount: number
-  }
-  // Real estate reinvestment with rental projections
-  realEstate: {
-    enabled: boolean
-    amount: number
-    appreciationRate: number
-    enableRental: boolean
-    monthlyRent: number
-    rentStartMonth: number
-  }
-}
-
-// Calculate capital gains
-function calculateCapitalGains(property: PropertyDetails): CapitalGainsResult {
-  const purchaseDate = new Date(property.purchaseDate)
-  const saleDate = new Date(property.saleDate)
-  const holdingPeriod = getHoldingPeriod(purchaseDate, saleDate)
-
-  const purchaseCII = getCII(purchaseDate)
-  const saleCII = getCII(saleDate)
-
-  // Check if property acquired after July 23, 2024 (new regime mandatory)
-  const newRegimeDate = new Date('2024-07-23')
-  const mustUseNewRegime = purchaseDate >= newRegimeDate
-
-  // For LTCG on pre-July 2024 properties, taxpayer can CHOOSE either regime
-  const canChooseRegime = holdingPeriod.isLongTerm && !mustUseNewRegime
-
-  // Total purchase cost (without indexation)
-  const totalPurchaseCost = property.purchasePrice + property.stampDuty
-  const transferExpenses = property.brokerage + property.legalFees
-  const netSaleConsideration = property.salePrice - transferExpenses
-
-  // Calculate OLD REGIME (20% with indexation)
-  let indexedPurchaseCost = totalPurchaseCost
-  let indexedImprovementCost = property.improvementCost
-
-  if (holdingPeriod.isLongTerm) {
-    indexedPurchaseCost = Math.round((totalPurchaseCost * saleCII) / purchaseCII)
-    if (property.improvementCost > 0 && property.improvementDate) {
-      const improvementCII = getCII(new Date(property.improvementDate))
-      indexedImprovementCost = Math.round((property.improvementCost * saleCII) / improvementCII)
-    }
-  }
-  const totalIndexedCost = indexedPurchaseCost + indexedImprovementCost
-  const capitalGainOld = netSaleConsideration - totalIndexedCost
-  const taxOld = Math.max(0, capitalGainOld) * 0.20 * 1.04 // 20% + 4% cess
-
-  // Calculate NEW REGIME (12.5% without indexation)
-  const capitalGainNew = netSaleConsideration - totalPurchaseCost - property.improvementCost
-  const taxNew = Math.max(0, capitalGainNew) * 0.125 * 1.04 // 12.5% + 4% cess
-
-  // Determine which regime is better (lower tax)
-  const recommendedRegime = taxOld <= taxNew ? 'old' : 'new'
-
-  // Use the recommended regime for display (or new regime if mandatory)
-  const useNewRegime = mustUseNewRegime || (!canChooseRegime ? false : recommendedRegime === 'new')
-
-  // Final values based on selected/recommended regime
-  let capitalGain: number
-  let taxRate: number
-  let totalTax: number
-
-  if (!holdingPeriod.isLongTerm) {
-    // STCG - taxed at slab rate, assuming 30% for high income
-    capitalGain = netSaleConsideration - totalPurchaseCost - property.improvementCost
-    taxRate = 30
-    totalTax = Math.max(0, capitalGain) * 0.30 * 1.04
-  } else if (useNewRegime) {
-    capitalGain = capitalGainNew
-    taxRate = 12.5
-    totalTax = taxNew
-  } else {
-    capitalGain = capitalGainOld
-    taxRate = 20
-    totalTax = taxOld
-  }
-
-  const taxBeforeCess = totalTax / 1.04
-  const cess = totalTax - taxBeforeCess
-  const netProceeds = property.salePrice - transferExpenses - totalTax
-
-  return {
-    holdingPeriod,
-    purchaseCII,
-    saleCII,
-    indexedPurchaseCost,
-    indexedImprovementCost,
-    totalIndexedCost,
-    transferExpenses,
-    netSaleConsideration,
-    capitalGain,
-    taxRate,
-    taxBeforeCess,
-    cess,
-    totalTax,
-    netProceeds,
-    useNewRegime,
-    canChooseRegime,
-    oldRegime: canChooseRegime ? {
-      capitalGain: capitalGainOld,
-      taxRate: 20,
-      totalTax: taxOld,
-      netProceeds: property.salePrice - transferExpenses - taxOld,
-    } : undefined,
-    newRegime: canChooseRegime ? {
-      capitalGain: capitalGainNew,
-      taxRate: 12.5,
-      totalTax: taxNew,
-      netProceeds: property.salePrice - transferExpenses - taxNew,
-    } : undefined,
-    recommendedRegime: canChooseRegime ? recommendedRegime : undefined,
-  }
-}
-
-// Calculate CAGR (Compound Annual Growth Rate)
-function calculateCAGR(beginValue: number, endValue: number, years: number): number {
-  if (beginValue <= 0 || years <= 0) return 0
-  return (Math.pow(endValue / beginValue, 1 / years) - 1) * 100
-}
-
-// Split-bracket tax calculation for additional income
-// Takes into account current taxable income and calculates tax with proper bracket splitting
-interface SplitBracketParams {
-  additionalIncome: number
-  currentTaxableIncome: number
-  regime: 'new' | 'old'
-  includeCess?: boolean
-}
-
-interface SplitBracketResult {
-  tax: number
-  breakdown: Array<{ rate: number; amount: number; tax: number }>
-  effectiveRate: number
-}
-
-function calculateSplitBracketTax(params: SplitBracketParams): SplitBracketResult {
-  const { additionalIncome, currentTaxableIncome, regime, includeCess = true } = params
-  const cessRate = includeCess ? 0.04 : 0
-
-  if (additionalIncome <= 0) {
-    return { tax: 0, breakdown: [], effectiveRate: 0 }
-  }
-
-  // Tax brackets for New Regime (FY 2024-25 onwards)
-  const newRegimeBrackets = [
-    { limit: 300000, rate: 0 },
-    { limit: 700000, rate: 5 },
-    { limit: 1000000, rate: 10 },
-    { limit: 1200000, rate: 15 },
-    { limit: 1500000, rate: 20 },
-    { limit: Infinity, rate: 30 },
-  ]
-
-  // Tax brackets for Old Regime
-  const oldRegimeBrackets = [
-    { limit: 250000, rate: 0 },
-    { limit: 500000, rate: 5 },
-    { limit: 1000000, rate: 20 },
-    { limit: Infinity, rate: 30 },
-  ]
-
-  const brackets = regime === 'new' ? newRegimeBrackets : oldRegimeBrackets
-  const breakdown: Array<{ rate: number; amount: number; tax: number }> = []
-
-  let remainingIncome = additionalIncome
-  let totalIncome = currentTaxableIncome
-  let totalTax = 0
-
-  // Find the current bracket and room left
-  for (let i = 0; i < brackets.length && remainingIncome > 0; i++) {
-    const bracket = brackets[i]
-    const prevLimit = i === 0 ? 0 : brackets[i - 1].limit
-
-    // If current income is already above this bracket, skip
-    if (totalIncome >= bracket.limit) continue
-
-    // Calculate room in this bracket
-    const roomInBracket = bracket.limit - Math.max(totalIncome, prevLimit)
-    const incomeInThisBracket = Math.min(remainingIncome, roomInBracket)
-
-    if (incomeInThisBracket > 0) {
-      const taxInBracket = Math.round(incomeInThisBracket * (bracket.rate / 100))
-      totalTax += taxInBracket
-      breakdown.push({
-        rate: bracket.rate,
-        amount: incomeInThisBracket,
-        tax: taxInBracket,
-      })
-      remainingIncome -= incomeInThisBracket
-      totalIncome += incomeInThisBracket
-    }
-  }
-
-  // Add cess
-  const cessAmount = Math.round(totalTax * cessRate)
-  const finalTax = totalTax + cessAmount
-
-  return {
-    tax: finalTax,
-    breakdown,
-    effectiveRate: additionalIncome > 0 ? (finalTax / additionalIncome) * 100 : 0,
-  }
+import {
+  CII_DATA,
+  getFinancialYear,
+  calculateCapitalGains,
+  calculateExemptions,
+  calculateReinvestmentProjection,
+  calculateCAGR,
+  getTaxRules,
+  getMarginalBracket,
+  isFinancialYear,
+  FINANCIAL_YEARS,
+  LATEST_FY,
+} from '@/lib/calculations'
+import {
+  PropertyDetails,
+  Section54ProjectionState,
+  ReinvestmentAllocation,
+  SalaryDataForCalc,
+  FinancialYear,
+  TaxRegime,
+  TaxSlab,
+} from '@/types'
+
+function formatSlabRange(slab: TaxSlab): string {
+  const lakhs = (num: number) => `₹${num / 100000}L`
+  if (slab.min === 0) return `Up to ${lakhs(slab.max)}`
+  if (slab.max === Infinity) return `Above ${lakhs(slab.min)}`
+  return `${lakhs(slab.min)}-${lakhs(slab.max)}`
 }
 
-// Salary data for split-bracket calculations
-interface SalaryDataForCalc {
-  usingSalaryRate: boolean
-  taxableIncome: number
-  regime: 'new' | 'old'
-}
-
-// Calculate exemption strategies
-function calculateExemptions(
-  property: PropertyDetails,
-  result: CapitalGainsResult,
-  projectionState: Section54ProjectionState,
-  salaryDataForCalc?: SalaryDataForCalc
-): ExemptionStrategy[] {
-  const saleDate = new Date(property.saleDate)
-  const purchaseDate = new Date(property.purchaseDate)
-  const capitalGain = Math.max(0, result.capitalGain)
-  const strategies: ExemptionStrategy[] = []
-
-  // Calculate original property's CAGR for reference
-  const holdingYears = result.holdingPeriod.months / 12
-  const originalCAGR = calculateCAGR(
-    property.purchasePrice + property.stampDuty,
-    property.salePrice,
-    holdingYears
-  )
-
-  // Only LTCG is eligible for exemptions
-  if (!result.holdingPeriod.isLongTerm || capitalGain <= 0) {
-    return strategies
-  }
-
-  // Section 54 - Residential Property Reinvestment
-  if (property.propertyType === 'residential') {
-    const deadline = new Date(saleDate)
-    deadline.setFullYear(deadline.getFullYear() + 2)
-
-    // Max exemption capped at ₹10Cr from AY 2024-25
-    const maxExemption = Math.min(capitalGain, 100000000)
-    const taxSaved = (maxExemption * result.taxRate / 100) * 1.04
-    const lockInYears = 3
-
-    // Calculate property projections
-    const investmentAmount = maxExemption
-    const appreciationRate = projectionState.appreciationRate
-    const projectedPropertyValue = Math.round(
-      investmentAmount * Math.pow(1 + appreciationRate / 100, lockInYears)
-    )
-    const capitalAppreciation = projectedPropertyValue - investmentAmount
-
-    // Rental income calculation
-    const rentMonths = Math.max(0, (lockInYears * 12) - projectionState.rentStartMonth)
-    const totalRentalIncome = projectionState.enableRental
-      ? projectionState.monthlyRent * rentMonths
-      : 0
-
-    const totalReturns = capitalAppreciation + totalRentalIncome
-    const annualizedReturn = calculateCAGR(
-      investmentAmount,
-      investmentAmount + totalReturns,
-      lockInYears
-    )
-
-    // Tax calculations on returns - use split-bracket if salary data available
-    const cessRate = 0.04
-
-    // Calculate tax on rental income with split-bracket if using salary data
-    let taxOnRentalIncome: number
-    if (salaryDataForCalc?.usingSalaryRate && totalRentalIncome > 0) {
-      const rentalTaxResult = calculateSplitBracketTax({
-        additionalIncome: totalRentalIncome,
-        currentTaxableIncome: salaryDataForCalc.taxableIncome,
-        regime: salaryDataForCalc.regime,
-      })
-      taxOnRentalIncome = rentalTaxResult.tax
-    } else {
-      const taxSlab = projectionState.taxSlab / 100
-      taxOnRentalIncome = Math.round(totalRentalIncome * taxSlab * (1 + cessRate))
-    }
-
-    // Capital appreciation on property sale after lock-in is LTCG at 12.5%
-    const taxOnAppreciation = capitalAppreciation > 0
-      ? Math.round(capitalAppreciation * 0.125 * (1 + cessRate))
-      : 0
-    const totalTaxOnReturns = taxOnRentalIncome + taxOnAppreciation
-    // Net property value after selling = Projected value - taxes on returns
-    const netPropertyValue = projectedPropertyValue - totalTaxOnReturns + totalRentalIncome - taxOnRentalIncome
-
-    // Remaining cash after property investment (this goes to FD)
-    // Since capital gains is exempt when reinvested, remaining = netSaleConsideration - capitalGains
-    const remainingCash54 = Math.max(0, result.netSaleConsideration - investmentAmount)
-
-    // FD calculations for remaining cash (assume 7% compound interest rate, same as 54EC)
-    const fdRate54 = 7
-    const fdInterest54 = Math.round(remainingCash54 * (Math.pow(1 + fdRate54 / 100, lockInYears) - 1))
-    const fdMaturityValue54 = remainingCash54 + fdInterest54
-
-    // Tax on FD interest at slab rate
-    let taxOnFdInterest54: number
-    if (salaryDataForCalc?.usingSalaryRate && fdInterest54 > 0) {
-      const fdTaxResult = calculateSplitBracketTax({
-        additionalIncome: fdInterest54,
-        currentTaxableIncome: salaryDataForCalc.taxableIncome,
-        regime: salaryDataForCalc.regime,
-      })
-      taxOnFdInterest54 = fdTaxResult.tax
-    } else {
-      const taxSlab = projectionState.taxSlab / 100
-      taxOnFdInterest54 = Math.round(fdInterest54 * taxSlab * (1 + cessRate))
-    }
-    const netFdMaturityValue54 = fdMaturityValue54 - taxOnFdInterest54
-
-    // Total net cash in hand = Property value (after appreciation & taxes) + FD maturity (after tax)
-    const netCashInHand = netPropertyValue + netFdMaturityValue54
-
-    // Comparison: What if you paid tax and invested the remaining in FD/debt fund
-    const comparisonTaxPaid = result.totalTax
-    const afterTaxAmount = result.netSaleConsideration - comparisonTaxPaid
-    const returnAt8Percent = Math.round(
-      afterTaxAmount * Math.pow(1.08, lockInYears) - afterTaxAmount
-    )
-    // FD interest is taxed at slab rate - use split-bracket if salary data available
-    let taxOnFDReturns: number
-    if (salaryDataForCalc?.usingSalaryRate && returnAt8Percent > 0) {
-      const fdTaxResult = calculateSplitBracketTax({
-        additionalIncome: returnAt8Percent,
-        currentTaxableIncome: salaryDataForCalc.taxableIncome,
-        regime: salaryDataForCalc.regime,
-      })
-      taxOnFDReturns = fdTaxResult.tax
-    } else {
-      const taxSlab = projectionState.taxSlab / 100
-      taxOnFDReturns = Math.round(returnAt8Percent * taxSlab * (1 + cessRate))
-    }
-    const netFDReturns = returnAt8Percent - taxOnFDReturns
-
-    // Build notes array for Section 54
-    const sec54Notes = [
-      'Purchase within 1 year before or 2 years after sale',
-      'Or construct within 3 years of sale',
-      'Only ONE new residential property allowed',
-      'Lock-in period: 3 years (cannot sell new property)',
-      'Max exemption: ₹10 Crore (from AY 2024-25)',
-    ]
-    if (remainingCash54 > 0) {
-      sec54Notes.push(`Surplus ₹${remainingCash54.toLocaleString('en-IN')} assumed in FD @${fdRate54}% for ${lockInYears} years`)
-    }
-
-    strategies.push({
-      section: '54',
-      name: 'Buy New Residential Property',
-      description: 'Reinvest capital gains in a new residential house',
-      maxExemption,
-      investmentRequired: maxExemption,
-      taxSaved,
-      deadline,
-      lockInYears,
-      isEligible: true,
-      notes: sec54Notes,
-      propertyProjection: {
-        originalPropertyCAGR: originalCAGR,
-        appreciationRate,
-        projectedPropertyValue,
-        capitalAppreciation,
-        rentalEnabled: projectionState.enableRental,
-        monthlyRent: projectionState.monthlyRent,
-        rentStartMonth: projectionState.rentStartMonth,
-        totalRentalIncome,
-        totalReturns,
-        annualizedReturn,
-        taxSlab: projectionState.taxSlab,
-        taxOnRentalIncome,
-        taxOnAppreciation,
-        totalTaxOnReturns,
-        // Remaining cash in FD
-        remainingCash: remainingCash54,
-        fdRate: fdRate54,
-        fdInterest: fdInterest54,
-        fdMaturityValue: fdMaturityValue54,
-        taxOnFdInterest: taxOnFdInterest54,
-        netFdMaturityValue: netFdMaturityValue54,
-        // Total net cash in hand (property + FD)
-        netCashInHand,
-        comparisonWithoutExemption: {
-          taxPaid: comparisonTaxPaid,
-          investedAmount: afterTaxAmount,
-          returnAt8Percent,
-          taxOnFDReturns,
-          netFDReturns,
-        },
-      },
-    })
-  }
+// Manual slab options for a financial year, e.g. 20% → '₹12L-₹16L (New) / ₹5L-₹10L (Old)'
+function getTaxSlabOptions(fy: FinancialYear): { value: number; label: string; description: string }[] {
+  const rules = getTaxRules(fy)
+  const rates = Array.from(new Set([...rules.new.slabs, ...rules.old.slabs].map((slab) => slab.rate))).sort((a, b) => a - b)
 
-  // Section 54EC - Capital Gains Bonds
-  const bondDeadline = new Date(saleDate)
-  bondDeadline.setMonth(bondDeadline.getMonth() + 6)
-
-  // Max ₹50 lakh per FY
-  const maxBondInvestment = Math.min(capitalGain, 5000000)
-  const bondTaxSaved = (maxBondInvestment * result.taxRate / 100) * 1.04
-
-  // Bond interest calculations
-  const bondInterestRate = 5.25 // Current rate for 54EC bonds
-  const bondLockInYears = 5
-  // Simple interest for 54EC bonds (paid annually, not compounded)
-  const totalInterest = Math.round(maxBondInvestment * (bondInterestRate / 100) * bondLockInYears)
-  const maturityValue = maxBondInvestment + totalInterest
-  // Interest is taxable at user's slab rate (with split-bracket if salary data available)
-  let taxOnInterest: number
-  const userTaxSlab = projectionState.taxSlab / 100
-  if (salaryDataForCalc?.usingSalaryRate && totalInterest > 0) {
-    // Use split-bracket: bond interest comes on top of salary income
-    const interestTaxResult = calculateSplitBracketTax({
-      additionalIncome: totalInterest,
-      currentTaxableIncome: salaryDataForCalc.taxableIncome,
-      regime: salaryDataForCalc.regime,
+  return rates.map((rate) => {
+    const ranges = (['new', 'old'] as TaxRegime[]).flatMap((regime) => {
+      const slab = rules[regime].slabs.find((s) => s.rate === rate)
+      return slab ? [`${formatSlabRange(slab)} (${regime === 'new' ? 'New' : 'Old'})`] : []
     })
-    taxOnInterest = interestTaxResult.tax
-  } else {
-    taxOnInterest = Math.round(totalInterest * userTaxSlab * 1.04) // slab rate + 4% cess
-  }
-  const netMaturityValue = maturityValue - taxOnInterest
-
-  // Calculate remaining amount (capital gain beyond 50L exemption)
-  const remainingGain = Math.max(0, capitalGain - maxBondInvestment)
-  const taxOnRemainingGain = Math.round(remainingGain * (result.taxRate / 100) * 1.04) // LTCG tax on remaining
-
-  // Cash remaining after bond investment and tax on remaining gain
-  // = Net sale proceeds - Tax on remaining gain - Bond investment
-  const remainingCash = Math.max(0, result.netSaleConsideration - taxOnRemainingGain - maxBondInvestment)
-
-  // FD calculations for remaining cash (assume 7% compound interest rate)
-  const fdRate = 7 // Reasonable FD rate assumption
-  const fdInterest = Math.round(remainingCash * (Math.pow(1 + fdRate / 100, bondLockInYears) - 1))
-  const fdMaturityValue = remainingCash + fdInterest
-
-  // Tax on FD interest at slab rate
-  let taxOnFdInterest: number
-  if (salaryDataForCalc?.usingSalaryRate && fdInterest > 0) {
-    const fdTaxResult = calculateSplitBracketTax({
-      additionalIncome: fdInterest,
-      currentTaxableIncome: salaryDataForCalc.taxableIncome + totalInterest, // FD interest comes after bond interest
-      regime: salaryDataForCalc.regime,
-    })
-    taxOnFdInterest = fdTaxResult.tax
-  } else {
-    taxOnFdInterest = Math.round(fdInterest * userTaxSlab * 1.04)
-  }
-  const netFdMaturityValue = fdMaturityValue - taxOnFdInterest
-
-  // Total net cash-in-hand = Bond maturity (after tax) + FD maturity (after tax)
-  const totalNetCashInHand = netMaturityValue + netFdMaturityValue
-
-  // Build notes array
-  const bondNotes = [
-    'Invest within 6 months of sale date',
-    'Maximum investment: ₹50 lakhs per financial year',
-    'Lock-in period: 5 years',
-    `Bond interest taxed at ${projectionState.taxSlab}% (your slab rate)`,
-    'Bonds: NHAI, REC, PFC, IRFC',
-  ]
-  if (remainingGain > 0) {
-    bondNotes.push(`Remaining ₹${remainingGain.toLocaleString('en-IN')} capital gain taxed at ${result.taxRate}%`)
-    bondNotes.push(`Surplus ₹${remainingCash.toLocaleString('en-IN')} assumed in FD @${fdRate}% for 5 years`)
-  }
-
-  strategies.push({
-    section: '54EC',
-    name: 'Capital Gains Bonds',
-    description: 'Invest in NHAI/REC/PFC bonds',
-    maxExemption: maxBondInvestment,
-    investmentRequired: maxBondInvestment,
-    taxSaved: bondTaxSaved,
-    deadline: bondDeadline,
-    lockInYears: bondLockInYears,
-    isEligible: true,
-    notes: bondNotes,
-    bondDetails: {
-      interestRate: bondInterestRate,
-      totalInterest,
-      maturityValue,
-      taxOnInterest,
-      netMaturityValue,
-      remainingGain,
-      taxOnRemainingGain,
-      remainingCash,
-      fdRate,
-      fdInterest,
-      fdMaturityValue,
-      taxOnFdInterest,
-      netFdMaturityValue,
-      totalNetCashInHand,
-    },
+    return { value: rate, label: `${rate}%`, description: ranges.join(' / ') }
   })
-
-  // Section 54F - For non-residential property
-  if (property.propertyType !== 'residential') {
-    const deadline54f = new Date(saleDate)
-    deadline54f.setFullYear(deadline54f.getFullYear() + 2)
-
-    // Full exemption if entire NET consideration is reinvested
-    const netConsideration = result.netSaleConsideration
-    const exemptionRatio = Math.min(1, capitalGain / netConsideration)
-    const maxExemption54f = Math.round(capitalGain * exemptionRatio)
-    const taxSaved54f = (maxExemption54f * result.taxRate / 100) * 1.04
-    const lockInYears54f = 3
-
-    // Calculate property projections for 54F
-    const investmentAmount54f = netConsideration
-    const appreciationRate54f = projectionState.appreciationRate
-    const projectedPropertyValue54f = Math.round(
-      investmentAmount54f * Math.pow(1 + appreciationRate54f / 100, lockInYears54f)
-    )
-    const capitalAppreciation54f = projectedPropertyValue54f - investmentAmount54f
-
-    // Rental income calculation for 54F
-    const rentMonths54f = Math.max(0, (lockInYears54f * 12) - projectionState.rentStartMonth)
-    const totalRentalIncome54f = projectionState.enableRental
-      ? projectionState.monthlyRent * rentMonths54f
-      : 0
-
-    const totalReturns54f = capitalAppreciation54f + totalRentalIncome54f
-    const annualizedReturn54f = calculateCAGR(
-      investmentAmount54f,
-      investmentAmount54f + totalReturns54f,
-      lockInYears54f
-    )
-
-    // Tax calculations on returns for 54F
-    const taxSlab54f = projectionState.taxSlab / 100
-    const cessRate54f = 0.04
-    const taxOnRentalIncome54f = Math.round(totalRentalIncome54f * taxSlab54f * (1 + cessRate54f))
-    const taxOnAppreciation54f = capitalAppreciation54f > 0
-      ? Math.round(capitalAppreciation54f * 0.125 * (1 + cessRate54f))
-      : 0
-    const totalTaxOnReturns54f = taxOnRentalIncome54f + taxOnAppreciation54f
-    const netCashInHand54f = investmentAmount54f + totalReturns54f - totalTaxOnReturns54f
-
-    // Comparison: What if you paid tax and invested the remaining in FD/debt fund
-    const comparisonTaxPaid54f = result.totalTax
-    const afterTaxAmount54f = result.netSaleConsideration - comparisonTaxPaid54f
-    const returnAt8Percent54f = Math.round(
-      afterTaxAmount54f * Math.pow(1.08, lockInYears54f) - afterTaxAmount54f
-    )
-    const taxOnFDReturns54f = Math.round(returnAt8Percent54f * taxSlab54f * (1 + cessRate54f))
-    const netFDReturns54f = returnAt8Percent54f - taxOnFDReturns54f
-
-    strategies.push({
-      section: '54F',
-      name: 'Buy Residential Property (54F)',
-      description: 'For sale of non-residential assets',
-      maxExemption: maxExemption54f,
-      investmentRequired: netConsideration,
-      taxSaved: taxSaved54f,
-      deadline: deadline54f,
-      lockInYears: lockInYears54f,
-      isEligible: true,
-      notes: [
-        'Applicable for sale of any asset EXCEPT residential house',
-        'Must not own more than one residential house on sale date',
-        'Full exemption if entire net consideration is reinvested',
-        'Proportionate exemption if partial reinvestment',
-        'Lock-in period: 3 years',
-      ],
-      propertyProjection: {
-        originalPropertyCAGR: originalCAGR,
-        appreciationRate: appreciationRate54f,
-        projectedPropertyValue: projectedPropertyValue54f,
-        capitalAppreciation: capitalAppreciation54f,
-        rentalEnabled: projectionState.enableRental,
-        monthlyRent: projectionState.monthlyRent,
-        rentStartMonth: projectionState.rentStartMonth,
-        totalRentalIncome: totalRentalIncome54f,
-        totalReturns: totalReturns54f,
-        annualizedReturn: annualizedReturn54f,
-        taxSlab: projectionState.taxSlab,
-        taxOnRentalIncome: taxOnRentalIncome54f,
-        taxOnAppreciation: taxOnAppreciation54f,
-        totalTaxOnReturns: totalTaxOnReturns54f,
-        netCashInHand: netCashInHand54f,
-        comparisonWithoutExemption: {
-          taxPaid: comparisonTaxPaid54f,
-          investedAmount: afterTaxAmount54f,
-          returnAt8Percent: returnAt8Percent54f,
-          taxOnFDReturns: taxOnFDReturns54f,
-          netFDReturns: netFDReturns54f,
-        },
-      },
-    })
-  }
-
-  return strategies
 }
 
 export interface RealEstateCalculatorRef {
@@ -824,6 +89,9 @@ const RealEstateCalculator = forwardRef<RealEstateCalculatorRef>(function RealEs
     taxSlab: 30, // Default to highest slab
   })
 
+  // Financial year whose slabs apply to rental income and bond interest
+  const [fy, setFy] = useState<FinancialYear>(LATEST_FY)
+
   // Salary calculator integration for tax slab
   const [salaryData, setSalaryData] = useState<{
     available: boolean
@@ -832,7 +100,7 @@ const RealEstateCalculator = forwardRef<RealEstateCalculatorRef>(function RealEs
     marginalRate: number
     nextBracketRate: number
     roomInBracket: number // How much more income before hitting next bracket
-    regime: 'new' | 'old'
+    regime: TaxRegime
     usingSalaryRate: boolean
   }>({
     available: false,
@@ -873,6 +141,7 @@ const RealEstateCalculator = forwardRef<RealEstateCalculatorRef>(function RealEs
         const data = JSON.parse(saved)
         setProperty(data.property || property)
         setActiveTab(data.activeTab || 'calculate')
+        setFy(isFinancialYear(data.fy) ? data.fy : LATEST_FY)
       } catch (e) {
         console.error('Failed to load saved data:', e)
       }
@@ -883,10 +152,10 @@ const RealEstateCalculator = forwardRef<RealEstateCalculatorRef>(function RealEs
   // Auto-save to localStorage
   useEffect(() => {
     if (!isLoaded) return
-    const data = { property, activeTab }
+    const data = { property, activeTab, fy }
     localStorage.setItem('calc_realestate', JSON.stringify(data))
     setLastSaved(new Date().toLocaleTimeString())
-  }, [property, activeTab, isLoaded])
+  }, [property, activeTab, fy, isLoaded])
 
   // Load salary calculator data and compute marginal tax rate with bracket info
   useEffect(() => {
@@ -896,7 +165,7 @@ const RealEstateCalculator = forwardRef<RealEstateCalculatorRef>(function RealEs
         if (saved) {
           const data = JSON.parse(saved)
           const ctc = data.ctc || 0
-          const regime = (data.taxRegime || 'new') as 'new' | 'old'
+          const regime = (data.taxRegime || 'new') as TaxRegime
 
           // Only consider salary data "available" if:
           // 1. CTC is different from default (1200000) - means user modified it
@@ -907,42 +176,12 @@ const RealEstateCalculator = forwardRef<RealEstateCalculatorRef>(function RealEs
           if (ctc > 0 && isUserModified) {
             // Calculate taxable income (rough estimate)
             const pf = (ctc / 12) * 0.4 * 0.12 * 12 // 12% of 40% basic
-            const standardDeduction = regime === 'new' ? 75000 : 50000
+            const standardDeduction = getTaxRules(fy)[regime].standardDeduction
             const taxableIncome = Math.max(0, ctc - pf - standardDeduction)
-
-            // Tax bracket thresholds (New Regime FY 2024-25)
-            // 0-3L: 0%, 3-7L: 5%, 7-10L: 10%, 10-12L: 15%, 12-15L: 20%, 15L+: 30%
-            // Old Regime: 0-2.5L: 0%, 2.5-5L: 5%, 5-10L: 20%, 10L+: 30%
-
-            let marginalRate = 0
-            let nextBracketRate = 0
-            let roomInBracket = 0
-
-            if (regime === 'new') {
-              if (taxableIncome > 1500000) {
-                marginalRate = 30; nextBracketRate = 30; roomInBracket = Infinity
-              } else if (taxableIncome > 1200000) {
-                marginalRate = 20; nextBracketRate = 30; roomInBracket = 1500000 - taxableIncome
-              } else if (taxableIncome > 1000000) {
-                marginalRate = 15; nextBracketRate = 20; roomInBracket = 1200000 - taxableIncome
-              } else if (taxableIncome > 700000) {
-                marginalRate = 10; nextBracketRate = 15; roomInBracket = 1000000 - taxableIncome
-              } else if (taxableIncome > 300000) {
-                marginalRate = 5; nextBracketRate = 10; roomInBracket = 700000 - taxableIncome
-              } else {
-                marginalRate = 0; nextBracketRate = 5; roomInBracket = 300000 - taxableIncome
-              }
-            } else {
-              if (taxableIncome > 1000000) {
-                marginalRate = 30; nextBracketRate = 30; roomInBracket = Infinity
-              } else if (taxableIncome > 500000) {
-                marginalRate = 20; nextBracketRate = 30; roomInBracket = 1000000 - taxableIncome
-              } else if (taxableIncome > 250000) {
-                marginalRate = 5; nextBracketRate = 20; roomInBracket = 500000 - taxableIncome
-              } else {
-                marginalRate = 0; nextBracketRate = 5; roomInBracket = 250000 - taxableIncome
-              }
-            }
+            const { marginalRate, nextBracketRate, roomInBracket } = getMarginalBracket(
+              taxableIncome,
+              getTaxRules(fy)[regime].slabs
+            )
 
             setSalaryData({
               available: true,
@@ -977,7 +216,7 @@ const RealEstateCalculator = forwardRef<RealEstateCalculatorRef>(function RealEs
     // Re-check when window gains focus (in case user filled salary calc in another tab)
     window.addEventListener('focus', loadSalaryData)
     return () => window.removeEventListener('focus', loadSalaryData)
-  }, [])
+  }, [fy])
 
   // Calculate results
   const result = useMemo(() => calculateCapitalGains(property), [property])
@@ -989,8 +228,9 @@ const RealEstateCalculator = forwardRef<RealEstateCalculatorRef>(function RealEs
       usingSalaryRate: true,
       taxableIncome: salaryData.taxableIncome,
       regime: salaryData.regime,
+      fy,
     }
-  }, [salaryData.usingSalaryRate, salaryData.taxableIncome, salaryData.regime])
+  }, [salaryData.usingSalaryRate, salaryData.taxableIncome, salaryData.regime, fy])
 
   const exemptions = useMemo(
     () => calculateExemptions(property, result, section54Projection, salaryDataForCalc),
@@ -1041,111 +281,16 @@ const RealEstateCalculator = forwardRef<RealEstateCalculatorRef>(function RealEs
   }, [result, activeRegime])
 
   // Calculate reinvestment allocation amounts and projections
-  const allocationCalculations = useMemo(() => {
-    const netProceeds = activeRegimeValues.netProceeds
-    const maxBondAmount = Math.min(5000000, netProceeds) // Max 50L for 54EC bonds
-    const lockInYears = 3 // Standard lock-in for real estate
-
-    // Calculate amounts based on allocation
-    const personalUseAmount = reinvestmentAllocation.personalUse.enabled
-      ? reinvestmentAllocation.personalUse.amount
-      : 0
-    const bondsAmount = reinvestmentAllocation.bonds.enabled
-      ? Math.min(reinvestmentAllocation.bonds.amount, maxBondAmount)
-      : 0
-
-    // Remaining goes to real estate (if enabled)
-    const remainingAfterPersonalAndBonds = Math.max(0, netProceeds - personalUseAmount - bondsAmount)
-    const realEstateAmount = reinvestmentAllocation.realEstate.enabled
-      ? remainingAfterPersonalAndBonds
-      : 0
-
-    // Total unallocated
-    const unallocated = netProceeds - personalUseAmount - bondsAmount - realEstateAmount
-
-    // Bond projections (5.25% simple interest, 5 years)
-    const bondInterestRate = 5.25
-    const bondLockIn = 5
-    const bondInterest = Math.round(bondsAmount * (bondInterestRate / 100) * bondLockIn)
-    const bondMaturityValue = bondsAmount + bondInterest
-
-    // Bond interest tax (with split-bracket if salary data available)
-    let bondTaxOnInterest: number
-    if (salaryDataForCalc?.usingSalaryRate && bondInterest > 0) {
-      const bondTaxResult = calculateSplitBracketTax({
-        additionalIncome: bondInterest,
-        currentTaxableIncome: salaryDataForCalc.taxableIncome,
-        regime: salaryDataForCalc.regime,
-      })
-      bondTaxOnInterest = bondTaxResult.tax
-    } else {
-      bondTaxOnInterest = Math.round(bondInterest * (section54Projection.taxSlab / 100) * 1.04)
-    }
-    const bondNetValue = bondMaturityValue - bondTaxOnInterest
-
-    // Real estate projections
-    const reAppreciationRate = reinvestmentAllocation.realEstate.appreciationRate
-    const reProjectedValue = Math.round(realEstateAmount * Math.pow(1 + reAppreciationRate / 100, lockInYears))
-    const reCapitalAppreciation = reProjectedValue - realEstateAmount
-    const reRentMonths = Math.max(0, (lockInYears * 12) - reinvestmentAllocation.realEstate.rentStartMonth)
-    const reTotalRental = reinvestmentAllocation.realEstate.enableRental
-      ? reinvestmentAllocation.realEstate.monthlyRent * reRentMonths
-      : 0
-    const reTotalReturns = reCapitalAppreciation + reTotalRental
-
-    // Rental income tax (with split-bracket if salary data available)
-    let reTaxOnRent: number
-    if (salaryDataForCalc?.usingSalaryRate && reTotalRental > 0) {
-      const rentalTaxResult = calculateSplitBracketTax({
-        additionalIncome: reTotalRental,
-        currentTaxableIncome: salaryDataForCalc.taxableIncome,
-        regime: salaryDataForCalc.regime,
-      })
-      reTaxOnRent = rentalTaxResult.tax
-    } else {
-      reTaxOnRent = Math.round(reTotalRental * (section54Projection.taxSlab / 100) * 1.04)
-    }
-    const reTaxOnAppreciation = reCapitalAppreciation > 0
-      ? Math.round(reCapitalAppreciation * 0.125 * 1.04)
-      : 0
-    const reTotalTax = reTaxOnRent + reTaxOnAppreciation
-    const reNetValue = realEstateAmount + reTotalReturns - reTotalTax
-
-    // Total projected value after lock-in
-    const totalProjectedValue = personalUseAmount + bondNetValue + reNetValue + unallocated
-
-    return {
-      netProceeds,
-      maxBondAmount,
-      personalUseAmount,
-      bondsAmount,
-      realEstateAmount,
-      unallocated,
-      remainingAfterPersonalAndBonds,
-      bonds: {
-        interestRate: bondInterestRate,
-        lockInYears: bondLockIn,
-        totalInterest: bondInterest,
-        maturityValue: bondMaturityValue,
-        taxOnInterest: bondTaxOnInterest,
-        netValue: bondNetValue,
-      },
-      realEstate: {
-        lockInYears,
-        appreciationRate: reAppreciationRate,
-        projectedValue: reProjectedValue,
-        capitalAppreciation: reCapitalAppreciation,
-        rentMonths: reRentMonths,
-        totalRental: reTotalRental,
-        totalReturns: reTotalReturns,
-        taxOnRent: reTaxOnRent,
-        taxOnAppreciation: reTaxOnAppreciation,
-        totalTax: reTotalTax,
-        netValue: reNetValue,
-      },
-      totalProjectedValue,
-    }
-  }, [activeRegimeValues.netProceeds, reinvestmentAllocation, section54Projection.taxSlab, salaryDataForCalc])
+  const allocationCalculations = useMemo(
+    () => calculateReinvestmentProjection(
+      activeRegimeValues.netProceeds,
+      reinvestmentAllocation,
+      section54Projection.taxSlab,
+      fy,
+      salaryDataForCalc
+    ),
+    [activeRegimeValues.netProceeds, reinvestmentAllocation, section54Projection.taxSlab, fy, salaryDataForCalc]
+  )
 
   // Update allocation amounts when net proceeds change
   useEffect(() => {
@@ -1382,7 +527,18 @@ const RealEstateCalculator = forwardRef<RealEstateCalculatorRef>(function RealEs
       <div className="bg-gradient-to-r from-purple-50 to-blue-50 border border-purple-200 rounded-xl p-3">
         <div className="flex flex-col gap-3">
           <div>
-            <div className="text-xs font-semibold text-purple-700">Your Income Tax Slab</div>
+            <div className="flex items-center justify-between">
+              <div className="text-xs font-semibold text-purple-700">Your Income Tax Slab</div>
+              <select
+                value={fy}
+                onChange={(e) => setFy(e.target.value as FinancialYear)}
+                className="text-[10px] px-2 py-1 bg-white border border-purple-200 text-purple-700 rounded focus:outline-none focus:ring-1 focus:ring-purple-400"
+              >
+                {FINANCIAL_YEARS.map((year) => (
+                  <option key={year} value={year}>FY {year}</option>
+                ))}
+              </select>
+            </div>
             <div className="text-[10px] text-purple-500">For calculating tax on rental income & FD interest from reinvestments</div>
           </div>
 
@@ -1470,7 +626,7 @@ const RealEstateCalculator = forwardRef<RealEstateCalculatorRef>(function RealEs
           <div>
             <div className="text-[10px] text-slate-500 mb-1.5">Or select manually (single rate, no split):</div>
             <div className="flex flex-wrap gap-1">
-              {TAX_SLABS.map((slab) => (
+              {getTaxSlabOptions(fy).map((slab) => (
                 <button
                   key={slab.value}
                   onClick={() => handleSlabSelect(slab.value)}
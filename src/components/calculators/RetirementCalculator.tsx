@@ -0,0 +1,665 @@
+'use client'
+
+import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
+import { useNumberFormat } from '@/contexts/NumberFormatContext'
+import { useCloudSync } from '@/hooks/useCloudSync'
+import { calculateRetirement, simulateRetirementDrawdown, RETIREMENT_SAVINGS_SOURCES } from '@/lib/calculations'
+import { RetirementParams, RetirementSaving, RetirementSavingsSource } from '@/types'
+
+type DrawdownView = 'planned' | 'existing'
+
+const DEFAULT_PARAMS: RetirementParams = {
+  currentAge: 30,
+  retirementAge: 60,
+  lifeExpectancy: 85,
+  monthlyExpenses: 50000,
+  inflation: 6,
+  preRetirementReturn: 12,
+  postRetirementReturn: 8,
+  savings: {
+    epf: { balance: 0, rate: 8.25 },
+    ppf: { balance: 0, rate: 7.1 },
+    nps: { balance: 0, rate: 10 },
+    other: { balance: 0, rate: 10 },
+  },
+}
+
+const SOURCE_NAMES: Record<RetirementSavingsSource, string> = {
+  epf: 'EPF',
+  ppf: 'PPF',
+  nps: 'NPS',
+  other: 'Other investments',
+}
+
+function formatIndianNumber(num: number): string {
+  const str = Math.round(num).toString()
+  let result = ''
+  let count = 0
+
+  for (let i = str.length - 1; i >= 0; i--) {
+    if (count === 3 || (count > 3 && (count - 3) % 2 === 0)) {
+      result = ',' + result
+    }
+    result = str[i] + result
+    count++
+  }
+
+  return result
+}
+
+// Static format for PDF/HTML exports (always Indian format)
+function formatCompactStatic(num: number): string {
+  if (num >= 10000000) return `₹${(num / 10000000).toFixed(2)}Cr`
+  if (num >= 100000) return `₹${(num / 100000).toFixed(2)}L`
+  if (num >= 1000) return `₹${(num / 1000).toFixed(1)}K`
+  return `₹${Math.round(num)}`
+}
+
+export interface RetirementCalculatorRef {
+  exportToPDF: () => void
+  exportToHTML: () => void
+  exportToExcel: () => void
+  handleClear: () => void
+}
+
+const RetirementCalculator = forwardRef<RetirementCalculatorRef>(function RetirementCalculator(props, ref) {
+  const { formatCurrencyCompact } = useNumberFormat()
+  const { syncCalculator } = useCloudSync()
+  const [params, setParams] = useState<RetirementParams>(DEFAULT_PARAMS)
+  const [drawdownView, setDrawdownView] = useState<DrawdownView>('planned')
+  const [lastSaved, setLastSaved] = useState<string | null>(null)
+  const [isLoaded, setIsLoaded] = useState(false)
+  const [notes, setNotes] = useState('')
+  const [showNotes, setShowNotes] = useState(false)
+  const calculatorRef = useRef<HTMLDivElement>(null)
+
+  // Load from localStorage
+  useEffect(() => {
+    const saved = localStorage.getItem('calc_retirement')
+    if (saved) {
+      const data = JSON.parse(saved)
+      setParams({
+        ...DEFAULT_PARAMS,
+        ...data.params,
+        savings: { ...DEFAULT_PARAMS.savings, ...data.params?.savings },
+      })
+      setDrawdownView(data.drawdownView === 'existing' ? 'existing' : 'planned')
+      setNotes(data.notes || '')
+    }
+    setIsLoaded(true)
+  }, [])
+
+  // Auto-save to localStorage
+  useEffect(() => {
+    if (!isLoaded) return
+    const data = { params, drawdownView, notes }
+    localStorage.setItem('calc_retirement', JSON.stringify(data))
+    syncCalculator('retirement', data) // Sync to cloud (debounced, only if logged in)
+    setLastSaved(new Date().toLocaleTimeString())
+  }, [params, drawdownView, notes, isLoaded, syncCalculator])
+
+  const handleClear = () => {
+    setParams(DEFAULT_PARAMS)
+    setDrawdownView('planned')
+    setNotes('')
+    localStorage.removeItem('calc_retirement')
+  }
+
+  // Keep current age < retirement age < life expectancy as the ages move
+  const setAge = (key: 'currentAge' | 'retirementAge' | 'lifeExpectancy', value: number) =>
+    setParams((prev) => {
+      const next = { ...prev, [key]: value }
+      if (key === 'currentAge') next.retirementAge = Math.max(next.retirementAge, value + 1)
+      if (key === 'retirementAge') next.currentAge = Math.min(next.currentAge, value - 1)
+      next.lifeExpectancy = Math.max(next.lifeExpectancy, next.retirementAge + 1)
+      if (key === 'lifeExpectancy') next.retirementAge = Math.min(next.retirementAge, value - 1)
+      return next
+    })
+
+  const setRate = (key: 'inflation' | 'preRetirementReturn' | 'postRetirementReturn', value: number) =>
+    setParams((prev) => ({ ...prev, [key]: Math.min(20, Math.max(0, value)) }))
+
+  const setSaving = (source: RetirementSavingsSource, update: Partial<RetirementSaving>) =>
+    setParams((prev) => ({
+      ...prev,
+      savings: { ...prev.savings, [source]: { ...prev.savings[source], ...update } },
+    }))
+
+  const result = useMemo(() => calculateRetirement(params), [params])
+
+  // Same drawdown, funded only by what existing savings grow to
+  const existingDrawdown = useMemo(
+    () =>
+      simulateRetirementDrawdown(
+        result.existingCorpus,
+        result.monthlyExpenseAtRetirement * 12,
+        params.inflation,
+        params.postRetirementReturn,
+        params.retirementAge,
+        params.lifeExpectancy
+      ),
+    [result, params.inflation, params.postRetirementReturn, params.retirementAge, params.lifeExpectancy]
+  )
+
+  const drawdown = drawdownView === 'planned' ? result.drawdown : existingDrawdown
+  const runsOutAt = existingDrawdown.find((year) => year.closingBalance === 0)?.age ?? null
+  const coveredPercent = result.requiredCorpus > 0
+    ? Math.min(100, Math.round((result.existingCorpus / result.requiredCorpus) * 100))
+    : 100
+
+  // Export functions
+  const exportToExcel = () => {
+    const headers = ['Age', 'Opening Balance (₹)', 'Withdrawal (₹)', 'Returns (₹)', 'Closing Balance (₹)']
+    const rows = result.drawdown.map((year) => [year.age, year.openingBalance, year.withdrawal, year.returns, year.closingBalance])
+
+    const csvContent = [
+      `Retirement Planner - Corpus & Drawdown`,
+      `Generated: ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}`,
+      ``,
+      `Current Age: ${params.currentAge}`,
+      `Retirement Age: ${params.retirementAge}`,
+      `Life Expectancy: ${params.lifeExpectancy}`,
+      `Monthly Expenses (today): ₹${formatIndianNumber(params.monthlyExpenses)}`,
+      `Inflation: ${params.inflation}%`,
+      `Return before Retirement: ${params.preRetirementReturn}%`,
+      `Return after Retirement: ${params.postRetirementReturn}%`,
+      ``,
+      `EXISTING SAVINGS`,
+      ...RETIREMENT_SAVINGS_SOURCES.map(
+        (source) =>
+          `${SOURCE_NAMES[source]}: ₹${formatIndianNumber(params.savings[source].balance)} @ ${params.savings[source].rate}% -> ₹${formatIndianNumber(result.savingsAtRetirement[source])} at ${params.retirementAge}`
+      ),
+      ``,
+      `RESULTS`,
+      `Monthly Expenses at Retirement: ₹${formatIndianNumber(result.monthlyExpenseAtRetirement)}`,
+      `Corpus Required: ₹${formatIndianNumber(result.requiredCorpus)}`,
+      `Existing Savings at Retirement: ₹${formatIndianNumber(result.existingCorpus)}`,
+      `Corpus Gap: ₹${formatIndianNumber(result.corpusGap)}`,
+      `Monthly SIP Required: ₹${formatIndianNumber(result.requiredSIP)}`,
+      ...(runsOutAt !== null ? [`Existing Savings Alone Last Until: Age ${runsOutAt}`] : []),
+      ``,
+      `DRAWDOWN (WITH REQUIRED SIP)`,
+      headers.join(','),
+      ...rows.map((row) => row.join(',')),
+      ...(notes && notes.trim() ? [``, `NOTES`, notes] : []),
+    ].join('\n')
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = `Retirement_Plan_Age_${params.retirementAge}.csv`
+    link.click()
+  }
+
+  const generateReportHTML = (forPrint: boolean) => `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <title>Retirement Plan Report</title>
+        <style>
+          body { font-family: Arial, sans-serif; padding: 20px; color: #333; max-width: 900px; margin: 0 auto; }
+          h1 { color: #d97706; font-size: 24px; margin-bottom: 5px; }
+          h2 { font-size: 16px; margin-top: 25px; margin-bottom: 15px; color: #475569; border-bottom: 2px solid #e2e8f0; padding-bottom: 8px; }
+          .subtitle { color: #64748b; margin-bottom: 20px; font-size: 13px; }
+          .summary { background: #f8fafc; padding: 15px; border-radius: 8px; margin: 20px 0; }
+          .summary-grid { display: grid; grid-template-columns: repeat(4, 1fr); gap: 15px; }
+          .summary-item { text-align: center; }
+          .summary-label { font-size: 10px; color: #64748b; text-transform: uppercase; letter-spacing: 0.5px; }
+          .summary-value { font-size: 18px; font-weight: bold; color: #0f172a; margin-top: 4px; }
+          .maturity-highlight { background: linear-gradient(135deg, #fef3c7 0%, #fde68a 100%); padding: 20px; border-radius: 12px; text-align: center; margin: 20px 0; }
+          .maturity-label { font-size: 11px; color: #d97706; text-transform: uppercase; letter-spacing: 1px; }
+          .maturity-value { font-size: 32px; font-weight: bold; color: #0f172a; }
+          table { width: 100%; border-collapse: collapse; margin-top: 15px; font-size: 10px; }
+          th { background: #f1f5f9; padding: 8px; text-align: right; font-weight: 600; color: #475569; }
+          th:first-child { text-align: left; }
+          td { padding: 6px 8px; border-bottom: 1px solid #e2e8f0; text-align: right; }
+          td:first-child { text-align: left; }
+          .total td { font-weight: bold; background: #f8fafc; }
+          .notes-section { background: #fffbeb; border: 1px solid #fcd34d; border-radius: 8px; padding: 15px; margin: 20px 0; }
+          .notes-title { font-size: 12px; font-weight: 600; color: #92400e; margin-bottom: 8px; }
+          .notes-content { font-size: 12px; color: #78350f; line-height: 1.6; white-space: pre-wrap; }
+          .footer { margin-top: 30px; text-align: center; font-size: 11px; color: #94a3b8; border-top: 1px solid #e2e8f0; padding-top: 15px; }
+          ${forPrint ? '@media print { body { padding: 10px; } }' : ''}
+        </style>
+      </head>
+      <body>
+        <h1>Retirement Plan Report</h1>
+        <p class="subtitle">Retire at ${params.retirementAge}, plan until ${params.lifeExpectancy} | Generated on ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}</p>
+
+        <div class="maturity-highlight">
+          <div class="maturity-label">Monthly SIP Required</div>
+          <div class="maturity-value">₹${formatIndianNumber(result.requiredSIP)}</div>
+        </div>
+
+        <div class="summary">
+          <div class="summary-grid">
+            <div class="summary-item">
+              <div class="summary-label">Expenses at ${params.retirementAge}</div>
+              <div class="summary-value">₹${formatIndianNumber(result.monthlyExpenseAtRetirement)}/mo</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Corpus Required</div>
+              <div class="summary-value">${formatCompactStatic(result.requiredCorpus)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Existing Savings</div>
+              <div class="summary-value">${formatCompactStatic(result.existingCorpus)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Gap</div>
+              <div class="summary-value">${formatCompactStatic(result.corpusGap)}</div>
+            </div>
+          </div>
+        </div>
+
+        <h2>Existing Savings at Retirement</h2>
+        <table>
+          <tr><th>Source</th><th>Balance Today</th><th>Growth</th><th>At ${params.retirementAge}</th></tr>
+          ${RETIREMENT_SAVINGS_SOURCES.map((source) => `
+            <tr>
+              <td>${SOURCE_NAMES[source]}</td>
+              <td>₹${formatIndianNumber(params.savings[source].balance)}</td>
+              <td>${params.savings[source].rate}%</td>
+              <td>₹${formatIndianNumber(result.savingsAtRetirement[source])}</td>
+            </tr>
+          `).join('')}
+          <tr class="total"><td>Total</td><td></td><td></td><td>₹${formatIndianNumber(result.existingCorpus)}</td></tr>
+        </table>
+
+        <h2>Drawdown with the Required SIP</h2>
+        <table>
+          <tr><th>Age</th><th>Opening</th><th>Withdrawal</th><th>Returns</th><th>Closing</th></tr>
+          ${result.drawdown.map((year) => `
+            <tr>
+              <td>${year.age}</td>
+              <td>₹${formatIndianNumber(year.openingBalance)}</td>
+              <td>₹${formatIndianNumber(year.withdrawal)}</td>
+              <td>₹${formatIndianNumber(year.returns)}</td>
+              <td>₹${formatIndianNumber(year.closingBalance)}</td>
+            </tr>
+          `).join('')}
+        </table>
+
+        ${notes && notes.trim() ? `
+        <div class="notes-section">
+          <div class="notes-title">Notes</div>
+          <div class="notes-content">${notes.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</div>
+        </div>
+        ` : ''}
+
+        <div class="footer">
+          Generated by AnyCalc — Calculate everything. Plan anything.
+        </div>
+      </body>
+      </html>
+    `
+
+  const exportToPDF = () => {
+    const printWindow = window.open('', '_blank')
+    if (printWindow) {
+      printWindow.document.write(generateReportHTML(true))
+      printWindow.document.close()
+      printWindow.print()
+    }
+  }
+
+  const exportToHTML = () => {
+    const blob = new Blob([generateReportHTML(false)], { type: 'text/html;charset=utf-8;' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = `Retirement_Plan_Age_${params.retirementAge}.html`
+    link.click()
+  }
+
+  useImperativeHandle(ref, () => ({
+    exportToPDF,
+    exportToHTML,
+    exportToExcel,
+    handleClear,
+  }))
+
+  return (
+    <div className="space-y-4" ref={calculatorRef}>
+      {/* Main Calculator Card */}
+      <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+        <div className="grid md:grid-cols-2">
+          {/* Inputs */}
+          <div className="p-5 space-y-5 border-r border-slate-100">
+            {/* Ages */}
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Current Age</label>
+                <input
+                  type="number"
+                  min={18}
+                  max={79}
+                  value={params.currentAge}
+                  onChange={(e) => setAge('currentAge', Math.min(79, Math.max(18, Number(e.target.value))))}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent font-mono"
+                />
+              </div>
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Retire At</label>
+                <input
+                  type="number"
+                  min={19}
+                  max={80}
+                  value={params.retirementAge}
+                  onChange={(e) => setAge('retirementAge', Math.min(80, Math.max(19, Number(e.target.value))))}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent font-mono"
+                />
+              </div>
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Plan Until Age</label>
+                <input
+                  type="number"
+                  min={20}
+                  max={100}
+                  value={params.lifeExpectancy}
+                  onChange={(e) => setAge('lifeExpectancy', Math.min(100, Math.max(20, Number(e.target.value))))}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent font-mono"
+                />
+              </div>
+            </div>
+
+            {/* Monthly Expenses */}
+            <div>
+              <div className="flex justify-between items-baseline mb-2">
+                <label className="text-sm font-medium text-slate-600">Monthly Expenses (today)</label>
+                <span className="font-mono text-base font-semibold text-slate-900">
+                  ₹{formatIndianNumber(params.monthlyExpenses)}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={10000}
+                max={500000}
+                step={5000}
+                value={params.monthlyExpenses}
+                onChange={(e) => setParams((prev) => ({ ...prev, monthlyExpenses: Number(e.target.value) }))}
+                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-amber-600"
+              />
+              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                <span>₹10K</span>
+                <span>₹5L</span>
+              </div>
+            </div>
+
+            {/* Rates */}
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Inflation (%)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={20}
+                  step={0.5}
+                  value={params.inflation}
+                  onChange={(e) => setRate('inflation', Number(e.target.value))}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent font-mono"
+                />
+              </div>
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Return Before (%)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={20}
+                  step={0.5}
+                  value={params.preRetirementReturn}
+                  onChange={(e) => setRate('preRetirementReturn', Number(e.target.value))}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent font-mono"
+                />
+              </div>
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Return After (%)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={20}
+                  step={0.5}
+                  value={params.postRetirementReturn}
+                  onChange={(e) => setRate('postRetirementReturn', Number(e.target.value))}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent font-mono"
+                />
+              </div>
+            </div>
+
+            {/* Existing Savings */}
+            <div>
+              <label className="text-sm font-medium text-slate-600 mb-2 block">Existing Retirement Savings</label>
+              <div className="space-y-2">
+                <div className="grid grid-cols-[1fr_1.5fr_1fr] gap-2 text-[10px] font-medium text-slate-500">
+                  <span>Source</span>
+                  <span>Balance (₹)</span>
+                  <span>Growth (%)</span>
+                </div>
+                {RETIREMENT_SAVINGS_SOURCES.map((source) => (
+                  <div key={source} className="grid grid-cols-[1fr_1.5fr_1fr] gap-2 items-center">
+                    <span className="text-xs text-slate-600">{SOURCE_NAMES[source]}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={10000}
+                      value={params.savings[source].balance || ''}
+                      placeholder="0"
+                      onChange={(e) => setSaving(source, { balance: Math.max(0, Number(e.target.value)) })}
+                      className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent font-mono"
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      max={20}
+                      step={0.25}
+                      value={params.savings[source].rate}
+                      onChange={(e) => setSaving(source, { rate: Math.min(20, Math.max(0, Number(e.target.value))) })}
+                      className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent font-mono"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Results */}
+          <div className="p-5 bg-slate-50">
+            {/* Primary Result */}
+            <div className="bg-amber-50 rounded-lg p-4 text-center mb-4">
+              <div className="text-[10px] font-semibold uppercase tracking-wider text-amber-600 mb-1">
+                Monthly SIP Required
+              </div>
+              <div className="font-mono text-3xl font-bold text-slate-900">
+                ₹{formatIndianNumber(result.requiredSIP)}
+              </div>
+              <div className="text-xs text-amber-600 mt-1">
+                {result.corpusGap > 0
+                  ? `for ${result.yearsToRetirement} years at ${params.preRetirementReturn}%`
+                  : 'Existing savings already cover your retirement'}
+              </div>
+            </div>
+
+            {/* Secondary Results */}
+            <div className="grid grid-cols-3 gap-2 mb-4">
+              <div className="bg-white rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                  Corpus Needed
+                </div>
+                <div className="font-mono text-sm font-semibold text-slate-900">
+                  {formatCurrencyCompact(result.requiredCorpus)}
+                </div>
+              </div>
+              <div className="bg-white rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                  Savings Cover
+                </div>
+                <div className="font-mono text-sm font-semibold text-green-600">
+                  {formatCurrencyCompact(result.existingCorpus)}
+                </div>
+              </div>
+              <div className="bg-white rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                  Gap
+                </div>
+                <div className="font-mono text-sm font-semibold text-amber-600">
+                  {formatCurrencyCompact(result.corpusGap)}
+                </div>
+              </div>
+            </div>
+
+            {/* Corpus coverage */}
+            <div className="bg-white rounded-lg p-4 mb-4">
+              <div className="flex justify-between text-xs mb-2">
+                <span className="font-semibold text-slate-700">Corpus covered by existing savings</span>
+                <span className="font-mono text-slate-600">{coveredPercent}%</span>
+              </div>
+              <div className="h-2 bg-amber-100 rounded-full overflow-hidden mb-3">
+                <div className="h-full bg-green-500" style={{ width: `${coveredPercent}%` }} />
+              </div>
+              <div className="space-y-1.5 text-xs">
+                {RETIREMENT_SAVINGS_SOURCES.filter((source) => result.savingsAtRetirement[source] > 0).map((source) => (
+                  <div key={source} className="flex justify-between text-slate-600">
+                    <span>{SOURCE_NAMES[source]} at {params.retirementAge}</span>
+                    <span className="font-mono">{formatCurrencyCompact(result.savingsAtRetirement[source])}</span>
+                  </div>
+                ))}
+                {runsOutAt !== null && (
+                  <div className="pt-1 border-t border-slate-100 text-[11px] text-amber-600">
+                    Without the SIP, existing savings run out at age {runsOutAt}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Expenses */}
+            <div className="bg-white rounded-lg p-4 text-xs space-y-1.5">
+              <div className="flex justify-between text-slate-600">
+                <span>Monthly expenses today</span>
+                <span className="font-mono">₹{formatIndianNumber(params.monthlyExpenses)}</span>
+              </div>
+              <div className="flex justify-between text-slate-600">
+                <span>At {params.retirementAge}, after {params.inflation}% inflation</span>
+                <span className="font-mono font-semibold text-slate-900">₹{formatIndianNumber(result.monthlyExpenseAtRetirement)}</span>
+              </div>
+              <div className="flex justify-between text-slate-600">
+                <span>Years in retirement</span>
+                <span className="font-mono">{result.yearsInRetirement}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Auto-save indicator with subtle notes */}
+        <div className="px-5 py-2 bg-slate-50 border-t border-slate-100">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-[10px] text-slate-400">
+              <span className="w-1.5 h-1.5 bg-green-500 rounded-full" />
+              Auto-saved {lastSaved || 'just now'}
+            </div>
+            <button
+              onClick={() => setShowNotes(!showNotes)}
+              className={`flex items-center gap-1.5 px-2 py-1 rounded text-[10px] transition-colors ${
+                notes
+                  ? 'text-amber-600 bg-amber-50 hover:bg-amber-100'
+                  : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'
+              }`}
+              title={notes ? 'View note' : 'Add note'}
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+              </svg>
+              {notes ? 'Note' : 'Add note'}
+            </button>
+          </div>
+          {showNotes && (
+            <div className="mt-2 pt-2 border-t border-slate-200">
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Add a quick note..."
+                className="w-full h-16 p-2 text-xs text-slate-600 bg-white border border-slate-200 rounded resize-none focus:outline-none focus:ring-1 focus:ring-amber-400 focus:border-amber-400"
+                autoFocus
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Drawdown Simulation */}
+      <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-slate-700">Drawdown Simulation</h3>
+          <div className="flex gap-1">
+            {([
+              ['planned', 'With SIP'],
+              ['existing', 'Existing savings only'],
+            ] as const).map(([view, label]) => (
+              <button
+                key={view}
+                onClick={() => setDrawdownView(view)}
+                className={`px-2 py-1 text-[10px] font-medium rounded transition-colors ${
+                  drawdownView === view
+                    ? 'bg-amber-100 text-amber-700'
+                    : 'text-slate-500 hover:bg-slate-100'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-wide text-slate-500 border-b border-slate-200 bg-slate-50">
+                <th className="text-left px-4 py-2 font-medium">Age</th>
+                <th className="text-right px-2 py-2 font-medium">Opening</th>
+                <th className="text-right px-2 py-2 font-medium">Withdrawal</th>
+                <th className="text-right px-2 py-2 font-medium">Returns</th>
+                <th className="text-right px-4 py-2 font-medium">Closing</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {drawdown.map((year) => (
+                <tr
+                  key={year.age}
+                  className={`border-b border-slate-100 ${year.openingBalance === 0 ? 'text-red-400' : 'text-slate-700'}`}
+                >
+                  <td className="px-4 py-1.5 font-sans text-slate-500">{year.age}</td>
+                  <td className="px-2 py-1.5 text-right">{formatCurrencyCompact(year.openingBalance)}</td>
+                  <td className="px-2 py-1.5 text-right text-amber-600">{formatCurrencyCompact(year.withdrawal)}</td>
+                  <td className="px-2 py-1.5 text-right text-green-600">{formatCurrencyCompact(year.returns)}</td>
+                  <td className="px-4 py-1.5 text-right font-semibold">{formatCurrencyCompact(year.closingBalance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* About Section */}
+      <details className="bg-white border border-slate-200 rounded-xl">
+        <summary className="px-4 py-3 text-sm font-medium text-slate-700 cursor-pointer hover:bg-slate-50">
+          About Retirement Planner
+        </summary>
+        <div className="px-4 pb-4 text-sm text-slate-600 space-y-3">
+          <p>
+            The planner inflates today&apos;s monthly expenses to your retirement age and sizes the corpus that can
+            pay them, rising with inflation every year, until the age you plan for.
+          </p>
+          <ul className="list-disc list-inside space-y-1 text-slate-500">
+            <li><strong>Corpus:</strong> withdrawals come out at the start of each year; the rest earns the post-retirement return</li>
+            <li><strong>Existing savings:</strong> EPF, PPF, NPS and other balances grow at their own rates until retirement</li>
+            <li><strong>SIP:</strong> the monthly investment that grows to the remaining gap, using the same formula as the SIP calculator</li>
+            <li><strong>Drawdown:</strong> switch to &quot;Existing savings only&quot; to see how long your savings last without the SIP</li>
+          </ul>
+          <p className="text-slate-500">
+            NPS requires at least 40% of the corpus to buy an annuity, and pensions and annuities are taxed as income.
+            Treat the result as a planning estimate, not a guarantee.
+          </p>
+        </div>
+      </details>
+    </div>
+  )
+})
+
+export default RetirementCalculator
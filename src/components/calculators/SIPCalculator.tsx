@@ -1,30 +1,33 @@
 'use client'
 
 import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
 import { useNumberFormat } from '@/contexts/NumberFormatContext'
-
-interface SIPResult {
-  monthlyInvestment: number
-  totalInvestment: number
-  expectedReturns: number
-  maturityValue: number
-  returnsPercent: number
-}
-
-interface YearlyBreakdown {
-  year: number
-  invested: number
-  returns: number
-  value: number
+import {
+  calculateSIPSummary,
+  generateSIPBreakdown,
+  calculateRequiredSIP,
+  calculateStepUpSIP,
+  simulateMonteCarlo,
+  MONTE_CARLO_DEFAULT_SEED,
+  backtestSIP,
+  getMonthlyLevels,
+  INDEX_SERIES,
+  INDEX_SERIES_IDS,
+} from '@/lib/calculations'
+import { MonteCarloPanel, DEFAULT_MONTE_CARLO_SETTINGS } from '@/components/calculator'
+import { IndexSeriesId, MonteCarloSettings, SIPYearlyBreakdown } from '@/types'
+
+interface BacktestSettings {
+  enabled: boolean
+  seriesId: IndexSeriesId
+  startMonth: string
 }
 
-interface StepUpResult {
-  totalInvestment: number
-  maturityValue: number
-  expectedReturns: number
-  returnsPercent: number
-  extraReturns: number
-  yearlyBreakdown: YearlyBreakdown[]
+const DEFAULT_BACKTEST: BacktestSettings = {
+  enabled: false,
+  seriesId: 'nifty50',
+  startMonth: '2010-01',
 }
 
 function formatIndianNumber(num: number): string {
@@ -51,72 +54,6 @@ function formatCompactStatic(num: number): string {
   return `₹${num}`
 }
 
-// SIP Formula: M = P × ({[1 + i]^n – 1} / i) × (1 + i)
-function calculateSIP(monthlyInvestment: number, annualRate: number, years: number): SIPResult {
-  const monthlyRate = annualRate / 12 / 100
-  const months = years * 12
-  const totalInvestment = monthlyInvestment * months
-
-  if (monthlyRate === 0) {
-    return {
-      monthlyInvestment,
-      totalInvestment,
-      expectedReturns: 0,
-      maturityValue: totalInvestment,
-      returnsPercent: 0,
-    }
-  }
-
-  const maturityValue =
-    monthlyInvestment *
-    ((Math.pow(1 + monthlyRate, months) - 1) / monthlyRate) *
-    (1 + monthlyRate)
-
-  const expectedReturns = maturityValue - totalInvestment
-  const returnsPercent = totalInvestment > 0 ? (expectedReturns / totalInvestment) * 100 : 0
-
-  return {
-    monthlyInvestment,
-    totalInvestment: Math.round(totalInvestment),
-    expectedReturns: Math.round(expectedReturns),
-    maturityValue: Math.round(maturityValue),
-    returnsPercent: Math.round(returnsPercent),
-  }
-}
-
-function generateYearlyBreakdown(
-  monthlyInvestment: number,
-  annualRate: number,
-  years: number
-): YearlyBreakdown[] {
-  const monthlyRate = annualRate / 12 / 100
-  const breakdown: YearlyBreakdown[] = []
-
-  for (let year = 1; year <= years; year++) {
-    const months = year * 12
-    const invested = monthlyInvestment * months
-
-    let value = 0
-    if (monthlyRate === 0) {
-      value = invested
-    } else {
-      value =
-        monthlyInvestment *
-        ((Math.pow(1 + monthlyRate, months) - 1) / monthlyRate) *
-        (1 + monthlyRate)
-    }
-
-    breakdown.push({
-      year,
-      invested: Math.round(invested),
-      returns: Math.round(value - invested),
-      value: Math.round(value),
-    })
-  }
-
-  return breakdown
-}
-
 export interface SIPCalculatorRef {
   exportToPDF: () => void
   exportToHTML: () => void
@@ -124,69 +61,6 @@ export interface SIPCalculatorRef {
   handleClear: () => void
 }
 
-// Reverse calculation: Find required SIP for a target corpus
-function calculateRequiredSIP(targetAmount: number, annualRate: number, years: number): number {
-  const monthlyRate = annualRate / 12 / 100
-  const months = years * 12
-
-  if (monthlyRate === 0) {
-    return Math.round(targetAmount / months)
-  }
-
-  // P = M / (((1 + i)^n - 1) / i) × (1 + i))
-  const requiredSIP = targetAmount / (((Math.pow(1 + monthlyRate, months) - 1) / monthlyRate) * (1 + monthlyRate))
-  return Math.round(requiredSIP)
-}
-
-function calculateStepUpSIP(
-  monthlyInvestment: number,
-  annualRate: number,
-  years: number,
-  stepUpPercent: number,
-  baseResult: SIPResult
-): StepUpResult {
-  const monthlyRate = annualRate / 12 / 100
-  const yearlyBreakdown: YearlyBreakdown[] = []
-
-  let totalInvestment = 0
-  let currentValue = 0
-  let currentMonthlyInvestment = monthlyInvestment
-
-  for (let year = 1; year <= years; year++) {
-    // Invest for 12 months at current rate
-    for (let month = 1; month <= 12; month++) {
-      totalInvestment += currentMonthlyInvestment
-      // Grow existing value
-      currentValue = (currentValue + currentMonthlyInvestment) * (1 + monthlyRate)
-    }
-
-    yearlyBreakdown.push({
-      year,
-      invested: Math.round(totalInvestment),
-      returns: Math.round(currentValue - totalInvestment),
-      value: Math.round(currentValue),
-    })
-
-    // Step up for next year
-    if (year < years) {
-      currentMonthlyInvestment = currentMonthlyInvestment * (1 + stepUpPercent / 100)
-    }
-  }
-
-  const expectedReturns = currentValue - totalInvestment
-  const returnsPercent = totalInvestment > 0 ? (expectedReturns / totalInvestment) * 100 : 0
-  const extraReturns = currentValue - baseResult.maturityValue
-
-  return {
-    totalInvestment: Math.round(totalInvestment),
-    maturityValue: Math.round(currentValue),
-    expectedReturns: Math.round(expectedReturns),
-    returnsPercent: Math.round(returnsPercent),
-    extraReturns: Math.round(extraReturns),
-    yearlyBreakdown,
-  }
-}
-
 const SIPCalculator = forwardRef<SIPCalculatorRef>(function SIPCalculator(props, ref) {
   const { formatCurrencyCompact } = useNumberFormat()
   const [mode, setMode] = useState<'calculate' | 'goal'>('calculate')
@@ -197,6 +71,8 @@ const SIPCalculator = forwardRef<SIPCalculatorRef>(function SIPCalculator(props,
   const [lastSaved, setLastSaved] = useState<string | null>(null)
   const [showStepUp, setShowStepUp] = useState(false)
   const [stepUpPercent, setStepUpPercent] = useState(10)
+  const [monteCarlo, setMonteCarlo] = useState<MonteCarloSettings>(DEFAULT_MONTE_CARLO_SETTINGS)
+  const [backtest, setBacktest] = useState<BacktestSettings>(DEFAULT_BACKTEST)
   const [isLoaded, setIsLoaded] = useState(false)
   const [notes, setNotes] = useState('')
   const [showNotes, setShowNotes] = useState(false)
@@ -213,6 +89,8 @@ const SIPCalculator = forwardRef<SIPCalculatorRef>(function SIPCalculator(props,
       setExpectedReturn(data.expectedReturn || 12)
       setInvestmentPeriod(data.investmentPeriod || 10)
       setStepUpPercent(data.stepUpPercent || 10)
+      setMonteCarlo({ ...DEFAULT_MONTE_CARLO_SETTINGS, ...data.monteCarlo })
+      setBacktest({ ...DEFAULT_BACKTEST, ...data.backtest })
       setNotes(data.notes || '')
     }
     setIsLoaded(true)
@@ -221,10 +99,10 @@ const SIPCalculator = forwardRef<SIPCalculatorRef>(function SIPCalculator(props,
   // Auto-save to localStorage (only after initial load)
   useEffect(() => {
     if (!isLoaded) return
-    const data = { mode, monthlyInvestment, targetAmount, expectedReturn, investmentPeriod, stepUpPercent, notes }
+    const data = { mode, monthlyInvestment, targetAmount, expectedReturn, investmentPeriod, stepUpPercent, monteCarlo, backtest, notes }
     localStorage.setItem('calc_sip', JSON.stringify(data))
     setLastSaved(new Date().toLocaleTimeString())
-  }, [mode, monthlyInvestment, targetAmount, expectedReturn, investmentPeriod, stepUpPercent, notes, isLoaded])
+  }, [mode, monthlyInvestment, targetAmount, expectedReturn, investmentPeriod, stepUpPercent, monteCarlo, backtest, notes, isLoaded])
 
   const handleClear = () => {
     setMode('calculate')
@@ -233,6 +111,8 @@ const SIPCalculator = forwardRef<SIPCalculatorRef>(function SIPCalculator(props,
     setExpectedReturn(12)
     setInvestmentPeriod(10)
     setStepUpPercent(10)
+    setMonteCarlo(DEFAULT_MONTE_CARLO_SETTINGS)
+    setBacktest(DEFAULT_BACKTEST)
     setNotes('')
     localStorage.removeItem('calc_sip')
   }
@@ -255,12 +135,12 @@ const SIPCalculator = forwardRef<SIPCalculatorRef>(function SIPCalculator(props,
   const effectiveMonthlyInvestment = mode === 'goal' ? requiredSIP : monthlyInvestment
 
   const result = useMemo(
-    () => calculateSIP(effectiveMonthlyInvestment, expectedReturn, investmentPeriod),
+    () => calculateSIPSummary(effectiveMonthlyInvestment, expectedReturn, investmentPeriod),
     [effectiveMonthlyInvestment, expectedReturn, investmentPeriod]
   )
 
   const yearlyBreakdown = useMemo(
-    () => generateYearlyBreakdown(effectiveMonthlyInvestment, expectedReturn, investmentPeriod),
+    () => generateSIPBreakdown(effectiveMonthlyInvestment, expectedReturn, investmentPeriod),
     [effectiveMonthlyInvestment, expectedReturn, investmentPeriod]
   )
 
@@ -269,6 +149,48 @@ const SIPCalculator = forwardRef<SIPCalculatorRef>(function SIPCalculator(props,
     return calculateStepUpSIP(monthlyInvestment, expectedReturn, investmentPeriod, stepUpPercent, result)
   }, [monthlyInvestment, expectedReturn, investmentPeriod, stepUpPercent, result])
 
+  // Spread of outcomes around the fixed-rate result; the target is the goal in goal mode
+  const monteCarloTarget = mode === 'goal' ? targetAmount : result.maturityValue
+  const monteCarloResult = useMemo(() => {
+    if (!monteCarlo.enabled) return null
+    return simulateMonteCarlo({
+      initialAmount: 0,
+      monthlyInvestment: effectiveMonthlyInvestment,
+      years: investmentPeriod,
+      meanReturn: expectedReturn,
+      volatility: monteCarlo.volatility,
+      paths: monteCarlo.paths,
+      seed: MONTE_CARLO_DEFAULT_SEED,
+      targetAmount: monteCarloTarget,
+    })
+  }, [monteCarlo, effectiveMonthlyInvestment, investmentPeriod, expectedReturn, monteCarloTarget])
+
+  // Backtest on bundled index history; instalments can start up to a month before the latest level
+  const backtestSeries = INDEX_SERIES[backtest.seriesId]
+  const backtestLevels = useMemo(() => getMonthlyLevels(backtestSeries), [backtestSeries])
+  const backtestFirstMonth = backtestLevels[0].month
+  const backtestLastStart = backtestLevels[backtestLevels.length - 2].month
+  const backtestResult = useMemo(() => {
+    if (!backtest.enabled) return null
+    return backtestSIP({
+      seriesId: backtest.seriesId,
+      monthlyInvestment: effectiveMonthlyInvestment,
+      startMonth: backtest.startMonth,
+      projectedRate: expectedReturn,
+    })
+  }, [backtest, effectiveMonthlyInvestment, expectedReturn])
+
+  const setBacktestSeries = (seriesId: IndexSeriesId) => {
+    const levels = getMonthlyLevels(INDEX_SERIES[seriesId])
+    const first = levels[0].month
+    const lastStart = levels[levels.length - 2].month
+    setBacktest((prev) => ({
+      ...prev,
+      seriesId,
+      startMonth: prev.startMonth < first ? first : prev.startMonth > lastStart ? lastStart : prev.startMonth,
+    }))
+  }
+
   const investedPercent = useMemo(() => {
     if (result.maturityValue === 0) return 100
     return Math.round((result.totalInvestment / result.maturityValue) * 100)
@@ -277,7 +199,7 @@ const SIPCalculator = forwardRef<SIPCalculatorRef>(function SIPCalculator(props,
   const returnsDisplayPercent = 100 - investedPercent
 
   // Generate yearly chart HTML for exports
-  const generateYearlyChartHTML = (breakdown: YearlyBreakdown[], isStepUp: boolean = false) => {
+  const generateYearlyChartHTML = (breakdown: SIPYearlyBreakdown[], isStepUp: boolean = false) => {
     const maxValue = Math.max(...breakdown.map((y) => y.value))
     return breakdown
       .map((y) => {
@@ -332,6 +254,31 @@ const SIPCalculator = forwardRef<SIPCalculatorRef>(function SIPCalculator(props,
       ])
     }
 
+    if (monteCarloResult) {
+      csvContent = csvContent.concat([
+        `MONTE CARLO (${monteCarlo.paths} paths, ${monteCarlo.volatility}% volatility)`,
+        `Pessimistic (P10): ₹${formatIndianNumber(monteCarloResult.p10)}`,
+        `Median (P50): ₹${formatIndianNumber(monteCarloResult.p50)}`,
+        `Optimistic (P90): ₹${formatIndianNumber(monteCarloResult.p90)}`,
+        `Chance of Reaching ₹${formatIndianNumber(monteCarloTarget)}: ${monteCarloResult.probabilityOfTarget}%`,
+        ``,
+      ])
+    }
+
+    if (backtestResult) {
+      csvContent = csvContent.concat([
+        `HISTORICAL BACKTEST (${backtestSeries.name}, ${backtestResult.startMonth} to ${backtestResult.endMonth})`,
+        `Total Invested: ₹${formatIndianNumber(backtestResult.totalInvested)}`,
+        `Value: ₹${formatIndianNumber(backtestResult.finalValue)}`,
+        `XIRR: ${backtestResult.xirr ?? '-'}%`,
+        `Absolute Return: ${backtestResult.absoluteReturn}%`,
+        `Maximum Drawdown: ${backtestResult.maxDrawdown}% (${backtestResult.drawdownPeak} to ${backtestResult.drawdownTrough})`,
+        `Constant ${expectedReturn}% Projection: ₹${formatIndianNumber(backtestResult.projectedValue)}`,
+        `Data: ${backtestSeries.source}`,
+        ``,
+      ])
+    }
+
     csvContent = csvContent.concat([
       `YEARLY BREAKDOWN`,
       headers.join(','),
@@ -1282,6 +1229,168 @@ const SIPCalculator = forwardRef<SIPCalculatorRef>(function SIPCalculator(props,
         )}
       </details>
 
+      {/* Monte Carlo Simulator */}
+      <MonteCarloPanel
+        settings={monteCarlo}
+        onChange={setMonteCarlo}
+        result={monteCarloResult}
+        meanReturn={expectedReturn}
+        targetAmount={monteCarloTarget}
+        targetLabel={mode === 'goal' ? 'your target' : 'the fixed-rate value'}
+        color="#16a34a"
+      />
+
+      {/* Historical Backtest */}
+      <details open={backtest.enabled} className="bg-white border border-slate-200 rounded-xl">
+        <summary
+          className="px-4 py-3 text-sm font-semibold text-slate-700 cursor-pointer hover:bg-slate-50 flex items-center justify-between"
+          onClick={(e) => {
+            e.preventDefault()
+            setBacktest((prev) => ({ ...prev, enabled: !prev.enabled }))
+          }}
+        >
+          <div className="flex items-center gap-2">
+            <span className="text-lg">📜</span>
+            <span>Historical Backtest</span>
+            <span className="text-[10px] font-normal text-slate-400 bg-slate-100 px-2 py-0.5 rounded">Yearly price-index data</span>
+          </div>
+          <svg
+            className={`w-4 h-4 text-slate-400 transition-transform ${backtest.enabled ? 'rotate-180' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </summary>
+        {backtest.enabled && (
+          <div className="px-4 pb-4 pt-2">
+            <div className="flex flex-wrap items-end gap-3 mb-4">
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Index</label>
+                <div className="flex gap-1.5">
+                  {INDEX_SERIES_IDS.map((id) => (
+                    <button
+                      key={id}
+                      onClick={() => setBacktestSeries(id)}
+                      className={`px-2.5 py-1.5 text-xs font-medium rounded border transition-colors ${
+                        backtest.seriesId === id
+                          ? 'bg-green-50 text-green-700 border-green-300'
+                          : 'bg-white text-slate-600 border-slate-200 hover:border-green-300'
+                      }`}
+                    >
+                      {INDEX_SERIES[id].name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">SIP started</label>
+                <input
+                  type="month"
+                  min={backtestFirstMonth}
+                  max={backtestLastStart}
+                  value={backtest.startMonth}
+                  onChange={(e) => e.target.value && setBacktest((prev) => ({ ...prev, startMonth: e.target.value }))}
+                  className="px-2 py-1.5 text-xs border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent font-mono"
+                />
+              </div>
+            </div>
+
+            {backtestResult ? (
+              <>
+                <p className="text-xs text-slate-500 mb-3">
+                  ₹{formatIndianNumber(effectiveMonthlyInvestment)}/month in {backtestSeries.name} from{' '}
+                  {backtestResult.startMonth}, valued at the {backtestResult.endMonth} level ({backtestResult.months} instalments).
+                </p>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4">
+                  <div className="bg-slate-50 rounded-lg p-3 text-center">
+                    <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Invested</div>
+                    <div className="font-mono text-sm font-semibold text-slate-900">{formatCurrencyCompact(backtestResult.totalInvested)}</div>
+                  </div>
+                  <div className="bg-green-50 rounded-lg p-3 text-center">
+                    <div className="text-[9px] uppercase tracking-wide text-green-600 mb-0.5">Worth Now</div>
+                    <div className="font-mono text-sm font-bold text-slate-900">{formatCurrencyCompact(backtestResult.finalValue)}</div>
+                  </div>
+                  <div className="bg-slate-50 rounded-lg p-3 text-center">
+                    <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">XIRR</div>
+                    <div className="font-mono text-sm font-semibold text-green-600">
+                      {backtestResult.xirr !== null ? `${backtestResult.xirr.toFixed(2)}%` : '–'}
+                    </div>
+                    <div className="text-[9px] text-slate-400">{backtestResult.absoluteReturn}% absolute</div>
+                  </div>
+                  <div className="bg-slate-50 rounded-lg p-3 text-center">
+                    <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">Max Drawdown</div>
+                    <div className="font-mono text-sm font-semibold text-red-500">−{backtestResult.maxDrawdown}%</div>
+                    <div className="text-[9px] text-slate-400">
+                      {backtestResult.maxDrawdown > 0 ? `${backtestResult.drawdownPeak} → ${backtestResult.drawdownTrough}` : 'none'}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="flex justify-between items-center text-xs bg-slate-50 rounded-lg px-3 py-2 mb-4">
+                  <span className="text-slate-600">Constant {expectedReturn}% projection over the same months</span>
+                  <span className="font-mono">
+                    {formatCurrencyCompact(backtestResult.projectedValue)}
+                    <span className={`ml-2 ${backtestResult.finalValue >= backtestResult.projectedValue ? 'text-green-600' : 'text-red-500'}`}>
+                      ({backtestResult.finalValue >= backtestResult.projectedValue ? '+' : '−'}
+                      {formatCurrencyCompact(Math.abs(backtestResult.finalValue - backtestResult.projectedValue))} actual)
+                    </span>
+                  </span>
+                </div>
+
+                <div className="h-52">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={backtestResult.points} margin={{ top: 5, right: 5, bottom: 0, left: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+                      <XAxis dataKey="month" tick={{ fontSize: 10, fill: '#94a3b8' }} axisLine={false} tickLine={false} />
+                      <YAxis
+                        tickFormatter={(value) => formatCurrencyCompact(Number(value))}
+                        tick={{ fontSize: 10, fill: '#94a3b8' }}
+                        axisLine={false}
+                        tickLine={false}
+                        width={64}
+                      />
+                      <Tooltip
+                        formatter={(value, name) => [formatCurrencyCompact(Number(value)), name]}
+                        contentStyle={{ fontSize: 11, borderRadius: 8, border: '1px solid #e2e8f0' }}
+                      />
+                      <Line dataKey="value" name="Actual" stroke="#16a34a" strokeWidth={2} dot={false} isAnimationActive={false} />
+                      <Line
+                        dataKey="projected"
+                        name={`Constant ${expectedReturn}%`}
+                        stroke="#3b82f6"
+                        strokeWidth={1.5}
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                      <Line
+                        dataKey="invested"
+                        name="Invested"
+                        stroke="#94a3b8"
+                        strokeDasharray="4 4"
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </>
+            ) : (
+              <p className="text-xs text-slate-500">
+                Pick a start month between {backtestFirstMonth} and {backtestLastStart}.
+              </p>
+            )}
+
+            <p className="mt-3 text-[10px] text-slate-400">
+              Data: {backtestSeries.source}.
+              {backtestSeries.frequency === 'yearly' &&
+                ' Levels between yearly points are interpolated, so drawdowns within a year are understated.'}
+            </p>
+          </div>
+        )}
+      </details>
+
       {/* Yearly Breakdown Visual Chart */}
       <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
         <div className="px-4 py-3 border-b border-slate-100">
@@ -0,0 +1,575 @@
+'use client'
+
+import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
+import { useNumberFormat } from '@/contexts/NumberFormatContext'
+import { useCloudSync } from '@/hooks/useCloudSync'
+import {
+  calculateSSY,
+  SSY_MIN_DEPOSIT,
+  SSY_MAX_DEPOSIT,
+  SSY_MAX_OPENING_AGE,
+  SSY_DEPOSIT_YEARS,
+  SSY_MATURITY_YEARS,
+  SSY_WITHDRAWAL_AGE,
+  SSY_MAX_WITHDRAWAL_PERCENT,
+} from '@/lib/calculations'
+import { SSYParams } from '@/types'
+
+const DEFAULT_PARAMS: SSYParams = {
+  openingAge: 5,
+  yearlyDeposit: 150000,
+  interestRate: 8.2, // Current SSY rate
+  withdrawalPercent: 0,
+}
+
+function formatIndianNumber(num: number): string {
+  const str = Math.round(num).toString()
+  let result = ''
+  let count = 0
+
+  for (let i = str.length - 1; i >= 0; i--) {
+    if (count === 3 || (count > 3 && (count - 3) % 2 === 0)) {
+      result = ',' + result
+    }
+    result = str[i] + result
+    count++
+  }
+
+  return result
+}
+
+// Static format for PDF/HTML exports (always Indian format)
+function formatCompactStatic(num: number): string {
+  if (num >= 10000000) return `₹${(num / 10000000).toFixed(2)}Cr`
+  if (num >= 100000) return `₹${(num / 100000).toFixed(2)}L`
+  if (num >= 1000) return `₹${(num / 1000).toFixed(1)}K`
+  return `₹${Math.round(num)}`
+}
+
+export interface SSYCalculatorRef {
+  exportToPDF: () => void
+  exportToHTML: () => void
+  exportToExcel: () => void
+  handleClear: () => void
+}
+
+const SSYCalculator = forwardRef<SSYCalculatorRef>(function SSYCalculator(props, ref) {
+  const { formatCurrencyCompact } = useNumberFormat()
+  const { syncCalculator } = useCloudSync()
+  const [params, setParams] = useState<SSYParams>(DEFAULT_PARAMS)
+  const [lastSaved, setLastSaved] = useState<string | null>(null)
+  const [isLoaded, setIsLoaded] = useState(false)
+  const [notes, setNotes] = useState('')
+  const [showNotes, setShowNotes] = useState(false)
+  const calculatorRef = useRef<HTMLDivElement>(null)
+
+  // Load from localStorage
+  useEffect(() => {
+    const saved = localStorage.getItem('calc_ssf')
+    if (saved) {
+      const data = JSON.parse(saved)
+      setParams({ ...DEFAULT_PARAMS, ...data.params })
+      setNotes(data.notes || '')
+    }
+    setIsLoaded(true)
+  }, [])
+
+  // Auto-save to localStorage
+  useEffect(() => {
+    if (!isLoaded) return
+    const data = { params, notes }
+    localStorage.setItem('calc_ssf', JSON.stringify(data))
+    syncCalculator('ssf', data) // Sync to cloud (debounced, only if logged in)
+    setLastSaved(new Date().toLocaleTimeString())
+  }, [params, notes, isLoaded, syncCalculator])
+
+  const handleClear = () => {
+    setParams(DEFAULT_PARAMS)
+    setNotes('')
+    localStorage.removeItem('calc_ssf')
+  }
+
+  const setParam = <K extends keyof SSYParams>(key: K, value: SSYParams[K]) =>
+    setParams((prev) => ({ ...prev, [key]: value }))
+
+  const result = useMemo(() => calculateSSY(params), [params])
+
+  const grossValue = result.maturityValue + result.withdrawal
+  const depositPercent = grossValue > 0 ? Math.round((result.totalDeposit / grossValue) * 100) : 100
+  const interestDisplayPercent = 100 - depositPercent
+  const lastDepositAge = params.openingAge + SSY_DEPOSIT_YEARS
+
+  // Export functions
+  const exportToExcel = () => {
+    const headers = ['Year', 'Age', 'Deposit (₹)', 'Interest (₹)', 'Withdrawal (₹)', 'Balance (₹)']
+    const rows = result.breakdown.map((row) => [row.year, row.age, row.deposit, row.interest, row.withdrawal, row.balance])
+
+    const csvContent = [
+      `Sukanya Samriddhi Yojana Calculator - Investment Report`,
+      `Generated: ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}`,
+      ``,
+      `Age at Opening: ${params.openingAge} years`,
+      `Yearly Deposit: ₹${formatIndianNumber(params.yearlyDeposit)}`,
+      `Interest Rate: ${params.interestRate}% p.a.`,
+      `Deposit Period: ${SSY_DEPOSIT_YEARS} years (until age ${lastDepositAge})`,
+      `Partial Withdrawal at ${SSY_WITHDRAWAL_AGE}: ${params.withdrawalPercent}%`,
+      ``,
+      `RESULTS`,
+      `Total Deposited: ₹${formatIndianNumber(result.totalDeposit)}`,
+      `Total Interest: ₹${formatIndianNumber(result.totalInterest)}`,
+      ...(result.withdrawal > 0 ? [`Withdrawn at ${result.withdrawalAge}: ₹${formatIndianNumber(result.withdrawal)}`] : []),
+      `Maturity Value at ${result.maturityAge}: ₹${formatIndianNumber(result.maturityValue)}`,
+      ``,
+      `YEARLY BREAKDOWN`,
+      headers.join(','),
+      ...rows.map((row) => row.join(',')),
+      ...(notes && notes.trim() ? [``, `NOTES`, notes] : []),
+    ].join('\n')
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = `SSY_Report_${params.yearlyDeposit}_Age${params.openingAge}.csv`
+    link.click()
+  }
+
+  const generateReportHTML = (forPrint: boolean) => `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <title>Sukanya Samriddhi Yojana Report</title>
+        <style>
+          body { font-family: Arial, sans-serif; padding: 20px; color: #333; max-width: 900px; margin: 0 auto; }
+          h1 { color: #e11d48; font-size: 24px; margin-bottom: 5px; }
+          h2 { font-size: 16px; margin-top: 25px; margin-bottom: 15px; color: #475569; border-bottom: 2px solid #e2e8f0; padding-bottom: 8px; }
+          .subtitle { color: #64748b; margin-bottom: 20px; font-size: 13px; }
+          .summary { background: #f8fafc; padding: 15px; border-radius: 8px; margin: 20px 0; }
+          .summary-grid { display: grid; grid-template-columns: repeat(4, 1fr); gap: 15px; }
+          .summary-item { text-align: center; }
+          .summary-label { font-size: 10px; color: #64748b; text-transform: uppercase; letter-spacing: 0.5px; }
+          .summary-value { font-size: 18px; font-weight: bold; color: #0f172a; margin-top: 4px; }
+          .maturity-highlight { background: linear-gradient(135deg, #ffe4e6 0%, #fecdd3 100%); padding: 20px; border-radius: 12px; text-align: center; margin: 20px 0; }
+          .maturity-label { font-size: 11px; color: #e11d48; text-transform: uppercase; letter-spacing: 1px; }
+          .maturity-value { font-size: 32px; font-weight: bold; color: #0f172a; }
+          .chart-section { display: flex; align-items: center; gap: 30px; margin: 20px 0; padding: 20px; background: #f8fafc; border-radius: 12px; }
+          .pie-chart { width: 120px; height: 120px; border-radius: 50%; background: conic-gradient(#e11d48 0% ${depositPercent}%, #3b82f6 ${depositPercent}% 100%); flex-shrink: 0; }
+          .chart-legend { flex: 1; }
+          .legend-item { display: flex; align-items: center; gap: 10px; margin: 8px 0; font-size: 13px; }
+          .legend-color { width: 16px; height: 16px; border-radius: 4px; }
+          table { width: 100%; border-collapse: collapse; margin-top: 15px; font-size: ${forPrint ? 10 : 12}px; }
+          th { background: #f1f5f9; padding: 8px; text-align: right; font-weight: 600; color: #475569; }
+          th:first-child { text-align: left; }
+          td { padding: 6px 8px; border-bottom: 1px solid #e2e8f0; text-align: right; }
+          td:first-child { text-align: left; }
+          .withdrawal td { background: #fff1f2; }
+          .notes-section { background: #fffbeb; border: 1px solid #fcd34d; border-radius: 8px; padding: 15px; margin: 20px 0; }
+          .notes-title { font-size: 12px; font-weight: 600; color: #92400e; margin-bottom: 8px; }
+          .notes-content { font-size: 12px; color: #78350f; line-height: 1.6; white-space: pre-wrap; }
+          .footer { margin-top: 30px; text-align: center; font-size: 11px; color: #94a3b8; border-top: 1px solid #e2e8f0; padding-top: 15px; }
+          ${forPrint ? '@media print { body { padding: 10px; } }' : ''}
+        </style>
+      </head>
+      <body>
+        <h1>Sukanya Samriddhi Yojana Report</h1>
+        <p class="subtitle">Generated on ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}</p>
+
+        <div class="summary">
+          <div class="summary-grid">
+            <div class="summary-item">
+              <div class="summary-label">Age at Opening</div>
+              <div class="summary-value">${params.openingAge} years</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Yearly Deposit</div>
+              <div class="summary-value">₹${formatIndianNumber(params.yearlyDeposit)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Interest Rate</div>
+              <div class="summary-value">${params.interestRate}% p.a.</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Withdrawn at ${SSY_WITHDRAWAL_AGE}</div>
+              <div class="summary-value">${formatCompactStatic(result.withdrawal)}</div>
+            </div>
+          </div>
+        </div>
+
+        <div class="maturity-highlight">
+          <div class="maturity-label">Maturity Value at Age ${result.maturityAge}</div>
+          <div class="maturity-value">₹${formatIndianNumber(result.maturityValue)}</div>
+        </div>
+
+        <h2>Investment Breakdown</h2>
+        <div class="chart-section">
+          <div class="pie-chart"></div>
+          <div class="chart-legend">
+            <div class="legend-item">
+              <div class="legend-color" style="background: #e11d48;"></div>
+              <span>Deposited: ₹${formatIndianNumber(result.totalDeposit)} (${depositPercent}%)</span>
+            </div>
+            <div class="legend-item">
+              <div class="legend-color" style="background: #3b82f6;"></div>
+              <span>Interest: ₹${formatIndianNumber(result.totalInterest)} (${interestDisplayPercent}%)</span>
+            </div>
+          </div>
+        </div>
+
+        <h2>Yearly Breakdown</h2>
+        <table>
+          <tr>
+            <th>Year</th>
+            <th>Age</th>
+            <th>Deposit</th>
+            <th>Interest</th>
+            <th>Withdrawal</th>
+            <th>Balance</th>
+          </tr>
+          ${result.breakdown.map((row) => `
+            <tr${row.withdrawal > 0 ? ' class="withdrawal"' : ''}>
+              <td>Year ${row.year}</td>
+              <td>${row.age}</td>
+              <td>₹${formatIndianNumber(row.deposit)}</td>
+              <td>₹${formatIndianNumber(row.interest)}</td>
+              <td>${row.withdrawal > 0 ? `₹${formatIndianNumber(row.withdrawal)}` : '-'}</td>
+              <td>₹${formatIndianNumber(row.balance)}</td>
+            </tr>
+          `).join('')}
+        </table>
+
+        ${notes && notes.trim() ? `
+        <div class="notes-section">
+          <div class="notes-title">Notes</div>
+          <div class="notes-content">${notes.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</div>
+        </div>
+        ` : ''}
+
+        <div class="footer">
+          Generated by AnyCalc — Calculate everything. Plan anything.
+        </div>
+      </body>
+      </html>
+    `
+
+  const exportToPDF = () => {
+    const printWindow = window.open('', '_blank')
+    if (printWindow) {
+      printWindow.document.write(generateReportHTML(true))
+      printWindow.document.close()
+      printWindow.print()
+    }
+  }
+
+  const exportToHTML = () => {
+    const blob = new Blob([generateReportHTML(false)], { type: 'text/html;charset=utf-8;' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = `SSY_Report_${params.yearlyDeposit}_Age${params.openingAge}.html`
+    link.click()
+  }
+
+  useImperativeHandle(ref, () => ({
+    exportToPDF,
+    exportToHTML,
+    exportToExcel,
+    handleClear,
+  }))
+
+  return (
+    <div className="space-y-4" ref={calculatorRef}>
+      {/* Main Calculator Card */}
+      <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+        <div className="grid md:grid-cols-2">
+          {/* Inputs */}
+          <div className="p-5 space-y-5 border-r border-slate-100">
+            {/* Age at Opening */}
+            <div>
+              <div className="flex justify-between items-baseline mb-2">
+                <label className="text-sm font-medium text-slate-600">Girl&apos;s Age at Opening</label>
+                <span className="font-mono text-base font-semibold text-slate-900">
+                  {params.openingAge} years
+                </span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={SSY_MAX_OPENING_AGE}
+                step={1}
+                value={params.openingAge}
+                onChange={(e) => setParam('openingAge', Number(e.target.value))}
+                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-rose-600"
+              />
+              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                <span>At birth</span>
+                <span>{SSY_MAX_OPENING_AGE} yrs (Max)</span>
+              </div>
+            </div>
+
+            {/* Yearly Deposit */}
+            <div>
+              <div className="flex justify-between items-baseline mb-2">
+                <label className="text-sm font-medium text-slate-600">Yearly Deposit</label>
+                <span className="font-mono text-base font-semibold text-slate-900">
+                  ₹{formatIndianNumber(params.yearlyDeposit)}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={SSY_MIN_DEPOSIT}
+                max={SSY_MAX_DEPOSIT}
+                step={250}
+                value={params.yearlyDeposit}
+                onChange={(e) => setParam('yearlyDeposit', Number(e.target.value))}
+                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-rose-600"
+              />
+              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                <span>₹250 (Min)</span>
+                <span>₹1.5L (Max)</span>
+              </div>
+            </div>
+
+            {/* Interest Rate */}
+            <div>
+              <div className="flex justify-between items-baseline mb-2">
+                <label className="text-sm font-medium text-slate-600">Interest Rate</label>
+                <span className="font-mono text-base font-semibold text-slate-900">
+                  {params.interestRate}% p.a.
+                </span>
+              </div>
+              <input
+                type="range"
+                min={7}
+                max={9.5}
+                step={0.1}
+                value={params.interestRate}
+                onChange={(e) => setParam('interestRate', Number(e.target.value))}
+                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-rose-600"
+              />
+              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                <span>7%</span>
+                <span>9.5%</span>
+              </div>
+              <div className="mt-1 text-[10px] text-rose-600">
+                Current SSY rate: 8.2% (notified quarterly by the Ministry of Finance)
+              </div>
+            </div>
+
+            {/* Partial Withdrawal */}
+            <div>
+              <div className="flex justify-between items-baseline mb-2">
+                <label className="text-sm font-medium text-slate-600">Withdrawal at {SSY_WITHDRAWAL_AGE}</label>
+                <span className="font-mono text-base font-semibold text-slate-900">
+                  {params.withdrawalPercent > 0 ? `${params.withdrawalPercent}%` : 'None'}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={SSY_MAX_WITHDRAWAL_PERCENT}
+                step={5}
+                value={params.withdrawalPercent}
+                onChange={(e) => setParam('withdrawalPercent', Number(e.target.value))}
+                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-rose-600"
+              />
+              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                <span>None</span>
+                <span>{SSY_MAX_WITHDRAWAL_PERCENT}% (Max)</span>
+              </div>
+              <div className="mt-1 text-[10px] text-slate-400">
+                For higher education, from the balance at the end of the preceding year
+              </div>
+            </div>
+          </div>
+
+          {/* Results */}
+          <div className="p-5 bg-slate-50">
+            {/* Primary Result */}
+            <div className="bg-rose-50 rounded-lg p-4 text-center mb-4">
+              <div className="text-[10px] font-semibold uppercase tracking-wider text-rose-600 mb-1">
+                Maturity Value at {result.maturityAge}
+              </div>
+              <div className="font-mono text-3xl font-bold text-slate-900">
+                ₹{formatIndianNumber(result.maturityValue)}
+              </div>
+              {result.withdrawal > 0 && (
+                <div className="text-xs text-rose-600 mt-1">
+                  Plus ₹{formatIndianNumber(result.withdrawal)} withdrawn at {result.withdrawalAge}
+                </div>
+              )}
+            </div>
+
+            {/* Secondary Results */}
+            <div className="grid grid-cols-3 gap-2 mb-4">
+              <div className="bg-white rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                  Deposited
+                </div>
+                <div className="font-mono text-sm font-semibold text-slate-900">
+                  {formatCurrencyCompact(result.totalDeposit)}
+                </div>
+              </div>
+              <div className="bg-white rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                  Interest
+                </div>
+                <div className="font-mono text-sm font-semibold text-slate-900">
+                  {formatCurrencyCompact(result.totalInterest)}
+                </div>
+              </div>
+              <div className="bg-white rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                  Deposits Until
+                </div>
+                <div className="font-mono text-sm font-semibold text-rose-600">
+                  Age {lastDepositAge}
+                </div>
+              </div>
+            </div>
+
+            {/* Pie Chart */}
+            <div className="bg-white rounded-lg p-3 flex items-center gap-4 mb-4">
+              <div className="relative w-16 h-16 flex-shrink-0">
+                <svg viewBox="0 0 36 36" className="w-full h-full -rotate-90">
+                  <circle cx="18" cy="18" r="15.9" fill="none" stroke="#3b82f6" strokeWidth="3" />
+                  <circle
+                    cx="18"
+                    cy="18"
+                    r="15.9"
+                    fill="none"
+                    stroke="#e11d48"
+                    strokeWidth="3"
+                    strokeDasharray={`${depositPercent} ${100 - depositPercent}`}
+                  />
+                </svg>
+              </div>
+              <div className="flex-1 space-y-1.5">
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="w-2 h-2 bg-rose-600 rounded-sm" />
+                  <span className="text-slate-600">Deposited</span>
+                  <span className="ml-auto font-mono font-medium">{depositPercent}%</span>
+                </div>
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="w-2 h-2 bg-blue-500 rounded-sm" />
+                  <span className="text-slate-600">Interest</span>
+                  <span className="ml-auto font-mono font-medium">{interestDisplayPercent}%</span>
+                </div>
+              </div>
+            </div>
+
+            {/* Timeline */}
+            <div className="bg-white rounded-lg p-3 text-xs space-y-1.5">
+              <div className="flex justify-between text-slate-600">
+                <span>Deposits ({SSY_DEPOSIT_YEARS} years)</span>
+                <span className="font-mono">Age {params.openingAge}–{lastDepositAge}</span>
+              </div>
+              <div className="flex justify-between text-slate-600">
+                <span>Interest only</span>
+                <span className="font-mono">Age {lastDepositAge}–{result.maturityAge}</span>
+              </div>
+              <div className="flex justify-between text-slate-600">
+                <span>Maturity ({SSY_MATURITY_YEARS} years from opening)</span>
+                <span className="font-mono">Age {result.maturityAge}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Auto-save indicator with subtle notes */}
+        <div className="px-5 py-2 bg-slate-50 border-t border-slate-100">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-[10px] text-slate-400">
+              <span className="w-1.5 h-1.5 bg-green-500 rounded-full" />
+              Auto-saved {lastSaved || 'just now'}
+            </div>
+            <button
+              onClick={() => setShowNotes(!showNotes)}
+              className={`flex items-center gap-1.5 px-2 py-1 rounded text-[10px] transition-colors ${
+                notes
+                  ? 'text-rose-600 bg-rose-50 hover:bg-rose-100'
+                  : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'
+              }`}
+              title={notes ? 'View note' : 'Add note'}
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+              </svg>
+              {notes ? 'Note' : 'Add note'}
+            </button>
+          </div>
+          {showNotes && (
+            <div className="mt-2 pt-2 border-t border-slate-200">
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Add a quick note..."
+                className="w-full h-16 p-2 text-xs text-slate-600 bg-white border border-slate-200 rounded resize-none focus:outline-none focus:ring-1 focus:ring-rose-400 focus:border-rose-400"
+                autoFocus
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Yearly Breakdown */}
+      <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-100">
+          <h3 className="text-sm font-semibold text-slate-700">Year-by-Year Breakdown</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-wide text-slate-500 border-b border-slate-200 bg-slate-50">
+                <th className="text-left px-4 py-2 font-medium">Year</th>
+                <th className="text-right px-2 py-2 font-medium">Age</th>
+                <th className="text-right px-2 py-2 font-medium">Deposit</th>
+                <th className="text-right px-2 py-2 font-medium">Interest</th>
+                <th className="text-right px-2 py-2 font-medium">Withdrawal</th>
+                <th className="text-right px-4 py-2 font-medium">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {result.breakdown.map((row) => (
+                <tr
+                  key={row.year}
+                  className={`border-b border-slate-100 text-slate-700 ${row.withdrawal > 0 ? 'bg-rose-50' : ''}`}
+                >
+                  <td className="px-4 py-1.5 font-sans text-slate-500">Y{row.year}</td>
+                  <td className="px-2 py-1.5 text-right">{row.age}</td>
+                  <td className="px-2 py-1.5 text-right">
+                    {row.deposit > 0 ? formatCurrencyCompact(row.deposit) : '–'}
+                  </td>
+                  <td className="px-2 py-1.5 text-right text-blue-600">{formatCurrencyCompact(row.interest)}</td>
+                  <td className="px-2 py-1.5 text-right text-rose-600">
+                    {row.withdrawal > 0 ? formatCurrencyCompact(row.withdrawal) : '–'}
+                  </td>
+                  <td className="px-4 py-1.5 text-right font-semibold">{formatCurrencyCompact(row.balance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* About Section */}
+      <details className="bg-white border border-slate-200 rounded-xl">
+        <summary className="px-4 py-3 text-sm font-medium text-slate-700 cursor-pointer hover:bg-slate-50">
+          About Sukanya Samriddhi Yojana Calculator
+        </summary>
+        <div className="px-4 pb-4 text-sm text-slate-600 space-y-3">
+          <p>
+            <strong>Sukanya Samriddhi Yojana (SSY)</strong> is a government-backed savings scheme for a girl
+            child, opened by a parent or guardian before she turns {SSY_MAX_OPENING_AGE}.
+          </p>
+          <ul className="list-disc list-inside space-y-1 text-slate-500">
+            <li>Deposits of ₹250 to ₹1,50,000 a year for the first {SSY_DEPOSIT_YEARS} years</li>
+            <li>The account matures {SSY_MATURITY_YEARS} years after opening and keeps earning interest until then</li>
+            <li>Up to {SSY_MAX_WITHDRAWAL_PERCENT}% of the balance can be withdrawn once she turns {SSY_WITHDRAWAL_AGE}, for higher education</li>
+            <li>Interest is compounded annually at the rate notified each quarter</li>
+            <li>EEE status: deposits qualify under Section 80C; interest and maturity are tax-free</li>
+          </ul>
+        </div>
+      </details>
+    </div>
+  )
+})
+
+export default SSYCalculator
@@ -0,0 +1,777 @@
+'use client'
+
+import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { useNumberFormat } from '@/contexts/NumberFormatContext'
+import { useCloudSync } from '@/hooks/useCloudSync'
+import { calculateSWP } from '@/lib/calculations'
+import { SWPParams, SWPTaxParams } from '@/types'
+
+type ScheduleView = 'yearly' | 'monthly'
+
+function currentMonth(): string {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`
+}
+
+const DEFAULT_PARAMS: Omit<SWPParams, 'tax' | 'startMonth'> = {
+  corpus: 5000000,
+  monthlyWithdrawal: 30000,
+  expectedReturn: 10,
+  withdrawalIncrease: 5,
+  years: 25,
+}
+
+const DEFAULT_TAX: SWPTaxParams = {
+  costBasis: 4000000,
+  monthsHeld: 36,
+}
+
+function formatIndianNumber(num: number): string {
+  const str = Math.round(num).toString()
+  let result = ''
+  let count = 0
+
+  for (let i = str.length - 1; i >= 0; i--) {
+    if (count === 3 || (count > 3 && (count - 3) % 2 === 0)) {
+      result = ',' + result
+    }
+    result = str[i] + result
+    count++
+  }
+
+  return result
+}
+
+// Static format for PDF/HTML exports (always Indian format)
+function formatCompactStatic(num: number): string {
+  if (num >= 10000000) return `₹${(num / 10000000).toFixed(2)}Cr`
+  if (num >= 100000) return `₹${(num / 100000).toFixed(2)}L`
+  if (num >= 1000) return `₹${(num / 1000).toFixed(1)}K`
+  return `₹${Math.round(num)}`
+}
+
+function formatMonth(date: string): string {
+  const [year, month] = date.split('-').map(Number)
+  return new Date(year, month - 1, 1).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' })
+}
+
+export interface SWPCalculatorRef {
+  exportToPDF: () => void
+  exportToHTML: () => void
+  exportToExcel: () => void
+  handleClear: () => void
+}
+
+const SWPCalculator = forwardRef<SWPCalculatorRef>(function SWPCalculator(props, ref) {
+  const { formatCurrencyCompact } = useNumberFormat()
+  const { syncCalculator } = useCloudSync()
+  const [params, setParams] = useState(DEFAULT_PARAMS)
+  const [startMonth, setStartMonth] = useState(currentMonth)
+  const [taxEnabled, setTaxEnabled] = useState(false)
+  const [taxParams, setTaxParams] = useState<SWPTaxParams>(DEFAULT_TAX)
+  const [scheduleView, setScheduleView] = useState<ScheduleView>('yearly')
+  const [lastSaved, setLastSaved] = useState<string | null>(null)
+  const [isLoaded, setIsLoaded] = useState(false)
+  const [notes, setNotes] = useState('')
+  const [showNotes, setShowNotes] = useState(false)
+  const calculatorRef = useRef<HTMLDivElement>(null)
+
+  // Load from localStorage
+  useEffect(() => {
+    const saved = localStorage.getItem('calc_swp')
+    if (saved) {
+      const data = JSON.parse(saved)
+      setParams({ ...DEFAULT_PARAMS, ...data.params })
+      setStartMonth(data.startMonth || currentMonth())
+      setTaxEnabled(data.taxEnabled || false)
+      setTaxParams({ ...DEFAULT_TAX, ...data.taxParams })
+      setScheduleView(data.scheduleView === 'monthly' ? 'monthly' : 'yearly')
+      setNotes(data.notes || '')
+    }
+    setIsLoaded(true)
+  }, [])
+
+  // Auto-save to localStorage
+  useEffect(() => {
+    if (!isLoaded) return
+    const data = { params, startMonth, taxEnabled, taxParams, scheduleView, notes }
+    localStorage.setItem('calc_swp', JSON.stringify(data))
+    syncCalculator('swp', data) // Sync to cloud (debounced, only if logged in)
+    setLastSaved(new Date().toLocaleTimeString())
+  }, [params, startMonth, taxEnabled, taxParams, scheduleView, notes, isLoaded, syncCalculator])
+
+  const handleClear = () => {
+    setParams(DEFAULT_PARAMS)
+    setStartMonth(currentMonth())
+    setTaxEnabled(false)
+    setTaxParams(DEFAULT_TAX)
+    setScheduleView('yearly')
+    setNotes('')
+    localStorage.removeItem('calc_swp')
+  }
+
+  const setParam = (key: keyof typeof DEFAULT_PARAMS, value: number) => setParams((prev) => ({ ...prev, [key]: value }))
+
+  const result = useMemo(
+    () => calculateSWP({ ...params, startMonth, tax: taxEnabled ? taxParams : undefined }),
+    [params, startMonth, taxEnabled, taxParams]
+  )
+
+  // Roll the monthly schedule up into plan years
+  const yearlySchedule = useMemo(() => {
+    const years: { year: number; openingBalance: number; withdrawal: number; returns: number; closingBalance: number }[] = []
+    result.months.forEach((month) => {
+      const year = Math.ceil(month.month / 12)
+      if (!years[year - 1]) {
+        years[year - 1] = { year, openingBalance: month.openingBalance, withdrawal: 0, returns: 0, closingBalance: 0 }
+      }
+      years[year - 1].withdrawal += month.withdrawal
+      years[year - 1].returns += month.returns
+      years[year - 1].closingBalance = month.closingBalance
+    })
+    return years
+  }, [result.months])
+
+  const chartData = useMemo(() => {
+    let withdrawn = 0
+    return result.months.map((month) => {
+      withdrawn += month.withdrawal
+      return { date: month.date, balance: month.closingBalance, withdrawn }
+    })
+  }, [result.months])
+
+  const lastWithdrawal = result.months.length > 0 ? result.months[result.months.length - 1].withdrawal : 0
+  const endDate = result.months.length > 0 ? result.months[result.months.length - 1].date : startMonth
+
+  // Export functions
+  const exportToExcel = () => {
+    const headers = ['Month', 'Date', 'Opening Balance (₹)', 'Returns (₹)', 'Withdrawal (₹)', 'Closing Balance (₹)']
+    if (taxEnabled) headers.push('Short-Term Gain (₹)', 'Long-Term Gain (₹)')
+    const rows = result.months.map((month) => [
+      month.month,
+      month.date,
+      month.openingBalance,
+      month.returns,
+      month.withdrawal,
+      month.closingBalance,
+      ...(taxEnabled ? [month.shortTermGain, month.longTermGain] : []),
+    ])
+
+    const csvContent = [
+      `SWP Calculator - Systematic Withdrawal Plan`,
+      `Generated: ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}`,
+      ``,
+      `Corpus: ₹${formatIndianNumber(params.corpus)}`,
+      `Monthly Withdrawal: ₹${formatIndianNumber(params.monthlyWithdrawal)}`,
+      `Expected Return: ${params.expectedReturn}%`,
+      `Annual Increase in Withdrawal: ${params.withdrawalIncrease}%`,
+      `Period: ${params.years} years from ${startMonth}`,
+      ``,
+      `RESULTS`,
+      `Total Withdrawn: ₹${formatIndianNumber(result.totalWithdrawn)}`,
+      `Total Returns: ₹${formatIndianNumber(result.totalReturns)}`,
+      result.depletionDate ? `Corpus Runs Out: ${result.depletionDate}` : `Balance Left: ₹${formatIndianNumber(result.finalBalance)}`,
+      ...(taxEnabled
+        ? [
+            ``,
+            `TAX ON WITHDRAWALS (EQUITY, SINGLE PURCHASE LOT)`,
+            `Cost of Corpus: ₹${formatIndianNumber(taxParams.costBasis)}`,
+            `Held Before Start: ${taxParams.monthsHeld} months`,
+            'Financial Year,Withdrawn (₹),STCG (₹),LTCG (₹),LTCG Exemption (₹),Tax (₹)',
+            ...result.taxYears.map((y) => [y.fy, y.withdrawn, y.shortTermGain, y.longTermGain, y.exemption, y.tax].join(',')),
+            `Total Tax: ₹${formatIndianNumber(result.totalTax)}`,
+          ]
+        : []),
+      ``,
+      `MONTHLY SCHEDULE`,
+      headers.join(','),
+      ...rows.map((row) => row.join(',')),
+      ...(notes && notes.trim() ? [``, `NOTES`, notes] : []),
+    ].join('\n')
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = `SWP_Plan_${params.monthlyWithdrawal}_per_month.csv`
+    link.click()
+  }
+
+  const generateReportHTML = (forPrint: boolean) => `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <title>SWP Calculator Report</title>
+        <style>
+          body { font-family: Arial, sans-serif; padding: 20px; color: #333; max-width: 900px; margin: 0 auto; }
+          h1 { color: #7c3aed; font-size: 24px; margin-bottom: 5px; }
+          h2 { font-size: 16px; margin-top: 25px; margin-bottom: 15px; color: #475569; border-bottom: 2px solid #e2e8f0; padding-bottom: 8px; }
+          .subtitle { color: #64748b; margin-bottom: 20px; font-size: 13px; }
+          .summary { background: #f8fafc; padding: 15px; border-radius: 8px; margin: 20px 0; }
+          .summary-grid { display: grid; grid-template-columns: repeat(4, 1fr); gap: 15px; }
+          .summary-item { text-align: center; }
+          .summary-label { font-size: 10px; color: #64748b; text-transform: uppercase; letter-spacing: 0.5px; }
+          .summary-value { font-size: 18px; font-weight: bold; color: #0f172a; margin-top: 4px; }
+          .maturity-highlight { background: linear-gradient(135deg, #ede9fe 0%, #ddd6fe 100%); padding: 20px; border-radius: 12px; text-align: center; margin: 20px 0; }
+          .maturity-label { font-size: 11px; color: #7c3aed; text-transform: uppercase; letter-spacing: 1px; }
+          .maturity-value { font-size: 32px; font-weight: bold; color: #0f172a; }
+          table { width: 100%; border-collapse: collapse; margin-top: 15px; font-size: 10px; }
+          th { background: #f1f5f9; padding: 8px; text-align: right; font-weight: 600; color: #475569; }
+          th:first-child { text-align: left; }
+          td { padding: 6px 8px; border-bottom: 1px solid #e2e8f0; text-align: right; }
+          td:first-child { text-align: left; }
+          .total td { font-weight: bold; background: #f8fafc; }
+          .notes-section { background: #fffbeb; border: 1px solid #fcd34d; border-radius: 8px; padding: 15px; margin: 20px 0; }
+          .notes-title { font-size: 12px; font-weight: 600; color: #92400e; margin-bottom: 8px; }
+          .notes-content { font-size: 12px; color: #78350f; line-height: 1.6; white-space: pre-wrap; }
+          .footer { margin-top: 30px; text-align: center; font-size: 11px; color: #94a3b8; border-top: 1px solid #e2e8f0; padding-top: 15px; }
+          ${forPrint ? '@media print { body { padding: 10px; } }' : ''}
+        </style>
+      </head>
+      <body>
+        <h1>SWP Calculator Report</h1>
+        <p class="subtitle">₹${formatIndianNumber(params.monthlyWithdrawal)}/month from ${formatCompactStatic(params.corpus)} at ${params.expectedReturn}% | Generated on ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}</p>
+
+        <div class="maturity-highlight">
+          <div class="maturity-label">${result.depletionDate ? 'Corpus Runs Out' : `Balance Left after ${params.years} Years`}</div>
+          <div class="maturity-value">${result.depletionDate ? formatMonth(result.depletionDate) : `₹${formatIndianNumber(result.finalBalance)}`}</div>
+        </div>
+
+        <div class="summary">
+          <div class="summary-grid">
+            <div class="summary-item">
+              <div class="summary-label">Corpus</div>
+              <div class="summary-value">${formatCompactStatic(params.corpus)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Total Withdrawn</div>
+              <div class="summary-value">${formatCompactStatic(result.totalWithdrawn)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Returns Earned</div>
+              <div class="summary-value">${formatCompactStatic(result.totalReturns)}</div>
+            </div>
+            <div class="summary-item">
+              <div class="summary-label">Last Withdrawal</div>
+              <div class="summary-value">₹${formatIndianNumber(lastWithdrawal)}</div>
+            </div>
+          </div>
+        </div>
+
+        ${taxEnabled ? `
+        <h2>Tax on Withdrawals (Equity Fund, Single Purchase Lot)</h2>
+        <table>
+          <tr><th>Financial Year</th><th>Withdrawn</th><th>STCG</th><th>LTCG</th><th>LTCG Exemption</th><th>Tax</th></tr>
+          ${result.taxYears.map((y) => `
+            <tr>
+              <td>FY ${y.fy}</td>
+              <td>₹${formatIndianNumber(y.withdrawn)}</td>
+              <td>₹${formatIndianNumber(y.shortTermGain)}</td>
+              <td>₹${formatIndianNumber(y.longTermGain)}</td>
+              <td>₹${formatIndianNumber(y.exemption)}</td>
+              <td>₹${formatIndianNumber(y.tax)}</td>
+            </tr>
+          `).join('')}
+          <tr class="total"><td>Total</td><td></td><td></td><td></td><td></td><td>₹${formatIndianNumber(result.totalTax)}</td></tr>
+        </table>
+        ` : ''}
+
+        <h2>Year-by-Year Schedule</h2>
+        <table>
+          <tr><th>Year</th><th>Opening</th><th>Withdrawal</th><th>Returns</th><th>Closing</th></tr>
+          ${yearlySchedule.map((year) => `
+            <tr>
+              <td>Year ${year.year}</td>
+              <td>₹${formatIndianNumber(year.openingBalance)}</td>
+              <td>₹${formatIndianNumber(year.withdrawal)}</td>
+              <td>₹${formatIndianNumber(year.returns)}</td>
+              <td>₹${formatIndianNumber(year.closingBalance)}</td>
+            </tr>
+          `).join('')}
+        </table>
+
+        ${notes && notes.trim() ? `
+        <div class="notes-section">
+          <div class="notes-title">Notes</div>
+          <div class="notes-content">${notes.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</div>
+        </div>
+        ` : ''}
+
+        <div class="footer">
+          Generated by AnyCalc — Calculate everything. Plan anything.
+        </div>
+      </body>
+      </html>
+    `
+
+  const exportToPDF = () => {
+    const printWindow = window.open('', '_blank')
+    if (printWindow) {
+      printWindow.document.write(generateReportHTML(true))
+      printWindow.document.close()
+      printWindow.print()
+    }
+  }
+
+  const exportToHTML = () => {
+    const blob = new Blob([generateReportHTML(false)], { type: 'text/html;charset=utf-8;' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = `SWP_Plan_${params.monthlyWithdrawal}_per_month.html`
+    link.click()
+  }
+
+  useImperativeHandle(ref, () => ({
+    exportToPDF,
+    exportToHTML,
+    exportToExcel,
+    handleClear,
+  }))
+
+  return (
+    <div className="space-y-4" ref={calculatorRef}>
+      {/* Main Calculator Card */}
+      <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+        <div className="grid md:grid-cols-2">
+          {/* Inputs */}
+          <div className="p-5 space-y-5 border-r border-slate-100">
+            {/* Corpus */}
+            <div>
+              <div className="flex justify-between items-baseline mb-2">
+                <label className="text-sm font-medium text-slate-600">Total Corpus</label>
+                <span className="font-mono text-base font-semibold text-slate-900">
+                  ₹{formatIndianNumber(params.corpus)}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={100000}
+                max={100000000}
+                step={100000}
+                value={params.corpus}
+                onChange={(e) => setParam('corpus', Number(e.target.value))}
+                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-violet-600"
+              />
+              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                <span>₹1L</span>
+                <span>₹10Cr</span>
+              </div>
+            </div>
+
+            {/* Monthly Withdrawal */}
+            <div>
+              <div className="flex justify-between items-baseline mb-2">
+                <label className="text-sm font-medium text-slate-600">Monthly Withdrawal</label>
+                <span className="font-mono text-base font-semibold text-slate-900">
+                  ₹{formatIndianNumber(params.monthlyWithdrawal)}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={1000}
+                max={1000000}
+                step={1000}
+                value={params.monthlyWithdrawal}
+                onChange={(e) => setParam('monthlyWithdrawal', Number(e.target.value))}
+                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-violet-600"
+              />
+              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                <span>₹1K</span>
+                <span>
+                  {params.corpus > 0 && `${((params.monthlyWithdrawal * 12 * 100) / params.corpus).toFixed(1)}% of corpus a year`}
+                </span>
+                <span>₹10L</span>
+              </div>
+            </div>
+
+            {/* Rates & Period */}
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Expected Return (%)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={30}
+                  step={0.5}
+                  value={params.expectedReturn}
+                  onChange={(e) => setParam('expectedReturn', Math.min(30, Math.max(0, Number(e.target.value))))}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent font-mono"
+                />
+              </div>
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Yearly Increase (%)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={20}
+                  step={0.5}
+                  value={params.withdrawalIncrease}
+                  onChange={(e) => setParam('withdrawalIncrease', Math.min(20, Math.max(0, Number(e.target.value))))}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent font-mono"
+                />
+              </div>
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">Period (years)</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={params.years}
+                  onChange={(e) => setParam('years', Math.min(50, Math.max(1, Number(e.target.value))))}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent font-mono"
+                />
+              </div>
+              <div>
+                <label className="text-[10px] font-medium text-slate-500 mb-1 block">First Withdrawal</label>
+                <input
+                  type="month"
+                  value={startMonth}
+                  onChange={(e) => e.target.value && setStartMonth(e.target.value)}
+                  className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent font-mono"
+                />
+              </div>
+            </div>
+
+            {/* Tax on withdrawals */}
+            <div className="pt-4 border-t border-slate-100">
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={taxEnabled}
+                  onChange={(e) => setTaxEnabled(e.target.checked)}
+                  className="accent-violet-600"
+                />
+                Compute tax on withdrawals (equity fund)
+              </label>
+              {taxEnabled && (
+                <div className="grid grid-cols-2 gap-2 mt-3">
+                  <div>
+                    <label className="text-[10px] font-medium text-slate-500 mb-1 block">Cost of Corpus (₹)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={10000}
+                      value={taxParams.costBasis}
+                      onChange={(e) => setTaxParams((prev) => ({ ...prev, costBasis: Math.max(0, Number(e.target.value)) }))}
+                      className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent font-mono"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-[10px] font-medium text-slate-500 mb-1 block">Held For (months)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={600}
+                      value={taxParams.monthsHeld}
+                      onChange={(e) => setTaxParams((prev) => ({ ...prev, monthsHeld: Math.min(600, Math.max(0, Number(e.target.value))) }))}
+                      className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent font-mono"
+                    />
+                  </div>
+                  <p className="col-span-2 text-[10px] text-slate-400">
+                    The corpus is treated as one purchase: every unit has the same cost and purchase date, so
+                    lots bought at different times are not redeemed oldest first. Gains once the corpus has been
+                    held over 12 months are LTCG (Section 112A), earlier ones STCG (Section 111A), taxed each
+                    financial year with cess; a short-term loss is set off against LTCG.
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Results */}
+          <div className="p-5 bg-slate-50">
+            {/* Primary Result */}
+            <div className={`${result.depletionMonth === null ? 'bg-violet-50' : 'bg-red-50'} rounded-lg p-4 text-center mb-4`}>
+              <div
+                className={`text-[10px] font-semibold uppercase tracking-wider mb-1 ${
+                  result.depletionMonth === null ? 'text-violet-600' : 'text-red-600'
+                }`}
+              >
+                {result.depletionMonth === null ? `Balance Left after ${params.years} Years` : 'Corpus Runs Out'}
+              </div>
+              <div className="font-mono text-3xl font-bold text-slate-900">
+                {result.depletionDate ? formatMonth(result.depletionDate) : `₹${formatIndianNumber(result.finalBalance)}`}
+              </div>
+              <div className={`text-xs mt-1 ${result.depletionMonth === null ? 'text-violet-600' : 'text-red-600'}`}>
+                {result.depletionMonth !== null
+                  ? `after ${Math.floor(result.depletionMonth / 12)}y ${result.depletionMonth % 12}m of withdrawals`
+                  : `in ${formatMonth(endDate)}, after every withdrawal`}
+              </div>
+            </div>
+
+            {/* Secondary Results */}
+            <div className="grid grid-cols-3 gap-2 mb-4">
+              <div className="bg-white rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                  Total Withdrawn
+                </div>
+                <div className="font-mono text-sm font-semibold text-violet-600">
+                  {formatCurrencyCompact(result.totalWithdrawn)}
+                </div>
+              </div>
+              <div className="bg-white rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                  Returns Earned
+                </div>
+                <div className="font-mono text-sm font-semibold text-green-600">
+                  {formatCurrencyCompact(result.totalReturns)}
+                </div>
+              </div>
+              <div className="bg-white rounded-lg p-3 text-center">
+                <div className="text-[9px] uppercase tracking-wide text-slate-400 mb-0.5">
+                  Last Withdrawal
+                </div>
+                <div className="font-mono text-sm font-semibold text-slate-900">
+                  {formatCurrencyCompact(lastWithdrawal)}/mo
+                </div>
+              </div>
+            </div>
+
+            {/* Tax */}
+            {taxEnabled && (
+              <div className="bg-white rounded-lg p-4 mb-4">
+                <div className="flex justify-between text-xs mb-2">
+                  <span className="font-semibold text-slate-700">Tax on withdrawals</span>
+                  <span className="font-mono font-semibold text-red-600">{formatCurrencyCompact(result.totalTax)}</span>
+                </div>
+                <div className="space-y-1.5 text-xs">
+                  <div className="flex justify-between text-slate-600">
+                    <span>Short-term gains</span>
+                    <span className="font-mono">
+                      {formatCurrencyCompact(result.taxYears.reduce((sum, y) => sum + y.shortTermGain, 0))}
+                    </span>
+                  </div>
+                  <div className="flex justify-between text-slate-600">
+                    <span>Long-term gains</span>
+                    <span className="font-mono">
+                      {formatCurrencyCompact(result.taxYears.reduce((sum, y) => sum + y.longTermGain, 0))}
+                    </span>
+                  </div>
+                  <div className="flex justify-between text-slate-600">
+                    <span>LTCG exemption used</span>
+                    <span className="font-mono text-green-600">
+                      {formatCurrencyCompact(result.taxYears.reduce((sum, y) => sum + y.exemption, 0))}
+                    </span>
+                  </div>
+                  <div className="flex justify-between pt-1.5 border-t border-slate-100 text-slate-600">
+                    <span>Withdrawn after tax</span>
+                    <span className="font-mono font-semibold text-slate-900">
+                      {formatCurrencyCompact(result.totalWithdrawn - result.totalTax)}
+                    </span>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Balance chart */}
+            <div className="bg-white rounded-lg p-4">
+              <div className="h-44">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 5, right: 5, bottom: 0, left: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+                    <XAxis
+                      dataKey="date"
+                      tickFormatter={(date) => String(date).slice(0, 4)}
+                      minTickGap={24}
+                      tick={{ fontSize: 10, fill: '#94a3b8' }}
+                      axisLine={false}
+                      tickLine={false}
+                    />
+                    <YAxis
+                      tickFormatter={(value) => formatCurrencyCompact(Number(value))}
+                      tick={{ fontSize: 10, fill: '#94a3b8' }}
+                      axisLine={false}
+                      tickLine={false}
+                      width={64}
+                    />
+                    <Tooltip
+                      formatter={(value, name) => [formatCurrencyCompact(Number(value)), name]}
+                      labelFormatter={(date) => formatMonth(String(date))}
+                      contentStyle={{ fontSize: 11, borderRadius: 8, border: '1px solid #e2e8f0' }}
+                    />
+                    <Line dataKey="balance" name="Balance" stroke="#7c3aed" strokeWidth={2} dot={false} isAnimationActive={false} />
+                    <Line
+                      dataKey="withdrawn"
+                      name="Withdrawn so far"
+                      stroke="#94a3b8"
+                      strokeDasharray="4 4"
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="flex items-center gap-4 mt-2 text-[10px] text-slate-600">
+                <div className="flex items-center gap-1.5">
+                  <span className="w-2.5 h-0.5 bg-violet-600" />
+                  Balance
+                </div>
+                <div className="flex items-center gap-1.5">
+                  <span className="w-2.5 h-0.5 bg-slate-400" />
+                  Withdrawn so far
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Auto-save indicator with subtle notes */}
+        <div className="px-5 py-2 bg-slate-50 border-t border-slate-100">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-[10px] text-slate-400">
+              <span className="w-1.5 h-1.5 bg-green-500 rounded-full" />
+              Auto-saved {lastSaved || 'just now'}
+            </div>
+            <button
+              onClick={() => setShowNotes(!showNotes)}
+              className={`flex items-center gap-1.5 px-2 py-1 rounded text-[10px] transition-colors ${
+                notes
+                  ? 'text-violet-600 bg-violet-50 hover:bg-violet-100'
+                  : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'
+              }`}
+              title={notes ? 'View note' : 'Add note'}
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+              </svg>
+              {notes ? 'Note' : 'Add note'}
+            </button>
+          </div>
+          {showNotes && (
+            <div className="mt-2 pt-2 border-t border-slate-200">
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Add a quick note..."
+                className="w-full h-16 p-2 text-xs text-slate-600 bg-white border border-slate-200 rounded resize-none focus:outline-none focus:ring-1 focus:ring-violet-400 focus:border-violet-400"
+                autoFocus
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Tax by Financial Year */}
+      {taxEnabled && result.taxYears.length > 0 && (
+        <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-100">
+            <h3 className="text-sm font-semibold text-slate-700">Tax by Financial Year</h3>
+          </div>
+          <div className="overflow-x-auto max-h-80 overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-[10px] uppercase tracking-wide text-slate-500 border-b border-slate-200 bg-slate-50">
+                  <th className="text-left px-4 py-2 font-medium">FY</th>
+                  <th className="text-right px-2 py-2 font-medium">Withdrawn</th>
+                  <th className="text-right px-2 py-2 font-medium">STCG</th>
+                  <th className="text-right px-2 py-2 font-medium">LTCG</th>
+                  <th className="text-right px-2 py-2 font-medium">Exempt</th>
+                  <th className="text-right px-4 py-2 font-medium">Tax</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {result.taxYears.map((year) => (
+                  <tr key={year.fy} className="border-b border-slate-100 text-slate-700">
+                    <td className="px-4 py-1.5 font-sans text-slate-500">{year.fy}</td>
+                    <td className="px-2 py-1.5 text-right">{formatCurrencyCompact(year.withdrawn)}</td>
+                    <td className="px-2 py-1.5 text-right">{formatCurrencyCompact(year.shortTermGain)}</td>
+                    <td className="px-2 py-1.5 text-right">{formatCurrencyCompact(year.longTermGain)}</td>
+                    <td className="px-2 py-1.5 text-right text-green-600">{formatCurrencyCompact(year.exemption)}</td>
+                    <td className="px-4 py-1.5 text-right font-semibold text-red-600">{formatCurrencyCompact(year.tax)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Withdrawal Schedule */}
+      <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-slate-700">Withdrawal Schedule</h3>
+          <div className="flex gap-1">
+            {([
+              ['yearly', 'Yearly'],
+              ['monthly', 'Monthly'],
+            ] as const).map(([view, label]) => (
+              <button
+                key={view}
+                onClick={() => setScheduleView(view)}
+                className={`px-2 py-1 text-[10px] font-medium rounded transition-colors ${
+                  scheduleView === view
+                    ? 'bg-violet-100 text-violet-700'
+                    : 'text-slate-500 hover:bg-slate-100'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-wide text-slate-500 border-b border-slate-200 bg-slate-50">
+                <th className="text-left px-4 py-2 font-medium">{scheduleView === 'yearly' ? 'Year' : 'Month'}</th>
+                <th className="text-right px-2 py-2 font-medium">Opening</th>
+                <th className="text-right px-2 py-2 font-medium">Returns</th>
+                <th className="text-right px-2 py-2 font-medium">Withdrawal</th>
+                <th className="text-right px-4 py-2 font-medium">Closing</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {scheduleView === 'yearly'
+                ? yearlySchedule.map((year) => (
+                    <tr key={year.year} className="border-b border-slate-100 text-slate-700">
+                      <td className="px-4 py-1.5 font-sans text-slate-500">Year {year.year}</td>
+                      <td className="px-2 py-1.5 text-right">{formatCurrencyCompact(year.openingBalance)}</td>
+                      <td className="px-2 py-1.5 text-right text-green-600">{formatCurrencyCompact(year.returns)}</td>
+                      <td className="px-2 py-1.5 text-right text-violet-600">{formatCurrencyCompact(year.withdrawal)}</td>
+                      <td className="px-4 py-1.5 text-right font-semibold">{formatCurrencyCompact(year.closingBalance)}</td>
+                    </tr>
+                  ))
+                : result.months.map((month) => (
+                    <tr
+                      key={month.month}
+                      className={`border-b border-slate-100 ${month.closingBalance === 0 ? 'text-red-500' : 'text-slate-700'}`}
+                    >
+                      <td className="px-4 py-1.5 font-sans text-slate-500">{formatMonth(month.date)}</td>
+                      <td className="px-2 py-1.5 text-right">{formatCurrencyCompact(month.openingBalance)}</td>
+                      <td className="px-2 py-1.5 text-right text-green-600">{formatCurrencyCompact(month.returns)}</td>
+                      <td className="px-2 py-1.5 text-right text-violet-600">{formatCurrencyCompact(month.withdrawal)}</td>
+                      <td className="px-4 py-1.5 text-right font-semibold">{formatCurrencyCompact(month.closingBalance)}</td>
+                    </tr>
+                  ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* About Section */}
+      <details className="bg-white border border-slate-200 rounded-xl">
+        <summary className="px-4 py-3 text-sm font-medium text-slate-700 cursor-pointer hover:bg-slate-50">
+          About SWP Calculator
+        </summary>
+        <div className="px-4 pb-4 text-sm text-slate-600 space-y-3">
+          <p>
+            A <strong>Systematic Withdrawal Plan (SWP)</strong> pays you a fixed amount from a mutual fund every month
+            while the rest of the corpus stays invested.
+          </p>
+          <ul className="list-disc list-inside space-y-1 text-slate-500">
+            <li><strong>Returns:</strong> the balance earns the expected return / 12 each month, before that month&apos;s withdrawal</li>
+            <li><strong>Step-up:</strong> the withdrawal rises by the yearly increase every 12 months, to keep pace with inflation</li>
+            <li><strong>Run-out:</strong> when the balance can&apos;t cover a withdrawal, what is left is paid out and the plan ends</li>
+            <li><strong>Tax:</strong> each withdrawal redeems units; only the gain in those units is taxed, not the whole amount</li>
+          </ul>
+          <p className="text-slate-500">
+            Tax uses each financial year&apos;s equity rates (the latest year&apos;s rates for future years) and ignores
+            surcharge and the Section 87A rebate. Debt fund gains are taxed at slab rates instead.
+          </p>
+        </div>
+      </details>
+    </div>
+  )
+})
+
+export default SWPCalculator
@@ -1,31 +1,22 @@
 'use client'
 
 import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
-
-interface TaxSlabBreakdown {
-  slab: string
-  range: string
-  rate: number
-  taxableAmount: number
-  tax: number
-}
-
-interface SalaryResult {
-  grossSalary: number
-  basicSalary: number
-  hra: number
-  specialAllowance: number
-  pf: number
-  professionalTax: number
-  incomeTax: number
-  netSalary: number
-  annualCTC: number
-  annualNet: number
-  taxableIncome: number
-  slabBreakdown: TaxSlabBreakdown[]
-  totalTaxBeforeCess: number
-  cess: number
-}
+import {
+  calculateSalary,
+  calculatePayroll,
+  calculateStateLevies,
+  optimizeSalaryStructure,
+  getTaxRules,
+  isFinancialYear,
+  PF_WAGE_CEILING,
+  GRATUITY_PROVISION_RATE,
+  ESI_WAGE_CEILING,
+  STATE_LEVY_RULES,
+  INDIAN_STATES,
+  FINANCIAL_YEARS,
+  LATEST_FY,
+} from '@/lib/calculations'
+import { EmployerCostOptions, FinancialYear, Gender, IndianState, PayrollBonus, SalaryResult, SalaryStructure, TaxRegime } from '@/types'
 
 function formatIndianNumber(num: number): string {
   const str = Math.round(num).toString()
@@ -50,128 +41,106 @@ function formatCompact(num: number): string {
   return `₹${Math.round(num)}`
 }
 
-// Tax Regimes - FY 2024-25 (Static, as per Union Budget 2024)
-// Source: Income Tax Department, India - https://incometaxindia.gov.in
-type TaxRegime = 'new' | 'old'
-
-const TAX_SLABS = {
-  new: {
-    name: 'New Regime',
-    standardDeduction: 75000,
-    slabs: [
-      { min: 0, max: 300000, rate: 0, label: '0 - 3L', color: 'bg-emerald-500' },
-      { min: 300000, max: 700000, rate: 5, label: '3L - 7L', color: 'bg-lime-500' },
-      { min: 700000, max: 1000000, rate: 10, label: '7L - 10L', color: 'bg-yellow-500' },
-      { min: 1000000, max: 1200000, rate: 15, label: '10L - 12L', color: 'bg-amber-500' },
-      { min: 1200000, max: 1500000, rate: 20, label: '12L - 15L', color: 'bg-orange-500' },
-      { min: 1500000, max: Infinity, rate: 30, label: '15L+', color: 'bg-red-500' },
-    ],
-    benefits: ['Lower tax rates', '₹75K standard deduction', 'Simpler filing'],
-    limitations: ['No 80C/80D deductions', 'No HRA exemption', 'No LTA'],
-  },
-  old: {
-    name: 'Old Regime',
-    standardDeduction: 50000,
-    slabs: [
-      { min: 0, max: 250000, rate: 0, label: '0 - 2.5L', color: 'bg-emerald-500' },
-      { min: 250000, max: 500000, rate: 5, label: '2.5L - 5L', color: 'bg-lime-500' },
-      { min: 500000, max: 1000000, rate: 20, label: '5L - 10L', color: 'bg-amber-500' },
-      { min: 1000000, max: Infinity, rate: 30, label: '10L+', color: 'bg-red-500' },
-    ],
-    benefits: ['80C up to ₹1.5L', '80D health insurance', 'HRA exemption', 'LTA, NPS benefits'],
-    limitations: ['Higher base rates', 'Complex filing', 'More documentation'],
-  },
+// Slab bar colours by tax rate
+const SLAB_COLORS: Record<number, string> = {
+  0: 'bg-emerald-500',
+  5: 'bg-lime-500',
+  10: 'bg-yellow-500',
+  15: 'bg-amber-500',
+  20: 'bg-orange-500',
+  25: 'bg-rose-500',
+  30: 'bg-red-500',
 }
 
-// Calculate tax with slab breakdown
-function calculateTaxWithBreakdown(
-  taxableIncome: number,
-  regime: TaxRegime
-): {
-  breakdown: TaxSlabBreakdown[]
-  totalTax: number
-  cess: number
-} {
-  const breakdown: TaxSlabBreakdown[] = []
-  let totalTax = 0
-  const slabs = TAX_SLABS[regime].slabs
-
-  for (const slab of slabs) {
-    if (taxableIncome <= slab.min) {
-      breakdown.push({
-        slab: slab.label,
-        range: `₹${formatCompact(slab.min)} - ${slab.max === Infinity ? '∞' : '₹' + formatCompact(slab.max)}`,
-        rate: slab.rate,
-        taxableAmount: 0,
-        tax: 0,
-      })
-    } else {
-      const amountInSlab = Math.min(taxableIncome, slab.max) - slab.min
-      const taxInSlab = amountInSlab * (slab.rate / 100)
-      totalTax += taxInSlab
-
-      breakdown.push({
-        slab: slab.label,
-        range: `₹${formatCompact(slab.min)} - ${slab.max === Infinity ? '∞' : '₹' + formatCompact(slab.max)}`,
-        rate: slab.rate,
-        taxableAmount: Math.round(amountInSlab),
-        tax: Math.round(taxInSlab),
-      })
-    }
-  }
+const REGIME_NAMES: Record<TaxRegime, string> = {
+  new: 'New Regime',
+  old: 'Old Regime',
+}
 
-  const cess = totalTax * 0.04
+// Annual income tax lines after the slab breakdown; rebate, relief and surcharge only when they apply
+function getTaxLines(result: SalaryResult, cessRate: number): { label: string; amount: number; deduct?: boolean }[] {
+  const lines = [
+    { label: 'Tax on Slabs', amount: result.slabTax },
+    { label: 'Section 87A Rebate', amount: result.rebate, deduct: true, optional: true },
+    { label: '87A Marginal Relief', amount: result.rebateMarginalRelief, deduct: true, optional: true },
+    { label: `Surcharge @ ${result.surchargeRate}%`, amount: result.surcharge, optional: true },
+    { label: 'Surcharge Marginal Relief', amount: result.surchargeMarginalRelief, deduct: true, optional: true },
+    { label: `Cess @ ${cessRate}%`, amount: result.cess },
+  ]
+  return lines.filter((line) => !line.optional || line.amount > 0)
+}
 
-  return { breakdown, totalTax: Math.round(totalTax), cess: Math.round(cess) }
+// Optimizer inputs beyond CTC, PF and professional tax
+interface OptimizerInputs {
+  rentPaid: number // monthly
+  isMetro: boolean
+  phoneBills: number // monthly
+  travelSpend: number // annual
+  includeNps: boolean
 }
 
-function calculateSalary(
-  ctc: number,
-  basicPercent: number,
-  hraPercent: number,
-  pfPercent: number,
-  professionalTax: number,
-  regime: TaxRegime
-): SalaryResult {
-  const monthlyGross = ctc / 12
-
-  const basicSalary = monthlyGross * (basicPercent / 100)
-  const hra = basicSalary * (hraPercent / 100)
-  const pf = basicSalary * (pfPercent / 100)
-
-  // Special allowance is the remainder
-  const specialAllowance = monthlyGross - basicSalary - hra
-
-  // Standard deduction based on regime
-  const standardDeduction = TAX_SLABS[regime].standardDeduction
-  const annualTaxableIncome = Math.max(0, ctc - (pf * 12) - standardDeduction)
-
-  // Calculate tax with slab breakdown
-  const { breakdown, totalTax, cess } = calculateTaxWithBreakdown(annualTaxableIncome, regime)
-  const annualTax = totalTax + cess
-  const incomeTax = annualTax / 12
-
-  // Deductions
-  const totalDeductions = pf + professionalTax + incomeTax
-
-  const netSalary = monthlyGross - totalDeductions
-
-  return {
-    grossSalary: Math.round(monthlyGross),
-    basicSalary: Math.round(basicSalary),
-    hra: Math.round(hra),
-    specialAllowance: Math.round(specialAllowance),
-    pf: Math.round(pf),
-    professionalTax: Math.round(professionalTax),
-    incomeTax: Math.round(incomeTax),
-    netSalary: Math.round(netSalary),
-    annualCTC: ctc,
-    annualNet: Math.round(netSalary * 12),
-    taxableIncome: Math.round(annualTaxableIncome),
-    slabBreakdown: breakdown,
-    totalTaxBeforeCess: totalTax,
-    cess: cess,
-  }
+const DEFAULT_OPTIMIZER: OptimizerInputs = {
+  rentPaid: 25000,
+  isMetro: true,
+  phoneBills: 1000,
+  travelSpend: 30000,
+  includeNps: true,
+}
+
+const DEFAULT_EMPLOYER_COST: EmployerCostOptions = {
+  enabled: true,
+  pfWageCeiling: false,
+  includeGratuity: true,
+}
+
+// Monthly employer costs that sit between CTC and gross, in display order
+function getEmployerCostRows(result: SalaryResult): { label: string; amount: number }[] {
+  return [
+    { label: 'Employer EPF', amount: result.employerEpf },
+    { label: 'Employer EPS (Pension)', amount: result.employerEps },
+    { label: 'EDLI Insurance', amount: result.edli },
+    { label: 'PF Admin Charges', amount: result.pfAdmin },
+    { label: 'Gratuity Provision', amount: result.gratuityProvision },
+    { label: 'Employer ESI', amount: result.employerEsi },
+  ].filter((row) => row.amount > 0)
+}
+
+// Month-by-month payroll inputs beyond the salary structure; months count from 0 = April
+interface PayrollInputs {
+  joiningMonth: number
+  incrementPercent: number
+  incrementMonth: number
+  variablePay: number // annual, included in CTC
+  variablePayMonth: number
+  bonuses: PayrollBonus[]
+  previousEmployerIncome: number
+  previousEmployerTds: number
+}
+
+const DEFAULT_PAYROLL: PayrollInputs = {
+  joiningMonth: 0,
+  incrementPercent: 0,
+  incrementMonth: 6,
+  variablePay: 0,
+  variablePayMonth: 11,
+  bonuses: [],
+  previousEmployerIncome: 0,
+  previousEmployerTds: 0,
+}
+
+const MAX_BONUSES = 6
+
+// Annual components of an optimized structure, in display order
+function getStructureRows(structure: SalaryStructure): { label: string; amount: number }[] {
+  return [
+    { label: 'Basic', amount: structure.basic },
+    { label: 'HRA', amount: structure.hra },
+    { label: 'Employer NPS', amount: structure.employerNps },
+    { label: 'Meal Card', amount: structure.mealCard },
+    { label: 'Telephone & Internet', amount: structure.telephone },
+    { label: 'LTA', amount: structure.lta },
+    { label: 'Special Allowance', amount: structure.specialAllowance },
+  ]
 }
 
 export interface SalaryCalculatorRef {
@@ -188,8 +157,13 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
   const [basicPercent, setBasicPercent] = useState(40)
   const [hraPercent, setHraPercent] = useState(50)
   const [pfPercent, setPfPercent] = useState(12)
-  const [professionalTax, setProfessionalTax] = useState(200)
+  const [workState, setWorkState] = useState<IndianState>('maharashtra')
+  const [gender, setGender] = useState<Gender>('male')
   const [taxRegime, setTaxRegime] = useState<TaxRegime>('new')
+  const [fy, setFy] = useState<FinancialYear>(LATEST_FY)
+  const [employerCost, setEmployerCost] = useState<EmployerCostOptions>(DEFAULT_EMPLOYER_COST)
+  const [optimizer, setOptimizer] = useState<OptimizerInputs>(DEFAULT_OPTIMIZER)
+  const [payroll, setPayroll] = useState<PayrollInputs>(DEFAULT_PAYROLL)
   const [lastSaved, setLastSaved] = useState<string | null>(null)
   const [isLoaded, setIsLoaded] = useState(false)
   const [notes, setNotes] = useState('')
@@ -209,8 +183,13 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
       setBasicPercent(data.basicPercent || 40)
       setHraPercent(data.hraPercent || 50)
       setPfPercent(data.pfPercent || 12)
-      setProfessionalTax(data.professionalTax || 200)
+      setWorkState(data.workState in STATE_LEVY_RULES ? data.workState : 'maharashtra')
+      setGender(data.gender === 'female' ? 'female' : 'male')
       setTaxRegime(data.taxRegime || 'new')
+      setFy(isFinancialYear(data.fy) ? data.fy : LATEST_FY)
+      setEmployerCost({ ...DEFAULT_EMPLOYER_COST, ...data.employerCost })
+      setOptimizer({ ...DEFAULT_OPTIMIZER, ...data.optimizer })
+      setPayroll({ ...DEFAULT_PAYROLL, ...data.payroll })
       setNotes(data.notes || '')
       setUserModified(data.userModified || false)
     }
@@ -220,10 +199,10 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
   // Auto-save to localStorage
   useEffect(() => {
     if (!isLoaded) return
-    const data = { ctc, basicPercent, hraPercent, pfPercent, professionalTax, taxRegime, notes, userModified }
+    const data = { ctc, basicPercent, hraPercent, pfPercent, workState, gender, taxRegime, fy, employerCost, optimizer, payroll, notes, userModified }
     localStorage.setItem('calc_salary', JSON.stringify(data))
     setLastSaved(new Date().toLocaleTimeString())
-  }, [ctc, basicPercent, hraPercent, pfPercent, professionalTax, taxRegime, notes, userModified, isLoaded])
+  }, [ctc, basicPercent, hraPercent, pfPercent, workState, gender, taxRegime, fy, employerCost, optimizer, payroll, notes, userModified, isLoaded])
 
   const handleClear = () => {
     setCtc(1200000)
@@ -231,29 +210,94 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
     setBasicPercent(40)
     setHraPercent(50)
     setPfPercent(12)
-    setProfessionalTax(200)
+    setWorkState('maharashtra')
+    setGender('male')
     setTaxRegime('new')
+    setFy(LATEST_FY)
+    setEmployerCost(DEFAULT_EMPLOYER_COST)
+    setOptimizer(DEFAULT_OPTIMIZER)
+    setPayroll(DEFAULT_PAYROLL)
     setNotes('')
     localStorage.removeItem('calc_salary')
   }
 
+  // Professional tax and LWF follow gross pay, which does not depend on them
+  const levies = useMemo(() => {
+    const { grossSalary } = calculateSalary(ctc, basicPercent, hraPercent, pfPercent, 0, taxRegime, fy, employerCost)
+    return calculateStateLevies(workState, grossSalary, gender)
+  }, [ctc, basicPercent, hraPercent, pfPercent, taxRegime, fy, employerCost, workState, gender])
+  const professionalTax = levies.annualProfessionalTax / 12
+  const stateRules = STATE_LEVY_RULES[workState]
+
   const result = useMemo(
-    () => calculateSalary(ctc, basicPercent, hraPercent, pfPercent, professionalTax, taxRegime),
-    [ctc, basicPercent, hraPercent, pfPercent, professionalTax, taxRegime]
+    () => calculateSalary(ctc, basicPercent, hraPercent, pfPercent, professionalTax, taxRegime, fy, employerCost),
+    [ctc, basicPercent, hraPercent, pfPercent, professionalTax, taxRegime, fy, employerCost]
   )
+  const employerCostRows = getEmployerCostRows(result)
+  const monthlyEmployerCost = employerCostRows.reduce((sum, row) => sum + row.amount, 0)
 
   // Calculate comparison with other regime
   const otherRegime = taxRegime === 'new' ? 'old' : 'new'
   const otherResult = useMemo(
-    () => calculateSalary(ctc, basicPercent, hraPercent, pfPercent, professionalTax, otherRegime),
-    [ctc, basicPercent, hraPercent, pfPercent, professionalTax, otherRegime]
+    () => calculateSalary(ctc, basicPercent, hraPercent, pfPercent, professionalTax, otherRegime, fy, employerCost),
+    [ctc, basicPercent, hraPercent, pfPercent, professionalTax, otherRegime, fy, employerCost]
   )
+  const rules = getTaxRules(fy)
   const taxSavings = otherResult.incomeTax * 12 - (result.totalTaxBeforeCess + result.cess)
 
+  const optimized = useMemo(
+    () => optimizeSalaryStructure({ ctc, pfPercent, professionalTax, fy, ...optimizer }),
+    [ctc, pfPercent, professionalTax, fy, optimizer]
+  )
+  const bestStructure = optimized[optimized.best]
+  const setEmployerCostValue = <K extends keyof EmployerCostOptions>(key: K, value: EmployerCostOptions[K]) =>
+    setEmployerCost((prev) => ({ ...prev, [key]: value }))
+  const setOptimizerValue = <K extends keyof OptimizerInputs>(key: K, value: OptimizerInputs[K]) =>
+    setOptimizer((prev) => ({ ...prev, [key]: value }))
+
+  // Payroll runs on the gross pay left after employer costs, with basic and PF restated against it
+  const payrollResult = useMemo(() => {
+    const annualGross = Math.max(0, ctc - monthlyEmployerCost * 12)
+    const monthlyBasic = (ctc / 12) * (basicPercent / 100)
+    const pfWage = employerCost.enabled && employerCost.pfWageCeiling ? Math.min(monthlyBasic, PF_WAGE_CEILING) : monthlyBasic
+    return calculatePayroll({
+      ctc: annualGross,
+      basicPercent: annualGross > 0 ? (monthlyBasic * 12 * 100) / annualGross : basicPercent,
+      hraPercent,
+      pfPercent: monthlyBasic > 0 ? pfPercent * (pfWage / monthlyBasic) : pfPercent,
+      professionalTax,
+      professionalTaxByMonth: levies.professionalTaxByMonth,
+      labourWelfareFundByMonth: levies.labourWelfareFundByMonth,
+      regime: taxRegime,
+      fy,
+      ...payroll,
+      variablePay: Math.min(payroll.variablePay, annualGross),
+    })
+  }, [ctc, monthlyEmployerCost, basicPercent, hraPercent, pfPercent, professionalTax, levies, taxRegime, fy, employerCost, payroll])
+  const payrollMonths = payrollResult.months.map((month) => month.month)
+  const setPayrollValue = <K extends keyof PayrollInputs>(key: K, value: PayrollInputs[K]) =>
+    setPayroll((prev) => ({ ...prev, [key]: value }))
+
+  const addBonus = () => {
+    if (payroll.bonuses.length >= MAX_BONUSES) return
+    const nextId = Math.max(0, ...payroll.bonuses.map((b) => b.id)) + 1
+    setPayrollValue('bonuses', [...payroll.bonuses, { id: nextId, month: 6, amount: 0 }])
+  }
+
+  const removeBonus = (id: number) => {
+    setPayrollValue('bonuses', payroll.bonuses.filter((b) => b.id !== id))
+  }
+
+  const updateBonus = <K extends keyof PayrollBonus>(id: number, field: K, value: PayrollBonus[K]) => {
+    setPayrollValue('bonuses', payroll.bonuses.map((b) => (b.id === id ? { ...b, [field]: value } : b)))
+  }
+
   // Export functions
   const exportToExcel = () => {
     const csvContent = [
-      `Salary Breakdown Calculator`,
+      `Salary Breakdown Calculator - ${rules.label}`,
+      `Tax Regime: ${REGIME_NAMES[taxRegime]}`,
+      `State: ${stateRules.name}`,
       `Generated: ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}`,
       ``,
       `ANNUAL`,
@@ -261,6 +305,12 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
       `Annual Net Salary: ₹${formatIndianNumber(result.annualNet)}`,
       ``,
       `MONTHLY BREAKDOWN`,
+      ...(employerCost.enabled
+        ? [
+            `Monthly CTC: ₹${formatIndianNumber(ctc / 12)}`,
+            ...employerCostRows.map((row) => `${row.label}: -₹${formatIndianNumber(row.amount)}`),
+          ]
+        : []),
       `Gross Salary: ₹${formatIndianNumber(result.grossSalary)}`,
       ``,
       `EARNINGS`,
@@ -270,11 +320,47 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
       ``,
       `DEDUCTIONS`,
       `PF (Employee): ₹${formatIndianNumber(result.pf)}`,
-      `Professional Tax: ₹${formatIndianNumber(result.professionalTax)}`,
+      ...(result.esiApplicable ? [`ESI (Employee): ₹${formatIndianNumber(result.employeeEsi)}`] : []),
+      `Professional Tax (avg): ₹${formatIndianNumber(result.professionalTax)}`,
       `Income Tax (Est.): ₹${formatIndianNumber(result.incomeTax)}`,
       ``,
+      `ANNUAL INCOME TAX`,
+      `Taxable Income: ₹${formatIndianNumber(result.taxableIncome)}`,
+      ...getTaxLines(result, rules.cessRate).map((line) => `${line.label}: ${line.deduct ? '-' : ''}₹${formatIndianNumber(line.amount)}`),
+      `Total Tax: ₹${formatIndianNumber(result.totalTaxBeforeCess + result.cess)}`,
+      ``,
       `NET SALARY`,
       `Take Home: ₹${formatIndianNumber(result.netSalary)}`,
+      ``,
+      `OPTIMIZED STRUCTURE - ANNUAL (Old Regime | New Regime)`,
+      ...getStructureRows(optimized.old).map((row, index) =>
+        `${row.label}: ₹${formatIndianNumber(row.amount)} | ₹${formatIndianNumber(getStructureRows(optimized.new)[index].amount)}`
+      ),
+      `Basic % of CTC: ${optimized.old.basicPercent}% | ${optimized.new.basicPercent}%`,
+      `Income Tax: ₹${formatIndianNumber(optimized.old.tax)} | ₹${formatIndianNumber(optimized.new.tax)}`,
+      `Take Home (incl. PF & NPS): ₹${formatIndianNumber(optimized.old.takeHome)} | ₹${formatIndianNumber(optimized.new.takeHome)}`,
+      `Monthly In-hand: ₹${formatIndianNumber(optimized.old.monthlyInHand)} | ₹${formatIndianNumber(optimized.new.monthlyInHand)}`,
+      `Best: ${REGIME_NAMES[optimized.best]}`,
+      ...bestStructure.explanation.map((line) => `- ${line}`),
+      ``,
+      `STATE LEVIES - ${stateRules.name.toUpperCase()}`,
+      `Professional Tax: ₹${formatIndianNumber(levies.annualProfessionalTax)}/year`,
+      `Labour Welfare Fund: ₹${formatIndianNumber(levies.annualLabourWelfareFund)}/year (employer ₹${formatIndianNumber(levies.employerLabourWelfareFund)})`,
+      ``,
+      `MONTHLY PAYROLL (Gross | One-time | PF | PT & LWF | TDS | Net)`,
+      ...payrollResult.months.map((month) =>
+        `${month.month}: ₹${formatIndianNumber(month.gross)} | ₹${formatIndianNumber(month.oneTime)} | ₹${formatIndianNumber(month.pf)} | ₹${formatIndianNumber(month.professionalTax + month.labourWelfareFund)} | ₹${formatIndianNumber(month.tds)} | ₹${formatIndianNumber(month.netPay)}`
+      ),
+      `Total: ₹${formatIndianNumber(payrollResult.totalGross)} | | ₹${formatIndianNumber(payrollResult.totalPf)} | | ₹${formatIndianNumber(payrollResult.totalTds)} | ₹${formatIndianNumber(payrollResult.totalNet)}`,
+      ...(payroll.previousEmployerIncome > 0
+        ? [
+            `Previous Employer Income (Form 12B): ₹${formatIndianNumber(payroll.previousEmployerIncome)}`,
+            `Previous Employer TDS: ₹${formatIndianNumber(payroll.previousEmployerTds)}`,
+          ]
+        : []),
+      `Taxable Income: ₹${formatIndianNumber(payrollResult.taxableIncome)}`,
+      `Annual Tax: ₹${formatIndianNumber(payrollResult.annualTax)}`,
+      `Balance Tax: ${payrollResult.balanceTax < 0 ? '-' : ''}₹${formatIndianNumber(Math.abs(payrollResult.balanceTax))}`,
     ].join('\n')
 
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
@@ -312,7 +398,7 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
       </head>
       <body>
         <h1>Salary Breakdown Report</h1>
-        <p class="subtitle">Generated on ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}</p>
+        <p class="subtitle">${rules.label} | ${REGIME_NAMES[taxRegime]} | ${stateRules.name} | Generated on ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}</p>
 
         <div class="highlight">
           <div class="highlight-label">Monthly Take Home</div>
@@ -326,6 +412,16 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
             <th>Component</th>
             <th style="text-align: right;">Amount</th>
           </tr>
+          ${employerCost.enabled ? `
+          <tr>
+            <td>Monthly CTC</td>
+            <td style="text-align: right;">₹${formatIndianNumber(ctc / 12)}</td>
+          </tr>
+          ${employerCostRows.map((row) => `
+          <tr>
+            <td>${row.label}</td>
+            <td style="text-align: right;" class="deductions">-₹${formatIndianNumber(row.amount)}</td>
+          </tr>`).join('')}` : ''}
           <tr>
             <td><strong>Gross Salary</strong></td>
             <td style="text-align: right;"><strong>₹${formatIndianNumber(result.grossSalary)}</strong></td>
@@ -352,8 +448,13 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
             <td>PF (Employee)</td>
             <td style="text-align: right;" class="deductions">-₹${formatIndianNumber(result.pf)}</td>
           </tr>
+          ${result.esiApplicable ? `
+          <tr>
+            <td>ESI (Employee)</td>
+            <td style="text-align: right;" class="deductions">-₹${formatIndianNumber(result.employeeEsi)}</td>
+          </tr>` : ''}
           <tr>
-            <td>Professional Tax</td>
+            <td>Professional Tax (₹${formatIndianNumber(levies.annualProfessionalTax)}/year)</td>
             <td style="text-align: right;" class="deductions">-₹${formatIndianNumber(result.professionalTax)}</td>
           </tr>
           <tr>
@@ -366,6 +467,87 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
           </tr>
         </table>
 
+        <h2>Annual Income Tax</h2>
+        <table class="breakdown-table">
+          <tr>
+            <td>Taxable Income</td>
+            <td style="text-align: right;">₹${formatIndianNumber(result.taxableIncome)}</td>
+          </tr>
+          ${getTaxLines(result, rules.cessRate).map((line) => `
+          <tr>
+            <td>${line.label}</td>
+            <td style="text-align: right;"${line.deduct ? ' class="earnings"' : ''}>${line.deduct ? '-' : ''}₹${formatIndianNumber(line.amount)}</td>
+          </tr>`).join('')}
+          <tr style="background: #f1f5f9;">
+            <td><strong>Total Tax</strong></td>
+            <td style="text-align: right;"><strong>₹${formatIndianNumber(result.totalTaxBeforeCess + result.cess)}</strong></td>
+          </tr>
+        </table>
+
+        <h2>Optimized Salary Structure (Annual)</h2>
+        <table class="breakdown-table">
+          <tr>
+            <th>Component</th>
+            <th style="text-align: right;">Old Regime${optimized.best === 'old' ? ' ✓' : ''}</th>
+            <th style="text-align: right;">New Regime${optimized.best === 'new' ? ' ✓' : ''}</th>
+          </tr>
+          ${getStructureRows(optimized.old).map((row, index) => `
+          <tr>
+            <td>${row.label}</td>
+            <td style="text-align: right;">₹${formatIndianNumber(row.amount)}</td>
+            <td style="text-align: right;">₹${formatIndianNumber(getStructureRows(optimized.new)[index].amount)}</td>
+          </tr>`).join('')}
+          <tr>
+            <td>Income Tax</td>
+            <td style="text-align: right;" class="deductions">-₹${formatIndianNumber(optimized.old.tax)}</td>
+            <td style="text-align: right;" class="deductions">-₹${formatIndianNumber(optimized.new.tax)}</td>
+          </tr>
+          <tr style="background: #ffedd5;">
+            <td><strong>Monthly In-hand</strong></td>
+            <td style="text-align: right;"><strong>₹${formatIndianNumber(optimized.old.monthlyInHand)}</strong></td>
+            <td style="text-align: right;"><strong>₹${formatIndianNumber(optimized.new.monthlyInHand)}</strong></td>
+          </tr>
+        </table>
+        <ul style="font-size: 12px; color: #475569; line-height: 1.6;">
+          ${bestStructure.explanation.map((line) => `<li>${line}</li>`).join('')}
+        </ul>
+
+        <h2>Monthly Payroll (Apr–Mar)</h2>
+        <table class="breakdown-table">
+          <tr>
+            <th>Month</th>
+            <th style="text-align: right;">Gross</th>
+            <th style="text-align: right;">One-time</th>
+            <th style="text-align: right;">PF</th>
+            <th style="text-align: right;">PT &amp; LWF</th>
+            <th style="text-align: right;">TDS</th>
+            <th style="text-align: right;">Net</th>
+          </tr>
+          ${payrollResult.months.map((month) => `
+          <tr${month.employed ? '' : ' style="color: #94a3b8;"'}>
+            <td>${month.month}</td>
+            <td style="text-align: right;">₹${formatIndianNumber(month.gross)}</td>
+            <td style="text-align: right;">${month.oneTime > 0 ? `₹${formatIndianNumber(month.oneTime)}` : '-'}</td>
+            <td style="text-align: right;">₹${formatIndianNumber(month.pf)}</td>
+            <td style="text-align: right;">₹${formatIndianNumber(month.professionalTax + month.labourWelfareFund)}</td>
+            <td style="text-align: right;" class="deductions">₹${formatIndianNumber(month.tds)}</td>
+            <td style="text-align: right;">₹${formatIndianNumber(month.netPay)}</td>
+          </tr>`).join('')}
+          <tr style="background: #ffedd5;">
+            <td><strong>Total</strong></td>
+            <td style="text-align: right;"><strong>₹${formatIndianNumber(payrollResult.totalGross)}</strong></td>
+            <td></td>
+            <td style="text-align: right;"><strong>₹${formatIndianNumber(payrollResult.totalPf)}</strong></td>
+            <td></td>
+            <td style="text-align: right;"><strong>₹${formatIndianNumber(payrollResult.totalTds)}</strong></td>
+            <td style="text-align: right;"><strong>₹${formatIndianNumber(payrollResult.totalNet)}</strong></td>
+          </tr>
+        </table>
+        <p style="font-size: 12px; color: #475569;">
+          Annual tax ₹${formatIndianNumber(payrollResult.annualTax)} on taxable income ₹${formatIndianNumber(payrollResult.taxableIncome)}${payroll.previousEmployerIncome > 0 ? ` (incl. ₹${formatIndianNumber(payroll.previousEmployerIncome)} from previous employer, TDS ₹${formatIndianNumber(payroll.previousEmployerTds)})` : ''}.
+          ${payrollResult.balanceTax > 0 ? `Balance payable: ₹${formatIndianNumber(payrollResult.balanceTax)}` : payrollResult.balanceTax < 0 ? `Refund due: ₹${formatIndianNumber(-payrollResult.balanceTax)}` : 'Fully covered by TDS.'}
+        </p>
+
         ${notes && notes.trim() ? `
         <div class="notes-section">
           <div class="notes-title">
@@ -418,6 +600,7 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
         <div class="highlight">
           <h3>Monthly Take Home: ₹${formatIndianNumber(result.netSalary)}</h3>
           <p>Annual CTC: ₹${formatIndianNumber(ctc)}</p>
+          <p>${rules.label} | ${REGIME_NAMES[taxRegime]}</p>
         </div>
         ${notes && notes.trim() ? `
         <div class="notes-section">
@@ -606,11 +789,101 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
               </div>
             </div>
 
+            {/* State for professional tax and LWF */}
+            <div>
+              <div className="flex justify-between items-baseline mb-2">
+                <label className="text-sm font-medium text-slate-600">State</label>
+                <span className="font-mono text-sm font-semibold text-slate-900">
+                  PT ₹{formatIndianNumber(levies.annualProfessionalTax)}/yr
+                </span>
+              </div>
+              <div className="flex gap-2">
+                <select
+                  value={workState}
+                  onChange={(e) => setWorkState(e.target.value as IndianState)}
+                  className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                >
+                  {INDIAN_STATES.map((state) => (
+                    <option key={state} value={state}>{STATE_LEVY_RULES[state].name}</option>
+                  ))}
+                </select>
+                {levies.genderSpecific && (
+                  <div className="flex rounded border border-slate-200 overflow-hidden">
+                    {(['male', 'female'] as const).map((option) => (
+                      <button
+                        key={option}
+                        onClick={() => setGender(option)}
+                        className={`px-2 text-xs transition-colors ${
+                          gender === option ? 'bg-orange-500 text-white' : 'bg-white text-slate-600 hover:bg-orange-50'
+                        }`}
+                      >
+                        {option === 'male' ? 'Male' : 'Female'}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="mt-1 text-[10px] text-slate-400">
+                {stateRules.professionalTax
+                  ? stateRules.professionalTax.frequency === 'half-yearly'
+                    ? 'Professional tax deducted half-yearly in Sep and Mar'
+                    : `₹${formatIndianNumber(levies.professionalTaxByMonth[0])}/month, ₹${formatIndianNumber(levies.professionalTaxByMonth[10])} in Feb`
+                  : 'No professional tax'}
+                {' · '}
+                {stateRules.labourWelfareFund
+                  ? `LWF ₹${levies.annualLabourWelfareFund}/yr (employer ₹${levies.employerLabourWelfareFund})`
+                  : 'No LWF'}
+              </div>
+            </div>
+
+            {/* Employer Costs */}
+            <div className="p-3 bg-slate-50 rounded-lg border border-slate-200 space-y-1.5">
+              <label className="flex items-center gap-1.5 text-xs font-medium text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={employerCost.enabled}
+                  onChange={(e) => setEmployerCostValue('enabled', e.target.checked)}
+                  className="accent-orange-600"
+                />
+                Deduct employer costs from CTC
+              </label>
+              {employerCost.enabled && (
+                <div className="pl-5 space-y-1">
+                  <label className="flex items-center gap-1.5 text-[11px] text-slate-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={employerCost.pfWageCeiling}
+                      onChange={(e) => setEmployerCostValue('pfWageCeiling', e.target.checked)}
+                      className="accent-orange-600"
+                    />
+                    PF on ₹{formatIndianNumber(PF_WAGE_CEILING)} wage ceiling
+                  </label>
+                  <label className="flex items-center gap-1.5 text-[11px] text-slate-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={employerCost.includeGratuity}
+                      onChange={(e) => setEmployerCostValue('includeGratuity', e.target.checked)}
+                      className="accent-orange-600"
+                    />
+                    Gratuity provision ({GRATUITY_PROVISION_RATE}% of basic)
+                  </label>
+                </div>
+              )}
+            </div>
+
             {/* Tax Regime Toggle */}
             <div className="p-3 bg-gradient-to-r from-slate-50 to-slate-100 rounded-lg border border-slate-200">
               <div className="flex items-center justify-between mb-2">
                 <span className="text-xs font-medium text-slate-600">Tax Regime</span>
-                <span className="text-[9px] px-1.5 py-0.5 bg-slate-200 text-slate-600 rounded">FY 2024-25</span>
+                <select
+                  value={fy}
+                  onChange={(e) => setFy(e.target.value as FinancialYear)}
+                  className="text-[9px] px-1.5 py-0.5 bg-slate-200 text-slate-600 rounded focus:outline-none focus:ring-1 focus:ring-blue-400"
+                >
+                  {FINANCIAL_YEARS.map((year) => (
+                    <option key={year} value={year}>FY {year}</option>
+                  ))}
+                </select>
               </div>
               <div className="flex gap-2">
                 <button
@@ -638,8 +911,8 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
               {taxSavings !== 0 && (
                 <div className={`mt-2 text-[10px] ${taxSavings > 0 ? 'text-green-600' : 'text-amber-600'}`}>
                   {taxSavings > 0
-                    ? `✓ Saving ₹${formatIndianNumber(Math.abs(taxSavings))}/year vs ${TAX_SLABS[otherRegime].name}`
-                    : `${TAX_SLABS[otherRegime].name} saves ₹${formatIndianNumber(Math.abs(taxSavings))}/year`
+                    ? `✓ Saving ₹${formatIndianNumber(Math.abs(taxSavings))}/year vs ${REGIME_NAMES[otherRegime]}`
+                    : `${REGIME_NAMES[otherRegime]} saves ₹${formatIndianNumber(Math.abs(taxSavings))}/year`
                   }
                 </div>
               )}
@@ -663,7 +936,28 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
 
             {/* Breakdown */}
             <div className="bg-white rounded-lg p-4 space-y-3">
-              <div className="text-xs font-semibold text-slate-700 border-b pb-2">Earnings</div>
+              {employerCost.enabled && (
+                <>
+                  <div className="text-xs font-semibold text-slate-700 border-b pb-2">CTC to Gross</div>
+                  <div className="space-y-2 text-xs">
+                    <div className="flex justify-between">
+                      <span className="text-slate-600">Monthly CTC</span>
+                      <span className="font-mono text-slate-700">₹{formatIndianNumber(ctc / 12)}</span>
+                    </div>
+                    {employerCostRows.map((row) => (
+                      <div key={row.label} className="flex justify-between">
+                        <span className="text-slate-600">{row.label}</span>
+                        <span className="font-mono text-slate-500">-₹{formatIndianNumber(row.amount)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between font-semibold">
+                      <span className="text-slate-700">Gross Salary</span>
+                      <span className="font-mono text-slate-900">₹{formatIndianNumber(result.grossSalary)}</span>
+                    </div>
+                  </div>
+                </>
+              )}
+              <div className={`text-xs font-semibold text-slate-700 border-b pb-2 ${employerCost.enabled ? 'pt-2' : ''}`}>Earnings</div>
               <div className="space-y-2 text-xs">
                 <div className="flex justify-between">
                   <span className="text-slate-600">Basic Salary</span>
@@ -685,8 +979,14 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
                   <span className="text-slate-600">PF (Employee)</span>
                   <span className="font-mono text-red-600">-₹{formatIndianNumber(result.pf)}</span>
                 </div>
+                {result.esiApplicable && (
+                  <div className="flex justify-between">
+                    <span className="text-slate-600">ESI (Employee)</span>
+                    <span className="font-mono text-red-600">-₹{formatIndianNumber(result.employeeEsi)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
-                  <span className="text-slate-600">Professional Tax</span>
+                  <span className="text-slate-600">Professional Tax{professionalTax > 0 && ' (avg)'}</span>
                   <span className="font-mono text-red-600">-₹{formatIndianNumber(result.professionalTax)}</span>
                 </div>
                 <div className="flex justify-between">
@@ -749,10 +1049,10 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
               <span className={`text-[9px] px-2 py-0.5 rounded-full font-medium ${
                 taxRegime === 'new' ? 'bg-blue-100 text-blue-700' : 'bg-amber-100 text-amber-700'
               }`}>
-                {TAX_SLABS[taxRegime].name}
+                {REGIME_NAMES[taxRegime]}
               </span>
             </div>
-            <span className="text-[10px] text-slate-400">FY 2024-25 • Union Budget 2024</span>
+            <span className="text-[10px] text-slate-400">FY {fy} • {rules.budget}</span>
           </div>
         </div>
 
@@ -765,7 +1065,7 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
             </div>
             <div className="text-right text-[10px] text-slate-500">
               <div>CTC ₹{formatIndianNumber(result.annualCTC)}</div>
-              <div>- PF ₹{formatIndianNumber(result.pf * 12)} - Std. ₹{formatIndianNumber(TAX_SLABS[taxRegime].standardDeduction)}</div>
+              <div>- PF ₹{formatIndianNumber(result.pf * 12)} - Std. ₹{formatIndianNumber(rules[taxRegime].standardDeduction)}</div>
             </div>
           </div>
 
@@ -786,7 +1086,7 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
           {/* ===== Tax Breakdown Visualization ===== */}
           {(() => {
             const otherRegimeKey = taxRegime === 'new' ? 'old' : 'new'
-            const otherResult = calculateSalary(ctc, basicPercent, hraPercent, pfPercent, professionalTax, otherRegimeKey)
+            const otherResult = calculateSalary(ctc, basicPercent, hraPercent, pfPercent, professionalTax, otherRegimeKey, fy, employerCost)
             const otherTax = otherResult.totalTaxBeforeCess + otherResult.cess
             const otherEffectiveRate = otherResult.taxableIncome > 0
               ? (otherTax / otherResult.taxableIncome * 100).toFixed(1)
@@ -816,8 +1116,7 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
 
                   {/* The main segmented bar */}
                   <div className="h-12 flex rounded-lg overflow-hidden shadow-inner border border-slate-200">
-                    {TAX_SLABS[taxRegime].slabs.map((slab, index) => {
-                      const slabData = result.slabBreakdown[index]
+                    {result.slabBreakdown.map((slabData, index) => {
                       const percentage = result.taxableIncome > 0
                         ? (slabData.taxableAmount / result.taxableIncome) * 100
                         : 0
@@ -825,10 +1124,10 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
                       return (
                         <div
                           key={index}
-                          className={`${slab.color} flex flex-col items-center justify-center transition-all relative group`}
+                          className={`${SLAB_COLORS[slabData.rate]} flex flex-col items-center justify-center transition-all relative group`}
                           style={{ width: `${percentage}%` }}
                         >
-                          <span className="text-[10px] font-bold text-white drop-shadow">{slab.label}</span>
+                          <span className="text-[10px] font-bold text-white drop-shadow">{slabData.slab}</span>
                           <span className="text-[8px] text-white/80">{formatCompact(slabData.taxableAmount)}</span>
                         </div>
                       )
@@ -837,8 +1136,7 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
 
                   {/* Labels below the bar */}
                   <div className="flex mt-2">
-                    {TAX_SLABS[taxRegime].slabs.map((slab, index) => {
-                      const slabData = result.slabBreakdown[index]
+                    {result.slabBreakdown.map((slabData, index) => {
                       const percentage = result.taxableIncome > 0
                         ? (slabData.taxableAmount / result.taxableIncome) * 100
                         : 0
@@ -849,10 +1147,10 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
                           className="flex flex-col items-center justify-start text-center"
                           style={{ width: `${percentage}%` }}
                         >
-                          <div className={`text-[9px] font-medium ${slab.rate === 0 ? 'text-emerald-600' : 'text-slate-600'}`}>
-                            {slab.rate}%
+                          <div className={`text-[9px] font-medium ${slabData.rate === 0 ? 'text-emerald-600' : 'text-slate-600'}`}>
+                            {slabData.rate}%
                           </div>
-                          <div className={`text-[10px] font-bold ${slab.rate === 0 ? 'text-emerald-700' : 'text-red-600'}`}>
+                          <div className={`text-[10px] font-bold ${slabData.rate === 0 ? 'text-emerald-700' : 'text-red-600'}`}>
                             ₹{formatIndianNumber(slabData.tax)}
                           </div>
                         </div>
@@ -862,7 +1160,9 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
 
                   {/* Tax breakdown note */}
                   <div className="text-[9px] text-slate-400 mt-2 pt-2 border-t border-slate-200">
-                    Tax ₹{formatIndianNumber(result.totalTaxBeforeCess)} + 4% Cess ₹{formatIndianNumber(result.cess)}
+                    {getTaxLines(result, rules.cessRate)
+                      .map((line, index) => `${index === 0 ? '' : line.deduct ? ' − ' : ' + '}${line.label} ₹${formatIndianNumber(line.amount)}`)
+                      .join('')}
                   </div>
                 </div>
 
@@ -928,8 +1228,7 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
 
                       {/* Full bar */}
                       <div className="h-12 flex rounded-lg overflow-hidden shadow-inner border border-slate-200">
-                        {TAX_SLABS[otherRegimeKey].slabs.map((slab, index) => {
-                          const slabData = otherResult.slabBreakdown[index]
+                        {otherResult.slabBreakdown.map((slabData, index) => {
                           const percentage = otherResult.taxableIncome > 0
                             ? (slabData.taxableAmount / otherResult.taxableIncome) * 100
                             : 0
@@ -937,10 +1236,10 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
                           return (
                             <div
                               key={index}
-                              className={`${slab.color} flex flex-col items-center justify-center`}
+                              className={`${SLAB_COLORS[slabData.rate]} flex flex-col items-center justify-center`}
                               style={{ width: `${percentage}%` }}
                             >
-                              <span className="text-[10px] font-bold text-white drop-shadow">{slab.label}</span>
+                              <span className="text-[10px] font-bold text-white drop-shadow">{slabData.slab}</span>
                               <span className="text-[8px] text-white/80">{formatCompact(slabData.taxableAmount)}</span>
                             </div>
                           )
@@ -949,8 +1248,7 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
 
                       {/* Labels below the bar */}
                       <div className="flex mt-2">
-                        {TAX_SLABS[otherRegimeKey].slabs.map((slab, index) => {
-                          const slabData = otherResult.slabBreakdown[index]
+                        {otherResult.slabBreakdown.map((slabData, index) => {
                           const percentage = otherResult.taxableIncome > 0
                             ? (slabData.taxableAmount / otherResult.taxableIncome) * 100
                             : 0
@@ -961,10 +1259,10 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
                               className="flex flex-col items-center justify-start text-center"
                               style={{ width: `${percentage}%` }}
                             >
-                              <div className={`text-[9px] font-medium ${slab.rate === 0 ? 'text-emerald-600' : 'text-slate-600'}`}>
-                                {slab.rate}%
+                              <div className={`text-[9px] font-medium ${slabData.rate === 0 ? 'text-emerald-600' : 'text-slate-600'}`}>
+                                {slabData.rate}%
                               </div>
-                              <div className={`text-[10px] font-bold ${slab.rate === 0 ? 'text-emerald-700' : 'text-red-600'}`}>
+                              <div className={`text-[10px] font-bold ${slabData.rate === 0 ? 'text-emerald-700' : 'text-red-600'}`}>
                                 ₹{formatIndianNumber(slabData.tax)}
                               </div>
                             </div>
@@ -974,7 +1272,9 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
 
                       {/* Tax breakdown note */}
                       <div className="text-[9px] text-slate-400 mt-2 pt-2 border-t border-slate-200">
-                        Tax ₹{formatIndianNumber(otherResult.totalTaxBeforeCess)} + 4% Cess ₹{formatIndianNumber(otherResult.cess)}
+                        {getTaxLines(otherResult, rules.cessRate)
+                          .map((line, index) => `${index === 0 ? '' : line.deduct ? ' − ' : ' + '}${line.label} ₹${formatIndianNumber(line.amount)}`)
+                          .join('')}
                       </div>
                     </div>
 
@@ -1013,6 +1313,335 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
         </div>
       </div>
 
+      {/* Monthly Payroll */}
+      <div className="bg-white border border-slate-200 rounded-xl p-5">
+        <h3 className="text-sm font-semibold text-slate-700 mb-1 flex items-center gap-2">
+          <span>📅</span> Monthly Payroll (Apr–Mar)
+        </h3>
+        <p className="text-[11px] text-slate-500 mb-4">
+          Payslips for {rules.label} with TDS re-estimated each month, the way your employer deducts it
+        </p>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-2">
+          <div>
+            <label className="text-[10px] font-medium text-slate-500 mb-1 block">Joining Month</label>
+            <select
+              value={payroll.joiningMonth}
+              onChange={(e) => setPayrollValue('joiningMonth', Number(e.target.value))}
+              className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent font-mono"
+            >
+              {payrollMonths.map((label, index) => (
+                <option key={label} value={index}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-[10px] font-medium text-slate-500 mb-1 block">Increment (%)</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={1}
+              value={payroll.incrementPercent || ''}
+              placeholder="0"
+              onChange={(e) => setPayrollValue('incrementPercent', Math.min(100, Math.max(0, Number(e.target.value))))}
+              className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent font-mono"
+            />
+          </div>
+          <div>
+            <label className="text-[10px] font-medium text-slate-500 mb-1 block">Increment From</label>
+            <select
+              value={payroll.incrementMonth}
+              onChange={(e) => setPayrollValue('incrementMonth', Number(e.target.value))}
+              className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent font-mono"
+            >
+              {payrollMonths.map((label, index) => (
+                <option key={label} value={index}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-[10px] font-medium text-slate-500 mb-1 block">Variable Pay (₹/year, in CTC)</label>
+            <div className="flex gap-1">
+              <input
+                type="number"
+                min={0}
+                step={10000}
+                value={payroll.variablePay || ''}
+                placeholder="0"
+                onChange={(e) => setPayrollValue('variablePay', Math.max(0, Number(e.target.value)))}
+                className="w-full min-w-0 px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent font-mono"
+              />
+              <select
+                value={payroll.variablePayMonth}
+                onChange={(e) => setPayrollValue('variablePayMonth', Number(e.target.value))}
+                className="px-1 py-1.5 text-xs border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                title="Month paid"
+              >
+                {payrollMonths.map((label, index) => (
+                  <option key={label} value={index}>{label.slice(0, 3)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="text-[10px] font-medium text-slate-500 mb-1 block">Previous Employer Income (Form 12B)</label>
+            <input
+              type="number"
+              min={0}
+              step={10000}
+              value={payroll.previousEmployerIncome || ''}
+              placeholder="0"
+              onChange={(e) => setPayrollValue('previousEmployerIncome', Math.max(0, Number(e.target.value)))}
+              className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent font-mono"
+            />
+          </div>
+          <div>
+            <label className="text-[10px] font-medium text-slate-500 mb-1 block">Previous Employer TDS</label>
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              value={payroll.previousEmployerTds || ''}
+              placeholder="0"
+              onChange={(e) => setPayrollValue('previousEmployerTds', Math.max(0, Number(e.target.value)))}
+              className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent font-mono"
+            />
+          </div>
+          <div className="col-span-2">
+            <div className="flex items-center justify-between mb-1">
+              <label className="text-[10px] font-medium text-slate-500">One-time Bonuses</label>
+              <span className="text-[10px] text-slate-400">{payroll.bonuses.length}/{MAX_BONUSES}</span>
+            </div>
+            <div className="space-y-1">
+              {payroll.bonuses.map((bonus) => (
+                <div key={bonus.id} className="flex items-center gap-1">
+                  <select
+                    value={bonus.month}
+                    onChange={(e) => updateBonus(bonus.id, 'month', Number(e.target.value))}
+                    className="px-1 py-1.5 text-xs border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                  >
+                    {payrollMonths.map((label, index) => (
+                      <option key={label} value={index}>{label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    step={5000}
+                    value={bonus.amount || ''}
+                    placeholder="Amount"
+                    onChange={(e) => updateBonus(bonus.id, 'amount', Math.max(0, Number(e.target.value)))}
+                    className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent font-mono"
+                  />
+                  <button
+                    onClick={() => removeBonus(bonus.id)}
+                    className="p-1 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                    title="Remove bonus"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={addBonus}
+              disabled={payroll.bonuses.length >= MAX_BONUSES}
+              className="w-full mt-1 py-1.5 text-xs font-medium text-orange-600 bg-orange-50 rounded-lg hover:bg-orange-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              + Add Bonus
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto mt-4">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-wide text-slate-500 border-b border-slate-200">
+                <th className="text-left py-1.5 font-medium">Month</th>
+                <th className="text-right py-1.5 font-medium">Gross</th>
+                <th className="text-right py-1.5 font-medium">One-time</th>
+                <th className="text-right py-1.5 font-medium">PF</th>
+                <th className="text-right py-1.5 font-medium">PT &amp; LWF</th>
+                <th className="text-right py-1.5 font-medium">TDS</th>
+                <th className="text-right py-1.5 font-medium">Net Pay</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {payrollResult.months.map((month) => (
+                <tr
+                  key={month.month}
+                  className={`border-b border-slate-100 ${month.employed ? 'text-slate-700' : 'text-slate-300'} ${month.oneTime > 0 ? 'bg-orange-50/60' : ''}`}
+                >
+                  <td className="py-1.5 font-sans">{month.month}</td>
+                  <td className="py-1.5 text-right">₹{formatIndianNumber(month.gross)}</td>
+                  <td className="py-1.5 text-right">{month.oneTime > 0 ? `₹${formatIndianNumber(month.oneTime)}` : '–'}</td>
+                  <td className="py-1.5 text-right">₹{formatIndianNumber(month.pf)}</td>
+                  <td className="py-1.5 text-right">₹{formatIndianNumber(month.professionalTax + month.labourWelfareFund)}</td>
+                  <td className="py-1.5 text-right text-red-500">₹{formatIndianNumber(month.tds)}</td>
+                  <td className="py-1.5 text-right font-semibold">₹{formatIndianNumber(month.netPay)}</td>
+                </tr>
+              ))}
+              <tr className="font-semibold text-slate-900 bg-slate-50">
+                <td className="py-1.5 font-sans">Total</td>
+                <td className="py-1.5 text-right">{formatCompact(payrollResult.totalGross)}</td>
+                <td className="py-1.5 text-right"></td>
+                <td className="py-1.5 text-right">{formatCompact(payrollResult.totalPf)}</td>
+                <td className="py-1.5 text-right"></td>
+                <td className="py-1.5 text-right text-red-500">{formatCompact(payrollResult.totalTds)}</td>
+                <td className="py-1.5 text-right">{formatCompact(payrollResult.totalNet)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 mt-4">
+          <div className="p-3 bg-slate-50 rounded-lg">
+            <div className="text-[10px] text-slate-500">Taxable Income</div>
+            <div className="text-sm font-semibold font-mono text-slate-900">₹{formatIndianNumber(payrollResult.taxableIncome)}</div>
+          </div>
+          <div className="p-3 bg-slate-50 rounded-lg">
+            <div className="text-[10px] text-slate-500">Annual Tax</div>
+            <div className="text-sm font-semibold font-mono text-slate-900">₹{formatIndianNumber(payrollResult.annualTax)}</div>
+          </div>
+          <div className={`p-3 rounded-lg ${payrollResult.balanceTax > 0 ? 'bg-red-50' : 'bg-green-50'}`}>
+            <div className="text-[10px] text-slate-500">
+              {payrollResult.balanceTax > 0 ? 'Balance Payable' : payrollResult.balanceTax < 0 ? 'Refund Due' : 'Covered by TDS'}
+            </div>
+            <div className={`text-sm font-semibold font-mono ${payrollResult.balanceTax > 0 ? 'text-red-600' : 'text-green-600'}`}>
+              ₹{formatIndianNumber(Math.abs(payrollResult.balanceTax))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Salary Structure Optimizer */}
+      <div className="bg-white border border-slate-200 rounded-xl p-5">
+        <h3 className="text-sm font-semibold text-slate-700 mb-1 flex items-center gap-2">
+          <span>🧩</span> Salary Structure Optimizer
+        </h3>
+        <p className="text-[11px] text-slate-500 mb-4">
+          Best compliant split of your ₹{formatIndianNumber(ctc)} CTC under each regime, with basic at least 50% of wages
+        </p>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-2">
+          <div>
+            <label className="text-[10px] font-medium text-slate-500 mb-1 block">Rent Paid (₹/month)</label>
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              value={optimizer.rentPaid || ''}
+              placeholder="0"
+              onChange={(e) => setOptimizerValue('rentPaid', Math.max(0, Number(e.target.value)))}
+              className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent font-mono"
+            />
+          </div>
+          <div>
+            <label className="text-[10px] font-medium text-slate-500 mb-1 block">Phone Bills (₹/month)</label>
+            <input
+              type="number"
+              min={0}
+              step={100}
+              value={optimizer.phoneBills || ''}
+              placeholder="0"
+              onChange={(e) => setOptimizerValue('phoneBills', Math.max(0, Number(e.target.value)))}
+              className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent font-mono"
+            />
+          </div>
+          <div>
+            <label className="text-[10px] font-medium text-slate-500 mb-1 block">Travel for LTA (₹/year)</label>
+            <input
+              type="number"
+              min={0}
+              step={5000}
+              value={optimizer.travelSpend || ''}
+              placeholder="0"
+              onChange={(e) => setOptimizerValue('travelSpend', Math.max(0, Number(e.target.value)))}
+              className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent font-mono"
+            />
+          </div>
+          <div className="flex flex-col justify-end gap-1 pb-1">
+            <label className="flex items-center gap-1.5 text-[11px] text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={optimizer.isMetro}
+                onChange={(e) => setOptimizerValue('isMetro', e.target.checked)}
+                className="accent-orange-600"
+              />
+              Metro city
+            </label>
+            <label className="flex items-center gap-1.5 text-[11px] text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={optimizer.includeNps}
+                onChange={(e) => setOptimizerValue('includeNps', e.target.checked)}
+                className="accent-orange-600"
+              />
+              Employer offers NPS
+            </label>
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-3 mt-4">
+          {(['old', 'new'] as const).map((regime) => {
+            const structure = optimized[regime]
+            const isBest = optimized.best === regime
+            return (
+              <div
+                key={regime}
+                className={`rounded-lg p-3 border ${isBest ? 'border-orange-400 ring-1 ring-orange-200 bg-orange-50/40' : 'border-slate-200'}`}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-xs font-semibold text-slate-700">
+                    {REGIME_NAMES[regime]}
+                    {isBest && <span className="ml-2 text-[9px] text-green-600 font-medium">✓ Highest take-home</span>}
+                  </span>
+                  <span className="text-[10px] text-slate-400">Basic {structure.basicPercent}% of CTC</span>
+                </div>
+                <div className="space-y-1 text-xs">
+                  {getStructureRows(structure).filter((row) => row.amount > 0).map((row) => (
+                    <div key={row.label} className="flex justify-between text-slate-600">
+                      <span>{row.label}</span>
+                      <span className="font-mono">₹{formatIndianNumber(row.amount)}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between text-slate-600 pt-1 border-t border-slate-100">
+                    <span>Tax-free &amp; Deductions</span>
+                    <span className="font-mono text-green-600">-₹{formatIndianNumber(structure.exemptions + structure.deductions)}</span>
+                  </div>
+                  <div className="flex justify-between text-slate-600">
+                    <span>Income Tax</span>
+                    <span className="font-mono text-red-500">-₹{formatIndianNumber(structure.tax)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold text-slate-900 pt-1 border-t border-slate-100">
+                    <span>Monthly In-hand</span>
+                    <span className="font-mono">₹{formatIndianNumber(structure.monthlyInHand)}</span>
+                  </div>
+                  <div className="flex justify-between text-[10px] text-slate-400">
+                    <span>Annual take-home incl. PF &amp; NPS</span>
+                    <span className="font-mono">₹{formatIndianNumber(structure.takeHome)}</span>
+                  </div>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="mt-4 p-3 bg-slate-50 rounded-lg">
+          <div className="text-[10px] font-semibold uppercase tracking-wide text-slate-500 mb-2">
+            Why this split ({REGIME_NAMES[optimized.best]})
+          </div>
+          <ul className="list-disc list-inside space-y-1 text-xs text-slate-600">
+            {bestStructure.explanation.map((line) => (
+              <li key={line}>{line}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
       {/* About Section */}
       <details className="bg-white border border-slate-200 rounded-xl">
         <summary className="px-4 py-3 text-sm font-medium text-slate-700 cursor-pointer hover:bg-slate-50">
@@ -1026,8 +1655,26 @@ const SalaryCalculator = forwardRef<SalaryCalculatorRef>(function SalaryCalculat
             <li><strong>Basic:</strong> Usually 40-50% of CTC, affects PF and gratuity</li>
             <li><strong>HRA:</strong> Usually 40-50% of Basic, tax exemption available</li>
             <li><strong>PF:</strong> 12% of Basic (both employee and employer)</li>
-            <li><strong>Professional Tax:</strong> Varies by state (max ₹2,500/year)</li>
+            <li><strong>Professional Tax:</strong> Set by your state from monthly gross (max ₹2,500/year); shown as a monthly average</li>
+            <li><strong>Labour Welfare Fund:</strong> A small state levy deducted once or twice a year, with a larger employer share</li>
           </ul>
+          <p className="text-slate-500">
+            CTC includes what your employer pays on your behalf: 12% PF (8.33% of basic up to ₹
+            {formatIndianNumber(PF_WAGE_CEILING)} goes to EPS, the rest to EPF), 0.5% EDLI and 0.5% PF admin charges, a
+            gratuity provision of {GRATUITY_PROVISION_RATE}% of basic and, when gross is ₹
+            {formatIndianNumber(ESI_WAGE_CEILING)} a month or less, 3.25% employer ESI. Gross is CTC minus these, and
+            in-hand is gross minus your PF, 0.75% ESI, professional tax and income tax.
+          </p>
+          <p className="text-slate-500">
+            The optimizer keeps basic at or above 50% of CTC, as the Code on Wages requires, and caps employer NPS at
+            the 80CCD(2) limit of each regime. Telephone reimbursements stay tax-free in both regimes; HRA, LTA and
+            meal card exemptions are only available in the old regime.
+          </p>
+          <p className="text-slate-500">
+            The monthly payroll re-estimates the year&apos;s tax every month on salary paid so far, the salary still
+            due at the current rate and any previous employer&apos;s income from Form 12B, and spreads what is left over
+            the remaining months. Tax on a bonus or variable pay is deducted in full in the month it is paid.
+          </p>
         </div>
       </details>
     </div>
@@ -2,22 +2,34 @@
 
 import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
 import { useNumberFormat } from '@/contexts/NumberFormatContext'
-
-interface TaxResult {
-  grossIncome: number
-  totalDeductions: number
-  taxableIncome: number
-  taxOldRegime: number
-  taxNewRegime: number
-  recommendation: 'old' | 'new'
-  savings: number
-}
-
-interface TaxSlab {
-  min: number
-  max: number
-  rate: number
-}
+import {
+  calculateTax,
+  calculateBusinessIncome,
+  getTaxRules,
+  isFinancialYear,
+  FINANCIAL_YEARS,
+  LATEST_FY,
+  NO_TAX_DEDUCTIONS,
+  NO_CAPITAL_GAINS,
+  calculateCapitalGains,
+  SECTION_80C_CAP,
+  SECTION_80CCD1B_CAP,
+  SECTION_80D_CAP,
+  SECTION_80D_SENIOR_CAP,
+  SECTION_80TTA_CAP,
+  SECTION_80TTB_CAP,
+  SECTION_24B_CAP,
+  SECTION_80EEB_CAP,
+} from '@/lib/calculations'
+import {
+  BusinessIncomeInput,
+  CapitalGainsIncome,
+  FinancialYear,
+  PresumptiveScheme,
+  TaxDeductions,
+  TaxResult,
+  TaxSlab,
+} from '@/types'
 
 function formatIndianNumber(num: number): string {
   const str = Math.round(num).toString()
@@ -43,82 +55,102 @@ function formatCompactStatic(num: number): string {
   return `₹${Math.round(num)}`
 }
 
-// Old Tax Regime Slabs (FY 2024-25)
-const OLD_REGIME_SLABS: TaxSlab[] = [
-  { min: 0, max: 250000, rate: 0 },
-  { min: 250000, max: 500000, rate: 5 },
-  { min: 500000, max: 1000000, rate: 20 },
-  { min: 1000000, max: Infinity, rate: 30 },
-]
-
-// New Tax Regime Slabs (FY 2024-25)
-const NEW_REGIME_SLABS: TaxSlab[] = [
-  { min: 0, max: 300000, rate: 0 },
-  { min: 300000, max: 700000, rate: 5 },
-  { min: 700000, max: 1000000, rate: 10 },
-  { min: 1000000, max: 1200000, rate: 15 },
-  { min: 1200000, max: 1500000, rate: 20 },
-  { min: 1500000, max: Infinity, rate: 30 },
-]
-
-function calculateTaxBySlabs(income: number, slabs: TaxSlab[]): number {
-  let tax = 0
-  for (const slab of slabs) {
-    if (income > slab.min) {
-      const taxableInSlab = Math.min(income, slab.max) - slab.min
-      tax += taxableInSlab * (slab.rate / 100)
-    }
-  }
-  return tax
+// Slab range for the reference cards, e.g. 'Up to ₹3L', '₹3L - ₹7L', 'Above ₹15L'
+function formatSlabRange(slab: TaxSlab): string {
+  const lakhs = (num: number) => `₹${num / 100000}L`
+  if (slab.min === 0) return `Up to ${lakhs(slab.max)}`
+  if (slab.max === Infinity) return `Above ${lakhs(slab.min)}`
+  return `${lakhs(slab.min)} - ${lakhs(slab.max)}`
 }
 
-function calculateTax(
-  grossIncome: number,
-  section80C: number,
-  section80D: number,
-  hra: number,
-  lta: number,
-  otherDeductions: number,
-  standardDeduction: number
-): TaxResult {
-  // Old Regime: All deductions allowed
-  const totalDeductionsOld = section80C + section80D + hra + lta + otherDeductions + standardDeduction
-  const taxableIncomeOld = Math.max(0, grossIncome - totalDeductionsOld)
-  let taxOldRegime = calculateTaxBySlabs(taxableIncomeOld, OLD_REGIME_SLABS)
-
-  // Rebate under 87A for old regime (income up to 5L)
-  if (taxableIncomeOld <= 500000) {
-    taxOldRegime = Math.max(0, taxOldRegime - 12500)
-  }
+interface ComputationRow {
+  label: string
+  old: number
+  new: number
+  deduct?: boolean
+  optional?: boolean
+  total?: boolean
+}
 
-  // Add cess (4%)
-  taxOldRegime = taxOldRegime * 1.04
+// Line-by-line tax computation for both regimes; rebate, relief and surcharge lines only appear when non-zero
+function getComputationRows(result: TaxResult, gains: CapitalGainsIncome, cessRate: number): ComputationRow[] {
+  const { oldRegime, newRegime } = result
+  const surchargeLabel = oldRegime.surchargeRate === newRegime.surchargeRate
+    ? `Surcharge @ ${oldRegime.surchargeRate}%`
+    : `Surcharge @ ${oldRegime.surchargeRate}% / ${newRegime.surchargeRate}%`
 
-  // New Regime: Standard deduction of 75,000 only (as per FY 2024-25)
-  const standardDeductionNew = 75000
-  const taxableIncomeNew = Math.max(0, grossIncome - standardDeductionNew)
-  let taxNewRegime = calculateTaxBySlabs(taxableIncomeNew, NEW_REGIME_SLABS)
+  const rows: ComputationRow[] = [
+    { label: 'Business Income', old: result.businessIncome, new: result.businessIncome, optional: true },
+    { label: 'Interest Income', old: result.otherIncome, new: result.otherIncome, optional: true },
+    { label: 'Total Deductions', old: result.totalDeductions, new: result.totalDeductionsNew, deduct: true },
+    { label: 'Taxable Income', old: result.taxableIncome, new: result.taxableIncomeNew },
+    { label: 'Debt Fund Gains (at slab)', old: gains.debtFundGains, new: gains.debtFundGains, optional: true },
+    { label: 'Tax on Slabs', old: oldRegime.slabTax, new: newRegime.slabTax },
+    { label: 'Tax on Capital Gains', old: oldRegime.capitalGainsTax, new: newRegime.capitalGainsTax, optional: true },
+    { label: 'Section 87A Rebate', old: oldRegime.rebate, new: newRegime.rebate, deduct: true, optional: true },
+    { label: '87A Marginal Relief', old: oldRegime.rebateMarginalRelief, new: newRegime.rebateMarginalRelief, deduct: true, optional: true },
+    { label: surchargeLabel, old: oldRegime.surcharge, new: newRegime.surcharge, optional: true },
+    { label: 'Surcharge Marginal Relief', old: oldRegime.surchargeMarginalRelief, new: newRegime.surchargeMarginalRelief, deduct: true, optional: true },
+    { label: `Health & Education Cess @ ${cessRate}%`, old: oldRegime.cess, new: newRegime.cess },
+    { label: 'Total Tax', old: oldRegime.totalTax, new: newRegime.totalTax, total: true },
+  ]
 
-  // Rebate under 87A for new regime (income up to 7L)
-  if (taxableIncomeNew <= 700000) {
-    taxNewRegime = Math.max(0, taxNewRegime - 25000)
-  }
+  return rows.filter((row) => !row.optional || row.old !== 0 || row.new !== 0)
+}
 
-  // Add cess (4%)
-  taxNewRegime = taxNewRegime * 1.04
+const DEFAULT_DEDUCTIONS: TaxDeductions = {
+  ...NO_TAX_DEDUCTIONS,
+  section80C: 150000,
+  section80DSelf: 25000,
+  hra: 100000,
+}
 
-  const recommendation = taxOldRegime <= taxNewRegime ? 'old' : 'new'
-  const savings = Math.abs(taxOldRegime - taxNewRegime)
+type IncomeType = 'salary' | 'business'
 
-  return {
-    grossIncome,
-    totalDeductions: totalDeductionsOld,
-    taxableIncome: taxableIncomeOld,
-    taxOldRegime: Math.round(taxOldRegime),
-    taxNewRegime: Math.round(taxNewRegime),
-    recommendation,
-    savings: Math.round(savings),
-  }
+// 'presumptive' declares the deemed profit under 44AD/44ADA; 'books' declares receipts less actual expenses
+type BusinessBasis = 'presumptive' | 'books'
+
+const DEFAULT_BUSINESS: BusinessIncomeInput = {
+  scheme: '44ADA',
+  grossReceipts: 3000000,
+  digitalPercent: 100,
+  actualExpenses: 600000,
+}
+
+const SCHEME_LABELS: Record<PresumptiveScheme, string> = {
+  '44AD': 'Business (44AD)',
+  '44ADA': 'Profession (44ADA)',
+}
+
+type AmountKey = { [K in keyof TaxDeductions]: TaxDeductions[K] extends number ? K : never }[keyof TaxDeductions]
+
+// Compact amount input for itemised deductions and capital gains
+function AmountInput({
+  label,
+  hint,
+  value,
+  onChange,
+}: {
+  label: string
+  hint?: string
+  value: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <div>
+      <label className="text-[10px] font-medium text-slate-500 mb-1 block">{label}</label>
+      <input
+        type="number"
+        min={0}
+        step={1000}
+        value={value || ''}
+        placeholder="0"
+        onChange={(e) => onChange(Math.max(0, Number(e.target.value)))}
+        className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent font-mono"
+      />
+      {hint && <div className="text-[9px] text-slate-400 mt-0.5">{hint}</div>}
+    </div>
+  )
 }
 
 export interface TaxCalculatorRef {
@@ -131,12 +163,15 @@ export interface TaxCalculatorRef {
 const TaxCalculator = forwardRef<TaxCalculatorRef>(function TaxCalculator(props, ref) {
   const { formatCurrencyCompact } = useNumberFormat()
   const [grossIncome, setGrossIncome] = useState(1200000)
-  const [section80C, setSection80C] = useState(150000)
-  const [section80D, setSection80D] = useState(25000)
-  const [hra, setHra] = useState(100000)
-  const [lta, setLta] = useState(0)
-  const [otherDeductions, setOtherDeductions] = useState(0)
-  const [standardDeduction, setStandardDeduction] = useState(50000)
+  const [deductions, setDeductions] = useState<TaxDeductions>(DEFAULT_DEDUCTIONS)
+  const [capitalGains, setCapitalGains] = useState<CapitalGainsIncome>(NO_CAPITAL_GAINS)
+  const [fy, setFy] = useState<FinancialYear>(LATEST_FY)
+  const [incomeType, setIncomeType] = useState<IncomeType>('salary')
+  const [business, setBusiness] = useState<BusinessIncomeInput>(DEFAULT_BUSINESS)
+  const [businessBasis, setBusinessBasis] = useState<BusinessBasis>('presumptive')
+  const [salaryIncome, setSalaryIncome] = useState(0) // alongside business income
+  // Long-term gain from the Real Estate calculator, offered as the property LTCG
+  const [realEstateGain, setRealEstateGain] = useState<{ capitalGain: number; indexed: boolean } | null>(null)
   const [lastSaved, setLastSaved] = useState<string | null>(null)
   const [isLoaded, setIsLoaded] = useState(false)
   const [notes, setNotes] = useState('')
@@ -149,63 +184,170 @@ const TaxCalculator = forwardRef<TaxCalculatorRef>(function TaxCalculator(props,
     if (saved) {
       const data = JSON.parse(saved)
       setGrossIncome(data.grossIncome || 1200000)
-      setSection80C(data.section80C || 150000)
-      setSection80D(data.section80D || 25000)
-      setHra(data.hra || 100000)
-      setLta(data.lta || 0)
-      setOtherDeductions(data.otherDeductions || 0)
-      setStandardDeduction(data.standardDeduction || 50000)
+      setDeductions(
+        data.deductions
+          ? { ...NO_TAX_DEDUCTIONS, ...data.deductions }
+          : {
+              // Saved before deductions were itemised
+              ...DEFAULT_DEDUCTIONS,
+              section80C: data.section80C ?? DEFAULT_DEDUCTIONS.section80C,
+              section80DSelf: data.section80D ?? DEFAULT_DEDUCTIONS.section80DSelf,
+              hra: data.hra ?? DEFAULT_DEDUCTIONS.hra,
+              lta: data.lta || 0,
+            }
+      )
+      setCapitalGains({ ...NO_CAPITAL_GAINS, ...data.capitalGains })
+      setFy(isFinancialYear(data.fy) ? data.fy : LATEST_FY)
+      setIncomeType(data.incomeType === 'business' ? 'business' : 'salary')
+      setBusiness({ ...DEFAULT_BUSINESS, ...data.business })
+      setBusinessBasis(data.businessBasis === 'books' ? 'books' : 'presumptive')
+      setSalaryIncome(data.salaryIncome || 0)
       setNotes(data.notes || '')
     }
     setIsLoaded(true)
   }, [])
 
+  // Load the property sale from the Real Estate calculator
+  useEffect(() => {
+    const loadRealEstateGain = () => {
+      try {
+        const saved = localStorage.getItem('calc_realestate')
+        if (!saved) return
+        const data = JSON.parse(saved)
+        if (!data.property) return
+        const cg = calculateCapitalGains(data.property)
+        setRealEstateGain(
+          cg.holdingPeriod.isLongTerm && cg.capitalGain > 0
+            ? { capitalGain: Math.round(cg.capitalGain), indexed: !cg.useNewRegime }
+            : null
+        )
+      } catch (e) {
+        console.error('Failed to load real estate data:', e)
+      }
+    }
+
+    loadRealEstateGain()
+    // Re-check when window gains focus (in case user updated the property sale in another tab)
+    window.addEventListener('focus', loadRealEstateGain)
+    return () => window.removeEventListener('focus', loadRealEstateGain)
+  }, [])
+
   // Auto-save to localStorage
   useEffect(() => {
     if (!isLoaded) return
-    const data = { grossIncome, section80C, section80D, hra, lta, otherDeductions, standardDeduction, notes }
+    const data = { grossIncome, deductions, capitalGains, fy, incomeType, business, businessBasis, salaryIncome, notes }
     localStorage.setItem('calc_tax', JSON.stringify(data))
     setLastSaved(new Date().toLocaleTimeString())
-  }, [grossIncome, section80C, section80D, hra, lta, otherDeductions, standardDeduction, notes, isLoaded])
+  }, [grossIncome, deductions, capitalGains, fy, incomeType, business, businessBasis, salaryIncome, notes, isLoaded])
 
   const handleClear = () => {
     setGrossIncome(1200000)
-    setSection80C(150000)
-    setSection80D(25000)
-    setHra(100000)
-    setLta(0)
-    setOtherDeductions(0)
-    setStandardDeduction(50000)
+    setDeductions(DEFAULT_DEDUCTIONS)
+    setCapitalGains(NO_CAPITAL_GAINS)
+    setFy(LATEST_FY)
+    setIncomeType('salary')
+    setBusiness(DEFAULT_BUSINESS)
+    setBusinessBasis('presumptive')
+    setSalaryIncome(0)
     setNotes('')
     localStorage.removeItem('calc_tax')
   }
 
+  const rules = getTaxRules(fy)
+
+  const isBusiness = incomeType === 'business'
+  // HRA, LTA and employer NPS only apply against a salary
+  const hasSalary = !isBusiness || salaryIncome > 0
+  const businessResult = useMemo(() => calculateBusinessIncome(business, fy), [business, fy])
+  // Above the turnover limit the presumptive scheme is unavailable and books of account are mandatory
+  const basis: BusinessBasis = businessResult.eligible ? businessBasis : 'books'
+  const businessIncome = basis === 'presumptive' ? businessResult.presumptiveIncome : businessResult.booksIncome
+
   const result = useMemo(
-    () => calculateTax(grossIncome, section80C, section80D, hra, lta, otherDeductions, standardDeduction),
-    [grossIncome, section80C, section80D, hra, lta, otherDeductions, standardDeduction]
+    () => isBusiness
+      ? calculateTax(salaryIncome, deductions, fy, capitalGains, businessIncome)
+      : calculateTax(grossIncome, deductions, fy, capitalGains),
+    [isBusiness, salaryIncome, businessIncome, grossIncome, deductions, fy, capitalGains]
   )
 
+  // The same regime comparison with presumptive and with books profit
+  const basisComparison = useMemo(
+    () => isBusiness
+      ? {
+          presumptive: calculateTax(salaryIncome, deductions, fy, capitalGains, businessResult.presumptiveIncome),
+          books: calculateTax(salaryIncome, deductions, fy, capitalGains, businessResult.booksIncome),
+        }
+      : null,
+    [isBusiness, salaryIncome, deductions, fy, capitalGains, businessResult]
+  )
+  const setBusinessAmount = (key: Exclude<keyof BusinessIncomeInput, 'scheme'>) => (value: number) =>
+    setBusiness((prev) => ({ ...prev, [key]: value }))
+  const schemeRules = rules.presumptive[business.scheme]
+  const presumptiveRateLabel = schemeRules.digitalRate === schemeRules.cashRate
+    ? `${schemeRules.digitalRate}% of receipts`
+    : `${schemeRules.digitalRate}% digital / ${schemeRules.cashRate}% cash`
+
+  const setAmount = (key: AmountKey) => (value: number) => setDeductions((prev) => ({ ...prev, [key]: value }))
+  const claimedDeductions = result.deductions.filter((line) => line.claimed > 0)
+  const cap80DSelf = deductions.selfSenior ? SECTION_80D_SENIOR_CAP : SECTION_80D_CAP
+  const cap80DParents = deductions.parentsSenior ? SECTION_80D_SENIOR_CAP : SECTION_80D_CAP
+  const setGain = (key: Exclude<keyof CapitalGainsIncome, 'propertyIndexed'>) => (value: number) =>
+    setCapitalGains((prev) => ({ ...prev, [key]: value }))
+  // Lines are the same heads in both regimes; only the basic exemption set-off differs
+  const gainLines = result.oldRegime.capitalGains.map((line, index) => ({ old: line, new: result.newRegime.capitalGains[index] }))
+
+  // Income lines for the exports
+  const incomeSummary: [string, number][] = isBusiness
+    ? [
+        ['Salary Income', salaryIncome],
+        [`${SCHEME_LABELS[business.scheme]} Gross Receipts (${business.digitalPercent}% digital)`, business.grossReceipts],
+        [`Business Income (${basis === 'presumptive' ? 'presumptive' : 'as per books'})`, businessIncome],
+      ]
+    : [['Gross Income', grossIncome]]
+  if (result.otherIncome > 0) incomeSummary.push(['Interest Income (other sources)', result.otherIncome])
+  const basisRows = basisComparison
+    ? [
+        { label: 'Business Income', presumptive: businessResult.presumptiveIncome, books: businessResult.booksIncome },
+        { label: 'Old Regime Tax', presumptive: basisComparison.presumptive.taxOldRegime, books: basisComparison.books.taxOldRegime },
+        { label: 'New Regime Tax', presumptive: basisComparison.presumptive.taxNewRegime, books: basisComparison.books.taxNewRegime },
+      ]
+    : []
+
+  const computationRows = getComputationRows(result, capitalGains, rules.cessRate)
+  const formatRowValue = (row: ComputationRow, value: number) =>
+    `${row.deduct && value > 0 ? '-' : ''}₹${formatIndianNumber(value)}`
+
   // Export functions
   const exportToExcel = () => {
     const csvContent = [
-      `Income Tax Calculator - FY 2024-25`,
+      `Income Tax Calculator - ${rules.label}`,
       `Generated: ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}`,
       ``,
       `INCOME`,
-      `Gross Income: ₹${formatIndianNumber(grossIncome)}`,
+      ...incomeSummary.map(([label, value]) => `${label}: ₹${formatIndianNumber(value)}`),
+      ...(basisRows.length > 0 ? [
+        ``,
+        `PRESUMPTIVE VS BOOKS (Presumptive | Books)`,
+        ...basisRows.map((row) => `${row.label}: ₹${formatIndianNumber(row.presumptive)} | ₹${formatIndianNumber(row.books)}`),
+        ...(businessResult.eligible ? [] : [`Gross receipts exceed the ₹${formatIndianNumber(businessResult.turnoverLimit)} limit; books of account apply`]),
+      ] : []),
       ``,
-      `DEDUCTIONS (Old Regime)`,
-      `Section 80C: ₹${formatIndianNumber(section80C)}`,
-      `Section 80D: ₹${formatIndianNumber(section80D)}`,
-      `HRA Exemption: ₹${formatIndianNumber(hra)}`,
-      `LTA: ₹${formatIndianNumber(lta)}`,
-      `Other Deductions: ₹${formatIndianNumber(otherDeductions)}`,
-      `Standard Deduction: ₹${formatIndianNumber(standardDeduction)}`,
-      `Total Deductions: ₹${formatIndianNumber(result.totalDeductions)}`,
+      `DEDUCTIONS (Claimed | Allowed Old | Allowed New)`,
+      ...claimedDeductions.map((line) =>
+        `${line.section} ${line.label}: ₹${formatIndianNumber(line.claimed)} | ₹${formatIndianNumber(line.allowedOld)} | ₹${formatIndianNumber(line.allowedNew)}`
+      ),
+      `Total Deductions: ₹${formatIndianNumber(result.totalDeductions)} | ₹${formatIndianNumber(result.totalDeductionsNew)}`,
+      ...(gainLines.length > 0 || capitalGains.debtFundGains > 0 ? [
+        ``,
+        `CAPITAL GAINS (Gain | Tax Old | Tax New)`,
+        ...gainLines.map(({ old, new: next }) =>
+          `${old.section} ${old.label} @ ${old.rate}%: ₹${formatIndianNumber(old.gain)} | ₹${formatIndianNumber(old.tax)} | ₹${formatIndianNumber(next.tax)}`
+        ),
+        ...(capitalGains.debtFundGains > 0 ? [`Debt Fund Gains (at slab): ₹${formatIndianNumber(capitalGains.debtFundGains)}`] : []),
+      ] : []),
       ``,
-      `TAX COMPARISON`,
-      `Old Regime Tax: ₹${formatIndianNumber(result.taxOldRegime)}`,
-      `New Regime Tax: ₹${formatIndianNumber(result.taxNewRegime)}`,
+      `TAX COMPUTATION (Old Regime | New Regime)`,
+      ...computationRows.map((row) => `${row.label}: ${formatRowValue(row, row.old)} | ${formatRowValue(row, row.new)}`),
       ``,
       `RECOMMENDATION`,
       `Better Option: ${result.recommendation === 'old' ? 'Old Regime' : 'New Regime'}`,
@@ -215,7 +357,7 @@ const TaxCalculator = forwardRef<TaxCalculatorRef>(function TaxCalculator(props,
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
     const link = document.createElement('a')
     link.href = URL.createObjectURL(blob)
-    link.download = `Tax_Report_${grossIncome}.csv`
+    link.download = `Tax_Report_${result.grossIncome}.csv`
     link.click()
   }
 
@@ -239,6 +381,11 @@ const TaxCalculator = forwardRef<TaxCalculatorRef>(function TaxCalculator(props,
           .recommended { border: 3px solid #16a34a; position: relative; }
           .recommended::after { content: 'RECOMMENDED'; position: absolute; top: -12px; left: 50%; transform: translateX(-50%); background: #16a34a; color: white; padding: 2px 10px; font-size: 10px; border-radius: 10px; }
           .summary { background: #f8fafc; padding: 15px; border-radius: 8px; margin: 20px 0; }
+          .computation-table { width: 100%; border-collapse: collapse; font-size: 13px; }
+          .computation-table th, .computation-table td { padding: 8px 10px; text-align: right; border-bottom: 1px solid #e2e8f0; }
+          .computation-table th:first-child, .computation-table td:first-child { text-align: left; }
+          .computation-table th { background: #f1f5f9; font-weight: 600; }
+          .computation-table .total td { font-weight: bold; background: #f8fafc; }
           .notes-section { background: #fffbeb; border: 1px solid #fcd34d; border-radius: 8px; padding: 15px; margin: 20px 0; }
           .notes-title { font-size: 12px; font-weight: 600; color: #92400e; margin-bottom: 8px; display: flex; align-items: center; gap: 6px; }
           .notes-content { font-size: 12px; color: #78350f; line-height: 1.6; white-space: pre-wrap; }
@@ -248,11 +395,11 @@ const TaxCalculator = forwardRef<TaxCalculatorRef>(function TaxCalculator(props,
       </head>
       <body>
         <h1>Income Tax Calculator Report</h1>
-        <p class="subtitle">FY 2024-25 | Generated on ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}</p>
+        <p class="subtitle">${rules.label} | Generated on ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}</p>
 
         <div class="summary">
-          <p><strong>Gross Income:</strong> ₹${formatIndianNumber(grossIncome)}</p>
-          <p><strong>Total Deductions (Old Regime):</strong> ₹${formatIndianNumber(result.totalDeductions)}</p>
+          ${incomeSummary.map(([label, value]) => `<p><strong>${label}:</strong> ₹${formatIndianNumber(value)}</p>`).join('')}
+          <p><strong>Total Deductions:</strong> ₹${formatIndianNumber(result.totalDeductions)} (Old) | ₹${formatIndianNumber(result.totalDeductionsNew)} (New)</p>
           <p><strong>Taxable Income (Old Regime):</strong> ₹${formatIndianNumber(result.taxableIncome)}</p>
         </div>
 
@@ -268,6 +415,57 @@ const TaxCalculator = forwardRef<TaxCalculatorRef>(function TaxCalculator(props,
           </div>
         </div>
 
+        ${basisRows.length > 0 ? `
+        <h2>Presumptive vs Books</h2>
+        <table class="computation-table">
+          <tr><th></th><th>Presumptive${basis === 'presumptive' ? ' (declared)' : ''}</th><th>Books${basis === 'books' ? ' (declared)' : ''}</th></tr>
+          ${basisRows.map((row) => `
+          <tr>
+            <td>${row.label}</td>
+            <td>₹${formatIndianNumber(row.presumptive)}</td>
+            <td>₹${formatIndianNumber(row.books)}</td>
+          </tr>`).join('')}
+        </table>
+        ` : ''}
+
+        <h2>Deductions</h2>
+        <table class="computation-table">
+          <tr><th>Section</th><th>Claimed</th><th>Old Regime</th><th>New Regime</th></tr>
+          ${claimedDeductions.map((line) => `
+          <tr>
+            <td>${line.section} ${line.label}</td>
+            <td>₹${formatIndianNumber(line.claimed)}</td>
+            <td>₹${formatIndianNumber(line.allowedOld)}</td>
+            <td>₹${formatIndianNumber(line.allowedNew)}</td>
+          </tr>`).join('')}
+        </table>
+
+        ${gainLines.length > 0 ? `
+        <h2>Capital Gains</h2>
+        <table class="computation-table">
+          <tr><th>Head</th><th>Gain</th><th>Rate</th><th>Old Regime Tax</th><th>New Regime Tax</th></tr>
+          ${gainLines.map(({ old, new: next }) => `
+          <tr>
+            <td>${old.section} ${old.label}</td>
+            <td>₹${formatIndianNumber(old.gain)}</td>
+            <td>${old.rate}%</td>
+            <td>₹${formatIndianNumber(old.tax)}</td>
+            <td>₹${formatIndianNumber(next.tax)}</td>
+          </tr>`).join('')}
+        </table>
+        ` : ''}
+
+        <h2>Tax Computation</h2>
+        <table class="computation-table">
+          <tr><th></th><th>Old Regime</th><th>New Regime</th></tr>
+          ${computationRows.map((row) => `
+          <tr${row.total ? ' class="total"' : ''}>
+            <td>${row.label}</td>
+            <td>${formatRowValue(row, row.old)}</td>
+            <td>${formatRowValue(row, row.new)}</td>
+          </tr>`).join('')}
+        </table>
+
         <div class="summary" style="background: #dcfce7; text-align: center;">
           <p style="margin: 0; font-size: 14px;">
             <strong>You save ₹${formatIndianNumber(result.savings)}</strong> with the
@@ -319,6 +517,10 @@ const TaxCalculator = forwardRef<TaxCalculatorRef>(function TaxCalculator(props,
           .regime-box { padding: 20px; border-radius: 12px; text-align: center; }
           .old-regime { background: #fef3c7; }
           .new-regime { background: #cffafe; }
+          .computation-table { width: 100%; border-collapse: collapse; font-size: 13px; margin: 20px 0; }
+          .computation-table th, .computation-table td { padding: 8px 10px; text-align: right; border-bottom: 1px solid #e2e8f0; }
+          .computation-table th:first-child, .computation-table td:first-child { text-align: left; }
+          .computation-table .total td { font-weight: bold; }
           .notes-section { background: #fffbeb; border: 1px solid #fcd34d; border-radius: 8px; padding: 15px; margin: 20px 0; }
           .notes-title { font-size: 12px; font-weight: 600; color: #92400e; margin-bottom: 8px; display: flex; align-items: center; gap: 6px; }
           .notes-content { font-size: 12px; color: #78350f; line-height: 1.6; white-space: pre-wrap; }
@@ -326,8 +528,8 @@ const TaxCalculator = forwardRef<TaxCalculatorRef>(function TaxCalculator(props,
         </style>
       </head>
       <body>
-        <h1>Income Tax Report - FY 2024-25</h1>
-        <p>Gross Income: ₹${formatIndianNumber(grossIncome)}</p>
+        <h1>Income Tax Report - ${rules.label}</h1>
+        ${incomeSummary.map(([label, value]) => `<p>${label}: ₹${formatIndianNumber(value)}</p>`).join('')}
         <div class="comparison">
           <div class="regime-box old-regime">
             <h3>Old Regime</h3>
@@ -338,6 +540,16 @@ const TaxCalculator = forwardRef<TaxCalculatorRef>(function TaxCalculator(props,
             <p style="font-size: 24px; font-weight: bold;">₹${formatIndianNumber(result.taxNewRegime)}</p>
           </div>
         </div>
+        <h3>Tax Computation</h3>
+        <table class="computation-table">
+          <tr><th></th><th>Old Regime</th><th>New Regime</th></tr>
+          ${computationRows.map((row) => `
+          <tr${row.total ? ' class="total"' : ''}>
+            <td>${row.label}</td>
+            <td>${formatRowValue(row, row.old)}</td>
+            <td>${formatRowValue(row, row.new)}</td>
+          </tr>`).join('')}
+        </table>
         <p><strong>Recommendation:</strong> ${result.recommendation === 'old' ? 'Old' : 'New'} Regime saves ₹${formatIndianNumber(result.savings)}</p>
         ${notes && notes.trim() ? `
         <div class="notes-section">
@@ -362,7 +574,7 @@ const TaxCalculator = forwardRef<TaxCalculatorRef>(function TaxCalculator(props,
     const blob = new Blob([htmlContent], { type: 'text/html;charset=utf-8;' })
     const link = document.createElement('a')
     link.href = URL.createObjectURL(blob)
-    link.download = `Tax_Report_${grossIncome}.html`
+    link.download = `Tax_Report_${result.grossIncome}.html`
     link.click()
   }
 
@@ -380,119 +592,387 @@ const TaxCalculator = forwardRef<TaxCalculatorRef>(function TaxCalculator(props,
         <div className="grid md:grid-cols-2">
           {/* Inputs */}
           <div className="p-5 space-y-4 border-r border-slate-100">
-            {/* Gross Income */}
+            {/* Financial Year */}
             <div>
               <div className="flex justify-between items-baseline mb-2">
-                <label className="text-sm font-medium text-slate-600">Gross Annual Income</label>
-                <span className="font-mono text-base font-semibold text-slate-900">
-                  ₹{formatIndianNumber(grossIncome)}
-                </span>
-              </div>
-              <input
-                type="range"
-                min={300000}
-                max={50000000}
-                step={10000}
-                value={grossIncome}
-                onChange={(e) => setGrossIncome(Number(e.target.value))}
-                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-cyan-600"
-              />
-              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
-                <span>₹3L</span>
-                <span>₹5Cr</span>
+                <label className="text-sm font-medium text-slate-600">Financial Year</label>
+                <span className="text-[10px] text-slate-400">{rules.budget}</span>
               </div>
+              <select
+                value={fy}
+                onChange={(e) => setFy(e.target.value as FinancialYear)}
+                className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+              >
+                {FINANCIAL_YEARS.map((year) => (
+                  <option key={year} value={year}>{getTaxRules(year).label}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Income Type */}
+            <div className="grid grid-cols-2 gap-2">
+              {(['salary', 'business'] as const).map((type) => (
+                <button
+                  key={type}
+                  onClick={() => setIncomeType(type)}
+                  className={`py-1.5 text-xs font-medium rounded-lg transition-colors ${
+                    incomeType === type ? 'bg-cyan-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                  }`}
+                >
+                  {type === 'salary' ? 'Salaried' : 'Business / Profession'}
+                </button>
+              ))}
             </div>
 
+            {/* Gross Income */}
+            {!isBusiness && (
+              <div>
+                <div className="flex justify-between items-baseline mb-2">
+                  <label className="text-sm font-medium text-slate-600">Gross Annual Income</label>
+                  <span className="font-mono text-base font-semibold text-slate-900">
+                    ₹{formatIndianNumber(grossIncome)}
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min={300000}
+                  max={50000000}
+                  step={10000}
+                  value={grossIncome}
+                  onChange={(e) => setGrossIncome(Number(e.target.value))}
+                  className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-cyan-600"
+                />
+                <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                  <span>₹3L</span>
+                  <span>₹5Cr</span>
+                </div>
+              </div>
+            )}
+
+            {/* Business / Profession */}
+            {isBusiness && (
+              <div className="space-y-2">
+                <div className="grid grid-cols-2 gap-2">
+                  {(['44ADA', '44AD'] as const).map((scheme) => (
+                    <button
+                      key={scheme}
+                      onClick={() => setBusiness((prev) => ({ ...prev, scheme }))}
+                      className={`py-1.5 text-[11px] font-medium rounded-lg border transition-colors ${
+                        business.scheme === scheme
+                          ? 'border-cyan-400 bg-cyan-50 text-cyan-700'
+                          : 'border-slate-200 text-slate-500 hover:bg-slate-50'
+                      }`}
+                    >
+                      {SCHEME_LABELS[scheme]}
+                    </button>
+                  ))}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <AmountInput
+                    label="Gross Receipts"
+                    hint={`Limit ₹${formatIndianNumber(businessResult.turnoverLimit)}`}
+                    value={business.grossReceipts}
+                    onChange={setBusinessAmount('grossReceipts')}
+                  />
+                  <div>
+                    <label className="text-[10px] font-medium text-slate-500 mb-1 block">Received Digitally (%)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={business.digitalPercent}
+                      onChange={(e) => setBusinessAmount('digitalPercent')(Math.min(100, Math.max(0, Number(e.target.value))))}
+                      className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent font-mono"
+                    />
+                    <div className="text-[9px] text-slate-400 mt-0.5">
+                      Cash ≤ {schemeRules.cashReceiptsLimit}% raises the limit
+                    </div>
+                  </div>
+                  <AmountInput
+                    label="Actual Expenses"
+                    hint="As per books"
+                    value={business.actualExpenses}
+                    onChange={setBusinessAmount('actualExpenses')}
+                  />
+                  <AmountInput
+                    label="Salary Income"
+                    hint="If any"
+                    value={salaryIncome}
+                    onChange={setSalaryIncome}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['presumptive', 'books'] as const).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setBusinessBasis(option)}
+                      disabled={option === 'presumptive' && !businessResult.eligible}
+                      className={`text-left rounded-lg p-2 border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                        basis === option ? 'border-cyan-400 ring-1 ring-cyan-200 bg-white' : 'border-slate-200 hover:border-slate-300'
+                      }`}
+                    >
+                      <div className="text-[10px] text-slate-500">
+                        {option === 'presumptive' ? `Presumptive (${presumptiveRateLabel})` : 'Books (receipts − expenses)'}
+                      </div>
+                      <div className="font-mono text-sm font-semibold text-slate-900">
+                        ₹{formatIndianNumber(option === 'presumptive' ? businessResult.presumptiveIncome : businessResult.booksIncome)}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+                {!businessResult.eligible && (
+                  <div className="text-[10px] text-amber-600">
+                    Receipts exceed the ₹{formatIndianNumber(businessResult.turnoverLimit)} limit for {business.scheme} — books of account apply
+                  </div>
+                )}
+                {basis === 'books' && businessResult.auditRequired && (
+                  <div className="text-[10px] text-amber-600">
+                    Declaring less than the presumptive income needs a tax audit under Section 44AB
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Section 80C */}
             <div>
               <div className="flex justify-between items-baseline mb-2">
                 <label className="text-sm font-medium text-slate-600">Section 80C (PF, PPF, ELSS)</label>
                 <span className="font-mono text-sm font-semibold text-slate-900">
-                  ₹{formatIndianNumber(section80C)}
+                  ₹{formatIndianNumber(deductions.section80C)}
                 </span>
               </div>
               <input
                 type="range"
                 min={0}
-                max={150000}
+                max={SECTION_80C_CAP}
                 step={5000}
-                value={section80C}
-                onChange={(e) => setSection80C(Number(e.target.value))}
+                value={deductions.section80C}
+                onChange={(e) => setAmount('section80C')(Number(e.target.value))}
                 className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-cyan-600"
               />
               <div className="flex justify-between mt-1 text-[10px] text-slate-400">
                 <span>₹0</span>
-                <span>₹1.5L (Max)</span>
+                <span>₹1.5L</span>
               </div>
             </div>
 
-            {/* Section 80D */}
-            <div>
-              <div className="flex justify-between items-baseline mb-2">
-                <label className="text-sm font-medium text-slate-600">Section 80D (Health Insurance)</label>
-                <span className="font-mono text-sm font-semibold text-slate-900">
-                  ₹{formatIndianNumber(section80D)}
-                </span>
+            {/* HRA */}
+            {hasSalary && (
+              <div>
+                <div className="flex justify-between items-baseline mb-2">
+                  <label className="text-sm font-medium text-slate-600">HRA Exemption (Annual)</label>
+                  <span className="font-mono text-sm font-semibold text-slate-900">
+                    ₹{formatIndianNumber(deductions.hra)}
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={500000}
+                  step={5000}
+                  value={deductions.hra}
+                  onChange={(e) => setAmount('hra')(Number(e.target.value))}
+                  className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-cyan-600"
+                />
+                <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                  <span>₹0</span>
+                  <span>₹5L</span>
+                </div>
               </div>
-              <input
-                type="range"
-                min={0}
-                max={100000}
-                step={5000}
-                value={section80D}
-                onChange={(e) => setSection80D(Number(e.target.value))}
-                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-cyan-600"
-              />
-              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
-                <span>₹0</span>
-                <span>₹1L</span>
+            )}
+
+            {/* NPS */}
+            <div className="pt-3 border-t border-slate-100">
+              <div className="text-xs font-semibold text-slate-600 mb-2">NPS</div>
+              <div className={`grid gap-2 ${hasSalary ? 'grid-cols-3' : 'grid-cols-1'}`}>
+                <AmountInput
+                  label="80CCD(1B) Own"
+                  hint={`Max ₹${formatIndianNumber(SECTION_80CCD1B_CAP)}`}
+                  value={deductions.section80CCD1B}
+                  onChange={setAmount('section80CCD1B')}
+                />
+                {hasSalary && (
+                  <>
+                    <AmountInput
+                      label="80CCD(2) Employer"
+                      hint={`${rules.old.employerNpsLimit}% old / ${rules.new.employerNpsLimit}% new`}
+                      value={deductions.employerNps}
+                      onChange={setAmount('employerNps')}
+                    />
+                    <AmountInput
+                      label="Basic + DA"
+                      hint="Caps 80CCD(2)"
+                      value={deductions.basicSalary}
+                      onChange={setAmount('basicSalary')}
+                    />
+                  </>
+                )}
               </div>
+              {hasSalary && <div className="text-[9px] text-cyan-600 mt-1">Employer NPS is deductible in both regimes</div>}
             </div>
 
-            {/* HRA */}
-            <div>
-              <div className="flex justify-between items-baseline mb-2">
-                <label className="text-sm font-medium text-slate-600">HRA Exemption (Annual)</label>
-                <span className="font-mono text-sm font-semibold text-slate-900">
-                  ₹{formatIndianNumber(hra)}
-                </span>
+            {/* Section 80D */}
+            <div className="pt-3 border-t border-slate-100">
+              <div className="text-xs font-semibold text-slate-600 mb-2">Health Insurance (80D)</div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <AmountInput
+                    label="Self & Family"
+                    hint={`Max ₹${formatIndianNumber(cap80DSelf)}`}
+                    value={deductions.section80DSelf}
+                    onChange={setAmount('section80DSelf')}
+                  />
+                  <label className="flex items-center gap-1.5 mt-1 text-[10px] text-slate-500 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={deductions.selfSenior}
+                      onChange={(e) => setDeductions((prev) => ({ ...prev, selfSenior: e.target.checked }))}
+                      className="accent-cyan-600"
+                    />
+                    I am 60 or older
+                  </label>
+                </div>
+                <div>
+                  <AmountInput
+                    label="Parents"
+                    hint={`Max ₹${formatIndianNumber(cap80DParents)}`}
+                    value={deductions.section80DParents}
+                    onChange={setAmount('section80DParents')}
+                  />
+                  <label className="flex items-center gap-1.5 mt-1 text-[10px] text-slate-500 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={deductions.parentsSenior}
+                      onChange={(e) => setDeductions((prev) => ({ ...prev, parentsSenior: e.target.checked }))}
+                      className="accent-cyan-600"
+                    />
+                    Parents 60 or older
+                  </label>
+                </div>
               </div>
-              <input
-                type="range"
-                min={0}
-                max={500000}
-                step={5000}
-                value={hra}
-                onChange={(e) => setHra(Number(e.target.value))}
-                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-cyan-600"
-              />
-              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
-                <span>₹0</span>
-                <span>₹5L</span>
+            </div>
+
+            {/* Loans */}
+            <div className="pt-3 border-t border-slate-100">
+              <div className="text-xs font-semibold text-slate-600 mb-2">Loan Interest</div>
+              <div className="grid grid-cols-3 gap-2">
+                <AmountInput
+                  label="24(b) Home Loan"
+                  hint={`Self-occupied, max ₹${formatIndianNumber(SECTION_24B_CAP)}`}
+                  value={deductions.homeLoanInterest}
+                  onChange={setAmount('homeLoanInterest')}
+                />
+                <AmountInput
+                  label="80E Education"
+                  hint="No limit"
+                  value={deductions.section80E}
+                  onChange={setAmount('section80E')}
+                />
+                <AmountInput
+                  label="80EEB EV Loan"
+                  hint={`Max ₹${formatIndianNumber(SECTION_80EEB_CAP)}`}
+                  value={deductions.section80EEB}
+                  onChange={setAmount('section80EEB')}
+                />
               </div>
             </div>
 
-            {/* Other Deductions */}
-            <div>
-              <div className="flex justify-between items-baseline mb-2">
-                <label className="text-sm font-medium text-slate-600">Other Deductions (80E, 80G, etc.)</label>
-                <span className="font-mono text-sm font-semibold text-slate-900">
-                  ₹{formatIndianNumber(otherDeductions)}
-                </span>
+            {/* Donations, interest and allowances */}
+            <div className="pt-3 border-t border-slate-100">
+              <div className="text-xs font-semibold text-slate-600 mb-2">Donations, Interest &amp; Allowances</div>
+              <div className="grid grid-cols-3 gap-2">
+                <AmountInput
+                  label="80G (100%)"
+                  hint="e.g. PM CARES"
+                  value={deductions.donations100}
+                  onChange={setAmount('donations100')}
+                />
+                <AmountInput
+                  label="80G (50%)"
+                  hint="Half is deductible"
+                  value={deductions.donations50}
+                  onChange={setAmount('donations50')}
+                />
+                {hasSalary && (
+                  <AmountInput
+                    label="LTA"
+                    hint="Exempt travel"
+                    value={deductions.lta}
+                    onChange={setAmount('lta')}
+                  />
+                )}
+                <AmountInput
+                  label="Savings Interest"
+                  hint={deductions.selfSenior
+                    ? `80TTB, max ₹${formatIndianNumber(SECTION_80TTB_CAP)}`
+                    : `80TTA, max ₹${formatIndianNumber(SECTION_80TTA_CAP)}`}
+                  value={deductions.savingsInterest}
+                  onChange={setAmount('savingsInterest')}
+                />
+                <AmountInput
+                  label="FD / RD Interest"
+                  hint={deductions.selfSenior ? '80TTB, with savings interest' : 'Taxable, no deduction'}
+                  value={deductions.depositInterest}
+                  onChange={setAmount('depositInterest')}
+                />
               </div>
-              <input
-                type="range"
-                min={0}
-                max={500000}
-                step={5000}
-                value={otherDeductions}
-                onChange={(e) => setOtherDeductions(Number(e.target.value))}
-                className="w-full h-1 bg-slate-200 rounded-full appearance-none cursor-pointer accent-cyan-600"
-              />
-              <div className="flex justify-between mt-1 text-[10px] text-slate-400">
-                <span>₹0</span>
-                <span>₹5L</span>
+            </div>
+            {/* Capital Gains */}
+            <div className="pt-3 border-t border-slate-100">
+              <div className="text-xs font-semibold text-slate-600 mb-2">Capital Gains</div>
+              <div className="grid grid-cols-2 gap-2">
+                <AmountInput
+                  label="111A STCG (Equity)"
+                  hint={`Held ≤ 12 months, ${rules.capitalGains.stcg111aRate}%`}
+                  value={capitalGains.stcg111A}
+                  onChange={setGain('stcg111A')}
+                />
+                <AmountInput
+                  label="112A LTCG (Equity)"
+                  hint={`${rules.capitalGains.ltcg112aRate}% above ₹${formatIndianNumber(rules.capitalGains.ltcg112aExemption)}`}
+                  value={capitalGains.ltcg112A}
+                  onChange={setGain('ltcg112A')}
+                />
+                <AmountInput
+                  label="Debt Fund Gains"
+                  hint="Taxed at slab rates"
+                  value={capitalGains.debtFundGains}
+                  onChange={setGain('debtFundGains')}
+                />
+                <div>
+                  <AmountInput
+                    label="112 LTCG (Property)"
+                    hint={`${capitalGains.propertyIndexed ? rules.capitalGains.propertyIndexedRate : rules.capitalGains.propertyRate}%${capitalGains.propertyIndexed ? ' with indexation' : ''}`}
+                    value={capitalGains.propertyLtcg}
+                    onChange={setGain('propertyLtcg')}
+                  />
+                  <label className="flex items-center gap-1.5 mt-1 text-[10px] text-slate-500 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={capitalGains.propertyIndexed}
+                      onChange={(e) => setCapitalGains((prev) => ({ ...prev, propertyIndexed: e.target.checked }))}
+                      className="accent-cyan-600"
+                    />
+                    Indexed gain
+                  </label>
+                </div>
               </div>
+              {rules.capitalGains.note && (
+                <p className="mt-2 text-[10px] text-amber-600">{rules.capitalGains.note}</p>
+              )}
+              {realEstateGain && (
+                <button
+                  onClick={() => setCapitalGains((prev) => ({
+                    ...prev,
+                    propertyLtcg: realEstateGain.capitalGain,
+                    propertyIndexed: realEstateGain.indexed,
+                  }))}
+                  className="mt-2 w-full px-3 py-1.5 text-[10px] font-medium text-cyan-700 bg-cyan-50 border border-cyan-200 rounded-lg hover:bg-cyan-100 transition-colors"
+                >
+                  Use property LTCG from Real Estate calculator (₹{formatIndianNumber(realEstateGain.capitalGain)}
+                  {realEstateGain.indexed ? ', indexed' : ''})
+                </button>
+              )}
             </div>
           </div>
 
@@ -541,7 +1021,7 @@ const TaxCalculator = forwardRef<TaxCalculatorRef>(function TaxCalculator(props,
             <div className="bg-white rounded-lg p-4 text-xs space-y-2">
               <div className="flex justify-between">
                 <span className="text-slate-600">Gross Income</span>
-                <span className="font-mono font-medium">{formatCurrencyCompact(grossIncome)}</span>
+                <span className="font-mono font-medium">{formatCurrencyCompact(result.grossIncome)}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-slate-600">Total Deductions (Old)</span>
@@ -591,26 +1071,155 @@ const TaxCalculator = forwardRef<TaxCalculatorRef>(function TaxCalculator(props,
         </div>
       </div>
 
+      {/* Presumptive vs Books */}
+      {basisComparison && (
+        <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-100 text-sm font-semibold text-slate-700">
+            Presumptive vs Books — {SCHEME_LABELS[business.scheme]}
+          </div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="bg-slate-50 text-slate-500">
+                <th className="px-4 py-2 text-left font-medium"></th>
+                <th className={`px-4 py-2 text-right font-medium ${basis === 'presumptive' ? 'text-cyan-700' : ''}`}>
+                  Presumptive{basis === 'presumptive' && ' ✓'}
+                </th>
+                <th className={`px-4 py-2 text-right font-medium ${basis === 'books' ? 'text-cyan-700' : ''}`}>
+                  Books{basis === 'books' && ' ✓'}
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {basisRows.map((row) => (
+                <tr key={row.label} className="border-t border-slate-100 text-slate-600">
+                  <td className="px-4 py-2">{row.label}</td>
+                  <td className="px-4 py-2 text-right font-mono">₹{formatIndianNumber(row.presumptive)}</td>
+                  <td className="px-4 py-2 text-right font-mono">₹{formatIndianNumber(row.books)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="px-4 py-2 border-t border-slate-100 text-[10px] text-slate-500">
+            {businessResult.eligible
+              ? businessResult.auditRequired
+                ? 'Books profit is below the presumptive income; declaring it needs a tax audit and, under 44AD, bars the scheme for the next 5 years.'
+                : 'Books profit is at or above the presumptive income, so the presumptive scheme costs no more tax and needs no books.'
+              : `Receipts exceed the ₹${formatIndianNumber(businessResult.turnoverLimit)} limit, so only the books profit can be declared.`}
+          </div>
+        </div>
+      )}
+
+      {/* Deductions Applied */}
+      <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-100 text-sm font-semibold text-slate-700">Deductions Applied</div>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="bg-slate-50 text-slate-500">
+              <th className="px-4 py-2 text-left font-medium">Section</th>
+              <th className="px-4 py-2 text-right font-medium">Claimed</th>
+              <th className="px-4 py-2 text-right font-medium text-amber-700">Old Regime</th>
+              <th className="px-4 py-2 text-right font-medium text-cyan-700">New Regime</th>
+            </tr>
+          </thead>
+          <tbody>
+            {claimedDeductions.map((line) => (
+              <tr key={`${line.section}-${line.label}`} className="border-t border-slate-100 text-slate-600">
+                <td className="px-4 py-2">
+                  <span className="font-medium text-slate-700">{line.section}</span> {line.label}
+                </td>
+                <td className="px-4 py-2 text-right font-mono">₹{formatIndianNumber(line.claimed)}</td>
+                <td className={`px-4 py-2 text-right font-mono ${line.allowedOld < line.claimed ? 'text-amber-600' : ''}`}>
+                  ₹{formatIndianNumber(line.allowedOld)}
+                </td>
+                <td className="px-4 py-2 text-right font-mono">₹{formatIndianNumber(line.allowedNew)}</td>
+              </tr>
+            ))}
+            <tr className="border-t border-slate-100 bg-slate-50 font-semibold text-slate-900">
+              <td className="px-4 py-2" colSpan={2}>Total</td>
+              <td className="px-4 py-2 text-right font-mono">₹{formatIndianNumber(result.totalDeductions)}</td>
+              <td className="px-4 py-2 text-right font-mono">₹{formatIndianNumber(result.totalDeductionsNew)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {/* Capital Gains */}
+      {gainLines.length > 0 && (
+        <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-100 text-sm font-semibold text-slate-700">Capital Gains</div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="bg-slate-50 text-slate-500">
+                <th className="px-4 py-2 text-left font-medium">Head</th>
+                <th className="px-4 py-2 text-right font-medium">Gain</th>
+                <th className="px-4 py-2 text-right font-medium text-amber-700">Old Regime</th>
+                <th className="px-4 py-2 text-right font-medium text-cyan-700">New Regime</th>
+              </tr>
+            </thead>
+            <tbody>
+              {gainLines.map(({ old, new: next }) => (
+                <tr key={old.section} className="border-t border-slate-100 text-slate-600 align-top">
+                  <td className="px-4 py-2">
+                    <span className="font-medium text-slate-700">{old.section}</span> {old.label} @ {old.rate}%
+                    {old.exemption > 0 && (
+                      <div className="text-[10px] text-slate-400">₹{formatIndianNumber(old.exemption)} exempt</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-right font-mono">₹{formatIndianNumber(old.gain)}</td>
+                  {[old, next].map((line, index) => (
+                    <td key={index} className="px-4 py-2 text-right font-mono">
+                      ₹{formatIndianNumber(line.tax)}
+                      {line.basicExemptionUsed > 0 && (
+                        <div className="text-[10px] text-green-600">-₹{formatIndianNumber(line.basicExemptionUsed)} basic exemption</div>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Tax Computation */}
+      <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-100 text-sm font-semibold text-slate-700">Tax Computation</div>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="bg-slate-50 text-slate-500">
+              <th className="px-4 py-2 text-left font-medium"></th>
+              <th className="px-4 py-2 text-right font-medium text-amber-700">Old Regime</th>
+              <th className="px-4 py-2 text-right font-medium text-cyan-700">New Regime</th>
+            </tr>
+          </thead>
+          <tbody>
+            {computationRows.map((row) => (
+              <tr key={row.label} className={`border-t border-slate-100 ${row.total ? 'bg-slate-50 font-semibold text-slate-900' : 'text-slate-600'}`}>
+                <td className="px-4 py-2">{row.label}</td>
+                <td className={`px-4 py-2 text-right font-mono ${row.deduct ? 'text-green-600' : ''}`}>{formatRowValue(row, row.old)}</td>
+                <td className={`px-4 py-2 text-right font-mono ${row.deduct ? 'text-green-600' : ''}`}>{formatRowValue(row, row.new)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
       {/* Tax Slabs Reference */}
       <div className="grid md:grid-cols-2 gap-4">
         <div className="bg-amber-50 border border-amber-100 rounded-xl p-4">
           <div className="text-sm font-semibold text-amber-700 mb-3">Old Regime Slabs</div>
           <div className="space-y-1 text-xs text-slate-600">
-            <div className="flex justify-between"><span>Up to ₹2.5L</span><span>0%</span></div>
-            <div className="flex justify-between"><span>₹2.5L - ₹5L</span><span>5%</span></div>
-            <div className="flex justify-between"><span>₹5L - ₹10L</span><span>20%</span></div>
-            <div className="flex justify-between"><span>Above ₹10L</span><span>30%</span></div>
+            {rules.old.slabs.map((slab) => (
+              <div key={slab.min} className="flex justify-between"><span>{formatSlabRange(slab)}</span><span>{slab.rate}%</span></div>
+            ))}
           </div>
         </div>
         <div className="bg-cyan-50 border border-cyan-100 rounded-xl p-4">
-          <div className="text-sm font-semibold text-cyan-700 mb-3">New Regime Slabs (FY 24-25)</div>
+          <div className="text-sm font-semibold text-cyan-700 mb-3">New Regime Slabs (FY {fy})</div>
           <div className="space-y-1 text-xs text-slate-600">
-            <div className="flex justify-between"><span>Up to ₹3L</span><span>0%</span></div>
-            <div className="flex justify-between"><span>₹3L - ₹7L</span><span>5%</span></div>
-            <div className="flex justify-between"><span>₹7L - ₹10L</span><span>10%</span></div>
-            <div className="flex justify-between"><span>₹10L - ₹12L</span><span>15%</span></div>
-            <div className="flex justify-between"><span>₹12L - ₹15L</span><span>20%</span></div>
-            <div className="flex justify-between"><span>Above ₹15L</span><span>30%</span></div>
+            {rules.new.slabs.map((slab) => (
+              <div key={slab.min} className="flex justify-between"><span>{formatSlabRange(slab)}</span><span>{slab.rate}%</span></div>
+            ))}
           </div>
         </div>
       </div>
@@ -623,12 +1232,26 @@ const TaxCalculator = forwardRef<TaxCalculatorRef>(function TaxCalculator(props,
         <div className="px-4 pb-4 text-sm text-slate-600 space-y-3">
           <p>
             This calculator helps you compare tax liability under <strong>Old</strong> and <strong>New</strong> tax regimes
-            for FY 2024-25 (AY 2025-26).
+            for {rules.label}.
+          </p>
+          <p><strong>Old Regime:</strong> Allows HRA, LTA and Chapter VI-A deductions (80C, 80CCD, 80D, 80E, 80G, 80TTA/80TTB, 80EEB) plus home loan interest under 24(b), each within its statutory cap.</p>
+          <p><strong>New Regime:</strong> Lower tax rates but no deductions except the standard deduction of ₹{formatIndianNumber(rules.new.standardDeduction)}
+            and the employer&apos;s NPS contribution under 80CCD(2) (up to {rules.new.employerNpsLimit}% of basic + DA).
+            Income up to ₹{formatIndianNumber(rules.new.rebate.maxIncome)} is tax-free after the Section 87A rebate.</p>
+          <p>
+            <strong>Business / Profession:</strong> Under 44AD, small businesses can declare {rules.presumptive['44AD'].digitalRate}% of digital
+            and {rules.presumptive['44AD'].cashRate}% of cash receipts as profit (turnover up to ₹{formatIndianNumber(rules.presumptive['44AD'].enhancedTurnoverLimit)} when
+            cash is within {rules.presumptive['44AD'].cashReceiptsLimit}%). Under 44ADA, professionals declare {rules.presumptive['44ADA'].digitalRate}% of receipts
+            (up to ₹{formatIndianNumber(rules.presumptive['44ADA'].enhancedTurnoverLimit)}). The standard deduction only applies to salary.
+          </p>
+          <p>
+            <strong>Capital gains</strong> under 111A, 112A and 112 are taxed at their special rates, with surcharge capped at {rules.capitalGains.surchargeCap}%.
+            Any basic exemption limit left unused by other income is set off against these gains. Debt fund gains are taxed at slab rates.
           </p>
-          <p><strong>Old Regime:</strong> Allows deductions under 80C, 80D, HRA, LTA, etc.</p>
-          <p><strong>New Regime:</strong> Lower tax rates but no deductions except standard deduction of ₹75,000.</p>
           <p className="text-slate-500">
-            <strong>Note:</strong> This is a simplified calculation. Actual tax may vary based on surcharge, specific exemptions, and other factors.
+            <strong>Note:</strong> Surcharge applies above ₹50L of taxable income, with marginal relief just above each threshold.
+            From FY 2024-25, capital gains rates are those for transfers on or after 23 Jul 2024.
+            This is a simplified calculation. Actual tax may vary based on transfer dates, specific exemptions, and other factors.
           </p>
         </div>
       </details>
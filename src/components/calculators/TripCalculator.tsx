@@ -1,21 +1,7 @@
 'use client'
 
 import { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
-
-interface TripResult {
-  totalBudget: number
-  perPersonBudget: number
-  perDayBudget: number
-  breakdown: {
-    flights: number
-    accommodation: number
-    food: number
-    transport: number
-    activities: number
-    shopping: number
-    misc: number
-  }
-}
+import { calculateTrip } from '@/lib/calculations'
 
 function formatIndianNumber(num: number): string {
   const str = Math.round(num).toString()
@@ -40,47 +26,6 @@ function formatCompact(num: number): string {
   return `₹${Math.round(num)}`
 }
 
-function calculateTrip(
-  destination: string,
-  travelers: number,
-  days: number,
-  tripType: 'budget' | 'standard' | 'luxury',
-  flights: number,
-  accommodation: number
-): TripResult {
-  // Base daily costs per person based on trip type
-  const dailyCosts = {
-    budget: { food: 1000, transport: 500, activities: 800, shopping: 500, misc: 300 },
-    standard: { food: 2000, transport: 1000, activities: 2000, shopping: 1500, misc: 500 },
-    luxury: { food: 5000, transport: 3000, activities: 5000, shopping: 5000, misc: 1000 },
-  }
-
-  const costs = dailyCosts[tripType]
-
-  const foodTotal = costs.food * days * travelers
-  const transportTotal = costs.transport * days * travelers
-  const activitiesTotal = costs.activities * days * travelers
-  const shoppingTotal = costs.shopping * travelers
-  const miscTotal = costs.misc * days * travelers
-
-  const totalBudget = flights + accommodation + foodTotal + transportTotal + activitiesTotal + shoppingTotal + miscTotal
-
-  return {
-    totalBudget: Math.round(totalBudget),
-    perPersonBudget: Math.round(totalBudget / travelers),
-    perDayBudget: Math.round(totalBudget / days),
-    breakdown: {
-      flights: Math.round(flights),
-      accommodation: Math.round(accommodation),
-      food: Math.round(foodTotal),
-      transport: Math.round(transportTotal),
-      activities: Math.round(activitiesTotal),
-      shopping: Math.round(shoppingTotal),
-      misc: Math.round(miscTotal),
-    },
-  }
-}
-
 export interface TripCalculatorRef {
   exportToPDF: () => void
   exportToHTML: () => void
@@ -1,66 +1,8 @@
 'use client'
 
 import { useState, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
-
-interface CityTime {
-  id: string
-  city: string
-  country: string
-  timezone: string
-  offset: number
-  time: string
-  date: string
-  isDaytime: boolean
-}
-
-const CITIES = [
-  { city: 'Mumbai', country: 'India', timezone: 'Asia/Kolkata', offset: 5.5 },
-  { city: 'New Delhi', country: 'India', timezone: 'Asia/Kolkata', offset: 5.5 },
-  { city: 'Bangalore', country: 'India', timezone: 'Asia/Kolkata', offset: 5.5 },
-  { city: 'New York', country: 'USA', timezone: 'America/New_York', offset: -5 },
-  { city: 'Los Angeles', country: 'USA', timezone: 'America/Los_Angeles', offset: -8 },
-  { city: 'Chicago', country: 'USA', timezone: 'America/Chicago', offset: -6 },
-  { city: 'London', country: 'UK', timezone: 'Europe/London', offset: 0 },
-  { city: 'Paris', country: 'France', timezone: 'Europe/Paris', offset: 1 },
-  { city: 'Berlin', country: 'Germany', timezone: 'Europe/Berlin', offset: 1 },
-  { city: 'Dubai', country: 'UAE', timezone: 'Asia/Dubai', offset: 4 },
-  { city: 'Singapore', country: 'Singapore', timezone: 'Asia/Singapore', offset: 8 },
-  { city: 'Hong Kong', country: 'China', timezone: 'Asia/Hong_Kong', offset: 8 },
-  { city: 'Tokyo', country: 'Japan', timezone: 'Asia/Tokyo', offset: 9 },
-  { city: 'Sydney', country: 'Australia', timezone: 'Australia/Sydney', offset: 11 },
-  { city: 'Auckland', country: 'New Zealand', timezone: 'Pacific/Auckland', offset: 13 },
-  { city: 'Toronto', country: 'Canada', timezone: 'America/Toronto', offset: -5 },
-  { city: 'São Paulo', country: 'Brazil', timezone: 'America/Sao_Paulo', offset: -3 },
-  { city: 'Moscow', country: 'Russia', timezone: 'Europe/Moscow', offset: 3 },
-]
-
-function getTimeInTimezone(timezone: string): { time: string; date: string; hour: number } {
-  const now = new Date()
-  const options: Intl.DateTimeFormatOptions = {
-    timeZone: timezone,
-    hour: '2-digit',
-    minute: '2-digit',
-    second: '2-digit',
-    hour12: true,
-  }
-  const dateOptions: Intl.DateTimeFormatOptions = {
-    timeZone: timezone,
-    weekday: 'short',
-    month: 'short',
-    day: 'numeric',
-  }
-  const hourOptions: Intl.DateTimeFormatOptions = {
-    timeZone: timezone,
-    hour: 'numeric',
-    hour12: false,
-  }
-
-  const time = now.toLocaleString('en-US', options)
-  const date = now.toLocaleString('en-US', dateOptions)
-  const hour = parseInt(now.toLocaleString('en-US', hourOptions))
-
-  return { time, date, hour }
-}
+import { CITIES, getTimeInTimezone } from '@/lib/calculations'
+import { CityTime } from '@/types'
 
 export interface WorldClockRef {
   exportToPDF: () => void
@@ -0,0 +1,113 @@
+import { AdvanceTaxParams, AdvanceTaxResult, AdvanceTaxInstallment, AdvanceTaxPayment, FinancialYear } from '@/types'
+
+// Section 208: advance tax is payable when the tax for the year, net of TDS, is ₹10,000 or more
+export const ADVANCE_TAX_THRESHOLD = 10000
+
+// Interest under 234B and 234C is simple interest at 1% per month (or part of a month)
+const INTEREST_RATE = 1
+
+// Section 211 installments: cumulative share of the tax due by each date, and the
+// minimum share (234C proviso) that keeps the installment free of interest
+const INSTALLMENTS = [
+  { month: 6, cumulativePercent: 15, safeHarbourPercent: 12, interestMonths: 3 },
+  { month: 9, cumulativePercent: 45, safeHarbourPercent: 36, interestMonths: 3 },
+  { month: 12, cumulativePercent: 75, safeHarbourPercent: 75, interestMonths: 3 },
+  { month: 3, cumulativePercent: 100, safeHarbourPercent: 100, interestMonths: 1 },
+]
+
+function pad(num: number): string {
+  return num.toString().padStart(2, '0')
+}
+
+// Rule 119A: the amount interest is charged on is rounded down to a multiple of ₹100
+function roundDownToHundred(amount: number): number {
+  return Math.floor(amount / 100) * 100
+}
+
+function paidBy(payments: AdvanceTaxPayment[], date: string): number {
+  return payments.filter((p) => p.date && p.date <= date).reduce((sum, p) => sum + p.amount, 0)
+}
+
+/**
+ * Due dates for the advance tax installments of a financial year (15 Jun, 15 Sep, 15 Dec, 15 Mar).
+ * Presumptive taxpayers under 44AD/44ADA pay the whole amount in one installment by 15 March.
+ */
+export function getAdvanceTaxSchedule(
+  fy: FinancialYear,
+  presumptive: boolean
+): { dueDate: string; cumulativePercent: number }[] {
+  const startYear = parseInt(fy.slice(0, 4))
+  const installments = presumptive ? INSTALLMENTS.slice(-1) : INSTALLMENTS
+  return installments.map((inst) => ({
+    dueDate: `${inst.month >= 4 ? startYear : startYear + 1}-${pad(inst.month)}-15`,
+    cumulativePercent: inst.cumulativePercent,
+  }))
+}
+
+/**
+ * Split the year's tax into advance tax installments and compute interest on any shortfall:
+ * 234C for deferring an installment, 234B when less than 90% is paid by 31 March.
+ * 234B runs from 1 April of the assessment year to the balance payment date, counting a part month as a full month.
+ */
+export function calculateAdvanceTax(params: AdvanceTaxParams): AdvanceTaxResult {
+  const { fy, totalTax, tds, payments, presumptive, balancePaymentDate } = params
+  const startYear = parseInt(fy.slice(0, 4))
+  const yearEnd = `${startYear + 1}-03-31`
+
+  const assessedTax = Math.max(0, Math.round(totalTax - tds))
+  const liable = assessedTax >= ADVANCE_TAX_THRESHOLD
+  const totalPaid = payments.reduce((sum, p) => sum + p.amount, 0)
+  const advanceTaxPaid = paidBy(payments, yearEnd)
+
+  const schedule = presumptive ? INSTALLMENTS.slice(-1) : INSTALLMENTS
+  let previousRequired = 0
+  const installments: AdvanceTaxInstallment[] = getAdvanceTaxSchedule(fy, presumptive).map((inst, i) => {
+    const rule = schedule[i]
+    const requiredCumulative = Math.round(assessedTax * (inst.cumulativePercent / 100))
+    const paidCumulative = paidBy(payments, inst.dueDate)
+    const shortfall = Math.max(0, requiredCumulative - paidCumulative)
+    const withinSafeHarbour = paidCumulative >= assessedTax * (rule.safeHarbourPercent / 100)
+    const interest234C = liable && !withinSafeHarbour
+      ? Math.round(roundDownToHundred(shortfall) * (INTEREST_RATE / 100) * rule.interestMonths)
+      : 0
+
+    const installmentAmount = requiredCumulative - previousRequired
+    previousRequired = requiredCumulative
+
+    return {
+      dueDate: inst.dueDate,
+      cumulativePercent: inst.cumulativePercent,
+      requiredCumulative,
+      installmentAmount,
+      paidCumulative,
+      shortfall,
+      interestMonths: rule.interestMonths,
+      interest234C,
+    }
+  })
+  const interest234C = installments.reduce((sum, inst) => sum + inst.interest234C, 0)
+
+  // 234B: months from 1 April of the assessment year up to the balance payment date
+  let months234B = 0
+  let interest234B = 0
+  if (liable && advanceTaxPaid < assessedTax * 0.9) {
+    const [year, month] = balancePaymentDate.split('-').map(Number)
+    months234B = Math.max(1, (year - (startYear + 1)) * 12 + (month - 4) + 1)
+    interest234B = Math.round(roundDownToHundred(assessedTax - advanceTaxPaid) * (INTEREST_RATE / 100) * months234B)
+  }
+
+  const totalInterest = interest234C + interest234B
+
+  return {
+    assessedTax,
+    liable,
+    installments,
+    totalPaid,
+    advanceTaxPaid,
+    interest234C,
+    interest234B,
+    months234B,
+    totalInterest,
+    balancePayable: Math.max(0, assessedTax - totalPaid),
+  }
+}
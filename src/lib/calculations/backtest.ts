@@ -0,0 +1,83 @@
+import { CashFlow, SIPBacktestParams, SIPBacktestPoint, SIPBacktestResult } from '@/types'
+import { getMonthlyLevels, INDEX_SERIES } from './indexHistory'
+import { calculateSIPFutureValue } from './sip'
+import { calculateXIRR } from './xirr'
+
+/**
+ * Run a monthly SIP on historical index levels. Units are bought at each month's level from
+ * the start month up to (not including) the valuation month, so every instalment has at least
+ * a month invested, matching the timing of calculateSIPFutureValue for the constant-rate
+ * comparison. The maximum drawdown is the largest fall in the SIP's value from a running peak;
+ * yearly series are interpolated between year ends, so only year-end swings show.
+ * Returns null when the months fall outside the series.
+ */
+export function backtestSIP(params: SIPBacktestParams): SIPBacktestResult | null {
+  const { seriesId, monthlyInvestment, startMonth, projectedRate } = params
+  const levels = getMonthlyLevels(INDEX_SERIES[seriesId])
+  const startIndex = levels.findIndex((l) => l.month === startMonth)
+  const endIndex = params.endMonth ? levels.findIndex((l) => l.month === params.endMonth) : levels.length - 1
+
+  if (startIndex < 0 || endIndex <= startIndex) return null
+
+  const cashFlows: CashFlow[] = []
+  const points: SIPBacktestPoint[] = []
+  let units = 0
+  let invested = 0
+  let peakValue = 0
+  let peakMonth = startMonth
+  let maxDrawdown = 0
+  let drawdownPeak = startMonth
+  let drawdownTrough = startMonth
+
+  for (let i = startIndex; i <= endIndex; i++) {
+    const { month, level } = levels[i]
+    const elapsed = i - startIndex
+
+    if (elapsed % 12 === 0 || i === endIndex) {
+      points.push({
+        month,
+        invested,
+        value: Math.round(units * level),
+        projected: Math.round(calculateSIPFutureValue(monthlyInvestment, projectedRate, elapsed)),
+      })
+    }
+
+    // Drawdown of the units held before this month's instalment
+    const value = units * level
+    if (value > peakValue) {
+      peakValue = value
+      peakMonth = month
+    } else if (peakValue > 0 && ((peakValue - value) / peakValue) * 100 > maxDrawdown) {
+      maxDrawdown = ((peakValue - value) / peakValue) * 100
+      drawdownPeak = peakMonth
+      drawdownTrough = month
+    }
+
+    if (i < endIndex) {
+      units += monthlyInvestment / level
+      invested += monthlyInvestment
+      cashFlows.push({ date: `${month}-01`, amount: -monthlyInvestment })
+    }
+  }
+
+  const endMonth = levels[endIndex].month
+  const months = endIndex - startIndex
+  const finalValue = units * levels[endIndex].level
+  cashFlows.push({ date: `${endMonth}-01`, amount: finalValue })
+  const xirr = calculateXIRR(cashFlows)
+
+  return {
+    startMonth,
+    endMonth,
+    months,
+    totalInvested: invested,
+    finalValue: Math.round(finalValue),
+    absoluteReturn: invested > 0 ? Math.round(((finalValue - invested) / invested) * 1000) / 10 : 0,
+    xirr: xirr === null ? null : Math.round(xirr * 100) / 100,
+    maxDrawdown: Math.round(maxDrawdown * 10) / 10,
+    drawdownPeak,
+    drawdownTrough,
+    projectedValue: Math.round(calculateSIPFutureValue(monthlyInvestment, projectedRate, months)),
+    points,
+  }
+}
@@ -0,0 +1,97 @@
+import { BMIResult, TargetPlan } from '@/types'
+
+// WHO BMI categories
+export const BMI_CATEGORIES = [
+  { min: 0, max: 16, label: 'Severe Thinness', color: 'text-red-600', bgColor: 'bg-red-100', risk: 'Very High' },
+  { min: 16, max: 17, label: 'Moderate Thinness', color: 'text-orange-600', bgColor: 'bg-orange-100', risk: 'High' },
+  { min: 17, max: 18.5, label: 'Mild Thinness', color: 'text-yellow-600', bgColor: 'bg-yellow-100', risk: 'Moderate' },
+  { min: 18.5, max: 25, label: 'Normal', color: 'text-green-600', bgColor: 'bg-green-100', risk: 'Low' },
+  { min: 25, max: 30, label: 'Overweight', color: 'text-yellow-600', bgColor: 'bg-yellow-100', risk: 'Moderate' },
+  { min: 30, max: 35, label: 'Obese Class I', color: 'text-orange-600', bgColor: 'bg-orange-100', risk: 'High' },
+  { min: 35, max: 40, label: 'Obese Class II', color: 'text-red-500', bgColor: 'bg-red-100', risk: 'Very High' },
+  { min: 40, max: 100, label: 'Obese Class III', color: 'text-red-700', bgColor: 'bg-red-200', risk: 'Extremely High' },
+]
+
+/**
+ * Find the WHO BMI category for a BMI value
+ */
+export function getBMICategory(bmi: number) {
+  const category = BMI_CATEGORIES.find(c => bmi >= c.min && bmi < c.max) || BMI_CATEGORIES[BMI_CATEGORIES.length - 1]
+  return category
+}
+
+/**
+ * Calculate BMI with an age- and gender-adjusted ideal weight range
+ *
+ * Formula: BMI = weight (kg) / height (m)²
+ */
+export function calculateBMI(weightKg: number, heightCm: number, age: number, gender: 'male' | 'female'): BMIResult {
+  const heightM = heightCm / 100
+  const bmi = weightKg / (heightM * heightM)
+  const category = getBMICategory(bmi)
+
+  // Adjusted ideal BMI ranges based on age and gender
+  // - Seniors (65+): 23-28 is considered optimal (slightly higher due to sarcopenia risk)
+  // - Women: Slightly lower ideal range (19-24)
+  // - Men: Standard range (20-25)
+  let idealBMIMin = 18.5
+  let idealBMIMax = 25
+
+  if (age >= 65) {
+    // For seniors, a slightly higher BMI is associated with better health outcomes
+    idealBMIMin = 23
+    idealBMIMax = 28
+  } else if (gender === 'female') {
+    // Women typically have higher body fat percentage, slightly lower BMI range
+    idealBMIMin = 19
+    idealBMIMax = 24
+  } else {
+    // Men - standard healthy range slightly adjusted
+    idealBMIMin = 20
+    idealBMIMax = 25
+  }
+
+  // Calculate ideal weight range based on adjusted BMI
+  const idealWeightMin = idealBMIMin * heightM * heightM
+  const idealWeightMax = idealBMIMax * heightM * heightM
+
+  // Adjust health risk interpretation for seniors
+  let healthRisk = category.risk
+  if (age >= 65 && bmi >= 25 && bmi < 28) {
+    healthRisk = 'Low' // For seniors, overweight category has lower risk
+  }
+
+  return {
+    bmi: Math.round(bmi * 10) / 10,
+    category: category.label,
+    categoryColor: category.color,
+    healthRisk,
+    idealWeightMin: Math.round(idealWeightMin * 10) / 10,
+    idealWeightMax: Math.round(idealWeightMax * 10) / 10,
+  }
+}
+
+/**
+ * Plan the weight change needed to reach a target BMI
+ */
+export function calculateTargetPlan(
+  currentWeight: number,
+  heightCm: number,
+  targetBMI: number,
+  weeklyChangeRate: number = 0.5
+): TargetPlan {
+  const heightM = heightCm / 100
+  const targetWeight = targetBMI * heightM * heightM
+  const weightChange = Math.abs(targetWeight - currentWeight)
+  const direction = targetWeight < currentWeight ? 'lose' : targetWeight > currentWeight ? 'gain' : 'maintain'
+  const estimatedWeeks = weightChange / weeklyChangeRate
+
+  return {
+    targetBMI,
+    targetWeight: Math.round(targetWeight * 10) / 10,
+    weightChange: Math.round(weightChange * 10) / 10,
+    direction,
+    weeklyChange: weeklyChangeRate,
+    estimatedWeeks: Math.ceil(estimatedWeeks),
+  }
+}
@@ -0,0 +1,34 @@
+import { CAGRSummary } from '@/types'
+import { calculateCAGR, calculateFutureValue } from './lumpsum'
+
+/**
+ * Calculate CAGR summary between two values
+ *
+ * Formula: CAGR = ((Final Value / Initial Value)^(1/years) - 1) × 100
+ */
+export function calculateCAGRSummary(initialValue: number, finalValue: number, years: number): CAGRSummary {
+  const cagr = calculateCAGR(initialValue, finalValue, years)
+  const totalReturn = finalValue - initialValue
+  const totalReturnPercent = initialValue > 0 ? (totalReturn / initialValue) * 100 : 0
+
+  return {
+    initialValue,
+    finalValue,
+    years,
+    cagr: Math.round(cagr * 100) / 100,
+    totalReturn: Math.round(totalReturn),
+    totalReturnPercent: Math.round(totalReturnPercent * 10) / 10,
+  }
+}
+
+/**
+ * Project a value forward at a given CAGR (year 0 to year N)
+ */
+export function generateCAGRProjections(initialValue: number, cagr: number, years: number): { year: number; value: number }[] {
+  const projections: { year: number; value: number }[] = []
+  for (let year = 0; year <= years; year++) {
+    const value = calculateFutureValue(initialValue, cagr, year)
+    projections.push({ year, value: Math.round(value) })
+  }
+  return projections
+}
@@ -1,4 +1,11 @@
-import { CompoundInput, CompoundResult } from '@/types'
+import {
+  CompoundInput,
+  CompoundResult,
+  CompoundSummary,
+  CompoundYearlyBreakdown,
+  CompoundingFrequency,
+  FrequencyComparison,
+} from '@/types'
 import { formatCurrency } from '@/lib/utils/formatters'
 
 /**
@@ -14,18 +21,9 @@ import { formatCurrency } from '@/lib/utils/formatters'
 export function calculateCompound(input: CompoundInput): CompoundResult {
   const { principal, rate, tenure, compoundingFrequency } = input
 
-  // Compounding frequency per year
-  const frequencyMap: Record<typeof compoundingFrequency, number> = {
-    monthly: 12,
-    quarterly: 4,
-    halfYearly: 2,
-    yearly: 1,
-  }
-  const n = frequencyMap[compoundingFrequency]
-
-  // Calculate maturity amount
-  const rateDecimal = rate / 100
-  const maturityAmount = principal * Math.pow(1 + rateDecimal / n, n * tenure)
+  // Legacy routes use 'halfYearly'; the engine uses 'half-yearly'
+  const frequency = compoundingFrequency === 'halfYearly' ? 'half-yearly' : compoundingFrequency
+  const maturityAmount = calculateCompoundInterest(principal, rate, tenure, frequency).finalAmount
   const interestEarned = maturityAmount - principal
 
   // Calculate equivalent simple interest rate
@@ -114,3 +112,184 @@ export function compareInterest(
     differencePercent,
   }
 }
+
+/**
+ * Number of compounding periods per year
+ */
+export function getFrequencyPerYear(frequency: CompoundingFrequency): number {
+  switch (frequency) {
+    case 'daily': return 365
+    case 'monthly': return 12
+    case 'quarterly': return 4
+    case 'half-yearly': return 2
+    case 'yearly': return 1
+  }
+}
+
+/**
+ * Display label for a compounding frequency
+ */
+export function getFrequencyLabel(frequency: CompoundingFrequency): string {
+  switch (frequency) {
+    case 'daily': return 'Daily'
+    case 'monthly': return 'Monthly'
+    case 'quarterly': return 'Quarterly'
+    case 'half-yearly': return 'Half-Yearly'
+    case 'yearly': return 'Yearly'
+  }
+}
+
+/**
+ * Calculate compound interest summary for a given compounding frequency
+ */
+export function calculateCompoundInterest(
+  principal: number,
+  rate: number,
+  years: number,
+  frequency: CompoundingFrequency,
+  monthlyContribution: number = 0
+): CompoundSummary {
+  const n = getFrequencyPerYear(frequency)
+  const r = rate / 100
+
+  // A = P × (1 + r/n)^(n×t)
+  const compoundFactor = Math.pow(1 + r / n, n * years)
+  let finalAmount = principal * compoundFactor
+
+  // With regular monthly additions (assuming contributions at end of each period)
+  // A = PMT × (((1 + r/n)^(n×t) - 1) / (r/n))
+  if (monthlyContribution > 0 && r > 0) {
+    // Convert monthly contribution to per-period contribution
+    const periodsPerMonth = n / 12
+    const contributionPerPeriod = monthlyContribution / periodsPerMonth
+    const futureValueContributions = contributionPerPeriod * ((compoundFactor - 1) / (r / n))
+    finalAmount += futureValueContributions
+  } else if (monthlyContribution > 0 && r === 0) {
+    finalAmount += monthlyContribution * 12 * years
+  }
+
+  const totalContributions = principal + (monthlyContribution * 12 * years)
+  const totalInterest = finalAmount - totalContributions
+
+  // Effective Annual Rate = (1 + r/n)^n - 1
+  const effectiveRate = (Math.pow(1 + r / n, n) - 1) * 100
+
+  // Interest on interest (compound effect)
+  const simpleInterest = principal * r * years + (monthlyContribution * 12 * years * r * years / 2)
+  const interestOnInterest = totalInterest - simpleInterest
+
+  return {
+    principal: totalContributions,
+    totalInterest: Math.round(totalInterest),
+    finalAmount: Math.round(finalAmount),
+    effectiveRate: Math.round(effectiveRate * 100) / 100,
+    interestOnInterest: Math.max(0, Math.round(interestOnInterest)),
+    principalPercent: Math.round((totalContributions / finalAmount) * 100),
+    interestPercent: Math.round((totalInterest / finalAmount) * 100),
+  }
+}
+
+/**
+ * Generate year-by-year compound growth
+ */
+export function generateCompoundBreakdown(
+  principal: number,
+  rate: number,
+  years: number,
+  frequency: CompoundingFrequency,
+  monthlyContribution: number = 0
+): CompoundYearlyBreakdown[] {
+  const n = getFrequencyPerYear(frequency)
+  const r = rate / 100
+  const breakdown: CompoundYearlyBreakdown[] = []
+
+  let balance = principal
+
+  for (let year = 1; year <= years; year++) {
+    const openingBalance = balance
+    const yearlyContribution = monthlyContribution * 12
+
+    const compoundFactor = Math.pow(1 + r / n, n)
+    let yearEndBalance = openingBalance * compoundFactor
+
+    if (monthlyContribution > 0 && r > 0) {
+      const periodsPerMonth = n / 12
+      const contributionPerPeriod = monthlyContribution / periodsPerMonth
+      const futureValueContributions = contributionPerPeriod * ((compoundFactor - 1) / (r / n))
+      yearEndBalance += futureValueContributions
+    } else if (monthlyContribution > 0) {
+      yearEndBalance += yearlyContribution
+    }
+
+    const interestEarned = yearEndBalance - openingBalance - yearlyContribution
+
+    breakdown.push({
+      year,
+      openingBalance: Math.round(openingBalance),
+      interestEarned: Math.round(interestEarned),
+      contributions: Math.round(yearlyContribution),
+      closingBalance: Math.round(yearEndBalance),
+    })
+
+    balance = yearEndBalance
+  }
+
+  return breakdown
+}
+
+/**
+ * Calculate the principal needed to reach a target amount
+ */
+export function calculateCompoundRequiredPrincipal(
+  targetAmount: number,
+  rate: number,
+  years: number,
+  frequency: CompoundingFrequency,
+  monthlyContribution: number = 0
+): number {
+  const n = getFrequencyPerYear(frequency)
+  const r = rate / 100
+  const compoundFactor = Math.pow(1 + r / n, n * years)
+
+  if (monthlyContribution > 0 && r > 0) {
+    // With monthly contributions, subtract the FV of contributions from target
+    const periodsPerMonth = n / 12
+    const contributionPerPeriod = monthlyContribution / periodsPerMonth
+    const futureValueContributions = contributionPerPeriod * ((compoundFactor - 1) / (r / n))
+    const remainingTarget = targetAmount - futureValueContributions
+    // Principal needed = remainingTarget / compoundFactor
+    return Math.max(0, Math.round(remainingTarget / compoundFactor))
+  } else if (monthlyContribution > 0 && r === 0) {
+    // No interest case with contributions
+    const totalContributions = monthlyContribution * 12 * years
+    return Math.max(0, Math.round(targetAmount - totalContributions))
+  }
+
+  // Simple case: P = A / (1 + r/n)^(n×t)
+  return Math.round(targetAmount / compoundFactor)
+}
+
+/**
+ * Compare the final amount across all compounding frequencies
+ */
+export function compareFrequencies(
+  principal: number,
+  rate: number,
+  years: number,
+  monthlyContribution: number = 0
+): FrequencyComparison[] {
+  const frequencies: CompoundingFrequency[] = ['yearly', 'half-yearly', 'quarterly', 'monthly', 'daily']
+  const yearlyResult = calculateCompoundInterest(principal, rate, years, 'yearly', monthlyContribution)
+
+  return frequencies.map(freq => {
+    const result = calculateCompoundInterest(principal, rate, years, freq, monthlyContribution)
+    return {
+      frequency: freq,
+      label: getFrequencyLabel(freq),
+      finalAmount: result.finalAmount,
+      totalInterest: result.totalInterest,
+      effectiveRate: result.effectiveRate,
+      difference: result.finalAmount - yearlyResult.finalAmount,
+    }
+  })
+}
@@ -0,0 +1,75 @@
+import { ExchangeRates } from '@/types'
+
+// Static exchange rates (base: USD) - Updated Jan 2025
+export const EXCHANGE_RATES: ExchangeRates = {
+  USD: 1,
+  INR: 83.12,
+  EUR: 0.92,
+  GBP: 0.79,
+  JPY: 148.50,
+  AUD: 1.53,
+  CAD: 1.35,
+  CHF: 0.88,
+  CNY: 7.24,
+  SGD: 1.34,
+  AED: 3.67,
+  HKD: 7.82,
+  NZD: 1.64,
+  KRW: 1320.50,
+  MXN: 17.15,
+  BRL: 4.97,
+  ZAR: 18.65,
+  THB: 35.20,
+  MYR: 4.72,
+  PHP: 55.80,
+  IDR: 15750,
+  SAR: 3.75,
+  RUB: 89.50,
+  TRY: 30.25,
+}
+
+export const CURRENCIES = [
+  { code: 'USD', name: 'US Dollar', symbol: '$', flag: '🇺🇸' },
+  { code: 'INR', name: 'Indian Rupee', symbol: '₹', flag: '🇮🇳' },
+  { code: 'EUR', name: 'Euro', symbol: '€', flag: '🇪🇺' },
+  { code: 'GBP', name: 'British Pound', symbol: '£', flag: '🇬🇧' },
+  { code: 'JPY', name: 'Japanese Yen', symbol: '¥', flag: '🇯🇵' },
+  { code: 'AUD', name: 'Australian Dollar', symbol: 'A$', flag: '🇦🇺' },
+  { code: 'CAD', name: 'Canadian Dollar', symbol: 'C$', flag: '🇨🇦' },
+  { code: 'CHF', name: 'Swiss Franc', symbol: 'Fr', flag: '🇨🇭' },
+  { code: 'CNY', name: 'Chinese Yuan', symbol: '¥', flag: '🇨🇳' },
+  { code: 'SGD', name: 'Singapore Dollar', symbol: 'S$', flag: '🇸🇬' },
+  { code: 'AED', name: 'UAE Dirham', symbol: 'د.إ', flag: '🇦🇪' },
+  { code: 'HKD', name: 'Hong Kong Dollar', symbol: 'HK$', flag: '🇭🇰' },
+  { code: 'NZD', name: 'New Zealand Dollar', symbol: 'NZ$', flag: '🇳🇿' },
+  { code: 'KRW', name: 'South Korean Won', symbol: '₩', flag: '🇰🇷' },
+  { code: 'MXN', name: 'Mexican Peso', symbol: '$', flag: '🇲🇽' },
+  { code: 'BRL', name: 'Brazilian Real', symbol: 'R$', flag: '🇧🇷' },
+  { code: 'ZAR', name: 'South African Rand', symbol: 'R', flag: '🇿🇦' },
+  { code: 'THB', name: 'Thai Baht', symbol: '฿', flag: '🇹🇭' },
+  { code: 'MYR', name: 'Malaysian Ringgit', symbol: 'RM', flag: '🇲🇾' },
+  { code: 'PHP', name: 'Philippine Peso', symbol: '₱', flag: '🇵🇭' },
+  { code: 'IDR', name: 'Indonesian Rupiah', symbol: 'Rp', flag: '🇮🇩' },
+  { code: 'SAR', name: 'Saudi Riyal', symbol: '﷼', flag: '🇸🇦' },
+  { code: 'RUB', name: 'Russian Ruble', symbol: '₽', flag: '🇷🇺' },
+  { code: 'TRY', name: 'Turkish Lira', symbol: '₺', flag: '🇹🇷' },
+]
+
+export const POPULAR_PAIRS = [
+  { from: 'USD', to: 'INR' },
+  { from: 'EUR', to: 'USD' },
+  { from: 'GBP', to: 'USD' },
+  { from: 'USD', to: 'JPY' },
+  { from: 'EUR', to: 'INR' },
+  { from: 'AED', to: 'INR' },
+]
+
+/**
+ * Convert an amount between two currencies via their USD rates
+ */
+export function convertCurrency(amount: number, from: string, to: string): number {
+  const fromRate = EXCHANGE_RATES[from] || 1
+  const toRate = EXCHANGE_RATES[to] || 1
+  const usdAmount = amount / fromRate
+  return usdAmount * toRate
+}
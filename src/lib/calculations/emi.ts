@@ -1,5 +1,22 @@
-import { EMIInput, EMIResult, AmortizationRow } from '@/types'
+import {
+  EMIInput,
+  EMIResult,
+  EMISummary,
+  AmortizationRow,
+  LoanYearlyBreakdown,
+  RateRevision,
+  FloatingRateResult,
+  PrepaymentEntry,
+  PrepaymentStrategy,
+  PrepaymentScheduleRow,
+  PrepaymentResult,
+  RefinanceRow,
+  RefinanceResult,
+  HomeLoanTaxBenefitYear,
+  HomeLoanTaxBenefitResult,
+} from '@/types'
 import { formatCurrency, formatPercent } from '@/lib/utils/formatters'
+import { CESS_RATE, SECTION_24B_CAP, SECTION_80C_CAP, SECTION_80EEA_CAP } from './taxRules'
 
 /**
  * Calculate EMI (Equated Monthly Installment)
@@ -16,24 +33,15 @@ export function calculateEMI(input: EMIInput): EMIResult {
   // Convert tenure to months if in years
   const tenureMonths = tenureUnit === 'years' ? tenure * 12 : tenure
 
-  // Monthly interest rate
-  const monthlyRate = rate / 12 / 100
-
-  // Handle 0% interest rate edge case
-  let emi: number
-  if (rate === 0) {
-    emi = principal / tenureMonths
-  } else {
-    const compoundFactor = Math.pow(1 + monthlyRate, tenureMonths)
-    emi = (principal * monthlyRate * compoundFactor) / (compoundFactor - 1)
-  }
+  // Monthly EMI (handles the 0% interest rate edge case)
+  const emi = calculateMonthlyEMI(principal, rate, tenureMonths)
 
   // Total payment and interest
   const totalPayment = emi * tenureMonths
   const totalInterest = totalPayment - principal
 
   // Generate amortization schedule
-  const breakdown = generateAmortization(principal, monthlyRate, tenureMonths, emi)
+  const breakdown = generateAmortization(principal, rate, tenureMonths, emi).schedule
 
   // Chart data (Principal vs Interest)
   const chartData = [
@@ -73,72 +81,527 @@ export function calculateEMI(input: EMIInput): EMIResult {
 }
 
 /**
- * Generate amortization schedule
+ * Calculate affordable loan amount based on EMI
+ */
+export function calculateAffordableLoan(
+  monthlyEmi: number,
+  rate: number,
+  tenureMonths: number
+): number {
+  const monthlyRate = rate / 12 / 100
+
+  if (rate === 0) {
+    return monthlyEmi * tenureMonths
+  }
+
+  const compoundFactor = Math.pow(1 + monthlyRate, tenureMonths)
+  const principal = (monthlyEmi * (compoundFactor - 1)) / (monthlyRate * compoundFactor)
+
+  return Math.round(principal)
+}
+
+/**
+ * Calculate tenure for given EMI and loan amount
+ */
+export function calculateTenure(
+  principal: number,
+  monthlyEmi: number,
+  rate: number
+): number {
+  // n = log(EMI / (EMI - P * r)) / log(1 + r)
+  return calculateMonthsToRepay(principal, rate, monthlyEmi)
+}
+
+/**
+ * Calculate the (unrounded) EMI for an arbitrary number of months.
+ * Used when a loan is re-amortized mid-way (rate revisions, prepayments, refinancing).
+ */
+export function calculateMonthlyEMI(
+  principal: number,
+  annualRate: number,
+  months: number
+): number {
+  const monthlyRate = annualRate / 12 / 100
+
+  if (months <= 0) return principal
+  if (annualRate === 0) return principal / months
+
+  const compoundFactor = Math.pow(1 + monthlyRate, months)
+  return (principal * monthlyRate * compoundFactor) / (compoundFactor - 1)
+}
+
+/**
+ * Calculate months needed to repay a balance at a given EMI.
+ * Returns Infinity when the EMI does not cover the monthly interest.
+ */
+export function calculateMonthsToRepay(
+  balance: number,
+  annualRate: number,
+  monthlyEmi: number
+): number {
+  const monthlyRate = annualRate / 12 / 100
+
+  if (annualRate === 0) return Math.ceil(balance / monthlyEmi)
+  if (monthlyEmi <= balance * monthlyRate) return Infinity
+
+  const months = Math.log(monthlyEmi / (monthlyEmi - balance * monthlyRate)) / Math.log(1 + monthlyRate)
+  // Tolerance so an exact EMI doesn't round up to an extra month on floating-point noise
+  return Math.ceil(months - 1e-9)
+}
+
+/**
+ * Calculate EMI summary for a fixed-rate loan (tenure in years)
+ */
+export function calculateEMISummary(principal: number, rate: number, tenure: number): EMISummary {
+  const months = tenure * 12
+
+  if (rate === 0) {
+    return {
+      emi: Math.round(principal / months),
+      totalInterest: 0,
+      totalPayment: Math.round(principal),
+      principalPercent: 100,
+      interestPercent: 0,
+    }
+  }
+
+  const emi = calculateMonthlyEMI(principal, rate, months)
+  const totalPayment = emi * months
+  const totalInterest = totalPayment - principal
+
+  return {
+    emi: Math.round(emi),
+    totalInterest: Math.round(totalInterest),
+    totalPayment: Math.round(totalPayment),
+    principalPercent: Math.round((principal / totalPayment) * 100),
+    interestPercent: Math.round((totalInterest / totalPayment) * 100),
+  }
+}
+
+/**
+ * Generate month-by-month amortization schedule with yearly totals
  */
-function generateAmortization(
+export function generateAmortization(
   principal: number,
-  monthlyRate: number,
-  tenureMonths: number,
+  rate: number,
+  months: number,
   emi: number
-): AmortizationRow[] {
+): { schedule: AmortizationRow[]; yearlyBreakdown: LoanYearlyBreakdown[] } {
+  const monthlyRate = rate / 12 / 100
   const schedule: AmortizationRow[] = []
+  const yearlyBreakdown: LoanYearlyBreakdown[] = []
+
   let balance = principal
+  let yearPrincipal = 0
+  let yearInterest = 0
 
-  for (let month = 1; month <= tenureMonths; month++) {
+  for (let month = 1; month <= months; month++) {
     const interest = balance * monthlyRate
-    const principalPart = emi - interest
-    balance = Math.max(0, balance - principalPart)
+    const principalPaid = emi - interest
+    balance = Math.max(0, balance - principalPaid)
+
+    const year = Math.ceil(month / 12)
 
     schedule.push({
       month,
-      year: Math.ceil(month / 12),
+      year,
       emi: Math.round(emi),
-      principal: Math.round(principalPart),
+      principal: Math.round(principalPaid),
       interest: Math.round(interest),
       balance: Math.round(balance),
     })
+
+    yearPrincipal += principalPaid
+    yearInterest += interest
+
+    if (month % 12 === 0 || month === months) {
+      yearlyBreakdown.push({
+        year,
+        principal: Math.round(yearPrincipal),
+        interest: Math.round(yearInterest),
+        balance: Math.round(balance),
+      })
+      yearPrincipal = 0
+      yearInterest = 0
+    }
   }
 
-  return schedule
+  return { schedule, yearlyBreakdown }
 }
 
+// Safety cap so a tenure-adjusting revision can't loop forever
+export const MAX_FLOATING_MONTHS = 600
+
 /**
- * Calculate affordable loan amount based on EMI
+ * Convert a 'YYYY-MM' date to a 1-based loan month relative to the start date
  */
-export function calculateAffordableLoan(
-  monthlyEmi: number,
+export function loanMonthFromDate(startDate: string, date: string): number {
+  const [startYear, startMonth] = startDate.split('-').map(Number)
+  const [year, month] = date.split('-').map(Number)
+  return (year - startYear) * 12 + (month - startMonth) + 1
+}
+
+/**
+ * Add months to a 'YYYY-MM' date
+ */
+export function addMonthsToDate(date: string, months: number): string {
+  const [year, month] = date.split('-').map(Number)
+  const d = new Date(year, month - 1 + months, 1)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`
+}
+
+/**
+ * Amortize a floating-rate loan.
+ * Each revision either re-computes the EMI over the remaining tenure ('emi')
+ * or keeps the EMI and stretches/shrinks the tenure ('tenure'). If a rate hike
+ * makes the EMI smaller than the monthly interest, the EMI is reset instead.
+ */
+export function generateFloatingAmortization(
+  principal: number,
   rate: number,
-  tenureMonths: number
-): number {
-  const monthlyRate = rate / 12 / 100
+  tenure: number,
+  startDate: string,
+  revisions: RateRevision[]
+): FloatingRateResult {
+  const revisionMap = new Map<number, RateRevision>()
+  ;[...revisions]
+    .map((r) => ({ ...r, month: loanMonthFromDate(startDate, r.date) }))
+    .filter((r) => r.month > 1 && r.rate > 0)
+    .sort((a, b) => a.month - b.month)
+    .forEach((r) => revisionMap.set(r.month, r))
 
-  if (rate === 0) {
-    return monthlyEmi * tenureMonths
+  const schedule: AmortizationRow[] = []
+  const yearlyBreakdown: LoanYearlyBreakdown[] = []
+
+  let balance = principal
+  let currentRate = rate
+  let remainingMonths = tenure * 12
+  let emi = calculateMonthlyEMI(principal, rate, remainingMonths)
+  const initialEmi = emi
+  let totalInterest = 0
+  let totalPayment = 0
+  let yearPrincipal = 0
+  let yearInterest = 0
+  let month = 0
+
+  while (balance > 0.5 && month < MAX_FLOATING_MONTHS) {
+    month++
+
+    const revision = revisionMap.get(month)
+    if (revision) {
+      currentRate = revision.rate
+      if (revision.adjust === 'emi') {
+        emi = calculateMonthlyEMI(balance, currentRate, remainingMonths)
+      } else {
+        const newMonths = calculateMonthsToRepay(balance, currentRate, emi)
+        if (Number.isFinite(newMonths)) {
+          remainingMonths = newMonths
+        } else {
+          emi = calculateMonthlyEMI(balance, currentRate, remainingMonths)
+        }
+      }
+    }
+
+    const interest = balance * (currentRate / 12 / 100)
+    const principalPaid = Math.min(emi - interest, balance)
+    balance = Math.max(0, balance - principalPaid)
+    remainingMonths = Math.max(1, remainingMonths - 1)
+    totalInterest += interest
+    totalPayment += principalPaid + interest
+    yearPrincipal += principalPaid
+    yearInterest += interest
+
+    const year = Math.ceil(month / 12)
+
+    schedule.push({
+      month,
+      year,
+      emi: Math.round(principalPaid + interest),
+      principal: Math.round(principalPaid),
+      interest: Math.round(interest),
+      balance: Math.round(balance),
+      rate: currentRate,
+    })
+
+    if (month % 12 === 0 || balance <= 0.5) {
+      yearlyBreakdown.push({
+        year,
+        principal: Math.round(yearPrincipal),
+        interest: Math.round(yearInterest),
+        balance: Math.round(balance),
+      })
+      yearPrincipal = 0
+      yearInterest = 0
+    }
   }
 
-  const compoundFactor = Math.pow(1 + monthlyRate, tenureMonths)
-  const principal = (monthlyEmi * (compoundFactor - 1)) / (monthlyRate * compoundFactor)
+  return {
+    schedule,
+    yearlyBreakdown,
+    initialEmi: Math.round(initialEmi),
+    finalEmi: Math.round(emi),
+    tenureMonths: month,
+    totalInterest: Math.round(totalInterest),
+    totalPayment: Math.round(totalPayment),
+  }
+}
 
-  return Math.round(principal)
+/**
+ * Prepayment due in a given loan month (after that month's EMI)
+ */
+export function prepaymentForMonth(prepayments: PrepaymentEntry[], month: number, balance: number): number {
+  let total = 0
+  for (const p of prepayments) {
+    const due =
+      p.frequency === 'once'
+        ? month === p.month
+        : p.frequency === 'monthly'
+          ? month >= p.month
+          : month >= p.month && (month - p.month) % 12 === 0
+    if (due) {
+      total += p.amountType === 'percent' ? (balance * p.amount) / 100 : p.amount
+    }
+  }
+  return total
 }
 
 /**
- * Calculate tenure for given EMI and loan amount
+ * Re-run the loan with prepayments against a baseline schedule.
+ * The baseline supplies the rate for each month (so floating revisions carry over)
+ * and, under the 'tenure' strategy, the EMI that continues to be paid.
+ * Break-even is the first month after the first prepayment from which total cash paid
+ * (EMIs + prepayments) is no more than the baseline's.
  */
-export function calculateTenure(
+export function calculateWithPrepayments(
   principal: number,
-  monthlyEmi: number,
-  rate: number
-): number {
-  const monthlyRate = rate / 12 / 100
+  rate: number,
+  baseline: AmortizationRow[],
+  prepayments: PrepaymentEntry[],
+  strategy: PrepaymentStrategy
+): PrepaymentResult {
+  const baselineMonths = baseline.length
+  const baselineTotalInterest = baseline.reduce((sum, row) => sum + row.interest, 0)
+  const firstPrepaymentMonth = Math.min(...prepayments.map((p) => p.month))
 
-  if (rate === 0) {
-    return Math.ceil(principal / monthlyEmi)
+  let balance = principal
+  let totalInterest = 0
+  let totalPrepaid = 0
+  let cumulativePaid = 0
+  let baselineCumulativePaid = 0
+  let emi = baseline[0]?.emi ?? 0
+  let month = 0
+  let breakEvenMonth: number | null = null
+  const schedule: PrepaymentScheduleRow[] = []
+  const yearlyBreakdown: LoanYearlyBreakdown[] = []
+  let yearPrincipal = 0
+  let yearInterest = 0
+
+  for (let m = 1; m <= baselineMonths; m++) {
+    const baselineRow = baseline[m - 1]
+    baselineCumulativePaid += baselineRow.emi
+    let interest = 0
+    let principalPaid = 0
+    let prepayment = 0
+
+    if (balance > 0) {
+      month = m
+      const monthRate = baselineRow.rate ?? rate
+      emi = strategy === 'emi'
+        ? calculateMonthlyEMI(balance, monthRate, baselineMonths - m + 1)
+        : baselineRow.emi
+
+      interest = balance * (monthRate / 12 / 100)
+      principalPaid = Math.min(emi - interest, balance)
+      balance = Math.max(0, balance - principalPaid)
+
+      prepayment = Math.min(prepaymentForMonth(prepayments, m, balance), balance)
+      balance = Math.max(0, balance - prepayment)
+      if (balance < 0.5) balance = 0
+
+      totalInterest += interest
+      totalPrepaid += prepayment
+      cumulativePaid += principalPaid + interest + prepayment
+      yearPrincipal += principalPaid + prepayment
+      yearInterest += interest
+
+      if (m % 12 === 0 || balance === 0) {
+        yearlyBreakdown.push({
+          year: Math.ceil(m / 12),
+          principal: Math.round(yearPrincipal),
+          interest: Math.round(yearInterest),
+          balance: Math.round(balance),
+        })
+        yearPrincipal = 0
+        yearInterest = 0
+      }
+    }
+
+    if (breakEvenMonth === null && m > firstPrepaymentMonth && cumulativePaid <= baselineCumulativePaid + 1) {
+      breakEvenMonth = m
+    }
+
+    schedule.push({
+      month: m,
+      year: Math.ceil(m / 12),
+      emi: Math.round(principalPaid + interest),
+      principal: Math.round(principalPaid),
+      interest: Math.round(interest),
+      prepayment: Math.round(prepayment),
+      balance: Math.round(balance),
+      baselineEmi: baselineRow.emi,
+      baselineBalance: baselineRow.balance,
+      cumulativePaid: Math.round(cumulativePaid),
+      baselineCumulativePaid: Math.round(baselineCumulativePaid),
+    })
   }
 
-  // n = log(EMI / (EMI - P * r)) / log(1 + r)
-  const numerator = Math.log(monthlyEmi / (monthlyEmi - principal * monthlyRate))
-  const denominator = Math.log(1 + monthlyRate)
+  return {
+    newTenureMonths: month,
+    newTotalInterest: Math.round(totalInterest),
+    newTotalPayment: Math.round(principal + totalInterest),
+    interestSaved: Math.round(baselineTotalInterest - totalInterest),
+    monthsSaved: baselineMonths - month,
+    totalPrepaid: Math.round(totalPrepaid),
+    finalEmi: Math.round(emi),
+    breakEvenMonth,
+    yearlyBreakdown,
+    schedule,
+  }
+}
+
+/**
+ * Compare staying with the current lender against moving the outstanding balance
+ * at month N to a new lender for the same remaining tenure.
+ * Processing fee is charged by the new lender and foreclosure charges by the old one,
+ * both as a % of the outstanding balance. Break-even is the first month after the switch
+ * from which EMI savings have covered the switching cost.
+ */
+export function calculateRefinance(
+  baseline: AmortizationRow[],
+  switchMonth: number,
+  newRate: number,
+  processingFeePercent: number,
+  foreclosurePercent: number
+): RefinanceResult | null {
+  if (switchMonth < 1 || switchMonth >= baseline.length) return null
+
+  const outstanding = baseline[switchMonth - 1].balance
+  const remaining = baseline.slice(switchMonth)
+  const remainingMonths = remaining.length
+  const newEmi = calculateMonthlyEMI(outstanding, newRate, remainingMonths)
+  const monthlyRate = newRate / 12 / 100
+
+  const processingFee = (outstanding * processingFeePercent) / 100
+  const foreclosureCharges = (outstanding * foreclosurePercent) / 100
+  const switchingCost = processingFee + foreclosureCharges
+
+  let balance = outstanding
+  let newTotalInterest = 0
+  let cumulativeSavings = -switchingCost
+  let breakEvenMonth: number | null = null
+  const rows: RefinanceRow[] = []
+
+  remaining.forEach((current, i) => {
+    const interest = balance * monthlyRate
+    const principalPaid = Math.min(newEmi - interest, balance)
+    balance = Math.max(0, balance - principalPaid)
+    newTotalInterest += interest
+    cumulativeSavings += current.emi - (principalPaid + interest)
 
-  return Math.ceil(numerator / denominator)
+    if (breakEvenMonth === null && cumulativeSavings >= 0) {
+      breakEvenMonth = switchMonth + i + 1
+    }
+
+    rows.push({
+      month: current.month,
+      currentEmi: current.emi,
+      currentInterest: current.interest,
+      currentBalance: current.balance,
+      newEmi: Math.round(principalPaid + interest),
+      newInterest: Math.round(interest),
+      newBalance: Math.round(balance),
+      cumulativeSavings: Math.round(cumulativeSavings),
+    })
+  })
+
+  const currentRemainingInterest = remaining.reduce((sum, row) => sum + row.interest, 0)
+  const currentRemainingPayment = remaining.reduce((sum, row) => sum + row.emi, 0)
+  const newRemainingPayment = outstanding + newTotalInterest
+
+  return {
+    outstanding,
+    remainingMonths,
+    currentEmi: remaining[0].emi,
+    newEmi: Math.round(newEmi),
+    currentRemainingInterest: Math.round(currentRemainingInterest),
+    newTotalInterest: Math.round(newTotalInterest),
+    processingFee: Math.round(processingFee),
+    foreclosureCharges: Math.round(foreclosureCharges),
+    switchingCost: Math.round(switchingCost),
+    netSavings: Math.round(currentRemainingPayment - newRemainingPayment - switchingCost),
+    breakEvenMonth,
+    rows,
+  }
+}
+
+/**
+ * Indian financial year (April–March) that a loan month falls in, e.g. 'FY 2025-26'
+ */
+export function financialYearOf(startDate: string, loanMonth: number): string {
+  const [startYear, startMonth] = startDate.split('-').map(Number)
+  const d = new Date(startYear, startMonth - 1 + loanMonth - 1, 1)
+  const fyStart = d.getMonth() >= 3 ? d.getFullYear() : d.getFullYear() - 1
+  return `FY ${fyStart}-${String((fyStart + 1) % 100).padStart(2, '0')}`
+}
+
+/**
+ * Bucket the schedule by financial year and apply the old-regime home loan deductions:
+ * 24(b) on interest, 80C on principal (after other 80C investments) and optionally 80EEA
+ * on interest above the 24(b) cap. Tax saved is valued at the marginal slab rate plus cess.
+ */
+export function calculateHomeLoanTaxBenefits(
+  schedule: AmortizationRow[],
+  startDate: string,
+  rate: number,
+  slabRate: number,
+  other80C: number,
+  claim80EEA: boolean
+): HomeLoanTaxBenefitResult {
+  const marginalRate = (slabRate / 100) * (1 + CESS_RATE / 100)
+  const room80C = Math.max(0, SECTION_80C_CAP - other80C)
+  const years: HomeLoanTaxBenefitYear[] = []
+
+  schedule.forEach((row) => {
+    const fy = financialYearOf(startDate, row.month)
+    let year = years[years.length - 1]
+    if (!year || year.fy !== fy) {
+      year = { fy, principal: 0, interest: 0, deduction24b: 0, deduction80C: 0, deduction80EEA: 0, taxSaved: 0 }
+      years.push(year)
+    }
+    year.principal += row.principal
+    year.interest += row.interest
+  })
+
+  let totalDeduction = 0
+  let totalTaxSaved = 0
+  let interestTaxSaved = 0
+  let totalInterest = 0
+  years.forEach((year) => {
+    year.deduction24b = Math.min(year.interest, SECTION_24B_CAP)
+    year.deduction80EEA = claim80EEA ? Math.min(year.interest - year.deduction24b, SECTION_80EEA_CAP) : 0
+    year.deduction80C = Math.min(year.principal, room80C)
+    year.taxSaved = Math.round((year.deduction24b + year.deduction80EEA + year.deduction80C) * marginalRate)
+    totalDeduction += year.deduction24b + year.deduction80EEA + year.deduction80C
+    totalTaxSaved += year.taxSaved
+    interestTaxSaved += (year.deduction24b + year.deduction80EEA) * marginalRate
+    totalInterest += year.interest
+  })
+
+  return {
+    years,
+    totalDeduction,
+    totalTaxSaved,
+    interestTaxSaved: Math.round(interestTaxSaved),
+    effectiveRate: totalInterest > 0 ? rate * (1 - interestTaxSaved / totalInterest) : rate,
+  }
 }
@@ -0,0 +1,100 @@
+import { EPFParams, EPFResult, EPFYearlyBreakdown } from '@/types'
+import { EPS_RATE, PF_WAGE_CEILING } from './salary'
+
+// Rule 9D: interest on an employee's own contributions above these limits a year is taxable;
+// the higher limit applies when the employer does not contribute
+export const EPF_TAX_FREE_CONTRIBUTION = 250000
+export const EPF_TAX_FREE_CONTRIBUTION_NO_EMPLOYER = 500000
+
+// EPS 1995: pension = pensionable salary x pensionable service / 70, after at least 10 years of service.
+// Service counts up to 35 years, with 2 years' weightage once it reaches 20.
+const EPS_DIVISOR = 70
+const EPS_MIN_SERVICE = 10
+const EPS_MAX_SERVICE = 35
+const EPS_WEIGHTAGE_AFTER = 20
+const EPS_WEIGHTAGE = 2
+const EPS_MIN_PENSION = 1000
+
+/**
+ * Project the EPF balance year by year to retirement and estimate the EPS pension.
+ * Contributions are credited monthly and interest is calculated on the running monthly balance,
+ * credited at the end of each year as EPFO does. Basic grows by the annual increment from the second year.
+ */
+export function calculateEPF(params: EPFParams): EPFResult {
+  const { annualIncrement, employeePercent, employerPercent, vpfPercent, interestRate, yearsToRetirement } = params
+  const monthlyRate = interestRate / 100 / 12
+  const taxFreeLimit = employerPercent > 0 ? EPF_TAX_FREE_CONTRIBUTION : EPF_TAX_FREE_CONTRIBUTION_NO_EMPLOYER
+
+  const breakdown: EPFYearlyBreakdown[] = []
+  let balance = params.currentBalance
+  let taxableBalance = 0 // excess own contributions and the interest on them
+  let monthlyBasic = params.monthlyBasic
+  let pensionWages: number[] = []
+
+  for (let year = 1; year <= yearsToRetirement; year++) {
+    if (year > 1) monthlyBasic *= 1 + annualIncrement / 100
+
+    const employee = monthlyBasic * (employeePercent / 100)
+    const vpf = monthlyBasic * (vpfPercent / 100)
+    const eps = Math.min(monthlyBasic, PF_WAGE_CEILING) * (EPS_RATE / 100)
+    const employer = Math.max(0, monthlyBasic * (employerPercent / 100) - (employerPercent > 0 ? eps : 0))
+    const epsContribution = employerPercent > 0 ? eps * 12 : 0
+
+    // Own contributions above the limit go to a taxable account from the month the limit is crossed
+    let ownSoFar = 0
+    let interest = 0
+    let taxableInterest = 0
+    for (let month = 0; month < 12; month++) {
+      const own = employee + vpf
+      const excess = Math.max(0, Math.min(own, ownSoFar + own - taxFreeLimit))
+      ownSoFar += own
+      balance += own + employer
+      taxableBalance += excess
+      interest += balance * monthlyRate
+      taxableInterest += taxableBalance * monthlyRate
+    }
+    balance += interest
+    taxableBalance += taxableInterest
+    pensionWages = [...pensionWages, ...Array<number>(12).fill(Math.min(monthlyBasic, PF_WAGE_CEILING))].slice(-60)
+
+    breakdown.push({
+      year,
+      monthlyBasic: Math.round(monthlyBasic),
+      employeeContribution: Math.round(employee * 12),
+      employerContribution: Math.round(employer * 12),
+      vpfContribution: Math.round(vpf * 12),
+      epsContribution: Math.round(epsContribution),
+      interest: Math.round(interest),
+      taxableInterest: Math.round(taxableInterest),
+      balance: Math.round(balance),
+    })
+  }
+
+  const sum = (key: keyof EPFYearlyBreakdown) => breakdown.reduce((total, row) => total + row[key], 0)
+
+  // Pensionable salary is the average EPS wage of the last 60 months
+  const pensionableSalary = pensionWages.length > 0
+    ? pensionWages.reduce((total, wage) => total + wage, 0) / pensionWages.length
+    : Math.min(params.monthlyBasic, PF_WAGE_CEILING)
+  const service = Math.min(EPS_MAX_SERVICE, Math.floor(params.pastServiceYears + yearsToRetirement))
+  const pensionableService = service + (service >= EPS_WEIGHTAGE_AFTER ? EPS_WEIGHTAGE : 0)
+  const pensionEligible = employerPercent > 0 && service >= EPS_MIN_SERVICE
+  const monthlyPension = pensionEligible
+    ? Math.max(EPS_MIN_PENSION, Math.round((pensionableSalary * pensionableService) / EPS_DIVISOR))
+    : 0
+
+  return {
+    finalBalance: Math.round(balance),
+    totalEmployee: sum('employeeContribution'),
+    totalEmployer: sum('employerContribution'),
+    totalVpf: sum('vpfContribution'),
+    totalInterest: sum('interest'),
+    totalEps: sum('epsContribution'),
+    totalTaxableInterest: sum('taxableInterest'),
+    pensionableSalary: Math.round(pensionableSalary),
+    pensionableService,
+    pensionEligible,
+    monthlyPension,
+    breakdown,
+  }
+}
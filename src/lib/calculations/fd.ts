@@ -1,4 +1,11 @@
-import { FDInput, FDResult } from '@/types'
+import {
+  FDInput,
+  FDResult,
+  FDSummary,
+  FDYearlyBreakdown,
+  FDPayoutOption,
+  FDCompoundingFrequency,
+} from '@/types'
 import { formatCurrency } from '@/lib/utils/formatters'
 
 /**
@@ -28,19 +35,13 @@ export function calculateFD(input: FDInput): FDResult {
       tenureYears = tenure
   }
 
-  // Compounding frequency per year
-  const frequencyMap: Record<typeof compoundingFrequency, number> = {
-    monthly: 12,
-    quarterly: 4,
-    halfYearly: 2,
-    yearly: 1,
-  }
-  const n = frequencyMap[compoundingFrequency]
-
-  // Calculate maturity amount
-  const rateDecimal = rate / 100
-  const maturityAmount = principal * Math.pow(1 + rateDecimal / n, n * tenureYears)
-  const interestEarned = maturityAmount - principal
+  // Compound interest - interest is reinvested until maturity
+  const { maturityAmount, totalInterest: interestEarned } = calculateFDForRate(
+    principal,
+    rate,
+    tenureYears * 12,
+    compoundingFrequency
+  )
 
   // Chart data
   const chartData = [
@@ -93,3 +94,152 @@ export function calculateSimpleInterestFD(
     interestEarned: Math.round(interestEarned),
   }
 }
+
+/**
+ * Number of compounding periods per year
+ */
+export function getCompoundingPerYear(frequency: FDCompoundingFrequency): number {
+  const map: Record<FDCompoundingFrequency, number> = {
+    monthly: 12,
+    quarterly: 4,
+    halfYearly: 2,
+    yearly: 1,
+  }
+  return map[frequency]
+}
+
+/**
+ * Number of interest payouts per year (0 for cumulative FDs)
+ */
+export function getPayoutPerYear(payout: FDPayoutOption): number {
+  const map: Record<FDPayoutOption, number> = {
+    maturity: 0, // No periodic payouts
+    monthly: 12,
+    quarterly: 4,
+    yearly: 1,
+  }
+  return map[payout]
+}
+
+/**
+ * Calculate FD maturity amount using compound interest formula
+ * A = P × (1 + r/n)^(n×t)
+ */
+export function calculateFDMaturity(
+  principal: number,
+  rate: number,
+  tenureMonths: number,
+  compounding: FDCompoundingFrequency,
+  payout: FDPayoutOption
+): FDSummary {
+  const tenureYears = tenureMonths / 12
+  const n = getCompoundingPerYear(compounding)
+  const r = rate / 100
+
+  let maturityAmount: number
+  let totalInterest: number
+
+  if (payout === 'maturity') {
+    // Compound interest - interest is reinvested
+    maturityAmount = principal * Math.pow(1 + r / n, n * tenureYears)
+    totalInterest = maturityAmount - principal
+  } else {
+    // Periodic payout - simple interest calculation for payouts
+    // Interest is paid out periodically, so no compounding on that portion
+    const payoutFreq = getPayoutPerYear(payout)
+    const periodicInterest = (principal * r) / payoutFreq
+    const totalPayouts = payoutFreq * tenureYears
+    totalInterest = periodicInterest * totalPayouts
+    maturityAmount = principal + totalInterest
+  }
+
+  // Calculate effective annual rate
+  const effectiveRate = ((maturityAmount / principal - 1) / tenureYears) * 100
+  const total = maturityAmount
+  const principalPercent = Math.round((principal / total) * 100)
+  const interestPercent = 100 - principalPercent
+
+  return {
+    maturityAmount: Math.round(maturityAmount),
+    totalInterest: Math.round(totalInterest),
+    investmentAmount: principal,
+    effectiveRate: Math.round(effectiveRate * 100) / 100,
+    principalPercent,
+    interestPercent,
+  }
+}
+
+/**
+ * Generate year-by-year FD growth (cumulative interest)
+ */
+export function generateFDBreakdown(
+  principal: number,
+  rate: number,
+  tenureMonths: number,
+  compounding: FDCompoundingFrequency
+): FDYearlyBreakdown[] {
+  const tenureYears = Math.ceil(tenureMonths / 12)
+  const n = getCompoundingPerYear(compounding)
+  const r = rate / 100
+  const breakdown: FDYearlyBreakdown[] = []
+
+  let previousBalance = principal
+
+  for (let year = 1; year <= tenureYears; year++) {
+    const effectiveMonths = Math.min(year * 12, tenureMonths)
+    const effectiveYears = effectiveMonths / 12
+    const balance = principal * Math.pow(1 + r / n, n * effectiveYears)
+    const yearInterest = balance - previousBalance
+
+    breakdown.push({
+      year,
+      principal,
+      interest: Math.round(yearInterest),
+      balance: Math.round(balance),
+    })
+
+    previousBalance = balance
+  }
+
+  return breakdown
+}
+
+/**
+ * Calculate cumulative FD maturity at a given rate
+ */
+export function calculateFDForRate(
+  principal: number,
+  rate: number,
+  tenureMonths: number,
+  compounding: FDCompoundingFrequency
+): { maturityAmount: number; totalInterest: number } {
+  const tenureYears = tenureMonths / 12
+  const n = getCompoundingPerYear(compounding)
+  const r = rate / 100
+  const maturityAmount = principal * Math.pow(1 + r / n, n * tenureYears)
+  const totalInterest = maturityAmount - principal
+
+  return {
+    maturityAmount: Math.round(maturityAmount),
+    totalInterest: Math.round(totalInterest),
+  }
+}
+
+/**
+ * Reverse calculation: Find required principal for a target maturity
+ */
+export function calculateFDRequiredPrincipal(
+  targetMaturity: number,
+  rate: number,
+  tenureMonths: number,
+  compounding: FDCompoundingFrequency
+): number {
+  const tenureYears = tenureMonths / 12
+  const n = getCompoundingPerYear(compounding)
+  const r = rate / 100
+
+  // P = A / (1 + r/n)^(n×t)
+  const principal = targetMaturity / Math.pow(1 + r / n, n * tenureYears)
+  return Math.round(principal)
+}
+
@@ -0,0 +1,41 @@
+import { GoalResult } from '@/types'
+import { calculateSIPFutureValue } from './sip'
+
+/**
+ * Calculate required monthly SIP to reach goal
+ */
+export function calculateGoal(
+  targetAmount: number,
+  currentSavings: number,
+  timeYears: number,
+  expectedReturn: number
+): GoalResult {
+  const months = timeYears * 12
+
+  // Future value of current savings
+  const fvCurrentSavings = currentSavings * Math.pow(1 + expectedReturn / 100, timeYears)
+
+  // Amount still needed after current savings grow
+  const amountNeeded = Math.max(0, targetAmount - fvCurrentSavings)
+
+  // Required monthly SIP using formula: PMT = FV / ((((1+r)^n - 1) / r) × (1+r))
+  const monthlySIP = amountNeeded > 0 ? amountNeeded / calculateSIPFutureValue(1, expectedReturn, months) : 0
+
+  // Lumpsum required today to reach goal
+  const lumpsumRequired = amountNeeded / Math.pow(1 + expectedReturn / 100, timeYears)
+
+  const totalInvestment = currentSavings + (monthlySIP * months)
+  const wealthGained = targetAmount - totalInvestment
+
+  return {
+    targetAmount,
+    currentSavings,
+    timeYears,
+    expectedReturn,
+    amountNeeded: Math.round(amountNeeded),
+    monthlySIP: Math.round(monthlySIP),
+    lumpsumRequired: Math.round(lumpsumRequired),
+    totalInvestment: Math.round(totalInvestment),
+    wealthGained: Math.round(wealthGained),
+  }
+}
@@ -0,0 +1,37 @@
+import { GratuityResult } from '@/types'
+
+/**
+ * Calculate gratuity payable on leaving
+ *
+ * Formula: Gratuity = (15 × Last drawn salary × Years of service) / 26
+ * For employees NOT covered under the Act: (15 × Last drawn salary × Years of service) / 30
+ */
+export function calculateGratuity(
+  basicSalary: number,
+  da: number,
+  yearsOfService: number,
+  monthsOfService: number,
+  isCoveredUnderAct: boolean
+): GratuityResult {
+  const lastDrawnSalary = basicSalary + da
+  const totalYears = yearsOfService + (monthsOfService >= 6 ? 1 : monthsOfService / 12)
+
+  // Round to nearest complete year (6+ months = 1 year)
+  const effectiveYears = Math.round(totalYears)
+
+  const divisor = isCoveredUnderAct ? 26 : 30
+  const gratuityAmount = (15 * lastDrawnSalary * effectiveYears) / divisor
+
+  // Tax exemption limit is ₹20 lakhs
+  const taxExemptionLimit = 2000000
+  const taxFreeAmount = Math.min(gratuityAmount, taxExemptionLimit)
+  const taxableAmount = Math.max(0, gratuityAmount - taxExemptionLimit)
+
+  return {
+    basicSalary: lastDrawnSalary,
+    yearsOfService: effectiveYears,
+    gratuityAmount: Math.round(gratuityAmount),
+    taxableAmount: Math.round(taxableAmount),
+    taxFreeAmount: Math.round(taxFreeAmount),
+  }
+}
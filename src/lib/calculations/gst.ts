@@ -0,0 +1,46 @@
+import { GSTResult } from '@/types'
+
+/**
+ * Calculate GST on an amount (inclusive or exclusive), split into CGST/SGST or IGST
+ */
+export function calculateGST(
+  amount: number,
+  gstRate: number,
+  isInclusive: boolean,
+  isInterState: boolean
+): GSTResult {
+  let originalAmount: number
+  let gstAmount: number
+  let totalAmount: number
+
+  if (isInclusive) {
+    // GST is included in the amount
+    totalAmount = amount
+    originalAmount = amount / (1 + gstRate / 100)
+    gstAmount = totalAmount - originalAmount
+  } else {
+    // GST is not included (exclusive)
+    originalAmount = amount
+    gstAmount = amount * (gstRate / 100)
+    totalAmount = amount + gstAmount
+  }
+
+  // For intra-state: CGST + SGST (equal split)
+  // For inter-state: IGST (full)
+  const cgst = isInterState ? 0 : gstAmount / 2
+  const sgst = isInterState ? 0 : gstAmount / 2
+  const igst = isInterState ? gstAmount : 0
+
+  return {
+    originalAmount: Math.round(originalAmount * 100) / 100,
+    gstRate,
+    gstAmount: Math.round(gstAmount * 100) / 100,
+    totalAmount: Math.round(totalAmount * 100) / 100,
+    cgst: Math.round(cgst * 100) / 100,
+    sgst: Math.round(sgst * 100) / 100,
+    igst: Math.round(igst * 100) / 100,
+  }
+}
+
+// GST slabs in India (%)
+export const GST_RATES = [0, 0.25, 3, 5, 12, 18, 28]
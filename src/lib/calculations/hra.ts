@@ -0,0 +1,43 @@
+import { HRAResult } from '@/types'
+
+/**
+ * Calculate HRA exemption under Section 10(13A)
+ *
+ * Exemption is the minimum of:
+ *   1. Actual HRA received
+ *   2. 50% of salary (Metro) or 40% of salary (Non-Metro) - Basic + DA
+ *   3. Rent paid minus 10% of salary (Basic + DA)
+ */
+export function calculateHRA(
+  basicSalary: number,
+  da: number,
+  hraReceived: number,
+  rentPaid: number,
+  isMetro: boolean
+): HRAResult {
+  const salary = basicSalary + da
+  const basicPercent = isMetro ? salary * 0.5 : salary * 0.4
+  const rentMinusBasicPercent = rentPaid - (salary * 0.1)
+
+  // Exempted HRA is minimum of the three
+  const exemptedHRA = Math.max(0, Math.min(
+    hraReceived,
+    basicPercent,
+    rentMinusBasicPercent
+  ))
+
+  const taxableHRA = Math.max(0, hraReceived - exemptedHRA)
+
+  // Estimate tax saving (assuming 30% tax bracket)
+  const annualTaxSaving = exemptedHRA * 12 * 0.3
+
+  return {
+    actualHRA: hraReceived,
+    rentPaid,
+    basicPercent: Math.round(basicPercent),
+    rentMinusBasicPercent: Math.round(Math.max(0, rentMinusBasicPercent)),
+    exemptedHRA: Math.round(exemptedHRA),
+    taxableHRA: Math.round(taxableHRA),
+    annualTaxSaving: Math.round(annualTaxSaving),
+  }
+}
@@ -1,5 +1,159 @@
-export { calculateEMI, calculateAffordableLoan, calculateTenure } from './emi'
-export { calculateSIP, calculateRequiredSIP } from './sip'
-export { calculateFD, calculateSimpleInterestFD } from './fd'
-export { calculateLumpsum, calculateCAGR, calculateFutureValue } from './lumpsum'
-export { calculateCompound, calculateSimpleInterest, compareInterest } from './compound'
+export {
+  calculateEMI,
+  calculateAffordableLoan,
+  calculateTenure,
+  calculateMonthlyEMI,
+  calculateMonthsToRepay,
+  calculateEMISummary,
+  generateAmortization,
+  generateFloatingAmortization,
+  loanMonthFromDate,
+  addMonthsToDate,
+  financialYearOf,
+  prepaymentForMonth,
+  calculateWithPrepayments,
+  calculateRefinance,
+  calculateHomeLoanTaxBenefits,
+  MAX_FLOATING_MONTHS,
+} from './emi'
+export {
+  calculateSIP,
+  calculateRequiredSIP,
+  calculateSIPFutureValue,
+  calculateSIPSummary,
+  generateSIPBreakdown,
+  calculateStepUpSIP,
+} from './sip'
+export {
+  calculateFD,
+  calculateSimpleInterestFD,
+  getCompoundingPerYear,
+  getPayoutPerYear,
+  calculateFDMaturity,
+  generateFDBreakdown,
+  calculateFDForRate,
+  calculateFDRequiredPrincipal,
+} from './fd'
+export {
+  calculateLumpsum,
+  calculateCAGR,
+  calculateFutureValue,
+  calculateLumpsumSummary,
+  generateLumpsumBreakdown,
+  calculateRequiredInvestment,
+  calculateRequiredTime,
+  calculateRequiredRate,
+} from './lumpsum'
+export {
+  calculateCompound,
+  calculateSimpleInterest,
+  compareInterest,
+  getFrequencyPerYear,
+  getFrequencyLabel,
+  calculateCompoundInterest,
+  generateCompoundBreakdown,
+  calculateCompoundRequiredPrincipal,
+  compareFrequencies,
+} from './compound'
+export {
+  calculateTaxBySlabs,
+  calculateRegimeTax,
+  getMarginalBracket,
+  calculateCapitalGainsTax,
+  calculateDeductions,
+  calculateBusinessIncome,
+  calculateTax,
+  NO_TAX_DEDUCTIONS,
+  NO_CAPITAL_GAINS,
+} from './tax'
+export {
+  TAX_RULES,
+  FINANCIAL_YEARS,
+  LATEST_FY,
+  CESS_RATE,
+  SECTION_80C_CAP,
+  SECTION_80CCD1B_CAP,
+  SECTION_80D_CAP,
+  SECTION_80D_SENIOR_CAP,
+  SECTION_80TTA_CAP,
+  SECTION_80TTB_CAP,
+  SECTION_24B_CAP,
+  SECTION_80EEA_CAP,
+  SECTION_80EEB_CAP,
+  MEAL_CARD_ANNUAL_CAP,
+  EMPLOYER_RETIREMENT_CAP,
+  getTaxRules,
+  isFinancialYear,
+} from './taxRules'
+export { ADVANCE_TAX_THRESHOLD, getAdvanceTaxSchedule, calculateAdvanceTax } from './advanceTax'
+export { simulatePortfolio, rollUpPortfolioYears, MAX_PORTFOLIO_MONTHS } from './loans'
+export { calculatePPF } from './ppf'
+export { calculateEPF, EPF_TAX_FREE_CONTRIBUTION, EPF_TAX_FREE_CONTRIBUTION_NO_EMPLOYER } from './epf'
+export {
+  calculateSSY,
+  SSY_MIN_DEPOSIT,
+  SSY_MAX_DEPOSIT,
+  SSY_MAX_OPENING_AGE,
+  SSY_DEPOSIT_YEARS,
+  SSY_MATURITY_YEARS,
+  SSY_WITHDRAWAL_AGE,
+  SSY_MAX_WITHDRAWAL_PERCENT,
+} from './ssy'
+export {
+  calculateNPS,
+  calculateNPSTaxBenefit,
+  getNPSAllocation,
+  NPS_RETIREMENT_AGE,
+  NPS_MIN_ANNUITY_PERCENT,
+} from './nps'
+export { calculateRD } from './rd'
+export { calculateCAGRSummary, generateCAGRProjections } from './cagr'
+export {
+  createSeededRandom,
+  percentile,
+  simulateMonteCarlo,
+  MONTE_CARLO_PATH_OPTIONS,
+  MONTE_CARLO_DEFAULT_SEED,
+} from './monteCarlo'
+export { calculateXIRR, calculatePortfolioXIRR, parseTransactionDate, parseTransactionsCSV } from './xirr'
+export { INDEX_SERIES, INDEX_SERIES_IDS, getMonthlyLevels } from './indexHistory'
+export { backtestSIP } from './backtest'
+export { calculateGratuity } from './gratuity'
+export { calculateHRA } from './hra'
+export { STATE_LEVY_RULES, INDIAN_STATES, calculateStateLevies } from './stateLevies'
+export { calculateGST, GST_RATES } from './gst'
+export { calculateGoal } from './goal'
+export {
+  calculateRequiredCorpus,
+  simulateRetirementDrawdown,
+  calculateRetirement,
+  RETIREMENT_SAVINGS_SOURCES,
+} from './retirement'
+export { calculateSWP, SWP_LONG_TERM_MONTHS } from './swp'
+export { calculateSTP } from './stp'
+export { BMI_CATEGORIES, getBMICategory, calculateBMI, calculateTargetPlan } from './bmi'
+export { CITY_COL_INDEX, calculateCOL } from './col'
+export { calculateTrip } from './trip'
+export { EXCHANGE_RATES, CURRENCIES, POPULAR_PAIRS, convertCurrency } from './currency'
+export { CITIES, getTimeInTimezone } from './timezone'
+export {
+  calculateTaxWithBreakdown,
+  calculateSalary,
+  calculatePayroll,
+  optimizeSalaryStructure,
+  MIN_BASIC_PERCENT,
+  PF_WAGE_CEILING,
+  GRATUITY_PROVISION_RATE,
+  ESI_WAGE_CEILING,
+} from './salary'
+export {
+  CII_DATA,
+  getFinancialYear,
+  getTaxRulesForDate,
+  getCII,
+  getHoldingPeriod,
+  calculateCapitalGains,
+  calculateSplitBracketTax,
+  calculateExemptions,
+  calculateReinvestmentProjection,
+} from './realEstate'
@@ -0,0 +1,70 @@
+import { IndexLevel, IndexSeries, IndexSeriesId } from '@/types'
+import { addMonthsToDate } from './emi'
+
+// Historical index levels bundled for backtests. Series are stored at the resolution we have
+// verified data for; yearly series are interpolated to monthly levels (constant growth within
+// each year), so month-to-month swings inside a year are smoothed out. Replace a series with
+// the provider's monthly export (frequency: 'monthly') and every backtest picks it up.
+export const INDEX_SERIES: Record<IndexSeriesId, IndexSeries> = {
+  nifty50: {
+    id: 'nifty50',
+    name: 'Nifty 50 (price)',
+    source: 'NSE, December closing values (price index, excludes dividends)',
+    frequency: 'yearly',
+    start: '1999-12',
+    values: [
+      1480.45, 1263.55, 1059.05, 1093.5, 1879.75, 2080.5, 2836.55, 3966.4, 6138.6, 2959.15,
+      5201.05, 6134.5, 4624.3, 5905.1, 6304.0, 8282.7, 7946.35, 8185.8, 10530.7, 10862.55,
+      12168.45, 13981.75, 17354.05, 18105.3, 21731.4, 23644.8,
+    ],
+  },
+  sensex: {
+    id: 'sensex',
+    name: 'BSE Sensex (price)',
+    source: 'BSE, December closing values (price index, excludes dividends)',
+    frequency: 'yearly',
+    start: '1999-12',
+    values: [
+      5005.82, 3972.12, 3262.33, 3377.28, 5838.96, 6602.69, 9397.93, 13786.91, 20286.99, 9647.31,
+      17464.81, 20509.09, 15454.92, 19426.71, 21170.68, 27499.42, 26117.54, 26626.46, 34056.83, 36068.33,
+      41253.74, 47751.33, 58253.82, 60840.74, 72240.26, 78139.01,
+    ],
+  },
+  gold: {
+    id: 'gold',
+    name: 'Gold (₹/10g)',
+    source: 'Approximate yearly average price of 24K gold in India, taken as the June level',
+    frequency: 'yearly',
+    start: '2005-06',
+    values: [
+      7000, 8400, 10800, 12500, 14500, 18500, 26400, 31050, 29600, 28006,
+      26343, 28623, 29667, 31438, 35220, 48651, 48720, 52670, 65330, 77913,
+    ],
+  },
+}
+
+export const INDEX_SERIES_IDS = Object.keys(INDEX_SERIES) as IndexSeriesId[]
+
+/**
+ * Monthly levels for a series, interpolating yearly points geometrically
+ */
+export function getMonthlyLevels(series: IndexSeries): IndexLevel[] {
+  if (series.frequency === 'monthly') {
+    return series.values.map((level, i) => ({ month: addMonthsToDate(series.start, i), level }))
+  }
+
+  const levels: IndexLevel[] = []
+  series.values.forEach((level, i) => {
+    const next = series.values[i + 1]
+    if (next === undefined) {
+      levels.push({ month: addMonthsToDate(series.start, i * 12), level })
+      return
+    }
+    const monthlyGrowth = Math.pow(next / level, 1 / 12)
+    for (let m = 0; m < 12; m++) {
+      levels.push({ month: addMonthsToDate(series.start, i * 12 + m), level: level * Math.pow(monthlyGrowth, m) })
+    }
+  })
+
+  return levels
+}
@@ -0,0 +1,127 @@
+import { PortfolioLoan, PayoffStrategy, PortfolioResult, PortfolioMonth, PortfolioYear } from '@/types'
+import { calculateMonthlyEMI } from './emi'
+
+// Safety cap for the month-by-month simulation
+export const MAX_PORTFOLIO_MONTHS = 600
+
+/**
+ * Simulate paying down all loans together, month by month.
+ * Every loan keeps receiving its own EMI. Under avalanche/snowball the extra budget,
+ * plus the EMI of every loan already closed (rollover), goes to the target loan;
+ * any surplus spills over to the next loan in order. The schedule has one row per month.
+ */
+export function simulatePortfolio(loans: PortfolioLoan[], extraBudget: number, strategy: PayoffStrategy): PortfolioResult {
+  const states = loans.map((loan) => ({
+    loan,
+    balance: loan.balance,
+    emi: calculateMonthlyEMI(loan.balance, loan.rate, loan.tenureYears * 12),
+    interest: 0,
+    payoffMonth: 0,
+  }))
+
+  const schedule: PortfolioMonth[] = []
+  let totalInterest = 0
+  let totalPaid = 0
+  let month = 0
+
+  while (states.some((s) => s.balance > 0.5) && month < MAX_PORTFOLIO_MONTHS) {
+    month++
+    let pool = strategy === 'minimum' ? 0 : extraBudget
+    const monthPayments: Record<number, number> = {}
+    let monthInterest = 0
+
+    // Scheduled EMIs
+    for (const s of states) {
+      if (s.balance <= 0.5) {
+        if (strategy !== 'minimum') pool += s.emi // rollover from closed loans
+        continue
+      }
+      const interest = s.balance * (s.loan.rate / 12 / 100)
+      const payment = Math.min(s.emi, s.balance + interest)
+      s.balance = Math.max(0, s.balance - (payment - interest))
+      s.interest += interest
+      totalInterest += interest
+      monthInterest += interest
+      totalPaid += payment
+      monthPayments[s.loan.id] = payment
+      if (strategy !== 'minimum') pool += s.emi - payment // unused part of a final EMI
+    }
+
+    // Extra payments in strategy order
+    if (pool > 0) {
+      const targets = states
+        .filter((s) => s.balance > 0.5)
+        .sort((a, b) =>
+          strategy === 'avalanche'
+            ? b.loan.rate - a.loan.rate || a.balance - b.balance
+            : a.balance - b.balance || b.loan.rate - a.loan.rate
+        )
+      for (const s of targets) {
+        if (pool <= 0) break
+        const extra = Math.min(pool, s.balance)
+        s.balance -= extra
+        pool -= extra
+        totalPaid += extra
+        monthPayments[s.loan.id] = (monthPayments[s.loan.id] || 0) + extra
+      }
+    }
+
+    for (const s of states) {
+      if (s.balance <= 0.5 && s.payoffMonth === 0) {
+        s.balance = 0
+        s.payoffMonth = month
+      }
+    }
+
+    const payments: Record<number, number> = {}
+    Object.entries(monthPayments).forEach(([id, amount]) => {
+      payments[Number(id)] = Math.round(amount)
+    })
+    schedule.push({
+      month,
+      payments,
+      totalPayment: Math.round(Object.values(monthPayments).reduce((sum, v) => sum + v, 0)),
+      interest: Math.round(monthInterest),
+      balance: Math.round(states.reduce((sum, s) => sum + s.balance, 0)),
+    })
+  }
+
+  return {
+    strategy,
+    debtFreeMonth: month,
+    totalInterest: Math.round(totalInterest),
+    totalPaid: Math.round(totalPaid),
+    payoffs: states
+      .map((s) => ({
+        id: s.loan.id,
+        name: s.loan.name,
+        emi: Math.round(s.emi),
+        payoffMonth: s.payoffMonth || month,
+        totalInterest: Math.round(s.interest),
+      }))
+      .sort((a, b) => a.payoffMonth - b.payoffMonth),
+    schedule,
+  }
+}
+
+/**
+ * Roll a monthly schedule up into years for display; the balance is the one left at the end of each year
+ */
+export function rollUpPortfolioYears(schedule: PortfolioMonth[]): PortfolioYear[] {
+  const years: PortfolioYear[] = []
+  for (const row of schedule) {
+    const year = Math.ceil(row.month / 12)
+    let current = years[years.length - 1]
+    if (!current || current.year !== year) {
+      current = { year, payments: {}, totalPayment: 0, interest: 0, balance: 0 }
+      years.push(current)
+    }
+    Object.entries(row.payments).forEach(([id, amount]) => {
+      current.payments[Number(id)] = (current.payments[Number(id)] || 0) + amount
+    })
+    current.totalPayment += row.totalPayment
+    current.interest += row.interest
+    current.balance = row.balance
+  }
+  return years
+}
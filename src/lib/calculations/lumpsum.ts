@@ -1,4 +1,4 @@
-import { LumpsumInput, LumpsumResult, YearlyBreakdown } from '@/types'
+import { LumpsumInput, LumpsumResult, LumpsumSummary, LumpsumYearlyBreakdown, YearlyBreakdown } from '@/types'
 import { formatCurrency } from '@/lib/utils/formatters'
 
 /**
@@ -13,8 +13,7 @@ import { formatCurrency } from '@/lib/utils/formatters'
 export function calculateLumpsum(input: LumpsumInput): LumpsumResult {
   const { principal, rate, tenure } = input
 
-  const rateDecimal = rate / 100
-  const maturityValue = principal * Math.pow(1 + rateDecimal, tenure)
+  const maturityValue = calculateFutureValue(principal, rate, tenure)
   const totalReturns = maturityValue - principal
 
   // Generate yearly breakdown
@@ -104,3 +103,67 @@ export function calculateFutureValue(
 ): number {
   return principal * Math.pow(1 + cagr / 100, years)
 }
+
+/**
+ * Calculate lumpsum summary (invested, returns, total value)
+ */
+export function calculateLumpsumSummary(principal: number, rate: number, years: number): LumpsumSummary {
+  const totalValue = calculateFutureValue(principal, rate, years)
+  const estimatedReturns = totalValue - principal
+  const absoluteReturns = (estimatedReturns / principal) * 100
+
+  return {
+    investedAmount: principal,
+    estimatedReturns: Math.round(estimatedReturns),
+    totalValue: Math.round(totalValue),
+    absoluteReturns: Math.round(absoluteReturns * 100) / 100,
+    cagr: rate,
+  }
+}
+
+/**
+ * Generate year-by-year opening/closing balances for a lumpsum
+ */
+export function generateLumpsumBreakdown(principal: number, rate: number, years: number): LumpsumYearlyBreakdown[] {
+  const rateDecimal = rate / 100
+  const breakdown: LumpsumYearlyBreakdown[] = []
+  let currentBalance = principal
+
+  for (let year = 1; year <= years; year++) {
+    const openingBalance = currentBalance
+    const closingBalance = openingBalance * (1 + rateDecimal)
+    const returns = closingBalance - openingBalance
+
+    breakdown.push({
+      year,
+      openingBalance: Math.round(openingBalance),
+      returns: Math.round(returns),
+      closingBalance: Math.round(closingBalance),
+    })
+
+    currentBalance = closingBalance
+  }
+
+  return breakdown
+}
+
+/**
+ * Calculate one-time investment needed today to reach a target
+ */
+export function calculateRequiredInvestment(targetAmount: number, rate: number, years: number): number {
+  return targetAmount / Math.pow(1 + rate / 100, years)
+}
+
+/**
+ * Calculate years needed for an investment to grow to a target
+ */
+export function calculateRequiredTime(principal: number, targetAmount: number, rate: number): number {
+  return Math.log(targetAmount / principal) / Math.log(1 + rate / 100)
+}
+
+/**
+ * Calculate annual return needed to grow an investment to a target
+ */
+export function calculateRequiredRate(principal: number, targetAmount: number, years: number): number {
+  return calculateCAGR(principal, targetAmount, years)
+}
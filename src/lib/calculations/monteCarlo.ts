@@ -0,0 +1,112 @@
+import { MonteCarloParams, MonteCarloResult, MonteCarloYear } from '@/types'
+
+export const MONTE_CARLO_PATH_OPTIONS = [500, 1000, 5000, 10000]
+export const MONTE_CARLO_DEFAULT_SEED = 20240401
+
+/**
+ * Seeded pseudo-random generator (mulberry32) returning numbers in [0, 1).
+ * The same seed always produces the same sequence, so simulations are reproducible.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Standard normal sample using the Box-Muller transform
+ */
+function normalSample(random: () => number): number {
+  const u = 1 - random() // (0, 1], keeps log() finite
+  const v = random()
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
+
+/**
+ * Value at a percentile (0-100) of an ascending array, interpolating between neighbours
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0
+
+  const index = (p / 100) * (sorted.length - 1)
+  const lower = Math.floor(index)
+  const upper = Math.ceil(index)
+
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower)
+}
+
+/**
+ * Simulate many market paths for a lumpsum and/or monthly SIP.
+ *
+ * Monthly log-returns are normal with the annual volatility scaled by √12, and a drift
+ * chosen so the expected growth matches the mean return. Investments go in at the start
+ * of each month, as in calculateSIPFutureValue.
+ */
+export function simulateMonteCarlo(params: MonteCarloParams): MonteCarloResult {
+  const { initialAmount, monthlyInvestment, annualStepUp = 0, meanReturn, volatility, targetAmount } = params
+  const years = Math.max(0, Math.round(params.years))
+  const paths = Math.max(1, Math.round(params.paths))
+  const random = createSeededRandom(params.seed)
+
+  const monthlySigma = volatility / 100 / Math.sqrt(12)
+  const monthlyDrift = Math.log(1 + meanReturn / 100) / 12 - (monthlySigma * monthlySigma) / 2
+
+  // valuesByYear[y][path] = portfolio value at the end of year y
+  const valuesByYear: number[][] = Array.from({ length: years + 1 }, () => new Array<number>(paths))
+  const invested: number[] = [initialAmount]
+
+  let totalInvested = initialAmount
+  let installment = monthlyInvestment
+  for (let year = 1; year <= years; year++) {
+    totalInvested += installment * 12
+    invested.push(totalInvested)
+    installment *= 1 + annualStepUp / 100
+  }
+
+  for (let path = 0; path < paths; path++) {
+    let value = initialAmount
+    let pathInstallment = monthlyInvestment
+    valuesByYear[0][path] = value
+
+    for (let year = 1; year <= years; year++) {
+      for (let month = 0; month < 12; month++) {
+        value = (value + pathInstallment) * Math.exp(monthlyDrift + monthlySigma * normalSample(random))
+      }
+      valuesByYear[year][path] = value
+      pathInstallment *= 1 + annualStepUp / 100
+    }
+  }
+
+  const yearly: MonteCarloYear[] = valuesByYear.map((values, year) => {
+    const sorted = [...values].sort((a, b) => a - b)
+    return {
+      year,
+      invested: Math.round(invested[year]),
+      p10: Math.round(percentile(sorted, 10)),
+      p50: Math.round(percentile(sorted, 50)),
+      p90: Math.round(percentile(sorted, 90)),
+    }
+  })
+
+  const finalValues = valuesByYear[years]
+  const mean = finalValues.reduce((sum, value) => sum + value, 0) / paths
+  const probabilityOfTarget = targetAmount !== undefined && targetAmount > 0
+    ? (finalValues.filter((value) => value >= targetAmount).length / paths) * 100
+    : null
+  const final = yearly[years]
+
+  return {
+    p10: final.p10,
+    p50: final.p50,
+    p90: final.p90,
+    mean: Math.round(mean),
+    probabilityOfTarget: probabilityOfTarget === null ? null : Math.round(probabilityOfTarget * 10) / 10,
+    years: yearly,
+  }
+}
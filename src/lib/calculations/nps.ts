@@ -0,0 +1,118 @@
+import { FinancialYear, NPSAllocation, NPSInvestmentChoice, NPSParams, NPSResult, NPSTaxBenefit, NPSYearlyBreakdown, TaxRegime } from '@/types'
+import { CESS_RATE, SECTION_80CCD1B_CAP, getTaxRules } from './taxRules'
+
+// Tier I matures at 60; at least 40% of the corpus must buy an annuity and the rest can be withdrawn tax-free
+export const NPS_RETIREMENT_AGE = 60
+export const NPS_MIN_ANNUITY_PERCENT = 40
+
+// Auto choice glide paths (PFRDA): the mix holds until 35 and moves linearly to the age-55 mix
+const LIFECYCLE_START_AGE = 35
+const LIFECYCLE_END_AGE = 55
+const LIFECYCLE_FUNDS: Record<Exclude<NPSInvestmentChoice, 'active'>, { start: NPSAllocation; end: NPSAllocation }> = {
+  LC75: { start: { equity: 75, corporateBonds: 10, governmentBonds: 15 }, end: { equity: 15, corporateBonds: 10, governmentBonds: 75 } },
+  LC50: { start: { equity: 50, corporateBonds: 30, governmentBonds: 20 }, end: { equity: 10, corporateBonds: 10, governmentBonds: 80 } },
+  LC25: { start: { equity: 25, corporateBonds: 45, governmentBonds: 30 }, end: { equity: 5, corporateBonds: 5, governmentBonds: 90 } },
+}
+
+// Active choice caps equity at 75% up to 50, tapering by 2.5% a year to 50% at 60
+const ACTIVE_EQUITY_CAP = 75
+const ACTIVE_TAPER_AGE = 50
+const ACTIVE_TAPER_PER_YEAR = 2.5
+
+/**
+ * Asset mix for a given age. Under active choice, equity above the age cap moves to government bonds.
+ */
+export function getNPSAllocation(choice: NPSInvestmentChoice, age: number, activeAllocation: NPSAllocation): NPSAllocation {
+  if (choice === 'active') {
+    const cap = ACTIVE_EQUITY_CAP - Math.max(0, age - ACTIVE_TAPER_AGE) * ACTIVE_TAPER_PER_YEAR
+    const equity = Math.min(activeAllocation.equity, cap)
+    return {
+      equity,
+      corporateBonds: activeAllocation.corporateBonds,
+      governmentBonds: activeAllocation.governmentBonds + (activeAllocation.equity - equity),
+    }
+  }
+
+  const { start, end } = LIFECYCLE_FUNDS[choice]
+  const progress = Math.min(1, Math.max(0, (age - LIFECYCLE_START_AGE) / (LIFECYCLE_END_AGE - LIFECYCLE_START_AGE)))
+  const mix = (key: keyof NPSAllocation) => Math.round((start[key] + (end[key] - start[key]) * progress) * 10) / 10
+  return { equity: mix('equity'), corporateBonds: mix('corporateBonds'), governmentBonds: mix('governmentBonds') }
+}
+
+/**
+ * Project the Tier I corpus to 60 with monthly contributions (stepped up each year) and a blended
+ * return from the year's asset mix, then split it into the tax-free lump sum and the annuity.
+ */
+export function calculateNPS(params: NPSParams): NPSResult {
+  const { currentAge, choice, activeAllocation, expectedReturns, annualStepUp } = params
+  const annuityPercent = Math.min(100, Math.max(NPS_MIN_ANNUITY_PERCENT, params.annuityPercent))
+
+  const breakdown: NPSYearlyBreakdown[] = []
+  let corpus = params.currentCorpus
+  let monthly = params.monthlyContribution + params.employerMonthly
+  let totalContribution = 0
+
+  for (let age = currentAge; age < NPS_RETIREMENT_AGE; age++) {
+    if (age > currentAge) monthly *= 1 + annualStepUp / 100
+
+    const allocation = getNPSAllocation(choice, age, activeAllocation)
+    const annualReturn =
+      (allocation.equity * expectedReturns.equity +
+        allocation.corporateBonds * expectedReturns.corporateBonds +
+        allocation.governmentBonds * expectedReturns.governmentBonds) /
+      100
+    const monthlyRate = annualReturn / 100 / 12
+
+    const opening = corpus
+    for (let month = 0; month < 12; month++) {
+      corpus = (corpus + monthly) * (1 + monthlyRate)
+    }
+    totalContribution += monthly * 12
+
+    breakdown.push({
+      age,
+      allocation,
+      contribution: Math.round(monthly * 12),
+      returns: Math.round(corpus - opening - monthly * 12),
+      corpus: Math.round(corpus),
+    })
+  }
+
+  const annuityCorpus = corpus * (annuityPercent / 100)
+
+  return {
+    retirementAge: NPS_RETIREMENT_AGE,
+    totalContribution: Math.round(totalContribution),
+    totalReturns: Math.round(corpus - params.currentCorpus - totalContribution),
+    corpus: Math.round(corpus),
+    lumpSum: Math.round(corpus - annuityCorpus),
+    annuityCorpus: Math.round(annuityCorpus),
+    monthlyPension: Math.round((annuityCorpus * (params.annuityRate / 100)) / 12),
+    breakdown,
+  }
+}
+
+/**
+ * Yearly tax saved by NPS contributions: 80CCD(1B) on own contributions up to ₹50,000 (old regime only)
+ * and 80CCD(2) on the employer's contribution up to the regime's percent of basic, valued at the
+ * marginal slab rate plus cess.
+ */
+export function calculateNPSTaxBenefit(
+  annualOwn: number,
+  annualEmployer: number,
+  annualBasic: number,
+  regime: TaxRegime,
+  fy: FinancialYear,
+  slabRate: number
+): NPSTaxBenefit {
+  const employerLimit = annualBasic * (getTaxRules(fy)[regime].employerNpsLimit / 100)
+  const deduction80CCD1B = regime === 'old' ? Math.min(annualOwn, SECTION_80CCD1B_CAP) : 0
+  const deduction80CCD2 = Math.min(annualEmployer, employerLimit)
+
+  return {
+    deduction80CCD1B: Math.round(deduction80CCD1B),
+    deduction80CCD2: Math.round(deduction80CCD2),
+    employerLimit: Math.round(employerLimit),
+    taxSaved: Math.round((deduction80CCD1B + deduction80CCD2) * (slabRate / 100) * (1 + CESS_RATE / 100)),
+  }
+}
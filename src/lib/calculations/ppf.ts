@@ -0,0 +1,39 @@
+import { PPFSummary, PPFYearlyBreakdown } from '@/types'
+
+/**
+ * Calculate PPF maturity with yearly compounding (deposit at the start of each year)
+ */
+export function calculatePPF(yearlyDeposit: number, interestRate: number, years: number): { result: PPFSummary; breakdown: PPFYearlyBreakdown[] } {
+  const breakdown: PPFYearlyBreakdown[] = []
+  let balance = 0
+  let totalDeposit = 0
+  const rate = interestRate / 100
+
+  for (let year = 1; year <= years; year++) {
+    totalDeposit += yearlyDeposit
+    // Interest calculated on opening balance + current year deposit (assuming deposit at start of year)
+    const interest = (balance + yearlyDeposit) * rate
+    balance = balance + yearlyDeposit + interest
+
+    breakdown.push({
+      year,
+      deposit: totalDeposit,
+      interest: Math.round(balance - totalDeposit),
+      balance: Math.round(balance),
+    })
+  }
+
+  const totalInterest = balance - totalDeposit
+  const effectiveReturn = totalDeposit > 0 ? (totalInterest / totalDeposit) * 100 : 0
+
+  return {
+    result: {
+      yearlyDeposit,
+      totalDeposit: Math.round(totalDeposit),
+      totalInterest: Math.round(totalInterest),
+      maturityValue: Math.round(balance),
+      effectiveReturn: Math.round(effectiveReturn),
+    },
+    breakdown,
+  }
+}
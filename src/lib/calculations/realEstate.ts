@@ -0,0 +1,718 @@
+import {
+  PropertyDetails,
+  CapitalGainsResult,
+  ExemptionStrategy,
+  Section54ProjectionState,
+  SplitBracketParams,
+  SplitBracketResult,
+  SalaryDataForCalc,
+  TaxRules,
+  ReinvestmentAllocation,
+  ReinvestmentProjection,
+  FinancialYear,
+} from '@/types'
+import { calculateCAGR } from './lumpsum'
+import { getTaxRules, isFinancialYear, FINANCIAL_YEARS, LATEST_FY } from './taxRules'
+
+// 54EC bonds: ₹50 lakh limit per year, simple interest paid annually over a 5-year lock-in
+const BOND_54EC_LIMIT = 5000000
+const BOND_54EC_RATE = 5.25
+const BOND_54EC_LOCK_IN_YEARS = 5
+
+// Cost Inflation Index (CII) Data - Base Year 2001-02 = 100
+export const CII_DATA: Record<string, number> = {
+  '2001': 100, '2002': 105, '2003': 109, '2004': 113, '2005': 117,
+  '2006': 122, '2007': 129, '2008': 137, '2009': 148, '2010': 167,
+  '2011': 184, '2012': 200, '2013': 220, '2014': 240, '2015': 254,
+  '2016': 264, '2017': 272, '2018': 280, '2019': 289, '2020': 301,
+  '2021': 317, '2022': 331, '2023': 348, '2024': 363, '2025': 376,
+  '2026': 390, // Estimated (~3.7% growth)
+}
+
+/**
+ * Get financial year from date
+ */
+export function getFinancialYear(date: Date): string {
+  const month = date.getMonth()
+  const year = date.getFullYear()
+  // FY starts April 1st
+  return month >= 3 ? String(year) : String(year - 1)
+}
+
+/**
+ * Get CII for a date
+ */
+export function getCII(date: Date): number {
+  const fy = getFinancialYear(date)
+  return CII_DATA[fy] || CII_DATA['2026']
+}
+
+/**
+ * Get the tax rules for the financial year of a sale; earlier years use the oldest rules in the registry
+ */
+export function getTaxRulesForDate(date: Date): TaxRules {
+  const startYear = Number(getFinancialYear(date))
+  const fy = `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`
+  if (isFinancialYear(fy)) return getTaxRules(fy)
+  return getTaxRules(fy < FINANCIAL_YEARS[0] ? FINANCIAL_YEARS[0] : LATEST_FY)
+}
+
+/**
+ * Calculate holding period in months
+ */
+export function getHoldingPeriod(purchaseDate: Date, saleDate: Date): { months: number; years: number; isLongTerm: boolean } {
+  const diffTime = saleDate.getTime() - purchaseDate.getTime()
+  const diffMonths = Math.floor(diffTime / (1000 * 60 * 60 * 24 * 30.44))
+  const years = Math.floor(diffMonths / 12)
+  const months = diffMonths % 12
+  // Long-term if held >= 24 months for immovable property
+  const isLongTerm = diffMonths >= 24
+  return { months: diffMonths, years, isLongTerm }
+}
+
+/**
+ * Calculate capital gains
+ */
+export function calculateCapitalGains(property: PropertyDetails): CapitalGainsResult {
+  const purchaseDate = new Date(property.purchaseDate)
+  const saleDate = new Date(property.saleDate)
+  const holdingPeriod = getHoldingPeriod(purchaseDate, saleDate)
+
+  const purchaseCII = getCII(purchaseDate)
+  const saleCII = getCII(saleDate)
+
+  // Section 112 rates and cess for the year of sale
+  const rules = getTaxRulesForDate(saleDate)
+  const { propertyRate, propertyIndexedRate } = rules.capitalGains
+  const cessMultiplier = 1 + rules.cessRate / 100
+
+  // Check if property acquired after July 23, 2024 (new regime mandatory)
+  const newRegimeDate = new Date('2024-07-23')
+  const mustUseNewRegime = purchaseDate >= newRegimeDate
+
+  // For LTCG on pre-July 2024 properties, taxpayer can CHOOSE either regime
+  const canChooseRegime = holdingPeriod.isLongTerm && !mustUseNewRegime
+
+  // Total purchase cost (without indexation)
+  const totalPurchaseCost = property.purchasePrice + property.stampDuty
+  const transferExpenses = property.brokerage + property.legalFees
+  const netSaleConsideration = property.salePrice - transferExpenses
+
+  // Calculate OLD REGIME (with indexation)
+  let indexedPurchaseCost = totalPurchaseCost
+  let indexedImprovementCost = property.improvementCost
+
+  if (holdingPeriod.isLongTerm) {
+    indexedPurchaseCost = Math.round((totalPurchaseCost * saleCII) / purchaseCII)
+    if (property.improvementCost > 0 && property.improvementDate) {
+      const improvementCII = getCII(new Date(property.improvementDate))
+      indexedImprovementCost = Math.round((property.improvementCost * saleCII) / improvementCII)
+    }
+  }
+  const totalIndexedCost = indexedPurchaseCost + indexedImprovementCost
+  const capitalGainOld = netSaleConsideration - totalIndexedCost
+  const taxOld = Math.max(0, capitalGainOld) * (propertyIndexedRate / 100) * cessMultiplier
+
+  // Calculate NEW REGIME (without indexation)
+  const capitalGainNew = netSaleConsideration - totalPurchaseCost - property.improvementCost
+  const taxNew = Math.max(0, capitalGainNew) * (propertyRate / 100) * cessMultiplier
+
+  // Determine which regime is better (lower tax)
+  const recommendedRegime = taxOld <= taxNew ? 'old' : 'new'
+
+  // Use the recommended regime for display (or new regime if mandatory)
+  const useNewRegime = mustUseNewRegime || (!canChooseRegime ? false : recommendedRegime === 'new')
+
+  // Final values based on selected/recommended regime
+  let capitalGain: number
+  let taxRate: number
+  let totalTax: number
+
+  if (!holdingPeriod.isLongTerm) {
+    // STCG - taxed at slab rate, assuming 30% for high income
+    capitalGain = netSaleConsideration - totalPurchaseCost - property.improvementCost
+    taxRate = 30
+    totalTax = Math.max(0, capitalGain) * 0.30 * cessMultiplier
+  } else if (useNewRegime) {
+    capitalGain = capitalGainNew
+    taxRate = propertyRate
+    totalTax = taxNew
+  } else {
+    capitalGain = capitalGainOld
+    taxRate = propertyIndexedRate
+    totalTax = taxOld
+  }
+
+  const taxBeforeCess = totalTax / cessMultiplier
+  const cess = totalTax - taxBeforeCess
+  const netProceeds = property.salePrice - transferExpenses - totalTax
+
+  return {
+    holdingPeriod,
+    purchaseCII,
+    saleCII,
+    indexedPurchaseCost,
+    indexedImprovementCost,
+    totalIndexedCost,
+    transferExpenses,
+    netSaleConsideration,
+    capitalGain,
+    taxRate,
+    taxBeforeCess,
+    cess,
+    totalTax,
+    netProceeds,
+    useNewRegime,
+    canChooseRegime,
+    oldRegime: canChooseRegime ? {
+      capitalGain: capitalGainOld,
+      taxRate: propertyIndexedRate,
+      totalTax: taxOld,
+      netProceeds: property.salePrice - transferExpenses - taxOld,
+    } : undefined,
+    newRegime: canChooseRegime ? {
+      capitalGain: capitalGainNew,
+      taxRate: propertyRate,
+      totalTax: taxNew,
+      netProceeds: property.salePrice - transferExpenses - taxNew,
+    } : undefined,
+    recommendedRegime: canChooseRegime ? recommendedRegime : undefined,
+  }
+}
+
+/**
+ * Calculate tax on additional income, splitting it across the brackets left above current taxable income
+ */
+export function calculateSplitBracketTax(params: SplitBracketParams): SplitBracketResult {
+  const { additionalIncome, currentTaxableIncome, regime, fy, includeCess = true } = params
+  const rules = getTaxRules(fy)
+  const cessRate = includeCess ? rules.cessRate / 100 : 0
+
+  if (additionalIncome <= 0) {
+    return { tax: 0, breakdown: [], effectiveRate: 0 }
+  }
+
+  const slabs = rules[regime].slabs
+  const breakdown: Array<{ rate: number; amount: number; tax: number }> = []
+
+  let remainingIncome = additionalIncome
+  let totalIncome = currentTaxableIncome
+  let totalTax = 0
+
+  // Find the current bracket and room left
+  for (let i = 0; i < slabs.length && remainingIncome > 0; i++) {
+    const slab = slabs[i]
+
+    // If current income is already above this slab, skip
+    if (totalIncome >= slab.max) continue
+
+    // Calculate room in this slab
+    const roomInBracket = slab.max - Math.max(totalIncome, slab.min)
+    const incomeInThisBracket = Math.min(remainingIncome, roomInBracket)
+
+    if (incomeInThisBracket > 0) {
+      const taxInBracket = Math.round(incomeInThisBracket * (slab.rate / 100))
+      totalTax += taxInBracket
+      breakdown.push({
+        rate: slab.rate,
+        amount: incomeInThisBracket,
+        tax: taxInBracket,
+      })
+      remainingIncome -= incomeInThisBracket
+      totalIncome += incomeInThisBracket
+    }
+  }
+
+  // Add cess
+  const cessAmount = Math.round(totalTax * cessRate)
+  const finalTax = totalTax + cessAmount
+
+  return {
+    tax: finalTax,
+    breakdown,
+    effectiveRate: additionalIncome > 0 ? (finalTax / additionalIncome) * 100 : 0,
+  }
+}
+
+/**
+ * Calculate exemption strategies
+ */
+export function calculateExemptions(
+  property: PropertyDetails,
+  result: CapitalGainsResult,
+  projectionState: Section54ProjectionState,
+  salaryDataForCalc?: SalaryDataForCalc
+): ExemptionStrategy[] {
+  const saleDate = new Date(property.saleDate)
+  const purchaseDate = new Date(property.purchaseDate)
+  const capitalGain = Math.max(0, result.capitalGain)
+  const strategies: ExemptionStrategy[] = []
+
+  // Calculate original property's CAGR for reference
+  const holdingYears = result.holdingPeriod.months / 12
+  const originalCAGR = calculateCAGR(
+    property.purchasePrice + property.stampDuty,
+    property.salePrice,
+    holdingYears
+  )
+
+  // Only LTCG is eligible for exemptions
+  if (!result.holdingPeriod.isLongTerm || capitalGain <= 0) {
+    return strategies
+  }
+
+  // Section 54 - Residential Property Reinvestment
+  if (property.propertyType === 'residential') {
+    const deadline = new Date(saleDate)
+    deadline.setFullYear(deadline.getFullYear() + 2)
+
+    // Max exemption capped at ₹10Cr from AY 2024-25
+    const maxExemption = Math.min(capitalGain, 100000000)
+    const taxSaved = (maxExemption * result.taxRate / 100) * 1.04
+    const lockInYears = 3
+
+    // Calculate property projections
+    const investmentAmount = maxExemption
+    const appreciationRate = projectionState.appreciationRate
+    const projectedPropertyValue = Math.round(
+      investmentAmount * Math.pow(1 + appreciationRate / 100, lockInYears)
+    )
+    const capitalAppreciation = projectedPropertyValue - investmentAmount
+
+    // Rental income calculation
+    const rentMonths = Math.max(0, (lockInYears * 12) - projectionState.rentStartMonth)
+    const totalRentalIncome = projectionState.enableRental
+      ? projectionState.monthlyRent * rentMonths
+      : 0
+
+    const totalReturns = capitalAppreciation + totalRentalIncome
+    const annualizedReturn = calculateCAGR(
+      investmentAmount,
+      investmentAmount + totalReturns,
+      lockInYears
+    )
+
+    // Tax calculations on returns - use split-bracket if salary data available
+    const cessRate = 0.04
+
+    // Calculate tax on rental income with split-bracket if using salary data
+    let taxOnRentalIncome: number
+    if (salaryDataForCalc?.usingSalaryRate && totalRentalIncome > 0) {
+      const rentalTaxResult = calculateSplitBracketTax({
+        additionalIncome: totalRentalIncome,
+        currentTaxableIncome: salaryDataForCalc.taxableIncome,
+        regime: salaryDataForCalc.regime,
+        fy: salaryDataForCalc.fy,
+      })
+      taxOnRentalIncome = rentalTaxResult.tax
+    } else {
+      const taxSlab = projectionState.taxSlab / 100
+      taxOnRentalIncome = Math.round(totalRentalIncome * taxSlab * (1 + cessRate))
+    }
+
+    // Capital appreciation on property sale after lock-in is LTCG at 12.5%
+    const taxOnAppreciation = capitalAppreciation > 0
+      ? Math.round(capitalAppreciation * 0.125 * (1 + cessRate))
+      : 0
+    const totalTaxOnReturns = taxOnRentalIncome + taxOnAppreciation
+    // Net property value after selling = Projected value - taxes on returns
+    const netPropertyValue = projectedPropertyValue - totalTaxOnReturns + totalRentalIncome - taxOnRentalIncome
+
+    // Remaining cash after property investment (this goes to FD)
+    // Since capital gains is exempt when reinvested, remaining = netSaleConsideration - capitalGains
+    const remainingCash54 = Math.max(0, result.netSaleConsideration - investmentAmount)
+
+    // FD calculations for remaining cash (assume 7% compound interest rate, same as 54EC)
+    const fdRate54 = 7
+    const fdInterest54 = Math.round(remainingCash54 * (Math.pow(1 + fdRate54 / 100, lockInYears) - 1))
+    const fdMaturityValue54 = remainingCash54 + fdInterest54
+
+    // Tax on FD interest at slab rate
+    let taxOnFdInterest54: number
+    if (salaryDataForCalc?.usingSalaryRate && fdInterest54 > 0) {
+      const fdTaxResult = calculateSplitBracketTax({
+        additionalIncome: fdInterest54,
+        currentTaxableIncome: salaryDataForCalc.taxableIncome,
+        regime: salaryDataForCalc.regime,
+        fy: salaryDataForCalc.fy,
+      })
+      taxOnFdInterest54 = fdTaxResult.tax
+    } else {
+      const taxSlab = projectionState.taxSlab / 100
+      taxOnFdInterest54 = Math.round(fdInterest54 * taxSlab * (1 + cessRate))
+    }
+    const netFdMaturityValue54 = fdMaturityValue54 - taxOnFdInterest54
+
+    // Total net cash in hand = Property value (after appreciation & taxes) + FD maturity (after tax)
+    const netCashInHand = netPropertyValue + netFdMaturityValue54
+
+    // Comparison: What if you paid tax and invested the remaining in FD/debt fund
+    const comparisonTaxPaid = result.totalTax
+    const afterTaxAmount = result.netSaleConsideration - comparisonTaxPaid
+    const returnAt8Percent = Math.round(
+      afterTaxAmount * Math.pow(1.08, lockInYears) - afterTaxAmount
+    )
+    // FD interest is taxed at slab rate - use split-bracket if salary data available
+    let taxOnFDReturns: number
+    if (salaryDataForCalc?.usingSalaryRate && returnAt8Percent > 0) {
+      const fdTaxResult = calculateSplitBracketTax({
+        additionalIncome: returnAt8Percent,
+        currentTaxableIncome: salaryDataForCalc.taxableIncome,
+        regime: salaryDataForCalc.regime,
+        fy: salaryDataForCalc.fy,
+      })
+      taxOnFDReturns = fdTaxResult.tax
+    } else {
+      const taxSlab = projectionState.taxSlab / 100
+      taxOnFDReturns = Math.round(returnAt8Percent * taxSlab * (1 + cessRate))
+    }
+    const netFDReturns = returnAt8Percent - taxOnFDReturns
+
+    // Build notes array for Section 54
+    const sec54Notes = [
+      'Purchase within 1 year before or 2 years after sale',
+      'Or construct within 3 years of sale',
+      'Only ONE new residential property allowed',
+      'Lock-in period: 3 years (cannot sell new property)',
+      'Max exemption: ₹10 Crore (from AY 2024-25)',
+    ]
+    if (remainingCash54 > 0) {
+      sec54Notes.push(`Surplus ₹${remainingCash54.toLocaleString('en-IN')} assumed in FD @${fdRate54}% for ${lockInYears} years`)
+    }
+
+    strategies.push({
+      section: '54',
+      name: 'Buy New Residential Property',
+      description: 'Reinvest capital gains in a new residential house',
+      maxExemption,
+      investmentRequired: maxExemption,
+      taxSaved,
+      deadline,
+      lockInYears,
+      isEligible: true,
+      notes: sec54Notes,
+      propertyProjection: {
+        originalPropertyCAGR: originalCAGR,
+        appreciationRate,
+        projectedPropertyValue,
+        capitalAppreciation,
+        rentalEnabled: projectionState.enableRental,
+        monthlyRent: projectionState.monthlyRent,
+        rentStartMonth: projectionState.rentStartMonth,
+        totalRentalIncome,
+        totalReturns,
+        annualizedReturn,
+        taxSlab: projectionState.taxSlab,
+        taxOnRentalIncome,
+        taxOnAppreciation,
+        totalTaxOnReturns,
+        // Remaining cash in FD
+        remainingCash: remainingCash54,
+        fdRate: fdRate54,
+        fdInterest: fdInterest54,
+        fdMaturityValue: fdMaturityValue54,
+        taxOnFdInterest: taxOnFdInterest54,
+        netFdMaturityValue: netFdMaturityValue54,
+        // Total net cash in hand (property + FD)
+        netCashInHand,
+        comparisonWithoutExemption: {
+          taxPaid: comparisonTaxPaid,
+          investedAmount: afterTaxAmount,
+          returnAt8Percent,
+          taxOnFDReturns,
+          netFDReturns,
+        },
+      },
+    })
+  }
+
+  // Section 54EC - Capital Gains Bonds
+  const bondDeadline = new Date(saleDate)
+  bondDeadline.setMonth(bondDeadline.getMonth() + 6)
+
+  // Max ₹50 lakh per FY
+  const maxBondInvestment = Math.min(capitalGain, BOND_54EC_LIMIT)
+  const bondTaxSaved = (maxBondInvestment * result.taxRate / 100) * 1.04
+
+  // Bond interest calculations
+  const bondInterestRate = BOND_54EC_RATE
+  const bondLockInYears = BOND_54EC_LOCK_IN_YEARS
+  // Simple interest for 54EC bonds (paid annually, not compounded)
+  const totalInterest = Math.round(maxBondInvestment * (bondInterestRate / 100) * bondLockInYears)
+  const maturityValue = maxBondInvestment + totalInterest
+  // Interest is taxable at user's slab rate (with split-bracket if salary data available)
+  let taxOnInterest: number
+  const userTaxSlab = projectionState.taxSlab / 100
+  if (salaryDataForCalc?.usingSalaryRate && totalInterest > 0) {
+    // Use split-bracket: bond interest comes on top of salary income
+    const interestTaxResult = calculateSplitBracketTax({
+      additionalIncome: totalInterest,
+      currentTaxableIncome: salaryDataForCalc.taxableIncome,
+      regime: salaryDataForCalc.regime,
+      fy: salaryDataForCalc.fy,
+    })
+    taxOnInterest = interestTaxResult.tax
+  } else {
+    taxOnInterest = Math.round(totalInterest * userTaxSlab * 1.04) // slab rate + 4% cess
+  }
+  const netMaturityValue = maturityValue - taxOnInterest
+
+  // Calculate remaining amount (capital gain beyond 50L exemption)
+  const remainingGain = Math.max(0, capitalGain - maxBondInvestment)
+  const taxOnRemainingGain = Math.round(remainingGain * (result.taxRate / 100) * 1.04) // LTCG tax on remaining
+
+  // Cash remaining after bond investment and tax on remaining gain
+  // = Net sale proceeds - Tax on remaining gain - Bond investment
+  const remainingCash = Math.max(0, result.netSaleConsideration - taxOnRemainingGain - maxBondInvestment)
+
+  // FD calculations for remaining cash (assume 7% compound interest rate)
+  const fdRate = 7 // Reasonable FD rate assumption
+  const fdInterest = Math.round(remainingCash * (Math.pow(1 + fdRate / 100, bondLockInYears) - 1))
+  const fdMaturityValue = remainingCash + fdInterest
+
+  // Tax on FD interest at slab rate
+  let taxOnFdInterest: number
+  if (salaryDataForCalc?.usingSalaryRate && fdInterest > 0) {
+    const fdTaxResult = calculateSplitBracketTax({
+      additionalIncome: fdInterest,
+      currentTaxableIncome: salaryDataForCalc.taxableIncome + totalInterest, // FD interest comes after bond interest
+      regime: salaryDataForCalc.regime,
+      fy: salaryDataForCalc.fy,
+    })
+    taxOnFdInterest = fdTaxResult.tax
+  } else {
+    taxOnFdInterest = Math.round(fdInterest * userTaxSlab * 1.04)
+  }
+  const netFdMaturityValue = fdMaturityValue - taxOnFdInterest
+
+  // Total net cash-in-hand = Bond maturity (after tax) + FD maturity (after tax)
+  const totalNetCashInHand = netMaturityValue + netFdMaturityValue
+
+  // Build notes array
+  const bondNotes = [
+    'Invest within 6 months of sale date',
+    'Maximum investment: ₹50 lakhs per financial year',
+    'Lock-in period: 5 years',
+    `Bond interest taxed at ${projectionState.taxSlab}% (your slab rate)`,
+    'Bonds: NHAI, REC, PFC, IRFC',
+  ]
+  if (remainingGain > 0) {
+    bondNotes.push(`Remaining ₹${remainingGain.toLocaleString('en-IN')} capital gain taxed at ${result.taxRate}%`)
+    bondNotes.push(`Surplus ₹${remainingCash.toLocaleString('en-IN')} assumed in FD @${fdRate}% for 5 years`)
+  }
+
+  strategies.push({
+    section: '54EC',
+    name: 'Capital Gains Bonds',
+    description: 'Invest in NHAI/REC/PFC bonds',
+    maxExemption: maxBondInvestment,
+    investmentRequired: maxBondInvestment,
+    taxSaved: bondTaxSaved,
+    deadline: bondDeadline,
+    lockInYears: bondLockInYears,
+    isEligible: true,
+    notes: bondNotes,
+    bondDetails: {
+      interestRate: bondInterestRate,
+      totalInterest,
+      maturityValue,
+      taxOnInterest,
+      netMaturityValue,
+      remainingGain,
+      taxOnRemainingGain,
+      remainingCash,
+      fdRate,
+      fdInterest,
+      fdMaturityValue,
+      taxOnFdInterest,
+      netFdMaturityValue,
+      totalNetCashInHand,
+    },
+  })
+
+  // Section 54F - For non-residential property
+  if (property.propertyType !== 'residential') {
+    const deadline54f = new Date(saleDate)
+    deadline54f.setFullYear(deadline54f.getFullYear() + 2)
+
+    // Full exemption if entire NET consideration is reinvested
+    const netConsideration = result.netSaleConsideration
+    const exemptionRatio = Math.min(1, capitalGain / netConsideration)
+    const maxExemption54f = Math.round(capitalGain * exemptionRatio)
+    const taxSaved54f = (maxExemption54f * result.taxRate / 100) * 1.04
+    const lockInYears54f = 3
+
+    // Calculate property projections for 54F
+    const investmentAmount54f = netConsideration
+    const appreciationRate54f = projectionState.appreciationRate
+    const projectedPropertyValue54f = Math.round(
+      investmentAmount54f * Math.pow(1 + appreciationRate54f / 100, lockInYears54f)
+    )
+    const capitalAppreciation54f = projectedPropertyValue54f - investmentAmount54f
+
+    // Rental income calculation for 54F
+    const rentMonths54f = Math.max(0, (lockInYears54f * 12) - projectionState.rentStartMonth)
+    const totalRentalIncome54f = projectionState.enableRental
+      ? projectionState.monthlyRent * rentMonths54f
+      : 0
+
+    const totalReturns54f = capitalAppreciation54f + totalRentalIncome54f
+    const annualizedReturn54f = calculateCAGR(
+      investmentAmount54f,
+      investmentAmount54f + totalReturns54f,
+      lockInYears54f
+    )
+
+    // Tax calculations on returns for 54F
+    const taxSlab54f = projectionState.taxSlab / 100
+    const cessRate54f = 0.04
+    const taxOnRentalIncome54f = Math.round(totalRentalIncome54f * taxSlab54f * (1 + cessRate54f))
+    const taxOnAppreciation54f = capitalAppreciation54f > 0
+      ? Math.round(capitalAppreciation54f * 0.125 * (1 + cessRate54f))
+      : 0
+    const totalTaxOnReturns54f = taxOnRentalIncome54f + taxOnAppreciation54f
+    const netCashInHand54f = investmentAmount54f + totalReturns54f - totalTaxOnReturns54f
+
+    // Comparison: What if you paid tax and invested the remaining in FD/debt fund
+    const comparisonTaxPaid54f = result.totalTax
+    const afterTaxAmount54f = result.netSaleConsideration - comparisonTaxPaid54f
+    const returnAt8Percent54f = Math.round(
+      afterTaxAmount54f * Math.pow(1.08, lockInYears54f) - afterTaxAmount54f
+    )
+    const taxOnFDReturns54f = Math.round(returnAt8Percent54f * taxSlab54f * (1 + cessRate54f))
+    const netFDReturns54f = returnAt8Percent54f - taxOnFDReturns54f
+
+    strategies.push({
+      section: '54F',
+      name: 'Buy Residential Property (54F)',
+      description: 'For sale of non-residential assets',
+      maxExemption: maxExemption54f,
+      investmentRequired: netConsideration,
+      taxSaved: taxSaved54f,
+      deadline: deadline54f,
+      lockInYears: lockInYears54f,
+      isEligible: true,
+      notes: [
+        'Applicable for sale of any asset EXCEPT residential house',
+        'Must not own more than one residential house on sale date',
+        'Full exemption if entire net consideration is reinvested',
+        'Proportionate exemption if partial reinvestment',
+        'Lock-in period: 3 years',
+      ],
+      propertyProjection: {
+        originalPropertyCAGR: originalCAGR,
+        appreciationRate: appreciationRate54f,
+        projectedPropertyValue: projectedPropertyValue54f,
+        capitalAppreciation: capitalAppreciation54f,
+        rentalEnabled: projectionState.enableRental,
+        monthlyRent: projectionState.monthlyRent,
+        rentStartMonth: projectionState.rentStartMonth,
+        totalRentalIncome: totalRentalIncome54f,
+        totalReturns: totalReturns54f,
+        annualizedReturn: annualizedReturn54f,
+        taxSlab: projectionState.taxSlab,
+        taxOnRentalIncome: taxOnRentalIncome54f,
+        taxOnAppreciation: taxOnAppreciation54f,
+        totalTaxOnReturns: totalTaxOnReturns54f,
+        netCashInHand: netCashInHand54f,
+        comparisonWithoutExemption: {
+          taxPaid: comparisonTaxPaid54f,
+          investedAmount: afterTaxAmount54f,
+          returnAt8Percent: returnAt8Percent54f,
+          taxOnFDReturns: taxOnFDReturns54f,
+          netFDReturns: netFDReturns54f,
+        },
+      },
+    })
+  }
+
+  return strategies
+}
+
+/**
+ * Project how the after-tax sale proceeds grow when split between personal use, 54EC bonds and a new property.
+ * Whatever personal use and bonds leave goes to the property; bond interest and rent are taxed at the slab
+ * (or split-bracket on top of salary), and the property's appreciation as LTCG when sold after lock-in.
+ * Cess and the property LTCG rate come from the financial year's tax rules.
+ */
+export function calculateReinvestmentProjection(
+  netProceeds: number,
+  allocation: ReinvestmentAllocation,
+  taxSlab: number,
+  fy: FinancialYear,
+  salaryDataForCalc?: SalaryDataForCalc
+): ReinvestmentProjection {
+  const rules = getTaxRules(fy)
+  const withCess = 1 + rules.cessRate / 100
+  const maxBondAmount = Math.min(BOND_54EC_LIMIT, netProceeds)
+  const lockInYears = 3 // Standard lock-in for real estate
+
+  // Tax on income earned over the lock-in, at the slab rate or split-bracket on top of salary
+  const taxOnIncome = (income: number): number => {
+    if (salaryDataForCalc?.usingSalaryRate && income > 0) {
+      return calculateSplitBracketTax({
+        additionalIncome: income,
+        currentTaxableIncome: salaryDataForCalc.taxableIncome,
+        regime: salaryDataForCalc.regime,
+        fy: salaryDataForCalc.fy,
+      }).tax
+    }
+    return Math.round(income * (taxSlab / 100) * withCess)
+  }
+
+  const personalUseAmount = allocation.personalUse.enabled ? allocation.personalUse.amount : 0
+  const bondsAmount = allocation.bonds.enabled ? Math.min(allocation.bonds.amount, maxBondAmount) : 0
+  const remainingAfterPersonalAndBonds = Math.max(0, netProceeds - personalUseAmount - bondsAmount)
+  const realEstateAmount = allocation.realEstate.enabled ? remainingAfterPersonalAndBonds : 0
+  const unallocated = netProceeds - personalUseAmount - bondsAmount - realEstateAmount
+
+  // Bonds
+  const bondInterest = Math.round(bondsAmount * (BOND_54EC_RATE / 100) * BOND_54EC_LOCK_IN_YEARS)
+  const bondMaturityValue = bondsAmount + bondInterest
+  const bondTaxOnInterest = taxOnIncome(bondInterest)
+  const bondNetValue = bondMaturityValue - bondTaxOnInterest
+
+  // Real estate
+  const { appreciationRate } = allocation.realEstate
+  const projectedValue = Math.round(realEstateAmount * Math.pow(1 + appreciationRate / 100, lockInYears))
+  const capitalAppreciation = projectedValue - realEstateAmount
+  const rentMonths = Math.max(0, lockInYears * 12 - allocation.realEstate.rentStartMonth)
+  const totalRental = allocation.realEstate.enableRental ? allocation.realEstate.monthlyRent * rentMonths : 0
+  const totalReturns = capitalAppreciation + totalRental
+  const taxOnRent = taxOnIncome(totalRental)
+  const taxOnAppreciation = capitalAppreciation > 0 ? Math.round(capitalAppreciation * (rules.capitalGains.propertyRate / 100) * withCess) : 0
+  const totalTax = taxOnRent + taxOnAppreciation
+  const reNetValue = realEstateAmount + totalReturns - totalTax
+
+  return {
+    netProceeds,
+    maxBondAmount,
+    personalUseAmount,
+    bondsAmount,
+    realEstateAmount,
+    unallocated,
+    remainingAfterPersonalAndBonds,
+    bonds: {
+      interestRate: BOND_54EC_RATE,
+      lockInYears: BOND_54EC_LOCK_IN_YEARS,
+      totalInterest: bondInterest,
+      maturityValue: bondMaturityValue,
+      taxOnInterest: bondTaxOnInterest,
+      netValue: bondNetValue,
+    },
+    realEstate: {
+      lockInYears,
+      appreciationRate,
+      projectedValue,
+      capitalAppreciation,
+      rentMonths,
+      totalRental,
+      totalReturns,
+      taxOnRent,
+      taxOnAppreciation,
+      totalTax,
+      netValue: reNetValue,
+    },
+    totalProjectedValue: personalUseAmount + bondNetValue + reNetValue + unallocated,
+  }
+}
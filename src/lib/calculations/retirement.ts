@@ -0,0 +1,109 @@
+import { RetirementDrawdownYear, RetirementParams, RetirementResult, RetirementSavingsSource } from '@/types'
+import { calculateRequiredSIP } from './sip'
+
+export const RETIREMENT_SAVINGS_SOURCES: RetirementSavingsSource[] = ['epf', 'ppf', 'nps', 'other']
+
+/**
+ * Corpus needed at retirement to fund yearly expenses that grow with inflation, withdrawn at
+ * the start of each year while the remainder earns the post-retirement return
+ */
+export function calculateRequiredCorpus(
+  firstYearExpense: number,
+  inflation: number,
+  postRetirementReturn: number,
+  years: number
+): number {
+  const growth = (1 + inflation / 100) / (1 + postRetirementReturn / 100)
+
+  if (Math.abs(growth - 1) < 1e-9) return firstYearExpense * years
+
+  return firstYearExpense * ((1 - Math.pow(growth, years)) / (1 - growth))
+}
+
+/**
+ * Simulate drawing down a corpus year by year from retirement to life expectancy.
+ * Withdrawals come out at the start of each year and stop when the corpus runs out.
+ */
+export function simulateRetirementDrawdown(
+  startingCorpus: number,
+  firstYearExpense: number,
+  inflation: number,
+  postRetirementReturn: number,
+  retirementAge: number,
+  lifeExpectancy: number
+): RetirementDrawdownYear[] {
+  const drawdown: RetirementDrawdownYear[] = []
+  let balance = startingCorpus
+  let expense = firstYearExpense
+
+  for (let age = retirementAge; age < lifeExpectancy; age++) {
+    const openingBalance = balance
+    const withdrawal = Math.min(balance, expense)
+    const returns = (balance - withdrawal) * (postRetirementReturn / 100)
+    balance = balance - withdrawal + returns
+
+    drawdown.push({
+      age,
+      openingBalance: Math.round(openingBalance),
+      withdrawal: Math.round(withdrawal),
+      returns: Math.round(returns),
+      closingBalance: Math.round(balance),
+    })
+
+    expense *= 1 + inflation / 100
+  }
+
+  return drawdown
+}
+
+/**
+ * Plan retirement: inflate today's expenses to retirement, size the corpus for the years
+ * until life expectancy, subtract what existing EPF/PPF/NPS and other savings will have
+ * grown to, and work out the monthly SIP that closes the gap
+ */
+export function calculateRetirement(params: RetirementParams): RetirementResult {
+  const { currentAge, monthlyExpenses, inflation, preRetirementReturn, postRetirementReturn, savings } = params
+  const retirementAge = Math.max(currentAge, params.retirementAge)
+  const lifeExpectancy = Math.max(retirementAge, params.lifeExpectancy)
+  const yearsToRetirement = retirementAge - currentAge
+  const yearsInRetirement = lifeExpectancy - retirementAge
+
+  const monthlyExpenseAtRetirement = monthlyExpenses * Math.pow(1 + inflation / 100, yearsToRetirement)
+  const firstYearExpense = monthlyExpenseAtRetirement * 12
+  const requiredCorpus = calculateRequiredCorpus(firstYearExpense, inflation, postRetirementReturn, yearsInRetirement)
+
+  const savingsAtRetirement = {} as Record<RetirementSavingsSource, number>
+  let existingCorpus = 0
+  for (const source of RETIREMENT_SAVINGS_SOURCES) {
+    const { balance, rate } = savings[source]
+    const value = balance * Math.pow(1 + rate / 100, yearsToRetirement)
+    savingsAtRetirement[source] = Math.round(value)
+    existingCorpus += value
+  }
+
+  const corpusGap = Math.max(0, requiredCorpus - existingCorpus)
+  const requiredSIP = corpusGap > 0 && yearsToRetirement > 0
+    ? calculateRequiredSIP(corpusGap, preRetirementReturn, yearsToRetirement)
+    : 0
+  const projectedCorpus = existingCorpus + corpusGap
+
+  return {
+    yearsToRetirement,
+    yearsInRetirement,
+    monthlyExpenseAtRetirement: Math.round(monthlyExpenseAtRetirement),
+    requiredCorpus: Math.round(requiredCorpus),
+    savingsAtRetirement,
+    existingCorpus: Math.round(existingCorpus),
+    corpusGap: Math.round(corpusGap),
+    requiredSIP,
+    projectedCorpus: Math.round(projectedCorpus),
+    drawdown: simulateRetirementDrawdown(
+      projectedCorpus,
+      firstYearExpense,
+      inflation,
+      postRetirementReturn,
+      retirementAge,
+      lifeExpectancy
+    ),
+  }
+}
@@ -0,0 +1,408 @@
+import {
+  TaxSlabBreakdown,
+  SalaryResult,
+  EmployerCostOptions,
+  TaxRegime,
+  FinancialYear,
+  SalaryOptimizerParams,
+  SalaryOptimizerResult,
+  SalaryStructure,
+  PayrollParams,
+  PayrollResult,
+  PayrollMonth,
+} from '@/types'
+import { calculateRegimeTax } from './tax'
+import { calculateHRA } from './hra'
+import { getTaxRules, EMPLOYER_RETIREMENT_CAP, MEAL_CARD_ANNUAL_CAP, SECTION_80C_CAP } from './taxRules'
+
+// Code on Wages, 2019: basic pay must be at least half of total remuneration
+export const MIN_BASIC_PERCENT = 50
+
+// EPF scheme: statutory wage ceiling and the employer's 12% split between EPS (capped at the
+// ceiling) and EPF, plus EDLI insurance and EPFO admin charges
+export const PF_WAGE_CEILING = 15000
+const EMPLOYER_PF_RATE = 12
+export const EPS_RATE = 8.33
+const EDLI_RATE = 0.5
+const PF_ADMIN_RATE = 0.5
+
+// Payment of Gratuity Act: 15/26 of a month's basic per year of service, provisioned monthly
+export const GRATUITY_PROVISION_RATE = 4.81
+
+// ESI applies while monthly gross is within the wage ceiling
+export const ESI_WAGE_CEILING = 21000
+const ESI_EMPLOYER_RATE = 3.25
+const ESI_EMPLOYEE_RATE = 0.75
+
+// CTC taken as gross pay, with no employer-side costs
+const CTC_AS_GROSS: EmployerCostOptions = { enabled: false, pfWageCeiling: false, includeGratuity: false }
+
+function formatSlabBound(num: number): string {
+  if (num >= 100000) return `₹${(num / 100000).toFixed(2)}L`
+  return `₹${Math.round(num)}`
+}
+
+function formatSlabRange(min: number, max: number): string {
+  return `${formatSlabBound(min)} - ${max === Infinity ? '∞' : formatSlabBound(max)}`
+}
+
+// Short slab label, e.g. '0 - 3L', '2.5L - 5L', '15L+'
+function formatSlabLabel(min: number, max: number): string {
+  const lakhs = (num: number) => `${num / 100000}L`
+  if (max === Infinity) return `${lakhs(min)}+`
+  return `${min === 0 ? '0' : lakhs(min)} - ${lakhs(max)}`
+}
+
+/**
+ * Calculate tax with slab breakdown
+ */
+export function calculateTaxWithBreakdown(
+  taxableIncome: number,
+  regime: TaxRegime,
+  fy: FinancialYear
+): {
+  breakdown: TaxSlabBreakdown[]
+  slabTax: number
+  rebate: number
+  rebateMarginalRelief: number
+  surchargeRate: number
+  surcharge: number
+  surchargeMarginalRelief: number
+  totalTax: number
+  cess: number
+} {
+  const breakdown: TaxSlabBreakdown[] = []
+  const slabs = getTaxRules(fy)[regime].slabs
+
+  for (const slab of slabs) {
+    const amountInSlab = Math.max(0, Math.min(taxableIncome, slab.max) - slab.min)
+
+    breakdown.push({
+      slab: formatSlabLabel(slab.min, slab.max),
+      range: formatSlabRange(slab.min, slab.max),
+      rate: slab.rate,
+      taxableAmount: Math.round(amountInSlab),
+      tax: Math.round(amountInSlab * (slab.rate / 100)),
+    })
+  }
+
+  const tax = calculateRegimeTax(taxableIncome, regime, fy)
+
+  return {
+    breakdown,
+    slabTax: tax.slabTax,
+    rebate: tax.rebate,
+    rebateMarginalRelief: tax.rebateMarginalRelief,
+    surchargeRate: tax.surchargeRate,
+    surcharge: tax.surcharge,
+    surchargeMarginalRelief: tax.surchargeMarginalRelief,
+    totalTax: tax.taxBeforeCess,
+    cess: tax.cess,
+  }
+}
+
+/**
+ * Calculate the monthly in-hand salary from CTC. With the employer cost model enabled, employer PF
+ * (EPS and EPF), EDLI, PF admin charges, the gratuity provision and employer ESI come out of CTC first,
+ * so that CTC = gross + employer costs and in-hand = gross - PF - ESI - professional tax - income tax.
+ * Basic is a percent of CTC either way; employer contributions are rounded to the rupee as EPFO does.
+ */
+export function calculateSalary(
+  ctc: number,
+  basicPercent: number,
+  hraPercent: number,
+  pfPercent: number,
+  professionalTax: number,
+  regime: TaxRegime,
+  fy: FinancialYear,
+  employerCost: EmployerCostOptions = CTC_AS_GROSS
+): SalaryResult {
+  const monthlyCtc = ctc / 12
+
+  const basicSalary = monthlyCtc * (basicPercent / 100)
+  const hra = basicSalary * (hraPercent / 100)
+  const pfWage = employerCost.enabled && employerCost.pfWageCeiling ? Math.min(basicSalary, PF_WAGE_CEILING) : basicSalary
+  const pf = pfWage * (pfPercent / 100)
+
+  let employerEps = 0
+  let employerEpf = 0
+  let edli = 0
+  let pfAdmin = 0
+  let gratuityProvision = 0
+  if (employerCost.enabled) {
+    employerEps = Math.round(Math.min(basicSalary, PF_WAGE_CEILING) * (EPS_RATE / 100))
+    employerEpf = Math.round(pfWage * (EMPLOYER_PF_RATE / 100)) - employerEps
+    edli = Math.round(Math.min(basicSalary, PF_WAGE_CEILING) * (EDLI_RATE / 100))
+    pfAdmin = Math.round(pfWage * (PF_ADMIN_RATE / 100))
+    gratuityProvision = employerCost.includeGratuity ? Math.round(basicSalary * (GRATUITY_PROVISION_RATE / 100)) : 0
+  }
+
+  // Gross is what is left of CTC; employer ESI is itself a share of gross, so solve for it
+  const grossBeforeEsi = monthlyCtc - employerEps - employerEpf - edli - pfAdmin - gratuityProvision
+  const esiApplicable = employerCost.enabled && grossBeforeEsi / (1 + ESI_EMPLOYER_RATE / 100) <= ESI_WAGE_CEILING
+  const employerEsi = esiApplicable ? Math.round(grossBeforeEsi * (ESI_EMPLOYER_RATE / (100 + ESI_EMPLOYER_RATE))) : 0
+  const monthlyGross = grossBeforeEsi - employerEsi
+  const employeeEsi = esiApplicable ? Math.ceil(monthlyGross * (ESI_EMPLOYEE_RATE / 100)) : 0
+
+  // Special allowance is the remainder
+  const specialAllowance = monthlyGross - basicSalary - hra
+
+  // Standard deduction based on regime and year
+  const standardDeduction = getTaxRules(fy)[regime].standardDeduction
+  const annualTaxableIncome = Math.max(0, monthlyGross * 12 - (pf * 12) - standardDeduction)
+
+  // Calculate tax with slab breakdown
+  const tax = calculateTaxWithBreakdown(annualTaxableIncome, regime, fy)
+  const annualTax = tax.totalTax + tax.cess
+  const incomeTax = annualTax / 12
+
+  // Deductions
+  const totalDeductions = pf + employeeEsi + professionalTax + incomeTax
+
+  const netSalary = monthlyGross - totalDeductions
+
+  return {
+    grossSalary: Math.round(monthlyGross),
+    basicSalary: Math.round(basicSalary),
+    hra: Math.round(hra),
+    specialAllowance: Math.round(specialAllowance),
+    pf: Math.round(pf),
+    employeeEsi,
+    professionalTax: Math.round(professionalTax),
+    incomeTax: Math.round(incomeTax),
+    netSalary: Math.round(netSalary),
+    annualCTC: ctc,
+    employerEpf,
+    employerEps,
+    edli,
+    pfAdmin,
+    gratuityProvision,
+    employerEsi,
+    esiApplicable,
+    annualNet: Math.round(netSalary * 12),
+    taxableIncome: Math.round(annualTaxableIncome),
+    slabBreakdown: tax.breakdown,
+    slabTax: tax.slabTax,
+    rebate: tax.rebate,
+    rebateMarginalRelief: tax.rebateMarginalRelief,
+    surchargeRate: tax.surchargeRate,
+    surcharge: tax.surcharge,
+    surchargeMarginalRelief: tax.surchargeMarginalRelief,
+    totalTaxBeforeCess: tax.totalTax,
+    cess: tax.cess,
+  }
+}
+
+function formatRupees(num: number): string {
+  return `₹${Math.round(num).toLocaleString('en-IN')}`
+}
+
+// One salary structure with basic at the given percent of CTC. Employer NPS comes out of CTC first,
+// then HRA, meal card, telephone and LTA up to what is useful; the rest is special allowance.
+function buildSalaryStructure(params: SalaryOptimizerParams, regime: TaxRegime, basicPercent: number): SalaryStructure | null {
+  const rules = getTaxRules(params.fy)[regime]
+  const basic = params.ctc * (basicPercent / 100)
+  const employerNps = params.includeNps
+    ? Math.min(basic * (rules.employerNpsLimit / 100), EMPLOYER_RETIREMENT_CAP)
+    : 0
+
+  let remaining = params.ctc - basic - employerNps
+  if (remaining < 0) return null
+  const allocate = (amount: number) => {
+    const allocated = Math.max(0, Math.min(amount, remaining))
+    remaining -= allocated
+    return allocated
+  }
+
+  // HRA, LTA and meal vouchers (Rule 3(7)(iii)) are only exempt under the old regime;
+  // otherwise they are paid as special allowance
+  const hra = regime === 'old' && params.rentPaid > 0 ? allocate(basic * (params.isMetro ? 0.5 : 0.4)) : 0
+  const mealCard = regime === 'old' ? allocate(MEAL_CARD_ANNUAL_CAP) : 0
+  const telephone = allocate(params.phoneBills * 12)
+  const lta = regime === 'old' ? allocate(params.travelSpend) : 0
+  const specialAllowance = remaining
+  const gross = params.ctc - employerNps
+
+  const hraExemption = hra > 0
+    ? calculateHRA(basic / 12, 0, hra / 12, params.rentPaid, params.isMetro).exemptedHRA * 12
+    : 0
+  const exemptions = hraExemption + lta + mealCard + telephone
+
+  const employeePf = basic * (params.pfPercent / 100)
+  const professionalTax = params.professionalTax * 12
+  const standardDeduction = Math.min(rules.standardDeduction, gross)
+  const deductions = regime === 'old'
+    ? standardDeduction + professionalTax + Math.min(employeePf, SECTION_80C_CAP)
+    : standardDeduction
+
+  const taxableIncome = Math.max(0, gross - exemptions - deductions)
+  const tax = calculateRegimeTax(taxableIncome, regime, params.fy).totalTax
+
+  return {
+    regime,
+    basicPercent,
+    basic: Math.round(basic),
+    hra: Math.round(hra),
+    employerNps: Math.round(employerNps),
+    mealCard: Math.round(mealCard),
+    telephone: Math.round(telephone),
+    lta: Math.round(lta),
+    specialAllowance: Math.round(specialAllowance),
+    employeePf: Math.round(employeePf),
+    exemptions: Math.round(exemptions),
+    deductions: Math.round(deductions),
+    taxableIncome: Math.round(taxableIncome),
+    tax,
+    takeHome: Math.round(params.ctc - tax - professionalTax),
+    monthlyInHand: Math.round((gross - employeePf - professionalTax - tax) / 12),
+    explanation: [],
+  }
+}
+
+// Plain-language reasons for each component of the chosen structure
+function explainSalaryStructure(structure: SalaryStructure, params: SalaryOptimizerParams): string[] {
+  const rules = getTaxRules(params.fy)[structure.regime]
+  const lines: string[] = []
+
+  lines.push(
+    structure.basicPercent === MIN_BASIC_PERCENT
+      ? `Basic at ${MIN_BASIC_PERCENT}% of CTC (${formatRupees(structure.basic)}), the Code on Wages minimum; a higher basic saves no more tax`
+      : `Basic at ${structure.basicPercent}% of CTC (${formatRupees(structure.basic)}), above the ${MIN_BASIC_PERCENT}% minimum because the tax breaks tied to basic (PF under 80C, HRA, NPS) grow with it`
+  )
+  if (structure.employerNps > 0) {
+    lines.push(`Employer NPS of ${formatRupees(structure.employerNps)} (${rules.employerNpsLimit}% of basic) is deductible under 80CCD(2)`)
+  }
+  if (structure.regime === 'new') {
+    lines.push('HRA and LTA are taxable under the new regime, so they are paid as special allowance')
+  } else if (structure.hra > 0) {
+    const hraExemption = structure.exemptions - structure.lta - structure.mealCard - structure.telephone
+    lines.push(`HRA of ${formatRupees(structure.hra)} (${params.isMetro ? 50 : 40}% of basic), of which ${formatRupees(hraExemption)} is exempt under 10(13A) against your rent`)
+  } else {
+    lines.push('No rent is paid, so HRA would be fully taxable and is left in special allowance')
+  }
+  if (structure.mealCard > 0) {
+    lines.push(`Meal card of ${formatRupees(structure.mealCard)} a year is tax-free (₹50 a meal)`)
+  }
+  if (structure.telephone > 0) {
+    lines.push(`Telephone and internet reimbursement of ${formatRupees(structure.telephone)} against bills is tax-free`)
+  }
+  if (structure.lta > 0) {
+    lines.push(`LTA of ${formatRupees(structure.lta)} against travel is exempt under 10(5), for two journeys in a block of four years`)
+  }
+  lines.push(`The remaining ${formatRupees(structure.specialAllowance)} is special allowance, fully taxable`)
+
+  return lines
+}
+
+/**
+ * Search compliant salary structures for the highest take-home under each regime.
+ * Basic ranges from the Code on Wages minimum to the whole CTC; every other component is capped at its
+ * statutory or useful limit. Take-home counts PF and NPS as the employee's own savings.
+ */
+export function optimizeSalaryStructure(params: SalaryOptimizerParams): SalaryOptimizerResult {
+  const optimize = (regime: TaxRegime): SalaryStructure => {
+    let best: SalaryStructure | null = null
+    for (let basicPercent = MIN_BASIC_PERCENT; basicPercent <= 100; basicPercent++) {
+      const structure = buildSalaryStructure(params, regime, basicPercent)
+      // Ties go to the lower basic, which keeps more of the salary in hand
+      if (structure && (!best || structure.takeHome > best.takeHome)) best = structure
+    }
+    const chosen = best ?? (buildSalaryStructure(params, regime, MIN_BASIC_PERCENT) as SalaryStructure)
+    return { ...chosen, explanation: explainSalaryStructure(chosen, params) }
+  }
+
+  const oldStructure = optimize('old')
+  const newStructure = optimize('new')
+
+  return {
+    old: oldStructure,
+    new: newStructure,
+    best: oldStructure.takeHome > newStructure.takeHome ? 'old' : 'new',
+  }
+}
+
+const PAYROLL_MONTHS = ['Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec', 'Jan', 'Feb', 'Mar']
+
+/**
+ * Project a financial year's payslips month by month, April to March, with employer TDS under Section 192.
+ * Each month the annual tax is re-estimated on salary paid so far, the regular salary still to come and the
+ * previous employer's income; the balance is spread over the remaining months, while tax on a bonus or
+ * variable pay is deducted in the month it is paid. Taxable income follows calculateSalary.
+ */
+export function calculatePayroll(params: PayrollParams): PayrollResult {
+  const { fy, regime, pfPercent } = params
+  const startYear = parseInt(fy.slice(0, 4))
+  const standardDeduction = getTaxRules(fy)[regime].standardDeduction
+  const fixedMonthly = Math.max(0, params.ctc - params.variablePay) / 12
+
+  const taxOn = (gross: number, pf: number) =>
+    calculateRegimeTax(Math.max(0, gross - pf - standardDeduction), regime, fy).totalTax
+
+  // Regular and one-time pay for each month before tax
+  const schedule = PAYROLL_MONTHS.map((_, m) => {
+    const employed = m >= params.joiningMonth
+    const fixed = employed ? fixedMonthly * (m >= params.incrementMonth ? 1 + params.incrementPercent / 100 : 1) : 0
+    const basic = fixed * (params.basicPercent / 100)
+    const oneTime = employed
+      ? params.bonuses.filter((b) => b.month === m).reduce((sum, b) => sum + b.amount, 0) +
+        (m === params.variablePayMonth ? params.variablePay : 0)
+      : 0
+    return { employed, fixed, basic, oneTime, pf: basic * (pfPercent / 100) }
+  })
+
+  const months: PayrollMonth[] = []
+  let paidGross = params.previousEmployerIncome
+  let paidPf = 0
+  let tdsSoFar = params.previousEmployerTds
+
+  schedule.forEach((pay, m) => {
+    const hra = pay.basic * (params.hraPercent / 100)
+    const gross = pay.fixed + pay.oneTime
+    const professionalTax = pay.employed ? params.professionalTaxByMonth?.[m] ?? params.professionalTax : 0
+    const labourWelfareFund = pay.employed ? params.labourWelfareFundByMonth?.[m] ?? 0 : 0
+
+    // Regular salary from this month to March at the current rate
+    const remainingMonths = 12 - m
+    const projectedRegular = pay.fixed * remainingMonths
+    const projectedPf = pay.pf * remainingMonths
+
+    const taxWithoutOneTime = taxOn(paidGross + projectedRegular, paidPf + projectedPf)
+    const projectedTax = taxOn(paidGross + projectedRegular + pay.oneTime, paidPf + projectedPf)
+    const regularTds = pay.employed ? Math.max(0, (taxWithoutOneTime - tdsSoFar) / remainingMonths) : 0
+    const tds = Math.round(regularTds + (projectedTax - taxWithoutOneTime))
+
+    paidGross += gross
+    paidPf += pay.pf
+    tdsSoFar += tds
+
+    months.push({
+      month: `${PAYROLL_MONTHS[m]} ${m < 9 ? startYear : startYear + 1}`,
+      employed: pay.employed,
+      basic: Math.round(pay.basic),
+      hra: Math.round(hra),
+      specialAllowance: Math.round(pay.fixed - pay.basic - hra),
+      oneTime: Math.round(pay.oneTime),
+      gross: Math.round(gross),
+      pf: Math.round(pay.pf),
+      professionalTax,
+      labourWelfareFund,
+      projectedTax,
+      tds,
+      netPay: Math.round(gross - pay.pf - professionalTax - labourWelfareFund - tds),
+    })
+  })
+
+  const annualTax = taxOn(paidGross, paidPf)
+  const totalTds = months.reduce((sum, month) => sum + month.tds, 0)
+
+  return {
+    months,
+    totalGross: months.reduce((sum, month) => sum + month.gross, 0),
+    totalPf: months.reduce((sum, month) => sum + month.pf, 0),
+    totalTds,
+    totalNet: months.reduce((sum, month) => sum + month.netPay, 0),
+    taxableIncome: Math.round(Math.max(0, paidGross - paidPf - standardDeduction)),
+    annualTax,
+    balanceTax: annualTax - totalTds - params.previousEmployerTds,
+  }
+}
@@ -1,4 +1,4 @@
-import { SIPInput, SIPResult, YearlyBreakdown } from '@/types'
+import { SIPInput, SIPResult, SIPSummary, SIPYearlyBreakdown, StepUpSIPResult, YearlyBreakdown } from '@/types'
 import { formatCurrency } from '@/lib/utils/formatters'
 
 /**
@@ -13,34 +13,15 @@ import { formatCurrency } from '@/lib/utils/formatters'
 export function calculateSIP(input: SIPInput): SIPResult {
   const { monthlyAmount, rate, tenure, stepUp = 0 } = input
 
-  const tenureMonths = tenure * 12
-  const monthlyRate = rate / 12 / 100
-
-  let maturityValue: number
-  let totalInvested: number
-  let breakdown: YearlyBreakdown[]
-
-  if (stepUp > 0) {
-    // Calculate with step-up
-    const result = calculateSIPWithStepUp(monthlyAmount, rate, tenure, stepUp)
-    maturityValue = result.maturityValue
-    totalInvested = result.totalInvested
-    breakdown = result.breakdown
-  } else {
-    // Standard SIP calculation
-    if (rate === 0) {
-      maturityValue = monthlyAmount * tenureMonths
-    } else {
-      const compoundFactor = Math.pow(1 + monthlyRate, tenureMonths)
-      maturityValue =
-        monthlyAmount * ((compoundFactor - 1) / monthlyRate) * (1 + monthlyRate)
-    }
-
-    totalInvested = monthlyAmount * tenureMonths
-    breakdown = generateYearlyBreakdown(monthlyAmount, rate, tenure)
-  }
+  const summary = calculateSIPSummary(monthlyAmount, rate, tenure)
+  const stepUpResult = stepUp > 0 ? calculateStepUpSIP(monthlyAmount, rate, tenure, stepUp, summary) : null
 
+  const maturityValue = stepUpResult ? stepUpResult.maturityValue : summary.maturityValue
+  const totalInvested = stepUpResult ? stepUpResult.totalInvestment : summary.totalInvestment
   const totalReturns = maturityValue - totalInvested
+  const breakdown: YearlyBreakdown[] = (
+    stepUpResult ? stepUpResult.yearlyBreakdown : generateSIPBreakdown(monthlyAmount, rate, tenure)
+  ).map((y) => ({ year: y.year, invested: y.invested, returns: y.returns, total: y.value }))
 
   // Chart data
   const chartData = [
@@ -49,24 +30,24 @@ export function calculateSIP(input: SIPInput): SIPResult {
   ]
 
   return {
-    maturityValue: Math.round(maturityValue),
-    totalInvested: Math.round(totalInvested),
-    totalReturns: Math.round(totalReturns),
+    maturityValue,
+    totalInvested,
+    totalReturns,
     primary: {
       label: 'Maturity Value',
-      value: Math.round(maturityValue),
-      formatted: formatCurrency(Math.round(maturityValue)),
+      value: maturityValue,
+      formatted: formatCurrency(maturityValue),
     },
     secondary: [
       {
         label: 'Total Invested',
-        value: Math.round(totalInvested),
-        formatted: formatCurrency(Math.round(totalInvested)),
+        value: totalInvested,
+        formatted: formatCurrency(totalInvested),
       },
       {
         label: 'Total Returns',
-        value: Math.round(totalReturns),
-        formatted: formatCurrency(Math.round(totalReturns)),
+        value: totalReturns,
+        formatted: formatCurrency(totalReturns),
       },
       {
         label: 'Wealth Gain',
@@ -80,80 +61,70 @@ export function calculateSIP(input: SIPInput): SIPResult {
 }
 
 /**
- * Calculate SIP with annual step-up
+ * Future value of a monthly SIP (investments at the start of each month)
  */
-function calculateSIPWithStepUp(
-  initialAmount: number,
+export function calculateSIPFutureValue(
+  monthlyInvestment: number,
   annualRate: number,
-  years: number,
-  stepUpPercent: number
-): { maturityValue: number; totalInvested: number; breakdown: YearlyBreakdown[] } {
+  months: number
+): number {
   const monthlyRate = annualRate / 12 / 100
-  let totalValue = 0
-  let totalInvested = 0
-  let currentMonthlyAmount = initialAmount
-  const breakdown: YearlyBreakdown[] = []
 
-  for (let year = 1; year <= years; year++) {
-    // Calculate value for this year's contributions
-    const monthsRemaining = (years - year + 1) * 12
+  if (monthlyRate === 0) return monthlyInvestment * months
 
-    for (let month = 1; month <= 12; month++) {
-      const monthsToMaturity = monthsRemaining - month + 1
-      const futureValue =
-        currentMonthlyAmount * Math.pow(1 + monthlyRate, monthsToMaturity)
-      totalValue += futureValue
-      totalInvested += currentMonthlyAmount
-    }
+  return monthlyInvestment * ((Math.pow(1 + monthlyRate, months) - 1) / monthlyRate) * (1 + monthlyRate)
+}
 
-    breakdown.push({
-      year,
-      invested: Math.round(totalInvested),
-      returns: Math.round(totalValue - totalInvested),
-      total: Math.round(totalValue),
-    })
+/**
+ * Calculate SIP summary (invested, returns, maturity)
+ */
+export function calculateSIPSummary(monthlyInvestment: number, annualRate: number, years: number): SIPSummary {
+  const months = years * 12
+  const totalInvestment = monthlyInvestment * months
 
-    // Increase SIP amount for next year
-    currentMonthlyAmount *= 1 + stepUpPercent / 100
+  if (annualRate === 0) {
+    return {
+      monthlyInvestment,
+      totalInvestment,
+      expectedReturns: 0,
+      maturityValue: totalInvestment,
+      returnsPercent: 0,
+    }
   }
 
+  const maturityValue = calculateSIPFutureValue(monthlyInvestment, annualRate, months)
+  const expectedReturns = maturityValue - totalInvestment
+  const returnsPercent = totalInvestment > 0 ? (expectedReturns / totalInvestment) * 100 : 0
+
   return {
-    maturityValue: totalValue,
-    totalInvested,
-    breakdown,
+    monthlyInvestment,
+    totalInvestment: Math.round(totalInvestment),
+    expectedReturns: Math.round(expectedReturns),
+    maturityValue: Math.round(maturityValue),
+    returnsPercent: Math.round(returnsPercent),
   }
 }
 
 /**
- * Generate yearly breakdown for standard SIP
+ * Generate year-by-year SIP growth
  */
-function generateYearlyBreakdown(
-  monthlyAmount: number,
+export function generateSIPBreakdown(
+  monthlyInvestment: number,
   annualRate: number,
   years: number
-): YearlyBreakdown[] {
-  const monthlyRate = annualRate / 12 / 100
-  const breakdown: YearlyBreakdown[] = []
+): SIPYearlyBreakdown[] {
+  const breakdown: SIPYearlyBreakdown[] = []
 
   for (let year = 1; year <= years; year++) {
     const months = year * 12
-    let total: number
-
-    if (annualRate === 0) {
-      total = monthlyAmount * months
-    } else {
-      const compoundFactor = Math.pow(1 + monthlyRate, months)
-      total = monthlyAmount * ((compoundFactor - 1) / monthlyRate) * (1 + monthlyRate)
-    }
-
-    const invested = monthlyAmount * months
-    const returns = total - invested
+    const invested = monthlyInvestment * months
+    const value = calculateSIPFutureValue(monthlyInvestment, annualRate, months)
 
     breakdown.push({
       year,
       invested: Math.round(invested),
-      returns: Math.round(returns),
-      total: Math.round(total),
+      returns: Math.round(value - invested),
+      value: Math.round(value),
     })
   }
 
@@ -161,22 +132,67 @@ function generateYearlyBreakdown(
 }
 
 /**
- * Calculate required SIP for target amount
+ * Calculate required monthly SIP for a target corpus
+ *
+ * Formula: P = M / ((((1 + i)^n - 1) / i) × (1 + i))
  */
 export function calculateRequiredSIP(
   targetAmount: number,
   annualRate: number,
   years: number
 ): number {
-  const monthlyRate = annualRate / 12 / 100
   const months = years * 12
+  return Math.round(targetAmount / calculateSIPFutureValue(1, annualRate, months))
+}
 
-  if (annualRate === 0) {
-    return Math.ceil(targetAmount / months)
+/**
+ * Calculate SIP with an annual step-up in the monthly investment
+ */
+export function calculateStepUpSIP(
+  monthlyInvestment: number,
+  annualRate: number,
+  years: number,
+  stepUpPercent: number,
+  baseResult: SIPSummary
+): StepUpSIPResult {
+  const monthlyRate = annualRate / 12 / 100
+  const yearlyBreakdown: SIPYearlyBreakdown[] = []
+
+  let totalInvestment = 0
+  let currentValue = 0
+  let currentMonthlyInvestment = monthlyInvestment
+
+  for (let year = 1; year <= years; year++) {
+    // Invest for 12 months at current rate
+    for (let month = 1; month <= 12; month++) {
+      totalInvestment += currentMonthlyInvestment
+      // Grow existing value
+      currentValue = (currentValue + currentMonthlyInvestment) * (1 + monthlyRate)
+    }
+
+    yearlyBreakdown.push({
+      year,
+      invested: Math.round(totalInvestment),
+      returns: Math.round(currentValue - totalInvestment),
+      value: Math.round(currentValue),
+    })
+
+    // Step up for next year
+    if (year < years) {
+      currentMonthlyInvestment = currentMonthlyInvestment * (1 + stepUpPercent / 100)
+    }
   }
 
-  const compoundFactor = Math.pow(1 + monthlyRate, months)
-  const monthlySip = targetAmount / (((compoundFactor - 1) / monthlyRate) * (1 + monthlyRate))
+  const expectedReturns = currentValue - totalInvestment
+  const returnsPercent = totalInvestment > 0 ? (expectedReturns / totalInvestment) * 100 : 0
+  const extraReturns = currentValue - baseResult.maturityValue
 
-  return Math.ceil(monthlySip)
+  return {
+    totalInvestment: Math.round(totalInvestment),
+    maturityValue: Math.round(currentValue),
+    expectedReturns: Math.round(expectedReturns),
+    returnsPercent: Math.round(returnsPercent),
+    extraReturns: Math.round(extraReturns),
+    yearlyBreakdown,
+  }
 }
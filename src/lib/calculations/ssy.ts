@@ -0,0 +1,62 @@
+import { SSYParams, SSYResult, SSYYearlyBreakdown } from '@/types'
+
+export const SSY_MIN_DEPOSIT = 250
+export const SSY_MAX_DEPOSIT = 150000
+export const SSY_MAX_OPENING_AGE = 10
+export const SSY_DEPOSIT_YEARS = 15 // deposits are due for 15 years from opening
+export const SSY_MATURITY_YEARS = 21 // the account matures 21 years from opening
+export const SSY_WITHDRAWAL_AGE = 18
+export const SSY_MAX_WITHDRAWAL_PERCENT = 50 // of the balance at the end of the preceding year
+
+/**
+ * Project a Sukanya Samriddhi account from opening to maturity. Deposits are made at the
+ * start of each of the first 15 years and interest compounds yearly; the optional partial
+ * withdrawal is taken from the balance at the end of the year the girl turns 18.
+ */
+export function calculateSSY(params: SSYParams): SSYResult {
+  const { openingAge, interestRate } = params
+  const yearlyDeposit = Math.min(SSY_MAX_DEPOSIT, Math.max(SSY_MIN_DEPOSIT, params.yearlyDeposit))
+  const withdrawalPercent = Math.min(SSY_MAX_WITHDRAWAL_PERCENT, Math.max(0, params.withdrawalPercent))
+  const withdrawalYear = SSY_WITHDRAWAL_AGE - openingAge
+  const rate = interestRate / 100
+
+  const breakdown: SSYYearlyBreakdown[] = []
+  let balance = 0
+  let totalDeposit = 0
+  let totalInterest = 0
+  let withdrawal = 0
+
+  for (let year = 1; year <= SSY_MATURITY_YEARS; year++) {
+    const deposit = year <= SSY_DEPOSIT_YEARS ? yearlyDeposit : 0
+    const interest = (balance + deposit) * rate
+    balance += deposit + interest
+    totalDeposit += deposit
+    totalInterest += interest
+
+    let yearWithdrawal = 0
+    if (year === withdrawalYear && withdrawalPercent > 0) {
+      yearWithdrawal = Math.round(balance * (withdrawalPercent / 100))
+      balance -= yearWithdrawal
+      withdrawal = yearWithdrawal
+    }
+
+    breakdown.push({
+      year,
+      age: openingAge + year,
+      deposit,
+      interest: Math.round(interest),
+      withdrawal: yearWithdrawal,
+      balance: Math.round(balance),
+    })
+  }
+
+  return {
+    totalDeposit,
+    totalInterest: Math.round(totalInterest),
+    withdrawal,
+    withdrawalAge: SSY_WITHDRAWAL_AGE,
+    maturityValue: Math.round(balance),
+    maturityAge: openingAge + SSY_MATURITY_YEARS,
+    breakdown,
+  }
+}
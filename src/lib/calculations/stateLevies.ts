@@ -0,0 +1,149 @@
+import { Gender, IndianState, ProfessionalTaxSlab, StateLeviesResult, StateLevyRules } from '@/types'
+
+// Professional tax and labour welfare fund by state, as notified for FY 2025-26.
+// States without professional tax (Delhi, Uttar Pradesh) are listed for their LWF or as nil.
+export const STATE_LEVY_RULES: Record<IndianState, StateLevyRules> = {
+  maharashtra: {
+    name: 'Maharashtra',
+    professionalTax: {
+      frequency: 'monthly',
+      slabs: [
+        { upTo: 7500, amount: 0 },
+        { upTo: 10000, amount: 175 },
+        { upTo: Infinity, amount: 200, february: 300 },
+      ],
+      femaleSlabs: [
+        { upTo: 25000, amount: 0 },
+        { upTo: Infinity, amount: 200, february: 300 },
+      ],
+    },
+    labourWelfareFund: { employee: 25, employer: 75, months: [2, 8] },
+  },
+  karnataka: {
+    name: 'Karnataka',
+    professionalTax: {
+      frequency: 'monthly',
+      slabs: [
+        { upTo: 24999, amount: 0 },
+        { upTo: Infinity, amount: 200, february: 300 },
+      ],
+    },
+    labourWelfareFund: { employee: 50, employer: 100, months: [9] },
+  },
+  'west-bengal': {
+    name: 'West Bengal',
+    professionalTax: {
+      frequency: 'monthly',
+      slabs: [
+        { upTo: 10000, amount: 0 },
+        { upTo: 15000, amount: 110 },
+        { upTo: 25000, amount: 130 },
+        { upTo: 40000, amount: 150 },
+        { upTo: Infinity, amount: 200 },
+      ],
+    },
+    labourWelfareFund: { employee: 3, employer: 15, months: [2, 8] },
+  },
+  'tamil-nadu': {
+    name: 'Tamil Nadu',
+    professionalTax: {
+      frequency: 'half-yearly',
+      slabs: [
+        { upTo: 21000, amount: 0 },
+        { upTo: 30000, amount: 180 },
+        { upTo: 45000, amount: 425 },
+        { upTo: 60000, amount: 930 },
+        { upTo: 75000, amount: 1025 },
+        { upTo: Infinity, amount: 1250 },
+      ],
+    },
+    labourWelfareFund: { employee: 20, employer: 40, months: [9] },
+  },
+  telangana: {
+    name: 'Telangana',
+    professionalTax: {
+      frequency: 'monthly',
+      slabs: [
+        { upTo: 15000, amount: 0 },
+        { upTo: 20000, amount: 150 },
+        { upTo: Infinity, amount: 200 },
+      ],
+    },
+    labourWelfareFund: { employee: 2, employer: 5, months: [9] },
+  },
+  'andhra-pradesh': {
+    name: 'Andhra Pradesh',
+    professionalTax: {
+      frequency: 'monthly',
+      slabs: [
+        { upTo: 15000, amount: 0 },
+        { upTo: 20000, amount: 150 },
+        { upTo: Infinity, amount: 200 },
+      ],
+    },
+    labourWelfareFund: { employee: 30, employer: 70, months: [9] },
+  },
+  gujarat: {
+    name: 'Gujarat',
+    professionalTax: {
+      frequency: 'monthly',
+      slabs: [
+        { upTo: 11999, amount: 0 },
+        { upTo: Infinity, amount: 200 },
+      ],
+    },
+    labourWelfareFund: { employee: 6, employer: 12, months: [2, 8] },
+  },
+  delhi: {
+    name: 'Delhi',
+    professionalTax: null,
+    labourWelfareFund: { employee: 0.75, employer: 2.25, months: [2, 8] },
+  },
+  'uttar-pradesh': {
+    name: 'Uttar Pradesh',
+    professionalTax: null,
+    labourWelfareFund: null,
+  },
+}
+
+export const INDIAN_STATES = Object.keys(STATE_LEVY_RULES) as IndianState[]
+
+const FEBRUARY = 10 // month index counting from April
+const HALF_YEAR_ENDS = [5, 11] // September and March
+
+function slabFor(slabs: ProfessionalTaxSlab[], gross: number): ProfessionalTaxSlab {
+  return slabs.find((slab) => gross <= slab.upTo) ?? slabs[slabs.length - 1]
+}
+
+/**
+ * Professional tax and labour welfare fund deductions for each month of the year (April to March)
+ * on a steady monthly gross. Women get Maharashtra's higher professional tax threshold.
+ */
+export function calculateStateLevies(state: IndianState, monthlyGross: number, gender: Gender): StateLeviesResult {
+  const { professionalTax, labourWelfareFund } = STATE_LEVY_RULES[state]
+
+  let professionalTaxByMonth = Array<number>(12).fill(0)
+  if (professionalTax) {
+    const slabs = gender === 'female' && professionalTax.femaleSlabs ? professionalTax.femaleSlabs : professionalTax.slabs
+    if (professionalTax.frequency === 'half-yearly') {
+      const slab = slabFor(slabs, monthlyGross * 6)
+      professionalTaxByMonth = professionalTaxByMonth.map((_, m) => (HALF_YEAR_ENDS.includes(m) ? slab.amount : 0))
+    } else {
+      const slab = slabFor(slabs, monthlyGross)
+      professionalTaxByMonth = professionalTaxByMonth.map((_, m) => (m === FEBRUARY ? slab.february ?? slab.amount : slab.amount))
+    }
+  }
+
+  const labourWelfareFundByMonth = Array.from({ length: 12 }, (_, m) =>
+    labourWelfareFund && labourWelfareFund.months.includes(m) ? labourWelfareFund.employee : 0
+  )
+
+  return {
+    professionalTaxByMonth,
+    annualProfessionalTax: professionalTaxByMonth.reduce((sum, amount) => sum + amount, 0),
+    labourWelfareFundByMonth,
+    annualLabourWelfareFund: labourWelfareFundByMonth.reduce((sum, amount) => sum + amount, 0),
+    employerLabourWelfareFund: labourWelfareFund ? labourWelfareFund.employer * labourWelfareFund.months.length : 0,
+    genderSpecific: !!professionalTax?.femaleSlabs,
+  }
+}
@@ -0,0 +1,65 @@
+import { STPMonth, STPParams, STPResult } from '@/types'
+import { calculateFutureValue } from './lumpsum'
+
+// Monthly rate equivalent to an annual return, so 12 months compound to exactly the annual rate
+function monthlyRateFor(annualRate: number): number {
+  return Math.pow(1 + annualRate / 100, 1 / 12) - 1
+}
+
+/**
+ * Simulate a systematic transfer plan. The lump sum starts in the source fund; at the start of
+ * each month a fixed amount moves to the target fund (the last transfer sweeps whatever is
+ * left), and both funds then grow for the month at their own rates. Compared against putting
+ * the whole amount in the target fund on day one, valued with the Lumpsum formula.
+ *
+ * Rates compound to their annual values over 12 months, so with equal rates both approaches
+ * end level.
+ */
+export function calculateSTP(params: STPParams): STPResult {
+  const { amount, sourceReturn, targetReturn, years } = params
+  const sourceRate = monthlyRateFor(sourceReturn)
+  const targetRate = monthlyRateFor(targetReturn)
+  const monthlyTransfer = Math.max(1, params.monthlyTransfer)
+  const totalMonths = Math.round(years * 12)
+
+  const months: STPMonth[] = []
+  let source = amount
+  let target = 0
+  let totalTransferred = 0
+  let sourceEarnings = 0
+  let transferMonths = 0
+
+  for (let month = 1; month <= totalMonths; month++) {
+    const transfer = source - monthlyTransfer < 1 ? source : monthlyTransfer
+    if (transfer > 0) transferMonths = month
+    source -= transfer
+    target += transfer
+    totalTransferred += transfer
+
+    const earned = source * sourceRate
+    source += earned
+    sourceEarnings += earned
+    target *= 1 + targetRate
+
+    months.push({
+      month,
+      transfer: Math.round(transfer),
+      sourceBalance: Math.round(source),
+      targetBalance: Math.round(target),
+      lumpsumValue: Math.round(amount * Math.pow(1 + targetRate, month)),
+    })
+  }
+
+  const finalValue = source + target
+  const lumpsumValue = calculateFutureValue(amount, targetReturn, years)
+
+  return {
+    months,
+    transferMonths,
+    totalTransferred: Math.round(totalTransferred),
+    sourceEarnings: Math.round(sourceEarnings),
+    finalValue: Math.round(finalValue),
+    lumpsumValue: Math.round(lumpsumValue),
+    difference: Math.round(finalValue - lumpsumValue),
+  }
+}
@@ -0,0 +1,129 @@
+import { SWPMonth, SWPParams, SWPResult, SWPTaxYear } from '@/types'
+import { addMonthsToDate } from './emi'
+import { getTaxRulesForDate } from './realEstate'
+
+// Equity gains are long term once units are held for more than 12 months (Section 112A)
+export const SWP_LONG_TERM_MONTHS = 12
+
+/**
+ * Financial year a 'YYYY-MM' month falls in, e.g. '2025-04' is in '2025-26'
+ */
+function financialYearOf(date: string): string {
+  const [year, month] = date.split('-').map(Number)
+  const startYear = month >= 4 ? year : year - 1
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`
+}
+
+/**
+ * Tax on a financial year's equity gains: short-term gains at the 111A rate, long-term gains
+ * above the 112A exemption at the 112A rate, plus cess. A short-term loss is set off against
+ * long-term gains before the exemption; a long-term loss cannot reduce short-term gains, and
+ * losses are not carried forward. Uses the rules for that year (the latest year's rules for
+ * future years); surcharge and the 87A rebate are not applied.
+ */
+function calculateEquityGainsTax(taxYear: SWPTaxYear): SWPTaxYear {
+  const startYear = Number(taxYear.fy.slice(0, 4))
+  const rules = getTaxRulesForDate(new Date(startYear, 3, 1))
+  const cg = rules.capitalGains
+  const shortTermGain = Math.max(0, taxYear.shortTermGain)
+  const longTermGain = Math.max(0, taxYear.longTermGain + Math.min(0, taxYear.shortTermGain))
+  const exemption = Math.min(longTermGain, cg.ltcg112aExemption)
+  const tax =
+    (shortTermGain * (cg.stcg111aRate / 100) + (longTermGain - exemption) * (cg.ltcg112aRate / 100)) *
+    (1 + rules.cessRate / 100)
+
+  return {
+    ...taxYear,
+    withdrawn: Math.round(taxYear.withdrawn),
+    shortTermGain: Math.round(taxYear.shortTermGain),
+    longTermGain: Math.round(taxYear.longTermGain),
+    exemption: Math.round(exemption),
+    tax: Math.round(tax),
+  }
+}
+
+/**
+ * Simulate a systematic withdrawal plan month by month. The corpus earns expectedReturn / 12
+ * each month and the withdrawal is taken at the end of the month; it steps up every 12 months
+ * by withdrawalIncrease. When the balance can no longer cover a withdrawal, what is left is
+ * paid out and the plan stops.
+ *
+ * With tax params, the corpus is tracked as fund units (NAV 1 at the start) bought as a single
+ * lot, with one cost and one purchase date. Each withdrawal redeems units at the month's NAV;
+ * the gain is short or long term by how long that lot has been held, taxed per financial year.
+ */
+export function calculateSWP(params: SWPParams): SWPResult {
+  const { corpus, expectedReturn, withdrawalIncrease, years, startMonth, tax } = params
+  const monthlyRate = expectedReturn / 12 / 100
+  const totalMonths = Math.round(years * 12)
+
+  const costPerUnit = tax && corpus > 0 ? tax.costBasis / corpus : 0
+  const taxYears = new Map<string, SWPTaxYear>()
+
+  const months: SWPMonth[] = []
+  let balance = corpus
+  let nav = 1
+  let withdrawal = params.monthlyWithdrawal
+  let totalWithdrawn = 0
+  let totalReturns = 0
+  let depletionMonth: number | null = null
+
+  for (let month = 1; month <= totalMonths && balance > 0; month++) {
+    if (month > 1 && (month - 1) % 12 === 0) withdrawal *= 1 + withdrawalIncrease / 100
+
+    const date = addMonthsToDate(startMonth, month - 1)
+    const openingBalance = balance
+    const returns = balance * monthlyRate
+    balance += returns
+    nav *= 1 + monthlyRate
+
+    const paid = Math.min(balance, withdrawal)
+    balance -= paid
+    if (paid < withdrawal || balance < 0.5) {
+      balance = 0
+      depletionMonth = month
+    }
+
+    // Gain on the units redeemed, long term once the lot has been held over 12 months
+    let shortTermGain = 0
+    let longTermGain = 0
+    if (tax) {
+      const gain = (paid / nav) * (nav - costPerUnit)
+      if (tax.monthsHeld + month > SWP_LONG_TERM_MONTHS) longTermGain = gain
+      else shortTermGain = gain
+
+      const fy = financialYearOf(date)
+      const taxYear = taxYears.get(fy) ?? { fy, withdrawn: 0, shortTermGain: 0, longTermGain: 0, exemption: 0, tax: 0 }
+      taxYear.withdrawn += paid
+      taxYear.shortTermGain += shortTermGain
+      taxYear.longTermGain += longTermGain
+      taxYears.set(fy, taxYear)
+    }
+
+    totalWithdrawn += paid
+    totalReturns += returns
+    months.push({
+      month,
+      date,
+      openingBalance: Math.round(openingBalance),
+      returns: Math.round(returns),
+      withdrawal: Math.round(paid),
+      closingBalance: Math.round(balance),
+      shortTermGain: Math.round(shortTermGain),
+      longTermGain: Math.round(longTermGain),
+    })
+  }
+
+  const taxedYears = Array.from(taxYears.values()).map(calculateEquityGainsTax)
+
+  return {
+    months,
+    totalWithdrawn: Math.round(totalWithdrawn),
+    totalReturns: Math.round(totalReturns),
+    finalBalance: Math.round(balance),
+    depletionMonth,
+    depletionDate: depletionMonth === null ? null : addMonthsToDate(startMonth, depletionMonth - 1),
+    taxYears: taxedYears,
+    totalTax: taxedYears.reduce((sum, year) => sum + year.tax, 0),
+  }
+}
@@ -0,0 +1,363 @@
+import {
+  TaxSlab,
+  TaxResult,
+  TaxRegime,
+  FinancialYear,
+  RegimeTaxBreakdown,
+  MarginalBracket,
+  SurchargeBand,
+  TaxDeductions,
+  DeductionLine,
+  CapitalGainsIncome,
+  CapitalGainsTaxLine,
+  BusinessIncomeInput,
+  BusinessIncomeResult,
+} from '@/types'
+import {
+  getTaxRules,
+  SECTION_80C_CAP,
+  SECTION_80CCD1B_CAP,
+  SECTION_80D_CAP,
+  SECTION_80D_SENIOR_CAP,
+  SECTION_80TTA_CAP,
+  SECTION_80TTB_CAP,
+  SECTION_24B_CAP,
+  SECTION_80EEB_CAP,
+} from './taxRules'
+
+/**
+ * Calculate income tax on taxable income using progressive slabs (before rebate and cess)
+ */
+export function calculateTaxBySlabs(income: number, slabs: TaxSlab[]): number {
+  let tax = 0
+  for (const slab of slabs) {
+    if (income > slab.min) {
+      const taxableInSlab = Math.min(income, slab.max) - slab.min
+      tax += taxableInSlab * (slab.rate / 100)
+    }
+  }
+  return tax
+}
+
+/**
+ * Find the surcharge band for an income: the rate, and the threshold where it starts
+ */
+function getSurchargeBand(income: number, bands: SurchargeBand[]): { rate: number; threshold: number; previousRate: number } {
+  let rate = 0
+  let threshold = 0
+  let previousRate = 0
+  for (const band of bands) {
+    if (income > band.minIncome) {
+      previousRate = rate
+      rate = band.rate
+      threshold = band.minIncome
+    }
+  }
+  return { rate, threshold, previousRate }
+}
+
+// No capital gains, for salary-only calculations
+export const NO_CAPITAL_GAINS: CapitalGainsIncome = {
+  stcg111A: 0,
+  ltcg112A: 0,
+  debtFundGains: 0,
+  propertyLtcg: 0,
+  propertyIndexed: false,
+}
+
+/**
+ * Tax special-rate capital gains. Any basic exemption limit left unused by slab income
+ * is set off against the gains, highest rate first.
+ */
+export function calculateCapitalGainsTax(
+  slabIncome: number,
+  gains: CapitalGainsIncome,
+  regime: TaxRegime,
+  fy: FinancialYear
+): CapitalGainsTaxLine[] {
+  const rules = getTaxRules(fy)
+  const cg = rules.capitalGains
+  const firstSlab = rules[regime].slabs[0]
+  let unusedExemption = Math.max(0, (firstSlab.rate === 0 ? firstSlab.max : 0) - slabIncome)
+
+  const heads = [
+    { section: '111A', label: 'STCG on Equity', gain: gains.stcg111A, exemption: 0, rate: cg.stcg111aRate },
+    {
+      section: '112A',
+      label: 'LTCG on Equity',
+      gain: gains.ltcg112A,
+      exemption: Math.min(Math.max(0, gains.ltcg112A), cg.ltcg112aExemption),
+      rate: cg.ltcg112aRate,
+    },
+    {
+      section: '112',
+      label: gains.propertyIndexed ? 'LTCG on Property (indexed)' : 'LTCG on Property',
+      gain: gains.propertyLtcg,
+      exemption: 0,
+      rate: gains.propertyIndexed ? cg.propertyIndexedRate : cg.propertyRate,
+    },
+  ]
+
+  const adjusted = new Map<string, number>()
+  for (const head of [...heads].sort((a, b) => b.rate - a.rate)) {
+    const used = Math.min(unusedExemption, Math.max(0, head.gain - head.exemption))
+    unusedExemption -= used
+    adjusted.set(head.section, used)
+  }
+
+  return heads
+    .filter((head) => head.gain > 0)
+    .map((head) => {
+      const basicExemptionUsed = adjusted.get(head.section) || 0
+      const taxableGain = Math.max(0, head.gain - head.exemption - basicExemptionUsed)
+      return {
+        ...head,
+        basicExemptionUsed,
+        taxableGain,
+        tax: Math.round(taxableGain * (head.rate / 100)),
+      }
+    })
+}
+
+/**
+ * Calculate income tax for one regime of a financial year: slab tax, special-rate capital gains tax,
+ * Section 87A rebate with marginal relief, surcharge with marginal relief, and cess.
+ * Debt fund gains are added to slab income; the other gains are taxed at their special rates.
+ */
+export function calculateRegimeTax(
+  taxableIncome: number,
+  regime: TaxRegime,
+  fy: FinancialYear,
+  gains: CapitalGainsIncome = NO_CAPITAL_GAINS
+): RegimeTaxBreakdown {
+  const rules = getTaxRules(fy)
+  const { slabs, rebate: rebateRules, surcharge: surchargeBands } = rules[regime]
+
+  const slabIncome = taxableIncome + Math.max(0, gains.debtFundGains)
+  const slabTax = calculateTaxBySlabs(slabIncome, slabs)
+  const capitalGains = calculateCapitalGainsTax(slabIncome, gains, regime, fy)
+  const capitalGainsTax = capitalGains.reduce((sum, line) => sum + line.tax, 0)
+  const totalIncome = slabIncome + capitalGains.reduce((sum, line) => sum + line.gain, 0)
+
+  // Section 87A: full rebate up to the limit; just above it, tax cannot exceed the income over the limit.
+  // The rebate never offsets 112A tax, and only offsets 111A tax where the year's rules allow it.
+  const stcgTax = capitalGains.find((line) => line.section === '111A')?.tax || 0
+  const rebatable = slabTax + (rebateRules.coversStcg111A ? stcgTax : 0)
+  const rebate = totalIncome <= rebateRules.maxIncome ? Math.min(rebatable, rebateRules.maxRebate) : 0
+  const rebateMarginalRelief = rebateRules.marginalRelief && totalIncome > rebateRules.maxIncome
+    ? Math.min(rebatable, Math.max(0, slabTax + capitalGainsTax - (totalIncome - rebateRules.maxIncome)))
+    : 0
+  const taxAfterRebate = slabTax + capitalGainsTax - rebate - rebateMarginalRelief
+
+  // Surcharge on capital gains tax is capped; the rebate is taken against slab tax first
+  const { rate: surchargeRate, threshold, previousRate } = getSurchargeBand(totalIncome, surchargeBands)
+  const cgSurchargeRate = (rate: number) => Math.min(rate, rules.capitalGains.surchargeCap)
+  const slabTaxAfterRebate = Math.max(0, slabTax - rebate - rebateMarginalRelief)
+  const cgTaxAfterRebate = taxAfterRebate - slabTaxAfterRebate
+  const surcharge = slabTaxAfterRebate * (surchargeRate / 100) + cgTaxAfterRebate * (cgSurchargeRate(surchargeRate) / 100)
+
+  // Surcharge marginal relief: just above a threshold, the extra tax and surcharge cannot exceed
+  // the income over the threshold (tax at the threshold is taken by trimming slab income)
+  let surchargeMarginalRelief = 0
+  if (surchargeRate > 0) {
+    const slabTaxAtThreshold = calculateTaxBySlabs(Math.max(0, slabIncome - (totalIncome - threshold)), slabs)
+    const taxAtThreshold = slabTaxAtThreshold * (1 + previousRate / 100) +
+      capitalGainsTax * (1 + cgSurchargeRate(previousRate) / 100)
+    const excess = taxAfterRebate + surcharge - (taxAtThreshold + (totalIncome - threshold))
+    surchargeMarginalRelief = Math.min(surcharge, Math.max(0, excess))
+  }
+
+  const taxBeforeCess = taxAfterRebate + surcharge - surchargeMarginalRelief
+  const cess = taxBeforeCess * (rules.cessRate / 100)
+
+  return {
+    capitalGains,
+    capitalGainsTax: Math.round(capitalGainsTax),
+    slabTax: Math.round(slabTax),
+    rebate: Math.round(rebate),
+    rebateMarginalRelief: Math.round(rebateMarginalRelief),
+    taxAfterRebate: Math.round(taxAfterRebate),
+    surchargeRate,
+    surcharge: Math.round(surcharge),
+    surchargeMarginalRelief: Math.round(surchargeMarginalRelief),
+    taxBeforeCess: Math.round(taxBeforeCess),
+    cess: Math.round(cess),
+    totalTax: Math.round(taxBeforeCess + cess),
+  }
+}
+
+/**
+ * Find the slab rate on the next rupee of income, the rate after it, and the room left in the current slab
+ */
+export function getMarginalBracket(taxableIncome: number, slabs: TaxSlab[]): MarginalBracket {
+  const last = slabs.length - 1
+  const found = slabs.findIndex((slab) => taxableIncome < slab.max)
+  const index = found === -1 ? last : found
+  const current = slabs[index]
+  const next = slabs[Math.min(index + 1, last)]
+
+  return {
+    marginalRate: current.rate,
+    nextBracketRate: next.rate,
+    roomInBracket: current.max === Infinity ? Infinity : current.max - taxableIncome,
+  }
+}
+
+// Blank deductions, for callers that only set a few
+export const NO_TAX_DEDUCTIONS: TaxDeductions = {
+  section80C: 0,
+  section80CCD1B: 0,
+  employerNps: 0,
+  basicSalary: 0,
+  section80DSelf: 0,
+  section80DParents: 0,
+  selfSenior: false,
+  parentsSenior: false,
+  section80E: 0,
+  donations100: 0,
+  donations50: 0,
+  savingsInterest: 0,
+  depositInterest: 0,
+  homeLoanInterest: 0,
+  section80EEB: 0,
+  hra: 0,
+  lta: 0,
+}
+
+/**
+ * Apply each deduction's statutory cap and eligibility for both regimes.
+ * The new regime only allows its standard deduction and the employer's NPS contribution (80CCD(2)).
+ * 80G donations are taken as fully eligible (no qualifying limit on adjusted gross income).
+ * The standard deduction, HRA, LTA and employer NPS are limited to the salary, so they drop out for
+ * business-only income.
+ * 80TTA/80TTB never exceed the interest itself, which calculateTax adds to income.
+ */
+export function calculateDeductions(
+  deductions: TaxDeductions,
+  fy: FinancialYear,
+  salary: number = Infinity
+): DeductionLine[] {
+  const rules = getTaxRules(fy)
+  const d = deductions
+  const cap80DSelf = d.selfSenior ? SECTION_80D_SENIOR_CAP : SECTION_80D_CAP
+  const cap80DParents = d.parentsSenior ? SECTION_80D_SENIOR_CAP : SECTION_80D_CAP
+  const employerNpsCap = (regime: TaxRegime) => Math.min(d.basicSalary * (rules[regime].employerNpsLimit / 100), salary)
+
+  const oldOnly = (section: string, label: string, claimed: number, allowed: number): DeductionLine => ({
+    section,
+    label,
+    claimed,
+    allowedOld: Math.max(0, Math.round(allowed)),
+    allowedNew: 0,
+  })
+
+  return [
+    {
+      section: '16(ia)',
+      label: 'Standard Deduction',
+      claimed: Math.min(rules.old.standardDeduction, salary),
+      allowedOld: Math.min(rules.old.standardDeduction, salary),
+      allowedNew: Math.min(rules.new.standardDeduction, salary),
+    },
+    oldOnly('10(13A)', 'HRA Exemption', d.hra, Math.min(d.hra, salary)),
+    oldOnly('10(5)', 'Leave Travel Allowance', d.lta, Math.min(d.lta, salary)),
+    oldOnly('80C', 'PF, PPF, ELSS, Insurance', d.section80C, Math.min(d.section80C, SECTION_80C_CAP)),
+    oldOnly('80CCD(1B)', 'NPS (Own Contribution)', d.section80CCD1B, Math.min(d.section80CCD1B, SECTION_80CCD1B_CAP)),
+    {
+      section: '80CCD(2)',
+      label: 'NPS (Employer Contribution)',
+      claimed: d.employerNps,
+      allowedOld: Math.round(Math.min(d.employerNps, employerNpsCap('old'))),
+      allowedNew: Math.round(Math.min(d.employerNps, employerNpsCap('new'))),
+    },
+    oldOnly('80D', 'Health Insurance (Self & Family)', d.section80DSelf, Math.min(d.section80DSelf, cap80DSelf)),
+    oldOnly('80D', 'Health Insurance (Parents)', d.section80DParents, Math.min(d.section80DParents, cap80DParents)),
+    oldOnly('80E', 'Education Loan Interest', d.section80E, d.section80E),
+    oldOnly('80G', 'Donations (100%)', d.donations100, d.donations100),
+    oldOnly('80G', 'Donations (50%)', d.donations50, d.donations50 * 0.5),
+    d.selfSenior
+      ? oldOnly('80TTB', 'Deposit Interest (Senior)', d.savingsInterest + d.depositInterest,
+        Math.min(d.savingsInterest + d.depositInterest, SECTION_80TTB_CAP))
+      : oldOnly('80TTA', 'Savings Account Interest', d.savingsInterest, Math.min(d.savingsInterest, SECTION_80TTA_CAP)),
+    oldOnly('24(b)', 'Home Loan Interest', d.homeLoanInterest, Math.min(d.homeLoanInterest, SECTION_24B_CAP)),
+    oldOnly('80EEB', 'EV Loan Interest', d.section80EEB, Math.min(d.section80EEB, SECTION_80EEB_CAP)),
+  ]
+}
+
+/**
+ * Deemed profit under 44AD (6% of digital and 8% of cash receipts) or 44ADA (50% of receipts),
+ * alongside the profit as per books. Receipts above the turnover limit rule out the presumptive scheme.
+ */
+export function calculateBusinessIncome(input: BusinessIncomeInput, fy: FinancialYear): BusinessIncomeResult {
+  const rules = getTaxRules(fy).presumptive[input.scheme]
+  const grossReceipts = Math.max(0, input.grossReceipts)
+  const digitalPercent = Math.min(100, Math.max(0, input.digitalPercent))
+  const digitalReceipts = grossReceipts * (digitalPercent / 100)
+  const cashReceipts = grossReceipts - digitalReceipts
+
+  const turnoverLimit = 100 - digitalPercent <= rules.cashReceiptsLimit ? rules.enhancedTurnoverLimit : rules.turnoverLimit
+  const eligible = grossReceipts <= turnoverLimit
+  const presumptiveIncome = Math.round(digitalReceipts * (rules.digitalRate / 100) + cashReceipts * (rules.cashRate / 100))
+  const booksIncome = Math.max(0, Math.round(grossReceipts - input.actualExpenses))
+
+  return {
+    scheme: input.scheme,
+    grossReceipts,
+    digitalReceipts: Math.round(digitalReceipts),
+    cashReceipts: Math.round(cashReceipts),
+    turnoverLimit,
+    eligible,
+    presumptiveIncome,
+    booksIncome,
+    auditRequired: eligible && booksIncome < presumptiveIncome,
+  }
+}
+
+/**
+ * Calculate and compare income tax under the old and new regimes for a financial year.
+ * Deductions reduce salary, business and other slab income only, never special-rate capital gains.
+ * grossIncome is the salary; businessIncome is profit from business or profession.
+ * Savings and deposit interest is taxed in both regimes as income from other sources.
+ */
+export function calculateTax(
+  grossIncome: number,
+  deductions: TaxDeductions,
+  fy: FinancialYear,
+  gains: CapitalGainsIncome = NO_CAPITAL_GAINS,
+  businessIncome: number = 0
+): TaxResult {
+  const lines = calculateDeductions(deductions, fy, grossIncome)
+  const otherIncome = Math.max(0, deductions.savingsInterest) + Math.max(0, deductions.depositInterest)
+  const totalIncome = grossIncome + businessIncome + otherIncome
+
+  // Old Regime: All deductions allowed
+  const totalDeductionsOld = lines.reduce((sum, line) => sum + line.allowedOld, 0)
+  const taxableIncomeOld = Math.max(0, totalIncome - totalDeductionsOld)
+  const oldRegime = calculateRegimeTax(taxableIncomeOld, 'old', fy, gains)
+
+  // New Regime: Standard deduction and employer NPS only
+  const totalDeductionsNew = lines.reduce((sum, line) => sum + line.allowedNew, 0)
+  const taxableIncomeNew = Math.max(0, totalIncome - totalDeductionsNew)
+  const newRegime = calculateRegimeTax(taxableIncomeNew, 'new', fy, gains)
+
+  const recommendation = oldRegime.totalTax <= newRegime.totalTax ? 'old' : 'new'
+  const savings = Math.abs(oldRegime.totalTax - newRegime.totalTax)
+
+  return {
+    fy,
+    grossIncome: totalIncome,
+    businessIncome,
+    otherIncome,
+    deductions: lines,
+    totalDeductions: totalDeductionsOld,
+    totalDeductionsNew,
+    taxableIncome: taxableIncomeOld,
+    taxableIncomeNew,
+    taxOldRegime: oldRegime.totalTax,
+    taxNewRegime: newRegime.totalTax,
+    oldRegime,
+    newRegime,
+    recommendation,
+    savings,
+  }
+}
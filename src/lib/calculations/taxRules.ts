@@ -0,0 +1,173 @@
+import {
+  CapitalGainsRules,
+  FinancialYear,
+  PresumptiveRules,
+  PresumptiveScheme,
+  RegimeTaxRules,
+  SurchargeBand,
+  TaxRules,
+} from '@/types'
+
+// Health & education cess on income tax (unchanged since FY 2018-19)
+export const CESS_RATE = 4
+
+// Statutory deduction caps; unchanged across the registry's years
+export const SECTION_80C_CAP = 150000 // PF, PPF, ELSS, life insurance, home loan principal
+export const SECTION_80CCD1B_CAP = 50000 // own NPS contribution, over and above 80C
+export const SECTION_80D_CAP = 25000 // health insurance, per group (self & family, parents)
+export const SECTION_80D_SENIOR_CAP = 50000 // when the insured group includes a senior citizen
+export const SECTION_80TTA_CAP = 10000 // savings account interest, below 60
+export const SECTION_80TTB_CAP = 50000 // all deposit interest, senior citizens
+export const SECTION_24B_CAP = 200000 // self-occupied home loan interest
+export const SECTION_80EEA_CAP = 150000 // extra interest, first-time buyers (loans sanctioned FY 2019-20 to 2021-22)
+export const SECTION_80EEB_CAP = 150000 // electric vehicle loan interest (loans sanctioned FY 2019-20 to 2022-23)
+
+// Salary perquisite limits
+export const MEAL_CARD_ANNUAL_CAP = 26400 // ₹50 a meal, two meals a day, 22 working days a month; old regime only
+export const EMPLOYER_RETIREMENT_CAP = 750000 // Section 17(2)(vii): employer PF, NPS and superannuation together
+
+// Old regime rules have not changed across the registry's years
+const OLD_REGIME: RegimeTaxRules = {
+  slabs: [
+    { min: 0, max: 250000, rate: 0 },
+    { min: 250000, max: 500000, rate: 5 },
+    { min: 500000, max: 1000000, rate: 20 },
+    { min: 1000000, max: Infinity, rate: 30 },
+  ],
+  standardDeduction: 50000,
+  employerNpsLimit: 10,
+  rebate: { maxIncome: 500000, maxRebate: 12500, marginalRelief: false, coversStcg111A: true },
+  surcharge: [
+    { minIncome: 5000000, rate: 10 },
+    { minIncome: 10000000, rate: 15 },
+    { minIncome: 20000000, rate: 25 },
+    { minIncome: 50000000, rate: 37 },
+  ],
+}
+
+// New regime surcharge is capped at 25% (no 37% band)
+const NEW_REGIME_SURCHARGE: SurchargeBand[] = [
+  { minIncome: 5000000, rate: 10 },
+  { minIncome: 10000000, rate: 15 },
+  { minIncome: 20000000, rate: 25 },
+]
+
+// Capital gains rates after the Union Budget 2024 changes (transfers on or after 23 Jul 2024)
+const CAPITAL_GAINS_2024: CapitalGainsRules = {
+  stcg111aRate: 20,
+  ltcg112aRate: 12.5,
+  ltcg112aExemption: 125000,
+  propertyRate: 12.5,
+  propertyIndexedRate: 20,
+  surchargeCap: 15,
+}
+
+// Presumptive taxation limits after Union Budget 2023 (higher limits when cash receipts are at most 5%)
+const PRESUMPTIVE_2023: Record<PresumptiveScheme, PresumptiveRules> = {
+  '44AD': { turnoverLimit: 20000000, enhancedTurnoverLimit: 30000000, cashReceiptsLimit: 5, digitalRate: 6, cashRate: 8 },
+  '44ADA': { turnoverLimit: 5000000, enhancedTurnoverLimit: 7500000, cashReceiptsLimit: 5, digitalRate: 50, cashRate: 50 },
+}
+
+// Income tax rules by financial year. Add a year here and every calculator picks it up.
+// Source: Income Tax Department, India - https://incometaxindia.gov.in
+export const TAX_RULES: Record<FinancialYear, TaxRules> = {
+  '2023-24': {
+    fy: '2023-24',
+    label: 'FY 2023-24 (AY 2024-25)',
+    budget: 'Union Budget 2023',
+    cessRate: CESS_RATE,
+    capitalGains: {
+      stcg111aRate: 15,
+      ltcg112aRate: 10,
+      ltcg112aExemption: 100000,
+      propertyRate: 20, // no unindexed option before 23 Jul 2024
+      propertyIndexedRate: 20,
+      surchargeCap: 15,
+    },
+    presumptive: PRESUMPTIVE_2023,
+    old: OLD_REGIME,
+    new: {
+      slabs: [
+        { min: 0, max: 300000, rate: 0 },
+        { min: 300000, max: 600000, rate: 5 },
+        { min: 600000, max: 900000, rate: 10 },
+        { min: 900000, max: 1200000, rate: 15 },
+        { min: 1200000, max: 1500000, rate: 20 },
+        { min: 1500000, max: Infinity, rate: 30 },
+      ],
+      standardDeduction: 50000,
+      employerNpsLimit: 10,
+      rebate: { maxIncome: 700000, maxRebate: 25000, marginalRelief: true, coversStcg111A: true },
+      surcharge: NEW_REGIME_SURCHARGE,
+    },
+  },
+  '2024-25': {
+    fy: '2024-25',
+    label: 'FY 2024-25 (AY 2025-26)',
+    budget: 'Union Budget 2024',
+    cessRate: CESS_RATE,
+    // Gains are not split by transfer date; the whole year uses the post-Budget rates
+    capitalGains: {
+      ...CAPITAL_GAINS_2024,
+      note: 'FY 2024-25 uses the rates for transfers on or after 23 Jul 2024. Earlier transfers were taxed at 15% (111A) and 10% above ₹1L (112A).',
+    },
+    presumptive: PRESUMPTIVE_2023,
+    old: OLD_REGIME,
+    new: {
+      slabs: [
+        { min: 0, max: 300000, rate: 0 },
+        { min: 300000, max: 700000, rate: 5 },
+        { min: 700000, max: 1000000, rate: 10 },
+        { min: 1000000, max: 1200000, rate: 15 },
+        { min: 1200000, max: 1500000, rate: 20 },
+        { min: 1500000, max: Infinity, rate: 30 },
+      ],
+      standardDeduction: 75000,
+      employerNpsLimit: 14,
+      rebate: { maxIncome: 700000, maxRebate: 25000, marginalRelief: true, coversStcg111A: true },
+      surcharge: NEW_REGIME_SURCHARGE,
+    },
+  },
+  '2025-26': {
+    fy: '2025-26',
+    label: 'FY 2025-26 (AY 2026-27)',
+    budget: 'Union Budget 2025',
+    cessRate: CESS_RATE,
+    capitalGains: CAPITAL_GAINS_2024,
+    presumptive: PRESUMPTIVE_2023,
+    old: OLD_REGIME,
+    new: {
+      slabs: [
+        { min: 0, max: 400000, rate: 0 },
+        { min: 400000, max: 800000, rate: 5 },
+        { min: 800000, max: 1200000, rate: 10 },
+        { min: 1200000, max: 1600000, rate: 15 },
+        { min: 1600000, max: 2000000, rate: 20 },
+        { min: 2000000, max: 2400000, rate: 25 },
+        { min: 2400000, max: Infinity, rate: 30 },
+      ],
+      standardDeduction: 75000,
+      employerNpsLimit: 14,
+      rebate: { maxIncome: 1200000, maxRebate: 60000, marginalRelief: true, coversStcg111A: false },
+      surcharge: NEW_REGIME_SURCHARGE,
+    },
+  },
+}
+
+export const FINANCIAL_YEARS = Object.keys(TAX_RULES) as FinancialYear[]
+
+export const LATEST_FY: FinancialYear = FINANCIAL_YEARS[FINANCIAL_YEARS.length - 1]
+
+/**
+ * Look up the tax rules for a financial year
+ */
+export function getTaxRules(fy: FinancialYear): TaxRules {
+  return TAX_RULES[fy]
+}
+
+/**
+ * Type guard for financial years read back from localStorage
+ */
+export function isFinancialYear(value: unknown): value is FinancialYear {
+  return typeof value === 'string' && value in TAX_RULES
+}
@@ -0,0 +1,209 @@
+import { CashFlow, XIRRImportResult, XIRRSummary, XIRRTransaction, XIRRTransactionType } from '@/types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_ITERATIONS = 100
+const TOLERANCE = 1e-7
+
+function toTime(date: string): number {
+  const [year, month, day] = date.split('-').map(Number)
+  return Date.UTC(year, month - 1, day || 1)
+}
+
+/**
+ * Net present value of dated cash flows at an annual rate (as a fraction), discounting
+ * each flow by the years elapsed since the first date on a 365-day basis
+ */
+function xnpv(rate: number, flows: { years: number; amount: number }[]): number {
+  return flows.reduce((sum, flow) => sum + flow.amount / Math.pow(1 + rate, flow.years), 0)
+}
+
+function xnpvDerivative(rate: number, flows: { years: number; amount: number }[]): number {
+  return flows.reduce((sum, flow) => sum - (flow.years * flow.amount) / Math.pow(1 + rate, flow.years + 1), 0)
+}
+
+/**
+ * Annualised return (XIRR) of irregular dated cash flows, in percent.
+ * Solves XNPV = 0 by Newton-Raphson and falls back to bisection when Newton does not converge.
+ * Returns null unless there is at least one inflow and one outflow, or when no root is found.
+ */
+export function calculateXIRR(cashFlows: CashFlow[], guess: number = 10): number | null {
+  if (!cashFlows.some((f) => f.amount > 0) || !cashFlows.some((f) => f.amount < 0)) return null
+
+  const firstTime = Math.min(...cashFlows.map((f) => toTime(f.date)))
+  const flows = cashFlows.map((f) => ({ years: (toTime(f.date) - firstTime) / DAY_MS / 365, amount: f.amount }))
+
+  // Newton-Raphson
+  let rate = guess / 100
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const value = xnpv(rate, flows)
+    const derivative = xnpvDerivative(rate, flows)
+    if (!isFinite(value) || !isFinite(derivative) || derivative === 0) break
+
+    const next = rate - value / derivative
+    if (next <= -1) break
+    if (Math.abs(next - rate) < TOLERANCE) return next * 100
+    rate = next
+  }
+
+  // Bisection: widen the upper bound until XNPV changes sign
+  let low = -0.9999
+  let high = 1
+  while (xnpv(low, flows) * xnpv(high, flows) > 0) {
+    high *= 2
+    if (high > 1e6) return null
+  }
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2
+    const value = xnpv(mid, flows)
+    if (Math.abs(value) < TOLERANCE || (high - low) / 2 < TOLERANCE) return mid * 100
+    if (xnpv(low, flows) * value < 0) high = mid
+    else low = mid
+  }
+
+  return ((low + high) / 2) * 100
+}
+
+/**
+ * XIRR of a portfolio's investments and withdrawals, valued at currentValue on valuationDate.
+ * XIRR is null when there is a current value but no valid valuation date to place it on.
+ */
+export function calculatePortfolioXIRR(
+  transactions: XIRRTransaction[],
+  currentValue: number,
+  valuationDate: string
+): XIRRSummary {
+  const cashFlows: CashFlow[] = transactions.map((t) => ({
+    date: t.date,
+    amount: t.type === 'invest' ? -t.amount : t.amount,
+  }))
+  const hasValuationDate = parseTransactionDate(valuationDate) !== null
+  if (currentValue > 0 && hasValuationDate) cashFlows.push({ date: valuationDate, amount: currentValue })
+
+  const totalInvested = transactions.filter((t) => t.type === 'invest').reduce((sum, t) => sum + t.amount, 0)
+  const totalWithdrawn = transactions.filter((t) => t.type === 'withdraw').reduce((sum, t) => sum + t.amount, 0)
+  const netGain = totalWithdrawn + currentValue - totalInvested
+  const xirr = currentValue > 0 && !hasValuationDate ? null : calculateXIRR(cashFlows)
+  const dates = transactions.map((t) => t.date).sort()
+
+  return {
+    xirr: xirr === null ? null : Math.round(xirr * 100) / 100,
+    totalInvested: Math.round(totalInvested),
+    totalWithdrawn: Math.round(totalWithdrawn),
+    currentValue: Math.round(currentValue),
+    netGain: Math.round(netGain),
+    absoluteReturn: totalInvested > 0 ? Math.round((netGain / totalInvested) * 1000) / 10 : 0,
+    firstDate: dates[0] ?? null,
+    valuationDate,
+  }
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const WITHDRAW_PATTERN = /sell|sold|redeem|redemption|withdraw|switch[- ]?out|swp|payout|dividend/i
+const INVEST_PATTERN = /buy|bought|purchase|sip|invest|deposit|switch[- ]?in/i
+
+function toISODate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Read a statement date as 'YYYY-MM-DD'. Accepts YYYY-MM-DD, DD-MM-YYYY, DD/MM/YYYY and
+ * DD-Mon-YYYY (as in CAS statements); numeric dates are taken day-first.
+ */
+export function parseTransactionDate(value: string): string | null {
+  const text = value.trim()
+
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/)
+  if (match) return toISODate(Number(match[1]), Number(match[2]), Number(match[3]))
+
+  match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/)
+  if (match) return toISODate(Number(match[3]), Number(match[2]), Number(match[1]))
+
+  match = text.match(/^(\d{1,2})[-\s/]([A-Za-z]{3})[A-Za-z]*[-\s/,]+(\d{4})$/)
+  if (match) {
+    const month = MONTH_NAMES.indexOf(match[2].toLowerCase()) + 1
+    return month > 0 ? toISODate(Number(match[3]), month, Number(match[1])) : null
+  }
+
+  return null
+}
+
+function parseAmount(value: string): number | null {
+  let text = value.replace(/₹|rs\.?|inr|,|\s/gi, '')
+  const bracketed = /^\(.*\)$/.test(text)
+  if (bracketed) text = text.slice(1, -1)
+  if (!/^-?\d+(\.\d+)?$/.test(text)) return null
+  return bracketed ? -Number(text) : Number(text)
+}
+
+function splitCSVLine(line: string): string[] {
+  const cells: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else {
+        quoted = !quoted
+      }
+    } else if (char === ',' && !quoted) {
+      cells.push(cell.trim())
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  cells.push(cell.trim())
+  return cells
+}
+
+/**
+ * Import transactions from CSV. Columns are found by header (date, amount, type); without a
+ * header they are read as date, amount, type. The type column decides the direction when it
+ * names one (Purchase, SIP, Redemption, Switch Out...); otherwise negative amounts are
+ * withdrawals, as in most transaction statements. Rows without a date or amount are skipped.
+ */
+export function parseTransactionsCSV(csv: string): XIRRImportResult {
+  const rows = csv
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '')
+    .map(splitCSVLine)
+
+  let dateColumn = 0
+  let amountColumn = 1
+  let typeColumn = 2
+  if (rows.length > 0 && parseTransactionDate(rows[0][0] ?? '') === null) {
+    const header = rows.shift()!.map((cell) => cell.toLowerCase())
+    const find = (pattern: RegExp) => header.findIndex((cell) => pattern.test(cell))
+    dateColumn = Math.max(find(/date/), 0)
+    amountColumn = find(/amount/) >= 0 ? find(/amount/) : Math.max(find(/value|₹|inr|rs/), 1)
+    typeColumn = find(/type|transaction|description|nature|particulars/)
+  }
+
+  const transactions: XIRRTransaction[] = []
+  let skipped = 0
+  rows.forEach((row) => {
+    const date = parseTransactionDate(row[dateColumn] ?? '')
+    const amount = parseAmount(row[amountColumn] ?? '')
+    if (date === null || amount === null || amount === 0) {
+      skipped++
+      return
+    }
+
+    const label = typeColumn >= 0 ? row[typeColumn] ?? '' : ''
+    let type: XIRRTransactionType = amount < 0 ? 'withdraw' : 'invest'
+    if (WITHDRAW_PATTERN.test(label)) type = 'withdraw'
+    else if (INVEST_PATTERN.test(label)) type = 'invest'
+
+    transactions.push({ date, amount: Math.abs(amount), type })
+  })
+
+  transactions.sort((a, b) => a.date.localeCompare(b.date))
+  return { transactions, skipped }
+}
@@ -15,11 +15,11 @@ function safeJsonParse<T>(str: string | null): T | null {
 
 // All calculator localStorage keys
 const CALCULATOR_KEYS = [
-  'calc_emi', 'calc_sip', 'calc_fd', 'calc_rd', 'calc_ppf', 'calc_epf',
+  'calc_emi', 'calc_loans', 'calc_sip', 'calc_fd', 'calc_rd', 'calc_ppf', 'calc_epf',
   'calc_nps', 'calc_ssf', 'calc_lumpsum', 'calc_compound', 'calc_simple_interest',
-  'calc_inflation', 'calc_gratuity', 'calc_hra', 'calc_retirement',
+  'calc_inflation', 'calc_gratuity', 'calc_hra', 'calc_retirement', 'calc_swp',
   'calc_goal', 'calc_cagr', 'calc_gst', 'calc_margin', 'calc_discount',
-  'calc_percentage', 'calc_tax', 'calc_salary', 'calc_real_estate', 'calc_currency'
+  'calc_percentage', 'calc_tax', 'calc_advancetax', 'calc_salary', 'calc_real_estate', 'calc_currency'
 ]
 
 const FAVORITES_KEY = 'calc_favorites'
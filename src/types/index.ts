@@ -100,6 +100,168 @@ export interface AmortizationRow {
   principal: number
   interest: number
   balance: number
+  rate?: number
+}
+
+export interface EMISummary {
+  emi: number
+  totalInterest: number
+  totalPayment: number
+  principalPercent: number
+  interestPercent: number
+}
+
+export interface LoanYearlyBreakdown {
+  year: number
+  principal: number
+  interest: number
+  balance: number
+}
+
+// Floating rate: a dated revision to the loan rate (e.g. repo-linked reset)
+export interface RateRevision {
+  id: number
+  date: string // 'YYYY-MM' month from which the new rate applies
+  rate: number
+  adjust: 'emi' | 'tenure'
+}
+
+export interface FloatingRateResult {
+  schedule: AmortizationRow[]
+  yearlyBreakdown: LoanYearlyBreakdown[]
+  initialEmi: number
+  finalEmi: number
+  tenureMonths: number
+  totalInterest: number
+  totalPayment: number
+}
+
+export interface PrepaymentEntry {
+  id: number
+  frequency: 'once' | 'monthly' | 'yearly'
+  month: number // loan month of the (first) prepayment
+  amount: number // ₹ amount, or % of outstanding balance when amountType is 'percent'
+  amountType: 'fixed' | 'percent'
+}
+
+// After a prepayment the bank either keeps the EMI (tenure falls) or keeps the tenure (EMI falls)
+export type PrepaymentStrategy = 'tenure' | 'emi'
+
+export interface PrepaymentScheduleRow {
+  month: number
+  year: number
+  emi: number
+  principal: number
+  interest: number
+  prepayment: number
+  balance: number
+  baselineEmi: number
+  baselineBalance: number
+  cumulativePaid: number
+  baselineCumulativePaid: number
+}
+
+export interface PrepaymentResult {
+  newTenureMonths: number
+  newTotalInterest: number
+  newTotalPayment: number
+  interestSaved: number
+  monthsSaved: number
+  totalPrepaid: number
+  finalEmi: number
+  breakEvenMonth: number | null
+  yearlyBreakdown: LoanYearlyBreakdown[]
+  schedule: PrepaymentScheduleRow[]
+}
+
+export interface RefinanceRow {
+  month: number // loan month (continues from the original loan)
+  currentEmi: number
+  currentInterest: number
+  currentBalance: number
+  newEmi: number
+  newInterest: number
+  newBalance: number
+  cumulativeSavings: number // EMI savings so far, net of switching costs
+}
+
+export interface RefinanceResult {
+  outstanding: number
+  remainingMonths: number
+  currentEmi: number
+  newEmi: number
+  currentRemainingInterest: number
+  newTotalInterest: number
+  processingFee: number
+  foreclosureCharges: number
+  switchingCost: number
+  netSavings: number
+  breakEvenMonth: number | null
+  rows: RefinanceRow[]
+}
+
+export interface HomeLoanTaxBenefitYear {
+  fy: string
+  principal: number
+  interest: number
+  deduction24b: number
+  deduction80C: number
+  deduction80EEA: number
+  taxSaved: number
+}
+
+export interface HomeLoanTaxBenefitResult {
+  years: HomeLoanTaxBenefitYear[]
+  totalDeduction: number
+  totalTaxSaved: number
+  interestTaxSaved: number
+  effectiveRate: number
+}
+
+// ============ Loan Portfolio Types ============
+
+export interface PortfolioLoan {
+  id: number
+  name: string
+  balance: number // outstanding principal today
+  rate: number
+  tenureYears: number // remaining tenure
+}
+
+// minimum = pay only EMIs; avalanche = extra to highest rate first; snowball = extra to smallest balance first
+export type PayoffStrategy = 'minimum' | 'avalanche' | 'snowball'
+
+export interface LoanPayoff {
+  id: number
+  name: string
+  emi: number
+  payoffMonth: number
+  totalInterest: number
+}
+
+export interface PortfolioMonth {
+  month: number
+  payments: Record<number, number> // loan id → amount paid in the month
+  totalPayment: number
+  interest: number
+  balance: number
+}
+
+export interface PortfolioYear {
+  year: number
+  payments: Record<number, number> // loan id → amount paid in the year
+  totalPayment: number
+  interest: number
+  balance: number
+}
+
+export interface PortfolioResult {
+  strategy: PayoffStrategy
+  debtFreeMonth: number
+  totalInterest: number
+  totalPaid: number
+  payoffs: LoanPayoff[]
+  schedule: PortfolioMonth[]
 }
 
 // ============ SIP Calculator Types ============
@@ -136,6 +298,120 @@ export interface YearlyBreakdown {
   total: number
 }
 
+export interface SIPSummary {
+  monthlyInvestment: number
+  totalInvestment: number
+  expectedReturns: number
+  maturityValue: number
+  returnsPercent: number
+}
+
+export interface SIPYearlyBreakdown {
+  year: number
+  invested: number
+  returns: number
+  value: number
+}
+
+export interface StepUpSIPResult {
+  totalInvestment: number
+  maturityValue: number
+  expectedReturns: number
+  returnsPercent: number
+  extraReturns: number
+  yearlyBreakdown: SIPYearlyBreakdown[]
+}
+
+// ============ Monte Carlo Types ============
+
+export interface MonteCarloParams {
+  initialAmount: number // invested at the start
+  monthlyInvestment: number // invested at the start of each month
+  annualStepUp?: number // percent increase in the monthly investment each year
+  years: number
+  meanReturn: number // expected annual return, percent
+  volatility: number // annual standard deviation of returns, percent
+  paths: number
+  seed: number
+  targetAmount?: number
+}
+
+export interface MonteCarloYear {
+  year: number
+  invested: number
+  p10: number
+  p50: number
+  p90: number
+}
+
+export interface MonteCarloResult {
+  p10: number
+  p50: number
+  p90: number
+  mean: number
+  probabilityOfTarget: number | null // percent of paths that end at or above the target
+  years: MonteCarloYear[] // year 0 is the starting point
+}
+
+export interface MonteCarloSettings {
+  enabled: boolean
+  volatility: number
+  paths: number
+}
+
+// ============ Backtest Types ============
+
+export interface CashFlow {
+  date: string // 'YYYY-MM-DD'
+  amount: number // negative for money invested, positive for money received or current value
+}
+
+export type IndexSeriesId = 'nifty50' | 'sensex' | 'gold'
+
+export interface IndexSeries {
+  id: IndexSeriesId
+  name: string
+  source: string
+  frequency: 'monthly' | 'yearly'
+  start: string // 'YYYY-MM' of the first value; yearly series step 12 months from here
+  values: number[]
+}
+
+export interface IndexLevel {
+  month: string // 'YYYY-MM'
+  level: number
+}
+
+export interface SIPBacktestParams {
+  seriesId: IndexSeriesId
+  monthlyInvestment: number
+  startMonth: string // first instalment, 'YYYY-MM'
+  endMonth?: string // valuation month; defaults to the latest level
+  projectedRate: number // constant annual rate to compare against
+}
+
+export interface SIPBacktestPoint {
+  month: string
+  invested: number
+  value: number
+  projected: number
+}
+
+export interface SIPBacktestResult {
+  startMonth: string
+  endMonth: string
+  months: number
+  totalInvested: number
+  finalValue: number
+  absoluteReturn: number // percent
+  xirr: number | null // percent
+  maxDrawdown: number // percent fall in the SIP's value from its running peak
+  drawdownPeak: string
+  drawdownTrough: string
+  projectedValue: number
+  points: SIPBacktestPoint[] // one per year, plus the valuation month
+}
+
 // ============ FD Calculator Types ============
 
 export interface FDInput {
@@ -162,6 +438,25 @@ export interface FDResult {
   chartData: ChartDataPoint[]
 }
 
+export interface FDSummary {
+  maturityAmount: number
+  totalInterest: number
+  investmentAmount: number
+  effectiveRate: number
+  principalPercent: number
+  interestPercent: number
+}
+
+export interface FDYearlyBreakdown {
+  year: number
+  principal: number
+  interest: number
+  balance: number
+}
+
+export type FDPayoutOption = 'maturity' | 'monthly' | 'quarterly' | 'yearly'
+export type FDCompoundingFrequency = 'monthly' | 'quarterly' | 'halfYearly' | 'yearly'
+
 // ============ Lumpsum Calculator Types ============
 
 export interface LumpsumInput {
@@ -187,6 +482,21 @@ export interface LumpsumResult {
   chartData: ChartDataPoint[]
 }
 
+export interface LumpsumSummary {
+  investedAmount: number
+  estimatedReturns: number
+  totalValue: number
+  absoluteReturns: number
+  cagr: number
+}
+
+export interface LumpsumYearlyBreakdown {
+  year: number
+  openingBalance: number
+  returns: number
+  closingBalance: number
+}
+
 // ============ Compound Interest Types ============
 
 export interface CompoundInput {
@@ -212,6 +522,959 @@ export interface CompoundResult {
   chartData: ChartDataPoint[]
 }
 
+export interface CompoundSummary {
+  principal: number
+  totalInterest: number
+  finalAmount: number
+  effectiveRate: number
+  interestOnInterest: number
+  principalPercent: number
+  interestPercent: number
+}
+
+export interface CompoundYearlyBreakdown {
+  year: number
+  openingBalance: number
+  interestEarned: number
+  contributions: number
+  closingBalance: number
+}
+
+export type CompoundingFrequency = 'daily' | 'monthly' | 'quarterly' | 'half-yearly' | 'yearly'
+
+export interface FrequencyComparison {
+  frequency: CompoundingFrequency
+  label: string
+  finalAmount: number
+  totalInterest: number
+  effectiveRate: number
+  difference: number
+}
+
+// ============ Tax Types ============
+
+export interface TaxSlab {
+  min: number
+  max: number
+  rate: number
+}
+
+export type TaxRegime = 'new' | 'old'
+
+// Indian financial year, e.g. '2025-26' (April 2025 – March 2026)
+export type FinancialYear = '2023-24' | '2024-25' | '2025-26'
+
+export interface TaxRebate {
+  maxIncome: number // Section 87A applies when taxable income is at or below this
+  maxRebate: number
+  marginalRelief: boolean // just above maxIncome, tax is capped at the income over it
+  coversStcg111A: boolean // whether the rebate can offset tax on 111A short-term gains
+}
+
+// Special tax rates on capital gains (%); from FY 2024-25 these are the rates for transfers on or after 23 Jul 2024
+export interface CapitalGainsRules {
+  stcg111aRate: number
+  ltcg112aRate: number
+  ltcg112aExemption: number
+  propertyRate: number // Section 112, without indexation
+  propertyIndexedRate: number // Section 112, with indexation (property bought before 23 Jul 2024)
+  surchargeCap: number // maximum surcharge on capital gains tax
+  note?: string // caveat shown alongside the rates
+}
+
+export interface SurchargeBand {
+  minIncome: number // surcharge applies on income above this
+  rate: number
+}
+
+export interface RegimeTaxRules {
+  slabs: TaxSlab[]
+  standardDeduction: number
+  employerNpsLimit: number // Section 80CCD(2) cap, % of basic + DA
+  rebate: TaxRebate
+  surcharge: SurchargeBand[]
+}
+
+export interface TaxRules {
+  fy: FinancialYear
+  label: string
+  budget: string
+  cessRate: number
+  capitalGains: CapitalGainsRules
+  presumptive: Record<PresumptiveScheme, PresumptiveRules>
+  old: RegimeTaxRules
+  new: RegimeTaxRules
+}
+
+// Capital gains outside salary income; debt fund gains are taxed at slab rates, the rest at special rates
+export interface CapitalGainsIncome {
+  stcg111A: number // listed equity and equity funds held up to 12 months
+  ltcg112A: number // listed equity and equity funds held over 12 months
+  debtFundGains: number // Section 50AA, debt fund units bought from April 2023
+  propertyLtcg: number // Section 112
+  propertyIndexed: boolean // gain is indexed and taxed at the indexed rate
+}
+
+export interface CapitalGainsTaxLine {
+  section: string // e.g. '112A'
+  label: string
+  gain: number
+  exemption: number // 112A annual exemption
+  basicExemptionUsed: number // unused basic exemption limit set off against the gain
+  taxableGain: number
+  rate: number
+  tax: number
+}
+
+export interface RegimeTaxBreakdown {
+  capitalGains: CapitalGainsTaxLine[]
+  capitalGainsTax: number
+  slabTax: number
+  rebate: number
+  rebateMarginalRelief: number // Section 87A relief just above the rebate limit
+  taxAfterRebate: number
+  surchargeRate: number
+  surcharge: number
+  surchargeMarginalRelief: number // relief just above a surcharge threshold
+  taxBeforeCess: number
+  cess: number
+  totalTax: number
+}
+
+// Deductions and exemptions claimed in the income tax calculator (annual amounts)
+export interface TaxDeductions {
+  section80C: number
+  section80CCD1B: number // own NPS contribution
+  employerNps: number // Section 80CCD(2), employer's NPS contribution
+  basicSalary: number // basic + DA, caps 80CCD(2)
+  section80DSelf: number // self, spouse and children
+  section80DParents: number
+  selfSenior: boolean // taxpayer is 60 or older
+  parentsSenior: boolean
+  section80E: number // education loan interest
+  donations100: number // 80G donations eligible for 100% deduction
+  donations50: number // 80G donations eligible for 50% deduction
+  savingsInterest: number
+  depositInterest: number // FD/RD interest, only deductible for seniors (80TTB)
+  homeLoanInterest: number // Section 24(b), self-occupied
+  section80EEB: number // electric vehicle loan interest
+  hra: number
+  lta: number
+}
+
+export interface DeductionLine {
+  section: string // e.g. '80CCD(1B)'
+  label: string
+  claimed: number
+  allowedOld: number
+  allowedNew: number
+}
+
+// Presumptive taxation: 44AD for small businesses, 44ADA for specified professionals
+export type PresumptiveScheme = '44AD' | '44ADA'
+
+export interface PresumptiveRules {
+  turnoverLimit: number
+  enhancedTurnoverLimit: number // when cash receipts are within cashReceiptsLimit
+  cashReceiptsLimit: number // percent of gross receipts
+  digitalRate: number // deemed profit, percent of receipts through banking channels
+  cashRate: number // deemed profit, percent of cash receipts
+}
+
+export interface BusinessIncomeInput {
+  scheme: PresumptiveScheme
+  grossReceipts: number
+  digitalPercent: number // share of receipts through banking channels
+  actualExpenses: number // as per books of account
+}
+
+export interface BusinessIncomeResult {
+  scheme: PresumptiveScheme
+  grossReceipts: number
+  digitalReceipts: number
+  cashReceipts: number
+  turnoverLimit: number // limit that applies given the cash share
+  eligible: boolean
+  presumptiveIncome: number
+  booksIncome: number
+  auditRequired: boolean // declaring the books profit needs an audit (Section 44AB) when it is below the presumptive income
+}
+
+export interface MarginalBracket {
+  marginalRate: number
+  nextBracketRate: number
+  roomInBracket: number // additional income before the next slab starts
+}
+
+export interface TaxResult {
+  fy: FinancialYear
+  grossIncome: number // salary, business and other income
+  businessIncome: number
+  otherIncome: number // savings and deposit interest
+  deductions: DeductionLine[]
+  totalDeductions: number
+  totalDeductionsNew: number
+  taxableIncome: number
+  taxableIncomeNew: number
+  taxOldRegime: number
+  taxNewRegime: number
+  oldRegime: RegimeTaxBreakdown
+  newRegime: RegimeTaxBreakdown
+  recommendation: 'old' | 'new'
+  savings: number
+}
+
+// ============ Advance Tax Types ============
+
+export interface AdvanceTaxPayment {
+  id: number
+  date: string // YYYY-MM-DD
+  amount: number
+}
+
+export interface AdvanceTaxParams {
+  fy: FinancialYear
+  totalTax: number // annual liability including surcharge and cess
+  tds: number // TDS/TCS already deducted for the year
+  payments: AdvanceTaxPayment[]
+  presumptive: boolean // Section 44AD/44ADA: the whole amount is due by 15 March
+  balancePaymentDate: string // YYYY-MM-DD, when the remaining tax is paid (self-assessment)
+}
+
+export interface AdvanceTaxInstallment {
+  dueDate: string // YYYY-MM-DD
+  cumulativePercent: number
+  requiredCumulative: number
+  installmentAmount: number
+  paidCumulative: number // advance tax paid on or before the due date
+  shortfall: number
+  interestMonths: number
+  interest234C: number
+}
+
+export interface AdvanceTaxResult {
+  assessedTax: number // tax less TDS
+  liable: boolean // advance tax applies when assessed tax is ₹10,000 or more
+  installments: AdvanceTaxInstallment[]
+  totalPaid: number
+  advanceTaxPaid: number // paid by 31 March; counts towards the 90% test for 234B
+  interest234C: number
+  interest234B: number
+  months234B: number
+  totalInterest: number
+  balancePayable: number // tax still due, before interest
+}
+
+// ============ PPF Calculator Types ============
+
+export interface PPFSummary {
+  yearlyDeposit: number
+  totalDeposit: number
+  totalInterest: number
+  maturityValue: number
+  effectiveReturn: number
+}
+
+export interface PPFYearlyBreakdown {
+  year: number
+  deposit: number
+  interest: number
+  balance: number
+}
+
+// ============ SSY Calculator Types ============
+
+export interface SSYParams {
+  openingAge: number // girl child's age when the account is opened
+  yearlyDeposit: number
+  interestRate: number
+  withdrawalPercent: number // share of the balance taken out at 18 (0 to skip)
+}
+
+export interface SSYYearlyBreakdown {
+  year: number
+  age: number
+  deposit: number
+  interest: number
+  withdrawal: number
+  balance: number
+}
+
+export interface SSYResult {
+  totalDeposit: number
+  totalInterest: number
+  withdrawal: number
+  withdrawalAge: number
+  maturityValue: number
+  maturityAge: number
+  breakdown: SSYYearlyBreakdown[]
+}
+
+// ============ EPF Calculator Types ============
+
+export interface EPFParams {
+  monthlyBasic: number // basic + DA
+  annualIncrement: number // percent
+  employeePercent: number
+  employerPercent: number // EPS comes out of this
+  vpfPercent: number
+  interestRate: number
+  yearsToRetirement: number
+  currentBalance: number
+  pastServiceYears: number // EPS membership so far
+}
+
+export interface EPFYearlyBreakdown {
+  year: number
+  monthlyBasic: number
+  employeeContribution: number
+  employerContribution: number // employer's EPF share, after EPS
+  vpfContribution: number
+  epsContribution: number
+  interest: number
+  taxableInterest: number // Rule 9D: interest on own contributions above the yearly limit
+  balance: number
+}
+
+export interface EPFResult {
+  finalBalance: number
+  totalEmployee: number
+  totalEmployer: number
+  totalVpf: number
+  totalInterest: number
+  totalEps: number
+  totalTaxableInterest: number
+  pensionableSalary: number
+  pensionableService: number // years, including weightage
+  pensionEligible: boolean
+  monthlyPension: number
+  breakdown: EPFYearlyBreakdown[]
+}
+
+// ============ NPS Calculator Types ============
+
+// Auto choice lifecycle funds (aggressive, moderate, conservative) or active choice
+export type NPSInvestmentChoice = 'LC75' | 'LC50' | 'LC25' | 'active'
+
+export interface NPSAllocation {
+  equity: number // percent, or expected return when used for returns
+  corporateBonds: number
+  governmentBonds: number
+}
+
+export interface NPSParams {
+  currentAge: number
+  monthlyContribution: number // own Tier I contribution
+  employerMonthly: number
+  annualStepUp: number // percent
+  currentCorpus: number
+  choice: NPSInvestmentChoice
+  activeAllocation: NPSAllocation // used with active choice
+  expectedReturns: NPSAllocation
+  annuityPercent: number // share of the corpus used to buy an annuity, at least 40
+  annuityRate: number
+}
+
+export interface NPSYearlyBreakdown {
+  age: number
+  allocation: NPSAllocation
+  contribution: number // own and employer, for the year
+  returns: number
+  corpus: number
+}
+
+export interface NPSResult {
+  retirementAge: number
+  totalContribution: number
+  totalReturns: number
+  corpus: number
+  lumpSum: number // tax-free withdrawal
+  annuityCorpus: number
+  monthlyPension: number
+  breakdown: NPSYearlyBreakdown[]
+}
+
+export interface NPSTaxBenefit {
+  deduction80CCD1B: number // own contribution over and above 80C, old regime only
+  deduction80CCD2: number // employer contribution, up to the regime's percent of basic
+  employerLimit: number
+  taxSaved: number
+}
+
+// ============ RD Calculator Types ============
+
+export interface RDSummary {
+  monthlyDeposit: number
+  totalDeposit: number
+  totalInterest: number
+  maturityValue: number
+  effectiveReturn: number
+}
+
+export interface RDQuarterlyBreakdown {
+  quarter: number
+  deposit: number
+  interest: number
+  balance: number
+}
+
+// ============ CAGR Calculator Types ============
+
+export interface CAGRSummary {
+  initialValue: number
+  finalValue: number
+  years: number
+  cagr: number
+  totalReturn: number
+  totalReturnPercent: number
+}
+
+// ============ Gratuity Calculator Types ============
+
+export interface GratuityResult {
+  basicSalary: number
+  yearsOfService: number
+  gratuityAmount: number
+  taxableAmount: number
+  taxFreeAmount: number
+}
+
+// ============ HRA Calculator Types ============
+
+export interface HRAResult {
+  actualHRA: number
+  rentPaid: number
+  basicPercent: number
+  rentMinusBasicPercent: number
+  exemptedHRA: number
+  taxableHRA: number
+  annualTaxSaving: number
+}
+
+// ============ GST Calculator Types ============
+
+export interface GSTResult {
+  originalAmount: number
+  gstRate: number
+  gstAmount: number
+  totalAmount: number
+  cgst: number
+  sgst: number
+  igst: number
+}
+
+// ============ Retirement Planner Types ============
+
+export type RetirementSavingsSource = 'epf' | 'ppf' | 'nps' | 'other'
+
+export interface RetirementSaving {
+  balance: number // today
+  rate: number // expected growth until retirement, percent
+}
+
+export interface RetirementParams {
+  currentAge: number
+  retirementAge: number
+  lifeExpectancy: number
+  monthlyExpenses: number // in today's money
+  inflation: number
+  preRetirementReturn: number // on the SIP still to be invested
+  postRetirementReturn: number // on the corpus while drawing it down
+  savings: Record<RetirementSavingsSource, RetirementSaving>
+}
+
+export interface RetirementDrawdownYear {
+  age: number
+  openingBalance: number
+  withdrawal: number
+  returns: number
+  closingBalance: number
+}
+
+export interface RetirementResult {
+  yearsToRetirement: number
+  yearsInRetirement: number
+  monthlyExpenseAtRetirement: number
+  requiredCorpus: number
+  savingsAtRetirement: Record<RetirementSavingsSource, number>
+  existingCorpus: number // all existing savings at retirement
+  corpusGap: number
+  requiredSIP: number
+  projectedCorpus: number // existing savings plus the required SIP
+  drawdown: RetirementDrawdownYear[]
+}
+
+// ============ Goal Calculator Types ============
+
+export interface GoalResult {
+  targetAmount: number
+  currentSavings: number
+  timeYears: number
+  expectedReturn: number
+  amountNeeded: number
+  monthlySIP: number
+  lumpsumRequired: number
+  totalInvestment: number
+  wealthGained: number
+}
+
+// ============ BMI Calculator Types ============
+
+export interface BMIResult {
+  bmi: number
+  category: string
+  categoryColor: string
+  healthRisk: string
+  idealWeightMin: number
+  idealWeightMax: number
+}
+
+export interface TargetPlan {
+  targetBMI: number
+  targetWeight: number
+  weightChange: number
+  direction: 'lose' | 'gain' | 'maintain'
+  weeklyChange: number
+  estimatedWeeks: number
+}
+
+// ============ Cost of Living Types ============
+
+export interface COLResult {
+  fromCity: string
+  toCity: string
+  currentSalary: number
+  equivalentSalary: number
+  colIndex: number
+  difference: number
+  differencePercent: number
+}
+
+// ============ Trip Budget Types ============
+
+export interface TripResult {
+  totalBudget: number
+  perPersonBudget: number
+  perDayBudget: number
+  breakdown: {
+    flights: number
+    accommodation: number
+    food: number
+    transport: number
+    activities: number
+    shopping: number
+    misc: number
+  }
+}
+
+// ============ Currency Types ============
+
+export interface ExchangeRates {
+  [key: string]: number
+}
+
+// ============ World Clock Types ============
+
+export interface CityTime {
+  id: string
+  city: string
+  country: string
+  timezone: string
+  offset: number
+  time: string
+  date: string
+  isDaytime: boolean
+}
+
+// ============ Salary Calculator Types ============
+
+export interface TaxSlabBreakdown {
+  slab: string
+  range: string
+  rate: number
+  taxableAmount: number
+  tax: number
+}
+
+export interface EmployerCostOptions {
+  enabled: boolean // take employer PF, EDLI, admin, gratuity and ESI out of CTC before gross
+  pfWageCeiling: boolean // PF on basic capped at ₹15,000 instead of full basic
+  includeGratuity: boolean
+}
+
+export interface SalaryResult {
+  grossSalary: number
+  basicSalary: number
+  hra: number
+  specialAllowance: number
+  pf: number
+  employeeEsi: number
+  professionalTax: number
+  incomeTax: number
+  netSalary: number
+  annualCTC: number
+  // Monthly employer costs inside CTC; all zero when CTC is taken as gross
+  employerEpf: number
+  employerEps: number
+  edli: number
+  pfAdmin: number
+  gratuityProvision: number
+  employerEsi: number
+  esiApplicable: boolean
+  annualNet: number
+  taxableIncome: number
+  slabBreakdown: TaxSlabBreakdown[]
+  slabTax: number
+  rebate: number
+  rebateMarginalRelief: number
+  surchargeRate: number
+  surcharge: number
+  surchargeMarginalRelief: number
+  totalTaxBeforeCess: number
+  cess: number
+}
+
+export interface SalaryOptimizerParams {
+  ctc: number // annual, including the employer's NPS contribution
+  rentPaid: number // monthly
+  isMetro: boolean
+  pfPercent: number // employee PF, percent of basic
+  professionalTax: number // monthly
+  phoneBills: number // monthly telephone and internet bills
+  travelSpend: number // annual travel cost that LTA can be claimed against
+  includeNps: boolean // whether the employer offers NPS under 80CCD(2)
+  fy: FinancialYear
+}
+
+// Annual amounts for one salary structure
+export interface SalaryStructure {
+  regime: TaxRegime
+  basicPercent: number // percent of CTC
+  basic: number
+  hra: number
+  employerNps: number
+  mealCard: number
+  telephone: number
+  lta: number
+  specialAllowance: number
+  employeePf: number
+  exemptions: number // HRA, LTA, meal card and telephone reimbursement
+  deductions: number // standard deduction, professional tax and 80C
+  taxableIncome: number
+  tax: number // including cess
+  takeHome: number // CTC less tax and professional tax; PF and NPS remain the employee's savings
+  monthlyInHand: number
+  explanation: string[]
+}
+
+export interface SalaryOptimizerResult {
+  old: SalaryStructure
+  new: SalaryStructure
+  best: TaxRegime
+}
+
+// One-time payment in the payroll year; month 0 is April
+export interface PayrollBonus {
+  id: number
+  month: number
+  amount: number
+}
+
+export interface PayrollParams {
+  ctc: number // annual, before any increment; includes variable pay
+  basicPercent: number
+  hraPercent: number
+  pfPercent: number
+  professionalTax: number // monthly
+  professionalTaxByMonth?: number[] // April to March, in place of the flat monthly amount
+  labourWelfareFundByMonth?: number[] // employee share, April to March
+  regime: TaxRegime
+  fy: FinancialYear
+  joiningMonth: number // 0 = April; no salary before it
+  incrementPercent: number // applied to the fixed pay
+  incrementMonth: number
+  variablePay: number // annual, paid once in variablePayMonth
+  variablePayMonth: number
+  bonuses: PayrollBonus[]
+  previousEmployerIncome: number // taxable salary declared in Form 12B
+  previousEmployerTds: number
+}
+
+export interface PayrollMonth {
+  month: string // e.g. 'Apr 2025'
+  employed: boolean
+  basic: number
+  hra: number
+  specialAllowance: number
+  oneTime: number // bonus and variable pay
+  gross: number
+  pf: number
+  professionalTax: number
+  labourWelfareFund: number
+  projectedTax: number // annual tax on salary paid so far plus the projected regular salary
+  tds: number
+  netPay: number
+}
+
+export interface PayrollResult {
+  months: PayrollMonth[]
+  totalGross: number
+  totalPf: number
+  totalTds: number
+  totalNet: number
+  taxableIncome: number // including the previous employer's salary
+  annualTax: number
+  balanceTax: number // annual tax not covered by TDS of both employers; negative is a refund
+}
+
+// ============ State Levy Types ============
+
+export type IndianState =
+  | 'maharashtra'
+  | 'karnataka'
+  | 'west-bengal'
+  | 'tamil-nadu'
+  | 'telangana'
+  | 'andhra-pradesh'
+  | 'gujarat'
+  | 'delhi'
+  | 'uttar-pradesh'
+
+export type Gender = 'male' | 'female'
+
+export interface ProfessionalTaxSlab {
+  upTo: number // gross for the period, inclusive
+  amount: number
+  february?: number // Maharashtra and Karnataka collect more in February to reach ₹2,500 a year
+}
+
+export interface ProfessionalTaxRule {
+  frequency: 'monthly' | 'half-yearly' // half-yearly slabs apply to six months' gross, deducted in Sep and Mar
+  slabs: ProfessionalTaxSlab[]
+  femaleSlabs?: ProfessionalTaxSlab[]
+}
+
+export interface LabourWelfareFundRule {
+  employee: number // per deduction
+  employer: number
+  months: number[] // months it is deducted, 0 = April
+}
+
+export interface StateLevyRules {
+  name: string
+  professionalTax: ProfessionalTaxRule | null
+  labourWelfareFund: LabourWelfareFundRule | null
+}
+
+export interface StateLeviesResult {
+  professionalTaxByMonth: number[] // April to March
+  annualProfessionalTax: number
+  labourWelfareFundByMonth: number[] // employee share, April to March
+  annualLabourWelfareFund: number
+  employerLabourWelfareFund: number // annual
+  genderSpecific: boolean
+}
+
+// ============ Real Estate Capital Gains Types ============
+
+export interface PropertyDetails {
+  propertyType: 'residential' | 'commercial' | 'land'
+  purchaseDate: string
+  purchasePrice: number
+  stampDuty: number
+  improvementCost: number
+  improvementDate: string
+  saleDate: string
+  salePrice: number
+  brokerage: number
+  legalFees: number
+}
+
+export interface CapitalGainsResult {
+  holdingPeriod: { months: number; years: number; isLongTerm: boolean }
+  purchaseCII: number
+  saleCII: number
+  indexedPurchaseCost: number
+  indexedImprovementCost: number
+  totalIndexedCost: number
+  transferExpenses: number
+  netSaleConsideration: number
+  capitalGain: number
+  taxRate: number
+  taxBeforeCess: number
+  cess: number
+  totalTax: number
+  netProceeds: number
+  useNewRegime: boolean
+  // For pre-July 2024 properties - compare both regimes
+  canChooseRegime: boolean
+  oldRegime?: {
+    capitalGain: number
+    taxRate: number
+    totalTax: number
+    netProceeds: number
+  }
+  newRegime?: {
+    capitalGain: number
+    taxRate: number
+    totalTax: number
+    netProceeds: number
+  }
+  recommendedRegime?: 'old' | 'new'
+}
+
+export interface ExemptionStrategy {
+  section: string
+  name: string
+  description: string
+  maxExemption: number
+  investmentRequired: number
+  taxSaved: number
+  deadline: Date
+  lockInYears: number
+  isEligible: boolean
+  notes: string[]
+  // Bond-specific details for 54EC
+  bondDetails?: {
+    interestRate: number
+    totalInterest: number
+    maturityValue: number
+    taxOnInterest: number // Interest taxed at slab rate (assuming 30%)
+    netMaturityValue: number
+    // Remaining amount calculation (for capital gain > 50L)
+    remainingGain: number // Capital gain beyond 50L exemption
+    taxOnRemainingGain: number // LTCG tax on remaining
+    remainingCash: number // Cash after bond investment and remaining tax
+    fdRate: number // FD interest rate assumption
+    fdInterest: number // FD interest earned over lock-in period
+    fdMaturityValue: number // FD principal + interest
+    taxOnFdInterest: number // Tax on FD interest at slab rate
+    netFdMaturityValue: number // FD after tax
+    totalNetCashInHand: number // Bonds + FD (both after tax)
+  }
+  // Section 54/54F property projections
+  propertyProjection?: {
+    originalPropertyCAGR: number // Annual appreciation rate of sold property
+    appreciationRate: number // User-selected appreciation rate for new property
+    projectedPropertyValue: number // Value after lock-in period
+    capitalAppreciation: number // Property value increase
+    rentalEnabled: boolean
+    monthlyRent: number
+    rentStartMonth: number // Which month rent collection starts
+    totalRentalIncome: number // Total rent collected over lock-in
+    totalReturns: number // Appreciation + Rental - Investment
+    annualizedReturn: number // CAGR of total returns
+    // Tax breakdown for net proceeds
+    taxSlab: number // User's income tax slab (10/20/30%)
+    taxOnRentalIncome: number // Tax on rental income at slab rate
+    taxOnAppreciation: number // LTCG tax on property appreciation (12.5%)
+    totalTaxOnReturns: number // Total tax on returns
+    // Remaining cash invested in FD (Section 54)
+    remainingCash?: number // Cash not invested in property
+    fdRate?: number // FD interest rate assumption
+    fdInterest?: number // FD interest earned over lock-in period
+    fdMaturityValue?: number // FD principal + interest
+    taxOnFdInterest?: number // Tax on FD interest at slab rate
+    netFdMaturityValue?: number // Net FD returns after tax
+    // Total
+    netCashInHand: number // Final amount after all taxes (property + FD)
+    comparisonWithoutExemption: {
+      taxPaid: number
+      investedAmount: number // After-tax amount if invested elsewhere
+      returnAt8Percent: number // Assuming 8% FD/debt returns
+      taxOnFDReturns: number // Tax on FD interest at slab rate
+      netFDReturns: number // Net FD returns after tax
+    }
+  }
+}
+
+// State for Section 54 projections
+export interface Section54ProjectionState {
+  appreciationRate: number
+  enableRental: boolean
+  monthlyRent: number
+  rentStartMonth: number // Months after purchase when rent starts (e.g., 0 = immediate, 12 = after 1 year)
+  taxSlab: number // User's income tax slab percentage (0/5/10/15/20/30)
+}
+
+// Reinvestment allocation state - how to allocate sale proceeds after tax
+export interface ReinvestmentAllocation {
+  // Personal use/obligations - money taken out for personal needs
+  personalUse: {
+    enabled: boolean
+    amount: number
+  }
+  // Section 54EC bonds investment
+  bonds: {
+    enabled: boolean
+    amount: number
+  }
+  // Real estate reinvestment with rental projections
+  realEstate: {
+    enabled: boolean
+    amount: number
+    appreciationRate: number
+    enableRental: boolean
+    monthlyRent: number
+    rentStartMonth: number
+  }
+}
+
+// Projected value of each reinvestment bucket at the end of its lock-in
+export interface ReinvestmentProjection {
+  netProceeds: number
+  maxBondAmount: number
+  personalUseAmount: number
+  bondsAmount: number
+  realEstateAmount: number
+  unallocated: number
+  remainingAfterPersonalAndBonds: number
+  bonds: {
+    interestRate: number
+    lockInYears: number
+    totalInterest: number
+    maturityValue: number
+    taxOnInterest: number
+    netValue: number
+  }
+  realEstate: {
+    lockInYears: number
+    appreciationRate: number
+    projectedValue: number
+    capitalAppreciation: number
+    rentMonths: number
+    totalRental: number
+    totalReturns: number
+    taxOnRent: number
+    taxOnAppreciation: number
+    totalTax: number
+    netValue: number
+  }
+  totalProjectedValue: number
+}
+
+export interface SplitBracketParams {
+  additionalIncome: number
+  currentTaxableIncome: number
+  regime: TaxRegime
+  fy: FinancialYear
+  includeCess?: boolean
+}
+
+export interface SplitBracketResult {
+  tax: number
+  breakdown: Array<{ rate: number; amount: number; tax: number }>
+  effectiveRate: number
+}
+
+// Salary data for split-bracket calculations
+export interface SalaryDataForCalc {
+  usingSalaryRate: boolean
+  taxableIncome: number
+  regime: TaxRegime
+  fy: FinancialYear
+}
+
 // ============ History Types ============
 
 export interface CalculationHistory {
@@ -223,3 +1486,112 @@ export interface CalculationHistory {
   userId?: string
   isSynced: boolean
 }
+
+// ============ XIRR Types ============
+
+export type XIRRTransactionType = 'invest' | 'withdraw'
+
+export interface XIRRTransaction {
+  date: string // 'YYYY-MM-DD'
+  amount: number // always positive; the type gives the direction
+  type: XIRRTransactionType
+}
+
+export interface XIRRImportResult {
+  transactions: XIRRTransaction[]
+  skipped: number // rows without a readable date or amount
+}
+
+export interface XIRRSummary {
+  xirr: number | null // percent
+  totalInvested: number
+  totalWithdrawn: number
+  currentValue: number
+  netGain: number // withdrawals plus current value, less investments
+  absoluteReturn: number // percent of total invested
+  firstDate: string | null
+  valuationDate: string
+}
+
+// ============ SWP Types ============
+
+// Equity fund the corpus sits in, taken as a single purchase lot
+export interface SWPTaxParams {
+  costBasis: number // amount originally invested for the corpus
+  monthsHeld: number // how long the corpus has already been held at the start
+}
+
+export interface SWPParams {
+  corpus: number
+  monthlyWithdrawal: number
+  expectedReturn: number // % p.a.
+  withdrawalIncrease: number // % a year, applied every 12 months
+  years: number
+  startMonth: string // first withdrawal, 'YYYY-MM'
+  tax?: SWPTaxParams
+}
+
+export interface SWPMonth {
+  month: number // 1-based
+  date: string // 'YYYY-MM'
+  openingBalance: number
+  returns: number
+  withdrawal: number
+  closingBalance: number
+  shortTermGain: number
+  longTermGain: number
+}
+
+export interface SWPTaxYear {
+  fy: string // e.g. '2025-26'
+  withdrawn: number
+  shortTermGain: number
+  longTermGain: number
+  exemption: number // Section 112A exemption used
+  tax: number // including cess
+}
+
+export interface SWPResult {
+  months: SWPMonth[]
+  totalWithdrawn: number
+  totalReturns: number
+  finalBalance: number
+  depletionMonth: number | null // month the corpus runs out, if within the horizon
+  depletionDate: string | null
+  taxYears: SWPTaxYear[] // empty unless tax is computed
+  totalTax: number
+}
+
+// ============ STP Types ============
+
+export interface STPParams {
+  amount: number // lump sum parked in the source fund
+  monthlyTransfer: number
+  sourceReturn: number // % p.a., e.g. a liquid fund
+  targetReturn: number // % p.a., e.g. an equity fund
+  years: number
+}
+
+export interface STPMonth {
+  month: number // 1-based
+  transfer: number
+  sourceBalance: number // end of month
+  targetBalance: number
+  lumpsumValue: number // the full amount invested in the target fund on day one
+}
+
+export interface STPResult {
+  months: STPMonth[]
+  transferMonths: number // months until the source fund is empty
+  totalTransferred: number // lump sum plus what the source fund earned meanwhile
+  sourceEarnings: number
+  finalValue: number // source plus target at the end
+  lumpsumValue: number
+  difference: number // finalValue - lumpsumValue
+}
+
+export interface STPSettings {
+  enabled: boolean
+  monthlyTransfer: number
+  sourceReturn: number
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { calculateAdvanceTax, getAdvanceTaxSchedule } from '@/lib/calculations/advanceTax'
+
+const base = {
+  fy: '2025-26' as const,
+  totalTax: 200000,
+  tds: 0,
+  payments: [],
+  presumptive: false,
+  balancePaymentDate: '2026-07-31',
+}
+
+describe('getAdvanceTaxSchedule', () => {
+  it('places installments in the financial year', () => {
+    expect(getAdvanceTaxSchedule('2025-26', false).map((i) => i.dueDate)).toEqual([
+      '2025-06-15',
+      '2025-09-15',
+      '2025-12-15',
+      '2026-03-15',
+    ])
+    expect(getAdvanceTaxSchedule('2025-26', true)).toEqual([{ dueDate: '2026-03-15', cumulativePercent: 100 }])
+  })
+})
+
+describe('calculateAdvanceTax', () => {
+  it('charges 234C and 234B when nothing is paid', () => {
+    const result = calculateAdvanceTax(base)
+
+    expect(result.installments.map((i) => i.interest234C)).toEqual([900, 2700, 4500, 2000])
+    expect(result.months234B).toBe(4)
+    expect(result.interest234B).toBe(8000)
+    expect(result.balancePayable).toBe(200000)
+  })
+
+  it('charges no interest when every installment is paid on time', () => {
+    const result = calculateAdvanceTax({
+      ...base,
+      payments: [
+        { id: 1, date: '2025-06-15', amount: 30000 },
+        { id: 2, date: '2025-09-15', amount: 60000 },
+        { id: 3, date: '2025-12-15', amount: 60000 },
+        { id: 4, date: '2026-03-15', amount: 50000 },
+      ],
+    })
+
+    expect(result.totalInterest).toBe(0)
+    expect(result.balancePayable).toBe(0)
+  })
+
+  it('waives June and September interest within the 12% and 36% thresholds', () => {
+    const result = calculateAdvanceTax({
+      ...base,
+      payments: [
+        { id: 1, date: '2025-06-10', amount: 24000 },
+        { id: 2, date: '2025-09-10', amount: 48000 },
+        { id: 3, date: '2025-12-10', amount: 78000 },
+        { id: 4, date: '2026-03-10', amount: 50000 },
+      ],
+    })
+
+    expect(result.interest234C).toBe(0)
+    expect(result.interest234B).toBe(0)
+  })
+
+  it('nets TDS and skips interest below the ₹10,000 threshold', () => {
+    const result = calculateAdvanceTax({ ...base, tds: 192000 })
+
+    expect(result.assessedTax).toBe(8000)
+    expect(result.liable).toBe(false)
+    expect(result.totalInterest).toBe(0)
+  })
+
+  it('only charges the March installment for presumptive income', () => {
+    const result = calculateAdvanceTax({ ...base, presumptive: true })
+
+    expect(result.installments).toHaveLength(1)
+    expect(result.interest234C).toBe(2000)
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { backtestSIP } from '@/lib/calculations/backtest'
+import { getMonthlyLevels, INDEX_SERIES } from '@/lib/calculations/indexHistory'
+import { calculateSIPFutureValue } from '@/lib/calculations/sip'
+
+describe('getMonthlyLevels', () => {
+  it('interpolates yearly closes into monthly levels', () => {
+    const levels = getMonthlyLevels(INDEX_SERIES.sensex)
+    const dec2009 = levels.find((l) => l.month === '2009-12')!
+    const dec2010 = levels.find((l) => l.month === '2010-12')!
+
+    expect(levels[0]).toEqual({ month: '1999-12', level: 5005.82 })
+    expect(dec2009.level).toBeCloseTo(17464.81, 2)
+    expect(dec2010.level).toBeCloseTo(20509.09, 2)
+    expect(levels[levels.length - 1].month).toBe('2024-12')
+  })
+})
+
+describe('backtestSIP', () => {
+  it('runs a Nifty 50 SIP from 2010 to the latest level', () => {
+    const result = backtestSIP({ seriesId: 'nifty50', monthlyInvestment: 10000, startMonth: '2010-01', projectedRate: 12 })!
+
+    expect(result.months).toBe(179)
+    expect(result.totalInvested).toBe(1790000)
+    expect(result.finalValue).toBe(4762070)
+    expect(result.xirr).toBeCloseTo(12.13, 2)
+    expect(result.projectedValue).toBe(Math.round(calculateSIPFutureValue(10000, 12, 179)))
+  })
+
+  it('finds the 2008 crash as the maximum drawdown of the SIP value', () => {
+    const result = backtestSIP({
+      seriesId: 'sensex',
+      monthlyInvestment: 5000,
+      startMonth: '2005-01',
+      endMonth: '2012-12',
+      projectedRate: 12,
+    })!
+
+    expect(result.drawdownPeak).toBe('2007-12')
+    expect(result.drawdownTrough).toBe('2008-12')
+    expect(result.maxDrawdown).toBeCloseTo(39.9, 1)
+  })
+
+  it('labels the bundled equity series as yearly price-index data', () => {
+    expect(INDEX_SERIES.nifty50.frequency).toBe('yearly')
+    expect(INDEX_SERIES.nifty50.name).toContain('price')
+    expect(INDEX_SERIES.sensex.name).toContain('price')
+  })
+
+  it('returns null for months outside the series', () => {
+    expect(backtestSIP({ seriesId: 'gold', monthlyInvestment: 5000, startMonth: '1995-01', projectedRate: 8 })).toBeNull()
+  })
+})
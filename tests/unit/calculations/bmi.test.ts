@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { calculateBMI, calculateTargetPlan, getBMICategory } from '@/lib/calculations/bmi'
+
+describe('calculateBMI', () => {
+  it('calculates BMI and the ideal weight range', () => {
+    const result = calculateBMI(70, 175, 30, 'male')
+
+    expect(result.bmi).toBe(22.9)
+    expect(result.category).toBe('Normal')
+    expect(result.idealWeightMin).toBe(61.3)
+    expect(result.idealWeightMax).toBe(76.6)
+  })
+
+  it('treats mild overweight as low risk for seniors', () => {
+    const result = calculateBMI(82, 175, 70, 'female')
+
+    expect(result.category).toBe('Overweight')
+    expect(result.healthRisk).toBe('Low')
+  })
+})
+
+describe('getBMICategory', () => {
+  it('uses WHO boundaries', () => {
+    expect(getBMICategory(18.4).label).toBe('Mild Thinness')
+    expect(getBMICategory(25).label).toBe('Overweight')
+    expect(getBMICategory(150).label).toBe('Obese Class III')
+  })
+})
+
+describe('calculateTargetPlan', () => {
+  it('estimates weeks to reach a target BMI', () => {
+    const plan = calculateTargetPlan(90, 175, 22)
+
+    expect(plan.direction).toBe('lose')
+    expect(plan.targetWeight).toBe(67.4)
+    expect(plan.estimatedWeeks).toBe(46)
+  })
+})
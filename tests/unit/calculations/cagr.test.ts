@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import { calculateCAGRSummary, generateCAGRProjections } from '@/lib/calculations/cagr'
+import { calculateFutureValue } from '@/lib/calculations/lumpsum'
+
+describe('calculateCAGRSummary', () => {
+  it('annualises the growth between two values', () => {
+    const summary = calculateCAGRSummary(100000, 200000, 5)
+
+    expect(summary.cagr).toBe(14.87)
+    expect(summary.totalReturnPercent).toBe(100)
+  })
+
+  it('recovers the target CAGR from a projected final value', () => {
+    const projected = Math.round(calculateFutureValue(100000, 12, 8))
+
+    expect(projected).toBe(247596)
+    expect(calculateCAGRSummary(100000, projected, 8).cagr).toBe(12)
+  })
+})
+
+describe('generateCAGRProjections', () => {
+  it('projects from year 0', () => {
+    const projections = generateCAGRProjections(100000, 10, 2)
+
+    expect(projections.map((p) => p.value)).toEqual([100000, 110000, 121000])
+  })
+})
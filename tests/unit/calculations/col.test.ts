@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest'
+import { calculateCOL, CITY_COL_INDEX } from '@/lib/calculations/col'
+
+describe('calculateCOL', () => {
+  it('scales salary by the ratio of city indices', () => {
+    const ratio = CITY_COL_INDEX['New York'].index / CITY_COL_INDEX['Mumbai'].index
+    const result = calculateCOL('Mumbai', 'New York', 1000000)
+
+    expect(result.equivalentSalary).toBe(Math.round(1000000 * ratio))
+    expect(result.difference).toBe(result.equivalentSalary - 1000000)
+  })
+
+  it('falls back to the base index for unknown cities', () => {
+    expect(calculateCOL('Mumbai', 'Atlantis', 1000000).equivalentSalary).toBe(1000000)
+  })
+})
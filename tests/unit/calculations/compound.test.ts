@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateCompound,
+  calculateCompoundInterest,
+  generateCompoundBreakdown,
+  calculateCompoundRequiredPrincipal,
+  compareFrequencies,
+} from '@/lib/calculations/compound'
+
+describe('calculateCompoundInterest', () => {
+  it('compounds monthly', () => {
+    const summary = calculateCompoundInterest(100000, 8, 5, 'monthly')
+
+    expect(summary.finalAmount).toBe(148985)
+    expect(summary.totalInterest).toBe(48985)
+    expect(summary.effectiveRate).toBeCloseTo(8.3, 1)
+  })
+
+  it('adds monthly contributions without interest at zero rate', () => {
+    const summary = calculateCompoundInterest(100000, 0, 2, 'monthly', 1000)
+
+    expect(summary.finalAmount).toBe(124000)
+    expect(summary.totalInterest).toBe(0)
+  })
+
+  it('agrees with the legacy compound contract', () => {
+    const legacy = calculateCompound({
+      principal: 100000,
+      rate: 8,
+      tenure: 5,
+      compoundingFrequency: 'halfYearly',
+    })
+
+    expect(legacy.maturityAmount).toBe(calculateCompoundInterest(100000, 8, 5, 'half-yearly').finalAmount)
+  })
+})
+
+describe('generateCompoundBreakdown', () => {
+  it('ends at the final amount', () => {
+    const breakdown = generateCompoundBreakdown(100000, 8, 5, 'monthly')
+
+    expect(breakdown).toHaveLength(5)
+    expect(breakdown[4].closingBalance).toBe(148985)
+  })
+})
+
+describe('calculateCompoundRequiredPrincipal', () => {
+  it('inverts the final amount', () => {
+    expect(calculateCompoundRequiredPrincipal(148985, 8, 5, 'monthly')).toBe(100000)
+  })
+})
+
+describe('compareFrequencies', () => {
+  it('grows more with more frequent compounding', () => {
+    const comparison = compareFrequencies(100000, 8, 5)
+    const amounts = comparison.map((c) => c.finalAmount)
+
+    expect(comparison[0].difference).toBe(0)
+    expect([...amounts].sort((a, b) => a - b)).toEqual(amounts)
+  })
+})
@@ -0,0 +1,9 @@
+import { describe, it, expect } from 'vitest'
+import { convertCurrency, EXCHANGE_RATES } from '@/lib/calculations/currency'
+
+describe('convertCurrency', () => {
+  it('converts through USD rates', () => {
+    expect(convertCurrency(100, 'USD', 'INR')).toBeCloseTo(100 * EXCHANGE_RATES.INR, 6)
+    expect(convertCurrency(convertCurrency(100, 'EUR', 'JPY'), 'JPY', 'EUR')).toBeCloseTo(100, 6)
+  })
+})
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateEMI,
+  calculateEMISummary,
+  calculateAffordableLoan,
+  calculateTenure,
+  calculateMonthlyEMI,
+  calculateMonthsToRepay,
+  generateAmortization,
+  generateFloatingAmortization,
+  calculateWithPrepayments,
+  calculateRefinance,
+  calculateHomeLoanTaxBenefits,
+  financialYearOf,
+  loanMonthFromDate,
+  addMonthsToDate,
+} from '@/lib/calculations/emi'
+
+describe('calculateEMI', () => {
+  it('calculates correct EMI for standard loan', () => {
+    const result = calculateEMI({
+      principal: 5000000,
+      rate: 8.5,
+      tenure: 20,
+      tenureUnit: 'years',
+    })
+
+    expect(result.emi).toBe(43391)
+    expect(result.totalInterest).toBe(5413879)
+    expect(result.breakdown).toHaveLength(240)
+  })
+
+  it('handles zero interest rate', () => {
+    const result = calculateEMI({
+      principal: 1200000,
+      rate: 0,
+      tenure: 12,
+      tenureUnit: 'months',
+    })
+
+    expect(result.emi).toBe(100000)
+    expect(result.totalInterest).toBe(0)
+  })
+})
+
+describe('calculateEMISummary', () => {
+  it('matches the legacy EMI contract', () => {
+    const summary = calculateEMISummary(5000000, 8.5, 20)
+
+    expect(summary.emi).toBe(43391)
+    expect(summary.totalInterest).toBe(5413879)
+    expect(summary.principalPercent + summary.interestPercent).toBe(100)
+  })
+
+  it('handles zero interest rate', () => {
+    const summary = calculateEMISummary(1200000, 0, 1)
+
+    expect(summary.emi).toBe(100000)
+    expect(summary.interestPercent).toBe(0)
+  })
+})
+
+describe('loan primitives', () => {
+  it('inverts EMI into loan amount and tenure', () => {
+    const emi = calculateMonthlyEMI(1000000, 9, 120)
+
+    expect(emi).toBeCloseTo(12667.58, 2)
+    expect(calculateAffordableLoan(emi, 9, 120)).toBe(1000000)
+    expect(calculateMonthsToRepay(1000000, 9, emi)).toBe(120)
+    expect(calculateTenure(1000000, emi, 9)).toBe(120)
+  })
+
+  it('never repays when the EMI does not cover interest', () => {
+    expect(calculateMonthsToRepay(1000000, 12, 10000)).toBe(Infinity)
+  })
+
+  it('converts between loan months and calendar months', () => {
+    expect(loanMonthFromDate('2025-04', '2026-03')).toBe(12)
+    expect(addMonthsToDate('2025-11', 3)).toBe('2026-02')
+    expect(financialYearOf('2025-01', 1)).toBe('FY 2024-25')
+    expect(financialYearOf('2025-01', 4)).toBe('FY 2025-26')
+  })
+})
+
+describe('generateAmortization', () => {
+  it('pays the loan down to zero with yearly totals', () => {
+    const emi = calculateMonthlyEMI(1000000, 9, 120)
+    const { schedule, yearlyBreakdown } = generateAmortization(1000000, 9, 120, emi)
+
+    expect(schedule).toHaveLength(120)
+    expect(schedule[0].interest).toBe(7500)
+    expect(schedule[119].balance).toBe(0)
+    expect(yearlyBreakdown).toHaveLength(10)
+  })
+})
+
+describe('generateFloatingAmortization', () => {
+  it('matches the fixed-rate schedule without revisions', () => {
+    const result = generateFloatingAmortization(1000000, 9, 10, '2025-01', [])
+
+    expect(result.tenureMonths).toBe(120)
+    expect(result.initialEmi).toBe(12668)
+    expect(result.totalInterest).toBe(520109)
+  })
+
+  it('re-computes the EMI or stretches the tenure on a rate hike', () => {
+    const revisions = [{ id: 1, date: '2026-01', rate: 10, adjust: 'emi' as const }]
+    const emiAdjusted = generateFloatingAmortization(1000000, 9, 10, '2025-01', revisions)
+    const tenureAdjusted = generateFloatingAmortization(1000000, 9, 10, '2025-01', [
+      { ...revisions[0], adjust: 'tenure' },
+    ])
+
+    expect(emiAdjusted.tenureMonths).toBe(120)
+    expect(emiAdjusted.finalEmi).toBeGreaterThan(emiAdjusted.initialEmi)
+    expect(tenureAdjusted.finalEmi).toBe(tenureAdjusted.initialEmi)
+    expect(tenureAdjusted.tenureMonths).toBeGreaterThan(120)
+  })
+})
+
+describe('calculateWithPrepayments', () => {
+  const emi = calculateMonthlyEMI(1000000, 9, 120)
+  const baseline = generateAmortization(1000000, 9, 120, emi).schedule
+  const prepayments = [{ id: 1, frequency: 'once' as const, month: 12, amount: 200000, amountType: 'fixed' as const }]
+
+  it('shortens the tenure when the EMI is kept', () => {
+    const result = calculateWithPrepayments(1000000, 9, baseline, prepayments, 'tenure')
+
+    expect(result.totalPrepaid).toBe(200000)
+    expect(result.monthsSaved).toBeGreaterThan(0)
+    expect(result.interestSaved).toBeGreaterThan(0)
+  })
+
+  it('lowers the EMI when the tenure is kept', () => {
+    const result = calculateWithPrepayments(1000000, 9, baseline, prepayments, 'emi')
+
+    expect(result.monthsSaved).toBe(0)
+    expect(result.finalEmi).toBeLessThan(Math.round(emi))
+  })
+})
+
+describe('calculateRefinance', () => {
+  const emi = calculateMonthlyEMI(1000000, 9, 120)
+  const baseline = generateAmortization(1000000, 9, 120, emi).schedule
+
+  it('saves money when moving to a lower rate', () => {
+    const result = calculateRefinance(baseline, 24, 8, 0.5, 0)
+
+    expect(result).not.toBeNull()
+    expect(result!.remainingMonths).toBe(96)
+    expect(result!.newEmi).toBeLessThan(result!.currentEmi)
+    expect(result!.switchingCost).toBe(Math.round(baseline[23].balance * 0.005))
+    expect(result!.netSavings).toBeGreaterThan(0)
+  })
+
+  it('rejects a switch outside the loan', () => {
+    expect(calculateRefinance(baseline, 120, 8, 0, 0)).toBeNull()
+  })
+})
+
+describe('calculateHomeLoanTaxBenefits', () => {
+  it('caps interest under 24(b) and values deductions at slab rate plus cess', () => {
+    const emi = calculateMonthlyEMI(5000000, 8.5, 240)
+    const { schedule } = generateAmortization(5000000, 8.5, 240, emi)
+    const result = calculateHomeLoanTaxBenefits(schedule, '2025-04', 8.5, 30, 150000, false)
+    const firstYear = result.years[0]
+
+    expect(firstYear.fy).toBe('FY 2025-26')
+    expect(firstYear.deduction24b).toBe(200000)
+    expect(firstYear.deduction80C).toBe(0)
+    expect(firstYear.taxSaved).toBe(Math.round(200000 * 0.3 * 1.04))
+    expect(result.effectiveRate).toBeLessThan(8.5)
+  })
+})
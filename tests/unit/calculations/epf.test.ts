@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { calculateEPF } from '@/lib/calculations/epf'
+
+const params = {
+  monthlyBasic: 50000,
+  annualIncrement: 0,
+  employeePercent: 12,
+  employerPercent: 12,
+  vpfPercent: 0,
+  interestRate: 8.25,
+  yearsToRetirement: 1,
+  currentBalance: 0,
+  pastServiceYears: 0,
+}
+
+describe('calculateEPF', () => {
+  it('splits the employer share into EPS and EPF and credits interest on the monthly balance', () => {
+    const result = calculateEPF(params)
+    const [year] = result.breakdown
+
+    expect(year.employeeContribution).toBe(72000)
+    expect(year.epsContribution).toBe(14994)
+    expect(year.employerContribution).toBe(57006)
+    expect(year.interest).toBe(5765)
+    expect(result.finalBalance).toBe(134771)
+    expect(year.taxableInterest).toBe(0)
+  })
+
+  it('taxes interest on own contributions above ₹2.5 lakh a year', () => {
+    const result = calculateEPF({ ...params, monthlyBasic: 200000, vpfPercent: 12, yearsToRetirement: 2 })
+
+    expect(result.breakdown[0].taxableInterest).toBeGreaterThan(0)
+    expect(result.breakdown[1].taxableInterest).toBeGreaterThan(result.breakdown[0].taxableInterest)
+  })
+
+  it('estimates the EPS pension on the ₹15,000 wage ceiling', () => {
+    const eligible = calculateEPF({ ...params, yearsToRetirement: 25, pastServiceYears: 5 })
+
+    expect(eligible.pensionableSalary).toBe(15000)
+    expect(eligible.pensionableService).toBe(32)
+    expect(eligible.monthlyPension).toBe(6857)
+
+    const tooShort = calculateEPF({ ...params, yearsToRetirement: 5, pastServiceYears: 3 })
+    expect(tooShort.pensionEligible).toBe(false)
+    expect(tooShort.monthlyPension).toBe(0)
+  })
+})
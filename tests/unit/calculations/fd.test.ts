@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateFD,
+  calculateFDMaturity,
+  calculateFDForRate,
+  calculateFDRequiredPrincipal,
+  generateFDBreakdown,
+} from '@/lib/calculations/fd'
+
+describe('calculateFDMaturity', () => {
+  it('compounds quarterly for cumulative deposits', () => {
+    const result = calculateFDMaturity(100000, 7, 60, 'quarterly', 'maturity')
+
+    expect(result.maturityAmount).toBe(141478)
+    expect(result.totalInterest).toBe(41478)
+  })
+
+  it('pays simple interest out for periodic payouts', () => {
+    const result = calculateFDMaturity(100000, 7, 60, 'quarterly', 'monthly')
+
+    expect(result.totalInterest).toBe(35000)
+    expect(result.maturityAmount).toBe(135000)
+  })
+
+  it('agrees with the legacy FD contract', () => {
+    const legacy = calculateFD({
+      principal: 100000,
+      rate: 7,
+      tenure: 5,
+      tenureUnit: 'years',
+      compoundingFrequency: 'quarterly',
+    })
+
+    expect(legacy.maturityAmount).toBe(calculateFDForRate(100000, 7, 60, 'quarterly').maturityAmount)
+  })
+})
+
+describe('generateFDBreakdown', () => {
+  it('covers a partial final year', () => {
+    const breakdown = generateFDBreakdown(100000, 7, 18, 'quarterly')
+
+    expect(breakdown).toHaveLength(2)
+    expect(breakdown[1].balance).toBe(calculateFDForRate(100000, 7, 18, 'quarterly').maturityAmount)
+  })
+})
+
+describe('calculateFDRequiredPrincipal', () => {
+  it('inverts the maturity amount', () => {
+    expect(calculateFDRequiredPrincipal(141478, 7, 60, 'quarterly')).toBe(100000)
+  })
+})
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest'
+import { calculateGoal } from '@/lib/calculations/goal'
+
+describe('calculateGoal', () => {
+  it('finds the monthly SIP for a goal from scratch', () => {
+    const result = calculateGoal(1000000, 0, 10, 12)
+
+    expect(result.monthlySIP).toBe(4304)
+    expect(result.lumpsumRequired).toBe(321973)
+  })
+
+  it('needs nothing more once current savings outgrow the target', () => {
+    const result = calculateGoal(1000000, 500000, 10, 12)
+
+    expect(result.amountNeeded).toBe(0)
+    expect(result.monthlySIP).toBe(0)
+  })
+})
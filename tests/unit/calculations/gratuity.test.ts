@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import { calculateGratuity } from '@/lib/calculations/gratuity'
+
+describe('calculateGratuity', () => {
+  it('uses 15/26 of last drawn salary per year under the Act', () => {
+    const result = calculateGratuity(50000, 0, 10, 0, true)
+
+    expect(result.gratuityAmount).toBe(288462)
+    expect(result.taxableAmount).toBe(0)
+  })
+
+  it('uses 15/30 outside the Act', () => {
+    expect(calculateGratuity(50000, 0, 10, 0, false).gratuityAmount).toBe(250000)
+  })
+
+  it('counts six months or more as a full year', () => {
+    expect(calculateGratuity(50000, 0, 5, 7, true).yearsOfService).toBe(6)
+    expect(calculateGratuity(50000, 0, 5, 3, true).yearsOfService).toBe(5)
+  })
+
+  it('taxes the amount above the ₹20L exemption', () => {
+    const result = calculateGratuity(200000, 0, 30, 0, true)
+
+    expect(result.taxFreeAmount).toBe(2000000)
+    expect(result.taxableAmount).toBe(result.gratuityAmount - 2000000)
+  })
+})
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest'
+import { calculateGST } from '@/lib/calculations/gst'
+
+describe('calculateGST', () => {
+  it('adds GST and splits it into CGST and SGST within a state', () => {
+    const result = calculateGST(1000, 18, false, false)
+
+    expect(result.gstAmount).toBe(180)
+    expect(result.totalAmount).toBe(1180)
+    expect(result.cgst).toBe(90)
+    expect(result.sgst).toBe(90)
+    expect(result.igst).toBe(0)
+  })
+
+  it('extracts GST from an inclusive amount as IGST across states', () => {
+    const result = calculateGST(1180, 18, true, true)
+
+    expect(result.originalAmount).toBe(1000)
+    expect(result.igst).toBe(180)
+    expect(result.cgst).toBe(0)
+  })
+})
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest'
+import { calculateHRA } from '@/lib/calculations/hra'
+
+describe('calculateHRA', () => {
+  it('exempts the least of HRA, salary share and excess rent', () => {
+    const result = calculateHRA(50000, 0, 25000, 20000, true)
+
+    expect(result.basicPercent).toBe(25000)
+    expect(result.rentMinusBasicPercent).toBe(15000)
+    expect(result.exemptedHRA).toBe(15000)
+    expect(result.taxableHRA).toBe(10000)
+  })
+
+  it('uses 40% of salary outside metros', () => {
+    expect(calculateHRA(50000, 0, 25000, 40000, false).exemptedHRA).toBe(20000)
+  })
+
+  it('exempts nothing when rent is below 10% of salary', () => {
+    expect(calculateHRA(50000, 0, 25000, 4000, true).exemptedHRA).toBe(0)
+  })
+})
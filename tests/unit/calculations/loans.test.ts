@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { simulatePortfolio, rollUpPortfolioYears } from '@/lib/calculations/loans'
+
+const loans = [
+  { id: 1, name: 'Car Loan', balance: 500000, rate: 9, tenureYears: 5 },
+  { id: 2, name: 'Personal Loan', balance: 200000, rate: 14, tenureYears: 3 },
+]
+
+describe('simulatePortfolio', () => {
+  it('pays every loan on its own schedule with no extra budget', () => {
+    const result = simulatePortfolio(loans, 0, 'minimum')
+
+    expect(result.debtFreeMonth).toBe(60)
+    expect(result.payoffs.map((p) => p.payoffMonth)).toEqual([36, 60])
+    expect(result.totalPaid - result.totalInterest).toBeCloseTo(700000, -1)
+  })
+
+  it('becomes debt-free sooner and cheaper with an extra budget', () => {
+    const minimum = simulatePortfolio(loans, 0, 'minimum')
+    const avalanche = simulatePortfolio(loans, 10000, 'avalanche')
+
+    expect(avalanche.debtFreeMonth).toBeLessThan(minimum.debtFreeMonth)
+    expect(avalanche.totalInterest).toBeLessThan(minimum.totalInterest)
+  })
+
+  it('targets the highest rate under avalanche and the smallest balance under snowball', () => {
+    const mixed = [
+      { id: 1, name: 'Small', balance: 100000, rate: 10, tenureYears: 5 },
+      { id: 2, name: 'Costly', balance: 400000, rate: 16, tenureYears: 5 },
+    ]
+
+    expect(simulatePortfolio(mixed, 15000, 'avalanche').payoffs[0].name).toBe('Costly')
+    expect(simulatePortfolio(mixed, 15000, 'snowball').payoffs[0].name).toBe('Small')
+  })
+})
+
+describe('portfolio schedule', () => {
+  it('has one row per month until the last loan closes', () => {
+    const result = simulatePortfolio(loans, 0, 'minimum')
+
+    expect(result.schedule).toHaveLength(60)
+    expect(result.schedule.map((row) => row.month)).toEqual(Array.from({ length: 60 }, (_, i) => i + 1))
+    expect(result.schedule[0].payments[2]).toBe(result.payoffs.find((p) => p.id === 2)!.emi)
+    expect(result.schedule[36].payments[2]).toBeUndefined()
+    expect(result.schedule[59].balance).toBe(0)
+  })
+
+  it('shows the month a loan closes under avalanche', () => {
+    const result = simulatePortfolio(loans, 10000, 'avalanche')
+    const closing = result.payoffs[0].payoffMonth
+
+    expect(result.schedule[closing - 1].payments[2]).toBeGreaterThan(0)
+    expect(result.schedule[closing].payments[2]).toBeUndefined()
+  })
+
+  it('rolls months up into years', () => {
+    const result = simulatePortfolio(loans, 10000, 'avalanche')
+    const years = rollUpPortfolioYears(result.schedule)
+
+    expect(years).toHaveLength(Math.ceil(result.debtFreeMonth / 12))
+    expect(years[0].totalPayment).toBe(result.schedule.slice(0, 12).reduce((sum, row) => sum + row.totalPayment, 0))
+    expect(years[0].balance).toBe(result.schedule[11].balance)
+    expect(years[years.length - 1].balance).toBe(0)
+  })
+})
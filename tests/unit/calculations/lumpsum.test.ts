@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateLumpsumSummary,
+  generateLumpsumBreakdown,
+  calculateRequiredInvestment,
+  calculateRequiredTime,
+  calculateRequiredRate,
+  calculateCAGR,
+} from '@/lib/calculations/lumpsum'
+
+describe('calculateLumpsumSummary', () => {
+  it('compounds annually', () => {
+    const summary = calculateLumpsumSummary(100000, 12, 10)
+
+    expect(summary.totalValue).toBe(310585)
+    expect(summary.estimatedReturns).toBe(210585)
+  })
+})
+
+describe('generateLumpsumBreakdown', () => {
+  it('chains closing balance into the next opening balance', () => {
+    const breakdown = generateLumpsumBreakdown(100000, 12, 3)
+
+    expect(breakdown[0].closingBalance).toBe(112000)
+    expect(breakdown[1].openingBalance).toBe(112000)
+    expect(breakdown[2].closingBalance).toBe(140493)
+  })
+})
+
+describe('goal planning', () => {
+  it('solves for investment, time and rate', () => {
+    expect(calculateRequiredInvestment(310585, 12, 10)).toBeCloseTo(100000, 0)
+    expect(calculateRequiredTime(100000, 200000, 12)).toBeCloseTo(6.12, 2)
+    expect(calculateRequiredRate(100000, 310585, 10)).toBeCloseTo(12, 2)
+  })
+})
+
+describe('calculateCAGR', () => {
+  it('returns zero for invalid inputs', () => {
+    expect(calculateCAGR(0, 100, 5)).toBe(0)
+    expect(calculateCAGR(100, 200, 0)).toBe(0)
+  })
+})
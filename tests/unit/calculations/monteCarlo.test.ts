@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { createSeededRandom, percentile, simulateMonteCarlo } from '@/lib/calculations/monteCarlo'
+import { calculateFutureValue } from '@/lib/calculations/lumpsum'
+import { MonteCarloParams } from '@/types'
+
+const SIP: MonteCarloParams = {
+  initialAmount: 0,
+  monthlyInvestment: 10000,
+  years: 10,
+  meanReturn: 12,
+  volatility: 18,
+  paths: 1000,
+  seed: 7,
+  targetAmount: 2300000,
+}
+
+describe('createSeededRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createSeededRandom(42)
+    const b = createSeededRandom(42)
+    const c = createSeededRandom(43)
+    const first = [a(), a(), a()]
+
+    expect([b(), b(), b()]).toEqual(first)
+    expect(c()).not.toBe(first[0])
+    first.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    })
+  })
+})
+
+describe('percentile', () => {
+  it('interpolates between neighbouring values', () => {
+    expect(percentile([10, 20, 30, 40, 50], 50)).toBe(30)
+    expect(percentile([10, 20, 30, 40, 50], 10)).toBe(14)
+  })
+})
+
+describe('simulateMonteCarlo', () => {
+  it('is reproducible for a seed and orders the percentile bands', () => {
+    const result = simulateMonteCarlo(SIP)
+
+    expect(simulateMonteCarlo(SIP)).toEqual(result)
+    expect(result.years).toHaveLength(11)
+    expect(result.years[10].invested).toBe(1200000)
+    expect(result.p10).toBeLessThan(result.p50)
+    expect(result.p50).toBeLessThan(result.p90)
+    expect(result.probabilityOfTarget).toBeGreaterThan(0)
+    expect(result.probabilityOfTarget).toBeLessThan(100)
+  })
+
+  it('collapses to the fixed-rate value without volatility', () => {
+    const result = simulateMonteCarlo({ ...SIP, initialAmount: 500000, monthlyInvestment: 0, volatility: 0, paths: 10 })
+    const expected = calculateFutureValue(500000, 12, 10)
+
+    expect(result.p10).toBeCloseTo(expected, -1)
+    expect(result.p90).toBeCloseTo(expected, -1)
+    expect(result.probabilityOfTarget).toBe(0)
+  })
+
+  it('widens the band as volatility rises', () => {
+    const calm = simulateMonteCarlo({ ...SIP, volatility: 8 })
+    const wild = simulateMonteCarlo({ ...SIP, volatility: 25 })
+
+    expect(wild.p90 - wild.p10).toBeGreaterThan(calm.p90 - calm.p10)
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { calculateNPS, calculateNPSTaxBenefit, getNPSAllocation } from '@/lib/calculations/nps'
+
+const active = { equity: 75, corporateBonds: 15, governmentBonds: 10 }
+
+describe('getNPSAllocation', () => {
+  it('follows the lifecycle glide path between 35 and 55', () => {
+    expect(getNPSAllocation('LC75', 30, active)).toEqual({ equity: 75, corporateBonds: 10, governmentBonds: 15 })
+    expect(getNPSAllocation('LC75', 45, active)).toEqual({ equity: 45, corporateBonds: 10, governmentBonds: 45 })
+    expect(getNPSAllocation('LC50', 58, active)).toEqual({ equity: 10, corporateBonds: 10, governmentBonds: 80 })
+  })
+
+  it('caps active choice equity after 50', () => {
+    expect(getNPSAllocation('active', 56, active)).toEqual({ equity: 60, corporateBonds: 15, governmentBonds: 25 })
+  })
+})
+
+describe('calculateNPS', () => {
+  it('splits the corpus at 60 into a lump sum and an annuity', () => {
+    const result = calculateNPS({
+      currentAge: 50,
+      monthlyContribution: 10000,
+      employerMonthly: 5000,
+      annualStepUp: 0,
+      currentCorpus: 200000,
+      choice: 'LC50',
+      activeAllocation: active,
+      expectedReturns: { equity: 0, corporateBonds: 0, governmentBonds: 0 },
+      annuityPercent: 40,
+      annuityRate: 6,
+    })
+
+    expect(result.breakdown).toHaveLength(10)
+    expect(result.totalContribution).toBe(1800000)
+    expect(result.corpus).toBe(2000000)
+    expect(result.lumpSum).toBe(1200000)
+    expect(result.annuityCorpus).toBe(800000)
+    expect(result.monthlyPension).toBe(4000)
+  })
+})
+
+describe('calculateNPSTaxBenefit', () => {
+  it('allows 80CCD(1B) only in the old regime and a higher 80CCD(2) limit in the new one', () => {
+    const old = calculateNPSTaxBenefit(60000, 100000, 600000, 'old', '2024-25', 30)
+    expect(old.deduction80CCD1B).toBe(50000)
+    expect(old.deduction80CCD2).toBe(60000)
+    expect(old.taxSaved).toBe(34320)
+
+    const regimeNew = calculateNPSTaxBenefit(60000, 100000, 600000, 'new', '2024-25', 30)
+    expect(regimeNew.deduction80CCD1B).toBe(0)
+    expect(regimeNew.deduction80CCD2).toBe(84000)
+    expect(regimeNew.taxSaved).toBe(26208)
+  })
+})
@@ -0,0 +1,13 @@
+import { describe, it, expect } from 'vitest'
+import { calculatePPF } from '@/lib/calculations/ppf'
+
+describe('calculatePPF', () => {
+  it('compounds yearly with deposits at the start of the year', () => {
+    const { result, breakdown } = calculatePPF(150000, 7.1, 15)
+
+    expect(result.totalDeposit).toBe(2250000)
+    expect(result.maturityValue).toBe(4068209)
+    expect(breakdown).toHaveLength(15)
+    expect(breakdown[0].balance).toBe(160650)
+  })
+})
@@ -0,0 +1,12 @@
+import { describe, it, expect } from 'vitest'
+import { calculateRD } from '@/lib/calculations/rd'
+
+describe('calculateRD', () => {
+  it('compounds each deposit quarterly', () => {
+    const { result, breakdown } = calculateRD(5000, 7, 60)
+
+    expect(result.totalDeposit).toBe(300000)
+    expect(result.maturityValue).toBe(359664)
+    expect(breakdown).toHaveLength(20)
+  })
+})
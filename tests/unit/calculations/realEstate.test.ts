@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateCapitalGains,
+  calculateReinvestmentProjection,
+  calculateSplitBracketTax,
+  getFinancialYear,
+  getHoldingPeriod,
+} from '@/lib/calculations/realEstate'
+
+const property = {
+  propertyType: 'residential' as const,
+  purchaseDate: '2015-06-01',
+  purchasePrice: 5000000,
+  stampDuty: 0,
+  improvementCost: 0,
+  improvementDate: '',
+  saleDate: '2025-06-01',
+  salePrice: 10000000,
+  brokerage: 0,
+  legalFees: 0,
+}
+
+describe('getFinancialYear', () => {
+  it('starts the financial year in April', () => {
+    expect(getFinancialYear(new Date(2025, 2, 31))).toBe('2024')
+    expect(getFinancialYear(new Date(2025, 3, 1))).toBe('2025')
+  })
+})
+
+describe('getHoldingPeriod', () => {
+  it('treats 24 months or more as long term', () => {
+    expect(getHoldingPeriod(new Date('2023-01-01'), new Date('2025-01-15')).isLongTerm).toBe(true)
+    expect(getHoldingPeriod(new Date('2024-01-01'), new Date('2025-01-15')).isLongTerm).toBe(false)
+  })
+})
+
+describe('calculateCapitalGains', () => {
+  it('compares indexed and non-indexed LTCG for pre-July 2024 purchases', () => {
+    const result = calculateCapitalGains(property)
+
+    expect(result.canChooseRegime).toBe(true)
+    expect(result.indexedPurchaseCost).toBe(7401575)
+    expect(result.oldRegime!.capitalGain).toBe(2598425)
+    expect(result.newRegime!.totalTax).toBe(650000)
+    expect(result.recommendedRegime).toBe('old')
+  })
+
+  it('taxes short-term gains at the slab rate', () => {
+    const result = calculateCapitalGains({ ...property, purchaseDate: '2024-12-01' })
+
+    expect(result.holdingPeriod.isLongTerm).toBe(false)
+    expect(result.taxRate).toBe(30)
+  })
+})
+
+describe('calculateSplitBracketTax', () => {
+  it('taxes additional income from the current bracket upwards', () => {
+    const result = calculateSplitBracketTax({
+      additionalIncome: 500000,
+      currentTaxableIncome: 1000000,
+      regime: 'new',
+      fy: '2024-25',
+    })
+
+    expect(result.breakdown).toEqual([
+      { rate: 15, amount: 200000, tax: 30000 },
+      { rate: 20, amount: 300000, tax: 60000 },
+    ])
+    expect(result.tax).toBe(93600)
+  })
+})
+
+describe('calculateReinvestmentProjection', () => {
+  const allocation = {
+    personalUse: { enabled: true, amount: 1000000 },
+    bonds: { enabled: true, amount: 6000000 },
+    realEstate: { enabled: true, amount: 0, appreciationRate: 10, enableRental: true, monthlyRent: 20000, rentStartMonth: 6 },
+  }
+
+  it('caps bonds at ₹50 lakh and puts the rest in property', () => {
+    const projection = calculateReinvestmentProjection(10000000, allocation, 30, '2025-26')
+
+    expect(projection.bondsAmount).toBe(5000000)
+    expect(projection.realEstateAmount).toBe(4000000)
+    expect(projection.unallocated).toBe(0)
+  })
+
+  it('projects bond interest and property returns after tax', () => {
+    const projection = calculateReinvestmentProjection(10000000, allocation, 30, '2025-26')
+
+    expect(projection.bonds.totalInterest).toBe(1312500)
+    expect(projection.bonds.taxOnInterest).toBe(Math.round(1312500 * 0.3 * 1.04))
+    expect(projection.realEstate.projectedValue).toBe(5324000)
+    expect(projection.realEstate.totalRental).toBe(600000)
+    expect(projection.realEstate.taxOnAppreciation).toBe(Math.round(1324000 * 0.125 * 1.04))
+    expect(projection.totalProjectedValue).toBe(
+      1000000 + projection.bonds.netValue + projection.realEstate.netValue
+    )
+  })
+
+  it('taxes appreciation at the year\'s property LTCG rate', () => {
+    const projection = calculateReinvestmentProjection(10000000, allocation, 30, '2023-24')
+
+    expect(projection.realEstate.taxOnAppreciation).toBe(Math.round(1324000 * 0.2 * 1.04))
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { calculateRequiredCorpus, calculateRetirement, simulateRetirementDrawdown } from '@/lib/calculations/retirement'
+import { calculateRequiredSIP } from '@/lib/calculations/sip'
+import { RetirementParams } from '@/types'
+
+const PARAMS: RetirementParams = {
+  currentAge: 30,
+  retirementAge: 60,
+  lifeExpectancy: 85,
+  monthlyExpenses: 50000,
+  inflation: 6,
+  preRetirementReturn: 12,
+  postRetirementReturn: 8,
+  savings: {
+    epf: { balance: 500000, rate: 8.25 },
+    ppf: { balance: 200000, rate: 7.1 },
+    nps: { balance: 0, rate: 10 },
+    other: { balance: 0, rate: 10 },
+  },
+}
+
+describe('calculateRequiredCorpus', () => {
+  it('needs exactly the sum of expenses when returns match inflation', () => {
+    expect(calculateRequiredCorpus(600000, 6, 6, 25)).toBe(15000000)
+  })
+})
+
+describe('calculateRetirement', () => {
+  it('inflates expenses, subtracts existing savings and sizes the SIP for the gap', () => {
+    const result = calculateRetirement(PARAMS)
+
+    expect(result.monthlyExpenseAtRetirement).toBe(287175)
+    expect(result.requiredCorpus).toBe(69468933)
+    expect(result.savingsAtRetirement.epf).toBe(5392711)
+    expect(result.existingCorpus).toBe(6958431)
+    expect(result.corpusGap).toBe(62510501)
+    expect(result.requiredSIP).toBe(calculateRequiredSIP(result.corpusGap, 12, 30))
+  })
+
+  it('draws the required corpus down to zero by life expectancy', () => {
+    const { drawdown } = calculateRetirement(PARAMS)
+
+    expect(drawdown).toHaveLength(25)
+    expect(drawdown[0].age).toBe(60)
+    expect(drawdown[24].closingBalance).toBe(0)
+    expect(drawdown[24].withdrawal).toBe(drawdown[24].openingBalance)
+  })
+
+  it('needs no SIP when existing savings already cover the corpus', () => {
+    const result = calculateRetirement({ ...PARAMS, savings: { ...PARAMS.savings, other: { balance: 20000000, rate: 10 } } })
+
+    expect(result.corpusGap).toBe(0)
+    expect(result.requiredSIP).toBe(0)
+    expect(result.projectedCorpus).toBe(result.existingCorpus)
+  })
+})
+
+describe('simulateRetirementDrawdown', () => {
+  it('stops withdrawing once the corpus runs out', () => {
+    const drawdown = simulateRetirementDrawdown(1000000, 300000, 0, 0, 60, 70)
+
+    expect(drawdown.map((y) => y.withdrawal)).toEqual([300000, 300000, 300000, 100000, 0, 0, 0, 0, 0, 0])
+  })
+})
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateSalary,
+  calculateTaxWithBreakdown,
+  calculatePayroll,
+  optimizeSalaryStructure,
+} from '@/lib/calculations/salary'
+
+describe('calculateTaxWithBreakdown', () => {
+  it('reports the tax in each slab', () => {
+    const { breakdown, totalTax, cess } = calculateTaxWithBreakdown(1053000, 'new', '2024-25')
+
+    expect(totalTax).toBe(57950)
+    expect(cess).toBe(2318)
+    expect(breakdown.map((b) => b.tax)).toEqual([0, 20000, 30000, 7950, 0, 0])
+  })
+})
+
+describe('calculateSalary', () => {
+  it('derives monthly in-hand pay from CTC', () => {
+    const result = calculateSalary(1200000, 50, 50, 12, 200, 'new', '2024-25')
+
+    expect(result.basicSalary).toBe(50000)
+    expect(result.hra).toBe(25000)
+    expect(result.pf).toBe(6000)
+    expect(result.taxableIncome).toBe(1053000)
+    expect(result.incomeTax).toBe(5022)
+    expect(result.netSalary).toBe(88778)
+  })
+
+  it('takes employer PF, EDLI, admin and gratuity out of CTC before gross', () => {
+    const result = calculateSalary(1200000, 50, 50, 12, 200, 'new', '2024-25', {
+      enabled: true,
+      pfWageCeiling: false,
+      includeGratuity: true,
+    })
+    const employerCost =
+      result.employerEpf + result.employerEps + result.edli + result.pfAdmin + result.gratuityProvision + result.employerEsi
+
+    expect(result.employerEps).toBe(1250)
+    expect(result.employerEpf).toBe(4750)
+    expect(result.gratuityProvision).toBe(2405)
+    expect(result.grossSalary).toBe(91270)
+    expect(result.grossSalary + employerCost).toBe(100000)
+    expect(result.netSalary).toBe(result.grossSalary - result.pf - result.professionalTax - result.incomeTax)
+  })
+
+  it('caps PF at the wage ceiling and applies ESI to low salaries', () => {
+    const result = calculateSalary(240000, 50, 50, 12, 0, 'new', '2024-25', {
+      enabled: true,
+      pfWageCeiling: true,
+      includeGratuity: true,
+    })
+
+    expect(result.esiApplicable).toBe(true)
+    expect(result.employerEsi).toBe(573)
+    expect(result.employeeEsi).toBe(133)
+    expect(result.grossSalary).toBe(17646)
+    expect(result.netSalary).toBe(17646 - 1200 - 133)
+
+    const capped = calculateSalary(1200000, 50, 50, 12, 200, 'new', '2024-25', {
+      enabled: true,
+      pfWageCeiling: true,
+      includeGratuity: false,
+    })
+    expect(capped.pf).toBe(1800)
+    expect(capped.employerEpf + capped.employerEps).toBe(1800)
+    expect(capped.esiApplicable).toBe(false)
+  })
+})
+
+describe('optimizeSalaryStructure', () => {
+  const params = {
+    ctc: 1800000,
+    rentPaid: 30000,
+    isMetro: true,
+    pfPercent: 12,
+    professionalTax: 200,
+    phoneBills: 1000,
+    travelSpend: 40000,
+    includeNps: true,
+    fy: '2025-26' as const,
+  }
+
+  it('splits the whole CTC into compliant components', () => {
+    const result = optimizeSalaryStructure(params)
+
+    for (const s of [result.old, result.new]) {
+      expect(s.basicPercent).toBeGreaterThanOrEqual(50)
+      expect(s.basic + s.hra + s.employerNps + s.mealCard + s.telephone + s.lta + s.specialAllowance).toBe(params.ctc)
+      expect(s.explanation.length).toBeGreaterThan(0)
+    }
+    expect(result.old.mealCard).toBe(26400)
+    expect(result.new.mealCard).toBe(0)
+    expect(result.old.employerNps).toBe(Math.round(result.old.basic * 0.1))
+    expect(result.new.employerNps).toBe(Math.round(result.new.basic * 0.14))
+    expect(result.new.hra).toBe(0)
+    expect(result.old.hra).toBe(Math.round(result.old.basic * 0.5))
+  })
+
+  it('keeps basic at the minimum when nothing depends on it', () => {
+    const result = optimizeSalaryStructure({ ...params, rentPaid: 0, includeNps: false })
+
+    expect(result.new.basicPercent).toBe(50)
+    expect(result.new.employerNps).toBe(0)
+    expect(result.best).toBe(result.old.takeHome > result.new.takeHome ? 'old' : 'new')
+  })
+})
+
+describe('calculatePayroll', () => {
+  const params = {
+    ctc: 1200000,
+    basicPercent: 50,
+    hraPercent: 50,
+    pfPercent: 12,
+    professionalTax: 200,
+    regime: 'new' as const,
+    fy: '2024-25' as const,
+    joiningMonth: 0,
+    incrementPercent: 0,
+    incrementMonth: 6,
+    variablePay: 0,
+    variablePayMonth: 11,
+    bonuses: [],
+    previousEmployerIncome: 0,
+    previousEmployerTds: 0,
+  }
+
+  it('matches the flat monthly tax when nothing changes mid-year', () => {
+    const result = calculatePayroll(params)
+
+    expect(result.months).toHaveLength(12)
+    expect(result.months[0].month).toBe('Apr 2024')
+    expect(result.months[11].month).toBe('Mar 2025')
+    expect(result.months[0].tds).toBe(calculateSalary(1200000, 50, 50, 12, 200, 'new', '2024-25').incomeTax)
+    expect(result.totalTds).toBe(result.annualTax)
+    expect(result.balanceTax).toBe(0)
+  })
+
+  it('deducts tax on a bonus in the month it is paid and re-spreads after an increment', () => {
+    const result = calculatePayroll({ ...params, incrementPercent: 10, incrementMonth: 3, bonuses: [{ id: 1, month: 6, amount: 100000 }] })
+    const [apr, , , jul, , , oct, nov] = result.months
+
+    expect(jul.tds).toBeGreaterThan(apr.tds)
+    expect(oct.tds).toBeGreaterThan(nov.tds)
+    expect(nov.tds).toBe(jul.tds)
+    expect(result.balanceTax).toBe(0)
+  })
+
+  it('counts the previous employer income and TDS from Form 12B', () => {
+    const result = calculatePayroll({ ...params, joiningMonth: 6, previousEmployerIncome: 600000, previousEmployerTds: 20000 })
+
+    expect(result.months[5].gross).toBe(0)
+    expect(result.months[5].tds).toBe(0)
+    expect(result.totalTds + 20000).toBe(result.annualTax)
+  })
+})
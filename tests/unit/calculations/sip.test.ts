@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateSIP,
+  calculateSIPFutureValue,
+  calculateSIPSummary,
+  generateSIPBreakdown,
+  calculateRequiredSIP,
+  calculateStepUpSIP,
+} from '@/lib/calculations/sip'
+
+describe('calculateSIPFutureValue', () => {
+  it('compounds start-of-month investments', () => {
+    expect(calculateSIPFutureValue(10000, 12, 120)).toBeCloseTo(2323390.76, 2)
+  })
+
+  it('returns plain contributions at zero return', () => {
+    expect(calculateSIPFutureValue(10000, 0, 120)).toBe(1200000)
+  })
+})
+
+describe('calculateSIPSummary', () => {
+  it('splits maturity into invested amount and returns', () => {
+    const summary = calculateSIPSummary(10000, 12, 10)
+
+    expect(summary.totalInvestment).toBe(1200000)
+    expect(summary.maturityValue).toBe(2323391)
+    expect(summary.expectedReturns).toBe(1123391)
+  })
+
+  it('agrees with the legacy SIP contract', () => {
+    const legacy = calculateSIP({ monthlyAmount: 10000, rate: 12, tenure: 10 })
+
+    expect(legacy.maturityValue).toBe(calculateSIPSummary(10000, 12, 10).maturityValue)
+  })
+})
+
+describe('generateSIPBreakdown', () => {
+  it('ends at the maturity value', () => {
+    const breakdown = generateSIPBreakdown(10000, 12, 10)
+
+    expect(breakdown).toHaveLength(10)
+    expect(breakdown[9].value).toBe(2323391)
+  })
+})
+
+describe('calculateRequiredSIP', () => {
+  it('inverts the future value', () => {
+    expect(calculateRequiredSIP(2323391, 12, 10)).toBe(10000)
+  })
+})
+
+describe('calculateStepUpSIP', () => {
+  it('matches a flat SIP at zero step-up', () => {
+    const base = calculateSIPSummary(10000, 12, 10)
+    const result = calculateStepUpSIP(10000, 12, 10, 0, base)
+
+    expect(result.maturityValue).toBe(base.maturityValue)
+    expect(result.extraReturns).toBeCloseTo(0)
+  })
+
+  it('raises the monthly investment every year', () => {
+    const base = calculateSIPSummary(10000, 12, 2)
+    const result = calculateStepUpSIP(10000, 12, 2, 10, base)
+
+    expect(result.totalInvestment).toBe(120000 + 132000)
+    expect(result.extraReturns).toBeGreaterThan(0)
+  })
+})
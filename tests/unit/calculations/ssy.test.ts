@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { calculateSSY } from '@/lib/calculations/ssy'
+
+describe('calculateSSY', () => {
+  it('deposits for 15 years and keeps compounding until maturity at 21 years', () => {
+    const result = calculateSSY({ openingAge: 5, yearlyDeposit: 150000, interestRate: 8.2, withdrawalPercent: 0 })
+
+    expect(result.breakdown).toHaveLength(21)
+    expect(result.totalDeposit).toBe(2250000)
+    expect(result.breakdown[0].balance).toBe(162300)
+    expect(result.breakdown[15].deposit).toBe(0)
+    expect(result.maturityAge).toBe(26)
+    expect(result.maturityValue).toBe(7182119)
+  })
+
+  it('takes the partial withdrawal from the balance in the year the girl turns 18', () => {
+    const result = calculateSSY({ openingAge: 5, yearlyDeposit: 150000, interestRate: 8.2, withdrawalPercent: 50 })
+    const row = result.breakdown.find((r) => r.age === 18)!
+
+    expect(row.withdrawal).toBe(result.withdrawal)
+    expect(row.balance).toBe(row.withdrawal)
+    expect(result.breakdown.filter((r) => r.withdrawal > 0)).toHaveLength(1)
+    expect(result.maturityValue).toBeLessThan(7182119)
+  })
+
+  it('clamps deposits and the withdrawal share to the scheme limits', () => {
+    const result = calculateSSY({ openingAge: 0, yearlyDeposit: 500000, interestRate: 8.2, withdrawalPercent: 80 })
+    const row = result.breakdown.find((r) => r.age === 18)!
+
+    expect(result.totalDeposit).toBe(2250000)
+    expect(row.balance).toBe(row.withdrawal)
+  })
+})
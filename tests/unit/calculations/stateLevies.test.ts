@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { calculateStateLevies } from '@/lib/calculations/stateLevies'
+
+describe('calculateStateLevies', () => {
+  it('collects ₹300 in February so Maharashtra totals ₹2,500 a year', () => {
+    const result = calculateStateLevies('maharashtra', 80000, 'male')
+
+    expect(result.professionalTaxByMonth[0]).toBe(200)
+    expect(result.professionalTaxByMonth[10]).toBe(300)
+    expect(result.annualProfessionalTax).toBe(2500)
+    expect(result.labourWelfareFundByMonth[2]).toBe(25)
+    expect(result.annualLabourWelfareFund).toBe(50)
+    expect(result.employerLabourWelfareFund).toBe(150)
+  })
+
+  it('uses the higher threshold for women where the state has one', () => {
+    expect(calculateStateLevies('maharashtra', 20000, 'female').annualProfessionalTax).toBe(0)
+    expect(calculateStateLevies('maharashtra', 20000, 'male').annualProfessionalTax).toBe(2500)
+    expect(calculateStateLevies('karnataka', 20000, 'female').genderSpecific).toBe(false)
+  })
+
+  it('deducts Tamil Nadu professional tax half-yearly on six months of gross', () => {
+    const result = calculateStateLevies('tamil-nadu', 9000, 'male')
+
+    expect(result.professionalTaxByMonth[5]).toBe(930)
+    expect(result.professionalTaxByMonth[11]).toBe(930)
+    expect(result.annualProfessionalTax).toBe(1860)
+  })
+
+  it('has no professional tax in states that do not levy it', () => {
+    const result = calculateStateLevies('delhi', 100000, 'male')
+
+    expect(result.annualProfessionalTax).toBe(0)
+    expect(result.annualLabourWelfareFund).toBe(1.5)
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { calculateSWP } from '@/lib/calculations/swp'
+import { SWPParams } from '@/types'
+
+const BASE: SWPParams = {
+  corpus: 10000000,
+  monthlyWithdrawal: 50000,
+  expectedReturn: 8,
+  withdrawalIncrease: 0,
+  years: 10,
+  startMonth: '2025-04',
+}
+
+describe('calculateSWP', () => {
+  it('matches the closed-form balance for a level withdrawal', () => {
+    const result = calculateSWP(BASE)
+    const r = 0.08 / 12
+    const growth = Math.pow(1 + r, 120)
+    const expected = 10000000 * growth - 50000 * ((growth - 1) / r)
+
+    expect(result.months).toHaveLength(120)
+    expect(result.depletionMonth).toBeNull()
+    expect(result.totalWithdrawn).toBe(6000000)
+    expect(result.finalBalance).toBeCloseTo(expected, -1)
+    expect(result.taxYears).toEqual([])
+  })
+
+  it('steps up the withdrawal yearly and stops when the corpus runs out', () => {
+    const result = calculateSWP({ ...BASE, corpus: 1000000, monthlyWithdrawal: 40000, expectedReturn: 0, withdrawalIncrease: 10 })
+
+    expect(result.months[11].withdrawal).toBe(40000)
+    expect(result.months[12].withdrawal).toBe(44000)
+    // 4.8L in year one leaves 5.2L, which covers 11 withdrawals of 44,000 and 36,000 of a 12th
+    expect(result.depletionMonth).toBe(24)
+    expect(result.depletionDate).toBe('2027-03')
+    expect(result.months[23].withdrawal).toBe(36000)
+    expect(result.totalWithdrawn).toBe(1000000)
+    expect(result.finalBalance).toBe(0)
+  })
+
+  it('taxes the first year of withdrawals as short term and later ones as long term', () => {
+    const result = calculateSWP({
+      ...BASE,
+      corpus: 1000000,
+      monthlyWithdrawal: 20000,
+      expectedReturn: 12,
+      years: 2,
+      tax: { costBasis: 1000000, monthsHeld: 0 },
+    })
+    const [first, second] = result.taxYears
+
+    expect(result.taxYears.map((y) => y.fy)).toEqual(['2025-26', '2026-27'])
+    expect(first.longTermGain).toBe(0)
+    expect(first.shortTermGain).toBeGreaterThan(0)
+    expect(first.tax).toBe(Math.round(first.shortTermGain * 0.2 * 1.04))
+    expect(second.shortTermGain).toBe(0)
+    expect(second.exemption).toBe(second.longTermGain)
+    expect(second.tax).toBe(0)
+  })
+
+  it('redeems units with embedded gains and applies the 112A exemption', () => {
+    const result = calculateSWP({
+      ...BASE,
+      corpus: 5000000,
+      monthlyWithdrawal: 100000,
+      expectedReturn: 0,
+      years: 1,
+      tax: { costBasis: 2500000, monthsHeld: 36 },
+    })
+    const [year] = result.taxYears
+
+    // Half of every rupee withdrawn is gain on units held over a year
+    expect(year.longTermGain).toBe(600000)
+    expect(year.exemption).toBe(125000)
+    expect(year.tax).toBe(Math.round(475000 * 0.125 * 1.04))
+    expect(result.totalTax).toBe(year.tax)
+  })
+
+  it('sets a short-term loss off against long-term gains before the exemption', () => {
+    const result = calculateSWP({
+      ...BASE,
+      corpus: 1000000,
+      monthlyWithdrawal: 50000,
+      expectedReturn: 30,
+      years: 1,
+      tax: { costBasis: 1100000, monthsHeld: 6 },
+    })
+    const [year] = result.taxYears
+    const netLongTerm = year.longTermGain + year.shortTermGain
+
+    expect(year.shortTermGain).toBeLessThan(0)
+    expect(year.longTermGain).toBeGreaterThan(0)
+    expect(year.exemption).toBe(Math.min(netLongTerm, 125000))
+    expect(year.tax).toBe(Math.round(Math.max(0, netLongTerm - 125000) * 0.125 * 1.04))
+  })
+})
@@ -0,0 +1,271 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateTax,
+  calculateTaxBySlabs,
+  calculateRegimeTax,
+  calculateDeductions,
+  calculateBusinessIncome,
+  getMarginalBracket,
+  NO_TAX_DEDUCTIONS,
+  NO_CAPITAL_GAINS,
+} from '@/lib/calculations/tax'
+import { DeductionLine } from '@/types'
+import { getTaxRules, isFinancialYear, LATEST_FY } from '@/lib/calculations/taxRules'
+
+describe('calculateTaxBySlabs', () => {
+  it('applies each slab to the income inside it', () => {
+    const { old, new: newRegime } = getTaxRules('2024-25')
+
+    expect(calculateTaxBySlabs(775000, old.slabs)).toBe(67500)
+    expect(calculateTaxBySlabs(925000, newRegime.slabs)).toBe(42500)
+    expect(calculateTaxBySlabs(200000, newRegime.slabs)).toBe(0)
+  })
+})
+
+describe('calculateTax', () => {
+  it('compares regimes with cess', () => {
+    const result = calculateTax(1000000, { ...NO_TAX_DEDUCTIONS, section80C: 150000, section80DSelf: 25000 }, '2024-25')
+
+    expect(result.taxableIncome).toBe(775000)
+    expect(result.taxOldRegime).toBe(70200)
+    expect(result.taxNewRegime).toBe(44200)
+    expect(result.recommendation).toBe('new')
+    expect(result.savings).toBe(26000)
+  })
+
+  it('applies the 87A rebate under the new regime', () => {
+    expect(calculateTax(750000, NO_TAX_DEDUCTIONS, '2024-25').taxNewRegime).toBe(0)
+  })
+
+  it('uses the selected financial year rules', () => {
+    const fy24 = calculateTax(1275000, NO_TAX_DEDUCTIONS, '2024-25')
+    const fy25 = calculateTax(1275000, NO_TAX_DEDUCTIONS, '2025-26')
+
+    expect(fy24.taxableIncomeNew).toBe(1200000)
+    expect(fy24.taxNewRegime).toBeGreaterThan(0)
+    expect(fy25.newRegime.slabTax).toBe(60000)
+    expect(fy25.newRegime.rebate).toBe(60000)
+    expect(fy25.taxNewRegime).toBe(0)
+  })
+})
+
+describe('calculateDeductions', () => {
+  const findLine = (lines: DeductionLine[], section: string, label = '') =>
+    lines.find((line) => line.section === section && line.label.includes(label))!
+
+  it('caps each deduction at its statutory limit', () => {
+    const lines = calculateDeductions({
+      ...NO_TAX_DEDUCTIONS,
+      section80C: 200000,
+      section80CCD1B: 80000,
+      section80DSelf: 40000,
+      section80DParents: 60000,
+      parentsSenior: true,
+      donations50: 20000,
+      savingsInterest: 15000,
+      homeLoanInterest: 300000,
+    }, '2025-26')
+
+    expect(findLine(lines, '80C').allowedOld).toBe(150000)
+    expect(findLine(lines, '80CCD(1B)').allowedOld).toBe(50000)
+    expect(findLine(lines, '80D', 'Self').allowedOld).toBe(25000)
+    expect(findLine(lines, '80D', 'Parents').allowedOld).toBe(50000)
+    expect(findLine(lines, '80G', '50%').allowedOld).toBe(10000)
+    expect(findLine(lines, '80TTA').allowedOld).toBe(10000)
+    expect(findLine(lines, '24(b)').allowedOld).toBe(200000)
+    expect(lines.every((line) => line.section === '16(ia)' || line.section === '80CCD(2)' || line.allowedNew === 0)).toBe(true)
+  })
+
+  it('switches to 80TTB for senior citizens', () => {
+    const lines = calculateDeductions(
+      { ...NO_TAX_DEDUCTIONS, selfSenior: true, savingsInterest: 20000, depositInterest: 60000 },
+      '2025-26'
+    )
+
+    expect(findLine(lines, '80TTB').allowedOld).toBe(50000)
+    expect(lines.some((line) => line.section === '80TTA')).toBe(false)
+  })
+
+  it('caps employer NPS by regime and year', () => {
+    const deductions = { ...NO_TAX_DEDUCTIONS, basicSalary: 1000000, employerNps: 200000 }
+
+    expect(findLine(calculateDeductions(deductions, '2025-26'), '80CCD(2)').allowedOld).toBe(100000)
+    expect(findLine(calculateDeductions(deductions, '2025-26'), '80CCD(2)').allowedNew).toBe(140000)
+    expect(findLine(calculateDeductions(deductions, '2023-24'), '80CCD(2)').allowedNew).toBe(100000)
+  })
+
+  it('taxes interest in both regimes and limits 80TTA to it', () => {
+    const withInterest = calculateTax(1500000, { ...NO_TAX_DEDUCTIONS, savingsInterest: 8000, depositInterest: 40000 }, '2025-26')
+    const salaryOnly = calculateTax(1500000, NO_TAX_DEDUCTIONS, '2025-26')
+
+    expect(withInterest.otherIncome).toBe(48000)
+    expect(withInterest.grossIncome).toBe(1548000)
+    expect(withInterest.taxableIncome).toBe(salaryOnly.taxableIncome + 48000 - 8000)
+    expect(withInterest.taxableIncomeNew).toBe(salaryOnly.taxableIncomeNew + 48000)
+    expect(withInterest.taxOldRegime).toBeGreaterThan(salaryOnly.taxOldRegime)
+    expect(withInterest.taxNewRegime).toBeGreaterThan(salaryOnly.taxNewRegime)
+  })
+
+  it('allows no salary exemptions against business-only income', () => {
+    const deductions = {
+      ...NO_TAX_DEDUCTIONS,
+      section80C: 150000,
+      section80DSelf: 25000,
+      hra: 100000,
+      lta: 30000,
+      basicSalary: 600000,
+      employerNps: 60000,
+    }
+    const result = calculateTax(0, deductions, '2025-26', undefined, 1500000)
+
+    expect(findLine(result.deductions, '10(13A)').allowedOld).toBe(0)
+    expect(findLine(result.deductions, '10(5)').allowedOld).toBe(0)
+    expect(findLine(result.deductions, '80CCD(2)').allowedNew).toBe(0)
+    expect(result.totalDeductions).toBe(175000)
+    expect(findLine(calculateDeductions(deductions, '2025-26', 20000), '10(13A)').allowedOld).toBe(20000)
+  })
+
+  it('applies employer NPS in the new regime comparison', () => {
+    const result = calculateTax(2000000, { ...NO_TAX_DEDUCTIONS, basicSalary: 1000000, employerNps: 140000 }, '2025-26')
+
+    expect(result.totalDeductionsNew).toBe(75000 + 140000)
+    expect(result.taxableIncomeNew).toBe(2000000 - 215000)
+  })
+})
+
+describe('calculateRegimeTax', () => {
+  it('skips the rebate above the income limit', () => {
+    const result = calculateRegimeTax(1300000, 'new', '2025-26')
+
+    expect(result.slabTax).toBe(75000)
+    expect(result.rebate).toBe(0)
+    expect(result.cess).toBe(3000)
+    expect(result.totalTax).toBe(78000)
+  })
+})
+
+describe('marginal relief', () => {
+  it('caps tax just above the 87A rebate limit at the excess income', () => {
+    const result = calculateRegimeTax(1210000, 'new', '2025-26')
+
+    expect(result.slabTax).toBe(61500)
+    expect(result.rebateMarginalRelief).toBe(51500)
+    expect(result.taxAfterRebate).toBe(10000)
+  })
+
+  it('caps tax plus surcharge just above a surcharge threshold', () => {
+    const result = calculateRegimeTax(5010000, 'old', '2024-25')
+
+    expect(result.surchargeRate).toBe(10)
+    expect(result.surcharge).toBe(131550)
+    expect(result.surchargeMarginalRelief).toBe(124550)
+    expect(result.taxBeforeCess).toBe(1322500)
+  })
+
+  it('applies the full surcharge well above the threshold', () => {
+    const result = calculateRegimeTax(60000000, 'new', '2024-25')
+
+    expect(result.surchargeRate).toBe(25)
+    expect(result.surchargeMarginalRelief).toBe(0)
+    expect(result.surcharge).toBe(Math.round(result.taxAfterRebate * 0.25))
+  })
+})
+
+describe('capital gains', () => {
+  it('taxes equity gains at special rates after the 112A exemption', () => {
+    const result = calculateRegimeTax(2000000, 'new', '2025-26', {
+      ...NO_CAPITAL_GAINS,
+      stcg111A: 100000,
+      ltcg112A: 325000,
+    })
+    const [stcg, ltcg] = result.capitalGains
+
+    expect(stcg.tax).toBe(20000)
+    expect(ltcg.exemption).toBe(125000)
+    expect(ltcg.tax).toBe(25000)
+    expect(result.capitalGainsTax).toBe(45000)
+  })
+
+  it('sets the unused basic exemption off against the gains, highest rate first', () => {
+    const result = calculateRegimeTax(100000, 'old', '2024-25', {
+      ...NO_CAPITAL_GAINS,
+      stcg111A: 100000,
+      propertyLtcg: 500000,
+    })
+    const [stcg, property] = result.capitalGains
+
+    expect(stcg.basicExemptionUsed).toBe(100000)
+    expect(stcg.tax).toBe(0)
+    expect(property.basicExemptionUsed).toBe(50000)
+    expect(property.tax).toBe(Math.round(450000 * 0.125))
+  })
+
+  it('keeps the 87A rebate off special-rate tax in FY 2025-26', () => {
+    const result = calculateRegimeTax(600000, 'new', '2025-26', { ...NO_CAPITAL_GAINS, stcg111A: 200000 })
+
+    expect(result.slabTax).toBe(10000)
+    expect(result.rebate).toBe(10000)
+    expect(result.taxAfterRebate).toBe(40000)
+  })
+
+  it('adds debt fund gains to slab income', () => {
+    const withGains = calculateRegimeTax(1000000, 'new', '2025-26', { ...NO_CAPITAL_GAINS, debtFundGains: 500000 })
+
+    expect(withGains.slabTax).toBe(calculateRegimeTax(1500000, 'new', '2025-26').slabTax)
+    expect(withGains.capitalGains).toHaveLength(0)
+  })
+})
+
+describe('calculateBusinessIncome', () => {
+  it('deems 6% of digital and 8% of cash receipts under 44AD', () => {
+    const result = calculateBusinessIncome(
+      { scheme: '44AD', grossReceipts: 10000000, digitalPercent: 90, actualExpenses: 9000000 },
+      '2025-26'
+    )
+
+    expect(result.presumptiveIncome).toBe(620000)
+    expect(result.booksIncome).toBe(1000000)
+    expect(result.turnoverLimit).toBe(20000000)
+    expect(result.auditRequired).toBe(false)
+  })
+
+  it('raises the 44ADA limit when cash is within 5%', () => {
+    const input = { scheme: '44ADA' as const, grossReceipts: 6000000, digitalPercent: 100, actualExpenses: 4000000 }
+    const digital = calculateBusinessIncome(input, '2025-26')
+    const cash = calculateBusinessIncome({ ...input, digitalPercent: 90 }, '2025-26')
+
+    expect(digital.eligible).toBe(true)
+    expect(digital.presumptiveIncome).toBe(3000000)
+    expect(digital.auditRequired).toBe(true)
+    expect(cash.eligible).toBe(false)
+    expect(cash.turnoverLimit).toBe(5000000)
+  })
+
+  it('feeds business income into the regime comparison without a standard deduction', () => {
+    const businessOnly = calculateTax(0, NO_TAX_DEDUCTIONS, '2025-26', NO_CAPITAL_GAINS, 1000000)
+    const withSalary = calculateTax(40000, NO_TAX_DEDUCTIONS, '2025-26', NO_CAPITAL_GAINS, 1000000)
+
+    expect(businessOnly.grossIncome).toBe(1000000)
+    expect(businessOnly.taxableIncomeNew).toBe(1000000)
+    expect(withSalary.taxableIncomeNew).toBe(1000000)
+  })
+})
+
+describe('getMarginalBracket', () => {
+  it('reports the current and next slab rates', () => {
+    const bracket = getMarginalBracket(900000, getTaxRules('2024-25').new.slabs)
+
+    expect(bracket.marginalRate).toBe(10)
+    expect(bracket.nextBracketRate).toBe(15)
+    expect(bracket.roomInBracket).toBe(100000)
+  })
+})
+
+describe('tax rules registry', () => {
+  it('validates stored financial years', () => {
+    expect(isFinancialYear('2024-25')).toBe(true)
+    expect(isFinancialYear('2019-20')).toBe(false)
+    expect(isFinancialYear(undefined)).toBe(false)
+    expect(LATEST_FY).toBe('2025-26')
+  })
+})
@@ -0,0 +1,11 @@
+import { describe, it, expect } from 'vitest'
+import { getTimeInTimezone } from '@/lib/calculations/timezone'
+
+describe('getTimeInTimezone', () => {
+  it('reads the wall clock in another timezone', () => {
+    const now = new Date('2025-01-01T00:00:00Z')
+
+    expect(getTimeInTimezone('Asia/Kolkata', now).hour).toBe(5)
+    expect(getTimeInTimezone('America/New_York', now).date).toBe('Tue, Dec 31')
+  })
+})
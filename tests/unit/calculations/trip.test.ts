@@ -0,0 +1,14 @@
+import { describe, it, expect } from 'vitest'
+import { calculateTrip } from '@/lib/calculations/trip'
+
+describe('calculateTrip', () => {
+  it('adds per-person daily costs to fixed travel costs', () => {
+    const result = calculateTrip('Goa', 2, 5, 'standard', 40000, 25000)
+
+    expect(result.breakdown.food).toBe(20000)
+    expect(result.breakdown.shopping).toBe(3000)
+    expect(result.totalBudget).toBe(123000)
+    expect(result.perPersonBudget).toBe(61500)
+    expect(result.perDayBudget).toBe(24600)
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculatePortfolioXIRR,
+  calculateXIRR,
+  parseTransactionDate,
+  parseTransactionsCSV,
+} from '@/lib/calculations/xirr'
+
+describe('calculateXIRR', () => {
+  it('matches the simple annual return for a one-year holding', () => {
+    const xirr = calculateXIRR([
+      { date: '2021-01-01', amount: -100000 },
+      { date: '2022-01-01', amount: 110000 },
+    ])
+
+    expect(xirr).toBeCloseTo(10, 4)
+  })
+
+  it('handles several dated investments and a withdrawal', () => {
+    const xirr = calculateXIRR([
+      { date: '2020-01-01', amount: -10000 },
+      { date: '2020-07-01', amount: -10000 },
+      { date: '2021-01-01', amount: 2000 },
+      { date: '2022-01-01', amount: 21000 },
+    ])
+
+    expect(xirr).toBeCloseTo(8.75, 2)
+  })
+
+  it('returns null without both inflows and outflows', () => {
+    expect(calculateXIRR([{ date: '2020-01-01', amount: -1000 }])).toBeNull()
+  })
+})
+
+describe('calculatePortfolioXIRR', () => {
+  it('values investments and withdrawals against the current value', () => {
+    const summary = calculatePortfolioXIRR(
+      [
+        { date: '2020-01-01', amount: 10000, type: 'invest' },
+        { date: '2020-07-01', amount: 10000, type: 'invest' },
+        { date: '2021-01-01', amount: 2000, type: 'withdraw' },
+      ],
+      21000,
+      '2022-01-01'
+    )
+
+    expect(summary.xirr).toBeCloseTo(8.75, 2)
+    expect(summary.totalInvested).toBe(20000)
+    expect(summary.totalWithdrawn).toBe(2000)
+    expect(summary.netGain).toBe(3000)
+    expect(summary.absoluteReturn).toBe(15)
+    expect(summary.firstDate).toBe('2020-01-01')
+  })
+
+  it('returns no XIRR when the current value has no valuation date', () => {
+    const transactions = [{ date: '2023-01-01', amount: 1000, type: 'invest' as const }]
+
+    expect(calculatePortfolioXIRR(transactions, 1200, '').xirr).toBeNull()
+    expect(calculatePortfolioXIRR(transactions, 1200, '2024-02-30').xirr).toBeNull()
+    expect(calculatePortfolioXIRR(transactions, 1200, '').netGain).toBe(200)
+  })
+})
+
+describe('parseTransactionsCSV', () => {
+  it('reads dates, amounts and transaction types from a statement', () => {
+    const csv = [
+      'Date,Scheme,Transaction Type,Amount',
+      '05-Jan-2023,Index Fund,SIP Purchase,"5,000"',
+      '15/03/2022,Index Fund,Purchase,₹25000',
+      '2023-06-10,Index Fund,Redemption,8000',
+      'Total,,,38000',
+    ].join('\n')
+
+    expect(parseTransactionsCSV(csv)).toEqual({
+      transactions: [
+        { date: '2022-03-15', amount: 25000, type: 'invest' },
+        { date: '2023-01-05', amount: 5000, type: 'invest' },
+        { date: '2023-06-10', amount: 8000, type: 'withdraw' },
+      ],
+      skipped: 1,
+    })
+  })
+
+  it('treats negative amounts as withdrawals when there is no header or type', () => {
+    const { transactions } = parseTransactionsCSV('2021-04-01,10000\n2022-04-01,(2500)\n2023-04-01,-1500')
+
+    expect(transactions.map((t) => t.type)).toEqual(['invest', 'withdraw', 'withdraw'])
+    expect(transactions[1].amount).toBe(2500)
+  })
+
+  it('rejects impossible dates', () => {
+    expect(parseTransactionDate('31-02-2023')).toBeNull()
+    expect(parseTransactionDate('1 Sept 2023')).toBe('2023-09-01')
+  })
+})